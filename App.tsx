@@ -15,6 +15,10 @@ import { ServiceFactory } from "./src/services/ServiceFactory";
 import AuthService from "./src/services/AuthService";
 import { RemoteConfigService } from "./src/services/RemoteConfigService";
 import { navigationRef } from "./src/navigation/navigationRef";
+import { DreamStorageService } from "./src/services/DreamStorageService";
+import { SyncService } from "./src/services/SyncService";
+import { AutomationService } from "./src/services/AutomationService";
+import { TrashService } from "./src/services/TrashService";
 
 // Keep the splash screen visible while we fetch resources
 SplashScreen.preventAutoHideAsync().catch(() => {
@@ -63,6 +67,7 @@ function AppContent() {
   const setUser = useAuthStore(state => state.setUser);
   const setRole = useAuthStore(state => state.setRole);
   const setSparkAdminRoles = useAuthStore(state => state.setSparkAdminRoles);
+  const isSparkStoreHydrated = useSparkStore(state => state.isHydrated);
 
   // Initialize Remote Config and authentication when app starts
   useEffect(() => {
@@ -84,6 +89,7 @@ function AppContent() {
             user ? user.email : "signed out"
           );
           setUser(user);
+          SyncService.setUser(user && !user.isAnonymous ? user.uid : null);
 
           if (user) {
             // Load user roles
@@ -141,6 +147,37 @@ function AppContent() {
     initializeAnalytics();
   }, []);
 
+  // Cloud sync needs the local spark data loaded first
+  useEffect(() => {
+    if (!isSparkStoreHydrated) return;
+    SyncService.start().catch((error) => {
+      console.error("❌ App: Failed to start spark data sync", error);
+    });
+    return () => SyncService.stop();
+  }, [isSparkStoreHydrated]);
+
+  // Automations run against spark data, so start them once it has loaded
+  useEffect(() => {
+    if (!isSparkStoreHydrated) return;
+    AutomationService.start();
+    return () => AutomationService.stop();
+  }, [isSparkStoreHydrated]);
+
+  // Purging deleted items also removes their files, which needs the spark data loaded
+  useEffect(() => {
+    if (!isSparkStoreHydrated) return;
+    TrashService.purgeExpired().catch((error) => {
+      console.error("❌ App: Failed to purge expired trash", error);
+    });
+  }, [isSparkStoreHydrated]);
+
+  // Dream Catcher keeps its entries outside sparkStore, so load them into global search here
+  useEffect(() => {
+    DreamStorageService.indexForSearch().catch((error) => {
+      console.error("❌ App: Failed to index dreams for search", error);
+    });
+  }, []);
+
   // Hide splash screen when the root view has mounted
   useEffect(() => {
     const hideSplash = async () => {
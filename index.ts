@@ -1,4 +1,10 @@
 import { registerRootComponent } from 'expo';
+import { getRandomValues } from 'expo-crypto';
+
+// Hermes has no Web Crypto; private spark encryption draws its random bytes from crypto.getRandomValues
+if (typeof globalThis.crypto?.getRandomValues !== 'function') {
+  (globalThis as any).crypto = { ...globalThis.crypto, getRandomValues };
+}
 
 import App from './App';
 
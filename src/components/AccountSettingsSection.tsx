@@ -1,11 +1,19 @@
 import React, { useEffect, useState } from 'react';
 import { View, Text, StyleSheet, Alert, Platform } from 'react-native';
 import { useTheme } from '../contexts/ThemeContext';
-import { SettingsSection } from './SettingsComponents';
+import { SettingsSection, SettingsButton } from './SettingsComponents';
 import { SignInButton, SignInWithAppleButton, UserProfile, SignOutButton } from './AuthComponents';
 import { useAuthStore } from '../store/authStore';
 import AuthService from '../services/AuthService';
 import { HapticFeedback } from '../utils/haptics';
+import { SyncService, SyncStatus } from '../services/SyncService';
+
+const SYNC_STATUS_TEXT: Record<SyncStatus, string> = {
+  'signed-out': 'Not syncing',
+  idle: 'Up to date',
+  syncing: 'Syncing…',
+  offline: 'Offline, changes will sync later',
+};
 
 export const AccountSettingsSection: React.FC = () => {
   const { colors } = useTheme();
@@ -13,6 +21,9 @@ export const AccountSettingsSection: React.FC = () => {
   const [isSigningIn, setIsSigningIn] = useState(false);
   const [isSigningInWithApple, setIsSigningInWithApple] = useState(false);
   const [isSigningOut, setIsSigningOut] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(SyncService.getStatus());
+
+  useEffect(() => SyncService.onStatusChange(setSyncStatus), []);
 
   // Verify persisted user still exists in Firebase on mount
   useEffect(() => {
@@ -166,6 +177,11 @@ export const AccountSettingsSection: React.FC = () => {
     );
   };
 
+  const handleSyncNow = async () => {
+    HapticFeedback.light();
+    await SyncService.syncAll();
+  };
+
   const styles = createStyles(colors);
 
   // Ensure user is actually valid before showing signed-in state
@@ -186,6 +202,22 @@ export const AccountSettingsSection: React.FC = () => {
               </Text>
             </View>
           )}
+
+          <View style={styles.syncContainer}>
+            <Text style={styles.roleLabel}>Sync:</Text>
+            <Text style={[styles.syncStatus, { color: colors.textSecondary }]}>
+              {SYNC_STATUS_TEXT[syncStatus]}
+              {syncStatus === 'offline' && SyncService.getPendingCount() > 0
+                ? ` (${SyncService.getPendingCount()} pending)`
+                : ''}
+            </Text>
+          </View>
+          <SettingsButton
+            title="Sync Now"
+            onPress={handleSyncNow}
+            variant="outline"
+            disabled={syncStatus === 'syncing' || syncStatus === 'signed-out'}
+          />
         </View>
       ) : (
         <View style={styles.signedOutContainer}>
@@ -232,4 +264,13 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  syncContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  syncStatus: {
+    fontSize: 14,
+    flexShrink: 1,
+  },
 });
@@ -37,8 +37,8 @@ const AddPhraseModal: React.FC<AddPhraseModalProps> = ({
   initialSpeaker = 'friend1',
   showSpeakerSelection = true
 }) => {
-  const { colors } = useTheme();
-  const commonStyles = createCommonStyles(colors);
+  const { colors, typography } = useTheme();
+  const commonStyles = createCommonStyles(colors, typography);
   const [spanishText, setSpanishText] = useState('');
   const [englishText, setEnglishText] = useState('');
   const [speaker, setSpeaker] = useState<'friend1' | 'friend2'>(initialSpeaker);
@@ -128,7 +128,7 @@ const AddPhraseModal: React.FC<AddPhraseModalProps> = ({
   const styles = StyleSheet.create({
     ...commonStyles,
     fieldLabel: {
-      fontSize: StyleTokens.fontSize.md,
+      fontSize: typography.md,
       fontWeight: '600',
       color: colors.text,
       marginBottom: StyleTokens.spacing.sm,
@@ -155,7 +155,7 @@ const AddPhraseModal: React.FC<AddPhraseModalProps> = ({
       borderColor: colors.primary,
     },
     speakerButtonText: {
-      fontSize: StyleTokens.fontSize.sm,
+      fontSize: typography.sm,
       fontWeight: '600',
       color: colors.text,
     },
@@ -189,7 +189,7 @@ const AddPhraseModal: React.FC<AddPhraseModalProps> = ({
       opacity: 0.6,
     },
     buttonText: {
-      fontSize: StyleTokens.fontSize.md,
+      fontSize: typography.md,
       fontWeight: '600',
     },
     cancelButtonText: {
@@ -21,8 +21,8 @@ interface SignInButtonProps {
 }
 
 export const SignInButton: React.FC<SignInButtonProps> = ({ onPress, loading = false }) => {
-  const { colors } = useTheme();
-  const commonStyles = createCommonStyles(colors);
+  const { colors, typography } = useTheme();
+  const commonStyles = createCommonStyles(colors, typography);
 
   return (
     <TouchableOpacity
@@ -101,8 +101,8 @@ interface UserProfileProps {
 }
 
 export const UserProfile: React.FC<UserProfileProps> = ({ user, onSignOut, loading = false }) => {
-  const { colors } = useTheme();
-  const commonStyles = createCommonStyles(colors);
+  const { colors, typography } = useTheme();
+  const commonStyles = createCommonStyles(colors, typography);
 
   return (
     <View style={styles.profileContainer}>
@@ -144,8 +144,8 @@ interface SignOutButtonProps {
 }
 
 export const SignOutButton: React.FC<SignOutButtonProps> = ({ onPress, loading = false }) => {
-  const { colors } = useTheme();
-  const commonStyles = createCommonStyles(colors);
+  const { colors, typography } = useTheme();
+  const commonStyles = createCommonStyles(colors, typography);
 
   return (
     <TouchableOpacity
@@ -18,8 +18,8 @@ interface AuthenticationGateProps {
  * Shows sign-in UI if user is not authenticated
  */
 export const AuthenticationGate: React.FC<AuthenticationGateProps> = ({ children, onSignInSuccess, renderUnauthenticated }) => {
-    const { colors } = useTheme();
-    const commonStyles = createCommonStyles(colors);
+    const { colors, typography } = useTheme();
+    const commonStyles = createCommonStyles(colors, typography);
     const { user, setUser, setRole, setSparkAdminRoles } = useAuthStore();
     const [isSigningIn, setIsSigningIn] = useState(false);
     const [isSigningInWithApple, setIsSigningInWithApple] = useState(false);
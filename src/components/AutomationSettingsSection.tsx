@@ -0,0 +1,289 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { useTheme } from '../contexts/ThemeContext';
+import { CommonModal } from './CommonModal';
+import { SettingsSection, SettingsButton, SettingsToggle } from './SettingsComponents';
+import { useAutomationStore } from '../store/automationStore';
+import { AutomationService } from '../services/AutomationService';
+import { AutomationTrigger } from '../types/automation';
+import { SparkEventType } from '../types/spark';
+import {
+  AUTOMATION_ACTIONS,
+  AUTOMATION_EVENTS,
+  WEEKDAY_NAMES,
+  describeAction,
+  describeTrigger,
+} from '../utils/automationRules';
+import { HapticFeedback } from '../utils/haptics';
+
+// Run log entries shown in settings
+const VISIBLE_LOG_ENTRIES = 10;
+
+const TRIGGER_TYPES: { type: AutomationTrigger['type']; label: string }[] = [
+  { type: 'weekly', label: 'Every week' },
+  { type: 'event-approaching', label: 'Event coming up' },
+  { type: 'spark-event', label: 'Spark activity' },
+];
+
+const DAYS_BEFORE_OPTIONS = [1, 3, 7, 14];
+
+export const AutomationSettingsSection: React.FC = () => {
+  const { colors } = useTheme();
+  const { rules, runLog, updateRule, removeRule, clearRunLog } = useAutomationStore();
+  const [isAdding, setIsAdding] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const handleRunNow = async () => {
+    setIsRunning(true);
+    HapticFeedback.light();
+    const entries = await AutomationService.evaluate();
+    setIsRunning(false);
+    Alert.alert('Automations', entries.length > 0
+      ? `Ran ${entries.length} automation${entries.length === 1 ? '' : 's'}.`
+      : 'Nothing is due right now.');
+  };
+
+  const handleRemove = (ruleId: string, name: string) => {
+    Alert.alert('Delete Automation', `Delete "${name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          removeRule(ruleId);
+          HapticFeedback.medium();
+        },
+      },
+    ]);
+  };
+
+  const styles = createStyles(colors);
+
+  return (
+    <SettingsSection title="Automations">
+      <Text style={styles.description}>
+        Let sparks act on their own, e.g. add a to-do every Monday. Long-press an automation to delete it.
+      </Text>
+
+      {rules.map(rule => (
+        <TouchableOpacity
+          key={rule.id}
+          style={styles.ruleRow}
+          onLongPress={() => handleRemove(rule.id, rule.name)}
+          activeOpacity={0.8}
+        >
+          <View style={styles.ruleInfo}>
+            <Text style={styles.ruleName}>{rule.name}</Text>
+            <Text style={styles.ruleDetail}>{describeTrigger(rule.trigger)}</Text>
+            <Text style={styles.ruleDetail}>{describeAction(rule.action)}</Text>
+          </View>
+          <SettingsToggle value={rule.enabled} onValueChange={enabled => updateRule(rule.id, { enabled })} />
+        </TouchableOpacity>
+      ))}
+
+      <View style={styles.buttonRow}>
+        <SettingsButton title="Add Automation" onPress={() => setIsAdding(true)} />
+        <SettingsButton title="Run Now" onPress={handleRunNow} variant="outline" disabled={isRunning || rules.length === 0} />
+      </View>
+
+      {runLog.length > 0 && (
+        <>
+          <Text style={styles.label}>Recent runs</Text>
+          {runLog.slice(0, VISIBLE_LOG_ENTRIES).map(entry => (
+            <Text key={entry.id} style={styles.logEntry}>
+              {entry.success ? '✅' : '⚠️'} {new Date(entry.timestamp).toLocaleString()} · {entry.ruleName} ({entry.reason}): {entry.message}
+            </Text>
+          ))}
+          <SettingsButton title="Clear Log" onPress={clearRunLog} variant="outline" />
+        </>
+      )}
+
+      <AutomationRuleModal visible={isAdding} onClose={() => setIsAdding(false)} />
+    </SettingsSection>
+  );
+};
+
+const AutomationRuleModal: React.FC<{ visible: boolean; onClose: () => void }> = ({ visible, onClose }) => {
+  const { colors } = useTheme();
+  const [name, setName] = useState('');
+  const [triggerType, setTriggerType] = useState<AutomationTrigger['type']>('weekly');
+  const [weekday, setWeekday] = useState(1);
+  const [daysBefore, setDaysBefore] = useState(7);
+  const [eventType, setEventType] = useState<SparkEventType>('round.finished');
+  const [actionIndex, setActionIndex] = useState(0);
+  const [text, setText] = useState('');
+
+  const preset = AUTOMATION_ACTIONS[actionIndex];
+
+  const handleClose = () => {
+    setName('');
+    setText('');
+    onClose();
+  };
+
+  const handleSave = () => {
+    const trigger: AutomationTrigger = triggerType === 'weekly'
+      ? { type: 'weekly', weekday }
+      : triggerType === 'event-approaching'
+        ? { type: 'event-approaching', daysBefore }
+        : { type: 'spark-event', eventType };
+
+    try {
+      AutomationService.createRule(name, trigger, {
+        targetSpark: preset.targetSpark,
+        action: preset.action,
+        params: { [preset.param]: text },
+      });
+      HapticFeedback.success();
+      handleClose();
+    } catch (error: any) {
+      HapticFeedback.error();
+      Alert.alert('Could Not Add Automation', error.message);
+    }
+  };
+
+  const styles = createStyles(colors);
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, selected && { backgroundColor: colors.primary, borderColor: colors.primary }]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, selected && { color: colors.background }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const footer = (
+    <View style={styles.buttonRow}>
+      <SettingsButton title="Cancel" onPress={handleClose} variant="secondary" />
+      <SettingsButton title="Save" onPress={handleSave} />
+    </View>
+  );
+
+  return (
+    <CommonModal visible={visible} title="New Automation" onClose={handleClose} footer={footer}>
+      <Text style={styles.label}>Name</Text>
+      <TextInput
+        style={styles.input}
+        value={name}
+        onChangeText={setName}
+        placeholder="e.g. Monday weigh-in"
+        placeholderTextColor={colors.textSecondary}
+      />
+
+      <Text style={styles.label}>When</Text>
+      <View style={styles.chipRow}>
+        {TRIGGER_TYPES.map(option =>
+          renderChip(option.type, option.label, triggerType === option.type, () => setTriggerType(option.type))
+        )}
+      </View>
+      <View style={styles.chipRow}>
+        {triggerType === 'weekly' && WEEKDAY_NAMES.map((day, index) =>
+          renderChip(day, day.slice(0, 3), weekday === index, () => setWeekday(index))
+        )}
+        {triggerType === 'event-approaching' && DAYS_BEFORE_OPTIONS.map(days =>
+          renderChip(String(days), `${days} day${days === 1 ? '' : 's'} before`, daysBefore === days, () => setDaysBefore(days))
+        )}
+        {triggerType === 'spark-event' && (Object.keys(AUTOMATION_EVENTS) as SparkEventType[]).map(type =>
+          renderChip(type, AUTOMATION_EVENTS[type], eventType === type, () => setEventType(type))
+        )}
+      </View>
+
+      <Text style={styles.label}>Do</Text>
+      <View style={styles.chipRow}>
+        {AUTOMATION_ACTIONS.map((option, index) =>
+          renderChip(option.label, option.label, actionIndex === index, () => setActionIndex(index))
+        )}
+      </View>
+      <TextInput
+        style={styles.input}
+        value={text}
+        onChangeText={setText}
+        placeholder={preset.placeholder}
+        placeholderTextColor={colors.textSecondary}
+      />
+      {triggerType === 'event-approaching' && (
+        <Text style={styles.hint}>{'{title}'} and {'{date}'} are replaced with the event's name and date.</Text>
+      )}
+    </CommonModal>
+  );
+};
+
+const createStyles = (colors: any) => StyleSheet.create({
+  description: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+  ruleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  ruleInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  ruleName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  ruleDetail: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  buttonRow: {
+    gap: 12,
+    marginTop: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  logEntry: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: colors.text,
+    backgroundColor: colors.background,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.text,
+  },
+  hint: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    color: colors.textSecondary,
+    marginTop: 8,
+  },
+});
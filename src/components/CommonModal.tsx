@@ -3,6 +3,7 @@ import { Modal, View, Text, TouchableOpacity, ScrollView, KeyboardAvoidingView,
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useTheme } from '../contexts/ThemeContext';
 import { createCommonStyles } from '../styles/CommonStyles';
+import { useTranslation } from '../i18n';
 
 export interface CommonModalProps {
     visible: boolean;
@@ -30,8 +31,9 @@ export const CommonModal: React.FC<CommonModalProps> = ({
     scrollable = true,
     footer,
 }) => {
-    const { colors } = useTheme();
-    const commonStyles = createCommonStyles(colors);
+    const { colors, typography } = useTheme();
+    const commonStyles = createCommonStyles(colors, typography);
+    const { t } = useTranslation();
     const [keyboardVisible, setKeyboardVisible] = useState(false);
 
     useEffect(() => {
@@ -68,14 +70,14 @@ export const CommonModal: React.FC<CommonModalProps> = ({
                         commonStyles.modalOverlay,
                         keyboardVisible && { justifyContent: 'flex-end' }
                     ]}>
-                        <TouchableWithoutFeedback testID="modal-backdrop" onPress={onClose}>
+                        <TouchableWithoutFeedback testID="modal-backdrop" onPress={onClose} accessibilityLabel={t('common.close')} accessibilityRole="button">
                             <View style={{ position: 'absolute', top: 0, left: 0, right: 0, bottom: 0 }} />
                         </TouchableWithoutFeedback>
                         <View
                             style={modalContentStyle}
                             onStartShouldSetResponder={() => true}
                         >
-                            <Text style={commonStyles.modalTitle}>{title}</Text>
+                            <Text style={commonStyles.modalTitle} accessibilityRole="header">{title}</Text>
                             <ContentWrapper
                                 showsVerticalScrollIndicator={scrollable}
                                 keyboardShouldPersistTaps="always"
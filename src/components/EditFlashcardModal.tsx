@@ -30,7 +30,7 @@ export const EditFlashcardModal: React.FC<EditFlashcardModalProps> = ({
   onDelete,
   card
 }) => {
-  const { colors } = useTheme();
+  const { colors, typography } = useTheme();
   const [spanishText, setSpanishText] = useState(card.spanish);
   const [englishText, setEnglishText] = useState(card.english);
 
@@ -68,11 +68,11 @@ export const EditFlashcardModal: React.FC<EditFlashcardModalProps> = ({
     );
   };
 
-  const commonStyles = createCommonStyles(colors);
+  const commonStyles = createCommonStyles(colors, typography);
   const styles = StyleSheet.create({
     ...commonStyles,
     fieldLabel: {
-      fontSize: StyleTokens.fontSize.md,
+      fontSize: typography.md,
       fontWeight: '600',
       color: colors.text,
       marginBottom: StyleTokens.spacing.sm,
@@ -104,7 +104,7 @@ export const EditFlashcardModal: React.FC<EditFlashcardModalProps> = ({
       backgroundColor: colors.primary,
     },
     buttonText: {
-      fontSize: StyleTokens.fontSize.md,
+      fontSize: typography.md,
       fontWeight: '600',
     },
     cancelButtonText: {
@@ -23,8 +23,8 @@ export const Input = forwardRef<TextInput, BaseInputProps>(({
     style,
     ...props
 }, ref) => {
-    const { colors } = useTheme();
-    const commonStyles = createCommonStyles(colors);
+    const { colors, typography } = useTheme();
+    const commonStyles = createCommonStyles(colors, typography);
 
     return (
         <View style={[styles.container, containerStyle]}>
@@ -62,8 +62,8 @@ export const TextArea = forwardRef<TextInput, BaseInputProps>(({
     style,
     ...props
 }, ref) => {
-    const { colors } = useTheme();
-    const commonStyles = createCommonStyles(colors);
+    const { colors, typography } = useTheme();
+    const commonStyles = createCommonStyles(colors, typography);
 
     return (
         <Input
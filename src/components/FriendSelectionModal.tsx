@@ -20,8 +20,8 @@ export const FriendSelectionModal: React.FC<FriendSelectionModalProps> = ({
     onSelectFriend,
     onAddFriend,
 }) => {
-    const { colors } = useTheme();
-    const commonStyles = createCommonStyles(colors);
+    const { colors, typography } = useTheme();
+    const commonStyles = createCommonStyles(colors, typography);
     const { user } = useAuthStore();
     const [friends, setFriends] = useState<Friend[]>([]);
     const [isLoading, setIsLoading] = useState(false);
@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { useTheme } from '../contexts/ThemeContext';
+import { SettingsSection, SettingsButton, SettingsToggle } from './SettingsComponents';
+import { useSecurityStore, LOCK_TIMEOUT_OPTIONS } from '../store/securityStore';
+import { useSparkStore } from '../store/sparkStore';
+import { getSparkById } from './SparkRegistry';
+import { SparkLockService, isValidPasscode } from '../services/SparkLockService';
+import { HapticFeedback } from '../utils/haptics';
+
+export const PrivacyLockSettingsSection: React.FC = () => {
+  const { colors } = useTheme();
+  const {
+    wrappedDataKey,
+    privateSparkIds,
+    lockTimeoutMinutes,
+    biometricsEnabled,
+    lastActivityAt,
+    setLockTimeoutMinutes,
+    setBiometricsEnabled,
+  } = useSecurityStore();
+  const userSparkIds = useSparkStore(state => state.userSparkIds);
+  const [passcode, setPasscode] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [biometricsAvailable, setBiometricsAvailable] = useState(false);
+
+  useEffect(() => {
+    SparkLockService.isBiometricsAvailable().then(setBiometricsAvailable);
+  }, []);
+
+  const hasPasscode = !!wrappedDataKey;
+  // lastActivityAt is read so the section re-renders on lock and unlock
+  const isUnlocked = lastActivityAt !== null && SparkLockService.isUnlocked();
+
+  const handleSetPasscode = async () => {
+    if (!isValidPasscode(passcode)) {
+      Alert.alert('Invalid Passcode', 'A passcode is 4 to 8 digits.');
+      return;
+    }
+    setIsBusy(true);
+    try {
+      await SparkLockService.setPasscode(passcode);
+      HapticFeedback.success();
+      setPasscode('');
+      Alert.alert('Passcode Saved', 'There is no way to recover private sparks without it, so keep it somewhere safe.');
+    } catch (error: any) {
+      HapticFeedback.error();
+      Alert.alert('Could Not Save Passcode', error.message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleUnlock = async () => {
+    setIsBusy(true);
+    const unlocked = await SparkLockService.unlock(passcode);
+    setIsBusy(false);
+    setPasscode('');
+    if (unlocked) {
+      HapticFeedback.success();
+    } else {
+      HapticFeedback.error();
+      Alert.alert('Incorrect Passcode', 'Please try again.');
+    }
+  };
+
+  const handleTogglePrivate = async (sparkId: string, isPrivate: boolean) => {
+    try {
+      await SparkLockService.setSparkPrivate(sparkId, isPrivate);
+      HapticFeedback.light();
+    } catch (error: any) {
+      HapticFeedback.error();
+      Alert.alert('Could Not Update Spark', error.message);
+    }
+  };
+
+  const styles = createStyles(colors);
+
+  const passcodeInput = (
+    <TextInput
+      style={styles.input}
+      value={passcode}
+      onChangeText={setPasscode}
+      placeholder={hasPasscode && isUnlocked ? 'New passcode' : '4-8 digits'}
+      placeholderTextColor={colors.textSecondary}
+      keyboardType="number-pad"
+      secureTextEntry
+      maxLength={8}
+    />
+  );
+
+  if (!hasPasscode || !isUnlocked) {
+    return (
+      <SettingsSection title="Private Sparks">
+        <Text style={styles.description}>
+          {hasPasscode
+            ? 'Enter your passcode to change which sparks are private.'
+            : 'Choose a passcode to lock sparks like Dream Catcher or Weight Tracker. Their data is encrypted on this device and kept out of search and cloud sync.'}
+        </Text>
+        {passcodeInput}
+        <SettingsButton
+          title={hasPasscode ? 'Unlock' : 'Set Passcode'}
+          onPress={hasPasscode ? handleUnlock : handleSetPasscode}
+          disabled={isBusy || !passcode}
+        />
+      </SettingsSection>
+    );
+  }
+
+  return (
+    <SettingsSection title="Private Sparks">
+      <Text style={styles.description}>
+        Private sparks ask for your passcode before opening.
+      </Text>
+      {userSparkIds.map(sparkId => {
+        const spark = getSparkById(sparkId);
+        if (!spark) return null;
+        return (
+          <SettingsToggle
+            key={sparkId}
+            label={`${spark.metadata.icon} ${spark.metadata.title}`}
+            value={privateSparkIds.includes(sparkId)}
+            onValueChange={value => handleTogglePrivate(sparkId, value)}
+          />
+        );
+      })}
+
+      <Text style={styles.label}>Lock after idle</Text>
+      <View style={styles.optionRow}>
+        {LOCK_TIMEOUT_OPTIONS.map(minutes => (
+          <TouchableOpacity
+            key={minutes}
+            style={[styles.option, minutes === lockTimeoutMinutes && { backgroundColor: colors.primary }]}
+            onPress={() => setLockTimeoutMinutes(minutes)}
+          >
+            <Text style={[styles.optionText, minutes === lockTimeoutMinutes && { color: colors.background }]}>
+              {minutes < 60 ? `${minutes} min` : `${minutes / 60} hr`}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {biometricsAvailable && (
+        <SettingsToggle
+          label="Unlock with Face ID / Fingerprint"
+          value={biometricsEnabled}
+          onValueChange={setBiometricsEnabled}
+        />
+      )}
+
+      <Text style={styles.label}>Change passcode</Text>
+      {passcodeInput}
+      <View style={styles.buttonRow}>
+        <SettingsButton title="Save Passcode" onPress={handleSetPasscode} disabled={isBusy || !passcode} />
+        <SettingsButton title="Lock Now" onPress={() => SparkLockService.lock()} variant="outline" />
+      </View>
+    </SettingsSection>
+  );
+};
+
+const createStyles = (colors: any) => StyleSheet.create({
+  description: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: colors.text,
+    backgroundColor: colors.background,
+    marginBottom: 12,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  option: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+    alignItems: 'center',
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.text,
+  },
+  buttonRow: {
+    gap: 12,
+  },
+});
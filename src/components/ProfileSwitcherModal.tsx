@@ -0,0 +1,317 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { CommonModal } from './CommonModal';
+import { useTheme } from '../contexts/ThemeContext';
+import { useProfileStore, LocalProfile } from '../store/profileStore';
+import { DEFAULT_PROFILE_ID } from '../store/profileStorage';
+import { ProfileService } from '../services/ProfileService';
+import { HapticFeedback } from '../utils/haptics';
+
+interface ProfileSwitcherModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const PROFILE_EMOJIS = ['🙂', '🧒', '👧', '👦', '👩', '👨', '👵', '👴', '🐶', '🦄', '🚀', '⚽️'];
+
+type Mode =
+  | { type: 'list' }
+  | { type: 'add' }
+  | { type: 'pin'; profile: LocalProfile; action: 'switch' | 'delete' };
+
+export const ProfileSwitcherModal: React.FC<ProfileSwitcherModalProps> = ({ visible, onClose }) => {
+  const { colors } = useTheme();
+  const { profiles, activeProfileId } = useProfileStore();
+  const [mode, setMode] = useState<Mode>({ type: 'list' });
+  const [name, setName] = useState('');
+  const [emoji, setEmoji] = useState(PROFILE_EMOJIS[1]);
+  const [pin, setPin] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const reset = () => {
+    setMode({ type: 'list' });
+    setName('');
+    setEmoji(PROFILE_EMOJIS[1]);
+    setPin('');
+    setIsBusy(false);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const runAction = async (profile: LocalProfile, action: 'switch' | 'delete', enteredPin?: string) => {
+    setIsBusy(true);
+    try {
+      if (action === 'switch') {
+        await ProfileService.switchProfile(profile.id, enteredPin);
+        HapticFeedback.success();
+        handleClose();
+      } else {
+        await ProfileService.deleteProfile(profile.id, enteredPin);
+        HapticFeedback.medium();
+        reset();
+      }
+    } catch (error: any) {
+      HapticFeedback.error();
+      setIsBusy(false);
+      setPin('');
+      Alert.alert(action === 'switch' ? 'Could Not Switch' : 'Could Not Delete', error.message);
+    }
+  };
+
+  const handleSelect = (profile: LocalProfile) => {
+    if (profile.id === activeProfileId) {
+      handleClose();
+      return;
+    }
+    HapticFeedback.light();
+    if (ProfileService.hasPin(profile.id)) {
+      setMode({ type: 'pin', profile, action: 'switch' });
+    } else {
+      runAction(profile, 'switch');
+    }
+  };
+
+  const handleLongPress = (profile: LocalProfile) => {
+    HapticFeedback.medium();
+    if (profile.id === activeProfileId) {
+      if (ProfileService.hasPin(profile.id)) {
+        Alert.alert(profile.name, 'Remove the PIN from this profile?', [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Remove PIN', onPress: () => ProfileService.setPin(profile.id, null) },
+        ]);
+      }
+      return;
+    }
+    if (profile.id === DEFAULT_PROFILE_ID) return;
+
+    Alert.alert(
+      'Delete Profile',
+      `Delete ${profile.name} and all of their sparks? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            if (ProfileService.hasPin(profile.id)) {
+              setMode({ type: 'pin', profile, action: 'delete' });
+            } else {
+              runAction(profile, 'delete');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleCreate = async () => {
+    if (pin && !/^\d{4,8}$/.test(pin)) {
+      Alert.alert('Invalid PIN', 'A PIN is 4 to 8 digits.');
+      return;
+    }
+    setIsBusy(true);
+    try {
+      await ProfileService.createProfile(name, emoji, pin || undefined);
+      HapticFeedback.success();
+      reset();
+    } catch (error: any) {
+      HapticFeedback.error();
+      setIsBusy(false);
+      Alert.alert('Could Not Add Profile', error.message);
+    }
+  };
+
+  const styles = createStyles(colors);
+
+  const renderList = () => (
+    <>
+      {profiles.map(profile => (
+        <TouchableOpacity
+          key={profile.id}
+          style={[styles.profileRow, profile.id === activeProfileId && { borderColor: colors.primary }]}
+          onPress={() => handleSelect(profile)}
+          onLongPress={() => handleLongPress(profile)}
+          disabled={isBusy}
+          accessibilityRole="button"
+          accessibilityLabel={`Switch to ${profile.name}`}
+        >
+          <Text style={styles.profileEmoji}>{profile.emoji}</Text>
+          <Text style={styles.profileName}>{profile.name}</Text>
+          {profile.pinHash && <Text style={styles.profileMeta}>🔒</Text>}
+          {profile.id === activeProfileId && <Text style={[styles.profileMeta, { color: colors.primary }]}>Active</Text>}
+        </TouchableOpacity>
+      ))}
+      <Text style={styles.hint}>Long-press a profile to delete it or remove its PIN</Text>
+    </>
+  );
+
+  const renderAdd = () => (
+    <>
+      <Text style={styles.fieldLabel}>Name</Text>
+      <TextInput
+        style={styles.textInput}
+        placeholder="e.g. Sam"
+        placeholderTextColor={colors.textSecondary}
+        value={name}
+        onChangeText={setName}
+        autoFocus
+      />
+      <Text style={styles.fieldLabel}>Icon</Text>
+      <View style={styles.emojiGrid}>
+        {PROFILE_EMOJIS.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.emojiOption, option === emoji && { borderColor: colors.primary }]}
+            onPress={() => setEmoji(option)}
+          >
+            <Text style={styles.profileEmoji}>{option}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Text style={styles.fieldLabel}>PIN (optional)</Text>
+      <TextInput
+        style={styles.textInput}
+        placeholder="4-8 digits"
+        placeholderTextColor={colors.textSecondary}
+        value={pin}
+        onChangeText={setPin}
+        keyboardType="number-pad"
+        secureTextEntry
+        maxLength={8}
+      />
+    </>
+  );
+
+  const renderPin = (profile: LocalProfile) => (
+    <>
+      <Text style={styles.fieldLabel}>Enter the PIN for {profile.emoji} {profile.name}</Text>
+      <TextInput
+        style={styles.textInput}
+        value={pin}
+        onChangeText={setPin}
+        keyboardType="number-pad"
+        secureTextEntry
+        maxLength={8}
+        autoFocus
+      />
+    </>
+  );
+
+  const footer = (
+    <View style={styles.buttonContainer}>
+      <TouchableOpacity
+        style={[styles.button, { backgroundColor: colors.border }]}
+        onPress={mode.type === 'list' ? handleClose : reset}
+      >
+        <Text style={[styles.buttonText, { color: colors.text }]}>{mode.type === 'list' ? 'Close' : 'Back'}</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={[styles.button, { backgroundColor: colors.primary }, isBusy && styles.disabledButton]}
+        disabled={isBusy}
+        onPress={() => {
+          if (mode.type === 'list') setMode({ type: 'add' });
+          else if (mode.type === 'add') handleCreate();
+          else runAction(mode.profile, mode.action, pin);
+        }}
+      >
+        <Text style={[styles.buttonText, { color: colors.background }]}>
+          {mode.type === 'list' ? 'Add Profile' : mode.type === 'add' ? 'Create' : 'Unlock'}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <CommonModal
+      visible={visible}
+      title={mode.type === 'add' ? 'New Profile' : 'Profiles'}
+      onClose={handleClose}
+      footer={footer}
+    >
+      {mode.type === 'list' && renderList()}
+      {mode.type === 'add' && renderAdd()}
+      {mode.type === 'pin' && renderPin(mode.profile)}
+    </CommonModal>
+  );
+};
+
+const createStyles = (colors: any) => StyleSheet.create({
+  profileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: colors.border,
+    marginBottom: 8,
+    gap: 12,
+  },
+  profileEmoji: {
+    fontSize: 28,
+  },
+  profileName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  profileMeta: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  hint: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: colors.text,
+    backgroundColor: colors.background,
+  },
+  emojiGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  emojiOption: {
+    padding: 6,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+});
@@ -1,7 +1,8 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
   View,
   Text,
+  TextInput,
   TouchableOpacity,
   StyleSheet,
   Modal,
@@ -13,12 +14,14 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useTheme } from '../contexts/ThemeContext';
 import { getSparkById } from './SparkRegistry';
 import { HapticFeedback } from '../utils/haptics';
+import { SearchService, SearchHit } from '../services/SearchService';
 
 interface QuickSwitchModalProps {
   visible: boolean;
   onClose: () => void;
   recentSparks: string[];
   onSelectSpark: (sparkId: string) => void;
+  onSelectSearchHit?: (hit: SearchHit) => void; // Enables searching across all spark data
   navigation?: any; // Navigation prop for navigating to My Sparks
 }
 
@@ -29,10 +32,18 @@ export const QuickSwitchModal: React.FC<QuickSwitchModalProps> = ({
   onClose,
   recentSparks,
   onSelectSpark,
+  onSelectSearchHit,
   navigation,
 }) => {
   const { colors } = useTheme();
   const slideAnim = useRef(new Animated.Value(height)).current;
+  const [query, setQuery] = useState('');
+
+  const isSearching = !!onSelectSearchHit && query.trim().length > 0;
+  const searchHits = useMemo(
+    () => (isSearching ? SearchService.search(query) : []),
+    [isSearching, query]
+  );
 
   useEffect(() => {
     if (visible) {
@@ -49,6 +60,7 @@ export const QuickSwitchModal: React.FC<QuickSwitchModalProps> = ({
         duration: 200,
         useNativeDriver: true,
       }).start();
+      setQuery('');
     }
   }, [visible, slideAnim]);
 
@@ -66,6 +78,12 @@ export const QuickSwitchModal: React.FC<QuickSwitchModalProps> = ({
     onClose();
   };
 
+  const handleSelectSearchHit = (hit: SearchHit) => {
+    HapticFeedback.light();
+    onSelectSearchHit?.(hit);
+    onClose();
+  };
+
   const handleMySparks = () => {
     HapticFeedback.light();
     onClose();
@@ -125,6 +143,24 @@ export const QuickSwitchModal: React.FC<QuickSwitchModalProps> = ({
       textAlign: 'center',
       marginBottom: 20,
     },
+    searchInput: {
+      alignSelf: 'stretch',
+      backgroundColor: colors.background,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 12,
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+      fontSize: 16,
+      color: colors.text,
+      marginBottom: 16,
+    },
+    hitSpark: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.primary,
+      marginBottom: 2,
+    },
     sparkList: {
       paddingHorizontal: 20,
     },
@@ -250,9 +286,48 @@ export const QuickSwitchModal: React.FC<QuickSwitchModalProps> = ({
           <View style={styles.card}>
             <View style={styles.headerContainer}>
               <Text style={styles.title}>∞ Quick Switch</Text>
+              {onSelectSearchHit && (
+                <TextInput
+                  style={styles.searchInput}
+                  value={query}
+                  onChangeText={setQuery}
+                  placeholder="Search todos, recipes, ideas..."
+                  placeholderTextColor={colors.textSecondary}
+                  autoCorrect={false}
+                  clearButtonMode="while-editing"
+                  returnKeyType="search"
+                />
+              )}
             </View>
 
-            {availableSparks.length > 0 ? (
+            {isSearching ? (
+              searchHits.length > 0 ? (
+                <ScrollView style={styles.sparkList} keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+                  {searchHits.map(hit => (
+                    <TouchableOpacity
+                      key={`${hit.sparkId}:${hit.itemId}`}
+                      style={styles.sparkItem}
+                      onPress={() => handleSelectSearchHit(hit)}
+                    >
+                      <Text style={styles.sparkIcon}>{hit.sparkIcon}</Text>
+                      <View style={styles.sparkInfo}>
+                        <Text style={styles.hitSpark}>{hit.sparkTitle}</Text>
+                        <Text style={styles.sparkTitle} numberOfLines={1}>{hit.title}</Text>
+                        {!!hit.subtitle && (
+                          <Text style={styles.sparkDescription} numberOfLines={1}>
+                            {hit.subtitle}
+                          </Text>
+                        )}
+                      </View>
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+              ) : (
+                <View style={styles.emptyState}>
+                  <Text style={styles.emptyText}>No matches for "{query.trim()}"</Text>
+                </View>
+              )
+            ) : availableSparks.length > 0 ? (
               <ScrollView style={styles.sparkList} showsVerticalScrollIndicator={false}>
                 {availableSparks.map((spark, index) => {
                   if (!spark || !spark.metadata) return null;
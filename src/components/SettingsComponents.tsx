@@ -29,6 +29,7 @@ import { FeedbackNotificationService } from "../services/FeedbackNotificationSer
 import { NotificationBadge } from "./NotificationBadge";
 import { ServiceFactory } from "../services/ServiceFactory";
 import { CommonModal } from "./CommonModal";
+import { SparkDataTransferService } from "../services/SparkDataTransferService";
 
 interface SettingsContainerProps {
   children: React.ReactNode;
@@ -107,7 +108,7 @@ export const SettingsHeader: React.FC<SettingsHeaderProps> = ({
   icon,
   sparkId,
 }) => {
-  const { colors } = useTheme();
+  const { colors, scaleFont } = useTheme();
 
   const styles = StyleSheet.create({
     header: {
@@ -121,13 +122,13 @@ export const SettingsHeader: React.FC<SettingsHeaderProps> = ({
       position: "relative",
     },
     title: {
-      fontSize: 28,
+      fontSize: scaleFont(28),
       fontWeight: "bold",
       color: colors.text,
       marginBottom: 8,
     },
     subtitle: {
-      fontSize: 16,
+      fontSize: scaleFont(16),
       color: colors.textSecondary,
       textAlign: "center",
     },
@@ -137,7 +138,7 @@ export const SettingsHeader: React.FC<SettingsHeaderProps> = ({
     <View style={styles.header}>
       <View style={styles.titleContainer}>
         <View style={{ position: "relative" }}>
-          <Text style={styles.title}>
+          <Text style={styles.title} accessibilityRole="header">
             {icon && `${icon} `}
             {title}
           </Text>
@@ -158,7 +159,7 @@ export const SettingsSection: React.FC<SettingsSectionProps> = ({
   title,
   children,
 }) => {
-  const { colors } = useTheme();
+  const { colors, scaleFont } = useTheme();
 
   const styles = StyleSheet.create({
     section: {
@@ -168,7 +169,7 @@ export const SettingsSection: React.FC<SettingsSectionProps> = ({
       marginBottom: 20,
     },
     sectionTitle: {
-      fontSize: 18,
+      fontSize: scaleFont(18),
       fontWeight: "600",
       color: colors.text,
       marginBottom: 15,
@@ -206,7 +207,7 @@ export const SettingsInput: React.FC<SettingsInputProps> = ({
   numberOfLines = 1,
   keyboardType = "default",
 }) => {
-  const { colors } = useTheme();
+  const { colors, scaleFont } = useTheme();
 
   const styles = StyleSheet.create({
     input: {
@@ -215,7 +216,7 @@ export const SettingsInput: React.FC<SettingsInputProps> = ({
       borderWidth: 1,
       borderRadius: 8,
       padding: 12,
-      fontSize: 16,
+      fontSize: scaleFont(16),
       color: colors.text,
       marginBottom: 12,
       minHeight: multiline ? numberOfLines * 24 + 24 : 44,
@@ -251,7 +252,7 @@ export const SettingsButton: React.FC<SettingsButtonProps> = ({
   variant = "primary",
   disabled = false,
 }) => {
-  const { colors } = useTheme();
+  const { colors, scaleFont } = useTheme();
 
   const getButtonStyle = () => {
     const baseStyle = {
@@ -317,7 +318,7 @@ export const SettingsButton: React.FC<SettingsButtonProps> = ({
       ...getButtonStyle(),
     },
     buttonText: {
-      fontSize: 16,
+      fontSize: scaleFont(16),
       fontWeight: "600",
       ...getTextStyle(),
     },
@@ -328,6 +329,8 @@ export const SettingsButton: React.FC<SettingsButtonProps> = ({
       style={styles.button}
       onPress={onPress}
       disabled={disabled}
+      accessibilityRole="button"
+      accessibilityState={{ disabled }}
     >
       <Text style={styles.buttonText}>{title}</Text>
     </TouchableOpacity>
@@ -366,7 +369,7 @@ export const SaveCancelButtons: React.FC<SaveCancelButtonsProps> = ({
   cancelText = "Cancel",
   saveDisabled = false,
 }) => {
-  const { colors } = useTheme();
+  const { colors, scaleFont } = useTheme();
 
   const styles = StyleSheet.create({
     buttonContainer: {
@@ -387,12 +390,12 @@ export const SaveCancelButtons: React.FC<SaveCancelButtonsProps> = ({
     },
     saveButtonText: {
       color: "#fff",
-      fontSize: 16,
+      fontSize: scaleFont(16),
       fontWeight: "600",
     },
     cancelButtonText: {
       color: colors.text,
-      fontSize: 16,
+      fontSize: scaleFont(16),
       fontWeight: "600",
     },
   });
@@ -402,6 +405,7 @@ export const SaveCancelButtons: React.FC<SaveCancelButtonsProps> = ({
       <TouchableOpacity
         style={[styles.button, styles.cancelButton]}
         onPress={onCancel}
+        accessibilityRole="button"
       >
         <Text style={styles.cancelButtonText}>{cancelText}</Text>
       </TouchableOpacity>
@@ -413,6 +417,8 @@ export const SaveCancelButtons: React.FC<SaveCancelButtonsProps> = ({
         ]}
         onPress={onSave}
         disabled={saveDisabled}
+        accessibilityRole="button"
+        accessibilityState={{ disabled: saveDisabled }}
       >
         <Text style={styles.saveButtonText}>{saveText}</Text>
       </TouchableOpacity>
@@ -450,16 +456,16 @@ export const SettingsText: React.FC<SettingsTextProps> = ({
   children,
   variant = "body",
 }) => {
-  const { colors } = useTheme();
+  const { colors, scaleFont } = useTheme();
 
   const styles = StyleSheet.create({
     bodyText: {
       flex: 1,
-      fontSize: 14,
+      fontSize: scaleFont(14),
       color: colors.text,
     },
     captionText: {
-      fontSize: 12,
+      fontSize: scaleFont(12),
       color: colors.textSecondary,
     },
   });
@@ -472,13 +478,16 @@ export const SettingsText: React.FC<SettingsTextProps> = ({
 interface SettingsRemoveButtonProps {
   onPress: () => void;
   text?: string;
+  // Screen readers only hear "Remove" otherwise; name what gets removed
+  accessibilityLabel?: string;
 }
 
 export const SettingsRemoveButton: React.FC<SettingsRemoveButtonProps> = ({
   onPress,
   text = "Remove",
+  accessibilityLabel,
 }) => {
-  const { colors } = useTheme();
+  const { colors, scaleFont } = useTheme();
 
   const styles = StyleSheet.create({
     removeButton: {
@@ -490,13 +499,18 @@ export const SettingsRemoveButton: React.FC<SettingsRemoveButtonProps> = ({
     },
     removeButtonText: {
       color: "#fff",
-      fontSize: 12,
+      fontSize: scaleFont(12),
       fontWeight: "600",
     },
   });
 
   return (
-    <TouchableOpacity style={styles.removeButton} onPress={onPress}>
+    <TouchableOpacity
+      style={styles.removeButton}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityLabel={accessibilityLabel}
+    >
       <Text style={styles.removeButtonText}>{text}</Text>
     </TouchableOpacity>
   );
@@ -513,7 +527,7 @@ export const SettingsToggle: React.FC<SettingsToggleProps> = ({
   onValueChange,
   label,
 }) => {
-  const { colors } = useTheme();
+  const { colors, scaleFont } = useTheme();
   const { Switch } = require("react-native"); // Dynamic import to avoid issues if not used elsewhere
 
   return (
@@ -526,11 +540,12 @@ export const SettingsToggle: React.FC<SettingsToggleProps> = ({
       }}
     >
       {label && (
-        <Text style={{ fontSize: 16, color: colors.text }}>{label}</Text>
+        <Text style={{ fontSize: scaleFont(16), color: colors.text }}>{label}</Text>
       )}
       <Switch
         value={value}
         onValueChange={onValueChange}
+        accessibilityLabel={label}
         trackColor={{ false: colors.border, true: colors.primary }}
         thumbColor={
           Platform.OS === "ios" ? "#fff" : value ? colors.primary : "#f4f3f4"
@@ -540,6 +555,90 @@ export const SettingsToggle: React.FC<SettingsToggleProps> = ({
   );
 };
 
+interface SettingsDataSectionProps {
+  sparkId: string;
+  onImported?: (data: Record<string, any>) => void;
+}
+
+export const SettingsDataSection: React.FC<SettingsDataSectionProps> = ({
+  sparkId,
+  onImported,
+}) => {
+  const [isWorking, setIsWorking] = useState(false);
+  const adapter = SparkDataTransferService.getAdapter(sparkId);
+
+  if (!adapter) {
+    return null;
+  }
+
+  const extension = SparkDataTransferService.getFormatExtension(
+    adapter.format
+  ).toUpperCase();
+
+  const handleExport = async () => {
+    HapticFeedback.light();
+    setIsWorking(true);
+    try {
+      await SparkDataTransferService.exportSparkData(sparkId);
+    } catch (error: any) {
+      console.error("Spark data export failed:", error);
+      Alert.alert("Export Failed", error.message || "Could not export data.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const runImport = async () => {
+    setIsWorking(true);
+    try {
+      const data = await SparkDataTransferService.importSparkData(sparkId);
+      if (data) {
+        HapticFeedback.success();
+        onImported?.(data);
+        Alert.alert("Import Complete", "Your data has been imported.");
+      }
+    } catch (error: any) {
+      console.error("Spark data import failed:", error);
+      Alert.alert("Import Failed", error.message || "Could not import data.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = () => {
+    HapticFeedback.light();
+    Alert.alert("Import Data", `${adapter.description}\n\nContinue?`, [
+      { text: "Cancel", style: "cancel" },
+      { text: "Import", onPress: runImport },
+    ]);
+  };
+
+  return (
+    <SettingsSection title="Import & Export">
+      <SettingsText variant="caption">{adapter.description}</SettingsText>
+      <View style={{ height: 12 }} />
+      <SettingsButtonRow>
+        <View style={{ flex: 1 }}>
+          <SettingsButton
+            title={`Export ${extension}`}
+            variant="outline"
+            onPress={handleExport}
+            disabled={isWorking}
+          />
+        </View>
+        <View style={{ flex: 1 }}>
+          <SettingsButton
+            title={`Import ${extension}`}
+            variant="outline"
+            onPress={handleImport}
+            disabled={isWorking}
+          />
+        </View>
+      </SettingsButtonRow>
+    </SettingsSection>
+  );
+};
+
 // Enhanced Feedback Modal Component
 interface FeedbackModalProps {
   visible: boolean;
@@ -556,7 +655,7 @@ const FeedbackModal: React.FC<FeedbackModalProps> = ({
   sparkId,
   onSubmit,
 }) => {
-  const { colors } = useTheme();
+  const { colors, scaleFont } = useTheme();
   const [feedback, setFeedback] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const textInputRef = useRef<TextInput>(null);
@@ -598,7 +697,7 @@ const FeedbackModal: React.FC<FeedbackModalProps> = ({
         }}
         onPress={onClose}
       >
-        <Text style={{ fontSize: 16, fontWeight: "600", color: colors.text }}>
+        <Text style={{ fontSize: scaleFont(16), fontWeight: "600", color: colors.text }}>
           Cancel
         </Text>
       </TouchableOpacity>
@@ -617,7 +716,7 @@ const FeedbackModal: React.FC<FeedbackModalProps> = ({
         }}
         disabled={isSubmitting}
       >
-        <Text style={{ fontSize: 16, fontWeight: "600", color: "#fff" }}>
+        <Text style={{ fontSize: scaleFont(16), fontWeight: "600", color: "#fff" }}>
           {isSubmitting ? "Submitting..." : "Submit"}
         </Text>
       </TouchableOpacity>
@@ -633,7 +732,7 @@ const FeedbackModal: React.FC<FeedbackModalProps> = ({
     >
       <Text
         style={{
-          fontSize: 14,
+          fontSize: scaleFont(14),
           color: colors.textSecondary,
           marginBottom: 20,
           textAlign: "center",
@@ -650,7 +749,7 @@ const FeedbackModal: React.FC<FeedbackModalProps> = ({
           borderWidth: 1,
           borderRadius: 8,
           padding: 12,
-          fontSize: 16,
+          fontSize: scaleFont(16),
           color: colors.text,
           minHeight: 120,
           textAlignVertical: "top",
@@ -695,7 +794,7 @@ const FeedbackItem: React.FC<FeedbackItemProps> = ({
   readByUser,
   onMarkAsRead,
 }) => {
-  const { colors } = useTheme();
+  const { colors, scaleFont } = useTheme();
 
   const styles = StyleSheet.create({
     item: {
@@ -719,16 +818,16 @@ const FeedbackItem: React.FC<FeedbackItemProps> = ({
       paddingHorizontal: 4,
     },
     ratingText: {
-      fontSize: 14,
+      fontSize: scaleFont(14),
       color: colors.text,
       marginLeft: 8,
     },
     date: {
-      fontSize: 12,
+      fontSize: scaleFont(12),
       color: colors.textSecondary,
     },
     feedback: {
-      fontSize: 14,
+      fontSize: scaleFont(14),
       color: colors.text,
       marginBottom: response ? 12 : 0,
     },
@@ -740,13 +839,13 @@ const FeedbackItem: React.FC<FeedbackItemProps> = ({
       borderLeftColor: colors.primary,
     },
     responseLabel: {
-      fontSize: 12,
+      fontSize: scaleFont(12),
       fontWeight: "600",
       color: colors.primary,
       marginBottom: 4,
     },
     responseText: {
-      fontSize: 14,
+      fontSize: scaleFont(14),
       color: colors.text,
     },
     markAsReadButton: {
@@ -757,7 +856,7 @@ const FeedbackItem: React.FC<FeedbackItemProps> = ({
     },
     markAsReadButtonText: {
       color: "#fff",
-      fontSize: 12,
+      fontSize: scaleFont(12),
       fontWeight: "600",
     },
   });
@@ -830,7 +929,7 @@ export const SettingsFeedbackSection = forwardRef<
   SettingsFeedbackSectionRef,
   SettingsFeedbackSectionProps
 >(function SettingsFeedbackSection({ sparkName, sparkId = "app" }, ref) {
-  const { colors } = useTheme();
+  const { colors, scaleFont } = useTheme();
   const [showFeedbackModal, setShowFeedbackModal] = useState(false);
   const [userFeedbacks, setUserFeedbacks] = useState<any[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
@@ -1078,7 +1177,7 @@ export const SettingsFeedbackSection = forwardRef<
       marginBottom: 20,
     },
     sectionTitle: {
-      fontSize: 18,
+      fontSize: scaleFont(18),
       fontWeight: "600",
       color: colors.text,
       marginBottom: 15,
@@ -1093,7 +1192,7 @@ export const SettingsFeedbackSection = forwardRef<
       minHeight: 80,
     },
     appRatingLabel: {
-      fontSize: 16,
+      fontSize: scaleFont(16),
       color: colors.text,
       marginBottom: 16,
     },
@@ -1106,7 +1205,7 @@ export const SettingsFeedbackSection = forwardRef<
     },
     feedbackButtonText: {
       color: "#fff",
-      fontSize: 16,
+      fontSize: scaleFont(16),
       fontWeight: "600",
     },
     feedbackList: {
@@ -1115,7 +1214,7 @@ export const SettingsFeedbackSection = forwardRef<
     emptyState: {
       textAlign: "center",
       color: colors.textSecondary,
-      fontSize: 14,
+      fontSize: scaleFont(14),
       fontStyle: "italic",
     },
   });
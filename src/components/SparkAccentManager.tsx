@@ -0,0 +1,163 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Modal } from 'react-native';
+import { useTheme } from '../contexts/ThemeContext';
+import { useSettingsStore } from '../store/settingsStore';
+import { useSparkStore } from '../store';
+import { getSparkById } from './SparkRegistry';
+import { ACCENT_COLORS } from '../theme/palettes';
+import { HapticFeedback } from '../utils/haptics';
+import { useTranslation } from '../i18n';
+
+interface SparkAccentManagerProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+export const SparkAccentManager: React.FC<SparkAccentManagerProps> = ({ visible, onClose }) => {
+  const { colors } = useTheme();
+  const { t } = useTranslation();
+  const userSparkIds = useSparkStore(state => state.userSparkIds);
+  const { sparkAccents, setSparkAccent } = useSettingsStore();
+
+  const choose = (sparkId: string, color: string | null) => {
+    HapticFeedback.light();
+    setSparkAccent(sparkId, color);
+  };
+
+  const styles = createStyles(colors);
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{t('theme.sparkAccents')}</Text>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeButtonText}>{t('common.done')}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content}>
+          <Text style={styles.description}>{t('theme.sparkAccentsDescription')}</Text>
+
+          {userSparkIds.length === 0 && <Text style={styles.emptyText}>{t('theme.noSparks')}</Text>}
+
+          {userSparkIds.map(sparkId => {
+            const spark = getSparkById(sparkId);
+            if (!spark) return null;
+            const accent = sparkAccents[sparkId];
+            return (
+              <View key={sparkId} style={styles.sparkRow}>
+                <Text style={[styles.sparkTitle, accent && { color: accent }]}>
+                  {spark.metadata.icon} {spark.metadata.title}
+                </Text>
+                <View style={styles.swatchRow}>
+                  <TouchableOpacity
+                    style={[styles.themeChip, !accent && { borderColor: colors.primary, borderWidth: 2 }]}
+                    onPress={() => choose(sparkId, null)}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected: !accent }}
+                  >
+                    <Text style={styles.themeChipText}>{t('theme.themeColor')}</Text>
+                  </TouchableOpacity>
+                  {ACCENT_COLORS.map(color => (
+                    <TouchableOpacity
+                      key={color}
+                      style={[
+                        styles.swatch,
+                        { backgroundColor: color },
+                        accent === color && { borderColor: colors.text, borderWidth: 3 },
+                      ]}
+                      onPress={() => choose(sparkId, color)}
+                      accessibilityRole="button"
+                      accessibilityLabel={color}
+                      accessibilityState={{ selected: accent === color }}
+                    />
+                  ))}
+                </View>
+              </View>
+            );
+          })}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  closeButtonText: {
+    fontSize: 16,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  description: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: colors.textSecondary,
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  sparkRow: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  sparkTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 8,
+  },
+  swatchRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+  },
+  themeChip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  themeChipText: {
+    fontSize: 13,
+    color: colors.text,
+  },
+  swatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+});
@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { useTheme } from '../contexts/ThemeContext';
+import { SparkLockService } from '../services/SparkLockService';
+import { HapticFeedback } from '../utils/haptics';
+
+interface SparkLockScreenProps {
+  sparkTitle: string;
+  sparkIcon: string;
+}
+
+/**
+ * Shown in place of a private spark until the passcode or biometrics unlock it
+ */
+export const SparkLockScreen: React.FC<SparkLockScreenProps> = ({ sparkTitle, sparkIcon }) => {
+  const { colors } = useTheme();
+  const [passcode, setPasscode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [canUseBiometrics, setCanUseBiometrics] = useState(false);
+
+  const handleBiometrics = async () => {
+    if (await SparkLockService.unlockWithBiometrics()) {
+      HapticFeedback.success();
+    }
+  };
+
+  // Offer biometrics straight away when they can unlock
+  useEffect(() => {
+    let cancelled = false;
+    SparkLockService.canUseBiometrics().then(available => {
+      if (cancelled) return;
+      setCanUseBiometrics(available);
+      if (available) {
+        handleBiometrics();
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleUnlock = async () => {
+    if (!passcode) return;
+    setIsBusy(true);
+    setError(null);
+    const unlocked = await SparkLockService.unlock(passcode);
+    if (unlocked) {
+      HapticFeedback.success();
+      return;
+    }
+    HapticFeedback.error();
+    setIsBusy(false);
+    setPasscode('');
+    setError('Incorrect passcode');
+  };
+
+  const styles = createStyles(colors);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.icon}>{sparkIcon}</Text>
+      <Text style={styles.title}>🔒 {sparkTitle} is private</Text>
+      <Text style={styles.subtitle}>Enter your passcode to open it</Text>
+      <TextInput
+        style={styles.input}
+        value={passcode}
+        onChangeText={setPasscode}
+        onSubmitEditing={handleUnlock}
+        keyboardType="number-pad"
+        secureTextEntry
+        maxLength={8}
+        autoFocus={!canUseBiometrics}
+        accessibilityLabel="Passcode"
+      />
+      {error && <Text style={styles.error}>{error}</Text>}
+      <TouchableOpacity
+        style={[styles.button, { backgroundColor: colors.primary }, (isBusy || !passcode) && styles.disabledButton]}
+        onPress={handleUnlock}
+        disabled={isBusy || !passcode}
+      >
+        {isBusy
+          ? <ActivityIndicator color={colors.background} />
+          : <Text style={[styles.buttonText, { color: colors.background }]}>Unlock</Text>}
+      </TouchableOpacity>
+      {canUseBiometrics && (
+        <TouchableOpacity style={styles.linkButton} onPress={handleBiometrics}>
+          <Text style={[styles.linkText, { color: colors.primary }]}>Use Face ID / Fingerprint</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    backgroundColor: colors.background,
+  },
+  icon: {
+    fontSize: 48,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: colors.text,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  input: {
+    width: 200,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 20,
+    letterSpacing: 8,
+    textAlign: 'center',
+    color: colors.text,
+    backgroundColor: colors.surface,
+  },
+  error: {
+    fontSize: 14,
+    color: colors.error,
+    marginTop: 8,
+  },
+  button: {
+    width: 200,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  linkButton: {
+    marginTop: 16,
+    padding: 8,
+  },
+  linkText: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+});
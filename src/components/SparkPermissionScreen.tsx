@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator, ScrollView } from 'react-native';
+import { useTheme } from '../contexts/ThemeContext';
+import { PermissionCheck, SparkPermissionService } from '../services/SparkPermissionService';
+import { SparkManifest } from '../types/spark';
+import { CAPABILITY_INFO } from '../utils/sparkManifest';
+import { HapticFeedback } from '../utils/haptics';
+
+interface SparkPermissionScreenProps {
+  sparkId: string;
+  sparkTitle: string;
+  sparkIcon: string;
+  manifest: SparkManifest;
+  permissionCheck: PermissionCheck;
+  onDone: (check: PermissionCheck) => void;
+}
+
+/**
+ * Explains why a spark needs each missing permission before the system asks for it
+ */
+export const SparkPermissionScreen: React.FC<SparkPermissionScreenProps> = ({
+  sparkId,
+  sparkTitle,
+  sparkIcon,
+  manifest,
+  permissionCheck,
+  onDone,
+}) => {
+  const { colors } = useTheme();
+  const [isBusy, setIsBusy] = useState(false);
+  const needsSettings = permissionCheck.blocked.length > 0;
+
+  const handleAllow = async () => {
+    setIsBusy(true);
+    const check = await SparkPermissionService.requestCapabilities(permissionCheck.missing);
+    setIsBusy(false);
+    if (check.missing.length === 0) {
+      HapticFeedback.success();
+    }
+    onDone(check);
+  };
+
+  const handleNotNow = () => {
+    HapticFeedback.light();
+    SparkPermissionService.skipForSession(sparkId);
+    onDone({ missing: [], blocked: [] });
+  };
+
+  const styles = createStyles(colors);
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <Text style={styles.icon}>{sparkIcon}</Text>
+      <Text style={styles.title}>{sparkTitle} needs your permission</Text>
+      <Text style={styles.subtitle}>
+        {needsSettings
+          ? 'Some permissions were turned off. You can turn them on in Settings.'
+          : "You'll be asked for each of these next."}
+      </Text>
+
+      {permissionCheck.missing.map(capability => (
+        <View key={capability} style={styles.row}>
+          <Text style={styles.rowIcon}>{CAPABILITY_INFO[capability].icon}</Text>
+          <View style={styles.rowText}>
+            <Text style={styles.rowLabel}>{CAPABILITY_INFO[capability].label}</Text>
+            <Text style={styles.rowReason}>{manifest.capabilities?.[capability]}</Text>
+          </View>
+        </View>
+      ))}
+
+      <TouchableOpacity
+        style={[styles.button, { backgroundColor: colors.primary }, isBusy && styles.disabledButton]}
+        onPress={needsSettings ? () => SparkPermissionService.openSettings() : handleAllow}
+        disabled={isBusy}
+      >
+        {isBusy
+          ? <ActivityIndicator color={colors.background} />
+          : <Text style={[styles.buttonText, { color: colors.background }]}>{needsSettings ? 'Open Settings' : 'Allow'}</Text>}
+      </TouchableOpacity>
+      {needsSettings && (
+        <TouchableOpacity style={styles.linkButton} onPress={handleAllow} disabled={isBusy}>
+          <Text style={[styles.linkText, { color: colors.primary }]}>I've turned them on</Text>
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity style={styles.linkButton} onPress={handleNotNow} disabled={isBusy}>
+        <Text style={[styles.linkText, { color: colors.textSecondary }]}>Not Now</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+};
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    backgroundColor: colors.background,
+  },
+  icon: {
+    fontSize: 48,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: colors.text,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'stretch',
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 8,
+    backgroundColor: colors.surface,
+  },
+  rowIcon: {
+    fontSize: 24,
+    marginRight: 12,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  rowReason: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  button: {
+    width: 200,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  linkButton: {
+    marginTop: 16,
+    padding: 8,
+  },
+  linkText: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,313 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, ScrollView, Alert, Modal } from 'react-native';
+import { useTheme } from '../contexts/ThemeContext';
+import { useSettingsStore } from '../store/settingsStore';
+import { ThemeColors, ThemePalette } from '../types/theme';
+import {
+  THEME_COLOR_KEYS,
+  isHexColor,
+  findContrastIssues,
+  getReadableTextColor,
+  validateThemePalette,
+} from '../utils/themeColors';
+import { generateId } from '../utils/idUtils';
+import { HapticFeedback } from '../utils/haptics';
+import { useTranslation } from '../i18n';
+
+type Mode = 'light' | 'dark';
+
+interface ThemeEditorProps {
+  visible: boolean;
+  palette: ThemePalette;
+  isNew: boolean;
+  onClose: () => void;
+}
+
+export const ThemeEditor: React.FC<ThemeEditorProps> = ({ visible, palette, isNew, onClose }) => {
+  const { colors, isDarkMode } = useTheme();
+  const { t } = useTranslation();
+  const { saveCustomTheme, deleteCustomTheme, setThemeId } = useSettingsStore();
+  const [name, setName] = useState(palette.name);
+  const [mode, setMode] = useState<Mode>(isDarkMode ? 'dark' : 'light');
+  const [draft, setDraft] = useState<Record<Mode, ThemeColors>>({ light: palette.light, dark: palette.dark });
+
+  const editing = draft[mode];
+  // Preview with the last valid colors so a half-typed hex value doesn't blank the preview
+  const preview: ThemeColors = { ...palette[mode] };
+  THEME_COLOR_KEYS.forEach(key => {
+    if (isHexColor(editing[key])) preview[key] = editing[key];
+  });
+  const issues = findContrastIssues(preview);
+
+  const setColor = (key: keyof ThemeColors, value: string) => {
+    setDraft(prev => ({ ...prev, [mode]: { ...prev[mode], [key]: value.trim() } }));
+  };
+
+  const handleSave = () => {
+    const result = validateThemePalette({
+      id: isNew ? generateId() : palette.id,
+      name: name.trim(),
+      light: draft.light,
+      dark: draft.dark,
+    });
+    if (!result.ok) {
+      HapticFeedback.error();
+      Alert.alert(t('theme.notSaved'), result.reason);
+      return;
+    }
+    HapticFeedback.success();
+    saveCustomTheme(result.palette);
+    setThemeId(result.palette.id);
+    onClose();
+  };
+
+  const handleDelete = () => {
+    Alert.alert(t('theme.deleteTitle'), t('theme.deleteMessage', { name: palette.name }), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('common.delete'),
+        style: 'destructive',
+        onPress: () => {
+          HapticFeedback.medium();
+          deleteCustomTheme(palette.id);
+          onClose();
+        },
+      },
+    ]);
+  };
+
+  const styles = createStyles(colors);
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.headerButton} onPress={onClose}>
+            <Text style={styles.headerButtonText}>{t('common.cancel')}</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>{isNew ? t('theme.newTheme') : t('theme.editTheme')}</Text>
+          <TouchableOpacity style={styles.headerButton} onPress={handleSave}>
+            <Text style={styles.headerButtonText}>{t('common.save')}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content}>
+          <Text style={styles.label}>{t('theme.name')}</Text>
+          <TextInput
+            style={styles.nameInput}
+            value={name}
+            onChangeText={setName}
+            placeholderTextColor={colors.textSecondary}
+            accessibilityLabel={t('theme.name')}
+          />
+
+          <View style={styles.modeRow}>
+            {(['light', 'dark'] as Mode[]).map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.modeChip, mode === option && { backgroundColor: colors.primary, borderColor: colors.primary }]}
+                onPress={() => setMode(option)}
+                accessibilityRole="button"
+                accessibilityState={{ selected: mode === option }}
+              >
+                <Text style={[styles.modeChipText, mode === option && { color: getReadableTextColor(colors.primary) }]}>
+                  {t(`theme.${option}`)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>{t('theme.preview')}</Text>
+          <View style={[styles.preview, { backgroundColor: preview.background, borderColor: preview.border }]}>
+            <View style={[styles.previewCard, { backgroundColor: preview.card, borderColor: preview.border }]}>
+              <Text style={{ color: preview.text }}>{t('theme.previewText')}</Text>
+              <Text style={{ color: preview.textSecondary, marginTop: 4 }}>{t('theme.colors.textSecondary')}</Text>
+            </View>
+            <View style={[styles.previewButton, { backgroundColor: preview.primary }]}>
+              <Text style={{ color: getReadableTextColor(preview.primary), fontWeight: '600' }}>
+                {t('theme.previewButton')}
+              </Text>
+            </View>
+          </View>
+
+          {issues.map(issue => (
+            <Text key={`${issue.foreground}-${issue.background}`} style={styles.warning}>
+              ⚠️ {t('theme.lowContrast', {
+                foreground: t(`theme.colors.${issue.foreground}`),
+                background: t(`theme.colors.${issue.background}`),
+                ratio: Math.round(issue.ratio * 10) / 10,
+                minimum: issue.minimum,
+              })}
+            </Text>
+          ))}
+
+          {THEME_COLOR_KEYS.map(key => {
+            const valid = isHexColor(editing[key]);
+            return (
+              <View key={key} style={styles.colorRow}>
+                <View style={[styles.colorSwatch, { backgroundColor: valid ? editing[key] : 'transparent' }]} />
+                <Text style={styles.colorLabel}>{t(`theme.colors.${key}`)}</Text>
+                <View style={styles.colorInputWrapper}>
+                  <TextInput
+                    style={[styles.colorInput, !valid && { borderColor: colors.error }]}
+                    value={editing[key]}
+                    onChangeText={value => setColor(key, value)}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    maxLength={7}
+                    accessibilityLabel={t(`theme.colors.${key}`)}
+                    accessibilityHint={t('theme.invalidColor')}
+                  />
+                  {!valid && <Text style={styles.errorText}>{t('theme.invalidColor')}</Text>}
+                </View>
+              </View>
+            );
+          })}
+
+          {!isNew && (
+            <TouchableOpacity style={[styles.deleteButton, { borderColor: colors.error }]} onPress={handleDelete}>
+              <Text style={[styles.deleteText, { color: colors.error }]}>{t('theme.deleteTitle')}</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  headerButton: {
+    padding: 8,
+  },
+  headerButtonText: {
+    fontSize: 16,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginBottom: 8,
+  },
+  nameInput: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: colors.text,
+    backgroundColor: colors.surface,
+    marginBottom: 16,
+  },
+  modeRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  modeChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  modeChipText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  preview: {
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 12,
+  },
+  previewCard: {
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginBottom: 12,
+  },
+  previewButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+  },
+  warning: {
+    fontSize: 13,
+    color: colors.warning,
+    marginBottom: 8,
+  },
+  colorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  colorSwatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: colors.border,
+    marginRight: 12,
+  },
+  colorLabel: {
+    flex: 1,
+    fontSize: 15,
+    color: colors.text,
+  },
+  colorInputWrapper: {
+    width: 140,
+  },
+  colorInput: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    fontSize: 15,
+    fontFamily: 'Courier',
+    color: colors.text,
+  },
+  errorText: {
+    fontSize: 11,
+    color: colors.error,
+    marginTop: 2,
+  },
+  deleteButton: {
+    marginTop: 24,
+    marginBottom: 40,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  deleteText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useTheme } from '../contexts/ThemeContext';
+import { SettingsSection, SettingsButton, SettingsToggle } from './SettingsComponents';
+import { ThemeEditor } from './ThemeEditor';
+import { SparkAccentManager } from './SparkAccentManager';
+import { useSettingsStore } from '../store/settingsStore';
+import { THEME_PRESETS, getThemePalette } from '../theme/palettes';
+import { ThemePalette } from '../types/theme';
+import { HapticFeedback } from '../utils/haptics';
+import { useTranslation, TranslationKey } from '../i18n';
+
+export const ThemeSettingsSection: React.FC = () => {
+  const { colors } = useTheme();
+  const { t } = useTranslation();
+  const { darkMode, toggleDarkMode, themeId, customThemes, setThemeId } = useSettingsStore();
+  const [editing, setEditing] = useState<{ palette: ThemePalette; isNew: boolean } | null>(null);
+  const [isAccentsOpen, setIsAccentsOpen] = useState(false);
+
+  const current = getThemePalette(themeId, customThemes);
+
+  const paletteName = (palette: ThemePalette) =>
+    palette.builtIn ? t(`theme.presets.${palette.id}` as TranslationKey) : palette.name;
+
+  const handleNew = () => {
+    // New themes start as a copy of the active one
+    setEditing({
+      palette: {
+        id: '',
+        name: t('theme.copyName', { name: paletteName(current) }),
+        light: { ...current.light },
+        dark: { ...current.dark },
+      },
+      isNew: true,
+    });
+  };
+
+  const styles = createStyles(colors);
+
+  return (
+    <SettingsSection title={t('theme.title')}>
+      <Text style={styles.description}>{t('theme.description')}</Text>
+
+      <SettingsToggle label={t('theme.darkMode')} value={darkMode} onValueChange={toggleDarkMode} />
+
+      <View style={styles.paletteRow}>
+        {[...THEME_PRESETS, ...customThemes].map(palette => {
+          const selected = palette.id === current.id;
+          const swatches = darkMode ? palette.dark : palette.light;
+          return (
+            <TouchableOpacity
+              key={palette.id}
+              style={[styles.paletteChip, selected && { borderColor: colors.primary, borderWidth: 2 }]}
+              onPress={() => {
+                HapticFeedback.light();
+                setThemeId(palette.id);
+              }}
+              accessibilityRole="button"
+              accessibilityLabel={paletteName(palette)}
+              accessibilityState={{ selected }}
+            >
+              <View style={[styles.swatches, { backgroundColor: swatches.background }]}>
+                {[swatches.primary, swatches.secondary, swatches.text].map((color, index) => (
+                  <View key={index} style={[styles.swatch, { backgroundColor: color }]} />
+                ))}
+              </View>
+              <Text style={styles.paletteName} numberOfLines={1}>{paletteName(palette)}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.buttons}>
+        {!current.builtIn && (
+          <SettingsButton
+            title={t('theme.editTheme')}
+            onPress={() => setEditing({ palette: current, isNew: false })}
+            variant="outline"
+          />
+        )}
+        <SettingsButton title={t('theme.newTheme')} onPress={handleNew} variant="outline" />
+        <SettingsButton title={t('theme.sparkAccents')} onPress={() => setIsAccentsOpen(true)} variant="outline" />
+      </View>
+
+      {editing && (
+        <ThemeEditor
+          visible
+          palette={editing.palette}
+          isNew={editing.isNew}
+          onClose={() => setEditing(null)}
+        />
+      )}
+      <SparkAccentManager visible={isAccentsOpen} onClose={() => setIsAccentsOpen(false)} />
+    </SettingsSection>
+  );
+};
+
+const createStyles = (colors: any) => StyleSheet.create({
+  description: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+  paletteRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+    marginVertical: 12,
+  },
+  paletteChip: {
+    width: 96,
+    padding: 6,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: colors.border,
+    alignItems: 'center',
+  },
+  swatches: {
+    flexDirection: 'row',
+    gap: 4,
+    padding: 6,
+    borderRadius: 6,
+    marginBottom: 6,
+  },
+  swatch: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+  },
+  paletteName: {
+    fontSize: 12,
+    color: colors.text,
+  },
+  buttons: {
+    gap: 8,
+  },
+});
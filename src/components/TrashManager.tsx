@@ -0,0 +1,213 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Alert, Modal } from 'react-native';
+import { useTheme } from '../contexts/ThemeContext';
+import { useTrashStore } from '../store/trashStore';
+import { TrashService } from '../services/TrashService';
+import { getSparkById } from './SparkRegistry';
+import { TrashedItem } from '../types/trash';
+import { TRASH_RETENTION_DAYS, daysUntilPurge } from '../utils/trash';
+import { HapticFeedback } from '../utils/haptics';
+import { useTranslation, formatLocaleDate } from '../i18n';
+
+interface TrashManagerProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+export const TrashManager: React.FC<TrashManagerProps> = ({ visible, onClose }) => {
+  const { colors } = useTheme();
+  const { t, locale } = useTranslation();
+  const items = useTrashStore(state => state.items);
+
+  // Newest first, grouped by spark
+  const groups = items.reduce<Record<string, TrashedItem[]>>((acc, item) => {
+    (acc[item.sparkId] = acc[item.sparkId] || []).push(item);
+    return acc;
+  }, {});
+
+  const handleRestore = (item: TrashedItem) => {
+    try {
+      TrashService.restore(item.id);
+      HapticFeedback.success();
+    } catch (error: any) {
+      HapticFeedback.error();
+      Alert.alert(t('trash.restoreFailed'), error.message);
+    }
+  };
+
+  const handleDelete = (item: TrashedItem) => {
+    Alert.alert(t('trash.deleteForever'), t('trash.deleteForeverMessage', { label: item.label }), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('common.delete'),
+        style: 'destructive',
+        onPress: () => {
+          HapticFeedback.medium();
+          TrashService.purge([item.id]);
+        },
+      },
+    ]);
+  };
+
+  const handleEmpty = () => {
+    Alert.alert(t('trash.emptyTrash'), t('trash.emptyTrashMessage', { count: items.length }), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('trash.emptyTrash'),
+        style: 'destructive',
+        onPress: () => {
+          HapticFeedback.medium();
+          TrashService.emptyTrash();
+        },
+      },
+    ]);
+  };
+
+  const styles = createStyles(colors);
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{t('trash.title')}</Text>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeButtonText}>{t('common.close')}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content}>
+          <Text style={styles.description}>
+            {t('trash.keptFor', { days: TRASH_RETENTION_DAYS })}
+          </Text>
+
+          {items.length === 0 && <Text style={styles.emptyText}>{t('trash.empty')}</Text>}
+
+          {Object.entries(groups).map(([sparkId, sparkItems]) => {
+            const spark = getSparkById(sparkId);
+            return (
+              <View key={sparkId} style={styles.group}>
+                <Text style={styles.groupTitle}>
+                  {spark?.metadata.icon || '📦'} {spark?.metadata.title || sparkId}
+                </Text>
+                {sparkItems.map(item => (
+                  <View key={item.id} style={styles.itemRow}>
+                    <View style={styles.itemInfo}>
+                      <Text style={styles.itemLabel} numberOfLines={2}>{item.label}</Text>
+                      <Text style={styles.itemDetail}>
+                        {t('trash.deletedOn', {
+                          date: formatLocaleDate(new Date(item.deletedAt), undefined, locale),
+                          count: daysUntilPurge(item),
+                        })}
+                      </Text>
+                    </View>
+                    <TouchableOpacity style={styles.actionButton} onPress={() => handleRestore(item)}>
+                      <Text style={[styles.actionText, { color: colors.primary }]}>{t('trash.restore')}</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.actionButton} onPress={() => handleDelete(item)}>
+                      <Text style={[styles.actionText, { color: colors.error }]}>{t('common.delete')}</Text>
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </View>
+            );
+          })}
+
+          {items.length > 0 && (
+            <TouchableOpacity style={[styles.emptyButton, { borderColor: colors.error }]} onPress={handleEmpty}>
+              <Text style={[styles.actionText, { color: colors.error }]}>{t('trash.emptyTrash')}</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  closeButtonText: {
+    fontSize: 16,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  description: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: colors.textSecondary,
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  group: {
+    marginBottom: 20,
+  },
+  groupTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 8,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  itemLabel: {
+    fontSize: 15,
+    color: colors.text,
+  },
+  itemDetail: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  actionButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderWidth: 1,
+    borderRadius: 8,
+    marginTop: 8,
+    marginBottom: 40,
+  },
+});
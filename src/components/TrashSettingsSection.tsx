@@ -0,0 +1,36 @@
+import React, { useState } from 'react';
+import { Text, StyleSheet } from 'react-native';
+import { useTheme } from '../contexts/ThemeContext';
+import { SettingsSection, SettingsButton } from './SettingsComponents';
+import { TrashManager } from './TrashManager';
+import { useTrashStore } from '../store/trashStore';
+import { TRASH_RETENTION_DAYS } from '../utils/trash';
+import { useTranslation } from '../i18n';
+
+export const TrashSettingsSection: React.FC = () => {
+  const { colors } = useTheme();
+  const { t } = useTranslation();
+  const itemCount = useTrashStore(state => state.items.length);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const styles = createStyles(colors);
+
+  return (
+    <SettingsSection title={t('trash.title')}>
+      <Text style={styles.description}>
+        {t('trash.description', { days: TRASH_RETENTION_DAYS })}
+      </Text>
+      <SettingsButton title={t('trash.open', { count: itemCount })} onPress={() => setIsOpen(true)} variant="outline" />
+      <TrashManager visible={isOpen} onClose={() => setIsOpen(false)} />
+    </SettingsSection>
+  );
+};
+
+const createStyles = (colors: any) => StyleSheet.create({
+  description: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+});
@@ -0,0 +1,43 @@
+import { loadSparkComponent } from '../sparkComponentLoader';
+import { BaseSpark } from '../../types/spark';
+
+const TestComponent = () => null;
+
+const makeSpark = (id: string, loadComponent: BaseSpark['loadComponent']): BaseSpark => ({
+    metadata: {
+        id,
+        title: id,
+        description: '',
+        icon: '⚡️',
+        category: 'utility',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        rating: 5,
+    },
+    loadComponent,
+});
+
+describe('sparkComponentLoader', () => {
+    it('loads a spark once and reuses the component', async () => {
+        const load = jest.fn(async () => TestComponent);
+        const spark = makeSpark('once', load);
+
+        const [first, second] = await Promise.all([loadSparkComponent(spark), loadSparkComponent(spark)]);
+        const third = await loadSparkComponent(spark);
+
+        expect(first).toBe(TestComponent);
+        expect(second).toBe(TestComponent);
+        expect(third).toBe(TestComponent);
+        expect(load).toHaveBeenCalledTimes(1);
+    });
+
+    it('tries again after a failed load', async () => {
+        const load = jest.fn()
+            .mockRejectedValueOnce(new Error('Network request failed'))
+            .mockResolvedValueOnce(TestComponent);
+        const spark = makeSpark('retry', load);
+
+        await expect(loadSparkComponent(spark)).rejects.toThrow('Network request failed');
+        await expect(loadSparkComponent(spark)).resolves.toBe(TestComponent);
+        expect(load).toHaveBeenCalledTimes(2);
+    });
+});
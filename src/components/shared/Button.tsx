@@ -1,6 +1,7 @@
 import React from 'react';
 import styled from 'styled-components/native';
 import { TouchableOpacityProps } from 'react-native';
+import { useTheme } from '../../contexts/ThemeContext';
 
 type ButtonVariant = 'primary' | 'secondary' | 'outline' | 'ghost';
 type ButtonSize = 'small' | 'medium' | 'large';
@@ -99,12 +100,12 @@ const StyledButton = styled.TouchableOpacity<{
   elevation: ${THEME_VALUES.elevation};
 `;
 
-const ButtonText = styled.Text<{ variant: ButtonVariant; size: ButtonSize }>`
-  ${({ variant, size }) => {
+const ButtonText = styled.Text<{ variant: ButtonVariant; size: ButtonSize; fontScale: number }>`
+  ${({ variant, size, fontScale }) => {
     const styles = getButtonStyles(variant, size);
     return `
       color: ${styles.textColor};
-      font-size: ${styles.fontSize}px;
+      font-size: ${Math.round(styles.fontSize * fontScale)}px;
     `;
   }}
   font-weight: 600;
@@ -118,14 +119,17 @@ export const Button: React.FC<ButtonProps> = ({
   children,
   ...props
 }) => {
+  const { fontScale } = useTheme();
+
   return (
     <StyledButton
       variant={variant}
       size={size}
       fullWidth={fullWidth}
+      accessibilityRole="button"
       {...props}
     >
-      <ButtonText variant={variant} size={size}>
+      <ButtonText variant={variant} size={size} fontScale={fontScale}>
         {children}
       </ButtonText>
     </StyledButton>
@@ -1,6 +1,7 @@
 import React from 'react';
 import styled from 'styled-components/native';
 import { ViewProps } from 'react-native';
+import { useTheme } from '../../contexts/ThemeContext';
 
 interface CardProps extends ViewProps {
   children: React.ReactNode;
@@ -20,13 +21,14 @@ const THEME_VALUES = {
   elevation: 2,
 };
 
-const StyledCard = styled.View<{ padding: string; shadow: boolean }>`
+const StyledCard = styled.View<{ padding: string; shadow: boolean; fontScale: number }>`
   background-color: ${THEME_VALUES.surface};
   border-radius: ${THEME_VALUES.borderRadius}px;
-  ${({ padding }) => {
+  ${({ padding, fontScale }) => {
     const paddingMap: Record<string, number> = { sm: THEME_VALUES.spacing.sm, md: THEME_VALUES.spacing.md, lg: THEME_VALUES.spacing.lg };
     const paddingValue = paddingMap[padding] || THEME_VALUES.spacing.md;
-    return `padding: ${paddingValue}px;`;
+    // Larger text gets more room so it doesn't crowd the card's edges
+    return `padding: ${Math.round(paddingValue * Math.max(fontScale, 1))}px;`;
   }}
   ${({ shadow }) => shadow && `
     shadow-color: ${THEME_VALUES.shadowColor};
@@ -43,8 +45,10 @@ export const Card: React.FC<CardProps> = ({
   shadow = true,
   ...props
 }) => {
+  const { fontScale } = useTheme();
+
   return (
-    <StyledCard padding={padding} shadow={shadow} {...props}>
+    <StyledCard padding={padding} shadow={shadow} fontScale={fontScale} {...props}>
       {children}
     </StyledCard>
   );
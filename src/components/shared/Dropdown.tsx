@@ -29,7 +29,7 @@ export const Dropdown: React.FC<DropdownProps> = ({
   modalTitle = "Select Option",
 }) => {
   const [isOpen, setIsOpen] = useState(false);
-  const { colors } = useTheme();
+  const { colors, scaleFont } = useTheme();
 
   const handleSelect = useCallback((value: string | number) => {
     onSelect(value);
@@ -51,7 +51,7 @@ export const Dropdown: React.FC<DropdownProps> = ({
     },
     text: {
       color: colors.text,
-      fontSize: 16,
+      fontSize: scaleFont(16),
     },
     modalOverlay: {
       flex: 1,
@@ -72,7 +72,7 @@ export const Dropdown: React.FC<DropdownProps> = ({
       shadowRadius: 3.84,
     },
     modalHeader: {
-      fontSize: 18,
+      fontSize: scaleFont(18),
       fontWeight: '600',
       textAlign: 'center',
       padding: 16,
@@ -91,7 +91,7 @@ export const Dropdown: React.FC<DropdownProps> = ({
     },
     optionText: {
       color: colors.text,
-      fontSize: 16,
+      fontSize: scaleFont(16),
     },
     selectedOptionText: {
       fontWeight: '600',
@@ -107,9 +107,12 @@ export const Dropdown: React.FC<DropdownProps> = ({
         onPress={() => setIsOpen(true)}
         style={[styles.touchable, style]}
         activeOpacity={0.7}
+        accessibilityRole="button"
+        accessibilityLabel={`${modalTitle}: ${selectedLabel}`}
+        accessibilityState={{ expanded: isOpen }}
       >
         <Text style={[styles.text, textStyle]}>{selectedLabel}</Text>
-        <Text style={[styles.text, { fontSize: 12 }]}>{'▼'}</Text>
+        <Text style={[styles.text, { fontSize: scaleFont(12) }]} importantForAccessibility="no">{'▼'}</Text>
       </TouchableOpacity>
 
       <Modal
@@ -127,7 +130,7 @@ export const Dropdown: React.FC<DropdownProps> = ({
             style={styles.modalContent}
             onStartShouldSetResponder={() => true}
           >
-            <Text style={styles.modalHeader}>{modalTitle}</Text>
+            <Text style={styles.modalHeader} accessibilityRole="header">{modalTitle}</Text>
             <ScrollView
               style={{ maxHeight: 300 }}
               showsVerticalScrollIndicator={true}
@@ -138,6 +141,8 @@ export const Dropdown: React.FC<DropdownProps> = ({
                 <TouchableOpacity
                   key={option.value.toString()}
                   onPress={() => handleSelect(option.value)}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: selectedValue === option.value }}
                   style={[
                     styles.optionItem,
                     selectedValue === option.value && styles.selectedOptionItem,
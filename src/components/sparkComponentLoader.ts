@@ -0,0 +1,66 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { BaseSpark, SparkProps } from '../types/spark';
+
+type SparkComponent = React.ComponentType<SparkProps>;
+
+// Components that have loaded, so reopening a spark doesn't wait again
+const loadedComponents: Record<string, SparkComponent> = {};
+const pendingLoads: Record<string, Promise<SparkComponent>> = {};
+
+/**
+ * Load a spark's component, sharing the request if it is already loading.
+ * A failed load is not remembered, so it can be retried.
+ */
+export const loadSparkComponent = (spark: BaseSpark): Promise<SparkComponent> => {
+  const sparkId = spark.metadata.id;
+  if (loadedComponents[sparkId]) {
+    return Promise.resolve(loadedComponents[sparkId]);
+  }
+  if (!pendingLoads[sparkId]) {
+    pendingLoads[sparkId] = spark.loadComponent()
+      .then(component => {
+        loadedComponents[sparkId] = component;
+        return component;
+      })
+      .finally(() => {
+        delete pendingLoads[sparkId];
+      });
+  }
+  return pendingLoads[sparkId];
+};
+
+/**
+ * The spark's component once loaded, with the load error and a retry for the fallback screen
+ */
+export const useSparkComponent = (spark: BaseSpark | undefined) => {
+  const [component, setComponent] = useState<SparkComponent | undefined>(
+    () => (spark ? loadedComponents[spark.metadata.id] : undefined)
+  );
+  const [error, setError] = useState<Error | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!spark) return;
+    const loaded = loadedComponents[spark.metadata.id];
+    setComponent(() => loaded);
+    setError(null);
+    if (loaded) return;
+
+    let cancelled = false;
+    loadSparkComponent(spark)
+      .then(loadedComponent => {
+        if (!cancelled) setComponent(() => loadedComponent);
+      })
+      .catch(loadError => {
+        console.error(`Failed to load spark ${spark.metadata.id}:`, loadError);
+        if (!cancelled) setError(loadError);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [spark, attempt]);
+
+  const retry = useCallback(() => setAttempt(count => count + 1), []);
+
+  return { component, error, retry };
+};
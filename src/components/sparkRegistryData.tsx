@@ -1,47 +1,41 @@
 import { BaseSpark } from "../types/spark";
 
-// Import actual spark components
 import React from "react";
 import { BaseSpark as BaseSparkComponent } from "./BaseSpark";
-import { SpinnerSpark } from "../sparks/SpinnerSpark";
-import { FlashcardsSpark } from "../sparks/FlashcardsSpark";
-import { PackingListSpark } from "../sparks/PackingListSpark";
-import { TodoSpark } from "../sparks/TodoSpark";
-import ToviewSpark from "../sparks/ToviewSpark";
-import { FoodCamSpark } from "../sparks/FoodCamSpark";
-import { SpanishFriendSpark } from "../sparks/SpanishFriendSpark";
-import { TeeTimeTimerSpark } from "../sparks/TeeTimeTimerSpark";
-import { SoundboardSpark } from "../sparks/SoundboardSpark";
-import { GolfBrainSpark } from "../sparks/GolfBrainSpark";
-import QuickConvertSpark from "../sparks/QuickConvertSpark";
-import SpanishReaderSpark from "../sparks/SpanishReaderSpark";
-import TripStorySpark from "../sparks/TripStorySpark";
-import ShortSaverSpark from "../sparks/ShortSaverSpark";
-import SongSaverSpark from "../sparks/SongSaverSpark";
-import SparkSpark from "../sparks/SparkSpark";
-import { MinuteMinderSpark } from "../sparks/MinuteMinderSpark";
-import { BuzzyBingoSpark } from "../sparks/BuzzyBingoSpark";
-import { CardScoreSpark } from "../sparks/CardScoreSpark";
-import { GolfWisdomSpark } from "../sparks/GolfWisdomSpark";
-import WeightTrackerSpark from "../sparks/WeightTrackerSpark";
-import ShareSparks from "../sparks/ShareSparks";
-import ComingUpSpark from "../sparks/ComingUpSpark";
-import { FinalClockSpark } from "../sparks/FinalClockSpark";
-import TripSurveySpark from "../sparks/TripSurveySpark";
-import RecAIpeSpark from "../sparks/RecAIpeSpark";
-import ShopSpark from "../sparks/ShopSpark";
-import { SparkStatsSpark } from "../sparks/SparkStatsSpark";
-import { SkinsSpark } from "../sparks/SkinsSpark";
-import { SpeakSpark } from "../sparks/SpeakSpark";
-import FriendSpark from "../sparks/FriendSpark";
-import TripodSpark from "../sparks/TripodSpark";
-import MemorySpark from "../sparks/MemorySpark";
-import { DreamCatcherSpark } from "../sparks/DreamCatcherSpark";
-import { GoalTrackerSpark } from "../sparks/GoalTrackerSpark";
-import { ScorecardSpark } from "../sparks/ScorecardSpark";
-import { IdeasSpark } from "../sparks/IdeasSpark";
-import BusinessSpark from "../sparks/BusinessSpark/BusinessSpark";
-import { InfiniteSpark } from "../sparks/InfiniteSpark";
+// Spark components are loaded when a spark is first opened (see loadComponent);
+// only the parts the app needs while a spark is closed are imported here
+import { flashcardsDataSchema } from "../sparks/FlashcardsSpark/dataSchema";
+import { flashcardsSearchIndexer } from "../sparks/FlashcardsSpark/searchIndexer";
+import { spinnerVoiceIntents } from "../sparks/SpinnerSpark/voiceIntents";
+import { packingListDataSchema } from "../sparks/PackingListSpark/dataSchema";
+import { packingListVoiceIntents } from "../sparks/PackingListSpark/voiceIntents";
+import { todoDataSchema } from "../sparks/TodoSpark/dataSchema";
+import { toviewDataSchema } from "../sparks/ToviewSpark/dataSchema";
+import { todoSearchIndexer } from "../sparks/TodoSpark/searchIndexer";
+import { todoVoiceIntents } from "../sparks/TodoSpark/voiceIntents";
+import { toviewSearchIndexer } from "../sparks/ToviewSpark/searchIndexer";
+import { toviewVoiceIntents } from "../sparks/ToviewSpark/voiceIntents";
+import { foodCamFileStorage } from "../sparks/FoodCamSpark/fileStorage";
+import { soundboardFileStorage } from "../sparks/SoundboardSpark/fileStorage";
+import { golfBrainDataAdapter } from "../sparks/GolfBrainSpark/dataAdapter";
+import { golfBrainFileStorage } from "../sparks/GolfBrainSpark/fileStorage";
+import { golfBrainVoiceIntents } from "../sparks/GolfBrainSpark/voiceIntents";
+import { tripStorySearchIndexer } from "../sparks/TripStorySpark/searchIndexer";
+import { cardScoreDataAdapter } from "../sparks/CardScoreSpark/dataAdapter";
+import { weightTrackerDataAdapter } from "../sparks/WeightTrackerSpark/dataAdapter";
+import { weightTrackerVoiceIntents } from "../sparks/WeightTrackerSpark/voiceIntents";
+import { comingUpSearchIndexer } from "../sparks/ComingUpSpark/searchIndexer";
+import { comingUpVoiceIntents } from "../sparks/ComingUpSpark/voiceIntents";
+import { recaipeFileStorage } from "../sparks/RecAIpeSpark/fileStorage";
+import { recaipeSearchIndexer } from "../sparks/RecAIpeSpark/searchIndexer";
+import { dreamCatcherSearchIndexer } from "../sparks/DreamCatcherSpark/searchIndexer";
+import { shopVoiceIntents } from "../sparks/ShopSpark/voiceIntents";
+import { goalTrackerEventHandler } from "../sparks/GoalTrackerSpark/goalEvents";
+import { goalTrackerVoiceIntents } from "../sparks/GoalTrackerSpark/voiceIntents";
+import { scorecardVoiceIntents } from "../sparks/ScorecardSpark/voiceIntents";
+import { ideasDataAdapter } from "../sparks/IdeasSpark/dataAdapter";
+import { ideasSearchIndexer } from "../sparks/IdeasSpark/searchIndexer";
+import { ideasVoiceIntents } from "../sparks/IdeasSpark/voiceIntents";
 import styled from "styled-components/native";
 
 const PlaceholderContainer = styled.View`
@@ -76,7 +70,8 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       createdAt: "2024-01-01T00:00:00.000Z",
       rating: 4.2,
     },
-    component: SpinnerSpark,
+    loadComponent: () => import("../sparks/SpinnerSpark").then(m => m.SpinnerSpark),
+    voiceIntents: spinnerVoiceIntents,
   },
   flashcards: {
     metadata: {
@@ -88,7 +83,10 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       createdAt: "2024-01-02T00:00:00.000Z",
       rating: 4.6,
     },
-    component: FlashcardsSpark,
+    loadComponent: () => import("../sparks/FlashcardsSpark").then(m => m.FlashcardsSpark),
+    dataSchema: flashcardsDataSchema,
+    searchIndexer: flashcardsSearchIndexer,
+    cloudSync: true,
   },
   "packing-list": {
     metadata: {
@@ -100,7 +98,10 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       createdAt: "2024-01-04T00:00:00.000Z",
       rating: 4.3,
     },
-    component: PackingListSpark,
+    loadComponent: () => import("../sparks/PackingListSpark").then(m => m.PackingListSpark),
+    dataSchema: packingListDataSchema,
+    cloudSync: true,
+    voiceIntents: packingListVoiceIntents,
   },
   todo: {
     metadata: {
@@ -112,7 +113,11 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       createdAt: "2024-01-05T00:00:00.000Z",
       rating: 4.7,
     },
-    component: TodoSpark,
+    loadComponent: () => import("../sparks/TodoSpark").then(m => m.TodoSpark),
+    dataSchema: todoDataSchema,
+    searchIndexer: todoSearchIndexer,
+    cloudSync: true,
+    voiceIntents: todoVoiceIntents,
   },
   toview: {
     metadata: {
@@ -124,7 +129,11 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       createdAt: "2024-01-06T00:00:00.000Z",
       rating: 4.1,
     },
-    component: ToviewSpark,
+    loadComponent: () => import("../sparks/ToviewSpark").then(m => m.default),
+    dataSchema: toviewDataSchema,
+    searchIndexer: toviewSearchIndexer,
+    cloudSync: true,
+    voiceIntents: toviewVoiceIntents,
   },
   "food-cam": {
     metadata: {
@@ -136,8 +145,15 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       category: "health",
       createdAt: "2024-01-07T00:00:00.000Z",
       rating: 4.4,
+      manifest: {
+        capabilities: {
+          camera: "To photograph your meals",
+          "media-library": "To save meal photos to your library",
+        },
+      },
     },
-    component: FoodCamSpark,
+    loadComponent: () => import("../sparks/FoodCamSpark").then(m => m.FoodCamSpark),
+    fileStorage: foodCamFileStorage,
   },
   "spanish-friend": {
     metadata: {
@@ -149,7 +165,7 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       createdAt: "2024-01-08T00:00:00.000Z",
       rating: 4.5,
     },
-    component: SpanishFriendSpark,
+    loadComponent: () => import("../sparks/SpanishFriendSpark").then(m => m.SpanishFriendSpark),
   },
   "tee-time-timer": {
     metadata: {
@@ -160,8 +176,13 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       category: "golf",
       createdAt: "2024-01-09T00:00:00.000Z",
       rating: 4.0,
+      manifest: {
+        capabilities: {
+          notifications: "To remind you when it is time to leave for your tee time",
+        },
+      },
     },
-    component: TeeTimeTimerSpark,
+    loadComponent: () => import("../sparks/TeeTimeTimerSpark").then(m => m.TeeTimeTimerSpark),
   },
   soundboard: {
     metadata: {
@@ -172,8 +193,15 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       category: "media",
       createdAt: "2024-01-10T00:00:00.000Z",
       rating: 3.8,
+      manifest: {
+        capabilities: {
+          microphone: "To record your sounds",
+        },
+        sharing: "Sound clips you choose to share",
+      },
     },
-    component: SoundboardSpark,
+    loadComponent: () => import("../sparks/SoundboardSpark").then(m => m.SoundboardSpark),
+    fileStorage: soundboardFileStorage,
   },
   "golf-brain": {
     metadata: {
@@ -185,8 +213,18 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       category: "golf",
       createdAt: "2024-01-11T00:00:00.000Z",
       rating: 4.5,
-    },
-    component: GolfBrainSpark,
+      manifest: {
+        capabilities: {
+          camera: "To record your swing",
+          microphone: "To capture audio with swing videos",
+          "media-library": "To save swing videos",
+        },
+      },
+    },
+    loadComponent: () => import("../sparks/GolfBrainSpark").then(m => m.GolfBrainSpark),
+    dataAdapter: golfBrainDataAdapter,
+    fileStorage: golfBrainFileStorage,
+    voiceIntents: golfBrainVoiceIntents,
   },
   "quick-convert": {
     metadata: {
@@ -198,8 +236,11 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       category: "utility",
       createdAt: "2024-01-12T00:00:00.000Z",
       rating: 3.9,
+      manifest: {
+        network: "Downloads current exchange rates",
+      },
     },
-    component: QuickConvertSpark,
+    loadComponent: () => import("../sparks/QuickConvertSpark").then(m => m.default),
   },
   "spanish-reader": {
     metadata: {
@@ -212,7 +253,7 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       createdAt: "2024-01-13T00:00:00.000Z",
       rating: 4.3,
     },
-    component: SpanishReaderSpark,
+    loadComponent: () => import("../sparks/SpanishReaderSpark").then(m => m.default),
   },
   "trip-story": {
     metadata: {
@@ -224,8 +265,18 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       category: "travel",
       createdAt: "2024-01-14T00:00:00.000Z",
       rating: 4.8,
-    },
-    component: TripStorySpark,
+      manifest: {
+        capabilities: {
+          location: "To tag photos and stops with where you were",
+          "media-library": "To add photos from your library",
+          notifications: "To remind you to capture your day",
+        },
+        network: "Looks up place names for locations",
+        sharing: "Trip stories you choose to share",
+      },
+    },
+    loadComponent: () => import("../sparks/TripStorySpark").then(m => m.default),
+    searchIndexer: tripStorySearchIndexer,
   },
   "short-saver": {
     metadata: {
@@ -236,9 +287,12 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       category: "media",
       createdAt: "2024-01-15T00:00:00.000Z",
       rating: 4.5,
-      properties: ["Shareable"],
+      manifest: {
+        network: "Loads video details from YouTube",
+        sharing: "Videos you choose to share",
+      },
     },
-    component: ShortSaverSpark,
+    loadComponent: () => import("../sparks/ShortSaverSpark").then(m => m.default),
   },
   "song-saver": {
     metadata: {
@@ -250,7 +304,7 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       createdAt: "2024-11-21T00:00:00.000Z",
       rating: 4.5,
     },
-    component: SongSaverSpark,
+    loadComponent: () => import("../sparks/SongSaverSpark").then(m => m.default),
   },
   "spark-wizard": {
     metadata: {
@@ -261,8 +315,11 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       category: "community",
       createdAt: "2024-01-16T00:00:00.000Z",
       rating: 4.5,
+      manifest: {
+        network: "Sends your spark idea to the Sparks team",
+      },
     },
-    component: SparkSpark,
+    loadComponent: () => import("../sparks/SparkSpark").then(m => m.default),
   },
   "minute-minder": {
     metadata: {
@@ -274,8 +331,15 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       category: "productivity",
       createdAt: "2024-01-17T00:00:00.000Z",
       rating: 4.0,
+      manifest: {
+        capabilities: {
+          notifications: "To remind you before meetings start",
+          "media-library": "To read meeting details from screenshots",
+        },
+        ai: "Screenshots of your calendar, to find meetings",
+      },
     },
-    component: MinuteMinderSpark,
+    loadComponent: () => import("../sparks/MinuteMinderSpark").then(m => m.MinuteMinderSpark),
   },
   "buzzy-bingo": {
     metadata: {
@@ -286,9 +350,12 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       category: "game",
       createdAt: "2025-11-01T00:00:00.000Z",
       rating: 4.5,
-      properties: ["AI"],
+      manifest: {
+        ai: "Your bingo topic, to generate buzzwords",
+        sharing: "Bingo cards you choose to share",
+      },
     },
-    component: BuzzyBingoSpark as React.ComponentType<any>,
+    loadComponent: () => import("../sparks/BuzzyBingoSpark").then(m => m.BuzzyBingoSpark as React.ComponentType<any>),
   },
   memory: {
     metadata: {
@@ -300,7 +367,7 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       createdAt: "2025-12-26T00:00:00.000Z",
       rating: 4.5,
     },
-    component: MemorySpark,
+    loadComponent: () => import("../sparks/MemorySpark").then(m => m.default),
   },
   "card-score": {
     metadata: {
@@ -312,7 +379,9 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       createdAt: "2025-11-01T00:00:00.000Z",
       rating: 4.0,
     },
-    component: CardScoreSpark,
+    loadComponent: () => import("../sparks/CardScoreSpark").then(m => m.CardScoreSpark),
+    dataAdapter: cardScoreDataAdapter,
+    cloudSync: true,
   },
   golfWisdom: {
     metadata: {
@@ -323,8 +392,15 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       category: "golf",
       createdAt: "2025-12-01T00:00:00.000Z",
       rating: 4.3,
+      manifest: {
+        capabilities: {
+          notifications: "To send you a daily golf tip",
+        },
+        network: "Downloads new wisdom",
+        sharing: "Quotes you choose to share",
+      },
     },
-    component: GolfWisdomSpark,
+    loadComponent: () => import("../sparks/GolfWisdomSpark").then(m => m.GolfWisdomSpark),
   },
   "weight-tracker": {
     metadata: {
@@ -336,7 +412,10 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       createdAt: "2025-12-01T00:00:00.000Z",
       rating: 4.5,
     },
-    component: WeightTrackerSpark,
+    loadComponent: () => import("../sparks/WeightTrackerSpark").then(m => m.default),
+    dataAdapter: weightTrackerDataAdapter,
+    cloudSync: true,
+    voiceIntents: weightTrackerVoiceIntents,
   },
   "share-sparks": {
     metadata: {
@@ -347,8 +426,11 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       category: "utility",
       createdAt: "2025-12-01T00:00:00.000Z",
       rating: 4.5,
+      manifest: {
+        sharing: "Links to sparks you recommend",
+      },
     },
-    component: ShareSparks,
+    loadComponent: () => import("../sparks/ShareSparks").then(m => m.default),
   },
   "coming-up": {
     metadata: {
@@ -359,8 +441,16 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       category: "utility",
       createdAt: "2025-12-01T00:00:00.000Z",
       rating: 4.4,
+      manifest: {
+        capabilities: {
+          notifications: "To remind you of upcoming events",
+        },
+      },
     },
-    component: ComingUpSpark,
+    loadComponent: () => import("../sparks/ComingUpSpark").then(m => m.default),
+    searchIndexer: comingUpSearchIndexer,
+    cloudSync: true,
+    voiceIntents: comingUpVoiceIntents,
   },
   "final-clock": {
     metadata: {
@@ -373,7 +463,7 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       createdAt: "2025-12-02T00:00:00.000Z",
       rating: 4.5,
     },
-    component: FinalClockSpark,
+    loadComponent: () => import("../sparks/FinalClockSpark").then(m => m.FinalClockSpark),
   },
   "trip-survey": {
     metadata: {
@@ -385,8 +475,11 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       category: "travel",
       createdAt: "2025-12-02T00:00:00.000Z",
       rating: 4.3,
+      manifest: {
+        sharing: "Surveys you send to your travel group",
+      },
     },
-    component: TripSurveySpark,
+    loadComponent: () => import("../sparks/TripSurveySpark").then(m => m.default),
   },
   "spark-stats": {
     metadata: {
@@ -397,8 +490,11 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       category: "community",
       createdAt: "2025-11-03T00:00:00.000Z",
       rating: 4.5,
+      manifest: {
+        network: "Loads app usage statistics",
+      },
     },
-    component: SparkStatsSpark,
+    loadComponent: () => import("../sparks/SparkStatsSpark").then(m => m.SparkStatsSpark),
   },
   skins: {
     metadata: {
@@ -410,7 +506,8 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       createdAt: "2025-12-08T00:00:00.000Z",
       rating: 4.5,
     },
-    component: SkinsSpark,
+    loadComponent: () => import("../sparks/SkinsSpark").then(m => m.SkinsSpark),
+    cloudSync: true,
   },
   recaipe: {
     metadata: {
@@ -422,9 +519,16 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       category: "productivity",
       createdAt: "2025-12-06T00:00:00.000Z",
       rating: 4.6,
-      properties: ["AI"],
+      manifest: {
+        capabilities: {
+          "media-library": "To read recipes from photos",
+        },
+        ai: "Recipe text and photos, to organize recipes",
+      },
     },
-    component: RecAIpeSpark,
+    loadComponent: () => import("../sparks/RecAIpeSpark").then(m => m.default),
+    searchIndexer: recaipeSearchIndexer,
+    fileStorage: recaipeFileStorage,
   },
   shop: {
     metadata: {
@@ -437,7 +541,8 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       createdAt: "2025-12-14T00:00:00.000Z",
       rating: 4.5,
     },
-    component: ShopSpark,
+    loadComponent: () => import("../sparks/ShopSpark").then(m => m.default),
+    voiceIntents: shopVoiceIntents,
   },
   "speak-spark": {
     metadata: {
@@ -448,9 +553,14 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       category: "productivity",
       createdAt: "2025-12-09T00:00:00.000Z",
       rating: 4.5,
-      properties: ["AI"],
+      manifest: {
+        capabilities: {
+          microphone: "To hear your voice commands",
+        },
+        ai: "What you say, to understand commands",
+      },
     },
-    component: SpeakSpark,
+    loadComponent: () => import("../sparks/SpeakSpark").then(m => m.SpeakSpark),
   },
   "friend-spark": {
     metadata: {
@@ -461,8 +571,15 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       category: "social",
       createdAt: "2025-12-15T00:00:00.000Z",
       rating: 4.5,
+      manifest: {
+        capabilities: {
+          notifications: "To tell you when friends send you something",
+        },
+        network: "Syncs with your friends",
+        sharing: "Your profile and messages, with friends you add",
+      },
     },
-    component: FriendSpark,
+    loadComponent: () => import("../sparks/FriendSpark").then(m => m.default),
   },
   "tripod-spark": {
     metadata: {
@@ -474,8 +591,11 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       category: "golf",
       createdAt: "2025-12-22T00:00:00.000Z",
       rating: 4.4,
+      manifest: {
+        network: "Sends print orders",
+      },
     },
-    component: TripodSpark,
+    loadComponent: () => import("../sparks/TripodSpark").then(m => m.default),
   },
   "dream-catcher": {
     metadata: {
@@ -486,9 +606,15 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       category: "health",
       createdAt: "2025-12-27T00:00:00.000Z",
       rating: 4.5,
-      properties: ["AI"],
+      manifest: {
+        capabilities: {
+          microphone: "To record your dreams as you wake",
+        },
+        ai: "Dream recordings, to transcribe and interpret them",
+      },
     },
-    component: DreamCatcherSpark,
+    loadComponent: () => import("../sparks/DreamCatcherSpark").then(m => m.DreamCatcherSpark),
+    searchIndexer: dreamCatcherSearchIndexer,
   },
   "goal-tracker": {
     metadata: {
@@ -500,7 +626,10 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       createdAt: "2026-01-02T00:00:00.000Z",
       rating: 4.5,
     },
-    component: GoalTrackerSpark,
+    loadComponent: () => import("../sparks/GoalTrackerSpark").then(m => m.GoalTrackerSpark),
+    cloudSync: true,
+    eventHandler: goalTrackerEventHandler,
+    voiceIntents: goalTrackerVoiceIntents,
   },
   scorecard: {
     metadata: {
@@ -511,8 +640,17 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       category: "golf",
       createdAt: "2026-01-17T00:00:00.000Z",
       rating: 4.5,
-    },
-    component: ScorecardSpark,
+      manifest: {
+        capabilities: {
+          camera: "To scan scorecards",
+          microphone: "To enter scores by voice",
+          "media-library": "To scan scorecard photos",
+        },
+        ai: "Scorecard photos and spoken scores, to fill in the card",
+      },
+    },
+    loadComponent: () => import("../sparks/ScorecardSpark").then(m => m.ScorecardSpark),
+    voiceIntents: scorecardVoiceIntents,
   },
   ideas: {
     metadata: {
@@ -524,7 +662,11 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       createdAt: "2026-01-17T00:00:00.000Z",
       rating: 4.5,
     },
-    component: IdeasSpark,
+    loadComponent: () => import("../sparks/IdeasSpark").then(m => m.IdeasSpark),
+    dataAdapter: ideasDataAdapter,
+    searchIndexer: ideasSearchIndexer,
+    cloudSync: true,
+    voiceIntents: ideasVoiceIntents,
   },
   "business-spark": {
     metadata: {
@@ -535,9 +677,12 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       category: "productivity",
       createdAt: "2026-01-23T00:00:00.000Z",
       rating: 4.5,
-      properties: ["AI", "Beta"],
+      manifest: {
+        ai: "Your business decisions, to run the simulation",
+        beta: true,
+      },
     },
-    component: BusinessSpark,
+    loadComponent: () => import("../sparks/BusinessSpark/BusinessSpark").then(m => m.default),
   },
   infinite: {
     metadata: {
@@ -548,9 +693,12 @@ export const sparkRegistry: Record<string, BaseSpark> = {
       category: "community",
       createdAt: "2026-01-27T00:00:00.000Z",
       rating: 4.5,
-      properties: ["Beta"],
+      manifest: {
+        network: "Downloads sparklets on demand",
+        beta: true,
+      },
     },
-    component: InfiniteSpark,
+    loadComponent: () => import("../sparks/InfiniteSpark").then(m => m.InfiniteSpark),
   },
 };
 
@@ -563,8 +711,8 @@ export const getSparkById = (id: string): BaseSpark | undefined => {
   const spark = sparkRegistry[id];
   if (!spark) return undefined;
 
-  // Dynamically add beta suffix if it has the Beta property
-  const isBeta = spark.metadata.properties?.includes("Beta");
+  // Dynamically add beta suffix to sparks declared as beta
+  const isBeta = spark.metadata.manifest?.beta;
   if (isBeta && !spark.metadata.title.toLowerCase().includes("beta")) {
     const enhancedSpark = {
       ...spark,
@@ -1,13 +1,18 @@
 import React, { createContext, useContext, ReactNode } from "react";
 import { useSettingsStore, ThemeColors } from "../store/settingsStore";
+import { FontScales, Typography, getTypography, scaleFontSize } from "../styles/StyleTokens";
 
 // Re-export ThemeColors for use in other files
-export type { ThemeColors };
+export type { ThemeColors, Typography };
 
 interface ThemeContextType {
   colors: ThemeColors;
   isDarkMode: boolean;
   toggleTheme: () => void;
+  // Text size setting as a multiplier, and the StyleTokens font sizes scaled by it
+  fontScale: number;
+  typography: Typography;
+  scaleFont: (size: number) => number;
 }
 
 interface ThemeProviderProps {
@@ -48,6 +53,9 @@ const defaultContextValue: ThemeContextType = {
   colors: defaultLightTheme,
   isDarkMode: false,
   toggleTheme: () => {},
+  fontScale: 1,
+  typography: getTypography(1),
+  scaleFont: (size) => size,
 };
 
 const ThemeContext = createContext<ThemeContextType>(defaultContextValue);
@@ -56,15 +64,22 @@ export const ThemeProvider: React.FC<ThemeProviderProps> = ({ children }) => {
   const store = useSettingsStore();
   const themeColors = store.getThemeColors();
   const currentDarkMode = store.darkMode;
+  const fontScale = FontScales[store.fontSize] ?? 1;
 
   const toggleTheme = React.useCallback(() => {
     store.toggleDarkMode();
   }, [store]);
 
+  const typography = React.useMemo(() => getTypography(fontScale), [fontScale]);
+  const scaleFont = React.useCallback((size: number) => scaleFontSize(size, fontScale), [fontScale]);
+
   const contextValue: ThemeContextType = {
     colors: themeColors,
     isDarkMode: currentDarkMode,
     toggleTheme,
+    fontScale,
+    typography,
+    scaleFont,
   };
 
   return (
@@ -79,11 +94,36 @@ export const useTheme = (): ThemeContextType => {
   if (context === undefined || !context || !context.colors) {
     // Return default theme if context isn't ready yet (can happen in release builds during initialization)
     console.warn("useTheme: Context not ready, returning default theme");
-    return {
-      colors: defaultLightTheme,
-      isDarkMode: false,
-      toggleTheme: () => {},
-    };
+    return defaultContextValue;
   }
   return context;
 };
+
+/**
+ * The accent color assigned to a spark in the theme editor, if any
+ */
+export const useSparkAccent = (sparkId: string | null | undefined): string | undefined =>
+  useSettingsStore((state) => (sparkId ? state.getSparkAccent(sparkId) : undefined));
+
+/**
+ * Re-themes a spark's screen with its accent color as the primary color,
+ * so its headers and buttons pick it up without changes to the spark
+ */
+export const SparkThemeProvider: React.FC<{ sparkId: string; children: ReactNode }> = ({
+  sparkId,
+  children,
+}) => {
+  const theme = useTheme();
+  const accent = useSparkAccent(sparkId);
+
+  const contextValue = React.useMemo(
+    () => (accent ? { ...theme, colors: { ...theme.colors, primary: accent } } : theme),
+    [theme, accent]
+  );
+
+  return (
+    <ThemeContext.Provider value={contextValue}>
+      {children}
+    </ThemeContext.Provider>
+  );
+};
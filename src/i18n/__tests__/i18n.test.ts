@@ -0,0 +1,86 @@
+import { translate, t, pluralCategory, formatLocaleNumber, formatLocaleDate, getLocale, getSpeechLocale } from '../index';
+import { useSettingsStore } from '../../store/settingsStore';
+import { formatDate } from '../../utils/dateUtils';
+
+describe('i18n', () => {
+    afterEach(() => {
+        useSettingsStore.setState({ language: 'en', voiceLocale: null });
+    });
+
+    describe('translate', () => {
+        it('returns the string for the language', () => {
+            expect(translate('en', 'nav.settings')).toBe('Settings');
+            expect(translate('es', 'nav.settings')).toBe('Ajustes');
+            expect(translate('de', 'nav.settings')).toBe('Einstellungen');
+        });
+
+        it('falls back to the key for unknown keys', () => {
+            expect(translate('fr', 'nav.missing' as any)).toBe('nav.missing');
+        });
+
+        it('falls back to English when a catalog is missing', () => {
+            expect(translate('xx' as any, 'nav.home')).toBe('Home');
+        });
+
+        it('fills placeholders and leaves unknown ones alone', () => {
+            expect(translate('en', 'settings.mySparks.removeMessage', { name: 'Todo' }))
+                .toBe('Are you sure you want to remove "Todo" from your collection?');
+            expect(translate('en', 'settings.mySparks.removeMessage')).toContain('{name}');
+        });
+
+        it('formats numbers for the language', () => {
+            expect(translate('en', 'trash.open', { count: 1234 })).toBe('Open Trash (1,234)');
+            expect(translate('de', 'trash.open', { count: 1234 })).toBe('Papierkorb öffnen (1.234)');
+        });
+
+        it('picks the plural form from count', () => {
+            expect(translate('en', 'todo.inDays', { count: 1 })).toBe('+1 Day');
+            expect(translate('en', 'todo.inDays', { count: 3 })).toBe('+3 Days');
+            expect(translate('en', 'settings.storage.orphanedFiles', { count: 0 })).toBe('0 orphaned files');
+            expect(translate('fr', 'settings.storage.orphanedFiles', { count: 0 })).toBe('0 fichier orphelin');
+        });
+    });
+
+    describe('pluralCategory', () => {
+        it('treats only 1 as singular in English, Spanish and German', () => {
+            expect(pluralCategory('en', 1)).toBe('one');
+            expect(pluralCategory('es', 0)).toBe('other');
+            expect(pluralCategory('de', 2)).toBe('other');
+        });
+
+        it('treats 0 and 1 as singular in French', () => {
+            expect(pluralCategory('fr', 0)).toBe('one');
+            expect(pluralCategory('fr', 1.5)).toBe('one');
+            expect(pluralCategory('fr', 2)).toBe('other');
+        });
+    });
+
+    describe('current language', () => {
+        it('follows settingsStore.language', () => {
+            expect(t('nav.home')).toBe('Home');
+            expect(getLocale()).toBe('en-US');
+
+            useSettingsStore.getState().setLanguage('fr');
+            expect(t('nav.home')).toBe('Accueil');
+            expect(getLocale()).toBe('fr-FR');
+        });
+
+        it('hears speech in the voice locale, or the language\'s locale when none is picked', () => {
+            useSettingsStore.getState().setLanguage('es');
+            expect(getSpeechLocale()).toBe('es-ES');
+
+            useSettingsStore.getState().setVoiceLocale('en-GB');
+            expect(getSpeechLocale()).toBe('en-GB');
+
+            useSettingsStore.getState().setVoiceLocale('xx-XX');
+            expect(getSpeechLocale()).toBe('es-ES');
+        });
+
+        it('formats dates and numbers for the current locale', () => {
+            useSettingsStore.getState().setLanguage('de');
+            expect(formatLocaleNumber(1234.5)).toBe('1.234,5');
+            expect(formatLocaleDate(new Date(2024, 11, 25), { day: 'numeric', month: 'long' })).toBe('25. Dezember');
+            expect(formatDate('2024-12-25')).toBe('25. Dez. 2024');
+        });
+    });
+});
@@ -0,0 +1,252 @@
+import { Catalog } from './en';
+
+export const de: Catalog = {
+  common: {
+    cancel: 'Abbrechen',
+    close: 'Schließen',
+    delete: 'Löschen',
+    done: 'Fertig',
+    error: 'Fehler',
+    open: 'Öffnen',
+    remove: 'Entfernen',
+    save: 'Speichern',
+  },
+  nav: {
+    home: 'Start',
+    discover: 'Entdecken',
+    marketplace: 'Marktplatz',
+    settings: 'Einstellungen',
+    back: 'Zurück',
+    recent: 'Zuletzt',
+    switch: 'Wechseln',
+    add: 'Hinzufügen',
+    undo: 'Rückgängig',
+    redo: 'Wiederholen',
+    undoAction: '{action} rückgängig machen',
+    redoAction: '{action} wiederholen',
+  },
+  settings: {
+    title: '⚙️ Einstellungen',
+    subtitle: 'Passe Sparks an dich an • v{version}',
+    ai: {
+      title: '🤖 KI-Konfiguration',
+      keyLabel: 'Gemini-API-Schlüssel',
+      customKey: 'Eigener Schlüssel wird verwendet',
+      defaultKey: 'Sparks-Standardschlüssel wird verwendet',
+      configure: 'Einrichten',
+      description: 'Sparks nutzt Googles Gemini-KI für Funktionen wie RecAIpe und Minute Minder. Standardmäßig stellen wir einen gemeinsamen API-Schlüssel bereit. Mit einem eigenen Schlüssel umgehst du Nutzungslimits.',
+    },
+    experience: {
+      title: 'Bedienung',
+      haptics: 'Haptisches Feedback',
+      hapticsDescription: 'Vibration bei Interaktionen',
+      sound: 'Soundeffekte',
+      soundDescription: 'Akustisches Feedback abspielen',
+      textSize: 'Textgröße',
+      textSizeDescription: 'Macht Text in der ganzen App größer oder kleiner',
+      textSizes: { small: 'Klein', medium: 'Mittel', large: 'Groß' },
+      language: 'Sprache',
+      languageDescription: 'Für Menüs, Datumsangaben und Zahlen',
+      voiceLanguage: 'Sprachsteuerung',
+      voiceLanguageDescription: 'Zum Verstehen von Freisprechbefehlen und Vorlesen von Antworten',
+      voiceSameAsApp: 'Wie die App',
+    },
+    mySparks: {
+      title: 'Meine Sparks',
+      reorder: 'Sortieren',
+      empty: 'Noch keine Sparks in deiner Sammlung',
+      removeTitle: 'Spark entfernen',
+      removeMessage: 'Möchtest du „{name}“ wirklich aus deiner Sammlung entfernen?',
+    },
+    backup: {
+      title: '💾 Sichern & Wiederherstellen',
+      description: 'Speichere alle Spark-Daten, Einstellungen, Träume und Medien in einer Datei und stelle sie auf einem anderen Gerät wieder her.',
+      export: '📤 Sicherung exportieren',
+      restore: '📥 Sicherung wiederherstellen',
+      exportFailed: 'Sicherung fehlgeschlagen',
+      exportFailedMessage: 'Die Sicherung konnte nicht erstellt werden.',
+      restoreTitle: 'Sicherung wiederherstellen',
+      restoreMessage: 'Ersetzen überschreibt alles auf diesem Gerät mit der Sicherung. Zusammenführen behält deine aktuellen Daten und ergänzt, was in der Sicherung zusätzlich ist.',
+      merge: 'Zusammenführen',
+      replace: 'Ersetzen',
+      restoreComplete: 'Wiederherstellung abgeschlossen',
+      restoreSummary: '{sparks} Sparks, {dreams} Träume und {files} Mediendateien wiederhergestellt.',
+      restoreFailed: 'Wiederherstellung fehlgeschlagen',
+      restoreFailedMessage: 'Die Sicherung konnte nicht wiederhergestellt werden.',
+    },
+    storage: {
+      title: '📦 Speicher',
+      description: 'Sieh nach, wie viel Platz die Daten und Dateien jedes Sparks belegen, und entferne Dateien, die nicht mehr verwendet werden.',
+      measuring: '⏳ Wird gemessen...',
+      refresh: '🔄 Speicherbericht aktualisieren',
+      show: '📊 Speicherbericht anzeigen',
+      reportFailed: 'Speicherbericht fehlgeschlagen',
+      reportFailedMessage: 'Der Speicher konnte nicht gemessen werden.',
+      total: 'Gesamt {total} · Spark-Daten {data}',
+      data: 'Daten {size}',
+      cache: 'Cache {size}',
+      files: { one: '{count} Datei {size}', other: '{count} Dateien {size}' },
+      orphanedFiles: { one: '{count} verwaiste Datei', other: '{count} verwaiste Dateien' },
+      missingFiles: { one: '{count} fehlende Datei', other: '{count} fehlende Dateien' },
+      clearCache: 'Cache leeren',
+      clearCacheMessage: 'Verlauf und Quarantäne-Einträge von {title} entfernen? Die Daten bleiben erhalten.',
+      clear: 'Leeren',
+      removeOrphans: 'Verwaiste entfernen',
+      removeOrphansTitle: 'Verwaiste Dateien entfernen',
+      removeOrphansMessage: {
+        one: '{count} nicht mehr verwendete Datei von {title} ({size}) löschen?',
+        other: '{count} nicht mehr verwendete Dateien von {title} ({size}) löschen?',
+      },
+      filesRemoved: 'Dateien entfernt',
+      filesRemovedMessage: { one: '{size} aus {count} Datei freigegeben.', other: '{size} aus {count} Dateien freigegeben.' },
+    },
+    danger: {
+      title: 'Gefahrenbereich',
+      reset: '🗑️ Alle Daten zurücksetzen',
+      warning: 'Dadurch werden dein gesamter Fortschritt, deine Punkte und Einstellungen dauerhaft gelöscht.',
+      resetTitle: 'Alle Daten zurücksetzen',
+      resetMessage: 'Dadurch werden Fortschritt, Punkte und Einstellungen all deiner Sparks dauerhaft gelöscht. Das kann nicht rückgängig gemacht werden.',
+      resetConfirm: 'Zurücksetzen',
+      resetDoneTitle: 'Erledigt',
+      resetDone: 'Alle Daten wurden zurückgesetzt.',
+    },
+  },
+  theme: {
+    title: '🎨 Design',
+    description: 'Wähle eine Farbpalette oder erstelle deine eigene. Sparks können außerdem eine eigene Akzentfarbe haben.',
+    darkMode: 'Dunkelmodus',
+    newTheme: 'Neues Design',
+    editTheme: 'Design bearbeiten',
+    sparkAccents: 'Akzentfarben für Sparks',
+    sparkAccentsDescription: 'Eine Akzentfarbe ersetzt die Hauptfarbe des Designs in den Überschriften und Schaltflächen dieses Sparks.',
+    noSparks: 'Füge Sparks zu deiner Sammlung hinzu, um ihnen Akzentfarben zu geben.',
+    themeColor: 'Design',
+    presets: {
+      default: 'Sparks',
+      'high-contrast': 'Hoher Kontrast',
+      'color-blind-safe': 'Farbenblind-freundlich',
+      paper: 'Papier',
+    },
+    name: 'Name',
+    copyName: '{name} (Kopie)',
+    light: 'Hell',
+    dark: 'Dunkel',
+    preview: 'Vorschau',
+    previewText: 'So sieht Text mit diesem Design aus.',
+    previewButton: 'Schaltfläche',
+    lowContrast: '{foreground} auf {background} ist schwer lesbar ({ratio}:1, empfohlen {minimum}:1)',
+    invalidColor: 'Gib eine Hex-Farbe wie #1A2B3C ein',
+    notSaved: 'Design nicht gespeichert',
+    deleteTitle: 'Design löschen',
+    deleteMessage: '„{name}“ wird gelöscht.',
+    colors: {
+      primary: 'Hauptfarbe',
+      secondary: 'Zweitfarbe',
+      background: 'Hintergrund',
+      surface: 'Fläche',
+      card: 'Karte',
+      text: 'Text',
+      textSecondary: 'Nebentext',
+      border: 'Rahmen',
+      success: 'Erfolg',
+      warning: 'Warnung',
+      error: 'Fehler',
+      info: 'Info',
+    },
+  },
+  trash: {
+    title: 'Papierkorb',
+    description: 'In Sparks gelöschte Einträge können {days} Tage lang wiederhergestellt werden.',
+    open: 'Papierkorb öffnen ({count})',
+    keptFor: 'Gelöschte Einträge werden {days} Tage aufbewahrt und danach endgültig entfernt.',
+    empty: 'Der Papierkorb ist leer.',
+    deletedOn: {
+      one: 'Gelöscht am {date} · noch {count} Tag',
+      other: 'Gelöscht am {date} · noch {count} Tage',
+    },
+    restore: 'Wiederherstellen',
+    restoreFailed: 'Wiederherstellen nicht möglich',
+    deleteForever: 'Endgültig löschen',
+    deleteForeverMessage: '„{label}“ wird gelöscht und kann nicht wiederhergestellt werden.',
+    emptyTrash: 'Papierkorb leeren',
+    emptyTrashMessage: { one: '{count} Eintrag endgültig löschen?', other: 'Alle {count} Einträge endgültig löschen?' },
+  },
+  marketplace: {
+    title: 'Sparks entdecken',
+    subtitle: 'Entdecke neue Erlebnisse',
+    newSparks: 'Neue Sparks',
+    topRated: 'Am besten bewertet',
+    allSparks: 'Alle Sparks',
+    noPermissions: 'Braucht keine Geräteberechtigungen und speichert alles auf diesem Gerät.',
+    uses: 'Nutzt {list}',
+  },
+  manifest: {
+    camera: 'Kamera',
+    microphone: 'Mikrofon',
+    location: 'Standort',
+    notifications: 'Mitteilungen',
+    'media-library': 'Fotos',
+    network: 'Internet',
+    ai: 'KI',
+    sharing: 'Teilen',
+    beta: 'Beta',
+  },
+  todo: {
+    title: '📝 Aufgaben',
+    subtitle: 'Behalte den Überblick und erledige Dinge',
+    settingsTitle: 'Aufgaben-Einstellungen',
+    settingsSubtitle: 'Lege fest, wie deine Aufgaben organisiert werden',
+    about: 'Info',
+    aboutText: 'Aufgaben hilft dir, To-dos mit Fälligkeitsdaten und Kategorien zu ordnen.\nFüge Aufgaben hinzu, setze Fristen und verfolge deinen Fortschritt.',
+    newTask: 'Neue Aufgabe',
+    addPlaceholder: 'Neue Aufgabe (z. B. Kategorie: Aufgabe)',
+    showAll: 'Alle anzeigen',
+    tasks: { one: 'Aufgaben ({count} offen)', other: 'Aufgaben ({count} offen)' },
+    empty: 'Noch keine Aufgaben. Füge oben eine hinzu! 🚀',
+    showToday: 'Heutige Aufgaben',
+    showFuture: 'Künftige Aufgaben anzeigen',
+    hideOlderDone: 'Ältere erledigte ausblenden',
+    showOlderDone: 'Ältere erledigte anzeigen',
+    itemHint: 'Lange drücken zum Bearbeiten',
+    editTitle: 'Aufgabe bearbeiten',
+    taskPlaceholder: 'Aufgabentext',
+    done: 'Erledigt',
+    dueDate: 'Fällig am',
+    today: 'Heute',
+    inDays: { one: '+{count} Tag', other: '+{count} Tage' },
+    inAWeek: '+1 Woche',
+    nextMonday: 'Nächster Montag',
+    manualDate: 'Oder Datum eingeben (JJJJ-MM-TT):',
+    dueToday: '{date} (heute)',
+    dueTomorrow: '{date} (morgen)',
+    enterTask: 'Bitte gib eine Aufgabe ein',
+    notice: 'Hinweis',
+    alreadyExists: 'Diese Aufgabe gibt es schon',
+    emptyText: 'Der Aufgabentext darf nicht leer sein',
+    deleteTitle: 'Aufgabe löschen',
+    deleteMessage: 'Möchtest du diese Aufgabe wirklich löschen?',
+  },
+  packingList: {
+    title: '🎒 Packliste',
+    subtitle: 'Tippe auf Sachen, um sie als gepackt zu markieren',
+    progress: { one: '{packed} von {count} Sache gepackt', other: '{packed} von {count} Sachen gepackt' },
+    complete: '{percent} % erledigt',
+    itemsToPack: '📝 Einzupacken',
+    uncheckAll: 'Alle Haken entfernen',
+    settingsTitle: 'Packlisten-Einstellungen',
+    settingsSubtitle: 'Verwalte deine Packliste',
+    addTitle: 'Neue Sache hinzufügen',
+    itemPlaceholder: 'Name',
+    addItem: 'Hinzufügen',
+    yourItems: 'Deine Sachen ({count})',
+    enterName: 'Bitte gib einen Namen ein',
+    countTooLow: 'Die Anzahl muss mindestens 1 sein',
+    keepOne: 'Mindestens eine Sache muss bleiben',
+    updateSimilarTitle: 'Ähnliche Sachen anpassen?',
+    updateSimilarMessage: 'Soll die Anzahl bei allen Sachen, die gerade {oldCount} haben, auf {newCount} geändert werden?\n\nSachen: {items}',
+    no: 'Nein',
+    yes: 'Ja',
+    invalidTitle: 'Ungültige Anzahl',
+    invalidMessage: 'Bitte gib für alle Sachen eine gültige Anzahl (1 oder mehr) ein.',
+  },
+};
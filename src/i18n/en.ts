@@ -0,0 +1,255 @@
+import { CatalogShape } from '../types/i18n';
+
+// Source strings. Other languages must translate every key; {name} placeholders are filled in by t()
+export const en = {
+  common: {
+    cancel: 'Cancel',
+    close: 'Close',
+    delete: 'Delete',
+    done: 'Done',
+    error: 'Error',
+    open: 'Open',
+    remove: 'Remove',
+    save: 'Save',
+  },
+  nav: {
+    home: 'Home',
+    discover: 'Discover',
+    marketplace: 'Marketplace',
+    settings: 'Settings',
+    back: 'Back',
+    recent: 'Recent',
+    switch: 'Switch',
+    add: 'Add',
+    undo: 'Undo',
+    redo: 'Redo',
+    undoAction: 'Undo {action}',
+    redoAction: 'Redo {action}',
+  },
+  settings: {
+    title: '⚙️ Settings',
+    subtitle: 'Customize your Sparks experience • v{version}',
+    ai: {
+      title: '🤖 AI Configuration',
+      keyLabel: 'Gemini API Key',
+      customKey: 'Using custom key',
+      defaultKey: 'Using default Sparks key',
+      configure: 'Configure',
+      description: "Sparks uses Google's Gemini AI for features like RecAIpe and Minute Minder. By default, we provide a shared API key. You can add your own key to avoid rate limits.",
+    },
+    experience: {
+      title: 'Experience',
+      haptics: 'Haptic Feedback',
+      hapticsDescription: 'Feel vibrations on interactions',
+      sound: 'Sound Effects',
+      soundDescription: 'Play audio feedback',
+      textSize: 'Text Size',
+      textSizeDescription: 'Makes text larger or smaller throughout the app',
+      textSizes: { small: 'Small', medium: 'Medium', large: 'Large' },
+      language: 'Language',
+      languageDescription: 'Used for menus, dates and numbers',
+      voiceLanguage: 'Voice Language',
+      voiceLanguageDescription: 'Used to hear hands-free commands and read replies aloud',
+      voiceSameAsApp: 'Same as app',
+    },
+    mySparks: {
+      title: 'My Sparks',
+      reorder: 'Reorder',
+      empty: 'No sparks in your collection yet',
+      removeTitle: 'Remove Spark',
+      removeMessage: 'Are you sure you want to remove "{name}" from your collection?',
+    },
+    backup: {
+      title: '💾 Backup & Restore',
+      description: 'Save all your spark data, settings, dreams and media to a single file, then restore it on another device.',
+      export: '📤 Export Backup',
+      restore: '📥 Restore Backup',
+      exportFailed: 'Backup Failed',
+      exportFailedMessage: 'Could not create backup.',
+      restoreTitle: 'Restore Backup',
+      restoreMessage: 'Replace overwrites everything on this device with the backup. Merge keeps your current data and adds anything missing from the backup.',
+      merge: 'Merge',
+      replace: 'Replace',
+      restoreComplete: 'Restore Complete',
+      restoreSummary: 'Restored {sparks} sparks, {dreams} dreams and {files} media files.',
+      restoreFailed: 'Restore Failed',
+      restoreFailedMessage: 'Could not restore backup.',
+    },
+    storage: {
+      title: '📦 Storage',
+      description: "See how much space each spark's data and files use, and remove files nothing refers to anymore.",
+      measuring: '⏳ Measuring...',
+      refresh: '🔄 Refresh Storage Report',
+      show: '📊 Show Storage Report',
+      reportFailed: 'Storage Report Failed',
+      reportFailedMessage: 'Could not measure storage.',
+      total: 'Total {total} · Spark data {data}',
+      data: 'Data {size}',
+      cache: 'Cache {size}',
+      files: { one: '{count} file {size}', other: '{count} files {size}' },
+      orphanedFiles: { one: '{count} orphaned file', other: '{count} orphaned files' },
+      missingFiles: { one: '{count} missing file', other: '{count} missing files' },
+      clearCache: 'Clear Cache',
+      clearCacheMessage: 'Remove the undo history and quarantined records for {title}? Its data is kept.',
+      clear: 'Clear',
+      removeOrphans: 'Remove Orphans',
+      removeOrphansTitle: 'Remove Orphaned Files',
+      removeOrphansMessage: {
+        one: 'Delete {count} {title} file ({size}) that is no longer used?',
+        other: 'Delete {count} {title} files ({size}) that are no longer used?',
+      },
+      filesRemoved: 'Files Removed',
+      filesRemovedMessage: { one: 'Freed {size} from {count} file.', other: 'Freed {size} from {count} files.' },
+    },
+    danger: {
+      title: 'Danger Zone',
+      reset: '🗑️ Reset All Data',
+      warning: 'This will permanently delete all your progress, scores, and preferences.',
+      resetTitle: 'Reset All Data',
+      resetMessage: 'This will permanently delete all your spark progress, scores, and preferences. This action cannot be undone.',
+      resetConfirm: 'Reset',
+      resetDoneTitle: 'Success',
+      resetDone: 'All data has been reset.',
+    },
+  },
+  theme: {
+    title: '🎨 Theme',
+    description: 'Pick a color palette or make your own. Sparks can also have their own accent color.',
+    darkMode: 'Dark Mode',
+    newTheme: 'New Theme',
+    editTheme: 'Edit Theme',
+    sparkAccents: 'Spark Accent Colors',
+    sparkAccentsDescription: "An accent color replaces the theme's primary color in that spark's headers and buttons.",
+    noSparks: 'Add sparks to your collection to give them accent colors.',
+    themeColor: 'Theme',
+    presets: {
+      default: 'Sparks',
+      'high-contrast': 'High Contrast',
+      'color-blind-safe': 'Color-Blind Safe',
+      paper: 'Paper',
+    },
+    name: 'Name',
+    copyName: '{name} Copy',
+    light: 'Light',
+    dark: 'Dark',
+    preview: 'Preview',
+    previewText: 'This is how text looks on this theme.',
+    previewButton: 'Button',
+    lowContrast: '{foreground} on {background} is hard to read ({ratio}:1, aim for {minimum}:1)',
+    invalidColor: 'Enter a hex color such as #1A2B3C',
+    notSaved: 'Theme Not Saved',
+    deleteTitle: 'Delete Theme',
+    deleteMessage: '"{name}" will be deleted.',
+    colors: {
+      primary: 'Primary',
+      secondary: 'Secondary',
+      background: 'Background',
+      surface: 'Surface',
+      card: 'Card',
+      text: 'Text',
+      textSecondary: 'Secondary text',
+      border: 'Border',
+      success: 'Success',
+      warning: 'Warning',
+      error: 'Error',
+      info: 'Info',
+    },
+  },
+  trash: {
+    title: 'Trash',
+    description: 'Items deleted in sparks can be restored for {days} days.',
+    open: 'Open Trash ({count})',
+    keptFor: 'Deleted items are kept for {days} days, then removed for good.',
+    empty: 'The trash is empty.',
+    deletedOn: {
+      one: 'Deleted {date} · {count} day left',
+      other: 'Deleted {date} · {count} days left',
+    },
+    restore: 'Restore',
+    restoreFailed: 'Could Not Restore',
+    deleteForever: 'Delete Forever',
+    deleteForeverMessage: '"{label}" will be deleted and can\'t be restored.',
+    emptyTrash: 'Empty Trash',
+    emptyTrashMessage: { one: 'Delete {count} item for good?', other: 'Delete all {count} items for good?' },
+  },
+  marketplace: {
+    title: 'Discover Sparks',
+    subtitle: 'Explore new experiences',
+    newSparks: 'New Sparks',
+    topRated: 'Top Rated',
+    allSparks: 'All Sparks',
+    noPermissions: 'Uses no device permissions and keeps everything on this device.',
+    uses: 'Uses {list}',
+  },
+  manifest: {
+    camera: 'Camera',
+    microphone: 'Microphone',
+    location: 'Location',
+    notifications: 'Notifications',
+    'media-library': 'Photos',
+    network: 'Internet',
+    ai: 'AI',
+    sharing: 'Sharing',
+    beta: 'Beta',
+  },
+  todo: {
+    title: '📝 Todo List',
+    subtitle: 'Stay organized and get things done',
+    settingsTitle: 'Todo List Settings',
+    settingsSubtitle: 'Manage your task organization preferences',
+    about: 'About',
+    aboutText: 'Todo List helps you organize tasks with due dates and categories.\nAdd tasks, set deadlines, and track your progress.',
+    newTask: 'New task',
+    addPlaceholder: 'Add a new task (eg, category: task)',
+    showAll: 'Show All',
+    tasks: { one: 'Tasks ({count} pending)', other: 'Tasks ({count} pending)' },
+    empty: 'No tasks yet. Add one above to get started! 🚀',
+    showToday: "Today's Todos",
+    showFuture: 'Show Future Todos',
+    hideOlderDone: 'Hide Older Done',
+    showOlderDone: 'Show Older Done Todos',
+    itemHint: 'Long press to edit',
+    editTitle: 'Edit Todo',
+    taskPlaceholder: 'Task text',
+    done: 'Done',
+    dueDate: 'Due Date',
+    today: 'Today',
+    inDays: { one: '+{count} Day', other: '+{count} Days' },
+    inAWeek: '+1 Week',
+    nextMonday: 'Next Monday',
+    manualDate: 'Or enter date manually (YYYY-MM-DD):',
+    dueToday: '{date} (today)',
+    dueTomorrow: '{date} (tomorrow)',
+    enterTask: 'Please enter a task',
+    notice: 'Notice',
+    alreadyExists: 'This task already exists',
+    emptyText: 'Task text cannot be empty',
+    deleteTitle: 'Delete Task',
+    deleteMessage: 'Are you sure you want to delete this task?',
+  },
+  packingList: {
+    title: '🎒 Packing List',
+    subtitle: 'Tap items to mark as packed',
+    progress: { one: '{packed} of {count} item packed', other: '{packed} of {count} items packed' },
+    complete: '{percent}% Complete',
+    itemsToPack: '📝 Items to Pack',
+    uncheckAll: 'Uncheck All Items',
+    settingsTitle: 'Packing List Settings',
+    settingsSubtitle: 'Manage your packing items',
+    addTitle: 'Add New Item',
+    itemPlaceholder: 'Item name',
+    addItem: 'Add Item',
+    yourItems: 'Your Items ({count})',
+    enterName: 'Please enter an item name',
+    countTooLow: 'Count must be at least 1',
+    keepOne: 'You must have at least one item',
+    updateSimilarTitle: 'Update Similar Items?',
+    updateSimilarMessage: 'Do you want to change the quantity to {newCount} for all items that currently have {oldCount}?\n\nItems: {items}',
+    no: 'No',
+    yes: 'Yes',
+    invalidTitle: 'Invalid Quantities',
+    invalidMessage: 'Please enter valid quantities (1 or greater) for all items.',
+  },
+};
+
+export type Catalog = CatalogShape<typeof en>;
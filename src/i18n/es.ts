@@ -0,0 +1,252 @@
+import { Catalog } from './en';
+
+export const es: Catalog = {
+  common: {
+    cancel: 'Cancelar',
+    close: 'Cerrar',
+    delete: 'Eliminar',
+    done: 'Listo',
+    error: 'Error',
+    open: 'Abrir',
+    remove: 'Quitar',
+    save: 'Guardar',
+  },
+  nav: {
+    home: 'Inicio',
+    discover: 'Descubrir',
+    marketplace: 'Tienda',
+    settings: 'Ajustes',
+    back: 'Atrás',
+    recent: 'Reciente',
+    switch: 'Cambiar',
+    add: 'Añadir',
+    undo: 'Deshacer',
+    redo: 'Rehacer',
+    undoAction: 'Deshacer {action}',
+    redoAction: 'Rehacer {action}',
+  },
+  settings: {
+    title: '⚙️ Ajustes',
+    subtitle: 'Personaliza tu experiencia con Sparks • v{version}',
+    ai: {
+      title: '🤖 Configuración de IA',
+      keyLabel: 'Clave de API de Gemini',
+      customKey: 'Usando tu propia clave',
+      defaultKey: 'Usando la clave de Sparks',
+      configure: 'Configurar',
+      description: 'Sparks usa la IA Gemini de Google en funciones como RecAIpe y Minute Minder. Por defecto usamos una clave compartida. Puedes añadir tu propia clave para evitar límites de uso.',
+    },
+    experience: {
+      title: 'Experiencia',
+      haptics: 'Respuesta háptica',
+      hapticsDescription: 'Vibra al interactuar',
+      sound: 'Efectos de sonido',
+      soundDescription: 'Reproduce sonidos de respuesta',
+      textSize: 'Tamaño del texto',
+      textSizeDescription: 'Agranda o reduce el texto en toda la app',
+      textSizes: { small: 'Pequeño', medium: 'Mediano', large: 'Grande' },
+      language: 'Idioma',
+      languageDescription: 'Para menús, fechas y números',
+      voiceLanguage: 'Idioma de voz',
+      voiceLanguageDescription: 'Para entender los comandos manos libres y leer las respuestas en voz alta',
+      voiceSameAsApp: 'Igual que la app',
+    },
+    mySparks: {
+      title: 'Mis Sparks',
+      reorder: 'Reordenar',
+      empty: 'Aún no tienes sparks en tu colección',
+      removeTitle: 'Quitar spark',
+      removeMessage: '¿Seguro que quieres quitar "{name}" de tu colección?',
+    },
+    backup: {
+      title: '💾 Copia de seguridad',
+      description: 'Guarda los datos de tus sparks, ajustes, sueños y archivos en un solo archivo y restáuralo en otro dispositivo.',
+      export: '📤 Exportar copia',
+      restore: '📥 Restaurar copia',
+      exportFailed: 'Error en la copia',
+      exportFailedMessage: 'No se pudo crear la copia de seguridad.',
+      restoreTitle: 'Restaurar copia',
+      restoreMessage: 'Reemplazar sobrescribe todo lo de este dispositivo con la copia. Combinar conserva tus datos actuales y añade lo que falte de la copia.',
+      merge: 'Combinar',
+      replace: 'Reemplazar',
+      restoreComplete: 'Restauración completa',
+      restoreSummary: 'Se restauraron {sparks} sparks, {dreams} sueños y {files} archivos.',
+      restoreFailed: 'Error al restaurar',
+      restoreFailedMessage: 'No se pudo restaurar la copia de seguridad.',
+    },
+    storage: {
+      title: '📦 Almacenamiento',
+      description: 'Mira cuánto espacio usan los datos y archivos de cada spark y elimina los archivos que ya nada usa.',
+      measuring: '⏳ Midiendo...',
+      refresh: '🔄 Actualizar informe',
+      show: '📊 Ver informe de almacenamiento',
+      reportFailed: 'Error en el informe',
+      reportFailedMessage: 'No se pudo medir el almacenamiento.',
+      total: 'Total {total} · Datos de sparks {data}',
+      data: 'Datos {size}',
+      cache: 'Caché {size}',
+      files: { one: '{count} archivo {size}', other: '{count} archivos {size}' },
+      orphanedFiles: { one: '{count} archivo huérfano', other: '{count} archivos huérfanos' },
+      missingFiles: { one: 'Falta {count} archivo', other: 'Faltan {count} archivos' },
+      clearCache: 'Vaciar caché',
+      clearCacheMessage: '¿Eliminar el historial de deshacer y los registros en cuarentena de {title}? Sus datos se conservan.',
+      clear: 'Vaciar',
+      removeOrphans: 'Quitar huérfanos',
+      removeOrphansTitle: 'Quitar archivos huérfanos',
+      removeOrphansMessage: {
+        one: '¿Eliminar {count} archivo de {title} ({size}) que ya no se usa?',
+        other: '¿Eliminar {count} archivos de {title} ({size}) que ya no se usan?',
+      },
+      filesRemoved: 'Archivos eliminados',
+      filesRemovedMessage: { one: 'Se liberaron {size} de {count} archivo.', other: 'Se liberaron {size} de {count} archivos.' },
+    },
+    danger: {
+      title: 'Zona de peligro',
+      reset: '🗑️ Borrar todos los datos',
+      warning: 'Esto eliminará para siempre todo tu progreso, puntuaciones y preferencias.',
+      resetTitle: 'Borrar todos los datos',
+      resetMessage: 'Esto eliminará para siempre el progreso, las puntuaciones y las preferencias de tus sparks. No se puede deshacer.',
+      resetConfirm: 'Borrar',
+      resetDoneTitle: 'Hecho',
+      resetDone: 'Se han borrado todos los datos.',
+    },
+  },
+  theme: {
+    title: '🎨 Tema',
+    description: 'Elige una paleta de colores o crea la tuya. Cada spark también puede tener su propio color de acento.',
+    darkMode: 'Modo oscuro',
+    newTheme: 'Nuevo tema',
+    editTheme: 'Editar tema',
+    sparkAccents: 'Colores de acento',
+    sparkAccentsDescription: 'El color de acento sustituye al color principal del tema en los encabezados y botones de ese spark.',
+    noSparks: 'Añade sparks a tu colección para darles colores de acento.',
+    themeColor: 'Tema',
+    presets: {
+      default: 'Sparks',
+      'high-contrast': 'Alto contraste',
+      'color-blind-safe': 'Apto para daltónicos',
+      paper: 'Papel',
+    },
+    name: 'Nombre',
+    copyName: 'Copia de {name}',
+    light: 'Claro',
+    dark: 'Oscuro',
+    preview: 'Vista previa',
+    previewText: 'Así se ve el texto con este tema.',
+    previewButton: 'Botón',
+    lowContrast: '{foreground} sobre {background} se lee mal ({ratio}:1, intenta llegar a {minimum}:1)',
+    invalidColor: 'Escribe un color hexadecimal, como #1A2B3C',
+    notSaved: 'No se guardó el tema',
+    deleteTitle: 'Eliminar tema',
+    deleteMessage: 'Se eliminará "{name}".',
+    colors: {
+      primary: 'Principal',
+      secondary: 'Secundario',
+      background: 'Fondo',
+      surface: 'Superficie',
+      card: 'Tarjeta',
+      text: 'Texto',
+      textSecondary: 'Texto secundario',
+      border: 'Borde',
+      success: 'Éxito',
+      warning: 'Advertencia',
+      error: 'Error',
+      info: 'Información',
+    },
+  },
+  trash: {
+    title: 'Papelera',
+    description: 'Los elementos eliminados en los sparks se pueden restaurar durante {days} días.',
+    open: 'Abrir papelera ({count})',
+    keptFor: 'Los elementos eliminados se guardan {days} días y después se borran para siempre.',
+    empty: 'La papelera está vacía.',
+    deletedOn: {
+      one: 'Eliminado el {date} · queda {count} día',
+      other: 'Eliminado el {date} · quedan {count} días',
+    },
+    restore: 'Restaurar',
+    restoreFailed: 'No se pudo restaurar',
+    deleteForever: 'Eliminar para siempre',
+    deleteForeverMessage: '"{label}" se eliminará y no se podrá restaurar.',
+    emptyTrash: 'Vaciar papelera',
+    emptyTrashMessage: { one: '¿Eliminar {count} elemento para siempre?', other: '¿Eliminar los {count} elementos para siempre?' },
+  },
+  marketplace: {
+    title: 'Descubrir Sparks',
+    subtitle: 'Explora nuevas experiencias',
+    newSparks: 'Nuevos',
+    topRated: 'Mejor valorados',
+    allSparks: 'Todos los Sparks',
+    noPermissions: 'No usa permisos del dispositivo y guarda todo en este dispositivo.',
+    uses: 'Usa {list}',
+  },
+  manifest: {
+    camera: 'Cámara',
+    microphone: 'Micrófono',
+    location: 'Ubicación',
+    notifications: 'Notificaciones',
+    'media-library': 'Fotos',
+    network: 'Internet',
+    ai: 'IA',
+    sharing: 'Compartir',
+    beta: 'Beta',
+  },
+  todo: {
+    title: '📝 Tareas',
+    subtitle: 'Organízate y termina lo pendiente',
+    settingsTitle: 'Ajustes de Tareas',
+    settingsSubtitle: 'Gestiona cómo se organizan tus tareas',
+    about: 'Acerca de',
+    aboutText: 'Tareas te ayuda a organizar pendientes con fechas y categorías.\nAñade tareas, pon plazos y sigue tu progreso.',
+    newTask: 'Nueva tarea',
+    addPlaceholder: 'Añade una tarea (p. ej., categoría: tarea)',
+    showAll: 'Ver todas',
+    tasks: { one: 'Tareas ({count} pendiente)', other: 'Tareas ({count} pendientes)' },
+    empty: 'Aún no hay tareas. ¡Añade una arriba para empezar! 🚀',
+    showToday: 'Tareas de hoy',
+    showFuture: 'Ver tareas futuras',
+    hideOlderDone: 'Ocultar hechas antiguas',
+    showOlderDone: 'Ver tareas hechas antiguas',
+    itemHint: 'Mantén pulsado para editar',
+    editTitle: 'Editar tarea',
+    taskPlaceholder: 'Texto de la tarea',
+    done: 'Hecha',
+    dueDate: 'Fecha límite',
+    today: 'Hoy',
+    inDays: { one: '+{count} día', other: '+{count} días' },
+    inAWeek: '+1 semana',
+    nextMonday: 'Próximo lunes',
+    manualDate: 'O escribe la fecha (AAAA-MM-DD):',
+    dueToday: '{date} (hoy)',
+    dueTomorrow: '{date} (mañana)',
+    enterTask: 'Escribe una tarea',
+    notice: 'Aviso',
+    alreadyExists: 'Esta tarea ya existe',
+    emptyText: 'El texto de la tarea no puede estar vacío',
+    deleteTitle: 'Eliminar tarea',
+    deleteMessage: '¿Seguro que quieres eliminar esta tarea?',
+  },
+  packingList: {
+    title: '🎒 Lista de equipaje',
+    subtitle: 'Toca un artículo para marcarlo como guardado',
+    progress: { one: '{packed} de {count} artículo guardado', other: '{packed} de {count} artículos guardados' },
+    complete: '{percent} % completado',
+    itemsToPack: '📝 Para guardar',
+    uncheckAll: 'Desmarcar todo',
+    settingsTitle: 'Ajustes de la lista de equipaje',
+    settingsSubtitle: 'Gestiona tus artículos',
+    addTitle: 'Añadir artículo',
+    itemPlaceholder: 'Nombre del artículo',
+    addItem: 'Añadir artículo',
+    yourItems: 'Tus artículos ({count})',
+    enterName: 'Escribe el nombre del artículo',
+    countTooLow: 'La cantidad debe ser al menos 1',
+    keepOne: 'Debes tener al menos un artículo',
+    updateSimilarTitle: '¿Actualizar artículos similares?',
+    updateSimilarMessage: '¿Quieres cambiar la cantidad a {newCount} en todos los artículos que ahora tienen {oldCount}?\n\nArtículos: {items}',
+    no: 'No',
+    yes: 'Sí',
+    invalidTitle: 'Cantidades no válidas',
+    invalidMessage: 'Introduce cantidades válidas (1 o más) para todos los artículos.',
+  },
+};
@@ -0,0 +1,252 @@
+import { Catalog } from './en';
+
+export const fr: Catalog = {
+  common: {
+    cancel: 'Annuler',
+    close: 'Fermer',
+    delete: 'Supprimer',
+    done: 'Terminé',
+    error: 'Erreur',
+    open: 'Ouvrir',
+    remove: 'Retirer',
+    save: 'Enregistrer',
+  },
+  nav: {
+    home: 'Accueil',
+    discover: 'Découvrir',
+    marketplace: 'Boutique',
+    settings: 'Réglages',
+    back: 'Retour',
+    recent: 'Récent',
+    switch: 'Changer',
+    add: 'Ajouter',
+    undo: 'Annuler',
+    redo: 'Rétablir',
+    undoAction: 'Annuler {action}',
+    redoAction: 'Rétablir {action}',
+  },
+  settings: {
+    title: '⚙️ Réglages',
+    subtitle: 'Personnalisez votre expérience Sparks • v{version}',
+    ai: {
+      title: "🤖 Configuration de l'IA",
+      keyLabel: 'Clé API Gemini',
+      customKey: 'Clé personnelle utilisée',
+      defaultKey: 'Clé Sparks par défaut utilisée',
+      configure: 'Configurer',
+      description: "Sparks utilise l'IA Gemini de Google pour des fonctions comme RecAIpe et Minute Minder. Par défaut, nous fournissons une clé partagée. Vous pouvez ajouter la vôtre pour éviter les limites d'utilisation.",
+    },
+    experience: {
+      title: 'Expérience',
+      haptics: 'Retour haptique',
+      hapticsDescription: 'Vibrations lors des interactions',
+      sound: 'Effets sonores',
+      soundDescription: 'Retour audio',
+      textSize: 'Taille du texte',
+      textSizeDescription: "Agrandit ou réduit le texte dans toute l'app",
+      textSizes: { small: 'Petit', medium: 'Moyen', large: 'Grand' },
+      language: 'Langue',
+      languageDescription: 'Pour les menus, les dates et les nombres',
+      voiceLanguage: 'Langue de la voix',
+      voiceLanguageDescription: 'Pour comprendre les commandes mains libres et lire les réponses à voix haute',
+      voiceSameAsApp: "Comme l'app",
+    },
+    mySparks: {
+      title: 'Mes Sparks',
+      reorder: 'Réorganiser',
+      empty: 'Aucun spark dans votre collection pour le moment',
+      removeTitle: 'Retirer le spark',
+      removeMessage: 'Voulez-vous vraiment retirer « {name} » de votre collection ?',
+    },
+    backup: {
+      title: '💾 Sauvegarde et restauration',
+      description: "Enregistrez les données de vos sparks, vos réglages, vos rêves et vos médias dans un seul fichier, puis restaurez-le sur un autre appareil.",
+      export: '📤 Exporter une sauvegarde',
+      restore: '📥 Restaurer une sauvegarde',
+      exportFailed: 'Échec de la sauvegarde',
+      exportFailedMessage: 'Impossible de créer la sauvegarde.',
+      restoreTitle: 'Restaurer une sauvegarde',
+      restoreMessage: "Remplacer écrase tout le contenu de cet appareil par la sauvegarde. Fusionner conserve vos données actuelles et ajoute ce qui manque.",
+      merge: 'Fusionner',
+      replace: 'Remplacer',
+      restoreComplete: 'Restauration terminée',
+      restoreSummary: '{sparks} sparks, {dreams} rêves et {files} fichiers multimédias restaurés.',
+      restoreFailed: 'Échec de la restauration',
+      restoreFailedMessage: 'Impossible de restaurer la sauvegarde.',
+    },
+    storage: {
+      title: '📦 Stockage',
+      description: "Voyez l'espace utilisé par les données et fichiers de chaque spark, et supprimez les fichiers qui ne servent plus.",
+      measuring: '⏳ Mesure en cours...',
+      refresh: '🔄 Actualiser le rapport',
+      show: '📊 Afficher le rapport de stockage',
+      reportFailed: 'Échec du rapport',
+      reportFailedMessage: 'Impossible de mesurer le stockage.',
+      total: 'Total {total} · Données des sparks {data}',
+      data: 'Données {size}',
+      cache: 'Cache {size}',
+      files: { one: '{count} fichier {size}', other: '{count} fichiers {size}' },
+      orphanedFiles: { one: '{count} fichier orphelin', other: '{count} fichiers orphelins' },
+      missingFiles: { one: '{count} fichier manquant', other: '{count} fichiers manquants' },
+      clearCache: 'Vider le cache',
+      clearCacheMessage: "Supprimer l'historique d'annulation et les enregistrements en quarantaine de {title} ? Ses données sont conservées.",
+      clear: 'Vider',
+      removeOrphans: 'Supprimer les orphelins',
+      removeOrphansTitle: 'Supprimer les fichiers orphelins',
+      removeOrphansMessage: {
+        one: 'Supprimer {count} fichier de {title} ({size}) qui ne sert plus ?',
+        other: 'Supprimer {count} fichiers de {title} ({size}) qui ne servent plus ?',
+      },
+      filesRemoved: 'Fichiers supprimés',
+      filesRemovedMessage: { one: '{size} libérés ({count} fichier).', other: '{size} libérés ({count} fichiers).' },
+    },
+    danger: {
+      title: 'Zone de danger',
+      reset: '🗑️ Effacer toutes les données',
+      warning: 'Cela supprimera définitivement votre progression, vos scores et vos préférences.',
+      resetTitle: 'Effacer toutes les données',
+      resetMessage: 'Cela supprimera définitivement la progression, les scores et les préférences de vos sparks. Cette action est irréversible.',
+      resetConfirm: 'Effacer',
+      resetDoneTitle: 'Terminé',
+      resetDone: 'Toutes les données ont été effacées.',
+    },
+  },
+  theme: {
+    title: '🎨 Thème',
+    description: 'Choisissez une palette de couleurs ou créez la vôtre. Chaque spark peut aussi avoir sa propre couleur d\'accent.',
+    darkMode: 'Mode sombre',
+    newTheme: 'Nouveau thème',
+    editTheme: 'Modifier le thème',
+    sparkAccents: "Couleurs d'accent",
+    sparkAccentsDescription: "La couleur d'accent remplace la couleur principale du thème dans les en-têtes et boutons de ce spark.",
+    noSparks: "Ajoutez des sparks à votre collection pour leur donner une couleur d'accent.",
+    themeColor: 'Thème',
+    presets: {
+      default: 'Sparks',
+      'high-contrast': 'Contraste élevé',
+      'color-blind-safe': 'Adapté au daltonisme',
+      paper: 'Papier',
+    },
+    name: 'Nom',
+    copyName: 'Copie de {name}',
+    light: 'Clair',
+    dark: 'Sombre',
+    preview: 'Aperçu',
+    previewText: 'Voici le rendu du texte avec ce thème.',
+    previewButton: 'Bouton',
+    lowContrast: '{foreground} sur {background} est difficile à lire ({ratio}:1, visez {minimum}:1)',
+    invalidColor: 'Saisissez une couleur hexadécimale, par exemple #1A2B3C',
+    notSaved: 'Thème non enregistré',
+    deleteTitle: 'Supprimer le thème',
+    deleteMessage: '« {name} » sera supprimé.',
+    colors: {
+      primary: 'Principale',
+      secondary: 'Secondaire',
+      background: 'Arrière-plan',
+      surface: 'Surface',
+      card: 'Carte',
+      text: 'Texte',
+      textSecondary: 'Texte secondaire',
+      border: 'Bordure',
+      success: 'Succès',
+      warning: 'Avertissement',
+      error: 'Erreur',
+      info: 'Info',
+    },
+  },
+  trash: {
+    title: 'Corbeille',
+    description: 'Les éléments supprimés dans les sparks peuvent être restaurés pendant {days} jours.',
+    open: 'Ouvrir la corbeille ({count})',
+    keptFor: 'Les éléments supprimés sont conservés {days} jours, puis effacés définitivement.',
+    empty: 'La corbeille est vide.',
+    deletedOn: {
+      one: 'Supprimé le {date} · {count} jour restant',
+      other: 'Supprimé le {date} · {count} jours restants',
+    },
+    restore: 'Restaurer',
+    restoreFailed: 'Restauration impossible',
+    deleteForever: 'Supprimer définitivement',
+    deleteForeverMessage: '« {label} » sera supprimé et ne pourra pas être restauré.',
+    emptyTrash: 'Vider la corbeille',
+    emptyTrashMessage: { one: 'Supprimer définitivement {count} élément ?', other: 'Supprimer définitivement les {count} éléments ?' },
+  },
+  marketplace: {
+    title: 'Découvrir des Sparks',
+    subtitle: 'Explorez de nouvelles expériences',
+    newSparks: 'Nouveautés',
+    topRated: 'Les mieux notés',
+    allSparks: 'Tous les Sparks',
+    noPermissions: "N'utilise aucune autorisation et garde tout sur cet appareil.",
+    uses: 'Utilise {list}',
+  },
+  manifest: {
+    camera: 'Appareil photo',
+    microphone: 'Micro',
+    location: 'Position',
+    notifications: 'Notifications',
+    'media-library': 'Photos',
+    network: 'Internet',
+    ai: 'IA',
+    sharing: 'Partage',
+    beta: 'Bêta',
+  },
+  todo: {
+    title: '📝 Tâches',
+    subtitle: 'Restez organisé et avancez',
+    settingsTitle: 'Réglages des tâches',
+    settingsSubtitle: "Gérez l'organisation de vos tâches",
+    about: 'À propos',
+    aboutText: 'Tâches vous aide à organiser vos tâches avec des échéances et des catégories.\nAjoutez des tâches, fixez des échéances et suivez vos progrès.',
+    newTask: 'Nouvelle tâche',
+    addPlaceholder: 'Ajouter une tâche (ex. catégorie : tâche)',
+    showAll: 'Tout afficher',
+    tasks: { one: 'Tâches ({count} en attente)', other: 'Tâches ({count} en attente)' },
+    empty: 'Aucune tâche pour le moment. Ajoutez-en une ci-dessus ! 🚀',
+    showToday: "Tâches du jour",
+    showFuture: 'Afficher les tâches à venir',
+    hideOlderDone: 'Masquer les anciennes terminées',
+    showOlderDone: 'Afficher les anciennes terminées',
+    itemHint: 'Appui long pour modifier',
+    editTitle: 'Modifier la tâche',
+    taskPlaceholder: 'Texte de la tâche',
+    done: 'Terminée',
+    dueDate: 'Échéance',
+    today: "Aujourd'hui",
+    inDays: { one: '+{count} jour', other: '+{count} jours' },
+    inAWeek: '+1 semaine',
+    nextMonday: 'Lundi prochain',
+    manualDate: 'Ou saisissez la date (AAAA-MM-JJ) :',
+    dueToday: "{date} (aujourd'hui)",
+    dueTomorrow: '{date} (demain)',
+    enterTask: 'Veuillez saisir une tâche',
+    notice: 'Information',
+    alreadyExists: 'Cette tâche existe déjà',
+    emptyText: 'Le texte de la tâche ne peut pas être vide',
+    deleteTitle: 'Supprimer la tâche',
+    deleteMessage: 'Voulez-vous vraiment supprimer cette tâche ?',
+  },
+  packingList: {
+    title: '🎒 Liste de bagages',
+    subtitle: 'Touchez un objet pour le cocher',
+    progress: { one: '{packed} objet sur {count} emballé', other: '{packed} objets sur {count} emballés' },
+    complete: '{percent} % terminé',
+    itemsToPack: '📝 À emballer',
+    uncheckAll: 'Tout décocher',
+    settingsTitle: 'Réglages de la liste de bagages',
+    settingsSubtitle: 'Gérez vos objets à emporter',
+    addTitle: 'Ajouter un objet',
+    itemPlaceholder: "Nom de l'objet",
+    addItem: 'Ajouter',
+    yourItems: 'Vos objets ({count})',
+    enterName: "Veuillez saisir le nom de l'objet",
+    countTooLow: 'La quantité doit être au moins 1',
+    keepOne: 'Vous devez garder au moins un objet',
+    updateSimilarTitle: 'Modifier les objets similaires ?',
+    updateSimilarMessage: 'Passer la quantité à {newCount} pour tous les objets qui en ont actuellement {oldCount} ?\n\nObjets : {items}',
+    no: 'Non',
+    yes: 'Oui',
+    invalidTitle: 'Quantités invalides',
+    invalidMessage: 'Veuillez saisir des quantités valides (1 ou plus) pour tous les objets.',
+  },
+};
@@ -0,0 +1,124 @@
+import { useMemo } from 'react';
+import { useSettingsStore } from '../store/settingsStore';
+import { AppLanguage, CatalogKey, PluralForms } from '../types/i18n';
+import { en, Catalog } from './en';
+import { es } from './es';
+import { fr } from './fr';
+import { de } from './de';
+
+export type TranslationKey = CatalogKey<Catalog>;
+export type TranslationParams = Record<string, string | number>;
+export type Translate = (key: TranslationKey, params?: TranslationParams) => string;
+
+const CATALOGS: Record<AppLanguage, Catalog> = { en, es, fr, de };
+
+// Used for dates and numbers; English keeps the US formats the app has always shown
+export const LOCALES: Record<AppLanguage, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+  fr: 'fr-FR',
+  de: 'de-DE',
+};
+
+// Each language in its own name, for the language picker
+export const LANGUAGE_NAMES: Record<AppLanguage, string> = {
+  en: 'English',
+  es: 'Español',
+  fr: 'Français',
+  de: 'Deutsch',
+};
+
+export const getLanguage = (): AppLanguage => {
+  const language = useSettingsStore.getState().language;
+  return language in CATALOGS ? language : 'en';
+};
+
+export const getLocale = (): string => LOCALES[getLanguage()];
+
+// Locales speech can be heard and read back in, each in its own language, for the voice picker
+export const SPEECH_LOCALE_NAMES: Record<string, string> = {
+  'en-US': 'English (US)',
+  'en-GB': 'English (UK)',
+  'en-AU': 'English (Australia)',
+  'es-ES': 'Español (España)',
+  'es-MX': 'Español (México)',
+  'fr-FR': 'Français',
+  'de-DE': 'Deutsch',
+};
+
+// The voice locale picked in settings, otherwise the app language's locale
+export const getSpeechLocale = (): string => {
+  const voiceLocale = useSettingsStore.getState().voiceLocale;
+  return voiceLocale && voiceLocale in SPEECH_LOCALE_NAMES ? voiceLocale : getLocale();
+};
+
+/**
+ * Which plural form a count takes. Hermes has no Intl.PluralRules, and the
+ * supported languages only need "one" and "other".
+ */
+export const pluralCategory = (language: AppLanguage, count: number): keyof PluralForms => {
+  // French treats 0 and 1 (and 1.5) as singular
+  if (language === 'fr') {
+    return Math.abs(count) < 2 ? 'one' : 'other';
+  }
+  return count === 1 ? 'one' : 'other';
+};
+
+export const formatLocaleNumber = (
+  value: number,
+  options?: Intl.NumberFormatOptions,
+  locale: string = getLocale()
+): string => value.toLocaleString(locale, options);
+
+export const formatLocaleDate = (
+  date: Date,
+  options?: Intl.DateTimeFormatOptions,
+  locale: string = getLocale()
+): string => date.toLocaleDateString(locale, options);
+
+const lookup = (catalog: Catalog, key: string): string | PluralForms | undefined =>
+  key.split('.').reduce<any>((node, part) => node?.[part], catalog);
+
+/**
+ * A catalog string in the given language, falling back to English and then to the key.
+ * Plural strings pick their form from params.count; {name} placeholders are
+ * replaced from params, with numbers formatted for the language.
+ */
+export const translate = (language: AppLanguage, key: TranslationKey, params: TranslationParams = {}): string => {
+  const entry = lookup(CATALOGS[language] || en, key) ?? lookup(en, key);
+
+  let text: string | undefined;
+  if (typeof entry === 'string') {
+    text = entry;
+  } else if (entry && typeof entry.other === 'string') {
+    text = entry[pluralCategory(language, Number(params.count ?? 0))] ?? entry.other;
+  }
+  if (text === undefined) {
+    return key;
+  }
+
+  return text.replace(/\{(\w+)\}/g, (placeholder, name) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? formatLocaleNumber(value, undefined, LOCALES[language]) : value;
+  });
+};
+
+/**
+ * Translate in the current language, for code outside components (alerts, services)
+ */
+export const t: Translate = (key, params) => translate(getLanguage(), key, params);
+
+/**
+ * Translate in the current language and re-render when it changes
+ */
+export const useTranslation = (): { t: Translate; language: AppLanguage; locale: string } => {
+  const storedLanguage = useSettingsStore(state => state.language);
+  const language: AppLanguage = storedLanguage in CATALOGS ? storedLanguage : 'en';
+
+  return useMemo(() => ({
+    t: (key: TranslationKey, params?: TranslationParams) => translate(language, key, params),
+    language,
+    locale: LOCALES[language],
+  }), [language]);
+};
@@ -23,9 +23,12 @@ import { MarketplaceScreen } from "../screens/MarketplaceScreen";
 import { SettingsScreen } from "../screens/SettingsScreen";
 import { SparkScreen } from "../screens/SparkScreen";
 import { useAppStore } from "../store";
+import { useSettingsStore } from "../store/settingsStore";
 import { QuickSwitchModal } from "../components/QuickSwitchModal";
+import { SearchHit } from "../services/SearchService";
 import { getSparkById } from "../components/SparkRegistry";
 import { HapticFeedback } from "../utils/haptics";
+import { useTranslation } from "../i18n";
 import { NotificationBadge } from "../components/NotificationBadge";
 import { useSparkStore } from "../store/sparkStore";
 
@@ -34,6 +37,7 @@ const MySparksStack = createNativeStackNavigator<MySparkStackParamList>();
 const MarketplaceStack = createNativeStackNavigator<MarketplaceStackParamList>();
 
 import { navigationRef } from "./navigationRef";
+import { linking } from "./linking";
 
 // Helper function to get focused route name
 const getFocusedRouteNameFromRoute = (route: any) => {
@@ -57,6 +61,7 @@ const TabBarVisibilityContext = React.createContext<{
 
 const MySparksStackNavigator = () => {
   const { colors } = useTheme();
+  const { t } = useTranslation();
   const { setTabBarVisible } = React.useContext(TabBarVisibilityContext);
 
   return (
@@ -75,7 +80,7 @@ const MySparksStackNavigator = () => {
         name="MySparksList"
         component={SparkSelectionScreen}
         options={{
-          title: "Home",
+          title: t("nav.home"),
           headerShown: false,
         }}
         listeners={{
@@ -87,7 +92,7 @@ const MySparksStackNavigator = () => {
         component={SparkScreen}
         options={({ route }) => ({
           title: `Spark: ${route.params.sparkId}`,
-          headerBackTitle: "Back",
+          headerBackTitle: t("nav.back"),
           headerShown: false,
         })}
       />
@@ -97,6 +102,7 @@ const MySparksStackNavigator = () => {
 
 const MarketplaceStackNavigator = () => {
   const { colors } = useTheme();
+  const { t } = useTranslation();
   const { setTabBarVisible } = React.useContext(TabBarVisibilityContext);
 
   return (
@@ -115,7 +121,7 @@ const MarketplaceStackNavigator = () => {
         name="MarketplaceList"
         component={MarketplaceScreen}
         options={{
-          title: "Marketplace",
+          title: t("nav.marketplace"),
           headerShown: false,
         }}
         listeners={{
@@ -127,7 +133,7 @@ const MarketplaceStackNavigator = () => {
         component={SparkScreen}
         options={({ route }) => ({
           title: `Spark: ${route.params.sparkId}`,
-          headerBackTitle: "Back",
+          headerBackTitle: t("nav.back"),
           headerShown: false,
         })}
       />
@@ -140,6 +146,7 @@ const CustomTabBar: React.FC<
   BottomTabBarProps & { tabBarVisible: boolean }
 > = ({ state, descriptors, navigation, tabBarVisible }) => {
   const { colors } = useTheme();
+  const { t } = useTranslation();
   const recentSparks = useAppStore(state => state.recentSparks);
   const [showQuickSwitch, setShowQuickSwitch] = React.useState(false);
   const [adminUnreadCount, setAdminUnreadCount] = React.useState(0);
@@ -147,6 +154,9 @@ const CustomTabBar: React.FC<
   const insets = useSafeAreaInsets();
   const userSparkIds = useSparkStore(state => state.userSparkIds);
   const addSparkToUser = useSparkStore(state => state.addSparkToUser);
+  const sparkHistory = useSparkStore(state => state.sparkHistory);
+  const undoSparkData = useSparkStore(state => state.undoSparkData);
+  const redoSparkData = useSparkStore(state => state.redoSparkData);
 
   // Check for admin unread counts (feedback, reviews, submissions)
   React.useEffect(() => {
@@ -196,6 +206,9 @@ const CustomTabBar: React.FC<
     }
   }, [state]);
 
+  // Spark actions take the open spark's accent color
+  const sparkAccents = useSettingsStore(state => state.sparkAccents);
+
   if (!tabBarVisible) {
     return null;
   }
@@ -228,6 +241,10 @@ const CustomTabBar: React.FC<
   const onSparkScreen = !!sparkInfo;
   const sparkId = sparkInfo?.sparkId;
   const isSparkSettingsOpen = sparkInfo?.showSettings || false;
+  const accentColor = (sparkId && sparkAccents[sparkId]) || colors.primary;
+  const history = sparkId ? sparkHistory[sparkId] : undefined;
+  const nextUndo = history?.past[history.past.length - 1];
+  const nextRedo = history?.future[history.future.length - 1];
 
   // Check if we're on a Spark screen within a specific tab's stack
   const isOnSparkScreenInTab = (tabName: string) => {
@@ -278,6 +295,15 @@ const CustomTabBar: React.FC<
     setShowQuickSwitch(false);
   };
 
+  const handleSelectSearchHit = (hit: SearchHit) => {
+    // Open the spark at the matching item
+    navigation.navigate("MySparks", {
+      screen: "Spark",
+      params: { sparkId: hit.sparkId, ...hit.params },
+    });
+    setShowQuickSwitch(false);
+  };
+
   const styles = StyleSheet.create({
     tabBar: {
       flexDirection: "row",
@@ -356,6 +382,18 @@ const CustomTabBar: React.FC<
     });
   };
 
+  const handleUndo = () => {
+    if (sparkId && undoSparkData(sparkId)) {
+      HapticFeedback.medium();
+    }
+  };
+
+  const handleRedo = () => {
+    if (sparkId && redoSparkData(sparkId)) {
+      HapticFeedback.medium();
+    }
+  };
+
   const handleHomePress = () => {
     HapticFeedback.light();
     navigation.navigate('MySparks', { screen: 'MySparksList' });
@@ -653,21 +691,21 @@ const CustomTabBar: React.FC<
                 {/* Home */}
                 <TouchableOpacity style={styles.tab} onPress={handleHomePress}>
                   <Text style={[styles.sparkActionIcon, { color: colors.textSecondary }]}>🏠</Text>
-                  <Text style={[styles.sparkActionLabel, { color: colors.textSecondary }]}>Home</Text>
+                  <Text style={[styles.sparkActionLabel, { color: colors.textSecondary }]}>{t("nav.home")}</Text>
                 </TouchableOpacity>
 
                 {/* Recent */}
                 {mostRecentSpark && (
                   <TouchableOpacity style={styles.tab} onPress={handleRecentPress}>
                     <Text style={styles.sparkActionIcon}>{recentSparkMeta?.metadata.icon || '⚡️'}</Text>
-                    <Text style={[styles.sparkActionLabel, { color: colors.textSecondary }]}>Recent</Text>
+                    <Text style={[styles.sparkActionLabel, { color: colors.textSecondary }]}>{t("nav.recent")}</Text>
                   </TouchableOpacity>
                 )}
 
                 {/* Switch */}
                 <TouchableOpacity style={styles.tab} onPress={handleQuickSwitch}>
-                  <Text style={[styles.sparkActionIcon, { color: colors.primary }]}>∞</Text>
-                  <Text style={[styles.sparkActionLabel, { color: colors.primary }]}>Switch</Text>
+                  <Text style={[styles.sparkActionIcon, { color: accentColor }]}>∞</Text>
+                  <Text style={[styles.sparkActionLabel, { color: accentColor }]}>{t("nav.switch")}</Text>
                 </TouchableOpacity>
 
                 {/* Add (conditional) */}
@@ -680,17 +718,39 @@ const CustomTabBar: React.FC<
                     }}
                   >
                     <Text style={styles.sparkActionIcon}>➕</Text>
-                    <Text style={[styles.sparkActionLabel, { color: colors.textSecondary }]}>Add</Text>
+                    <Text style={[styles.sparkActionLabel, { color: colors.textSecondary }]}>{t("nav.add")}</Text>
+                  </TouchableOpacity>
+                )}
+
+                {/* Undo / Redo (when the spark has history) */}
+                {nextUndo && (
+                  <TouchableOpacity
+                    style={styles.tab}
+                    onPress={handleUndo}
+                    accessibilityLabel={t("nav.undoAction", { action: nextUndo.label })}
+                  >
+                    <Text style={[styles.sparkActionIcon, { color: colors.textSecondary }]}>↩️</Text>
+                    <Text style={[styles.sparkActionLabel, { color: colors.textSecondary }]}>{t("nav.undo")}</Text>
+                  </TouchableOpacity>
+                )}
+                {nextRedo && (
+                  <TouchableOpacity
+                    style={styles.tab}
+                    onPress={handleRedo}
+                    accessibilityLabel={t("nav.redoAction", { action: nextRedo.label })}
+                  >
+                    <Text style={[styles.sparkActionIcon, { color: colors.textSecondary }]}>↪️</Text>
+                    <Text style={[styles.sparkActionLabel, { color: colors.textSecondary }]}>{t("nav.redo")}</Text>
                   </TouchableOpacity>
                 )}
 
                 {/* Settings */}
                 <TouchableOpacity style={styles.tab} onPress={handleToggleSparkSettings}>
                   <View style={{ position: 'relative' }}>
-                    <Text style={[styles.sparkActionIcon, { color: isSparkSettingsOpen ? colors.primary : colors.textSecondary }]}>⚙️</Text>
+                    <Text style={[styles.sparkActionIcon, { color: isSparkSettingsOpen ? accentColor : colors.textSecondary }]}>⚙️</Text>
                     {sparkId && <NotificationBadge sparkId={sparkId} size="small" />}
                   </View>
-                  <Text style={[styles.sparkActionLabel, { color: isSparkSettingsOpen ? colors.primary : colors.textSecondary }]}>Settings</Text>
+                  <Text style={[styles.sparkActionLabel, { color: isSparkSettingsOpen ? accentColor : colors.textSecondary }]}>{t("nav.settings")}</Text>
                 </TouchableOpacity>
               </View>
             );
@@ -708,10 +768,10 @@ const CustomTabBar: React.FC<
                 : "⚙️";
           let label =
             route.name === "MySparks"
-              ? "Home"
+              ? t("nav.home")
               : route.name === "Marketplace"
-                ? "Discover"
-                : "Settings";
+                ? t("nav.discover")
+                : t("nav.settings");
 
           return (
             <React.Fragment key={route.key}>
@@ -723,7 +783,7 @@ const CustomTabBar: React.FC<
                   style={styles.quickSwitchButton}
                 >
                   <Text style={styles.quickSwitchIcon}>∞</Text>
-                  <Text style={styles.quickSwitchLabel}>Switch</Text>
+                  <Text style={styles.quickSwitchLabel}>{t("nav.switch")}</Text>
                 </TouchableOpacity>
               )}
 
@@ -792,6 +852,7 @@ const CustomTabBar: React.FC<
         onClose={() => setShowQuickSwitch(false)}
         recentSparks={recentSparks}
         onSelectSpark={handleSelectSpark}
+        onSelectSearchHit={handleSelectSearchHit}
         navigation={navigation}
       />
     </>
@@ -800,11 +861,12 @@ const CustomTabBar: React.FC<
 
 export const AppNavigator: React.FC = () => {
   const { colors } = useTheme();
+  const { t } = useTranslation();
   const [tabBarVisible, setTabBarVisible] = React.useState(true);
 
   return (
     <TabBarVisibilityContext.Provider value={{ setTabBarVisible }}>
-      <NavigationContainer ref={navigationRef}>
+      <NavigationContainer ref={navigationRef} linking={linking}>
         <Tab.Navigator
           initialRouteName="MySparks"
           screenOptions={{
@@ -821,7 +883,7 @@ export const AppNavigator: React.FC = () => {
             name="MySparks"
             component={MySparksStackNavigator}
             options={{
-              tabBarLabel: "Home",
+              tabBarLabel: t("nav.home"),
               tabBarIcon: ({ color, size }) => (
                 <Text style={{ fontSize: size - 2, color, fontWeight: "bold" }}>
                   🏠
@@ -837,7 +899,7 @@ export const AppNavigator: React.FC = () => {
             name="Marketplace"
             component={MarketplaceStackNavigator}
             options={{
-              tabBarLabel: "Discover",
+              tabBarLabel: t("nav.discover"),
               tabBarIcon: ({ color, size }) => (
                 <Text style={{ fontSize: size - 2, color, fontWeight: "bold" }}>
                   🔎
@@ -853,7 +915,7 @@ export const AppNavigator: React.FC = () => {
             name="Settings"
             component={SettingsScreen}
             options={{
-              tabBarLabel: "Settings",
+              tabBarLabel: t("nav.settings"),
               tabBarIcon: ({ color, size }) => (
                 <Text style={{ fontSize: size - 2, color, fontWeight: "bold" }}>
                   ⚙️
@@ -0,0 +1,43 @@
+import { getStateFromPath } from '@react-navigation/native';
+import { linking, isDeepLinkAction } from '../linking';
+
+jest.mock('expo-linking', () => ({
+  createURL: (path: string) => `sparks://${path.replace(/^\//, '')}`,
+}));
+
+const getSparkRoute = (path: string) => {
+  const state: any = getStateFromPath(path, linking.config);
+  const tab = state?.routes[0];
+  return { tab: tab?.name, route: tab?.state?.routes[tab.state.routes.length - 1] };
+};
+
+describe('linking', () => {
+  it('opens a spark by id', () => {
+    const { tab, route } = getSparkRoute('spark/golf-brain');
+    expect(tab).toBe('MySparks');
+    expect(route.name).toBe('Spark');
+    expect(route.params).toEqual({ sparkId: 'golf-brain' });
+  });
+
+  it('passes query params to the spark', () => {
+    const { route } = getSparkRoute('spark/trip-survey?tripId=abc123');
+    expect(route.params).toEqual({ sparkId: 'trip-survey', tripId: 'abc123' });
+  });
+
+  it('parses an action with its params', () => {
+    const { route } = getSparkRoute('spark/todo/add?text=Buy%20milk');
+    expect(route.params).toEqual({ sparkId: 'todo', action: 'add', text: 'Buy milk' });
+  });
+
+  it('maps the settings tab', () => {
+    const state: any = getStateFromPath('settings', linking.config);
+    expect(state.routes[0].name).toBe('Settings');
+  });
+
+  it('only accepts known actions', () => {
+    expect(isDeepLinkAction('add')).toBe(true);
+    expect(isDeepLinkAction('create')).toBe(true);
+    expect(isDeepLinkAction('open')).toBe(false);
+    expect(isDeepLinkAction(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,56 @@
+import { LinkingOptions } from '@react-navigation/native';
+import * as Linking from 'expo-linking';
+import { RootTabParamList } from '../types/navigation';
+
+// Deep link scheme registered in app.json
+export const APP_SCHEME = 'sparks';
+
+// Actions a link may ask a spark to perform, handled by CommandExecutor
+export const DEEP_LINK_ACTIONS = ['add', 'create'] as const;
+export type DeepLinkAction = typeof DEEP_LINK_ACTIONS[number];
+
+export const isDeepLinkAction = (action: string | undefined): action is DeepLinkAction =>
+  !!action && (DEEP_LINK_ACTIONS as readonly string[]).includes(action);
+
+/**
+ * URL mapping for native schemes and web paths:
+ *   sparks://spark/golf-brain                    -> open Golf Brain
+ *   sparks://spark/trip-survey?tripId=123&trip=… -> open a trip, adding the shared copy if missing
+ *                                                   (query params are passed to the spark)
+ *   sparks://spark/todo/add?text=Buy%20milk      -> run an action once the user confirms, then open the spark
+ *   https://<web host>/spark/toview?category=Movie
+ */
+export const linking: LinkingOptions<RootTabParamList> = {
+  prefixes: [Linking.createURL('/'), `${APP_SCHEME}://`],
+  config: {
+    screens: {
+      MySparks: {
+        screens: {
+          MySparksList: '',
+          Spark: 'spark/:sparkId/:action?',
+        },
+      },
+      Marketplace: {
+        screens: {
+          MarketplaceList: 'discover',
+        },
+      },
+      Settings: 'settings',
+    },
+  },
+};
+
+/**
+ * Build a shareable link into a spark, optionally running an action
+ * @param sparkId Registry id of the spark
+ * @param action Optional action such as "add"
+ * @param params Query parameters passed to the spark or action
+ */
+export const createSparkLink = (
+  sparkId: string,
+  action?: DeepLinkAction,
+  params?: Record<string, string>
+): string => {
+  const path = action ? `spark/${sparkId}/${action}` : `spark/${sparkId}`;
+  return Linking.createURL(path, { scheme: APP_SCHEME, queryParams: params });
+};
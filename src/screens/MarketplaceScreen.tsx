@@ -1,11 +1,14 @@
 import React, { useState } from 'react';
-import { ScrollView, View, Text, TouchableOpacity, StyleSheet, Image } from 'react-native';
+import { ScrollView, View, Text, TouchableOpacity, StyleSheet, Image, Alert } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { MarketplaceStackParamList } from '../types/navigation';
 import { getAllSparks } from '../components/SparkRegistry';
 import { useTheme } from '../contexts/ThemeContext';
 import { NotificationBadge } from '../components/NotificationBadge';
+import { BaseSpark } from '../types/spark';
+import { describeManifest } from '../utils/sparkManifest';
+import { useTranslation, formatLocaleNumber, TranslationKey } from '../i18n';
 
 type MarketplaceNavigationProp = StackNavigationProp<MarketplaceStackParamList, 'MarketplaceList'>;
 
@@ -21,11 +24,34 @@ export const MarketplaceScreen: React.FC<Props> = ({ navigation }) => {
   const styles = React.useMemo(() => getStyles(colors, insets), [colors, insets]);
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [selectedProperty, setSelectedProperty] = useState<string | null>(null);
+  const { t, locale } = useTranslation();
+
+  // Manifest entries are filtered by key and shown in the app language
+  const manifestLabel = (key: string) => t(`manifest.${key}` as TranslationKey);
+  const getManifestKeys = (spark: BaseSpark) => describeManifest(spark.metadata.manifest).map(entry => entry.key);
 
   const handleSparkPress = (sparkId: string) => {
     navigation.navigate('Spark', { sparkId });
   };
 
+  // Long-press shows what a spark uses before it is opened or added
+  const handleSparkLongPress = (spark: BaseSpark) => {
+    const entries = describeManifest(spark.metadata.manifest);
+    Alert.alert(
+      `${spark.metadata.icon} ${spark.metadata.title}`,
+      [
+        spark.metadata.description,
+        entries.length > 0
+          ? entries.map(entry => `${entry.icon} ${manifestLabel(entry.key)}: ${entry.reason}`).join('\n')
+          : t('marketplace.noPermissions'),
+      ].join('\n\n'),
+      [
+        { text: t('common.close'), style: 'cancel' },
+        { text: t('common.open'), onPress: () => handleSparkPress(spark.metadata.id) },
+      ]
+    );
+  };
+
   const handleCategoryPress = (category: string) => {
     // Toggle: if same category is clicked, clear filter; otherwise set new filter
     setSelectedCategory(prev => prev === category ? null : category);
@@ -39,14 +65,12 @@ export const MarketplaceScreen: React.FC<Props> = ({ navigation }) => {
   // Get unique categories from all sparks
   const categories = Array.from(new Set(allSparks.map(spark => spark.metadata.category)));
 
-  // Get unique properties from all sparks
+  // Get unique manifest keys (ai, camera, sharing...) from all sparks, sorted by label
   const allProperties = new Set<string>();
   allSparks.forEach(spark => {
-    if (spark.metadata.properties) {
-      spark.metadata.properties.forEach(prop => allProperties.add(prop));
-    }
+    getManifestKeys(spark).forEach(key => allProperties.add(key));
   });
-  const properties = Array.from(allProperties).sort();
+  const properties = Array.from(allProperties).sort((a, b) => manifestLabel(a).localeCompare(manifestLabel(b), locale));
 
   // Get new sparks (3 most recently created)
   const newSparks = allSparks
@@ -62,7 +86,7 @@ export const MarketplaceScreen: React.FC<Props> = ({ navigation }) => {
   const allSparksAlphabetical = allSparks
     .filter(spark => {
       const categoryMatch = !selectedCategory || spark.metadata.category === selectedCategory;
-      const propertyMatch = !selectedProperty || (spark.metadata.properties && spark.metadata.properties.includes(selectedProperty));
+      const propertyMatch = !selectedProperty || getManifestKeys(spark).includes(selectedProperty);
       return categoryMatch && propertyMatch;
     })
     .sort((a, b) => a.metadata.title.localeCompare(b.metadata.title));
@@ -110,8 +134,8 @@ export const MarketplaceScreen: React.FC<Props> = ({ navigation }) => {
   return (
     <View style={styles.container}>
       <View style={styles.header}>
-        <Text style={styles.title}>Discover Sparks</Text>
-        <Text style={styles.subtitle}>Explore new experiences</Text>
+        <Text style={styles.title}>{t('marketplace.title')}</Text>
+        <Text style={styles.subtitle}>{t('marketplace.subtitle')}</Text>
       </View>
 
       <ScrollView>
@@ -120,7 +144,7 @@ export const MarketplaceScreen: React.FC<Props> = ({ navigation }) => {
           <>
             {/* New Sparks Section */}
             <View style={styles.sectionHeader}>
-              <Text style={styles.sectionTitle}>New Sparks</Text>
+              <Text style={styles.sectionTitle}>{t('marketplace.newSparks')}</Text>
             </View>
             <View style={styles.grid}>
               {newSparks.map((spark) => {
@@ -129,6 +153,7 @@ export const MarketplaceScreen: React.FC<Props> = ({ navigation }) => {
                     key={spark.metadata.id}
                     style={styles.sparkCard}
                     onPress={() => handleSparkPress(spark.metadata.id)}
+                    onLongPress={() => handleSparkLongPress(spark)}
                   >
                     <View style={styles.sparkCardContent}>
                       <View style={styles.sparkIconContainer}>
@@ -140,7 +165,7 @@ export const MarketplaceScreen: React.FC<Props> = ({ navigation }) => {
                         <NotificationBadge
                           sparkId={spark.metadata.id}
                           size="small"
-                          isBeta={spark.metadata.properties?.includes("Beta")}
+                          isBeta={spark.metadata.manifest?.beta}
                         />
                       </View>
                       <Text style={styles.sparkTitle} numberOfLines={2}>{spark.metadata.title}</Text>
@@ -152,7 +177,7 @@ export const MarketplaceScreen: React.FC<Props> = ({ navigation }) => {
 
             {/* Top Rated Section */}
             <View style={styles.sectionHeader}>
-              <Text style={styles.sectionTitle}>Top Rated</Text>
+              <Text style={styles.sectionTitle}>{t('marketplace.topRated')}</Text>
             </View>
             <View style={styles.grid}>
               {topRatedSparks.map((spark) => {
@@ -161,6 +186,7 @@ export const MarketplaceScreen: React.FC<Props> = ({ navigation }) => {
                     key={spark.metadata.id}
                     style={styles.sparkCard}
                     onPress={() => handleSparkPress(spark.metadata.id)}
+                    onLongPress={() => handleSparkLongPress(spark)}
                   >
                     <View style={styles.sparkCardContentWithRating}>
                       <View style={styles.sparkIconContainer}>
@@ -172,7 +198,7 @@ export const MarketplaceScreen: React.FC<Props> = ({ navigation }) => {
                         <NotificationBadge
                           sparkId={spark.metadata.id}
                           size="small"
-                          isBeta={spark.metadata.properties?.includes("Beta")}
+                          isBeta={spark.metadata.manifest?.beta}
                         />
                       </View>
                       <Text style={styles.sparkTitle} numberOfLines={2}>{spark.metadata.title}</Text>
@@ -180,7 +206,9 @@ export const MarketplaceScreen: React.FC<Props> = ({ navigation }) => {
                         <View style={styles.starsContainer}>
                           {renderStars(spark.metadata.rating)}
                         </View>
-                        <Text style={styles.ratingNumber}>{spark.metadata.rating.toFixed(1)}</Text>
+                        <Text style={styles.ratingNumber}>
+                          {formatLocaleNumber(spark.metadata.rating, { minimumFractionDigits: 1, maximumFractionDigits: 1 }, locale)}
+                        </Text>
                       </View>
                     </View>
                   </TouchableOpacity>
@@ -206,7 +234,7 @@ export const MarketplaceScreen: React.FC<Props> = ({ navigation }) => {
                   styles.categoryPillText,
                   selectedProperty === property && styles.categoryPillTextActive
                 ]}>
-                  {property}
+                  {manifestLabel(property)}
                 </Text>
               </TouchableOpacity>
             ))}
@@ -236,15 +264,17 @@ export const MarketplaceScreen: React.FC<Props> = ({ navigation }) => {
 
         {/* All Sparks Section */}
         <View style={styles.sectionHeader}>
-          <Text style={styles.sectionTitle}>All Sparks</Text>
+          <Text style={styles.sectionTitle}>{t('marketplace.allSparks')}</Text>
         </View>
         <View style={styles.grid}>
           {allSparksAlphabetical.map((spark) => {
+            const manifestEntries = describeManifest(spark.metadata.manifest);
             return (
               <TouchableOpacity
                 key={spark.metadata.id}
                 style={styles.sparkCard}
                 onPress={() => handleSparkPress(spark.metadata.id)}
+                onLongPress={() => handleSparkLongPress(spark)}
               >
                 <View style={styles.sparkCardContent}>
                   <View style={styles.sparkIconContainer}>
@@ -256,10 +286,18 @@ export const MarketplaceScreen: React.FC<Props> = ({ navigation }) => {
                     <NotificationBadge
                       sparkId={spark.metadata.id}
                       size="small"
-                      isBeta={spark.metadata.properties?.includes("Beta")}
+                      isBeta={spark.metadata.manifest?.beta}
                     />
                   </View>
                   <Text style={styles.sparkTitle} numberOfLines={2}>{spark.metadata.title}</Text>
+                  {manifestEntries.length > 0 && (
+                    <Text
+                      style={styles.manifestIcons}
+                      accessibilityLabel={t('marketplace.uses', { list: manifestEntries.map(entry => manifestLabel(entry.key)).join(', ') })}
+                    >
+                      {manifestEntries.map(entry => entry.icon).join('')}
+                    </Text>
+                  )}
                 </View>
               </TouchableOpacity>
             );
@@ -338,6 +376,11 @@ const getStyles = (colors: any, insets: any) => StyleSheet.create({
     color: colors.text,
     textAlign: 'center',
   },
+  manifestIcons: {
+    fontSize: 10,
+    marginTop: 4,
+    textAlign: 'center',
+  },
   categoryTabs: {
     flexDirection: 'row',
     paddingHorizontal: 24,
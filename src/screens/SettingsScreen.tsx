@@ -13,6 +13,10 @@ import { AdminReviewsManager } from '../components/AdminReviewsManager';
 import { AdminSubmissionsManager } from '../components/AdminSubmissionsManager';
 import { NotificationBadge } from '../components/NotificationBadge';
 import { AccountSettingsSection } from '../components/AccountSettingsSection';
+import { PrivacyLockSettingsSection } from '../components/PrivacyLockSettingsSection';
+import { AutomationSettingsSection } from '../components/AutomationSettingsSection';
+import { TrashSettingsSection } from '../components/TrashSettingsSection';
+import { ThemeSettingsSection } from '../components/ThemeSettingsSection';
 import { AdminResponseService } from '../services/AdminResponseService';
 import { FeedbackNotificationService } from '../services/FeedbackNotificationService';
 import { SparkSubmissionAdminService } from '../services/SparkSubmissionAdminService';
@@ -21,10 +25,23 @@ import { FeedbackService } from '../services/FeedbackService';
 import { getSparkById } from '../components/SparkRegistry';
 import { GeminiService } from '../services/GeminiService';
 import { GeminiApiKeyModal } from '../components/GeminiApiKeyModal';
+import { BackupService, RestoreMode } from '../services/BackupService';
+import { StorageUsageService, StorageReport, SparkStorageUsage } from '../services/StorageUsageService';
+import { formatBytes } from '../utils/storageUsage';
+import { useSettingsStore, FontSizePreference } from '../store/settingsStore';
+import { FontScales, scaleFontSize } from '../styles/StyleTokens';
+import { useTranslation, LANGUAGE_NAMES, SPEECH_LOCALE_NAMES } from '../i18n';
+import { AppLanguage } from '../types/i18n';
 
 export const SettingsScreen: React.FC = () => {
-  const { colors } = useTheme();
+  const { colors, scaleFont } = useTheme();
   const insets = useSafeAreaInsets();
+  const { t, language } = useTranslation();
+  const setLanguage = useSettingsStore(state => state.setLanguage);
+  const voiceLocale = useSettingsStore(state => state.voiceLocale);
+  const setVoiceLocale = useSettingsStore(state => state.setVoiceLocale);
+  const fontSize = useSettingsStore(state => state.fontSize);
+  const setFontSize = useSettingsStore(state => state.setFontSize);
 
   const {
     sparkData,
@@ -91,6 +108,13 @@ export const SettingsScreen: React.FC = () => {
   // Gemini API Key state
   const [showApiKeyModal, setShowApiKeyModal] = useState(false);
 
+  // Backup state
+  const [isBackingUp, setIsBackingUp] = useState(false);
+
+  // Storage report state
+  const [storageReport, setStorageReport] = useState<StorageReport | null>(null);
+  const [isMeasuringStorage, setIsMeasuringStorage] = useState(false);
+
   // Initialize analytics service
   useEffect(() => {
     const initializeAnalytics = async () => {
@@ -144,12 +168,12 @@ export const SettingsScreen: React.FC = () => {
 
   const handleResetAllData = () => {
     Alert.alert(
-      "Reset All Data",
-      "This will permanently delete all your spark progress, scores, and preferences. This action cannot be undone.",
+      t('settings.danger.resetTitle'),
+      t('settings.danger.resetMessage'),
       [
-        { text: "Cancel", style: "cancel" },
+        { text: t('common.cancel'), style: "cancel" },
         {
-          text: "Reset",
+          text: t('settings.danger.resetConfirm'),
           style: "destructive",
           onPress: () => {
             // Clear all spark data
@@ -168,7 +192,7 @@ export const SettingsScreen: React.FC = () => {
               dailyNotificationsEnabled: false
             });
 
-            Alert.alert("Success", "All data has been reset.");
+            Alert.alert(t('settings.danger.resetDoneTitle'), t('settings.danger.resetDone'));
           }
         }
       ]
@@ -176,6 +200,108 @@ export const SettingsScreen: React.FC = () => {
   };
 
 
+  const handleExportBackup = async () => {
+    HapticFeedback.light();
+    setIsBackingUp(true);
+    try {
+      await BackupService.exportBackupFile();
+    } catch (error: any) {
+      console.error('Backup export failed:', error);
+      Alert.alert(t('settings.backup.exportFailed'), error.message || t('settings.backup.exportFailedMessage'));
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const runRestore = async (mode: RestoreMode) => {
+    setIsBackingUp(true);
+    try {
+      const summary = await BackupService.importBackupFile(mode);
+      if (summary) {
+        HapticFeedback.success();
+        Alert.alert(t('settings.backup.restoreComplete'), t('settings.backup.restoreSummary', { ...summary }));
+      }
+    } catch (error: any) {
+      console.error('Backup restore failed:', error);
+      Alert.alert(t('settings.backup.restoreFailed'), error.message || t('settings.backup.restoreFailedMessage'));
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const handleRestoreBackup = () => {
+    HapticFeedback.light();
+    Alert.alert(
+      t('settings.backup.restoreTitle'),
+      t('settings.backup.restoreMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('settings.backup.merge'), onPress: () => runRestore('merge') },
+        { text: t('settings.backup.replace'), style: 'destructive', onPress: () => runRestore('replace') },
+      ]
+    );
+  };
+
+  const loadStorageReport = async () => {
+    setIsMeasuringStorage(true);
+    try {
+      setStorageReport(await StorageUsageService.getReport());
+    } catch (error: any) {
+      console.error('Storage report failed:', error);
+      Alert.alert(t('settings.storage.reportFailed'), error.message || t('settings.storage.reportFailedMessage'));
+    } finally {
+      setIsMeasuringStorage(false);
+    }
+  };
+
+  const handleClearSparkCache = (usage: SparkStorageUsage) => {
+    HapticFeedback.light();
+    Alert.alert(
+      t('settings.storage.clearCache'),
+      t('settings.storage.clearCacheMessage', { title: usage.title }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('settings.storage.clear'),
+          style: 'destructive',
+          onPress: async () => {
+            StorageUsageService.clearCache(usage.sparkId);
+            await loadStorageReport();
+          },
+        },
+      ]
+    );
+  };
+
+  const handleRemoveOrphans = (usage: SparkStorageUsage) => {
+    HapticFeedback.light();
+    const orphanBytes = usage.orphanedFiles.reduce((sum, file) => sum + file.bytes, 0);
+    Alert.alert(
+      t('settings.storage.removeOrphansTitle'),
+      t('settings.storage.removeOrphansMessage', {
+        count: usage.orphanedFiles.length,
+        title: usage.title,
+        size: formatBytes(orphanBytes),
+      }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            const removed = await StorageUsageService.removeOrphanedFiles(usage.sparkId);
+            HapticFeedback.success();
+            Alert.alert(
+              t('settings.storage.filesRemoved'),
+              t('settings.storage.filesRemovedMessage', { count: removed.count, size: formatBytes(removed.bytes) })
+            );
+            await loadStorageReport();
+          },
+        },
+      ]
+    );
+  };
+
   // Spark management functions
   const handleMoveUp = (index: number) => {
     if (index > 0) {
@@ -193,12 +319,12 @@ export const SettingsScreen: React.FC = () => {
 
   const handleRemoveSpark = (sparkId: string, sparkName: string) => {
     Alert.alert(
-      'Remove Spark',
-      `Are you sure you want to remove "${sparkName}" from your collection?`,
+      t('settings.mySparks.removeTitle'),
+      t('settings.mySparks.removeMessage', { name: sparkName }),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         {
-          text: 'Remove',
+          text: t('common.remove'),
           style: 'destructive',
           onPress: () => {
             removeSparkFromUser(sparkId);
@@ -254,15 +380,15 @@ export const SettingsScreen: React.FC = () => {
     }
   };
 
-  const styles = createStyles(colors, insets);
+  const styles = createStyles(colors, insets, scaleFont);
 
   return (
     <View style={styles.container}>
       <SettingsScrollView onRefresh={handleRefresh} refreshing={refreshing}>
         <View style={styles.header}>
-          <Text style={styles.title}>⚙️ Settings</Text>
+          <Text style={styles.title}>{t('settings.title')}</Text>
           <Text style={styles.subtitle}>
-            Customize your Sparks experience • v{Constants.expoConfig?.version || '1.0.0'}
+            {t('settings.subtitle', { version: Constants.expoConfig?.version || '1.0.0' })}
           </Text>
         </View>
 
@@ -273,15 +399,24 @@ export const SettingsScreen: React.FC = () => {
         {/* Account Section */}
         <AccountSettingsSection />
 
+        {/* Private Sparks Section */}
+        <PrivacyLockSettingsSection />
+
+        {/* Automations Section */}
+        <AutomationSettingsSection />
+
+        {/* Trash Section */}
+        <TrashSettingsSection />
+
         {/* Gemini API Key Section */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>🤖 AI Configuration</Text>
+          <Text style={styles.sectionTitle}>{t('settings.ai.title')}</Text>
 
           <View style={styles.settingItem}>
             <View style={styles.settingInfo}>
-              <Text style={styles.settingLabel}>Gemini API Key</Text>
+              <Text style={styles.settingLabel}>{t('settings.ai.keyLabel')}</Text>
               <Text style={styles.settingDescription}>
-                {preferences.customGeminiApiKey ? 'Using custom key' : 'Using default Sparks key'}
+                {preferences.customGeminiApiKey ? t('settings.ai.customKey') : t('settings.ai.defaultKey')}
               </Text>
             </View>
             <TouchableOpacity
@@ -291,13 +426,12 @@ export const SettingsScreen: React.FC = () => {
                 HapticFeedback.light();
               }}
             >
-              <Text style={styles.smallActionButtonText}>Configure</Text>
+              <Text style={styles.smallActionButtonText}>{t('settings.ai.configure')}</Text>
             </TouchableOpacity>
           </View>
 
           <Text style={[styles.sectionDescription, { color: colors.textSecondary, marginTop: 8 }]}>
-            Sparks uses Google's Gemini AI for features like RecAIpe and Minute Minder.
-            By default, we provide a shared API key. You can add your own key to avoid rate limits.
+            {t('settings.ai.description')}
           </Text>
         </View>
 
@@ -615,12 +749,12 @@ export const SettingsScreen: React.FC = () => {
         )}
 
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Experience</Text>
+          <Text style={styles.sectionTitle}>{t('settings.experience.title')}</Text>
 
           <View style={styles.settingItem}>
             <View style={styles.settingInfo}>
-              <Text style={styles.settingLabel}>Haptic Feedback</Text>
-              <Text style={styles.settingDescription}>Feel vibrations on interactions</Text>
+              <Text style={styles.settingLabel}>{t('settings.experience.haptics')}</Text>
+              <Text style={styles.settingDescription}>{t('settings.experience.hapticsDescription')}</Text>
             </View>
             <Switch
               value={preferences.hapticsEnabled}
@@ -635,8 +769,8 @@ export const SettingsScreen: React.FC = () => {
 
           <View style={styles.settingItem}>
             <View style={styles.settingInfo}>
-              <Text style={styles.settingLabel}>Sound Effects</Text>
-              <Text style={styles.settingDescription}>Play audio feedback</Text>
+              <Text style={styles.settingLabel}>{t('settings.experience.sound')}</Text>
+              <Text style={styles.settingDescription}>{t('settings.experience.soundDescription')}</Text>
             </View>
             <Switch
               value={preferences.soundEnabled}
@@ -649,26 +783,99 @@ export const SettingsScreen: React.FC = () => {
             />
           </View>
 
+          <View style={styles.choiceSetting}>
+            <Text style={styles.settingLabel}>{t('settings.experience.textSize')}</Text>
+            <Text style={styles.settingDescription}>{t('settings.experience.textSizeDescription')}</Text>
+            <View style={styles.choiceRow}>
+              {(Object.keys(FontScales) as FontSizePreference[]).map(size => (
+                <TouchableOpacity
+                  key={size}
+                  style={[styles.choiceChip, fontSize === size && { backgroundColor: colors.primary, borderColor: colors.primary }]}
+                  onPress={() => {
+                    HapticFeedback.light();
+                    setFontSize(size);
+                  }}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: fontSize === size }}
+                >
+                  {/* Each option previews its own size */}
+                  <Text style={[styles.choiceChipText, { fontSize: scaleFontSize(14, FontScales[size]) }, fontSize === size && { color: colors.background }]}>
+                    {t(`settings.experience.textSizes.${size}`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <View style={styles.choiceSetting}>
+            <Text style={styles.settingLabel}>{t('settings.experience.language')}</Text>
+            <Text style={styles.settingDescription}>{t('settings.experience.languageDescription')}</Text>
+            <View style={styles.choiceRow}>
+              {(Object.keys(LANGUAGE_NAMES) as AppLanguage[]).map(code => (
+                <TouchableOpacity
+                  key={code}
+                  style={[styles.choiceChip, language === code && { backgroundColor: colors.primary, borderColor: colors.primary }]}
+                  onPress={() => {
+                    HapticFeedback.light();
+                    setLanguage(code);
+                  }}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: language === code }}
+                >
+                  <Text style={[styles.choiceChipText, language === code && { color: colors.background }]}>
+                    {LANGUAGE_NAMES[code]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <View style={styles.choiceSetting}>
+            <Text style={styles.settingLabel}>{t('settings.experience.voiceLanguage')}</Text>
+            <Text style={styles.settingDescription}>{t('settings.experience.voiceLanguageDescription')}</Text>
+            <View style={styles.choiceRow}>
+              {[null, ...Object.keys(SPEECH_LOCALE_NAMES)].map(locale => (
+                <TouchableOpacity
+                  key={locale ?? 'app'}
+                  style={[styles.choiceChip, voiceLocale === locale && { backgroundColor: colors.primary, borderColor: colors.primary }]}
+                  onPress={() => {
+                    HapticFeedback.light();
+                    setVoiceLocale(locale);
+                  }}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: voiceLocale === locale }}
+                >
+                  <Text style={[styles.choiceChipText, voiceLocale === locale && { color: colors.background }]}>
+                    {locale ? SPEECH_LOCALE_NAMES[locale] : t('settings.experience.voiceSameAsApp')}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
         </View>
 
+        {/* Theme Section */}
+        <ThemeSettingsSection />
+
         {/* Spark Management Section */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
-            <Text style={styles.sectionTitle}>My Sparks</Text>
+            <Text style={styles.sectionTitle}>{t('settings.mySparks.title')}</Text>
             {userSparkIds.length > 1 && (
               <TouchableOpacity
                 style={[styles.reorderButton, { backgroundColor: isReordering ? colors.primary : colors.secondary }]}
                 onPress={() => setIsReordering(!isReordering)}
               >
                 <Text style={[styles.reorderButtonText, { color: colors.background }]}>
-                  {isReordering ? 'Done' : 'Reorder'}
+                  {isReordering ? t('common.done') : t('settings.mySparks.reorder')}
                 </Text>
               </TouchableOpacity>
             )}
           </View>
 
           {userSparkIds.length === 0 ? (
-            <Text style={styles.emptyText}>No sparks in your collection yet</Text>
+            <Text style={styles.emptyText}>{t('settings.mySparks.empty')}</Text>
           ) : (
             <View style={styles.sparkList}>
               {userSparkIds.map((sparkId, index) => {
@@ -712,7 +919,7 @@ export const SettingsScreen: React.FC = () => {
                         style={[styles.removeButton, { backgroundColor: colors.error }]}
                         onPress={() => handleRemoveSpark(sparkId, spark.metadata.title)}
                       >
-                        <Text style={[styles.removeButtonText, { color: colors.background }]}>Remove</Text>
+                        <Text style={[styles.removeButtonText, { color: colors.background }]}>{t('common.remove')}</Text>
                       </TouchableOpacity>
                     </View>
                   </View>
@@ -723,17 +930,125 @@ export const SettingsScreen: React.FC = () => {
         </View>
 
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Danger Zone</Text>
+          <Text style={styles.sectionTitle}>{t('settings.backup.title')}</Text>
+
+          <Text style={[styles.sectionDescription, { color: colors.textSecondary }]}>
+            {t('settings.backup.description')}
+          </Text>
+
+          <TouchableOpacity
+            style={[styles.actionButton, { opacity: isBackingUp ? 0.5 : 1 }]}
+            onPress={handleExportBackup}
+            disabled={isBackingUp}
+          >
+            <Text style={styles.actionButtonText}>{t('settings.backup.export')}</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.actionButton, { backgroundColor: colors.secondary, opacity: isBackingUp ? 0.5 : 1 }]}
+            onPress={handleRestoreBackup}
+            disabled={isBackingUp}
+          >
+            <Text style={styles.actionButtonText}>{t('settings.backup.restore')}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('settings.storage.title')}</Text>
+
+          <Text style={[styles.sectionDescription, { color: colors.textSecondary }]}>
+            {t('settings.storage.description')}
+          </Text>
+
+          <TouchableOpacity
+            style={[styles.actionButton, { opacity: isMeasuringStorage ? 0.5 : 1 }]}
+            onPress={() => {
+              HapticFeedback.light();
+              loadStorageReport();
+            }}
+            disabled={isMeasuringStorage}
+          >
+            <Text style={styles.actionButtonText}>
+              {isMeasuringStorage
+                ? t('settings.storage.measuring')
+                : storageReport ? t('settings.storage.refresh') : t('settings.storage.show')}
+            </Text>
+          </TouchableOpacity>
+
+          {storageReport && (
+            <View style={styles.sparkList}>
+              <Text style={[styles.sectionDescription, { color: colors.textSecondary, marginBottom: 0 }]}>
+                {t('settings.storage.total', {
+                  total: formatBytes(storageReport.totalBytes),
+                  data: formatBytes(storageReport.storeBytes),
+                })}
+              </Text>
+              {storageReport.sparks.map(usage => (
+                <View key={usage.sparkId} style={styles.sparkCard}>
+                  <View style={styles.sparkCardContent}>
+                    <View style={styles.sparkIconContainer}>
+                      <Text style={styles.sparkIcon}>{usage.icon}</Text>
+                    </View>
+                    <View style={styles.sparkInfo}>
+                      <Text style={styles.sparkTitle}>{usage.title} · {formatBytes(usage.totalBytes)}</Text>
+                      <Text style={styles.sparkDescription}>
+                        {t('settings.storage.data', { size: formatBytes(usage.dataBytes) })}
+                        {usage.cacheBytes > 0 ? ` · ${t('settings.storage.cache', { size: formatBytes(usage.cacheBytes) })}` : ''}
+                        {usage.fileCount > 0
+                          ? ` · ${t('settings.storage.files', { count: usage.fileCount, size: formatBytes(usage.fileBytes) })}`
+                          : ''}
+                      </Text>
+                      {usage.orphanedFiles.length > 0 && (
+                        <Text style={styles.sparkDescription}>
+                          {t('settings.storage.orphanedFiles', { count: usage.orphanedFiles.length })}
+                        </Text>
+                      )}
+                      {usage.missingFiles.length > 0 && (
+                        <Text style={styles.sparkDescription}>
+                          {t('settings.storage.missingFiles', { count: usage.missingFiles.length })}
+                        </Text>
+                      )}
+                    </View>
+                  </View>
+
+                  {(usage.cacheBytes > 0 || usage.orphanedFiles.length > 0) && (
+                    <View style={[styles.sparkActions, { justifyContent: 'flex-end', gap: 8 }]}>
+                      {usage.cacheBytes > 0 && (
+                        <TouchableOpacity
+                          style={[styles.removeButton, { backgroundColor: colors.secondary }]}
+                          onPress={() => handleClearSparkCache(usage)}
+                        >
+                          <Text style={[styles.removeButtonText, { color: colors.background }]}>{t('settings.storage.clearCache')}</Text>
+                        </TouchableOpacity>
+                      )}
+                      {usage.orphanedFiles.length > 0 && (
+                        <TouchableOpacity
+                          style={[styles.removeButton, { backgroundColor: colors.error }]}
+                          onPress={() => handleRemoveOrphans(usage)}
+                        >
+                          <Text style={[styles.removeButtonText, { color: colors.background }]}>{t('settings.storage.removeOrphans')}</Text>
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                  )}
+                </View>
+              ))}
+            </View>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('settings.danger.title')}</Text>
 
           <TouchableOpacity
             style={[styles.actionButton, styles.dangerButton]}
             onPress={handleResetAllData}
           >
-            <Text style={[styles.actionButtonText, styles.dangerText]}>🗑️ Reset All Data</Text>
+            <Text style={[styles.actionButtonText, styles.dangerText]}>{t('settings.danger.reset')}</Text>
           </TouchableOpacity>
 
           <Text style={styles.dangerWarning}>
-            This will permanently delete all your progress, scores, and preferences.
+            {t('settings.danger.warning')}
           </Text>
         </View>
 
@@ -803,7 +1118,7 @@ export const SettingsScreen: React.FC = () => {
   );
 };
 
-const createStyles = (colors: any, insets: { top: number }) => StyleSheet.create({
+const createStyles = (colors: any, insets: { top: number }, scaleFont: (size: number) => number) => StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: colors.background,
@@ -814,13 +1129,13 @@ const createStyles = (colors: any, insets: { top: number }) => StyleSheet.create
     paddingTop: Math.max(insets.top, 20), // Consistent dynamic top inset
   },
   title: {
-    fontSize: 28,
+    fontSize: scaleFont(28),
     fontWeight: 'bold',
     color: colors.text,
     marginBottom: 8,
   },
   subtitle: {
-    fontSize: 16,
+    fontSize: scaleFont(16),
     color: colors.textSecondary,
     textAlign: 'center',
   },
@@ -839,7 +1154,7 @@ const createStyles = (colors: any, insets: { top: number }) => StyleSheet.create
     elevation: 3,
   },
   sectionTitle: {
-    fontSize: 20,
+    fontSize: scaleFont(20),
     fontWeight: 'bold',
     color: colors.text,
     marginBottom: 15,
@@ -857,15 +1172,35 @@ const createStyles = (colors: any, insets: { top: number }) => StyleSheet.create
     marginRight: 15,
   },
   settingLabel: {
-    fontSize: 16,
+    fontSize: scaleFont(16),
     fontWeight: '600',
     color: colors.text,
     marginBottom: 2,
   },
   settingDescription: {
-    fontSize: 14,
+    fontSize: scaleFont(14),
     color: colors.textSecondary,
   },
+  choiceSetting: {
+    paddingVertical: 12,
+  },
+  choiceRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  choiceChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  choiceChipText: {
+    fontSize: scaleFont(14),
+    color: colors.text,
+  },
   actionButton: {
     backgroundColor: colors.primary,
     paddingVertical: 12,
@@ -882,7 +1217,7 @@ const createStyles = (colors: any, insets: { top: number }) => StyleSheet.create
   },
   actionButtonText: {
     color: '#fff',
-    fontSize: 16,
+    fontSize: scaleFont(16),
     fontWeight: '600',
   },
   smallActionButton: {
@@ -894,7 +1229,7 @@ const createStyles = (colors: any, insets: { top: number }) => StyleSheet.create
   },
   smallActionButtonText: {
     color: '#fff',
-    fontSize: 14,
+    fontSize: scaleFont(14),
     fontWeight: '600',
   },
   adminBadge: {
@@ -908,7 +1243,7 @@ const createStyles = (colors: any, insets: { top: number }) => StyleSheet.create
   },
   adminBadgeText: {
     color: '#fff',
-    fontSize: 12,
+    fontSize: scaleFont(12),
     fontWeight: '600',
   },
   dangerButton: {
@@ -918,7 +1253,7 @@ const createStyles = (colors: any, insets: { top: number }) => StyleSheet.create
     color: '#fff',
   },
   dangerWarning: {
-    fontSize: 12,
+    fontSize: scaleFont(12),
     color: colors.error,
     textAlign: 'center',
     marginTop: 8,
@@ -938,11 +1273,11 @@ const createStyles = (colors: any, insets: { top: number }) => StyleSheet.create
     borderRadius: 6,
   },
   reorderButtonText: {
-    fontSize: 14,
+    fontSize: scaleFont(14),
     fontWeight: '600',
   },
   emptyText: {
-    fontSize: 16,
+    fontSize: scaleFont(16),
     color: colors.textSecondary,
     textAlign: 'center',
     fontStyle: 'italic',
@@ -968,19 +1303,19 @@ const createStyles = (colors: any, insets: { top: number }) => StyleSheet.create
     marginRight: 12,
   },
   sparkIcon: {
-    fontSize: 24,
+    fontSize: scaleFont(24),
   },
   sparkInfo: {
     flex: 1,
   },
   sparkTitle: {
-    fontSize: 16,
+    fontSize: scaleFont(16),
     fontWeight: '600',
     color: colors.text,
     marginBottom: 4,
   },
   sparkDescription: {
-    fontSize: 14,
+    fontSize: scaleFont(14),
     color: colors.textSecondary,
     lineHeight: 18,
   },
@@ -999,11 +1334,11 @@ const createStyles = (colors: any, insets: { top: number }) => StyleSheet.create
     borderRadius: 6,
   },
   removeButtonText: {
-    fontSize: 14,
+    fontSize: scaleFont(14),
     fontWeight: '600',
   },
   debugText: {
-    fontSize: 14,
+    fontSize: scaleFont(14),
     color: colors.text,
     marginBottom: 8,
     fontFamily: 'monospace',
@@ -1016,12 +1351,12 @@ const createStyles = (colors: any, insets: { top: number }) => StyleSheet.create
   },
   debugButtonText: {
     color: '#fff',
-    fontSize: 14,
+    fontSize: scaleFont(14),
     fontWeight: '600',
     textAlign: 'center',
   },
   sectionDescription: {
-    fontSize: 14,
+    fontSize: scaleFont(14),
     marginBottom: 16,
     lineHeight: 20,
   },
@@ -1033,24 +1368,24 @@ const createStyles = (colors: any, insets: { top: number }) => StyleSheet.create
     alignItems: 'center',
   },
   linkButtonText: {
-    fontSize: 16,
+    fontSize: scaleFont(16),
     fontWeight: '600',
   },
   apiKeyContainer: {
     marginTop: 8,
   },
   inputLabel: {
-    fontSize: 16,
+    fontSize: scaleFont(16),
     fontWeight: '600',
     marginBottom: 8,
   },
   inputHint: {
-    fontSize: 12,
+    fontSize: scaleFont(12),
     marginBottom: 12,
     lineHeight: 16,
   },
   loadingText: {
-    fontSize: 14,
+    fontSize: scaleFont(14),
     padding: 12,
     textAlign: 'center',
   },
@@ -1058,7 +1393,7 @@ const createStyles = (colors: any, insets: { top: number }) => StyleSheet.create
     borderWidth: 1,
     borderRadius: 8,
     padding: 12,
-    fontSize: 16,
+    fontSize: scaleFont(16),
     marginBottom: 12,
   },
   apiKeyActions: {
@@ -1073,7 +1408,7 @@ const createStyles = (colors: any, insets: { top: number }) => StyleSheet.create
   },
   apiKeyButtonText: {
     color: '#fff',
-    fontSize: 16,
+    fontSize: scaleFont(16),
     fontWeight: '600',
   },
 });
\ No newline at end of file
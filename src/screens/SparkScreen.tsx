@@ -1,18 +1,27 @@
 import React, { useEffect, useState } from "react";
 import { StackNavigationProp } from "@react-navigation/stack";
 import { RouteProp } from "@react-navigation/native";
-import { View, Text, TouchableOpacity, StyleSheet } from "react-native";
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator, Alert } from "react-native";
 import { SafeAreaView, useSafeAreaInsets } from "react-native-safe-area-context";
 import {
   MySparkStackParamList,
   MarketplaceStackParamList,
 } from "../types/navigation";
 import { getSparkById } from "../components/SparkRegistry";
-import { useSparkStore, useAppStore } from "../store";
+import { useSparkStore, useAppStore, useProfileStore, useSecurityStore } from "../store";
 import { HapticFeedback } from "../utils/haptics";
-import { useTheme } from "../contexts/ThemeContext";
+import { useTheme, SparkThemeProvider } from "../contexts/ThemeContext";
 import { QuickSwitchModal } from "../components/QuickSwitchModal";
 import { NotificationBadge } from "../components/NotificationBadge";
+import { CommandExecutor } from "../services/CommandExecutor";
+import { ParsedCommand } from "../services/GeminiCommandParser";
+import { isDeepLinkAction } from "../navigation/linking";
+import { SparkLockService } from "../services/SparkLockService";
+import { SparkLockScreen } from "../components/SparkLockScreen";
+import { PermissionCheck, SparkPermissionService } from "../services/SparkPermissionService";
+import { SparkPermissionScreen } from "../components/SparkPermissionScreen";
+import { getManifestCapabilities } from "../utils/sparkManifest";
+import { useSparkComponent } from "../components/sparkComponentLoader";
 
 type SparkScreenNavigationProp =
   | StackNavigationProp<MySparkStackParamList, "Spark">
@@ -21,24 +30,23 @@ type SparkScreenRouteProp =
   | RouteProp<MySparkStackParamList, "Spark">
   | RouteProp<MarketplaceStackParamList, "Spark">;
 
+// How often an open private spark checks whether it has been idle too long
+const LOCK_CHECK_INTERVAL_MS = 15000;
+
 interface Props {
   navigation: SparkScreenNavigationProp;
   route: SparkScreenRouteProp;
 }
 
 export const SparkScreen: React.FC<Props> = ({ navigation, route }) => {
-  // Destructure sparkId and any other params (like autoRecord)
-  const { sparkId, ...otherParams } = route.params;
+  // Destructure sparkId, deep link action and any other params (like autoRecord)
+  const { sparkId, action, ...otherParams } = route.params;
+  const pendingAction = isDeepLinkAction(action) ? action : undefined;
 
-  // Debug: log sparkId and SparkComponent at render
+  // Debug: log sparkId at render
   // This will help confirm which spark is being rendered
   const spark = getSparkById(sparkId);
-  console.log(
-    "[SparkScreen] Render: sparkId =",
-    sparkId,
-    "SparkComponent =",
-    spark?.component?.name || spark?.component
-  );
+  console.log("[SparkScreen] Render: sparkId =", sparkId);
 
   const updateSparkProgress = useSparkStore(state => state.updateSparkProgress);
   const isUserSpark = useSparkStore(state => state.isUserSpark);
@@ -110,6 +118,18 @@ export const SparkScreen: React.FC<Props> = ({ navigation, route }) => {
       color: colors.textSecondary,
       textAlign: "center",
     },
+    retryButton: {
+      marginTop: 16,
+      paddingVertical: 10,
+      paddingHorizontal: 24,
+      borderRadius: 8,
+      backgroundColor: colors.primary,
+    },
+    retryText: {
+      fontSize: 16,
+      fontWeight: "600",
+      color: colors.background,
+    },
     buttonsContainer: {
       flexDirection: "row",
       paddingHorizontal: 16,
@@ -217,6 +237,48 @@ export const SparkScreen: React.FC<Props> = ({ navigation, route }) => {
   const isInUserCollection = useSparkStore((state) =>
     state.userSparkIds.includes(sparkId)
   );
+  const dataRevision = useSparkStore((state) =>
+    state.sparkDataRevisions[sparkId] || 0
+  );
+  const activeProfileId = useProfileStore((state) => state.activeProfileId);
+
+  // Private sparks stay behind the lock screen until unlocked and lock again when idle
+  const isPrivate = useSecurityStore((state) => state.privateSparkIds.includes(sparkId));
+  const lastActivityAt = useSecurityStore((state) => state.lastActivityAt);
+  const [lockCheckedAt, setLockCheckedAt] = useState(Date.now());
+  useEffect(() => {
+    setLockCheckedAt(Date.now());
+    if (!isPrivate || lastActivityAt === null) return;
+    const timer = setInterval(() => setLockCheckedAt(Date.now()), LOCK_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isPrivate, lastActivityAt]);
+  const isLocked = SparkLockService.isSparkLocked(sparkId, lockCheckedAt);
+
+  // Ask for the permissions the spark declares before it mounts, so it doesn't have to
+  const declaresCapabilities = getManifestCapabilities(spark?.metadata.manifest).length > 0;
+  const [permissionCheck, setPermissionCheck] = useState<PermissionCheck | null>(null);
+  const [isCheckingPermissions, setIsCheckingPermissions] = useState(declaresCapabilities);
+  useEffect(() => {
+    setPermissionCheck(null);
+    if (!declaresCapabilities || SparkPermissionService.isSkipped(sparkId)) {
+      setIsCheckingPermissions(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsCheckingPermissions(true);
+    SparkPermissionService.checkSpark(sparkId).then((check) => {
+      if (cancelled) return;
+      setPermissionCheck(check.missing.length > 0 ? check : null);
+      setIsCheckingPermissions(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [sparkId, declaresCapabilities]);
+
+  // The spark's code is loaded the first time it is opened
+  const { component: SparkComponent, error: loadError, retry: retryLoad } = useSparkComponent(spark);
 
   useEffect(() => {
     setCurrentSparkId(sparkId);
@@ -251,6 +313,67 @@ export const SparkScreen: React.FC<Props> = ({ navigation, route }) => {
     };
   }, [sparkId, spark, setCurrentSparkId, updateSparkProgress, addRecentSpark]);
 
+  // Deep link actions (e.g. sparks://spark/todo/add?text=...) go through the
+  // same path as voice commands. Any app or web page can open a link, so the
+  // user confirms before it changes data. The spark is mounted only after the
+  // action finishes so it loads the updated data.
+  useEffect(() => {
+    if (!pendingAction || !spark) return;
+
+    const { showSettings, ...actionParams } = otherParams;
+    const command: ParsedCommand = {
+      targetSpark: sparkId as ParsedCommand["targetSpark"],
+      action: pendingAction,
+      params: actionParams,
+      confidence: 1,
+      originalText: `link: ${sparkId}/${pendingAction}`,
+    };
+
+    let cancelled = false;
+
+    // Clear the action and its params so they don't run again or reach the spark
+    const clearAction = () => {
+      if (cancelled) return;
+      const cleared: Record<string, undefined> = { action: undefined };
+      Object.keys(actionParams).forEach((key) => {
+        cleared[key] = undefined;
+      });
+      navigation.setParams(cleared as any);
+    };
+
+    const runAction = () => {
+      CommandExecutor.execute(command).then((result) => {
+        if (cancelled) return;
+        clearAction();
+
+        if (result.success) {
+          HapticFeedback.success();
+        } else {
+          HapticFeedback.error();
+        }
+        Alert.alert(result.success ? "Done" : "Link Failed", result.message);
+      });
+    };
+
+    const details = Object.values(actionParams)
+      .filter((value) => value !== undefined && value !== "")
+      .map((value) => `"${value}"`)
+      .join(", ");
+    Alert.alert(
+      "Run Link?",
+      `A link wants to ${pendingAction} ${details ? `${details} ` : ""}in ${spark.metadata.title}.`,
+      [
+        { text: "Cancel", style: "cancel", onPress: clearAction },
+        { text: "Allow", onPress: runAction },
+      ],
+      { cancelable: true, onDismiss: clearAction }
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pendingAction, sparkId, spark]);
+
   const handleClose = () => {
     HapticFeedback.light();
     (navigation as any).navigate("MySparks", {
@@ -281,35 +404,74 @@ export const SparkScreen: React.FC<Props> = ({ navigation, route }) => {
     );
   }
 
-  // At this point we know `spark` is defined
-  const SparkComponent = spark.component as React.ComponentType<any>;
+  // Remount the spark when it is reopened at a different item (search result or link)
+  // or when undo/redo or a profile switch replaced its data, so it reloads from the store
+  const sparkInstanceKey = Object.entries(otherParams)
+    .filter(([key, value]) => key !== "showSettings" && value !== undefined)
+    .map(([key, value]) => `${key}=${value}`)
+    .concat(`revision=${dataRevision}`, `profile=${activeProfileId}`)
+    .join("&");
 
   return (
     <SafeAreaView style={styles.container} edges={["top", "left", "right"]}>
-      <View style={{ flex: 1 }}>
-        <SparkErrorBoundary>
-          <SparkComponent
-            {...({
-              ...otherParams, // Pass forwarded params (e.g., autoRecord from SpeakSpark quick launch)
-              showSettings: showSparkSettings,
-              settingsInitialTab: settingsFocus,
-              openCourseSelectionSignal: openCourseSelectionSignal,
-              onCloseSettings: () => {
-                navigation.setParams({ showSettings: false } as any);
-                setSettingsFocus(undefined);
-              },
-              onStateChange: handleStateChange,
-              onComplete: (result: any) => {
-                // Handle spark completion
-                console.log("Spark completed:", result);
-                updateSparkProgress(sparkId, {
-                  completionPercentage: 100,
-                  customData: result,
-                });
-              },
-            } as any)}
+      <View
+        style={{ flex: 1 }}
+        onTouchStart={isPrivate ? () => SparkLockService.touch() : undefined}
+      >
+        {isLocked ? (
+          <SparkLockScreen sparkTitle={spark.metadata.title} sparkIcon={spark.metadata.icon} />
+        ) : pendingAction || isCheckingPermissions ? (
+          <View style={styles.errorContainer}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        ) : permissionCheck && spark.metadata.manifest ? (
+          <SparkPermissionScreen
+            sparkId={sparkId}
+            sparkTitle={spark.metadata.title}
+            sparkIcon={spark.metadata.icon}
+            manifest={spark.metadata.manifest}
+            permissionCheck={permissionCheck}
+            onDone={(check) => setPermissionCheck(check.missing.length > 0 ? check : null)}
           />
-        </SparkErrorBoundary>
+        ) : loadError ? (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>Couldn't load {spark.metadata.title}</Text>
+            <Text style={styles.errorDetail}>Check your connection and try again.</Text>
+            <TouchableOpacity style={styles.retryButton} onPress={retryLoad}>
+              <Text style={styles.retryText}>Try Again</Text>
+            </TouchableOpacity>
+          </View>
+        ) : !SparkComponent ? (
+          <View style={styles.errorContainer}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        ) : (
+          <SparkThemeProvider sparkId={sparkId}>
+            <SparkErrorBoundary key={sparkInstanceKey}>
+              <SparkComponent
+                {...({
+                  ...otherParams, // Pass forwarded params (e.g., autoRecord from SpeakSpark quick launch)
+                  showSettings: showSparkSettings,
+                  settingsInitialTab: settingsFocus,
+                  openCourseSelectionSignal: openCourseSelectionSignal,
+                  onCloseSettings: () => {
+                    navigation.setParams({ showSettings: false } as any);
+                    setSettingsFocus(undefined);
+                  },
+                  onStateChange: handleStateChange,
+                  onComplete: (result: any) => {
+                    // Handle spark completion
+                    console.log("Spark completed:", result);
+                    updateSparkProgress(sparkId, {
+                      completionPercentage: 100,
+                      customData: result,
+                    });
+                  },
+                } as any)}
+              />
+            </SparkErrorBoundary>
+          </SparkThemeProvider>
+        )}
       </View>
     </SafeAreaView>
   );
@@ -1,12 +1,13 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { ScrollView, View, Text, TouchableOpacity, StyleSheet, Image } from 'react-native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { MySparkStackParamList } from '../types/navigation';
 import { getAllSparks, getSparkById } from '../components/SparkRegistry';
-import { useSparkStore } from '../store';
+import { useSparkStore, useProfileStore } from '../store';
 import { useTheme } from '../contexts/ThemeContext';
 import { HapticFeedback } from '../utils/haptics';
 import { NotificationBadge } from '../components/NotificationBadge';
+import { ProfileSwitcherModal } from '../components/ProfileSwitcherModal';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 type SparkSelectionNavigationProp = StackNavigationProp<MySparkStackParamList, 'MySparksList'>;
@@ -24,6 +25,10 @@ export const SparkSelectionScreen: React.FC<Props> = ({ navigation }) => {
   const insets = useSafeAreaInsets();
   const styles = React.useMemo(() => getStyles(colors, insets), [colors, insets]);
   const userSparkIds = getUserSparks();
+  const activeProfile = useProfileStore(state =>
+    state.profiles.find(p => p.id === state.activeProfileId) || state.profiles[0]
+  );
+  const [showProfiles, setShowProfiles] = useState(false);
 
   // Filter to only show user's sparks
   const userSparks = userSparkIds.map(sparkId => getSparkById(sparkId)).filter(Boolean);
@@ -33,6 +38,17 @@ export const SparkSelectionScreen: React.FC<Props> = ({ navigation }) => {
       <View style={styles.header}>
         <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
           <Text style={styles.title}>My Sparks</Text>
+          <TouchableOpacity
+            style={styles.profileChip}
+            onPress={() => {
+              HapticFeedback.light();
+              setShowProfiles(true);
+            }}
+            accessibilityRole="button"
+            accessibilityLabel={`Profile: ${activeProfile.name}. Switch profile`}
+          >
+            <Text style={styles.profileChipText}>{activeProfile.emoji} {activeProfile.name}</Text>
+          </TouchableOpacity>
           {userSparkIds.includes('speak-spark') && (
             <TouchableOpacity
               onPress={() => {
@@ -93,7 +109,7 @@ export const SparkSelectionScreen: React.FC<Props> = ({ navigation }) => {
                       <NotificationBadge
                         sparkId={spark.metadata.id}
                         size="small"
-                        isBeta={spark.metadata.properties?.includes("Beta")}
+                        isBeta={spark.metadata.manifest?.beta}
                       />
                     </View>
                     <Text style={styles.sparkTitle} numberOfLines={2}>{spark.metadata.title}</Text>
@@ -104,6 +120,8 @@ export const SparkSelectionScreen: React.FC<Props> = ({ navigation }) => {
           </View>
         </ScrollView>
       )}
+
+      <ProfileSwitcherModal visible={showProfiles} onClose={() => setShowProfiles(false)} />
     </View>
   );
 };
@@ -130,6 +148,22 @@ const getStyles = (colors: any, insets: any) => StyleSheet.create({
     fontSize: 16,
     color: colors.textSecondary,
   },
+  profileChip: {
+    marginLeft: 'auto',
+    marginRight: 12,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: colors.background,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  profileChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
   grid: {
     flex: 1,
     padding: 24,
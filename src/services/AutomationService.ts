@@ -0,0 +1,154 @@
+import { AppState, NativeEventSubscription } from 'react-native';
+import { useSparkStore } from '../store/sparkStore';
+import { useAutomationStore } from '../store/automationStore';
+import { whenHydrated } from '../store/hydration';
+import { AutomationAction, AutomationRule, AutomationRunLogEntry, AutomationTrigger } from '../types/automation';
+import { SparkEvent } from '../types/spark';
+import {
+  AutomationFiring,
+  findDueFirings,
+  matchesSparkEvent,
+  sparkEventFiring,
+  fillParams,
+} from '../utils/automationRules';
+import { generateId } from '../utils/idUtils';
+import { CommandExecutor } from './CommandExecutor';
+import { ParsedCommand } from './GeminiCommandParser';
+import { SparkEventBus } from './SparkEventBus';
+
+class AutomationServiceClass {
+  private started = false;
+  private unsubscribeEvents: (() => void) | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private evaluating: Promise<AutomationRunLogEntry[]> | null = null;
+
+  /**
+   * Run due rules now and again whenever the app comes to the foreground,
+   * and run event rules as sparks publish activity
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    this.unsubscribeEvents = SparkEventBus.subscribe('*', event => {
+      this.handleSparkEvent(event).catch(error => {
+        console.error('Failed to run automations for event:', error);
+      });
+    });
+
+    this.appStateSubscription = AppState.addEventListener('change', appState => {
+      if (appState === 'active') {
+        this.evaluate().catch(error => console.error('Failed to run automations:', error));
+      }
+    });
+
+    this.evaluate().catch(error => console.error('Failed to run automations:', error));
+  }
+
+  stop(): void {
+    this.unsubscribeEvents?.();
+    this.unsubscribeEvents = null;
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.started = false;
+  }
+
+  /**
+   * Run every enabled time-based rule that has come due (weekly, Coming Up events)
+   * @returns Log entries of the rules that ran
+   */
+  async evaluate(now: Date = new Date()): Promise<AutomationRunLogEntry[]> {
+    // Foreground and background evaluations must not run the same occurrence twice
+    while (this.evaluating) {
+      await this.evaluating;
+    }
+
+    this.evaluating = (async () => {
+      await Promise.all([whenHydrated(useSparkStore), whenHydrated(useAutomationStore)]);
+
+      const { sparkData } = useSparkStore.getState();
+      const entries: AutomationRunLogEntry[] = [];
+      for (const rule of useAutomationStore.getState().rules) {
+        if (!rule.enabled) continue;
+        for (const firing of findDueFirings(rule, now, sparkData)) {
+          entries.push(await this.runRule(rule, firing));
+        }
+      }
+      return entries;
+    })();
+
+    try {
+      return await this.evaluating;
+    } finally {
+      this.evaluating = null;
+    }
+  }
+
+  async handleSparkEvent(event: SparkEvent): Promise<AutomationRunLogEntry[]> {
+    const entries: AutomationRunLogEntry[] = [];
+    const firing = sparkEventFiring(event);
+    for (const rule of useAutomationStore.getState().rules) {
+      if (rule.enabled && matchesSparkEvent(rule, event) && !rule.firedKeys.includes(firing.key)) {
+        entries.push(await this.runRule(rule, firing));
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Add a rule
+   * @throws Error when the name or the action's text is missing
+   */
+  createRule(name: string, trigger: AutomationTrigger, action: AutomationAction): AutomationRule {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Please give the automation a name');
+    }
+    if (!Object.values(action.params).some(value => value.trim())) {
+      throw new Error('Please fill in what the automation should add');
+    }
+
+    const rule: AutomationRule = {
+      id: generateId(),
+      name: trimmed,
+      enabled: true,
+      trigger,
+      action,
+      createdAt: new Date().toISOString(),
+      firedKeys: [],
+    };
+    useAutomationStore.getState().addRule(rule);
+    return rule;
+  }
+
+  private async runRule(rule: AutomationRule, firing: AutomationFiring): Promise<AutomationRunLogEntry> {
+    // Recorded first so a failing action is not retried on every foreground
+    useAutomationStore.getState().markFired(rule.id, firing.key);
+
+    const command: ParsedCommand = {
+      targetSpark: rule.action.targetSpark as ParsedCommand['targetSpark'],
+      action: rule.action.action as ParsedCommand['action'],
+      params: fillParams(rule.action.params, firing.context),
+      confidence: 1,
+      originalText: `Automation: ${rule.name}`,
+    };
+    const result = await CommandExecutor.execute(command);
+
+    const entry: AutomationRunLogEntry = {
+      id: generateId(),
+      ruleId: rule.id,
+      ruleName: rule.name,
+      timestamp: new Date().toISOString(),
+      reason: firing.reason,
+      success: result.success,
+      message: result.message,
+    };
+    if (!result.success) {
+      console.error(`Automation "${rule.name}" failed:`, result.message);
+    }
+    useAutomationStore.getState().addRunLogEntry(entry);
+    return entry;
+  }
+}
+
+export const AutomationService = new AutomationServiceClass();
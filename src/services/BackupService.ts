@@ -0,0 +1,438 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useSparkStore } from '../store/sparkStore';
+import { useAppStore } from '../store/appStore';
+import { useSettingsStore } from '../store/settingsStore';
+import { useSecurityStore } from '../store/securityStore';
+import { sealSparkData, sealPrivateValue, openPrivateValue } from '../store/privateSparkStorage';
+import { sparkRegistry } from '../components/SparkRegistry';
+import { DreamEntry, DreamStorageService, dreamsStorageKey } from './DreamStorageService';
+import { StorageUsageService } from './StorageUsageService';
+import { SparkLockService } from './SparkLockService';
+import { SearchService } from './SearchService';
+import { migrateAllSparkData } from '../utils/sparkMigrations';
+import { SparkDataSchema } from '../types/spark';
+import { EncryptedPayload, KdfParams, isEncryptedPayload } from '../utils/sparkCrypto';
+import { shareTextFile, pickTextFile } from '../utils/fileTransfer';
+
+export type RestoreMode = 'replace' | 'merge';
+
+export interface BackupFile {
+  path: string; // Relative to documentDirectory (e.g. "foodcam/123.jpg")
+  base64: string;
+}
+
+// What's needed to open the archive's private sparks: the data key, wrapped by the passcode
+export interface BackupPrivacy {
+  passcodeSalt: string;
+  passcodeKdf: KdfParams;
+  wrappedDataKey: EncryptedPayload;
+  privateSparkIds: string[];
+}
+
+export interface BackupArchive {
+  format: 'sparks-backup';
+  formatVersion: number;
+  createdAt: string;
+  platform: string;
+  sparkStore: {
+    sparkData: Record<string, Record<string, any>>;
+    sparkDataVersions: Record<string, number>;
+    sparkProgress: Record<string, any>;
+    userSparkIds: string[];
+    favoriteSparkIds: string[];
+  };
+  appStore: {
+    preferences: Record<string, any>;
+    isFirstLaunch: boolean;
+    recentSparks: string[];
+  };
+  settingsStore: Record<string, any>;
+  dreams: DreamEntry[] | EncryptedPayload; // Encrypted when Dream Catcher is private
+  files: BackupFile[];
+  privacy?: BackupPrivacy; // Set when a passcode is; private sparks stay encrypted in the archive
+}
+
+export interface RestoreSummary {
+  sparks: number;
+  dreams: number;
+  files: number;
+}
+
+const BACKUP_FORMAT_VERSION = 2;
+
+// Directories under documentDirectory that hold spark media. They are shared by
+// every profile, so only the files the backed-up data references go in the archive.
+const MEDIA_DIRS = ['foodcam/', 'soundboard/', 'recaipe_images/'];
+
+const SETTINGS_KEYS = [
+  'hapticEnabled',
+  'soundEnabled',
+  'darkMode',
+  'animations',
+  'notifications',
+  'fontSize',
+  'language',
+  'analytics',
+  'crashReporting',
+] as const;
+
+const getDataSchemas = (): Record<string, SparkDataSchema> => {
+  const schemas: Record<string, SparkDataSchema> = {};
+  Object.entries(sparkRegistry).forEach(([sparkId, spark]) => {
+    if (spark.dataSchema) {
+      schemas[sparkId] = spark.dataSchema;
+    }
+  });
+  return schemas;
+};
+
+/**
+ * Merge two lists, keeping every existing item and appending incoming items
+ * whose id is not already present. Lists without ids are left as they are.
+ */
+const mergeList = (existing: any[], incoming: any[]): any[] => {
+  const hasIds = (list: any[]) => list.every(item => item && typeof item === 'object' && 'id' in item);
+  if (!hasIds(existing) || !hasIds(incoming)) {
+    return existing;
+  }
+
+  const existingIds = new Set(existing.map(item => String(item.id)));
+  return [...existing, ...incoming.filter(item => !existingIds.has(String(item.id)))];
+};
+
+/**
+ * Merge one spark's data. Values already on this device win; the backup
+ * only fills in missing keys and list items.
+ */
+export const mergeSparkRecord = (
+  existing: Record<string, any>,
+  incoming: Record<string, any>
+): Record<string, any> => {
+  const merged = { ...existing };
+  Object.entries(incoming).forEach(([key, value]) => {
+    if (!(key in merged) || merged[key] === undefined || merged[key] === null) {
+      merged[key] = value;
+    } else if (Array.isArray(merged[key]) && Array.isArray(value)) {
+      merged[key] = mergeList(merged[key], value);
+    }
+  });
+  return merged;
+};
+
+const unique = (ids: string[]) => [...new Set(ids)];
+
+const DREAMS_SPARK_ID = 'dream-catcher';
+
+class BackupServiceClass {
+  /**
+   * Collect everything the app persists into a single archive object
+   */
+  async createBackup(): Promise<BackupArchive> {
+    const sparkState = useSparkStore.getState();
+    const appState = useAppStore.getState();
+    const settingsState = useSettingsStore.getState();
+    const { passcodeSalt, passcodeKdf, wrappedDataKey, privateSparkIds } = useSecurityStore.getState();
+
+    const settingsStore: Record<string, any> = {};
+    SETTINGS_KEYS.forEach(key => {
+      settingsStore[key] = settingsState[key];
+    });
+
+    // Stored already encrypted when Dream Catcher is private
+    const dreamsJson = await AsyncStorage.getItem(dreamsStorageKey());
+
+    return {
+      format: 'sparks-backup',
+      formatVersion: BACKUP_FORMAT_VERSION,
+      createdAt: new Date().toISOString(),
+      platform: Platform.OS,
+      sparkStore: {
+        // Private sparks go out encrypted, never in plaintext
+        sparkData: sealSparkData(sparkState.sparkData),
+        sparkDataVersions: sparkState.sparkDataVersions,
+        sparkProgress: sparkState.sparkProgress,
+        userSparkIds: sparkState.userSparkIds,
+        favoriteSparkIds: sparkState.favoriteSparkIds,
+      },
+      appStore: {
+        preferences: appState.preferences,
+        isFirstLaunch: appState.isFirstLaunch,
+        recentSparks: appState.recentSparks,
+      },
+      settingsStore,
+      dreams: dreamsJson ? JSON.parse(dreamsJson) : [],
+      files: await this.collectMediaFiles(sparkState.sparkData),
+      privacy: passcodeSalt && passcodeKdf && wrappedDataKey
+        ? { passcodeSalt, passcodeKdf, wrappedDataKey, privateSparkIds }
+        : undefined,
+    };
+  }
+
+  /**
+   * Restore an archive. "replace" makes this device match the backup;
+   * "merge" keeps local data and adds anything from the backup that is missing.
+   */
+  async restoreBackup(archive: BackupArchive, mode: RestoreMode): Promise<RestoreSummary> {
+    this.validateArchive(archive);
+    const { sparkData: archiveData, dreams: archiveDreams, adoptsBackupKey } = this.openPrivateData(archive);
+
+    // Bring the backup's spark data up to this build's schema versions first.
+    // Data still encrypted is migrated once it is unlocked.
+    const sealed: Record<string, EncryptedPayload> = {};
+    const plain: Record<string, Record<string, any>> = {};
+    Object.entries(archiveData).forEach(([sparkId, data]) => {
+      if (isEncryptedPayload(data)) {
+        sealed[sparkId] = data;
+      } else {
+        plain[sparkId] = data;
+      }
+    });
+    const migrated = migrateAllSparkData(plain, archive.sparkStore.sparkDataVersions || {}, getDataSchemas());
+    const incoming = { ...migrated, sparkData: { ...migrated.sparkData, ...sealed } };
+
+    if (mode === 'replace') {
+      useSparkStore.setState({
+        sparkData: incoming.sparkData,
+        sparkDataVersions: incoming.versions,
+        sparkProgress: archive.sparkStore.sparkProgress || {},
+        userSparkIds: archive.sparkStore.userSparkIds || [],
+        favoriteSparkIds: archive.sparkStore.favoriteSparkIds || [],
+      });
+      useAppStore.setState({
+        preferences: { ...useAppStore.getState().preferences, ...archive.appStore.preferences },
+        isFirstLaunch: archive.appStore.isFirstLaunch,
+        recentSparks: archive.appStore.recentSparks || [],
+      });
+      useSettingsStore.setState(this.pickSettings(archive.settingsStore));
+    } else {
+      const current = useSparkStore.getState();
+      const sparkData = { ...current.sparkData };
+      Object.entries(incoming.sparkData).forEach(([sparkId, data]) => {
+        if (!sparkData[sparkId]) {
+          sparkData[sparkId] = data;
+        } else if (!isEncryptedPayload(data)) {
+          sparkData[sparkId] = mergeSparkRecord(sparkData[sparkId], data);
+        }
+        // Encrypted data cannot be merged into local data, which wins as usual
+      });
+
+      useSparkStore.setState({
+        sparkData,
+        sparkDataVersions: { ...incoming.versions, ...current.sparkDataVersions },
+        sparkProgress: { ...(archive.sparkStore.sparkProgress || {}), ...current.sparkProgress },
+        userSparkIds: unique([...current.userSparkIds, ...(archive.sparkStore.userSparkIds || [])]),
+        favoriteSparkIds: unique([...current.favoriteSparkIds, ...(archive.sparkStore.favoriteSparkIds || [])]),
+      });
+    }
+
+    // Before the dreams, so they are written encrypted when Dream Catcher is private
+    this.restorePrivateSparkIds(archive.privacy?.privateSparkIds || [], adoptsBackupKey);
+    const dreams = await this.restoreDreams(archiveDreams, mode);
+    const files = await this.restoreMediaFiles(archive.files || [], mode);
+
+    SearchService.rebuild(useSparkStore.getState().sparkData);
+    await DreamStorageService.indexForSearch();
+
+    return {
+      sparks: Object.keys(incoming.sparkData).length,
+      dreams,
+      files,
+    };
+  }
+
+  /**
+   * Write a backup file and hand it to the platform share sheet (or download on web)
+   */
+  async exportBackupFile(): Promise<void> {
+    const archive = await this.createBackup();
+    const filename = `sparks-backup-${archive.createdAt.split('T')[0]}.json`;
+    await shareTextFile(filename, JSON.stringify(archive), 'application/json');
+  }
+
+  /**
+   * Let the user pick a backup file and restore it.
+   * Returns null if the picker was cancelled.
+   */
+  async importBackupFile(mode: RestoreMode): Promise<RestoreSummary | null> {
+    const content = await pickTextFile(['application/json', '*/*']);
+    if (content === null) {
+      return null;
+    }
+
+    let archive: BackupArchive;
+    try {
+      archive = JSON.parse(content);
+    } catch (error) {
+      throw new Error('This file is not a Sparks backup');
+    }
+
+    return this.restoreBackup(archive, mode);
+  }
+
+  private validateArchive(archive: BackupArchive) {
+    if (!archive || archive.format !== 'sparks-backup' || !archive.sparkStore) {
+      throw new Error('This file is not a Sparks backup');
+    }
+    if (archive.formatVersion > BACKUP_FORMAT_VERSION) {
+      throw new Error('This backup was made by a newer version of Sparks. Please update the app.');
+    }
+  }
+
+  /**
+   * Open the archive's encrypted sparks and dreams with this device's key. A device
+   * without a passcode takes over the backup's instead, and the data stays encrypted
+   * until it is unlocked with the passcode the backup was made with.
+   * @throws Error when the data cannot be opened here
+   */
+  private openPrivateData(archive: BackupArchive): {
+    sparkData: Record<string, Record<string, any>>;
+    dreams: DreamEntry[] | EncryptedPayload;
+    adoptsBackupKey: boolean;
+  } {
+    const sparkData = { ...(archive.sparkStore.sparkData || {}) };
+    let dreams = archive.dreams || [];
+    const sealedIds = Object.keys(sparkData).filter(sparkId => isEncryptedPayload(sparkData[sparkId]));
+    if (sealedIds.length === 0 && !isEncryptedPayload(dreams)) {
+      return { sparkData, dreams, adoptsBackupKey: false };
+    }
+
+    const { privacy } = archive;
+    if (!privacy) {
+      throw new Error("This backup's private sparks are missing their key and cannot be restored");
+    }
+    if (!SparkLockService.hasPasscode()) {
+      const { setPasscode } = useSecurityStore.getState();
+      setPasscode(privacy.passcodeSalt, privacy.passcodeKdf, privacy.wrappedDataKey);
+      return { sparkData, dreams, adoptsBackupKey: true };
+    }
+    if (!SparkLockService.isUnlocked()) {
+      throw new Error('Unlock private sparks before restoring this backup');
+    }
+
+    try {
+      sealedIds.forEach(sparkId => {
+        sparkData[sparkId] = openPrivateValue(sparkData[sparkId]);
+      });
+      dreams = openPrivateValue(dreams);
+    } catch {
+      throw new Error("This backup's private sparks were locked with a different passcode and cannot be opened on this device");
+    }
+    return { sparkData, dreams, adoptsBackupKey: false };
+  }
+
+  /**
+   * Keep the backup's sparks private. With the backup's key, sparks whose local data
+   * was kept by a merge are left public: there is no key to encrypt it with until unlock.
+   */
+  private restorePrivateSparkIds(backupIds: string[], adoptsBackupKey: boolean): void {
+    const { privateSparkIds, setPrivateSparkIds } = useSecurityStore.getState();
+    const { sparkData } = useSparkStore.getState();
+    const restoredIds = adoptsBackupKey
+      ? backupIds.filter(sparkId => sparkId === DREAMS_SPARK_ID || isEncryptedPayload(sparkData[sparkId]))
+      : backupIds;
+    if (restoredIds.length > 0) {
+      setPrivateSparkIds(unique([...privateSparkIds, ...restoredIds]));
+    }
+  }
+
+  private pickSettings(settings: Record<string, any>): Record<string, any> {
+    const picked: Record<string, any> = {};
+    SETTINGS_KEYS.forEach(key => {
+      if (settings?.[key] !== undefined) {
+        picked[key] = settings[key];
+      }
+    });
+    return picked;
+  }
+
+  private async restoreDreams(dreams: DreamEntry[] | EncryptedPayload, mode: RestoreMode): Promise<number> {
+    const existingJson = await AsyncStorage.getItem(dreamsStorageKey());
+
+    if (isEncryptedPayload(dreams)) {
+      // Still encrypted with the backup's key, so they cannot be merged or counted yet
+      if (mode === 'merge' && existingJson && JSON.parse(existingJson).length > 0) {
+        return 0;
+      }
+      await AsyncStorage.setItem(dreamsStorageKey(), JSON.stringify(dreams));
+      return 0;
+    }
+
+    if (mode === 'replace') {
+      await AsyncStorage.setItem(dreamsStorageKey(), JSON.stringify(sealPrivateValue(DREAMS_SPARK_ID, dreams)));
+      return dreams.length;
+    }
+
+    const existing: DreamEntry[] = existingJson ? openPrivateValue(JSON.parse(existingJson)) : [];
+    const merged = mergeList(existing, dreams);
+    await AsyncStorage.setItem(dreamsStorageKey(), JSON.stringify(sealPrivateValue(DREAMS_SPARK_ID, merged)));
+    return merged.length - existing.length;
+  }
+
+  private async collectMediaFiles(sparkData: Record<string, Record<string, any>>): Promise<BackupFile[]> {
+    if (Platform.OS === 'web' || !FileSystem.documentDirectory) {
+      return [];
+    }
+
+    const paths = new Set(
+      Object.entries(sparkData)
+        .flatMap(([sparkId, data]) => StorageUsageService.getReferencedPaths(sparkId, data))
+        .filter(path => MEDIA_DIRS.some(dir => path.startsWith(dir)))
+    );
+
+    const files: BackupFile[] = [];
+    for (const path of paths) {
+      const fileUri = `${FileSystem.documentDirectory}${path}`;
+      try {
+        const info = await FileSystem.getInfoAsync(fileUri);
+        if (!info.exists) continue;
+
+        const base64 = await FileSystem.readAsStringAsync(fileUri, {
+          encoding: FileSystem.EncodingType.Base64,
+        });
+        files.push({ path, base64 });
+      } catch (error) {
+        console.error(`Failed to back up ${path}:`, error);
+      }
+    }
+    return files;
+  }
+
+  private async restoreMediaFiles(files: BackupFile[], mode: RestoreMode): Promise<number> {
+    if (Platform.OS === 'web' || !FileSystem.documentDirectory) {
+      return 0;
+    }
+
+    let restored = 0;
+    for (const file of files) {
+      // Never write outside the known media directories
+      if (!MEDIA_DIRS.some(dir => file.path.startsWith(dir)) || file.path.includes('..')) {
+        continue;
+      }
+
+      const fileUri = `${FileSystem.documentDirectory}${file.path}`;
+      if (mode === 'merge') {
+        const info = await FileSystem.getInfoAsync(fileUri);
+        if (info.exists) continue;
+      }
+
+      const dirUri = fileUri.substring(0, fileUri.lastIndexOf('/') + 1);
+      await FileSystem.makeDirectoryAsync(dirUri, { intermediates: true });
+      await FileSystem.writeAsStringAsync(fileUri, file.base64, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+      restored++;
+    }
+
+    // Files only the replaced data used are orphans now; other profiles' files are kept
+    if (mode === 'replace') {
+      for (const sparkId of Object.keys(sparkRegistry).filter(id => sparkRegistry[id].fileStorage)) {
+        await StorageUsageService.removeOrphanedFiles(sparkId);
+      }
+    }
+    return restored;
+  }
+}
+
+export const BackupService = new BackupServiceClass();
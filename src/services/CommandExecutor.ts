@@ -1,10 +1,30 @@
 import { useSparkStore } from '../store';
+import { getSparkById } from '../components/SparkRegistry';
+import { findVoiceIntent, resolveIntentParams } from '../utils/voiceIntents';
 import { ParsedCommand } from './GeminiCommandParser';
+import { SparkEventBus } from './SparkEventBus';
+import { TrashService } from './TrashService';
+import { SparkLockService } from './SparkLockService';
+
+export interface CommandResult {
+  success: boolean;
+  message: string;
+  openSparkId?: string;
+  choices?: { label: string; command: ParsedCommand }[]; // Several items matched: run one of these to carry on
+  answer?: boolean; // The message answers a question ('query' action), worth reading aloud
+}
+
+// What to do with the remaining steps of a compound command once one fails
+export type StepFailurePolicy = 'stop' | 'continue';
+
+export interface CommandStep {
+  command: ParsedCommand;
+  result: CommandResult;
+  skipped?: boolean; // Not run because an earlier step failed
+}
 
 export const CommandExecutor = {
-  execute: async (command: ParsedCommand): Promise<{ success: boolean; message: string }> => {
-    const { getSparkData, setSparkData } = useSparkStore.getState();
-
+  execute: async (command: ParsedCommand): Promise<CommandResult> => {
     try {
       if (command.action === 'open') {
         const sparkId = command.targetSpark;
@@ -18,161 +38,86 @@ export const CommandExecutor = {
         };
       }
 
-      switch (command.targetSpark) {
-        case 'todo':
-          return handleTodoCommand(command, getSparkData, setSparkData);
-        case 'weight-tracker':
-          return handleWeightCommand(command, getSparkData, setSparkData);
-        case 'toview':
-          return handleToviewCommand(command, getSparkData, setSparkData);
-        // Add other cases as implemented
-        default:
-          if (command.targetSpark === 'unknown') {
-            const errorMsg = command.params?.error ? ` (${command.params.error})` : '';
-            return { success: false, message: `I didn't understand that command${errorMsg}.` };
-          }
-          return { success: false, message: `Spark '${command.targetSpark}' not supported yet.` };
+      if (command.targetSpark === 'unknown') {
+        const errorMsg = command.params?.error ? ` (${command.params.error})` : '';
+        return { success: false, message: `I didn't understand that command${errorMsg}.` };
       }
-    } catch (error: any) {
-      console.error('Command execution error:', error);
-      return { success: false, message: `Execution failed: ${error.message}` };
-    }
-  }
-};
-
-function handleTodoCommand(
-  command: ParsedCommand,
-  getSparkData: (id: string) => any,
-  setSparkData: (id: string, data: any) => void
-) {
-  if (command.action !== 'create') {
-    return { success: false, message: 'Only "create" action is supported for Todo List.' };
-  }
 
-  const { text, category, dueDate } = command.params;
-
-  if (!text) {
-    return { success: false, message: 'Missing todo text.' };
-  }
-
-  const currentData = getSparkData('todo') || {};
-  const todos = currentData.todos || [];
-
-  const newId = Math.max(...(todos as any[]).map((t: any) => t.id), 0) + 1;
-  const today = new Date().toISOString().split('T')[0];
-
-  // Calculate due date
-  let finalDueDate = today;
-  if (dueDate === 'tomorrow') {
-    const tmr = new Date();
-    tmr.setDate(tmr.getDate() + 1);
-    finalDueDate = tmr.toISOString().split('T')[0];
-  } else if (dueDate && /^\d{4}-\d{2}-\d{2}$/.test(dueDate)) {
-    finalDueDate = dueDate;
-  }
-
-  const newTodo = {
-    id: newId,
-    text: text, // Raw text
-    displayText: text, // Assuming parser separates properly, or we just use raw
-    category: category,
-    completed: false,
-    dueDate: finalDueDate,
-    createdDate: new Date().toISOString(),
-    sortTimeMs: Date.now(),
-  };
-
-  setSparkData('todo', {
-    ...currentData,
-    todos: [...todos, newTodo],
-    lastUpdated: new Date().toISOString(),
-  });
-
-  return { success: true, message: `Added todo: "${text}"` };
-};
-
-function handleWeightCommand(
-  command: ParsedCommand,
-  getSparkData: (id: string) => any,
-  setSparkData: (id: string, data: any) => void
-) {
-  if (command.action !== 'add') {
-    return { success: false, message: 'Only "add" action is supported for Weight Tracker.' };
-  }
+      // Each spark declares what it can do in the registry
+      const spark = getSparkById(command.targetSpark);
+      if (!spark?.voiceIntents?.length) {
+        return { success: false, message: `Spark '${command.targetSpark}' not supported yet.` };
+      }
 
-  const { weight, unit } = command.params;
+      // A locked private spark's data is still encrypted: nothing can be read or written
+      if (SparkLockService.isSparkLocked(command.targetSpark)) {
+        return { success: false, message: `${spark.metadata.title} is private. Unlock private sparks first.` };
+      }
 
-  if (!weight) {
-    return { success: false, message: 'Missing weight value.' };
-  }
+      const intent = findVoiceIntent(spark, command.action);
+      if (!intent) {
+        const supported = spark.voiceIntents.map(i => `"${i.action}"`).join(', ');
+        return { success: false, message: `${spark.metadata.title} supports ${supported}, not "${command.action}".` };
+      }
 
-  const currentData = getSparkData('weight-tracker') || {};
-  const entries = currentData.entries || [];
+      const now = new Date();
+      const resolved = resolveIntentParams(intent, command.params || {}, now);
+      if (!resolved.ok) {
+        return { success: false, message: resolved.reason };
+      }
 
-  const newEntry = {
-    id: Date.now().toString(),
-    date: new Date().toISOString(),
-    weight: parseFloat(weight),
-  };
+      const { getSparkData, checkpointSparkData, setSparkData } = useSparkStore.getState();
 
-  const updatedData = {
-    ...currentData,
-    entries: [...entries, newEntry]
-  };
+      let result;
+      try {
+        result = intent.handler(resolved.params, getSparkData(command.targetSpark) || {}, now);
+      } catch (error: any) {
+        return { success: false, message: error.message };
+      }
 
-  if (unit && (unit === 'kg' || unit === 'lbs')) {
-    updatedData.unit = unit;
-  }
+      if (result.choices?.length) {
+        return {
+          success: false,
+          message: result.message,
+          choices: result.choices.map(choice => ({ label: choice.label, command: { ...command, params: choice.params } })),
+        };
+      }
 
-  setSparkData('weight-tracker', updatedData);
+      // Questions are answered from the spark's data and never change it
+      if (intent.action === 'query') {
+        return { success: true, message: result.message, answer: true };
+      }
 
-  return { success: true, message: `Recorded weight: ${weight} ${unit || ''}` };
-};
+      if (result.data) {
+        // Checkpoint before every write so voice and link commands can be undone like in-spark edits
+        checkpointSparkData(command.targetSpark, `"${command.originalText || command.action}"`);
+        result.trashed?.forEach(({ collection, item, label }) => TrashService.trashItem(command.targetSpark, collection, item, label));
+        setSparkData(command.targetSpark, result.data);
+        result.events?.forEach(event => SparkEventBus.publish(event.type, command.targetSpark, event.payload));
+      }
 
-function handleToviewCommand(
-  command: ParsedCommand,
-  getSparkData: (id: string) => any,
-  setSparkData: (id: string, data: any) => void
-) {
-  if (command.action !== 'add') {
-    return { success: false, message: 'Only "add" action is supported for ToView.' };
-  }
+      return { success: true, message: result.message };
+    } catch (error: any) {
+      console.error('Command execution error:', error);
+      return { success: false, message: `Execution failed: ${error.message}` };
+    }
+  },
 
-  const { title, type, provider, watchWith } = command.params;
+  // Runs the commands one after another, so later steps see earlier steps' data
+  executeAll: async (commands: ParsedCommand[], onFailure: StepFailurePolicy = 'stop'): Promise<CommandStep[]> => {
+    const steps: CommandStep[] = [];
+    let failed = false;
 
-  if (!title) {
-    return { success: false, message: 'Missing title.' };
-  }
+    for (const command of commands) {
+      if (failed && onFailure === 'stop') {
+        steps.push({ command, skipped: true, result: { success: false, message: 'Skipped because an earlier step failed.' } });
+        continue;
+      }
+      const result = await CommandExecutor.execute(command);
+      failed = failed || !result.success;
+      steps.push({ command, result });
+    }
 
-  const category = type || 'Movie';
-  // Construct text like "Movie: Title (Person)" so regex in ToviewSpark works if needed, 
-  // but we are creating the object directly so it's less critical, 
-  // however maintaining the formatting in `text` field is good for UI consistency if it uses text.
-  let formattedText = `${category}: ${title}`;
-  if (watchWith && watchWith.length > 0) {
-    formattedText += ` (${watchWith.join(', ')})`;
+    return steps;
   }
-
-  const currentData = getSparkData('toview') || {};
-  const toviews = currentData.toviews || [];
-
-  const newToview = {
-    id: Date.now(),
-    text: formattedText,
-    completed: false,
-    viewDate: new Date().toISOString().split('T')[0],
-    createdDate: new Date().toISOString().split('T')[0],
-    category: category,
-    displayText: title,
-    provider: provider,
-    watchWith: watchWith,
-    sortTimeMs: Date.now()
-  };
-
-  setSparkData('toview', {
-    ...currentData,
-    toviews: [...toviews, newToview]
-  });
-
-  return { success: true, message: `Added to list: "${title}"` };
 };
@@ -1,4 +1,7 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SearchService } from './SearchService';
+import { sealPrivateValue, openPrivateValue } from '../store/privateSparkStorage';
+import { profileStorageKey, currentProfileId } from '../store/profileStorage';
 
 export interface DreamEntry {
   id: string;
@@ -13,8 +16,22 @@ export interface DreamEntry {
 }
 
 const STORAGE_KEY = '@dream-catcher/dreams';
+const SPARK_ID = 'dream-catcher';
+
+/**
+ * Where a profile's dreams are stored; the active profile's when not given
+ */
+export const dreamsStorageKey = (profileId: string = currentProfileId()): string =>
+  profileStorageKey(STORAGE_KEY, profileId);
 
 class DreamStorageServiceClass {
+  /**
+   * Load dreams into the global search index
+   */
+  async indexForSearch(): Promise<void> {
+    SearchService.indexExternalData(SPARK_ID, { dreams: await this.getAllDreams() });
+  }
+
   /**
    * Save a new dream entry
    */
@@ -28,10 +45,10 @@ class DreamStorageServiceClass {
         updatedAt: now,
       };
 
-      const dreams = await this.getAllDreams();
+      const dreams = await this.readDreams();
       dreams.push(dreamEntry);
 
-      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(dreams));
+      await this.persistDreams(dreams);
       return dreamEntry;
     } catch (error) {
       console.error('Failed to save dream:', error);
@@ -44,8 +61,7 @@ class DreamStorageServiceClass {
    */
   async getAllDreams(): Promise<DreamEntry[]> {
     try {
-      const data = await AsyncStorage.getItem(STORAGE_KEY);
-      return data ? JSON.parse(data) : [];
+      return await this.readDreams();
     } catch (error) {
       console.error('Failed to get dreams:', error);
       return [];
@@ -85,7 +101,7 @@ class DreamStorageServiceClass {
    */
   async updateDream(id: string, updates: Partial<DreamEntry>): Promise<DreamEntry | null> {
     try {
-      const dreams = await this.getAllDreams();
+      const dreams = await this.readDreams();
       const index = dreams.findIndex(dream => dream.id === id);
 
       if (index === -1) {
@@ -98,7 +114,7 @@ class DreamStorageServiceClass {
         updatedAt: Date.now(),
       };
 
-      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(dreams));
+      await this.persistDreams(dreams);
       return dreams[index];
     } catch (error) {
       console.error('Failed to update dream:', error);
@@ -111,14 +127,14 @@ class DreamStorageServiceClass {
    */
   async deleteDream(id: string): Promise<boolean> {
     try {
-      const dreams = await this.getAllDreams();
+      const dreams = await this.readDreams();
       const filteredDreams = dreams.filter(dream => dream.id !== id);
 
       if (filteredDreams.length === dreams.length) {
         return false; // Dream not found
       }
 
-      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(filteredDreams));
+      await this.persistDreams(filteredDreams);
       return true;
     } catch (error) {
       console.error('Failed to delete dream:', error);
@@ -160,6 +176,30 @@ class DreamStorageServiceClass {
       return [];
     }
   }
+
+  /**
+   * Write dreams again, e.g. after Dream Catcher was made private or the passcode changed
+   */
+  async rewriteDreams(dreams: DreamEntry[]): Promise<void> {
+    await this.persistDreams(dreams);
+  }
+
+  /**
+   * Read all dreams, decrypting them when Dream Catcher is private
+   * @throws Error while private sparks are locked, so nothing overwrites the stored dreams
+   */
+  private async readDreams(): Promise<DreamEntry[]> {
+    const data = await AsyncStorage.getItem(dreamsStorageKey());
+    return data ? openPrivateValue<DreamEntry[]>(JSON.parse(data)) : [];
+  }
+
+  /**
+   * Write all dreams and refresh their search index
+   */
+  private async persistDreams(dreams: DreamEntry[]): Promise<void> {
+    await AsyncStorage.setItem(dreamsStorageKey(), JSON.stringify(sealPrivateValue(SPARK_ID, dreams)));
+    SearchService.indexExternalData(SPARK_ID, { dreams });
+  }
 }
 
 export const DreamStorageService = new DreamStorageServiceClass();
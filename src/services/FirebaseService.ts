@@ -8,6 +8,7 @@ import {
   SessionData
 } from '../types/analytics';
 import { MockFirebaseService } from './MockFirebaseService';
+import { SyncedSparkData } from '../utils/syncMerge';
 
 // Check if Firebase is available
 let firestore: any = null;
@@ -605,6 +606,52 @@ export class FirebaseService {
   }
 
   // Privacy Controls
+  // Spark Data Sync (same document layout as WebFirebaseService)
+  static async getSparkSyncDocuments(userId: string): Promise<Record<string, SyncedSparkData>> {
+    if (!isFirebaseAvailable) {
+      return MockFirebaseService.getSparkSyncDocuments(userId);
+    }
+
+    const snapshot = await this.db.collection('users').doc(userId).collection('sparkData').get();
+    const documents: Record<string, SyncedSparkData> = {};
+    snapshot.docs.forEach((doc: any) => {
+      documents[doc.id] = this.toSyncedSparkData(doc.data());
+    });
+    return documents;
+  }
+
+  static async getSparkSyncDocument(userId: string, sparkId: string): Promise<SyncedSparkData | null> {
+    if (!isFirebaseAvailable) {
+      return MockFirebaseService.getSparkSyncDocument(userId, sparkId);
+    }
+
+    const doc = await this.db.collection('users').doc(userId).collection('sparkData').doc(sparkId).get();
+    return doc.exists ? this.toSyncedSparkData(doc.data()) : null;
+  }
+
+  static async setSparkSyncDocument(userId: string, sparkId: string, document: SyncedSparkData): Promise<void> {
+    if (!isFirebaseAvailable) {
+      return MockFirebaseService.setSparkSyncDocument(userId, sparkId, document);
+    }
+
+    await this.db.collection('users').doc(userId).collection('sparkData').doc(sparkId).set({
+      payload: JSON.stringify(document.data),
+      clock: JSON.stringify(document.clock),
+      updatedAt: document.updatedAt,
+      schemaVersion: document.schemaVersion ?? 0,
+      syncedAt: firestore.FieldValue.serverTimestamp(),
+    });
+  }
+
+  private static toSyncedSparkData(data: any): SyncedSparkData {
+    return {
+      data: JSON.parse(data.payload || '{}'),
+      clock: JSON.parse(data.clock || '{"fields":{},"items":{},"deleted":{}}'),
+      updatedAt: data.updatedAt || 0,
+      schemaVersion: data.schemaVersion ?? 0,
+    };
+  }
+
   static async deleteUserData(userId: string): Promise<void> {
     try {
       const batch = this.db.batch();
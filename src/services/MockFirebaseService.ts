@@ -7,6 +7,7 @@ import {
   AnalyticsData,
   SessionData
 } from '../types/analytics';
+import { SyncedSparkData } from '../utils/syncMerge';
 
 // Mock implementation for Expo Go development
 export class MockFirebaseService {
@@ -16,6 +17,7 @@ export class MockFirebaseService {
     analytics: new Map<string, AnalyticsEvent>(),
     featureFlags: new Map<string, FeatureFlag>(),
     sessions: new Map<string, SessionData>(),
+    sparkSync: new Map<string, SyncedSparkData>(), // Keyed by "userId/sparkId"
   };
 
   // User Management
@@ -260,6 +262,27 @@ export class MockFirebaseService {
     console.log('Mock: Batch logged events', events.length);
   }
 
+  // Spark Data Sync (stored as JSON copies, like the Firestore documents)
+  static async getSparkSyncDocuments(userId: string): Promise<Record<string, SyncedSparkData>> {
+    const documents: Record<string, SyncedSparkData> = {};
+    for (const [key, document] of this.mockData.sparkSync.entries()) {
+      if (key.startsWith(`${userId}/`)) {
+        documents[key.substring(userId.length + 1)] = JSON.parse(JSON.stringify(document));
+      }
+    }
+    return documents;
+  }
+
+  static async getSparkSyncDocument(userId: string, sparkId: string): Promise<SyncedSparkData | null> {
+    const document = this.mockData.sparkSync.get(`${userId}/${sparkId}`);
+    return document ? JSON.parse(JSON.stringify(document)) : null;
+  }
+
+  static async setSparkSyncDocument(userId: string, sparkId: string, document: SyncedSparkData): Promise<void> {
+    this.mockData.sparkSync.set(`${userId}/${sparkId}`, JSON.parse(JSON.stringify(document)));
+    console.log('Mock: Synced spark data', userId, sparkId);
+  }
+
   // Privacy Controls
   static async deleteUserData(userId: string): Promise<void> {
     // Delete user
@@ -286,6 +309,13 @@ export class MockFirebaseService {
       }
     }
 
+    // Delete synced spark data
+    for (const key of this.mockData.sparkSync.keys()) {
+      if (key.startsWith(`${userId}/`)) {
+        this.mockData.sparkSync.delete(key);
+      }
+    }
+
     console.log('Mock: Deleted all data for user', userId);
   }
 
@@ -337,6 +367,7 @@ export class MockFirebaseService {
     this.mockData.feedback.clear();
     this.mockData.analytics.clear();
     this.mockData.sessions.clear();
+    this.mockData.sparkSync.clear();
     console.log('Mock: Cleared all mock data');
   }
 }
@@ -0,0 +1,138 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { useSparkStore } from '../store/sparkStore';
+import { useAppStore } from '../store/appStore';
+import { useAutomationStore } from '../store/automationStore';
+import { useTrashStore } from '../store/trashStore';
+import { DreamStorageService, dreamsStorageKey } from './DreamStorageService';
+import { useProfileStore, LocalProfile } from '../store/profileStore';
+import { DEFAULT_PROFILE_ID, profileStorageKey, switchProfileStorage } from '../store/profileStorage';
+import { generateId } from '../utils/idUtils';
+
+// Persisted stores that hold a separate copy per profile
+const PROFILE_SCOPED_STORES = ['sparks-data-storage', 'sparks-app-storage', 'sparks-automation-storage', 'sparks-trash-storage'];
+
+class ProfileServiceClass {
+  private switching: Promise<void> | null = null;
+
+  getActiveProfile(): LocalProfile {
+    const { profiles, activeProfileId } = useProfileStore.getState();
+    return profiles.find(p => p.id === activeProfileId) || profiles[0];
+  }
+
+  /**
+   * Add a profile with empty spark data
+   * @param pin Optional PIN asked for before switching to the profile
+   */
+  async createProfile(name: string, emoji: string, pin?: string): Promise<LocalProfile> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Please enter a profile name');
+    }
+    if (useProfileStore.getState().profiles.some(p => p.name.toLowerCase() === trimmed.toLowerCase())) {
+      throw new Error(`There is already a profile called "${trimmed}"`);
+    }
+
+    const id = generateId();
+    const profile: LocalProfile = {
+      id,
+      name: trimmed,
+      emoji,
+      pinHash: pin ? await this.hashPin(id, pin) : undefined,
+      createdAt: new Date().toISOString(),
+    };
+    useProfileStore.getState().addProfile(profile);
+    return profile;
+  }
+
+  /**
+   * Set or clear (null) a profile's PIN
+   */
+  async setPin(profileId: string, pin: string | null): Promise<void> {
+    const pinHash = pin ? await this.hashPin(profileId, pin) : undefined;
+    useProfileStore.getState().updateProfile(profileId, { pinHash });
+  }
+
+  hasPin(profileId: string): boolean {
+    return !!useProfileStore.getState().profiles.find(p => p.id === profileId)?.pinHash;
+  }
+
+  async verifyPin(profileId: string, pin: string | undefined): Promise<boolean> {
+    const profile = useProfileStore.getState().profiles.find(p => p.id === profileId);
+    if (!profile?.pinHash) return true;
+    if (!pin) return false;
+    return (await this.hashPin(profileId, pin)) === profile.pinHash;
+  }
+
+  /**
+   * Load another profile's sparks, favorites and preferences. The current
+   * profile's data is already saved, so nothing is lost.
+   * @throws Error when the profile has a PIN and it does not match
+   */
+  async switchProfile(profileId: string, pin?: string): Promise<void> {
+    while (this.switching) {
+      await this.switching;
+    }
+    if (profileId === useProfileStore.getState().activeProfileId) return;
+
+    if (!useProfileStore.getState().profiles.some(p => p.id === profileId)) {
+      throw new Error('Profile not found');
+    }
+    if (!(await this.verifyPin(profileId, pin))) {
+      throw new Error('Incorrect PIN');
+    }
+
+    this.switching = (async () => {
+      switchProfileStorage(profileId, () => {
+        useSparkStore.setState(useSparkStore.getInitialState(), true);
+        useAppStore.setState(useAppStore.getInitialState(), true);
+        useAutomationStore.setState(useAutomationStore.getInitialState(), true);
+        useTrashStore.setState(useTrashStore.getInitialState(), true);
+      });
+      useProfileStore.getState().setActiveProfileId(profileId);
+
+      await Promise.all([
+        useSparkStore.persist.rehydrate(),
+        useAppStore.persist.rehydrate(),
+        useAutomationStore.persist.rehydrate(),
+        useTrashStore.persist.rehydrate(),
+      ]);
+      await DreamStorageService.indexForSearch();
+    })();
+
+    try {
+      await this.switching;
+    } finally {
+      this.switching = null;
+    }
+  }
+
+  /**
+   * Remove a profile and all of its data. The default and the active profile cannot be deleted.
+   * @throws Error when the profile has a PIN and it does not match
+   */
+  async deleteProfile(profileId: string, pin?: string): Promise<void> {
+    if (profileId === DEFAULT_PROFILE_ID) {
+      throw new Error('The main profile cannot be deleted');
+    }
+    if (profileId === useProfileStore.getState().activeProfileId) {
+      throw new Error('Switch to another profile before deleting this one');
+    }
+    if (!(await this.verifyPin(profileId, pin))) {
+      throw new Error('Incorrect PIN');
+    }
+
+    await AsyncStorage.multiRemove([
+      ...PROFILE_SCOPED_STORES.map(name => profileStorageKey(name, profileId)),
+      dreamsStorageKey(profileId),
+    ]);
+    useProfileStore.getState().removeProfile(profileId);
+  }
+
+  // Salted with the profile id so equal PINs do not share a hash
+  private hashPin(profileId: string, pin: string): Promise<string> {
+    return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${profileId}:${pin}`);
+  }
+}
+
+export const ProfileService = new ProfileServiceClass();
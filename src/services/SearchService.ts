@@ -0,0 +1,92 @@
+import { sparkRegistry, getSparkById } from '../components/SparkRegistry';
+import { SearchIndex, createSearchEntries, searchEntries } from '../utils/searchIndex';
+import { isPrivateSpark } from '../store/securityStore';
+
+export interface SearchHit {
+  sparkId: string;
+  sparkTitle: string;
+  sparkIcon: string;
+  itemId: string;
+  title: string;
+  subtitle?: string;
+  params: Record<string, string>; // Route params that open the spark at this item
+}
+
+class SearchServiceClass {
+  private index: SearchIndex = {};
+  // Sparks whose data lives outside sparkStore (e.g. Dream Catcher) and is indexed by its own service
+  private externalSparkIds = new Set<string>();
+
+  /**
+   * Re-index a single spark after its data changed. Sparks without a
+   * search indexer are ignored, and private sparks are kept out of results.
+   */
+  indexSpark(sparkId: string, data: Record<string, any> | undefined): void {
+    const indexer = getSparkById(sparkId)?.searchIndexer;
+    if (!indexer) {
+      return;
+    }
+    if (isPrivateSpark(sparkId)) {
+      delete this.index[sparkId];
+      return;
+    }
+
+    try {
+      this.index[sparkId] = createSearchEntries(sparkId, indexer(data || {}));
+    } catch (error) {
+      console.error(`Failed to index ${sparkId} for search:`, error);
+      delete this.index[sparkId];
+    }
+  }
+
+  /**
+   * Index data a spark keeps outside sparkStore. It is left alone by rebuild().
+   */
+  indexExternalData(sparkId: string, data: Record<string, any>): void {
+    this.externalSparkIds.add(sparkId);
+    this.indexSpark(sparkId, data);
+  }
+
+  /**
+   * Re-index every spark from sparkStore data, e.g. after hydration or a restore
+   */
+  rebuild(sparkData: Record<string, Record<string, any>>): void {
+    Object.entries(sparkRegistry).forEach(([sparkId, spark]) => {
+      if (!spark.searchIndexer || this.externalSparkIds.has(sparkId)) {
+        return;
+      }
+      if (sparkData[sparkId]) {
+        this.indexSpark(sparkId, sparkData[sparkId]);
+      } else {
+        delete this.index[sparkId];
+      }
+    });
+  }
+
+  /**
+   * Search all indexed sparks
+   * @param query Free text; every word must match
+   * @param limit Maximum number of hits
+   */
+  search(query: string, limit: number = 50): SearchHit[] {
+    return searchEntries(this.index, query, limit).map(({ entry }) => {
+      const metadata = getSparkById(entry.sparkId)?.metadata;
+      return {
+        sparkId: entry.sparkId,
+        sparkTitle: metadata?.title || entry.sparkId,
+        sparkIcon: metadata?.icon || '✨',
+        itemId: entry.id,
+        title: entry.title,
+        subtitle: entry.subtitle,
+        params: entry.params || {},
+      };
+    });
+  }
+
+  clear(): void {
+    this.index = {};
+    this.externalSparkIds.clear();
+  }
+}
+
+export const SearchService = new SearchServiceClass();
@@ -0,0 +1,63 @@
+import { useSparkStore } from '../store/sparkStore';
+import { getSparkById } from '../components/SparkRegistry';
+import { SparkDataAdapter, SparkDataFormat } from '../types/spark';
+import { shareTextFile, pickTextFile } from '../utils/fileTransfer';
+
+const FORMAT_DETAILS: Record<SparkDataFormat, { extension: string; mimeType: string; pickerTypes: string[] }> = {
+  csv: { extension: 'csv', mimeType: 'text/csv', pickerTypes: ['text/csv', 'text/comma-separated-values', 'text/plain', '*/*'] },
+  json: { extension: 'json', mimeType: 'application/json', pickerTypes: ['application/json', 'text/plain', '*/*'] },
+  markdown: { extension: 'md', mimeType: 'text/markdown', pickerTypes: ['text/markdown', 'text/plain', '*/*'] },
+};
+
+class SparkDataTransferServiceClass {
+  /**
+   * Get the import/export adapter a spark declares, if any
+   */
+  getAdapter(sparkId: string): SparkDataAdapter | undefined {
+    return getSparkById(sparkId)?.dataAdapter;
+  }
+
+  getFormatExtension(format: SparkDataFormat): string {
+    return FORMAT_DETAILS[format].extension;
+  }
+
+  /**
+   * Export a spark's data through its adapter and share the file
+   */
+  async exportSparkData(sparkId: string): Promise<void> {
+    const adapter = this.requireAdapter(sparkId);
+    const { extension, mimeType } = FORMAT_DETAILS[adapter.format];
+
+    const content = adapter.exportData(useSparkStore.getState().getSparkData(sparkId));
+    const date = new Date().toISOString().split('T')[0];
+    await shareTextFile(`${sparkId}-${date}.${extension}`, content, mimeType);
+  }
+
+  /**
+   * Pick a file and import it into a spark's data through its adapter.
+   * Returns the spark's updated data, or null if the picker was cancelled.
+   */
+  async importSparkData(sparkId: string): Promise<Record<string, any> | null> {
+    const adapter = this.requireAdapter(sparkId);
+
+    const content = await pickTextFile(FORMAT_DETAILS[adapter.format].pickerTypes);
+    if (content === null) {
+      return null;
+    }
+
+    const { getSparkData, setSparkData } = useSparkStore.getState();
+    const updated = adapter.importData(content, getSparkData(sparkId));
+    setSparkData(sparkId, updated);
+    return updated;
+  }
+
+  private requireAdapter(sparkId: string): SparkDataAdapter {
+    const adapter = this.getAdapter(sparkId);
+    if (!adapter) {
+      throw new Error(`Spark '${sparkId}' does not support import and export`);
+    }
+    return adapter;
+  }
+}
+
+export const SparkDataTransferService = new SparkDataTransferServiceClass();
@@ -0,0 +1,79 @@
+import { useSparkStore } from '../store/sparkStore';
+import { sparkRegistry } from '../components/SparkRegistry';
+import { SparkEvent, SparkEventMap, SparkEventType } from '../types/spark';
+import { generateId } from '../utils/idUtils';
+import { isEncryptedPayload } from '../utils/sparkCrypto';
+
+type SparkEventListener<T extends SparkEventType> = (event: SparkEvent<T>) => void;
+
+class SparkEventBusClass {
+  private listeners = new Map<SparkEventType | '*', Set<SparkEventListener<any>>>();
+
+  /**
+   * Announce something that happened in a spark. Sparks with an eventHandler
+   * update their data first, then subscribers are called.
+   */
+  publish<T extends SparkEventType>(type: T, sparkId: string, payload: SparkEventMap[T]): SparkEvent<T> {
+    const event: SparkEvent<T> = {
+      id: generateId(),
+      type,
+      sparkId,
+      payload,
+      timestamp: new Date().toISOString(),
+    };
+
+    this.applySparkHandlers(event);
+
+    const listeners = [...(this.listeners.get(type) || []), ...(this.listeners.get('*') || [])];
+    listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Spark event listener failed for ${type}:`, error);
+      }
+    });
+
+    return event;
+  }
+
+  /**
+   * Listen for one event type, or '*' for all of them
+   * @returns Unsubscribe function
+   */
+  subscribe<T extends SparkEventType>(type: T | '*', listener: SparkEventListener<T>): () => void {
+    if (!this.listeners.has(type)) {
+      this.listeners.set(type, new Set());
+    }
+    this.listeners.get(type)!.add(listener);
+
+    return () => {
+      this.listeners.get(type)?.delete(listener);
+    };
+  }
+
+  // Let other sparks react even while they are closed; an open one remounts with the new data
+  private applySparkHandlers(event: SparkEvent): void {
+    Object.entries(sparkRegistry).forEach(([sparkId, spark]) => {
+      if (!spark.eventHandler || sparkId === event.sparkId) {
+        return;
+      }
+
+      // Locked private sparks cannot be read or updated
+      const data = useSparkStore.getState().sparkData[sparkId];
+      if (!data || isEncryptedPayload(data)) {
+        return;
+      }
+
+      try {
+        const updated = spark.eventHandler(event, data);
+        if (updated) {
+          useSparkStore.getState().replaceSparkData(sparkId, updated);
+        }
+      } catch (error) {
+        console.error(`${sparkId} failed to handle ${event.type}:`, error);
+      }
+    });
+  }
+}
+
+export const SparkEventBus = new SparkEventBusClass();
@@ -0,0 +1,182 @@
+import * as LocalAuthentication from 'expo-local-authentication';
+import { useSecurityStore, isPrivateSpark } from '../store/securityStore';
+import { useSparkStore } from '../store/sparkStore';
+import { randomBytes } from '@noble/ciphers/webcrypto';
+import { setPrivateDataKey, getPrivateDataKey } from '../store/privateSparkStorage';
+import {
+  DEFAULT_KDF_PARAMS,
+  deriveKey,
+  encryptPayload,
+  decryptPayload,
+  isEncryptedPayload,
+  toBase64,
+  fromBase64,
+} from '../utils/sparkCrypto';
+import { DreamStorageService } from './DreamStorageService';
+import { SearchService } from './SearchService';
+
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+// Activity is recorded at most this often
+const TOUCH_INTERVAL_MS = 5000;
+
+export const isValidPasscode = (passcode: string): boolean => /^\d{4,8}$/.test(passcode);
+
+class SparkLockServiceClass {
+  hasPasscode(): boolean {
+    return !!useSecurityStore.getState().wrappedDataKey;
+  }
+
+  /**
+   * Whether private sparks may be shown: the passcode was entered this session
+   * and the idle timeout has not passed since the last activity
+   */
+  isUnlocked(now: number = Date.now()): boolean {
+    const { lastActivityAt, lockTimeoutMinutes } = useSecurityStore.getState();
+    return getPrivateDataKey() !== null
+      && lastActivityAt !== null
+      && now - lastActivityAt <= lockTimeoutMinutes * 60 * 1000;
+  }
+
+  // Also covers data that is still encrypted after its spark was made public
+  isSparkLocked(sparkId: string, now: number = Date.now()): boolean {
+    const data = useSparkStore.getState().sparkData[sparkId];
+    return (isPrivateSpark(sparkId) || isEncryptedPayload(data)) && !this.isUnlocked(now);
+  }
+
+  /**
+   * Set the first passcode or change it. Changing it needs private sparks to be unlocked.
+   * @throws Error when the passcode is not 4 to 8 digits
+   */
+  async setPasscode(passcode: string): Promise<void> {
+    if (!isValidPasscode(passcode)) {
+      throw new Error('A passcode is 4 to 8 digits');
+    }
+    if (this.hasPasscode() && !this.isUnlocked()) {
+      throw new Error('Unlock private sparks before changing the passcode');
+    }
+
+    // Data stays encrypted with the same key; only the way to unwrap it changes
+    const dataKey = getPrivateDataKey() ?? randomBytes(KEY_BYTES);
+    const salt = randomBytes(SALT_BYTES);
+    const passcodeKey = await deriveKey(passcode, salt, DEFAULT_KDF_PARAMS);
+
+    useSecurityStore.getState().setPasscode(
+      toBase64(salt),
+      DEFAULT_KDF_PARAMS,
+      encryptPayload(toBase64(dataKey), passcodeKey)
+    );
+    setPrivateDataKey(dataKey);
+    this.markActivity();
+  }
+
+  /**
+   * Unlock private sparks and decrypt their data
+   * @returns false when the passcode is wrong
+   */
+  async unlock(passcode: string): Promise<boolean> {
+    const { passcodeSalt, passcodeKdf, wrappedDataKey } = useSecurityStore.getState();
+    if (!passcodeSalt || !passcodeKdf || !wrappedDataKey) {
+      return false;
+    }
+
+    const passcodeKey = await deriveKey(passcode, fromBase64(passcodeSalt), passcodeKdf);
+    let dataKey: Uint8Array;
+    try {
+      dataKey = fromBase64(decryptPayload(wrappedDataKey, passcodeKey));
+    } catch {
+      return false;
+    }
+
+    if (!getPrivateDataKey()) {
+      setPrivateDataKey(dataKey);
+      useSparkStore.getState().openPrivateSparkData();
+      await DreamStorageService.indexForSearch();
+    }
+    this.markActivity();
+    return true;
+  }
+
+  /**
+   * Whether Face ID / fingerprint can unlock. The key is only kept in memory,
+   * so the passcode is needed once after each app start.
+   */
+  async canUseBiometrics(): Promise<boolean> {
+    if (!useSecurityStore.getState().biometricsEnabled || !getPrivateDataKey()) {
+      return false;
+    }
+    return this.isBiometricsAvailable();
+  }
+
+  async isBiometricsAvailable(): Promise<boolean> {
+    try {
+      return (await LocalAuthentication.hasHardwareAsync()) && (await LocalAuthentication.isEnrolledAsync());
+    } catch (error) {
+      console.error('Failed to check biometrics:', error);
+      return false;
+    }
+  }
+
+  async unlockWithBiometrics(): Promise<boolean> {
+    if (!(await this.canUseBiometrics())) {
+      return false;
+    }
+
+    const result = await LocalAuthentication.authenticateAsync({
+      promptMessage: 'Unlock private sparks',
+      fallbackLabel: 'Use Passcode',
+    });
+    if (result.success) {
+      this.markActivity();
+    }
+    return result.success;
+  }
+
+  lock(): void {
+    useSecurityStore.getState().setLastActivityAt(null);
+  }
+
+  /**
+   * Keep private sparks unlocked while they are being used
+   */
+  touch(): void {
+    const { lastActivityAt } = useSecurityStore.getState();
+    if (this.isUnlocked() && Date.now() - lastActivityAt! >= TOUCH_INTERVAL_MS) {
+      this.markActivity();
+    }
+  }
+
+  /**
+   * Mark a spark private (encrypted, behind the passcode) or public again
+   * @throws Error when no passcode is set or private sparks are locked
+   */
+  async setSparkPrivate(sparkId: string, isPrivate: boolean): Promise<void> {
+    if (!this.hasPasscode()) {
+      throw new Error('Set a passcode first');
+    }
+    if (!this.isUnlocked()) {
+      throw new Error('Unlock private sparks first');
+    }
+
+    const dreams = sparkId === 'dream-catcher' ? await DreamStorageService.getAllDreams() : [];
+
+    const { privateSparkIds, setPrivateSparkIds } = useSecurityStore.getState();
+    setPrivateSparkIds(isPrivate
+      ? [...new Set([...privateSparkIds, sparkId])]
+      : privateSparkIds.filter(id => id !== sparkId));
+
+    // Save again so the stored copy is encrypted or decrypted right away
+    useSparkStore.setState({});
+    if (dreams.length > 0) {
+      await DreamStorageService.rewriteDreams(dreams);
+    } else {
+      SearchService.indexSpark(sparkId, useSparkStore.getState().sparkData[sparkId]);
+    }
+  }
+
+  private markActivity(): void {
+    useSecurityStore.getState().setLastActivityAt(Date.now());
+  }
+}
+
+export const SparkLockService = new SparkLockServiceClass();
@@ -0,0 +1,112 @@
+import { Linking } from 'react-native';
+import { Camera } from 'expo-camera';
+import { Audio } from 'expo-av';
+import * as Location from 'expo-location';
+import * as MediaLibrary from 'expo-media-library';
+import * as Notifications from 'expo-notifications';
+import { getSparkById } from '../components/SparkRegistry';
+import { SparkCapability } from '../types/spark';
+import { getManifestCapabilities } from '../utils/sparkManifest';
+
+type PermissionResponse = { granted: boolean; canAskAgain: boolean };
+
+const PERMISSIONS: Record<SparkCapability, {
+  check: () => Promise<PermissionResponse>;
+  request: () => Promise<PermissionResponse>;
+}> = {
+  camera: {
+    check: () => Camera.getCameraPermissionsAsync(),
+    request: () => Camera.requestCameraPermissionsAsync(),
+  },
+  microphone: {
+    check: () => Audio.getPermissionsAsync(),
+    request: () => Audio.requestPermissionsAsync(),
+  },
+  location: {
+    check: () => Location.getForegroundPermissionsAsync(),
+    request: () => Location.requestForegroundPermissionsAsync(),
+  },
+  notifications: {
+    check: () => Notifications.getPermissionsAsync(),
+    request: () => Notifications.requestPermissionsAsync(),
+  },
+  'media-library': {
+    check: () => MediaLibrary.getPermissionsAsync(),
+    request: () => MediaLibrary.requestPermissionsAsync(),
+  },
+};
+
+export interface PermissionCheck {
+  missing: SparkCapability[]; // Declared but not granted
+  blocked: SparkCapability[]; // Missing ones the system will no longer ask for, only Settings can grant
+}
+
+class SparkPermissionServiceClass {
+  // Sparks the user chose to open without granting, until the app restarts
+  private skippedSparkIds = new Set<string>();
+
+  /**
+   * Which of a spark's declared capabilities still need permission.
+   * A capability whose status can't be read is not reported, so the spark can handle it itself.
+   */
+  async checkSpark(sparkId: string): Promise<PermissionCheck> {
+    const capabilities = getManifestCapabilities(getSparkById(sparkId)?.metadata.manifest);
+    return this.check(capabilities, capability => PERMISSIONS[capability].check());
+  }
+
+  /**
+   * Ask for each capability in turn
+   * @returns The ones still not granted
+   */
+  async requestCapabilities(capabilities: SparkCapability[]): Promise<PermissionCheck> {
+    return this.check(capabilities, capability => PERMISSIONS[capability].request());
+  }
+
+  /**
+   * Whether every capability is granted, without prompting
+   */
+  async hasCapabilities(capabilities: SparkCapability[]): Promise<boolean> {
+    const { missing } = await this.check(capabilities, capability => PERMISSIONS[capability].check());
+    return missing.length === 0;
+  }
+
+  skipForSession(sparkId: string): void {
+    this.skippedSparkIds.add(sparkId);
+  }
+
+  isSkipped(sparkId: string): boolean {
+    return this.skippedSparkIds.has(sparkId);
+  }
+
+  async openSettings(): Promise<void> {
+    try {
+      await Linking.openSettings();
+    } catch (error) {
+      console.error('Failed to open settings:', error);
+    }
+  }
+
+  private async check(
+    capabilities: SparkCapability[],
+    getResponse: (capability: SparkCapability) => Promise<PermissionResponse>
+  ): Promise<PermissionCheck> {
+    const result: PermissionCheck = { missing: [], blocked: [] };
+    // One at a time, since the system shows one prompt at a time
+    for (const capability of capabilities) {
+      try {
+        const response = await getResponse(capability);
+        if (!response.granted) {
+          result.missing.push(capability);
+          if (!response.canAskAgain) {
+            result.blocked.push(capability);
+          }
+        }
+      } catch (error) {
+        console.error(`Failed to get ${capability} permission:`, error);
+      }
+    }
+    return result;
+  }
+}
+
+export const SparkPermissionService = new SparkPermissionServiceClass();
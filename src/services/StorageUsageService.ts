@@ -0,0 +1,310 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useSparkStore } from '../store/sparkStore';
+import { useTrashStore } from '../store/trashStore';
+import { useProfileStore } from '../store/profileStore';
+import { profileStorageKey, currentProfileId } from '../store/profileStorage';
+import { openPrivateValue } from '../store/privateSparkStorage';
+import { sparkRegistry, getSparkById } from '../components/SparkRegistry';
+import { SparkFileStorage } from '../types/spark';
+import { jsonByteLength, byteLength, toDocumentPath } from '../utils/storageUsage';
+import { withTrashedItems } from '../utils/trash';
+import { TrashedItem } from '../types/trash';
+
+// Keys sparkStore and trashStore persist to
+const SPARK_STORE_KEY = 'sparks-data-storage';
+const TRASH_STORE_KEY = 'sparks-trash-storage';
+
+export interface StoredFile {
+  uri: string; // Absolute file URI
+  bytes: number;
+}
+
+export interface SparkStorageUsage {
+  sparkId: string;
+  title: string;
+  icon: string;
+  dataBytes: number; // The spark's JSON in sparks-data-storage
+  cacheBytes: number; // Undo history and quarantined records kept for the spark
+  fileBytes: number; // Referenced files and orphans
+  fileCount: number;
+  orphanedFiles: StoredFile[]; // Files in the spark's folders that its data no longer references
+  missingFiles: string[]; // References to files that no longer exist
+  totalBytes: number;
+}
+
+export interface StorageReport {
+  sparks: SparkStorageUsage[]; // Largest first
+  storeBytes: number; // The whole sparks-data-storage entry
+  totalBytes: number;
+  generatedAt: string;
+}
+
+interface PersistedSparkState {
+  sparkData?: Record<string, any>;
+  sparkHistory?: Record<string, any>;
+  quarantinedData?: Record<string, any>;
+}
+
+interface FileUsage {
+  fileBytes: number;
+  fileCount: number;
+  orphanedFiles: StoredFile[];
+  missingFiles: string[];
+}
+
+class StorageUsageServiceClass {
+  /**
+   * Measure how much storage each spark uses, largest first.
+   * Sparks that use nothing are left out.
+   */
+  async getReport(): Promise<StorageReport> {
+    const { raw, state } = await this.readPersistedState();
+
+    const sparkIds = new Set([
+      ...Object.keys(state.sparkData || {}),
+      ...Object.keys(sparkRegistry).filter(id => sparkRegistry[id].fileStorage),
+    ]);
+
+    const sparks: SparkStorageUsage[] = [];
+    for (const sparkId of sparkIds) {
+      const usage = await this.measureSpark(sparkId, state);
+      if (usage.totalBytes > 0 || usage.missingFiles.length > 0) {
+        sparks.push(usage);
+      }
+    }
+    sparks.sort((a, b) => b.totalBytes - a.totalBytes);
+
+    const storeBytes = byteLength(raw);
+    const fileBytes = sparks.reduce((sum, spark) => sum + spark.fileBytes, 0);
+    return {
+      sparks,
+      storeBytes,
+      totalBytes: storeBytes + fileBytes,
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  async getSparkUsage(sparkId: string): Promise<SparkStorageUsage> {
+    const { state } = await this.readPersistedState();
+    return this.measureSpark(sparkId, state);
+  }
+
+  /**
+   * Drop a spark's undo history and quarantined records. Its data is untouched.
+   */
+  clearCache(sparkId: string): void {
+    const { clearSparkHistory, clearQuarantinedData } = useSparkStore.getState();
+    clearSparkHistory(sparkId);
+    clearQuarantinedData(sparkId);
+  }
+
+  /**
+   * Delete files in a spark's folders that its data no longer references
+   * @returns Number of files and bytes removed
+   */
+  async removeOrphanedFiles(sparkId: string): Promise<{ count: number; bytes: number }> {
+    const fileStorage = getSparkById(sparkId)?.fileStorage;
+    if (!fileStorage) {
+      return { count: 0, bytes: 0 };
+    }
+
+    // Use live data so files referenced since the last save are kept
+    const data = this.openData(useSparkStore.getState().sparkData[sparkId]);
+    const otherProfilesFiles = await this.getOtherProfilesFiles(sparkId);
+    // Locked data can't say which files it uses, so none of them are orphans
+    if (data === null || otherProfilesFiles === null) {
+      return { count: 0, bytes: 0 };
+    }
+    const { orphanedFiles } = await this.measureFiles(fileStorage, this.withTrash(sparkId, data), otherProfilesFiles);
+
+    let count = 0;
+    let bytes = 0;
+    for (const file of orphanedFiles) {
+      try {
+        await FileSystem.deleteAsync(file.uri, { idempotent: true });
+        count++;
+        bytes += file.bytes;
+      } catch (error) {
+        console.error(`Failed to delete orphaned file ${file.uri}:`, error);
+      }
+    }
+    return { count, bytes };
+  }
+
+  /**
+   * Paths under documentDirectory of the files a spark's data references, e.g. "foodcam/1.jpg"
+   */
+  getReferencedPaths(sparkId: string, data: Record<string, any>): string[] {
+    const fileStorage = getSparkById(sparkId)?.fileStorage;
+    const documentDirectory = FileSystem.documentDirectory;
+    if (!fileStorage || Platform.OS === 'web' || !documentDirectory) {
+      return [];
+    }
+
+    const paths = fileStorage.getFileUris(data)
+      .map(uri => toDocumentPath(uri, documentDirectory, fileStorage.directories))
+      .filter((path): path is string => !!path);
+    return [...new Set(paths)];
+  }
+
+  private async readPersistedState(): Promise<{ raw: string; state: PersistedSparkState }> {
+    try {
+      const raw = await AsyncStorage.getItem(profileStorageKey(SPARK_STORE_KEY, currentProfileId()));
+      if (raw) {
+        return { raw, state: JSON.parse(raw).state || {} };
+      }
+    } catch (error) {
+      console.error('Failed to read persisted spark data:', error);
+    }
+
+    // Nothing written yet; measure what would be written
+    const { sparkData, sparkHistory, quarantinedData } = useSparkStore.getState();
+    const state = { sparkData, sparkHistory, quarantinedData };
+    return { raw: JSON.stringify({ state }), state };
+  }
+
+  private async measureSpark(sparkId: string, state: PersistedSparkState): Promise<SparkStorageUsage> {
+    const spark = getSparkById(sparkId);
+    const data = state.sparkData?.[sparkId];
+    const dataBytes = jsonByteLength(data);
+    const cacheBytes = jsonByteLength(state.sparkHistory?.[sparkId]) + jsonByteLength(state.quarantinedData?.[sparkId]);
+
+    const files: FileUsage = spark?.fileStorage
+      ? await this.measureFiles(
+        spark.fileStorage,
+        this.withTrash(sparkId, this.openData(data) || {}),
+        await this.getOtherProfilesFiles(sparkId) || new Set()
+      )
+      : { fileBytes: 0, fileCount: 0, orphanedFiles: [], missingFiles: [] };
+
+    return {
+      sparkId,
+      title: spark?.metadata.title || sparkId,
+      icon: spark?.metadata.icon || '📦',
+      dataBytes,
+      cacheBytes,
+      ...files,
+      totalBytes: dataBytes + cacheBytes + files.fileBytes,
+    };
+  }
+
+  // Files of trashed items stay until the items are purged
+  private withTrash(sparkId: string, data: Record<string, any>): Record<string, any> {
+    const trashed = useTrashStore.getState().items.filter(item => item.sparkId === sparkId);
+    return withTrashedItems(data, trashed);
+  }
+
+  // A private spark's data, decrypted when unlocked; null while it is locked
+  private openData(data: Record<string, any> | undefined): Record<string, any> | null {
+    try {
+      return openPrivateValue(data || {});
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Files of a spark that other profiles' data or trash references. The media folders
+   * are shared by every profile, so these are never this profile's orphans.
+   * Null when another profile's copy is locked and its files can't be known.
+   */
+  private async getOtherProfilesFiles(sparkId: string): Promise<Set<string> | null> {
+    const files = new Set<string>();
+    const activeProfileId = currentProfileId();
+    for (const profile of useProfileStore.getState().profiles) {
+      if (profile.id === activeProfileId) continue;
+
+      const sparkData = (await this.readStoredState(SPARK_STORE_KEY, profile.id)).sparkData || {};
+      const trashed: TrashedItem[] = ((await this.readStoredState(TRASH_STORE_KEY, profile.id)).items || [])
+        .filter((item: TrashedItem) => item.sparkId === sparkId);
+      const data = this.openData(sparkData[sparkId]);
+      if (data === null) {
+        return null;
+      }
+      this.getReferencedPaths(sparkId, withTrashedItems(data, trashed))
+        .forEach(path => files.add(`${FileSystem.documentDirectory}${path}`));
+    }
+    return files;
+  }
+
+  private async readStoredState(name: string, profileId: string): Promise<Record<string, any>> {
+    try {
+      const raw = await AsyncStorage.getItem(profileStorageKey(name, profileId));
+      return (raw && JSON.parse(raw).state) || {};
+    } catch (error) {
+      console.error(`Failed to read ${name} of profile ${profileId}:`, error);
+      return {};
+    }
+  }
+
+  /**
+   * @param sharedFiles Files other profiles use; left out of this profile's usage and orphans
+   */
+  private async measureFiles(
+    fileStorage: SparkFileStorage,
+    data: Record<string, any>,
+    sharedFiles: Set<string> = new Set()
+  ): Promise<FileUsage> {
+    const usage: FileUsage = { fileBytes: 0, fileCount: 0, orphanedFiles: [], missingFiles: [] };
+    const documentDirectory = FileSystem.documentDirectory;
+    if (Platform.OS === 'web' || !documentDirectory) {
+      return usage;
+    }
+
+    const referenced = new Set<string>();
+    for (const uri of fileStorage.getFileUris(data)) {
+      const path = toDocumentPath(uri, documentDirectory, fileStorage.directories);
+      // Files outside documentDirectory (e.g. swing videos in the camera cache) are measured in place
+      const absolute = path !== null ? `${documentDirectory}${path}` : uri.startsWith('file:') ? uri : null;
+      if (!absolute || referenced.has(absolute)) continue;
+      referenced.add(absolute);
+
+      const bytes = await this.getFileSize(absolute);
+      if (bytes === null) {
+        usage.missingFiles.push(uri);
+      } else {
+        usage.fileBytes += bytes;
+        usage.fileCount++;
+      }
+    }
+
+    for (const dir of fileStorage.directories) {
+      const dirUri = `${documentDirectory}${dir}`;
+      try {
+        const info = await FileSystem.getInfoAsync(dirUri);
+        if (!info.exists) continue;
+
+        const names = await FileSystem.readDirectoryAsync(dirUri);
+        for (const name of names) {
+          const uri = `${dirUri}${name}`;
+          if (referenced.has(uri) || sharedFiles.has(uri)) continue;
+
+          const bytes = await this.getFileSize(uri);
+          if (bytes !== null) {
+            usage.orphanedFiles.push({ uri, bytes });
+            usage.fileBytes += bytes;
+            usage.fileCount++;
+          }
+        }
+      } catch (error) {
+        console.error(`Failed to scan ${dir} for storage usage:`, error);
+      }
+    }
+
+    return usage;
+  }
+
+  // Size in bytes, or null when the file does not exist (folders count as missing)
+  private async getFileSize(uri: string): Promise<number | null> {
+    try {
+      const info = await FileSystem.getInfoAsync(uri, { size: true });
+      return info.exists && !info.isDirectory ? info.size : null;
+    } catch (error) {
+      return null;
+    }
+  }
+}
+
+export const StorageUsageService = new StorageUsageServiceClass();
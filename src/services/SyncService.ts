@@ -0,0 +1,298 @@
+import { AppState, NativeEventSubscription } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useSparkStore } from '../store/sparkStore';
+import { currentProfileId, DEFAULT_PROFILE_ID } from '../store/profileStorage';
+import { isPrivateSpark } from '../store/securityStore';
+import { sparkRegistry, getSparkById } from '../components/SparkRegistry';
+import { ServiceFactory } from './ServiceFactory';
+import {
+  SyncClock,
+  SyncHashes,
+  SyncedSparkData,
+  emptyClock,
+  hashSyncedData,
+  mergeSyncedData,
+  stampChanges,
+} from '../utils/syncMerge';
+
+const SYNC_STATE_KEY = '@sparks-sync/state';
+
+// Wait for a burst of edits to settle before pushing
+const FLUSH_DELAY_MS = 2000;
+// Retry interval while the backend is unreachable
+const RETRY_DELAY_MS = 30000;
+
+export type SyncStatus = 'signed-out' | 'idle' | 'syncing' | 'offline';
+
+// Implemented by WebFirebaseService and MockFirebaseService
+export interface SparkSyncBackend {
+  getSparkSyncDocuments(userId: string): Promise<Record<string, SyncedSparkData>>;
+  getSparkSyncDocument(userId: string, sparkId: string): Promise<SyncedSparkData | null>;
+  setSparkSyncDocument(userId: string, sparkId: string, document: SyncedSparkData): Promise<void>;
+}
+
+interface PersistedSyncState {
+  clocks: Record<string, SyncClock>;
+  hashes: Record<string, SyncHashes>;
+  pending: string[]; // Offline queue: sparks with changes not yet pushed
+}
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+class SyncServiceClass {
+  private userId: string | null = null;
+  private state: PersistedSyncState = { clocks: {}, hashes: {}, pending: [] };
+  private status: SyncStatus = 'signed-out';
+  private statusListeners = new Set<(status: SyncStatus) => void>();
+  private started = false;
+  private applyingRemote = false;
+  private running: Promise<void> | null = null;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribeStore: (() => void) | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+
+  /**
+   * Load the offline queue and start watching sparkStore for changes.
+   * Call once after sparkStore has hydrated; nothing syncs before that.
+   */
+  async start(): Promise<void> {
+    // The account belongs to the main profile; other local profiles stay on the device
+    if (this.started || currentProfileId() !== DEFAULT_PROFILE_ID) return;
+    this.started = true;
+
+    try {
+      const saved = await AsyncStorage.getItem(SYNC_STATE_KEY);
+      if (saved) {
+        this.state = { ...this.state, ...JSON.parse(saved) };
+      }
+    } catch (error) {
+      console.error('Failed to load sync state:', error);
+    }
+
+    // Pick up changes made while the app was not watching (e.g. before a crash)
+    Object.keys(useSparkStore.getState().sparkData).forEach(sparkId => {
+      if (this.isSyncedSpark(sparkId)) {
+        this.stamp(sparkId);
+      }
+    });
+    await this.saveState();
+
+    this.unsubscribeStore = useSparkStore.subscribe((state, previous) => {
+      if (this.applyingRemote || !state.isHydrated || state.sparkData === previous.sparkData) return;
+
+      Object.keys(state.sparkData).forEach(sparkId => {
+        if (state.sparkData[sparkId] !== previous.sparkData[sparkId] && this.isSyncedSpark(sparkId)) {
+          this.stamp(sparkId);
+        }
+      });
+      this.scheduleFlush(FLUSH_DELAY_MS);
+    });
+
+    this.appStateSubscription = AppState.addEventListener('change', appState => {
+      if (appState === 'active') {
+        this.scheduleFlush(0);
+      }
+    });
+
+    // The user may have signed in while the store was still loading
+    if (this.userId) {
+      await this.syncAll();
+    }
+  }
+
+  stop(): void {
+    this.unsubscribeStore?.();
+    this.unsubscribeStore = null;
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.started = false;
+  }
+
+  /**
+   * Sync as this account, or stop syncing when null. Signing in pulls the
+   * account's data and merges it with what is on the device.
+   */
+  async setUser(userId: string | null): Promise<void> {
+    if (userId === this.userId) return;
+    this.userId = userId;
+
+    if (!userId) {
+      this.setStatus('signed-out');
+      return;
+    }
+    await this.syncAll();
+  }
+
+  isSyncedSpark(sparkId: string): boolean {
+    return !!getSparkById(sparkId)?.cloudSync && !isPrivateSpark(sparkId);
+  }
+
+  getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  getPendingCount(): number {
+    return this.state.pending.length;
+  }
+
+  onStatusChange(listener: (status: SyncStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Merge every synced spark with the account's copy
+   */
+  async syncAll(): Promise<void> {
+    await this.run(async (userId, backend) => {
+      const remote = await backend.getSparkSyncDocuments(userId);
+      const sparkIds = new Set([
+        ...Object.keys(remote),
+        ...Object.keys(useSparkStore.getState().sparkData),
+      ]);
+
+      for (const sparkId of sparkIds) {
+        if (this.isSyncedSpark(sparkId)) {
+          await this.syncSpark(userId, backend, sparkId, remote[sparkId] || null);
+        }
+      }
+    });
+  }
+
+  /**
+   * Push queued changes now
+   */
+  async flush(): Promise<void> {
+    await this.run(async (userId, backend) => {
+      for (const sparkId of [...this.state.pending]) {
+        const remote = await backend.getSparkSyncDocument(userId, sparkId);
+        await this.syncSpark(userId, backend, sparkId, remote);
+      }
+    });
+  }
+
+  // One sync at a time; failures leave the queue intact and retry later
+  private async run(task: (userId: string, backend: SparkSyncBackend) => Promise<void>): Promise<void> {
+    while (this.running) {
+      await this.running;
+    }
+    const userId = this.userId;
+    if (!userId || !this.started) return;
+
+    this.running = (async () => {
+      this.setStatus('syncing');
+      try {
+        await ServiceFactory.ensureFirebaseInitialized();
+        await task(userId, ServiceFactory.getFirebaseService());
+        this.setStatus('idle');
+      } catch (error) {
+        console.error('Spark data sync failed, will retry:', error);
+        this.setStatus('offline');
+        this.scheduleFlush(RETRY_DELAY_MS);
+      } finally {
+        await this.saveState();
+        this.running = null;
+      }
+    })();
+    await this.running;
+  }
+
+  private async syncSpark(
+    userId: string,
+    backend: SparkSyncBackend,
+    sparkId: string,
+    remote: SyncedSparkData | null
+  ): Promise<void> {
+    this.stamp(sparkId);
+    const schemaVersion = sparkRegistry[sparkId]?.dataSchema?.version ?? 0;
+    if (remote && (remote.schemaVersion ?? 0) !== schemaVersion) {
+      // Merging data of different shapes would corrupt it; wait until both devices are updated
+      console.warn(`Skipping sync of ${sparkId}: account data is schema v${remote.schemaVersion ?? 0}, this app uses v${schemaVersion}`);
+      return;
+    }
+
+    const localData = useSparkStore.getState().sparkData[sparkId] || {};
+    const local: SyncedSparkData = {
+      data: localData,
+      clock: this.state.clocks[sparkId] || emptyClock(),
+      updatedAt: Date.now(),
+      schemaVersion,
+    };
+    const merged = remote ? { ...mergeSyncedData(local, remote), schemaVersion } : local;
+
+    if (!remote || !sameJson(merged.data, remote.data) || !sameJson(merged.clock, remote.clock)) {
+      await backend.setSparkSyncDocument(userId, sparkId, { ...merged, updatedAt: Date.now() });
+    }
+    if (!sameJson(merged.data, localData)) {
+      this.applyRemoteData(sparkId, merged.data);
+    }
+
+    this.state.clocks[sparkId] = merged.clock;
+    this.state.hashes[sparkId] = hashSyncedData(merged.data, merged.clock);
+    this.state.pending = this.state.pending.filter(id => id !== sparkId);
+  }
+
+  private applyRemoteData(sparkId: string, data: Record<string, any>): void {
+    this.applyingRemote = true;
+    try {
+      const store = useSparkStore.getState();
+      store.replaceSparkData(sparkId, data);
+      // Data arriving from another device should show up in My Sparks
+      if (!store.userSparkIds.includes(sparkId)) {
+        useSparkStore.setState({ userSparkIds: [...store.userSparkIds, sparkId] });
+      }
+    } finally {
+      this.applyingRemote = false;
+    }
+  }
+
+  // Record change times for anything edited since the last stamp and queue the spark
+  private stamp(sparkId: string): void {
+    const data = useSparkStore.getState().sparkData[sparkId] || {};
+    const result = stampChanges(
+      data,
+      this.state.clocks[sparkId] || emptyClock(),
+      this.state.hashes[sparkId] || {},
+      Date.now()
+    );
+
+    this.state.clocks[sparkId] = result.clock;
+    this.state.hashes[sparkId] = result.hashes;
+    if (result.changed && !this.state.pending.includes(sparkId)) {
+      this.state.pending.push(sparkId);
+    }
+  }
+
+  private scheduleFlush(delay: number): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.saveState();
+      this.flush();
+    }, delay);
+  }
+
+  private async saveState(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(SYNC_STATE_KEY, JSON.stringify(this.state));
+    } catch (error) {
+      console.error('Failed to save sync state:', error);
+    }
+  }
+
+  private setStatus(status: SyncStatus): void {
+    if (status === this.status) return;
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+}
+
+export const SyncService = new SyncServiceClass();
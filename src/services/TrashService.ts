@@ -0,0 +1,107 @@
+import { useSparkStore } from '../store/sparkStore';
+import { useTrashStore } from '../store/trashStore';
+import { whenHydrated } from '../store/hydration';
+import { getSparkById } from '../components/SparkRegistry';
+import { TrashedItem } from '../types/trash';
+import { generateId } from '../utils/idUtils';
+import { isEncryptedPayload } from '../utils/sparkCrypto';
+import { isTrashExpired, restoreTrashedItem } from '../utils/trash';
+import { StorageUsageService } from './StorageUsageService';
+
+type TrashableItem = { id: string | number };
+
+class TrashServiceClass {
+  /**
+   * Move one item of a spark's list to the trash
+   * @param collection Key of the list in the spark's data
+   * @returns The list without the item, for the spark to save
+   */
+  removeItem<T extends TrashableItem>(sparkId: string, collection: string, items: T[], itemId: T['id'], label: string): T[] {
+    const item = items.find(candidate => candidate.id === itemId);
+    if (item) {
+      this.trashItem(sparkId, collection, item, label);
+    }
+    return items.filter(candidate => candidate.id !== itemId);
+  }
+
+  /**
+   * Keep a copy of an item a spark has removed from its data
+   */
+  trashItem(sparkId: string, collection: string, item: TrashableItem, label: string): TrashedItem {
+    const trashed: TrashedItem = {
+      id: generateId(),
+      sparkId,
+      collection,
+      itemId: item.id,
+      item: JSON.parse(JSON.stringify(item)),
+      label: label.trim() || 'Untitled',
+      deletedAt: new Date().toISOString(),
+    };
+    useTrashStore.getState().addItem(trashed);
+    return trashed;
+  }
+
+  getItems(sparkId?: string): TrashedItem[] {
+    const { items } = useTrashStore.getState();
+    return sparkId ? items.filter(item => item.sparkId === sparkId) : items;
+  }
+
+  /**
+   * Put an item back into its spark's data
+   * @throws Error when the item is gone or the spark is locked
+   */
+  restore(trashId: string): void {
+    const trashed = useTrashStore.getState().items.find(item => item.id === trashId);
+    if (!trashed) {
+      throw new Error('This item is no longer in the trash');
+    }
+
+    const { sparkData, checkpointSparkData, replaceSparkData } = useSparkStore.getState();
+    const data = sparkData[trashed.sparkId] || {};
+    if (isEncryptedPayload(data)) {
+      const title = getSparkById(trashed.sparkId)?.metadata.title || trashed.sparkId;
+      throw new Error(`Unlock ${title} before restoring its items`);
+    }
+
+    checkpointSparkData(trashed.sparkId, `Restore ${trashed.label}`);
+    replaceSparkData(trashed.sparkId, restoreTrashedItem(data, trashed));
+    useTrashStore.getState().removeItems([trashId]);
+  }
+
+  /**
+   * Delete items for good, along with files only they referenced
+   */
+  async purge(trashIds: string[]): Promise<void> {
+    const { items, removeItems } = useTrashStore.getState();
+    const sparkIds = new Set(items.filter(item => trashIds.includes(item.id)).map(item => item.sparkId));
+    removeItems(trashIds);
+
+    for (const sparkId of sparkIds) {
+      if (!getSparkById(sparkId)?.fileStorage) continue;
+      try {
+        await StorageUsageService.removeOrphanedFiles(sparkId);
+      } catch (error) {
+        console.error(`Failed to remove files of purged ${sparkId} items:`, error);
+      }
+    }
+  }
+
+  /**
+   * Purge items deleted more than TRASH_RETENTION_DAYS ago
+   * @returns Number of items purged
+   */
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    await whenHydrated(useTrashStore);
+    const expired = useTrashStore.getState().items.filter(item => isTrashExpired(item, now));
+    if (expired.length > 0) {
+      await this.purge(expired.map(item => item.id));
+    }
+    return expired.length;
+  }
+
+  async emptyTrash(): Promise<void> {
+    await this.purge(useTrashStore.getState().items.map(item => item.id));
+  }
+}
+
+export const TrashService = new TrashServiceClass();
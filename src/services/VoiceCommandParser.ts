@@ -0,0 +1,35 @@
+import { getAllSparks } from '../components/SparkRegistry';
+import { LOCAL_CONFIDENCE_THRESHOLD, parseLocalCommands, splitListCommands } from '../utils/commandGrammar';
+import { GeminiCommandParser, ParsedCommand } from './GeminiCommandParser';
+
+// Which parser runs first:
+// - 'local-first': the offline grammar, asking Gemini only when it isn't sure
+// - 'ai-first': Gemini, with the offline grammar when Gemini fails or can't tell
+// - 'local-only': never send commands to Gemini
+export type CommandParserPolicy = 'local-first' | 'ai-first' | 'local-only';
+
+export const DEFAULT_PARSER_POLICY: CommandParserPolicy = 'local-first';
+
+const isUnderstood = (commands: ParsedCommand[]) => commands.some(command => command.targetSpark !== 'unknown');
+
+export const VoiceCommandParser = {
+  // One command per step ("...and then open shop") and per listed item ("milk, eggs and bread"), in order
+  parseCommands: async (
+    transcript: string,
+    policy: CommandParserPolicy = DEFAULT_PARSER_POLICY
+  ): Promise<ParsedCommand[]> => {
+    const sparks = getAllSparks();
+    const local = parseLocalCommands(transcript, sparks);
+
+    if (policy === 'local-only') {
+      return splitListCommands(local, sparks);
+    }
+    if (policy === 'local-first' && local.every(command => command.confidence >= LOCAL_CONFIDENCE_THRESHOLD)) {
+      return splitListCommands(local, sparks);
+    }
+
+    // Without a key or network Gemini returns 'unknown' with the error, so a weaker offline guess still beats it
+    const ai = await GeminiCommandParser.parseCommands(transcript);
+    return splitListCommands(isUnderstood(ai) || !isUnderstood(local) ? ai : local, sparks);
+  }
+};
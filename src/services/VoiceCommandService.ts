@@ -1,11 +1,45 @@
 import { ExpoSpeechRecognitionModule, useSpeechRecognitionEvent } from 'expo-speech-recognition';
+import * as Speech from 'expo-speech';
 import { isExpoGo } from '../utils/expoGoDetection';
+import { createUtteranceSegmenter, isStopPhrase, UtteranceSegmenter } from '../utils/handsFree';
+import { getSpeechLocale } from '../i18n';
+
+// How long a pause ends an utterance in a hands-free session
+const DEFAULT_SILENCE_MS = 1200;
+
+// Recognizer errors that only mean nobody spoke; the session just listens again
+const QUIET_ERRORS = ['no-speech', 'speech-timeout', 'aborted'];
+
+export interface ListeningOptions {
+    locale?: string; // BCP 47, e.g. 'es-ES'; the voice language from settings when not given
+    continuous?: boolean;
+}
+
+export type HandsFreeState = 'idle' | 'listening' | 'processing' | 'speaking';
+
+export interface HandsFreeSessionOptions {
+    locale?: string;
+    silenceMs?: number;
+    // Handles one utterance. Text returned (or an Error's message) is read back before listening again.
+    onUtterance: (text: string) => string | void | Promise<string | void>;
+    onStateChange?: (state: HandsFreeState) => void;
+    onError?: (error: string) => void;
+}
+
+interface HandsFreeSession {
+    options: HandsFreeSessionOptions;
+    locale: string;
+    segmenter: UtteranceSegmenter;
+    subscriptions: { remove: () => void }[];
+    state: HandsFreeState;
+}
 
 class VoiceCommandServiceClass {
     private isListening = false;
     private onResultCallback: ((text: string, isFinal: boolean) => void) | null = null;
     private onErrorCallback: ((error: string) => void) | null = null;
     private onStateChangeCallback: ((isListening: boolean) => void) | null = null;
+    private session: HandsFreeSession | null = null;
 
     constructor() {
         // No direct event listeners needed here as we'll use the module methods directly
@@ -32,7 +66,8 @@ class VoiceCommandServiceClass {
     async startListening(
         onResult: (text: string, isFinal: boolean) => void,
         onError: (error: string) => void,
-        onStateChange: (isListening: boolean) => void
+        onStateChange: (isListening: boolean) => void,
+        { locale = getSpeechLocale(), continuous = false }: ListeningOptions = {}
     ) {
         if (this.isListening) return;
 
@@ -55,10 +90,10 @@ class VoiceCommandServiceClass {
             this.onStateChangeCallback(true);
 
             await ExpoSpeechRecognitionModule.start({
-                lang: 'en-US',
+                lang: locale,
                 interimResults: true,
                 maxAlternatives: 1,
-                continuous: false,
+                continuous,
                 requiresOnDeviceRecognition: false,
                 addsPunctuation: true,
             });
@@ -88,6 +123,137 @@ class VoiceCommandServiceClass {
         }
     }
 
+    /**
+     * Listens until stopped, handing each utterance (speech up to a pause) to
+     * `onUtterance` and reading its reply back, so commands can be given one after
+     * another without touching the phone. Saying "stop listening" ends the session.
+     * Resolves false when recognition can't start.
+     */
+    async startSession(options: HandsFreeSessionOptions): Promise<boolean> {
+        await this.stopSession();
+        await this.stopListening();
+
+        if (isExpoGo()) {
+            options.onError?.('Speech recognition is not available in Expo Go. Please use a development build.');
+            return false;
+        }
+        if (!(await this.requestPermissions())) {
+            options.onError?.('Microphone permission denied');
+            return false;
+        }
+
+        const session: HandsFreeSession = {
+            options,
+            locale: options.locale || getSpeechLocale(),
+            segmenter: createUtteranceSegmenter(options.silenceMs ?? DEFAULT_SILENCE_MS, text => {
+                this.handleUtterance(session, text);
+            }),
+            subscriptions: [],
+            state: 'idle',
+        };
+        session.subscriptions = [
+            ExpoSpeechRecognitionModule.addListener('result', event => {
+                if (session.state === 'listening') {
+                    session.segmenter.push(event.results[0]?.transcript ?? '', event.isFinal);
+                }
+            }),
+            ExpoSpeechRecognitionModule.addListener('error', event => {
+                if (!QUIET_ERRORS.includes(event.error)) {
+                    options.onError?.(event.message || event.error);
+                    this.stopSession();
+                }
+            }),
+            // Recognizers give up after a while even in continuous mode
+            ExpoSpeechRecognitionModule.addListener('end', () => {
+                if (this.session === session && session.state === 'listening') {
+                    session.segmenter.flush();
+                    if (session.state === 'listening') {
+                        this.recognize(session);
+                    }
+                }
+            }),
+        ];
+        this.session = session;
+        this.recognize(session);
+        return this.session === session;
+    }
+
+    async stopSession() {
+        const session = this.session;
+        if (!session) return;
+
+        this.session = null;
+        session.segmenter.reset();
+        session.subscriptions.forEach(subscription => subscription.remove());
+        Speech.stop();
+        try {
+            await ExpoSpeechRecognitionModule.abort();
+        } catch (error) {
+            console.error('Error stopping hands-free session:', error);
+        }
+        this.setSessionState(session, 'idle');
+    }
+
+    isSessionActive(): boolean {
+        return this.session !== null;
+    }
+
+    private setSessionState(session: HandsFreeSession, state: HandsFreeState) {
+        session.state = state;
+        session.options.onStateChange?.(state);
+    }
+
+    private recognize(session: HandsFreeSession) {
+        this.setSessionState(session, 'listening');
+        try {
+            ExpoSpeechRecognitionModule.start({
+                lang: session.locale,
+                interimResults: true,
+                maxAlternatives: 1,
+                continuous: true,
+                requiresOnDeviceRecognition: false,
+                addsPunctuation: false,
+            });
+        } catch (error: any) {
+            session.options.onError?.(error.message || 'Failed to start recording');
+            this.stopSession();
+        }
+    }
+
+    // Recognition pauses while the utterance is handled and the reply is read, so the reply isn't heard as speech
+    private async handleUtterance(session: HandsFreeSession, text: string) {
+        this.setSessionState(session, 'processing');
+        ExpoSpeechRecognitionModule.abort();
+
+        if (isStopPhrase(text)) {
+            await this.stopSession();
+            return;
+        }
+
+        let reply: string | void;
+        try {
+            reply = await session.options.onUtterance(text);
+        } catch (error: any) {
+            reply = error.message;
+        }
+        if (this.session !== session) return;
+
+        if (reply) {
+            this.setSessionState(session, 'speaking');
+            await new Promise<void>(resolve => {
+                Speech.speak(reply as string, {
+                    language: session.locale,
+                    onDone: () => resolve(),
+                    onStopped: () => resolve(),
+                    onError: () => resolve(),
+                });
+            });
+        }
+        if (this.session === session) {
+            this.recognize(session);
+        }
+    }
+
     isAvailable(): boolean {
         return !isExpoGo(); // Not available in Expo Go
     }
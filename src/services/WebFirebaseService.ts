@@ -38,6 +38,7 @@ import {
   SessionData,
 } from "../types/analytics";
 import { getFirebaseApp, validateFirebaseConfig } from "./firebaseConfig";
+import { SyncedSparkData } from "../utils/syncMerge";
 
 export class WebFirebaseService {
   private static _initialized: boolean = false;
@@ -996,6 +997,66 @@ export class WebFirebaseService {
     return this.getFeedback(sparkId); // No userId to get all feedback for spark
   }
 
+  // Spark data sync: users/{uid}/sparkData/{sparkId}. Data and clock are stored
+  // as JSON strings because Firestore rejects nested arrays and undefined values.
+  private static toSyncedSparkData(data: any): SyncedSparkData {
+    return {
+      data: JSON.parse(data.payload || "{}"),
+      clock: JSON.parse(data.clock || '{"fields":{},"items":{},"deleted":{}}'),
+      updatedAt: data.updatedAt || 0,
+      schemaVersion: data.schemaVersion ?? 0,
+    };
+  }
+
+  static async getSparkSyncDocuments(
+    userId: string
+  ): Promise<Record<string, SyncedSparkData>> {
+    if (!this._initialized || !this.db) {
+      throw new Error("Firebase not initialized");
+    }
+
+    const snapshot = await getDocs(
+      collection(this.db, "users", userId, "sparkData")
+    );
+    const documents: Record<string, SyncedSparkData> = {};
+    snapshot.docs.forEach((sparkDoc) => {
+      documents[sparkDoc.id] = this.toSyncedSparkData(sparkDoc.data());
+    });
+    return documents;
+  }
+
+  static async getSparkSyncDocument(
+    userId: string,
+    sparkId: string
+  ): Promise<SyncedSparkData | null> {
+    if (!this._initialized || !this.db) {
+      throw new Error("Firebase not initialized");
+    }
+
+    const sparkDoc = await getDoc(
+      doc(this.db, "users", userId, "sparkData", sparkId)
+    );
+    return sparkDoc.exists() ? this.toSyncedSparkData(sparkDoc.data()) : null;
+  }
+
+  static async setSparkSyncDocument(
+    userId: string,
+    sparkId: string,
+    document: SyncedSparkData
+  ): Promise<void> {
+    if (!this._initialized || !this.db) {
+      throw new Error("Firebase not initialized");
+    }
+
+    await setDoc(doc(this.db, "users", userId, "sparkData", sparkId), {
+      payload: JSON.stringify(document.data),
+      clock: JSON.stringify(document.clock),
+      updatedAt: document.updatedAt,
+      schemaVersion: document.schemaVersion ?? 0,
+      syncedAt: serverTimestamp(),
+    });
+  }
+
   static async deleteUserData(userId: string): Promise<void> {
     if (!this._initialized || !this.db) {
       throw new Error("Firebase not initialized");
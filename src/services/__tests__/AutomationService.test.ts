@@ -0,0 +1,118 @@
+jest.mock('../../components/SparkRegistry', () => {
+    const { todoVoiceIntents } = jest.requireActual('../../sparks/TodoSpark/voiceIntents');
+    const { packingListVoiceIntents } = jest.requireActual('../../sparks/PackingListSpark/voiceIntents');
+    const { goalTrackerVoiceIntents } = jest.requireActual('../../sparks/GoalTrackerSpark/voiceIntents');
+    const registry: Record<string, any> = {
+        todo: { metadata: { id: 'todo', title: 'Todo List' }, voiceIntents: todoVoiceIntents },
+        'packing-list': { metadata: { id: 'packing-list', title: 'Packing List' }, voiceIntents: packingListVoiceIntents },
+        'goal-tracker': { metadata: { id: 'goal-tracker', title: 'Goal Tracker' }, voiceIntents: goalTrackerVoiceIntents },
+    };
+    return {
+        sparkRegistry: registry,
+        getSparkById: (id: string) => registry[id],
+    };
+});
+
+jest.mock('../StorageUsageService', () => ({
+    StorageUsageService: { removeOrphanedFiles: jest.fn(async () => ({ count: 0, bytes: 0 })) },
+}));
+
+jest.mock('expo-local-authentication', () => ({}));
+
+import { AutomationService } from '../AutomationService';
+import { SparkEventBus } from '../SparkEventBus';
+import { useSparkStore } from '../../store/sparkStore';
+import { useAutomationStore } from '../../store/automationStore';
+
+// Monday 5 October 2026, local time
+const monday = new Date(2026, 9, 5, 9, 30);
+
+describe('AutomationService', () => {
+    beforeEach(() => {
+        AutomationService.stop();
+        useAutomationStore.setState({ rules: [], runLog: [] });
+        useSparkStore.setState({
+            sparkData: {
+                'coming-up': { events: [{ id: 'e1', title: 'Beach trip', date: '2026-10-12', type: 'one-time', category: 'trip' }] },
+                'goal-tracker': { goals: [{ id: 'g1', name: 'Play 20 rounds', entries: [], updatedAt: '' }] },
+            },
+            userSparkIds: ['todo', 'coming-up', 'packing-list', 'goal-tracker'],
+            isHydrated: true,
+        });
+    });
+
+    it('adds a to-do every Monday, once', async () => {
+        AutomationService.createRule('Weigh in', { type: 'weekly', weekday: 1 }, {
+            targetSpark: 'todo',
+            action: 'create',
+            params: { text: 'Weigh in' },
+        });
+
+        await AutomationService.evaluate(monday);
+        await AutomationService.evaluate(monday);
+
+        const todos = useSparkStore.getState().sparkData.todo.todos;
+        expect(todos.map((t: any) => t.text)).toEqual(['Weigh in']);
+        expect(useAutomationStore.getState().runLog).toHaveLength(1);
+        expect(useAutomationStore.getState().runLog[0]).toMatchObject({ ruleName: 'Weigh in', reason: 'Monday', success: true });
+    });
+
+    it('adds a packing reminder when a Coming Up event is a week away', async () => {
+        AutomationService.createRule('Trip packing', { type: 'event-approaching', daysBefore: 7 }, {
+            targetSpark: 'packing-list',
+            action: 'add',
+            params: { item: 'Pack for {title}' },
+        });
+
+        const entries = await AutomationService.evaluate(monday);
+
+        expect(entries).toHaveLength(1);
+        expect(useSparkStore.getState().sparkData['packing-list'].items)
+            .toEqual([{ id: expect.any(String), item: 'Pack for Beach trip', count: 1, packed: false }]);
+    });
+
+    it('logs a goal entry when a Skins round finishes', async () => {
+        AutomationService.createRule('Count skins', { type: 'spark-event', eventType: 'round.finished', sparkId: 'skins' }, {
+            targetSpark: 'goal-tracker',
+            action: 'add',
+            params: { goal: 'play 20 rounds' },
+        });
+        AutomationService.start();
+
+        SparkEventBus.publish('round.finished', 'skins', { roundId: '1' });
+        SparkEventBus.publish('round.finished', 'scorecard', { roundId: '2' });
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        expect(useSparkStore.getState().sparkData['goal-tracker'].goals[0].entries).toHaveLength(1);
+    });
+
+    it('logs failures and skips disabled rules', async () => {
+        const rule = AutomationService.createRule('Missing goal', { type: 'weekly', weekday: 1 }, {
+            targetSpark: 'goal-tracker',
+            action: 'add',
+            params: { goal: 'Read books' },
+        });
+        AutomationService.createRule('Off', { type: 'weekly', weekday: 1 }, {
+            targetSpark: 'todo',
+            action: 'create',
+            params: { text: 'Never' },
+        });
+        useAutomationStore.getState().updateRule(useAutomationStore.getState().rules[1].id, { enabled: false });
+
+        await AutomationService.evaluate(monday);
+
+        expect(useAutomationStore.getState().runLog).toEqual([
+            expect.objectContaining({ ruleId: rule.id, success: false, message: 'No goal called "Read books".' }),
+        ]);
+        expect(useSparkStore.getState().sparkData.todo).toBeUndefined();
+    });
+
+    it('rejects rules without a name or text', () => {
+        expect(() => AutomationService.createRule(' ', { type: 'weekly', weekday: 1 }, {
+            targetSpark: 'todo', action: 'create', params: { text: 'x' },
+        })).toThrow('name');
+        expect(() => AutomationService.createRule('Rule', { type: 'weekly', weekday: 1 }, {
+            targetSpark: 'todo', action: 'create', params: { text: ' ' },
+        })).toThrow('fill in');
+    });
+});
@@ -0,0 +1,286 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const mockFiles: Record<string, string> = {};
+
+jest.mock('expo-file-system', () => ({
+    documentDirectory: 'file:///docs/',
+    cacheDirectory: 'file:///cache/',
+    EncodingType: { Base64: 'base64', UTF8: 'utf8' },
+    getInfoAsync: jest.fn(async (uri: string) => ({
+        exists: uri in mockFiles || Object.keys(mockFiles).some(path => path.startsWith(uri)),
+        isDirectory: !(uri in mockFiles),
+        size: mockFiles[uri]?.length,
+    })),
+    readDirectoryAsync: jest.fn(async (uri: string) =>
+        Object.keys(mockFiles)
+            .filter(path => path.startsWith(uri))
+            .map(path => path.substring(uri.length))
+    ),
+    readAsStringAsync: jest.fn(async (uri: string) => mockFiles[uri]),
+    writeAsStringAsync: jest.fn(async (uri: string, content: string) => {
+        mockFiles[uri] = content;
+    }),
+    makeDirectoryAsync: jest.fn(async () => undefined),
+    deleteAsync: jest.fn(async (uri: string) => {
+        Object.keys(mockFiles)
+            .filter(path => path.startsWith(uri))
+            .forEach(path => delete mockFiles[path]);
+    }),
+}));
+
+jest.mock('expo-sharing', () => ({
+    isAvailableAsync: jest.fn(async () => true),
+    shareAsync: jest.fn(async () => undefined),
+}));
+
+jest.mock('expo-document-picker', () => ({
+    getDocumentAsync: jest.fn(),
+}));
+
+jest.mock('expo-local-authentication', () => ({}));
+
+jest.mock('../../components/SparkRegistry', () => {
+    const registry: Record<string, any> = {
+        golf: {
+            dataSchema: {
+                version: 1,
+                migrations: [(data: any) => ({ ...data, rounds: data.games || [] })],
+            },
+        },
+        soundboard: {
+            fileStorage: {
+                directories: ['soundboard/'],
+                getFileUris: (data: any) => (data.soundChips || []).map((chip: any) => chip.filePath),
+            },
+        },
+        'food-cam': {
+            fileStorage: {
+                directories: ['foodcam/'],
+                getFileUris: (data: any) => (data.photos || []).map((photo: any) => photo.uri),
+            },
+        },
+    };
+    return {
+        sparkRegistry: registry,
+        getSparkById: (id: string) => registry[id],
+    };
+});
+
+import { BackupService, mergeSparkRecord } from '../BackupService';
+import { useSparkStore } from '../../store/sparkStore';
+import { useAppStore } from '../../store/appStore';
+import { useSettingsStore } from '../../store/settingsStore';
+import { useProfileStore } from '../../store/profileStore';
+import { useSecurityStore } from '../../store/securityStore';
+import { setPrivateDataKey } from '../../store/privateSparkStorage';
+import { SparkLockService } from '../SparkLockService';
+import { isEncryptedPayload } from '../../utils/sparkCrypto';
+
+const DREAMS_KEY = '@dream-catcher/dreams';
+
+const resetStores = () => {
+    useSparkStore.setState({
+        sparkData: {},
+        sparkDataVersions: {},
+        sparkProgress: {},
+        userSparkIds: [],
+        favoriteSparkIds: [],
+    });
+    useAppStore.setState({ recentSparks: [], isFirstLaunch: true });
+    useSettingsStore.getState().resetAllSettings();
+};
+
+const seedDevice = async () => {
+    useSparkStore.setState({
+        sparkData: {
+            golf: { rounds: [{ id: 'r1', score: 82 }] },
+            soundboard: { soundChips: [{ id: 'c1', filePath: 'soundboard/sound_1.m4a' }] },
+            'food-cam': { photos: [{ id: 'p1', uri: 'foodcam/1.jpg' }] },
+        },
+        sparkDataVersions: { golf: 1 },
+        userSparkIds: ['golf', 'soundboard'],
+        favoriteSparkIds: ['golf'],
+    });
+    useAppStore.setState({ recentSparks: ['golf'], isFirstLaunch: false });
+    useSettingsStore.setState({ language: 'es', fontSize: 'large' });
+    await AsyncStorage.setItem(DREAMS_KEY, JSON.stringify([{ id: 'd1', transcription: 'flying' }]));
+    mockFiles['file:///docs/soundboard/sound_1.m4a'] = 'AUDIO';
+    mockFiles['file:///docs/foodcam/1.jpg'] = 'PHOTO';
+};
+
+describe('BackupService', () => {
+    beforeEach(async () => {
+        Object.keys(mockFiles).forEach(path => delete mockFiles[path]);
+        await AsyncStorage.clear();
+        resetStores();
+        setPrivateDataKey(null);
+        useSecurityStore.setState(useSecurityStore.getInitialState(), true);
+    });
+
+    it('round-trips everything through replace', async () => {
+        await seedDevice();
+        const archive = JSON.parse(JSON.stringify(await BackupService.createBackup()));
+
+        expect(archive.files.map((f: any) => f.path).sort()).toEqual(['foodcam/1.jpg', 'soundboard/sound_1.m4a']);
+
+        // Simulate a fresh phone
+        Object.keys(mockFiles).forEach(path => delete mockFiles[path]);
+        await AsyncStorage.clear();
+        resetStores();
+
+        const summary = await BackupService.restoreBackup(archive, 'replace');
+
+        expect(summary).toEqual({ sparks: 3, dreams: 1, files: 2 });
+        expect(useSparkStore.getState().sparkData.golf.rounds).toEqual([{ id: 'r1', score: 82 }]);
+        expect(useSparkStore.getState().userSparkIds).toEqual(['golf', 'soundboard']);
+        expect(useSparkStore.getState().favoriteSparkIds).toEqual(['golf']);
+        expect(useAppStore.getState().recentSparks).toEqual(['golf']);
+        expect(useSettingsStore.getState().language).toBe('es');
+        expect(useSettingsStore.getState().fontSize).toBe('large');
+        expect(JSON.parse((await AsyncStorage.getItem(DREAMS_KEY))!)).toEqual([{ id: 'd1', transcription: 'flying' }]);
+        expect(mockFiles['file:///docs/soundboard/sound_1.m4a']).toBe('AUDIO');
+        expect(mockFiles['file:///docs/foodcam/1.jpg']).toBe('PHOTO');
+    });
+
+    it('replace removes local media that is not in the backup', async () => {
+        await seedDevice();
+        const archive = await BackupService.createBackup();
+        mockFiles['file:///docs/foodcam/extra.jpg'] = 'EXTRA';
+
+        await BackupService.restoreBackup(archive, 'replace');
+
+        expect(mockFiles['file:///docs/foodcam/extra.jpg']).toBeUndefined();
+    });
+
+    it("leaves other profiles' media out of the backup and in place on replace", async () => {
+        await seedDevice();
+        useProfileStore.setState({
+            profiles: [...useProfileStore.getState().profiles, { id: 'kid', name: 'Kid', emoji: '🧒', createdAt: '' }],
+        });
+        await AsyncStorage.setItem('sparks-data-storage:kid', JSON.stringify({
+            state: { sparkData: { 'food-cam': { photos: [{ id: 'p9', uri: 'foodcam/kid.jpg' }] } } },
+        }));
+        mockFiles['file:///docs/foodcam/kid.jpg'] = 'KID';
+
+        const archive = await BackupService.createBackup();
+        expect(archive.files.map(f => f.path)).not.toContain('foodcam/kid.jpg');
+
+        await BackupService.restoreBackup(archive, 'replace');
+        expect(mockFiles['file:///docs/foodcam/kid.jpg']).toBe('KID');
+        useProfileStore.setState({ profiles: useProfileStore.getState().profiles.filter(p => p.id !== 'kid') });
+    });
+
+    it('merge keeps local data and adds missing items', async () => {
+        await seedDevice();
+        const archive = await BackupService.createBackup();
+
+        resetStores();
+        useSparkStore.setState({
+            sparkData: { golf: { rounds: [{ id: 'r2', score: 90 }] } },
+            sparkDataVersions: { golf: 1 },
+            userSparkIds: ['todo'],
+        });
+        useSettingsStore.setState({ language: 'fr' });
+        await AsyncStorage.setItem(DREAMS_KEY, JSON.stringify([{ id: 'd2', transcription: 'falling' }]));
+
+        const summary = await BackupService.restoreBackup(archive, 'merge');
+
+        expect(summary.dreams).toBe(1);
+        expect(useSparkStore.getState().sparkData.golf.rounds).toEqual([
+            { id: 'r2', score: 90 },
+            { id: 'r1', score: 82 },
+        ]);
+        expect(useSparkStore.getState().sparkData.soundboard).toBeDefined();
+        expect(useSparkStore.getState().userSparkIds).toEqual(['todo', 'golf', 'soundboard']);
+        expect(useSettingsStore.getState().language).toBe('fr');
+        expect(JSON.parse((await AsyncStorage.getItem(DREAMS_KEY))!).map((d: any) => d.id)).toEqual(['d2', 'd1']);
+    });
+
+    it('migrates old spark data from the backup on restore', async () => {
+        const archive = await BackupService.createBackup();
+        archive.sparkStore.sparkData = { golf: { games: [{ id: 'g1' }] } };
+        archive.sparkStore.sparkDataVersions = {};
+
+        await BackupService.restoreBackup(archive, 'replace');
+
+        expect(useSparkStore.getState().sparkData.golf.rounds).toEqual([{ id: 'g1' }]);
+        expect(useSparkStore.getState().sparkDataVersions.golf).toBe(1);
+    });
+
+    describe('with private sparks', () => {
+        const backUpPrivateGolf = async () => {
+            await seedDevice();
+            await SparkLockService.setPasscode('1234');
+            await SparkLockService.setSparkPrivate('golf', true);
+            return JSON.parse(JSON.stringify(await BackupService.createBackup()));
+        };
+
+        it('keeps them encrypted in the backup, with the key to open them', async () => {
+            const archive = await backUpPrivateGolf();
+
+            expect(isEncryptedPayload(archive.sparkStore.sparkData.golf)).toBe(true);
+            expect(JSON.stringify(archive.sparkStore.sparkData)).not.toContain('82');
+            expect(archive.privacy).toEqual(expect.objectContaining({
+                passcodeSalt: useSecurityStore.getState().passcodeSalt,
+                wrappedDataKey: useSecurityStore.getState().wrappedDataKey,
+                privateSparkIds: ['golf'],
+            }));
+        });
+
+        it('restores on a new device and unlocks with the passcode they were backed up with', async () => {
+            const archive = await backUpPrivateGolf();
+
+            // Simulate a fresh phone
+            await AsyncStorage.clear();
+            resetStores();
+            setPrivateDataKey(null);
+            useSecurityStore.setState(useSecurityStore.getInitialState(), true);
+
+            await BackupService.restoreBackup(archive, 'replace');
+            expect(SparkLockService.isSparkLocked('golf')).toBe(true);
+            expect(useSecurityStore.getState().privateSparkIds).toEqual(['golf']);
+
+            expect(await SparkLockService.unlock('1234')).toBe(true);
+            expect(useSparkStore.getState().sparkData.golf.rounds).toEqual([{ id: 'r1', score: 82 }]);
+        });
+
+        it('opens them with this device\'s key when it already has a passcode', async () => {
+            const archive = await backUpPrivateGolf();
+            resetStores();
+
+            await BackupService.restoreBackup(archive, 'replace');
+            expect(useSparkStore.getState().sparkData.golf.rounds).toEqual([{ id: 'r1', score: 82 }]);
+
+            SparkLockService.lock();
+            await expect(BackupService.restoreBackup(archive, 'merge')).rejects.toThrow(
+                'Unlock private sparks before restoring this backup'
+            );
+        });
+    });
+
+    it('rejects files that are not backups', async () => {
+        await expect(BackupService.restoreBackup({ hello: 'world' } as any, 'replace')).rejects.toThrow(
+            'This file is not a Sparks backup'
+        );
+    });
+
+    it('ignores file paths outside the media directories', async () => {
+        const archive = await BackupService.createBackup();
+        archive.files = [{ path: '../secrets.txt', base64: 'X' }, { path: 'other/file.txt', base64: 'X' }];
+
+        const summary = await BackupService.restoreBackup(archive, 'replace');
+
+        expect(summary.files).toBe(0);
+        expect(Object.keys(mockFiles)).toEqual([]);
+    });
+
+    describe('mergeSparkRecord', () => {
+        it('keeps existing scalars and fills missing keys', () => {
+            expect(mergeSparkRecord({ unit: 'kg' }, { unit: 'lbs', goal: 150 })).toEqual({ unit: 'kg', goal: 150 });
+        });
+
+        it('leaves lists without ids alone', () => {
+            expect(mergeSparkRecord({ tags: ['a'] }, { tags: ['b'] })).toEqual({ tags: ['a'] });
+        });
+    });
+});
@@ -0,0 +1,368 @@
+jest.mock('../../components/SparkRegistry', () => {
+    const intents = (path: string, name: string) => jest.requireActual(`../../sparks/${path}/voiceIntents`)[name];
+    const registry: Record<string, any> = {
+        'packing-list': { metadata: { id: 'packing-list', title: 'Packing List' }, voiceIntents: intents('PackingListSpark', 'packingListVoiceIntents') },
+        'coming-up': { metadata: { id: 'coming-up', title: 'Coming Up' }, voiceIntents: intents('ComingUpSpark', 'comingUpVoiceIntents') },
+        ideas: { metadata: { id: 'ideas', title: 'Ideas' }, voiceIntents: intents('IdeasSpark', 'ideasVoiceIntents') },
+        'goal-tracker': { metadata: { id: 'goal-tracker', title: 'Goal Tracker' }, voiceIntents: intents('GoalTrackerSpark', 'goalTrackerVoiceIntents') },
+        spinner: { metadata: { id: 'spinner', title: 'Decision Spinner' }, voiceIntents: intents('SpinnerSpark', 'spinnerVoiceIntents') },
+        shop: { metadata: { id: 'shop', title: 'Shop' }, voiceIntents: intents('ShopSpark', 'shopVoiceIntents') },
+        todo: { metadata: { id: 'todo', title: 'Todo List' }, voiceIntents: intents('TodoSpark', 'todoVoiceIntents') },
+        toview: { metadata: { id: 'toview', title: 'Toview' }, voiceIntents: intents('ToviewSpark', 'toviewVoiceIntents') },
+        'weight-tracker': { metadata: { id: 'weight-tracker', title: 'Weight Tracker' }, voiceIntents: intents('WeightTrackerSpark', 'weightTrackerVoiceIntents') },
+        'golf-brain': { metadata: { id: 'golf-brain', title: 'Golf Brain' }, voiceIntents: intents('GolfBrainSpark', 'golfBrainVoiceIntents') },
+        scorecard: { metadata: { id: 'scorecard', title: 'Scorecard' }, voiceIntents: intents('ScorecardSpark', 'scorecardVoiceIntents') },
+        memory: { metadata: { id: 'memory', title: 'Memory' } },
+    };
+    return {
+        sparkRegistry: registry,
+        getSparkById: (id: string) => registry[id],
+    };
+});
+
+jest.mock('../StorageUsageService', () => ({
+    StorageUsageService: { removeOrphanedFiles: jest.fn(async () => ({ count: 0, bytes: 0 })) },
+}));
+
+jest.mock('expo-local-authentication', () => ({}));
+
+import { CommandExecutor } from '../CommandExecutor';
+import { ParsedCommand } from '../GeminiCommandParser';
+import { SparkEventBus } from '../SparkEventBus';
+import { useSparkStore } from '../../store/sparkStore';
+import { useTrashStore } from '../../store/trashStore';
+import { useSecurityStore } from '../../store/securityStore';
+import { pickWeightedOption } from '../../sparks/SpinnerSpark/voiceIntents';
+
+const command = (targetSpark: string, action: string, params: Record<string, any> = {}): ParsedCommand =>
+    ({ targetSpark, action, params, confidence: 0.9, originalText: `${action} ${targetSpark}` });
+
+const run = (targetSpark: string, action: string, params: Record<string, any> = {}) =>
+    CommandExecutor.execute(command(targetSpark, action, params));
+
+const data = (sparkId: string) => useSparkStore.getState().sparkData[sparkId];
+
+describe('CommandExecutor', () => {
+    beforeEach(() => {
+        useSparkStore.setState({
+            sparkData: {
+                'packing-list': { items: [{ id: '4', item: 'Passport', count: 1, packed: true }] },
+                'goal-tracker': { goals: [{ id: 'g1', name: 'Read 20 books', entries: [], createdAt: '', updatedAt: '', targetPerYear: 20 }] },
+                spinner: { decisionSets: [{ id: 's1', name: 'Dinner', active: true, options: [{ label: 'Tacos', color: '#000', weight: 1 }] }] },
+                shop: { items: ['Milk'], checked: [0] },
+                todo: {
+                    todos: [
+                        { id: '1', text: 'Buy milk', displayText: 'Buy milk', completed: false, dueDate: '2026-10-19', createdDate: '' },
+                        { id: '2', text: 'Dentist appointment', displayText: 'Dentist appointment', completed: false, dueDate: '2026-10-20', createdDate: '' },
+                        { id: '3', text: 'Call Mom', displayText: 'Call Mom', completed: false, dueDate: '2026-10-19', createdDate: '' },
+                        { id: '4', text: 'Call Dad', displayText: 'Call Dad', completed: false, dueDate: '2026-10-21', createdDate: '' },
+                    ],
+                },
+            },
+            sparkHistory: {},
+            sparkDataRevisions: {},
+        });
+        useSecurityStore.setState({ privateSparkIds: [], lastActivityAt: null });
+    });
+
+    it('adds packing list items', async () => {
+        const result = await run('packing-list', 'add', { item: 'Socks', count: '3' });
+        expect(result).toEqual({ success: true, message: 'Added to packing list: "Socks"' });
+        expect(data('packing-list').items[1]).toEqual({ id: expect.any(String), item: 'Socks', count: 3, packed: false });
+    });
+
+    it('adds Coming Up events, yearly for birthdays', async () => {
+        expect((await run('coming-up', 'create', { title: "Mom's birthday", date: '2027-03-03', category: 'Birthday' })).success).toBe(true);
+        expect((await run('coming-up', 'add', { title: 'Lisbon', date: '2027-06-12' })).success).toBe(true);
+        // The category is guessed from the title when not given
+        expect((await run('coming-up', 'add', { title: "Dad's Birthday", date: '2027-01-09' })).success).toBe(true);
+        expect((await run('coming-up', 'add', { title: 'Team lunch', date: '2027-01-10' })).success).toBe(true);
+
+        expect(data('coming-up').events).toEqual([
+            expect.objectContaining({ title: "Mom's birthday", date: '2027-03-03', category: 'birthday', type: 'annual' }),
+            expect.objectContaining({ title: 'Lisbon', date: '2027-06-12', category: 'other', type: 'one-time' }),
+            expect.objectContaining({ title: "Dad's Birthday", category: 'birthday', type: 'annual' }),
+            expect.objectContaining({ title: 'Team lunch', category: 'dinner', type: 'one-time' }),
+        ]);
+    });
+
+    it('gives items added at the same moment their own ids', async () => {
+        jest.useFakeTimers({ now: new Date(2026, 9, 20, 12) });
+        try {
+            for (const title of ['Dune', 'Arrival']) {
+                await run('ideas', 'add', { text: title });
+                await run('toview', 'add', { title });
+                await run('coming-up', 'add', { title, date: '2027-01-10' });
+            }
+            await run('weight-tracker', 'add', { weight: 180 });
+            await run('weight-tracker', 'add', { weight: 179 });
+        } finally {
+            jest.useRealTimers();
+        }
+
+        const ids = (items: { id: string }[]) => new Set(items.map(item => item.id)).size;
+        expect(ids(data('ideas').ideas)).toBe(2);
+        expect(ids(data('toview').toviews)).toBe(2);
+        expect(ids(data('coming-up').events)).toBe(2);
+        expect(ids(data('weight-tracker').entries)).toBe(2);
+    });
+
+    it('puts new ideas first', async () => {
+        await run('ideas', 'add', { text: 'First' });
+        await run('ideas', 'add', { text: 'Second' });
+        expect(data('ideas').ideas.map((idea: any) => idea.text)).toEqual(['Second', 'First']);
+    });
+
+    it('logs goal entries by name and explains unknown goals', async () => {
+        expect(await run('goal-tracker', 'log', { goal: 'read 20 BOOKS' })).toEqual({ success: true, message: 'Logged progress on "Read 20 books"' });
+        expect(data('goal-tracker').goals[0].entries).toHaveLength(1);
+
+        expect(await run('goal-tracker', 'add', { goal: 'Run' })).toEqual({ success: false, message: 'No goal called "Run".' });
+    });
+
+    it('spins a named set without changing its data', async () => {
+        const before = data('spinner');
+        expect(await run('spinner', 'spin', { set: 'dinner wheel' })).toEqual({ success: true, message: '🎡 Dinner: Tacos' });
+        expect(data('spinner')).toBe(before);
+        expect(useSparkStore.getState().sparkHistory.spinner).toBeUndefined();
+
+        expect((await run('spinner', 'spin', { set: 'Movies' })).message).toBe('No spinner set called "Movies".');
+    });
+
+    it('picks spinner options in proportion to their weights', () => {
+        const options = [{ label: 'A', color: '', weight: 1 }, { label: 'B', color: '', weight: 3 }];
+        expect(pickWeightedOption(options, 0).label).toBe('A');
+        expect(pickWeightedOption(options, 0.24).label).toBe('A');
+        expect(pickWeightedOption(options, 0.26).label).toBe('B');
+        expect(pickWeightedOption(options, 0.999).label).toBe('B');
+    });
+
+    it('adds shop items once and keeps checked items', async () => {
+        expect((await run('shop', 'add', { item: 'Eggs' })).success).toBe(true);
+        expect(data('shop')).toEqual({ items: ['Milk', 'Eggs'], checked: [0] });
+
+        expect(await run('shop', 'add', { item: 'milk' })).toEqual({ success: false, message: '"milk" is already on the shopping list.' });
+    });
+
+    it('checkpoints writes so they can be undone', async () => {
+        await run('shop', 'add', { item: 'Eggs' });
+        expect(useSparkStore.getState().undoSparkData('shop')?.label).toBe('"add shop"');
+        expect(data('shop').items).toEqual(['Milk']);
+    });
+
+    it('rejects unsupported sparks, actions and params', async () => {
+        expect(await run('memory', 'add', { text: 'x' })).toEqual({ success: false, message: "Spark 'memory' not supported yet." });
+        expect(await run('shop', 'spin', { item: 'Milk' })).toEqual({ success: false, message: 'Shop supports "add", "complete", "delete", not "spin".' });
+        expect(await run('packing-list', 'add', {})).toEqual({ success: false, message: 'Missing item to pack.' });
+        expect(await run('coming-up', 'add', { title: 'Party', date: 'someday' })).toEqual({
+            success: false,
+            message: 'I couldn\'t understand the date "someday".',
+        });
+        expect(await run('unknown', 'unknown', { error: 'timeout' })).toEqual({
+            success: false,
+            message: "I didn't understand that command (timeout).",
+        });
+    });
+
+    it('completes, moves and renames todos named by their text', async () => {
+        const completed = jest.fn();
+        const unsubscribe = SparkEventBus.subscribe('todo.completed', completed);
+
+        expect(await run('todo', 'complete', { item: 'buy the milk' })).toEqual({ success: true, message: 'Completed todo: "Buy milk"' });
+        expect(completed).toHaveBeenCalledWith(expect.objectContaining({ sparkId: 'todo', payload: { taskId: '1', text: 'Buy milk' } }));
+        unsubscribe();
+
+        expect((await run('todo', 'move', { item: 'dentist', dueDate: '2026-10-30' })).message).toBe('Moved "Dentist appointment" to 2026-10-30');
+        expect((await run('todo', 'rename', { item: 'call mom', text: 'Call Mom back' })).success).toBe(true);
+
+        expect(data('todo').todos).toEqual([
+            expect.objectContaining({ id: '1', completed: true, completedDate: expect.any(String) }),
+            expect.objectContaining({ id: '2', dueDate: '2026-10-30' }),
+            expect.objectContaining({ id: '3', text: 'Call Mom back', displayText: 'Call Mom back' }),
+            expect.objectContaining({ id: '4', text: 'Call Dad' }),
+        ]);
+        // Only open todos can be completed
+        expect(await run('todo', 'done', { item: 'buy milk' })).toEqual({ success: false, message: 'No todo matching "buy milk".' });
+    });
+
+    it('asks which item was meant when several match', async () => {
+        const result = await run('todo', 'delete', { item: 'call' });
+
+        expect(result).toEqual({
+            success: false,
+            message: 'Which todo did you mean? "Call Mom (due 2026-10-19)" or "Call Dad (due 2026-10-21)"',
+            choices: [
+                { label: 'Call Mom (due 2026-10-19)', command: command('todo', 'delete', { item: 'call', itemId: '3' }) },
+                { label: 'Call Dad (due 2026-10-21)', command: command('todo', 'delete', { item: 'call', itemId: '4' }) },
+            ],
+        });
+        expect(data('todo').todos).toHaveLength(4);
+
+        expect(await CommandExecutor.execute(result.choices![1].command)).toEqual({ success: true, message: 'Deleted todo: "Call Dad"' });
+        expect(data('todo').todos.map((todo: any) => todo.id)).toEqual(['1', '2', '3']);
+    });
+
+    it('keeps deleted todos in the trash', async () => {
+        useTrashStore.setState({ items: [] });
+
+        await run('todo', 'remove', { item: 'the dentist appointment' });
+
+        expect(useTrashStore.getState().items).toEqual([
+            expect.objectContaining({ sparkId: 'todo', collection: 'todos', itemId: '2', label: 'Dentist appointment' }),
+        ]);
+    });
+
+    it('checks off and removes shop items, keeping checked items in place', async () => {
+        useSparkStore.getState().setSparkData('shop', { items: ['Milk', 'Eggs', 'Coffee beans'], checked: [0] });
+
+        expect((await run('shop', 'complete', { item: 'coffee' })).message).toBe('Checked off: "Coffee beans"');
+        expect(data('shop')).toEqual({ items: ['Milk', 'Eggs', 'Coffee beans'], checked: [0, 2] });
+
+        expect((await run('shop', 'remove', { item: 'eggs' })).message).toBe('Removed from shopping list: "Eggs"');
+        expect(data('shop')).toEqual({ items: ['Milk', 'Coffee beans'], checked: [0, 1] });
+
+        expect(await run('shop', 'delete', { item: 'bread' })).toEqual({ success: false, message: 'No item matching "bread".' });
+    });
+
+    describe('queries', () => {
+        beforeEach(() => {
+            // Tuesday 20 October 2026, midday
+            jest.useFakeTimers({ now: new Date(2026, 9, 20, 12) });
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        it('answers from the spark data without changing it', async () => {
+            const before = data('todo');
+
+            expect(await run('todo', 'query')).toEqual({
+                success: true,
+                message: '1 todo due today: Dentist appointment. 2 todos overdue: Buy milk and Call Mom.',
+                answer: true,
+            });
+            expect((await run('todo', 'query', { dueDate: 'tomorrow' })).message).toBe('1 todo due tomorrow: Call Dad.');
+            expect((await run('todo', 'query', { dueDate: '2026-10-25' })).message).toBe('Nothing due on Oct 25, 2026.');
+            expect(data('todo')).toBe(before);
+            expect(useSparkStore.getState().undoSparkData('todo')).toBeUndefined();
+        });
+
+        it('counts down to events, with annual ones on their next date', async () => {
+            useSparkStore.getState().setSparkData('coming-up', {
+                events: [
+                    { id: 'e1', title: "Mom's birthday", date: '1960-11-07', type: 'annual', category: 'birthday' },
+                    { id: 'e2', title: 'Lisbon trip', date: '2026-10-21', type: 'one-time', category: 'trip' },
+                    { id: 'e3', title: 'Dentist', date: '2026-10-18', type: 'one-time', category: 'other' },
+                ],
+            });
+
+            expect((await run('coming-up', 'query', { item: 'moms birthday' })).message).toBe("Mom's birthday is in 18 days, on Nov 7, 2026.");
+            expect((await run('coming-up', 'query', { item: 'lisbon' })).message).toBe('Lisbon trip is tomorrow.');
+            expect((await run('coming-up', 'query', { item: 'the dentist' })).message).toBe('Dentist was 2 days ago, on Oct 18, 2026.');
+        });
+
+        it('counts down to the next date of a rolled-over annual event', async () => {
+            useSparkStore.getState().setSparkData('coming-up', {
+                events: [
+                    { id: 'e1', title: 'Anniversary', date: '2026-06-14', type: 'one-time', category: 'anniversary' },
+                    { id: 'e2', title: 'Anniversary', date: '2027-06-14', type: 'annual', category: 'anniversary' },
+                ],
+            });
+
+            expect((await run('coming-up', 'query', { item: 'anniversary' })).message).toBe('Anniversary is in 237 days, on Jun 14, 2027.');
+        });
+
+        it('describes the weight trend over a period', async () => {
+            useSparkStore.getState().setSparkData('weight-tracker', {
+                entries: [
+                    { id: '1', date: '2026-09-01T08:00:00.000Z', weight: 185 },
+                    { id: '3', date: '2026-10-10T08:00:00.000Z', weight: 180.5 },
+                    { id: '2', date: '2026-09-25T08:00:00.000Z', weight: 182 },
+                    { id: '4', date: '2026-10-19T08:00:00.000Z', weight: 179.6 },
+                ],
+            });
+
+            expect((await run('weight-tracker', 'query')).message).toBe('Down 2.4 lbs over the last month, from 182 to 179.6 lbs across 3 weigh-ins.');
+            expect((await run('weight-tracker', 'query', { period: 'week' })).message).toBe('Only one weigh-in in the last week: 179.6 lbs.');
+            expect((await run('weight-tracker', 'query', { period: 'year' })).message).toBe('Down 5.4 lbs over the last year, from 185 to 179.6 lbs across 4 weigh-ins.');
+        });
+
+        it('averages finished golf rounds, at one course or all of them', async () => {
+            const round = (id: string, courseId: string, courseName: string, totalScore: number, isComplete = true) =>
+                ({ id, courseId, courseName, totalScore, totalPar: 72, isComplete, holeScores: [{}], startedAt: 0 });
+            useSparkStore.getState().setSparkData('golf-brain', {
+                rounds: [
+                    round('r1', 'c1', "Tam O'Shanter", 92),
+                    round('r2', 'c1', "Tam O'Shanter", 88),
+                    round('r3', 'c2', 'Pebble Beach', 100),
+                    round('r4', 'c1', "Tam O'Shanter", 40, false),
+                ],
+            });
+
+            expect((await run('golf-brain', 'query', { item: "Tam O'Shanter" })).message).toBe("Your average at Tam O'Shanter is 90 (+18) over 2 rounds, best 88.");
+            expect((await run('golf-brain', 'query')).message).toBe('Your average is 93.3 (+21.3) over 3 rounds, best 88.');
+            expect(await run('golf-brain', 'query', { item: 'Augusta' })).toEqual({ success: false, message: 'No course matching "Augusta".' });
+        });
+
+        it('averages scorecard rounds against the par of the holes played', async () => {
+            const holes = [1, 2, 3].map(hole_number => ({ hole_number, par: 4, stroke_index: hole_number }));
+            useSparkStore.getState().setSparkData('scorecard', {
+                courses: [{ id: 1, name: 'Muni', rating: 70, slope: 113, holes }],
+                rounds: [
+                    { id: 1, course_id: 1, course_name: 'Muni', timestamp: 0, is_completed: true, total_strokes: 14 },
+                    { id: 2, course_id: 1, course_name: 'Muni', timestamp: 0, is_completed: true },
+                ],
+                scores: [
+                    { round_id: 1, hole_number: 1, strokes: 5, putts: 2 },
+                    { round_id: 1, hole_number: 2, strokes: 4, putts: 2 },
+                    { round_id: 1, hole_number: 3, strokes: 5, putts: 2 },
+                    // A round that stopped after two holes
+                    { round_id: 2, hole_number: 1, strokes: 4, putts: 2 },
+                    { round_id: 2, hole_number: 2, strokes: 5, putts: 2 },
+                ],
+            });
+
+            expect((await run('scorecard', 'query', { item: 'muni' })).message).toBe('Your average at Muni is 11.5 (+1.5) over 2 rounds, best 9.');
+        });
+    });
+
+    it('runs steps in order and skips the rest after a failure', async () => {
+        const steps = await CommandExecutor.executeAll([
+            command('shop', 'add', { item: 'Eggs' }),
+            command('shop', 'add', { item: 'milk' }),
+            command('shop', 'add', { item: 'Bread' }),
+        ]);
+
+        expect(steps.map(step => [step.result.success, step.skipped])).toEqual([[true, undefined], [false, undefined], [false, true]]);
+        expect(steps[2].result.message).toBe('Skipped because an earlier step failed.');
+        expect(data('shop').items).toEqual(['Milk', 'Eggs']);
+    });
+
+    it('keeps going after a failure when asked to', async () => {
+        const steps = await CommandExecutor.executeAll(
+            [command('shop', 'add', { item: 'milk' }), command('shop', 'add', { item: 'Eggs' }), command('shop', 'add', { item: 'Eggs' })],
+            'continue'
+        );
+
+        expect(steps.map(step => step.result.success)).toEqual([false, true, false]);
+        // Each step sees the data written by the ones before it
+        expect(steps[2].result.message).toBe('"Eggs" is already on the shopping list.');
+        expect(data('shop').items).toEqual(['Milk', 'Eggs']);
+    });
+
+    it('refuses to read or change a private spark while it is locked', async () => {
+        useSecurityStore.setState({ privateSparkIds: ['shop'] });
+
+        expect(await run('shop', 'add', { item: 'Eggs' })).toEqual({
+            success: false,
+            message: 'Shop is private. Unlock private sparks first.',
+        });
+        expect(data('shop').items).toEqual(['Milk']);
+        expect(useSparkStore.getState().sparkHistory.shop).toBeUndefined();
+    });
+
+    it('opens sparks', async () => {
+        expect(await run('ideas', 'open')).toEqual({ success: true, message: 'Opening ideas...', openSparkId: 'ideas' });
+    });
+});
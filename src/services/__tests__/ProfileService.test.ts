@@ -0,0 +1,116 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+jest.mock('expo-crypto', () => ({
+    CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+    digestStringAsync: jest.fn(async (_algorithm: string, value: string) => `hash(${value})`),
+}));
+
+jest.mock('../../components/SparkRegistry', () => ({
+    sparkRegistry: {},
+    getSparkById: () => undefined,
+}));
+
+import { ProfileService } from '../ProfileService';
+import { useSparkStore } from '../../store/sparkStore';
+import { useAppStore } from '../../store/appStore';
+import { useProfileStore } from '../../store/profileStore';
+import { DEFAULT_PROFILE_ID, profileStorageKey, currentProfileId } from '../../store/profileStorage';
+import { DreamStorageService, dreamsStorageKey } from '../DreamStorageService';
+
+// Let zustand persist finish its AsyncStorage writes
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('ProfileService', () => {
+    beforeEach(async () => {
+        await ProfileService.switchProfile(DEFAULT_PROFILE_ID).catch(() => {});
+        await AsyncStorage.clear();
+        useProfileStore.setState({
+            profiles: [{ id: DEFAULT_PROFILE_ID, name: 'Me', emoji: '🙂', createdAt: '1970-01-01T00:00:00.000Z' }],
+            activeProfileId: DEFAULT_PROFILE_ID,
+        });
+        useSparkStore.setState({
+            sparkData: { todo: { todos: [{ id: 1, text: 'Pay bills' }] } },
+            userSparkIds: ['todo'],
+            favoriteSparkIds: ['todo'],
+        });
+        useAppStore.getState().setPreferences({ theme: 'dark' });
+        await flush();
+    });
+
+    it('gives a new profile its own empty sparks and preferences', async () => {
+        const kid = await ProfileService.createProfile('Sam', '🧒');
+        await ProfileService.switchProfile(kid.id);
+
+        expect(currentProfileId()).toBe(kid.id);
+        expect(useSparkStore.getState().sparkData).toEqual({});
+        expect(useSparkStore.getState().userSparkIds).toEqual([]);
+        expect(useSparkStore.getState().favoriteSparkIds).toEqual([]);
+        expect(useAppStore.getState().preferences.theme).toBe('system');
+        expect(useSparkStore.getState().isHydrated).toBe(true);
+    });
+
+    it('keeps each profile\'s data separate across switches', async () => {
+        const kid = await ProfileService.createProfile('Sam', '🧒');
+        await ProfileService.switchProfile(kid.id);
+        useSparkStore.setState({ userSparkIds: ['card-score'] });
+        useSparkStore.getState().setSparkData('card-score', { players: ['Sam'] });
+        await flush();
+
+        await ProfileService.switchProfile(DEFAULT_PROFILE_ID);
+        expect(useSparkStore.getState().sparkData).toEqual({ todo: { todos: [{ id: 1, text: 'Pay bills' }] } });
+        expect(useSparkStore.getState().userSparkIds).toEqual(['todo']);
+        expect(useAppStore.getState().preferences.theme).toBe('dark');
+
+        await ProfileService.switchProfile(kid.id);
+        expect(useSparkStore.getState().sparkData).toEqual({ 'card-score': { players: ['Sam'] } });
+
+        const stored = await AsyncStorage.getItem(profileStorageKey('sparks-data-storage', kid.id));
+        expect(JSON.parse(stored!).state.userSparkIds).toEqual(['card-score']);
+    });
+
+    it('keeps dreams per profile', async () => {
+        await DreamStorageService.saveDream({ timestamp: 0, date: '2026-10-19', audioUri: '', transcription: 'flying' });
+        const kid = await ProfileService.createProfile('Sam', '🧒');
+        await ProfileService.switchProfile(kid.id);
+
+        expect(await DreamStorageService.getAllDreams()).toEqual([]);
+        await DreamStorageService.saveDream({ timestamp: 0, date: '2026-10-19', audioUri: '', transcription: 'falling' });
+
+        await ProfileService.switchProfile(DEFAULT_PROFILE_ID);
+        expect((await DreamStorageService.getAllDreams()).map(dream => dream.transcription)).toEqual(['flying']);
+
+        await ProfileService.deleteProfile(kid.id);
+        expect(await AsyncStorage.getItem(dreamsStorageKey(kid.id))).toBeNull();
+    });
+
+    it('asks for the PIN of a locked profile', async () => {
+        const locked = await ProfileService.createProfile('Parent', '👩', '1234');
+
+        await expect(ProfileService.switchProfile(locked.id)).rejects.toThrow('Incorrect PIN');
+        await expect(ProfileService.switchProfile(locked.id, '0000')).rejects.toThrow('Incorrect PIN');
+        expect(useProfileStore.getState().activeProfileId).toBe(DEFAULT_PROFILE_ID);
+
+        await ProfileService.switchProfile(locked.id, '1234');
+        expect(useProfileStore.getState().activeProfileId).toBe(locked.id);
+    });
+
+    it('rejects duplicate names', async () => {
+        await ProfileService.createProfile('Sam', '🧒');
+        await expect(ProfileService.createProfile(' sam ', '👦')).rejects.toThrow('already a profile');
+    });
+
+    it('deletes an inactive profile with its data', async () => {
+        const kid = await ProfileService.createProfile('Sam', '🧒');
+        await ProfileService.switchProfile(kid.id);
+        useSparkStore.setState({ userSparkIds: ['todo'] });
+        await flush();
+
+        await expect(ProfileService.deleteProfile(kid.id)).rejects.toThrow('Switch to another profile');
+        await ProfileService.switchProfile(DEFAULT_PROFILE_ID);
+        await ProfileService.deleteProfile(kid.id);
+
+        expect(useProfileStore.getState().profiles.map(p => p.id)).toEqual([DEFAULT_PROFILE_ID]);
+        expect(await AsyncStorage.getItem(profileStorageKey('sparks-data-storage', kid.id))).toBeNull();
+        await expect(ProfileService.deleteProfile(DEFAULT_PROFILE_ID)).rejects.toThrow('cannot be deleted');
+    });
+});
@@ -0,0 +1,76 @@
+jest.mock('../../components/SparkRegistry', () => {
+    const registry: Record<string, any> = {
+        todo: {
+            metadata: { id: 'todo', title: 'Todo List', icon: '📝' },
+            searchIndexer: (data: any) =>
+                (data.todos || []).map((todo: any) => ({
+                    id: String(todo.id),
+                    title: todo.text,
+                    params: { todoId: String(todo.id) },
+                })),
+        },
+        'dream-catcher': {
+            metadata: { id: 'dream-catcher', title: 'Dream Catcher', icon: '🌙' },
+            searchIndexer: (data: any) =>
+                (data.dreams || []).map((dream: any) => ({ id: dream.id, title: dream.transcription })),
+        },
+        spinner: {
+            metadata: { id: 'spinner', title: 'Spinner', icon: '🎡' },
+        },
+    };
+    return {
+        sparkRegistry: registry,
+        getSparkById: (id: string) => registry[id],
+    };
+});
+
+import { SearchService } from '../SearchService';
+import { useSparkStore } from '../../store/sparkStore';
+
+describe('SearchService', () => {
+    beforeEach(() => {
+        SearchService.clear();
+        useSparkStore.setState({ sparkData: {} });
+    });
+
+    it('returns typed hits that open the spark at the item', () => {
+        SearchService.indexSpark('todo', { todos: [{ id: 7, text: 'Buy chickpeas' }] });
+
+        expect(SearchService.search('chickpeas')).toEqual([
+            {
+                sparkId: 'todo',
+                sparkTitle: 'Todo List',
+                sparkIcon: '📝',
+                itemId: '7',
+                title: 'Buy chickpeas',
+                subtitle: undefined,
+                params: { todoId: '7' },
+            },
+        ]);
+    });
+
+    it('updates incrementally when spark data is saved', () => {
+        const { setSparkData } = useSparkStore.getState();
+
+        setSparkData('todo', { todos: [{ id: 1, text: 'Walk the dog' }] });
+        expect(SearchService.search('dog')).toHaveLength(1);
+
+        setSparkData('todo', { todos: [{ id: 1, text: 'Walk the cat' }] });
+        expect(SearchService.search('dog')).toHaveLength(0);
+        expect(SearchService.search('cat')).toHaveLength(1);
+    });
+
+    it('ignores sparks without an indexer', () => {
+        SearchService.indexSpark('spinner', { options: ['dog'] });
+        expect(SearchService.search('dog')).toEqual([]);
+    });
+
+    it('rebuilds from spark data without dropping externally indexed sparks', () => {
+        SearchService.indexExternalData('dream-catcher', { dreams: [{ id: 'd1', transcription: 'Flying over the sea' }] });
+        SearchService.indexSpark('todo', { todos: [{ id: 1, text: 'Old sea task' }] });
+
+        SearchService.rebuild({});
+
+        expect(SearchService.search('sea').map(hit => hit.sparkId)).toEqual(['dream-catcher']);
+    });
+});
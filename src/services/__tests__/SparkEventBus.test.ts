@@ -0,0 +1,109 @@
+jest.mock('../../components/SparkRegistry', () => {
+    const { goalTrackerEventHandler } = jest.requireActual('../../sparks/GoalTrackerSpark/goalEvents');
+    const registry: Record<string, any> = {
+        'goal-tracker': { metadata: { title: 'Goal Tracker', icon: '🎯' }, eventHandler: goalTrackerEventHandler },
+        broken: {
+            metadata: { title: 'Broken', icon: '💥' },
+            eventHandler: () => {
+                throw new Error('boom');
+            },
+        },
+        scorecard: { metadata: { title: 'Scorecard', icon: '⛳' } },
+    };
+    return {
+        sparkRegistry: registry,
+        getSparkById: (id: string) => registry[id],
+    };
+});
+
+import { SparkEventBus } from '../SparkEventBus';
+import { useSparkStore } from '../../store/sparkStore';
+
+const goal = (id: string, associatedSparkId?: string) => ({
+    id,
+    name: id,
+    targetPerYear: 40,
+    entries: [],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    associatedSparkId,
+});
+
+describe('SparkEventBus', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        useSparkStore.setState({
+            sparkData: {
+                'goal-tracker': {
+                    goals: [goal('rounds', 'scorecard'), goal('todos', 'todo'), goal('plain')],
+                    currentGoalId: null,
+                    currentScreen: 'home',
+                },
+                broken: {},
+            },
+            sparkDataRevisions: {},
+        });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('calls subscribers of the event type and wildcard subscribers', () => {
+        const rounds = jest.fn();
+        const all = jest.fn();
+        const weights = jest.fn();
+        const unsubscribe = SparkEventBus.subscribe('round.finished', rounds);
+        SparkEventBus.subscribe('*', all);
+        SparkEventBus.subscribe('weight.logged', weights);
+
+        const event = SparkEventBus.publish('round.finished', 'scorecard', { roundId: '1', totalStrokes: 88 });
+
+        expect(rounds).toHaveBeenCalledWith(event);
+        expect(all).toHaveBeenCalledWith(event);
+        expect(weights).not.toHaveBeenCalled();
+
+        unsubscribe();
+        SparkEventBus.publish('round.finished', 'scorecard', { roundId: '2' });
+        expect(rounds).toHaveBeenCalledTimes(1);
+        expect(all).toHaveBeenCalledTimes(2);
+    });
+
+    it('adds an entry to goals associated with the publishing spark', () => {
+        const event = SparkEventBus.publish('round.finished', 'scorecard', { roundId: '1' });
+
+        const { sparkData, sparkDataRevisions } = useSparkStore.getState();
+        const [rounds, todos, plain] = sparkData['goal-tracker'].goals;
+        expect(rounds.entries).toHaveLength(1);
+        expect(rounds.entries[0].eventId).toBe(event.id);
+        expect(todos.entries).toHaveLength(0);
+        expect(plain.entries).toHaveLength(0);
+        expect(sparkDataRevisions['goal-tracker']).toBe(1);
+    });
+
+    it('counts a task once when it is completed again', () => {
+        SparkEventBus.publish('todo.completed', 'todo', { taskId: 't1', text: 'Buy milk' });
+        SparkEventBus.publish('todo.completed', 'todo', { taskId: 't1', text: 'Buy milk' });
+        SparkEventBus.publish('todo.completed', 'todo', { taskId: 't2', text: 'Call Dad' });
+
+        const todos = useSparkStore.getState().sparkData['goal-tracker'].goals[1];
+        expect(todos.entries.map((entry: any) => entry.taskId)).toEqual(['t1', 't2']);
+    });
+
+    it('leaves data alone when no goal is associated', () => {
+        SparkEventBus.publish('weight.logged', 'weight-tracker', { entryId: 'w1', weight: 180, unit: 'lbs' });
+
+        expect(useSparkStore.getState().sparkDataRevisions['goal-tracker']).toBeUndefined();
+    });
+
+    it('keeps delivering when one spark handler fails', () => {
+        const listener = jest.fn();
+        SparkEventBus.subscribe('todo.completed', listener);
+
+        SparkEventBus.publish('todo.completed', 'todo', { taskId: '1', text: 'Buy milk' });
+
+        expect(console.error).toHaveBeenCalledWith('broken failed to handle todo.completed:', expect.any(Error));
+        expect(useSparkStore.getState().sparkData['goal-tracker'].goals[1].entries).toHaveLength(1);
+        expect(listener).toHaveBeenCalled();
+    });
+});
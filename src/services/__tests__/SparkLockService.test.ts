@@ -0,0 +1,128 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+jest.mock('expo-local-authentication', () => ({
+    hasHardwareAsync: jest.fn(async () => true),
+    isEnrolledAsync: jest.fn(async () => true),
+    authenticateAsync: jest.fn(async () => ({ success: true })),
+}));
+
+jest.mock('../../components/SparkRegistry', () => ({
+    sparkRegistry: {},
+    getSparkById: () => undefined,
+}));
+
+import { SparkLockService } from '../SparkLockService';
+import { DreamStorageService } from '../DreamStorageService';
+import { useSparkStore } from '../../store/sparkStore';
+import { useSecurityStore } from '../../store/securityStore';
+import { setPrivateDataKey } from '../../store/privateSparkStorage';
+import { isEncryptedPayload } from '../../utils/sparkCrypto';
+
+// Let zustand persist finish its AsyncStorage writes
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const storedSparkData = async () =>
+    JSON.parse((await AsyncStorage.getItem('sparks-data-storage'))!).state.sparkData;
+
+// What the next app start sees: data from storage and no key in memory
+const restartApp = async () => {
+    setPrivateDataKey(null);
+    SparkLockService.lock();
+    await useSparkStore.persist.rehydrate();
+};
+
+describe('SparkLockService', () => {
+    beforeEach(async () => {
+        await AsyncStorage.clear();
+        setPrivateDataKey(null);
+        useSecurityStore.setState(useSecurityStore.getInitialState(), true);
+        useSparkStore.setState({
+            sparkData: {
+                'weight-tracker': { entries: [{ id: 1, weight: 72.5 }] },
+                todo: { todos: [{ id: 1, text: 'Pay bills' }] },
+            },
+            userSparkIds: ['weight-tracker', 'todo'],
+        });
+        await flush();
+    });
+
+    it('encrypts a private spark\'s stored data and leaves others readable', async () => {
+        await expect(SparkLockService.setSparkPrivate('weight-tracker', true)).rejects.toThrow('Set a passcode first');
+
+        await SparkLockService.setPasscode('1234');
+        await SparkLockService.setSparkPrivate('weight-tracker', true);
+        await flush();
+
+        const stored = await storedSparkData();
+        expect(isEncryptedPayload(stored['weight-tracker'])).toBe(true);
+        expect(JSON.stringify(stored)).not.toContain('72.5');
+        expect(stored.todo).toEqual({ todos: [{ id: 1, text: 'Pay bills' }] });
+        // Still readable in memory while unlocked
+        expect(useSparkStore.getState().sparkData['weight-tracker'].entries[0].weight).toBe(72.5);
+    });
+
+    it('needs the passcode after a restart to read and change private data', async () => {
+        await SparkLockService.setPasscode('1234');
+        await SparkLockService.setSparkPrivate('weight-tracker', true);
+        await flush();
+        await restartApp();
+
+        expect(SparkLockService.isSparkLocked('weight-tracker')).toBe(true);
+        expect(SparkLockService.isSparkLocked('todo')).toBe(false);
+        expect(await SparkLockService.canUseBiometrics()).toBe(false);
+
+        // Writes while locked must not replace the encrypted data
+        useSparkStore.getState().setSparkData('weight-tracker', { entries: [] });
+        expect(isEncryptedPayload(useSparkStore.getState().sparkData['weight-tracker'])).toBe(true);
+
+        expect(await SparkLockService.unlock('0000')).toBe(false);
+        expect(await SparkLockService.unlock('1234')).toBe(true);
+        expect(SparkLockService.isSparkLocked('weight-tracker')).toBe(false);
+        expect(useSparkStore.getState().sparkData['weight-tracker']).toEqual({ entries: [{ id: 1, weight: 72.5 }] });
+    });
+
+    it('locks again after the idle timeout', async () => {
+        useSecurityStore.getState().setLockTimeoutMinutes(5);
+        await SparkLockService.setPasscode('1234');
+        await SparkLockService.setSparkPrivate('weight-tracker', true);
+
+        const now = Date.now();
+        expect(SparkLockService.isSparkLocked('weight-tracker', now + 4 * 60 * 1000)).toBe(false);
+        expect(SparkLockService.isSparkLocked('weight-tracker', now + 6 * 60 * 1000)).toBe(true);
+
+        useSecurityStore.getState().setBiometricsEnabled(true);
+        SparkLockService.lock();
+        expect(SparkLockService.isSparkLocked('weight-tracker')).toBe(true);
+        expect(await SparkLockService.unlockWithBiometrics()).toBe(true);
+        expect(SparkLockService.isSparkLocked('weight-tracker')).toBe(false);
+    });
+
+    it('keeps private data readable after the passcode changes', async () => {
+        await SparkLockService.setPasscode('1234');
+        await SparkLockService.setSparkPrivate('weight-tracker', true);
+        await SparkLockService.setPasscode('987654');
+        await flush();
+        await restartApp();
+
+        expect(await SparkLockService.unlock('1234')).toBe(false);
+        expect(await SparkLockService.unlock('987654')).toBe(true);
+        expect(useSparkStore.getState().sparkData['weight-tracker']).toEqual({ entries: [{ id: 1, weight: 72.5 }] });
+    });
+
+    it('encrypts Dream Catcher\'s own storage', async () => {
+        await DreamStorageService.saveDream({ timestamp: 1, date: '2026-01-01', audioUri: '', transcription: 'Flying over the sea' });
+        await SparkLockService.setPasscode('1234');
+        await SparkLockService.setSparkPrivate('dream-catcher', true);
+
+        expect(await AsyncStorage.getItem('@dream-catcher/dreams')).not.toContain('Flying');
+
+        await restartApp();
+        expect(await DreamStorageService.getAllDreams()).toEqual([]);
+        await expect(DreamStorageService.saveDream({ timestamp: 2, date: '2026-01-02', audioUri: '', transcription: 'Lost' }))
+            .rejects.toThrow('Failed to save dream');
+
+        await SparkLockService.unlock('1234');
+        const dreams = await DreamStorageService.getAllDreams();
+        expect(dreams.map(dream => dream.transcription)).toEqual(['Flying over the sea']);
+    });
+});
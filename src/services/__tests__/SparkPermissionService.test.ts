@@ -0,0 +1,77 @@
+const granted = { granted: true, canAskAgain: true };
+const undetermined = { granted: false, canAskAgain: true };
+const blocked = { granted: false, canAskAgain: false };
+
+const mockCamera = { get: jest.fn(), request: jest.fn() };
+const mockMicrophone = { get: jest.fn(), request: jest.fn() };
+
+jest.mock('expo-camera', () => ({
+    Camera: {
+        getCameraPermissionsAsync: () => mockCamera.get(),
+        requestCameraPermissionsAsync: () => mockCamera.request(),
+    },
+}));
+
+jest.mock('expo-av', () => ({
+    Audio: {
+        getPermissionsAsync: () => mockMicrophone.get(),
+        requestPermissionsAsync: () => mockMicrophone.request(),
+    },
+}));
+
+jest.mock('expo-location', () => ({}));
+jest.mock('expo-media-library', () => ({}));
+jest.mock('expo-notifications', () => ({}));
+
+jest.mock('../../components/SparkRegistry', () => ({
+    getSparkById: (id: string) => id === 'scanner'
+        ? { metadata: { id, manifest: { capabilities: { camera: 'To scan', microphone: 'To listen' } } } }
+        : { metadata: { id } },
+}));
+
+import { SparkPermissionService } from '../SparkPermissionService';
+
+describe('SparkPermissionService', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('reports declared capabilities that are not granted', async () => {
+        mockCamera.get.mockResolvedValue(granted);
+        mockMicrophone.get.mockResolvedValue(undetermined);
+
+        expect(await SparkPermissionService.checkSpark('scanner')).toEqual({ missing: ['microphone'], blocked: [] });
+        expect(mockMicrophone.request).not.toHaveBeenCalled();
+    });
+
+    it('has nothing to ask for sparks without capabilities', async () => {
+        expect(await SparkPermissionService.checkSpark('plain')).toEqual({ missing: [], blocked: [] });
+        expect(mockCamera.get).not.toHaveBeenCalled();
+    });
+
+    it('requests each capability and reports the ones only Settings can grant', async () => {
+        mockCamera.request.mockResolvedValue(granted);
+        mockMicrophone.request.mockResolvedValue(blocked);
+
+        const check = await SparkPermissionService.requestCapabilities(['camera', 'microphone']);
+
+        expect(mockCamera.request).toHaveBeenCalledTimes(1);
+        expect(mockMicrophone.request).toHaveBeenCalledTimes(1);
+        expect(check).toEqual({ missing: ['microphone'], blocked: ['microphone'] });
+    });
+
+    it('does not block a spark when a permission cannot be read', async () => {
+        const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+        mockCamera.get.mockRejectedValue(new Error('Not supported'));
+        mockMicrophone.get.mockResolvedValue(granted);
+
+        expect(await SparkPermissionService.hasCapabilities(['camera', 'microphone'])).toBe(true);
+        consoleError.mockRestore();
+    });
+
+    it('remembers sparks opened without permissions for the session', () => {
+        expect(SparkPermissionService.isSkipped('scanner')).toBe(false);
+        SparkPermissionService.skipForSession('scanner');
+        expect(SparkPermissionService.isSkipped('scanner')).toBe(true);
+    });
+});
@@ -0,0 +1,164 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Path -> size in bytes
+const mockFiles: Record<string, number> = {};
+
+jest.mock('expo-file-system', () => ({
+    documentDirectory: 'file:///docs/',
+    getInfoAsync: jest.fn(async (uri: string) => {
+        if (uri in mockFiles) {
+            return { exists: true, isDirectory: false, size: mockFiles[uri] };
+        }
+        const isDirectory = Object.keys(mockFiles).some(path => path.startsWith(uri));
+        return isDirectory ? { exists: true, isDirectory: true, size: 0 } : { exists: false, isDirectory: false };
+    }),
+    readDirectoryAsync: jest.fn(async (uri: string) =>
+        Object.keys(mockFiles)
+            .filter(path => path.startsWith(uri))
+            .map(path => path.substring(uri.length))
+    ),
+    deleteAsync: jest.fn(async (uri: string) => {
+        delete mockFiles[uri];
+    }),
+}));
+
+jest.mock('../../components/SparkRegistry', () => {
+    const registry: Record<string, any> = {
+        'food-cam': {
+            metadata: { title: 'FoodCam', icon: '📸' },
+            fileStorage: {
+                directories: ['foodcam/'],
+                getFileUris: (data: any) => (data.photos || []).map((photo: any) => photo.uri),
+            },
+        },
+        'golf-brain': {
+            metadata: { title: 'Golf Brain', icon: '🏌️' },
+            fileStorage: {
+                directories: [],
+                getFileUris: (data: any) => data.videos || [],
+            },
+        },
+        todo: { metadata: { title: 'Todo', icon: '✅' } },
+    };
+    return {
+        sparkRegistry: registry,
+        getSparkById: (id: string) => registry[id],
+    };
+});
+
+import { StorageUsageService } from '../StorageUsageService';
+import { useSparkStore } from '../../store/sparkStore';
+import { useProfileStore } from '../../store/profileStore';
+import { useSecurityStore } from '../../store/securityStore';
+
+const setFiles = (files: Record<string, number>) => {
+    Object.keys(mockFiles).forEach(path => delete mockFiles[path]);
+    Object.assign(mockFiles, files);
+};
+
+describe('StorageUsageService', () => {
+    beforeEach(async () => {
+        await AsyncStorage.clear();
+        setFiles({
+            'file:///docs/foodcam/used.jpg': 1000,
+            'file:///docs/foodcam/orphan.jpg': 500,
+            'file:///cache/Camera/swing.mov': 20000,
+        });
+        useSparkStore.setState({
+            sparkData: {
+                'food-cam': { photos: [{ uri: 'foodcam/used.jpg' }, { uri: 'foodcam/gone.jpg' }] },
+                'golf-brain': { videos: ['file:///cache/Camera/swing.mov'] },
+                todo: { todos: [{ id: 1, text: 'Buy milk' }] },
+            },
+            sparkHistory: {},
+            quarantinedData: {},
+        });
+    });
+
+    it('reports data, files, orphans and missing files per spark', async () => {
+        const report = await StorageUsageService.getReport();
+        const foodCam = report.sparks.find(spark => spark.sparkId === 'food-cam')!;
+
+        expect(foodCam.fileBytes).toBe(1500);
+        expect(foodCam.fileCount).toBe(2);
+        expect(foodCam.orphanedFiles).toEqual([{ uri: 'file:///docs/foodcam/orphan.jpg', bytes: 500 }]);
+        expect(foodCam.missingFiles).toEqual(['foodcam/gone.jpg']);
+        expect(foodCam.dataBytes).toBeGreaterThan(0);
+        expect(foodCam.totalBytes).toBe(foodCam.dataBytes + 1500);
+    });
+
+    it('measures referenced files outside documentDirectory and sorts largest first', async () => {
+        const report = await StorageUsageService.getReport();
+
+        expect(report.sparks.map(spark => spark.sparkId)).toEqual(['golf-brain', 'food-cam', 'todo']);
+        expect(report.sparks[0].fileBytes).toBe(20000);
+        expect(report.sparks[0].orphanedFiles).toEqual([]);
+        expect(report.totalBytes).toBe(report.storeBytes + 21500);
+    });
+
+    it('measures the persisted store entry when it exists', async () => {
+        useSparkStore.getState().checkpointSparkData('todo', 'Delete "Buy milk"');
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        const todo = await StorageUsageService.getSparkUsage('todo');
+        expect(todo.cacheBytes).toBeGreaterThan(0);
+
+        StorageUsageService.clearCache('todo');
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect((await StorageUsageService.getSparkUsage('todo')).cacheBytes).toBe(0);
+    });
+
+    it('removes only orphaned files', async () => {
+        const removed = await StorageUsageService.removeOrphanedFiles('food-cam');
+
+        expect(removed).toEqual({ count: 1, bytes: 500 });
+        expect(Object.keys(mockFiles)).toEqual(['file:///docs/foodcam/used.jpg', 'file:///cache/Camera/swing.mov']);
+    });
+
+    describe('with several profiles', () => {
+        const profiles = useProfileStore.getState().profiles;
+
+        beforeEach(() => {
+            useProfileStore.setState({ profiles: [...profiles, { id: 'kid', name: 'Kid', emoji: '🧒', createdAt: '' }] });
+        });
+
+        afterEach(() => {
+            useProfileStore.setState({ profiles });
+            useSecurityStore.setState({ privateSparkIds: [] });
+        });
+
+        it("keeps files another profile's data or trash references", async () => {
+            mockFiles['file:///docs/foodcam/trashed.jpg'] = 200;
+            await AsyncStorage.setItem('sparks-data-storage:kid', JSON.stringify({
+                state: { sparkData: { 'food-cam': { photos: [{ id: 1, uri: 'foodcam/orphan.jpg' }] } } },
+            }));
+            await AsyncStorage.setItem('sparks-trash-storage:kid', JSON.stringify({
+                state: {
+                    items: [{
+                        id: 't1',
+                        sparkId: 'food-cam',
+                        collection: 'photos',
+                        itemId: 2,
+                        item: { id: 2, uri: 'foodcam/trashed.jpg' },
+                        label: 'Lunch',
+                        deletedAt: new Date().toISOString(),
+                    }],
+                },
+            }));
+
+            expect((await StorageUsageService.getSparkUsage('food-cam')).orphanedFiles).toEqual([]);
+            expect(await StorageUsageService.removeOrphanedFiles('food-cam')).toEqual({ count: 0, bytes: 0 });
+            expect(mockFiles['file:///docs/foodcam/orphan.jpg']).toBe(500);
+            expect(mockFiles['file:///docs/foodcam/trashed.jpg']).toBe(200);
+        });
+
+        it("removes nothing while another profile's copy is locked", async () => {
+            await AsyncStorage.setItem('sparks-data-storage:kid', JSON.stringify({
+                state: { sparkData: { 'food-cam': { encrypted: 'sparks-v2', iv: '', data: '' } } },
+            }));
+
+            expect(await StorageUsageService.removeOrphanedFiles('food-cam')).toEqual({ count: 0, bytes: 0 });
+            expect(mockFiles['file:///docs/foodcam/orphan.jpg']).toBe(500);
+        });
+    });
+});
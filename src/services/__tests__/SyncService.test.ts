@@ -0,0 +1,113 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+jest.mock('../../components/SparkRegistry', () => {
+    const registry: Record<string, any> = {
+        todo: { metadata: { title: 'Todo', icon: '✅' }, cloudSync: true },
+        ideas: { metadata: { title: 'Ideas', icon: '💡' }, cloudSync: true },
+        'food-cam': { metadata: { title: 'FoodCam', icon: '📸' } },
+    };
+    return {
+        sparkRegistry: registry,
+        getSparkById: (id: string) => registry[id],
+    };
+});
+
+jest.mock('../ServiceFactory', () => {
+    const { MockFirebaseService } = jest.requireActual('../MockFirebaseService');
+    return {
+        ServiceFactory: {
+            ensureFirebaseInitialized: jest.fn(async () => undefined),
+            getFirebaseService: () => MockFirebaseService,
+        },
+    };
+});
+
+import { SyncService } from '../SyncService';
+import { MockFirebaseService } from '../MockFirebaseService';
+import { useSparkStore } from '../../store/sparkStore';
+
+const USER = 'user-1';
+
+describe('SyncService', () => {
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        await AsyncStorage.clear();
+        MockFirebaseService.clearMockData();
+        useSparkStore.setState({
+            sparkData: {
+                todo: { todos: [{ id: 1, text: 'Buy milk' }] },
+                'food-cam': { photos: [{ uri: 'foodcam/1.jpg' }] },
+            },
+            userSparkIds: ['todo', 'food-cam'],
+            isHydrated: true,
+        });
+        await SyncService.start();
+    });
+
+    afterEach(async () => {
+        await SyncService.setUser(null);
+        SyncService.stop();
+        jest.restoreAllMocks();
+    });
+
+    it('uploads only sparks that opt in on sign-in', async () => {
+        await SyncService.setUser(USER);
+
+        const remote = await MockFirebaseService.getSparkSyncDocuments(USER);
+        expect(Object.keys(remote)).toEqual(['todo']);
+        expect(remote.todo.data).toEqual({ todos: [{ id: 1, text: 'Buy milk' }] });
+        expect(SyncService.getStatus()).toBe('idle');
+        expect(SyncService.getPendingCount()).toBe(0);
+    });
+
+    it('merges account data from another device into the store', async () => {
+        await MockFirebaseService.setSparkSyncDocument(USER, 'ideas', {
+            data: { ideas: [{ id: 'a', text: 'Write a spark' }] },
+            clock: { fields: {}, items: { ideas: { a: 1 } }, deleted: {} },
+            updatedAt: 1,
+            schemaVersion: 0,
+        });
+
+        await SyncService.setUser(USER);
+
+        const state = useSparkStore.getState();
+        expect(state.sparkData.ideas).toEqual({ ideas: [{ id: 'a', text: 'Write a spark' }] });
+        expect(state.userSparkIds).toContain('ideas');
+    });
+
+    it('queues changes while offline and pushes them on the next flush', async () => {
+        await SyncService.setUser(USER);
+        jest.spyOn(MockFirebaseService, 'setSparkSyncDocument').mockRejectedValueOnce(new Error('offline'));
+
+        useSparkStore.getState().setSparkData('todo', {
+            todos: [{ id: 1, text: 'Buy milk' }, { id: 2, text: 'Call mom' }],
+        });
+        expect(SyncService.getPendingCount()).toBe(1);
+
+        await SyncService.flush();
+        expect(SyncService.getStatus()).toBe('offline');
+        expect(SyncService.getPendingCount()).toBe(1);
+
+        await SyncService.flush();
+        expect(SyncService.getStatus()).toBe('idle');
+        expect(SyncService.getPendingCount()).toBe(0);
+        const remote = await MockFirebaseService.getSparkSyncDocument(USER, 'todo');
+        expect(remote?.data.todos).toHaveLength(2);
+    });
+
+    it('skips account data written with a different schema version', async () => {
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        await MockFirebaseService.setSparkSyncDocument(USER, 'todo', {
+            data: { items: [] },
+            clock: { fields: { items: 1 }, items: {}, deleted: {} },
+            updatedAt: 1,
+            schemaVersion: 2,
+        });
+
+        await SyncService.setUser(USER);
+
+        expect(useSparkStore.getState().sparkData.todo).toEqual({ todos: [{ id: 1, text: 'Buy milk' }] });
+        expect((await MockFirebaseService.getSparkSyncDocument(USER, 'todo'))?.schemaVersion).toBe(2);
+    });
+});
@@ -0,0 +1,93 @@
+jest.mock('../../components/SparkRegistry', () => ({
+    sparkRegistry: {},
+    getSparkById: (id: string) => (id === 'soundboard'
+        ? { metadata: { title: 'Soundboard' }, fileStorage: { directories: ['soundboard/'], getFileUris: () => [] } }
+        : { metadata: { title: id } }),
+}));
+
+jest.mock('../StorageUsageService', () => ({
+    StorageUsageService: { removeOrphanedFiles: jest.fn(async () => ({ count: 0, bytes: 0 })) },
+}));
+
+import { TrashService } from '../TrashService';
+import { StorageUsageService } from '../StorageUsageService';
+import { useSparkStore } from '../../store/sparkStore';
+import { useTrashStore } from '../../store/trashStore';
+
+describe('TrashService', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        useTrashStore.setState({ items: [] });
+        useSparkStore.setState({
+            sparkData: { recaipe: { recipes: [{ id: 'r1', title: 'Cookies' }, { id: 'r2', title: 'Soup' }] } },
+            sparkHistory: {},
+        });
+    });
+
+    it('removes an item from a list and keeps it in the trash', () => {
+        const recipes = useSparkStore.getState().sparkData.recaipe.recipes;
+        const remaining = TrashService.removeItem('recaipe', 'recipes', recipes, 'r1', 'Cookies');
+
+        expect(remaining).toEqual([{ id: 'r2', title: 'Soup' }]);
+        expect(TrashService.getItems('recaipe')).toEqual([
+            expect.objectContaining({ sparkId: 'recaipe', collection: 'recipes', itemId: 'r1', label: 'Cookies' }),
+        ]);
+    });
+
+    it('keeps one entry when the same item is deleted again', () => {
+        TrashService.trashItem('recaipe', 'recipes', { id: 'r1' }, 'Cookies');
+        TrashService.trashItem('recaipe', 'recipes', { id: 'r1' }, 'Cookies');
+        expect(TrashService.getItems()).toHaveLength(1);
+    });
+
+    it('keeps both entries when a different item reused the id', () => {
+        const muni = { id: 1, course: 'Muni' };
+        const links = { id: 1, course: 'Links' };
+        TrashService.trashItem('golf', 'rounds', muni, 'Muni');
+        TrashService.trashItem('golf', 'rounds', links, 'Links');
+        expect(TrashService.getItems().map(item => item.label)).toEqual(['Links', 'Muni']);
+    });
+
+    it('restores an item into its spark data', () => {
+        const recipes = useSparkStore.getState().sparkData.recaipe.recipes;
+        useSparkStore.getState().replaceSparkData('recaipe', {
+            recipes: TrashService.removeItem('recaipe', 'recipes', recipes, 'r1', 'Cookies'),
+        });
+
+        TrashService.restore(TrashService.getItems()[0].id);
+
+        expect(useSparkStore.getState().sparkData.recaipe.recipes.map((r: any) => r.id)).toEqual(['r2', 'r1']);
+        expect(TrashService.getItems()).toHaveLength(0);
+        expect(useSparkStore.getState().sparkHistory.recaipe.past).toHaveLength(1);
+    });
+
+    it('will not restore into a locked spark', () => {
+        useSparkStore.setState({ sparkData: { recaipe: { encrypted: 'sparks-v2', iv: 'iv', data: 'sealed' } } });
+        const trashed = TrashService.trashItem('recaipe', 'recipes', { id: 'r1' }, 'Cookies');
+
+        expect(() => TrashService.restore(trashed.id)).toThrow('Unlock recaipe');
+        expect(TrashService.getItems()).toHaveLength(1);
+    });
+
+    it('purges expired items and cleans up their files', async () => {
+        TrashService.trashItem('soundboard', 'soundChips', { id: 's1' }, 'Ding');
+        TrashService.trashItem('recaipe', 'recipes', { id: 'r1' }, 'Cookies');
+        const inAMonth = new Date(Date.now() + 31 * 24 * 60 * 60 * 1000);
+
+        expect(await TrashService.purgeExpired(new Date())).toBe(0);
+        expect(await TrashService.purgeExpired(inAMonth)).toBe(2);
+        expect(TrashService.getItems()).toHaveLength(0);
+        expect(StorageUsageService.removeOrphanedFiles).toHaveBeenCalledTimes(1);
+        expect(StorageUsageService.removeOrphanedFiles).toHaveBeenCalledWith('soundboard');
+    });
+
+    it('gives todos trashed with numbered ids the string ids of the list', () => {
+        const migrate = useTrashStore.persist.getOptions().migrate!;
+        const trashed = { id: 't1', sparkId: 'todo', collection: 'todos', itemId: 3, item: { id: 3, text: 'a' }, label: 'a', deletedAt: '' };
+        const recipe = { ...trashed, id: 't2', sparkId: 'recaipe', itemId: 7, item: { id: 7 } };
+
+        expect(migrate({ items: [trashed, recipe] }, 0)).toEqual({
+            items: [{ ...trashed, itemId: '3', item: { id: '3', text: 'a' } }, recipe],
+        });
+    });
+});
@@ -0,0 +1,149 @@
+jest.mock('../../components/SparkRegistry', () => {
+    const intents = (path: string, name: string) => jest.requireActual(`../../sparks/${path}/voiceIntents`)[name];
+    const sparks = [
+        { metadata: { id: 'packing-list', title: 'Packing List' }, voiceIntents: intents('PackingListSpark', 'packingListVoiceIntents') },
+        { metadata: { id: 'todo', title: 'Todo List' }, voiceIntents: intents('TodoSpark', 'todoVoiceIntents') },
+        { metadata: { id: 'shop', title: 'Shop' }, voiceIntents: intents('ShopSpark', 'shopVoiceIntents') },
+    ];
+    return { getAllSparks: () => sparks };
+});
+
+jest.mock('../GeminiCommandParser', () => ({
+    GeminiCommandParser: { parseCommands: jest.fn() },
+}));
+
+import { VoiceCommandParser } from '../VoiceCommandParser';
+import { GeminiCommandParser, ParsedCommand } from '../GeminiCommandParser';
+
+const parseWithGemini = GeminiCommandParser.parseCommands as jest.Mock;
+
+const gemini = (targetSpark: string, action: string, params: Record<string, any> = {}): ParsedCommand => ({
+    targetSpark,
+    action,
+    params,
+    confidence: 0.9,
+    originalText: '',
+    source: 'gemini',
+});
+
+// What GeminiCommandParser returns without an API key or network
+const geminiUnavailable = gemini('unknown', 'unknown', { error: 'Gemini API key not found' });
+
+describe('VoiceCommandParser', () => {
+    beforeEach(() => {
+        parseWithGemini.mockReset();
+    });
+
+    describe('local-first', () => {
+        it('uses confident offline results without asking Gemini', async () => {
+            expect(await VoiceCommandParser.parseCommands("We're out of olive oil", 'local-first')).toEqual([
+                expect.objectContaining({ targetSpark: 'shop', action: 'add', params: { item: 'Olive oil' }, source: 'local' }),
+            ]);
+            expect(parseWithGemini).not.toHaveBeenCalled();
+        });
+
+        it('asks Gemini when the offline parser is unsure', async () => {
+            const fromGemini = gemini('todo', 'add', { text: 'Sort the garage' });
+            parseWithGemini.mockResolvedValue([fromGemini]);
+
+            expect(await VoiceCommandParser.parseCommands('the garage really needs sorting', 'local-first')).toEqual([fromGemini]);
+            expect(parseWithGemini).toHaveBeenCalledWith('the garage really needs sorting');
+        });
+
+        it('asks Gemini when any step is unclear', async () => {
+            parseWithGemini.mockResolvedValue([geminiUnavailable]);
+
+            await VoiceCommandParser.parseCommands('Open shop. Something vague', 'local-first');
+            expect(parseWithGemini).toHaveBeenCalled();
+        });
+
+        it('falls back to a weak offline guess when Gemini is unavailable', async () => {
+            parseWithGemini.mockResolvedValue([geminiUnavailable]);
+
+            // Only matched by the generic "add <thing> to <spark>" rule
+            expect(await VoiceCommandParser.parseCommands('add flour to shop', 'local-first')).toEqual([
+                expect.objectContaining({ targetSpark: 'shop', params: { item: 'Flour' }, confidence: 0.65, source: 'local' }),
+            ]);
+        });
+
+        it("keeps Gemini's error when neither parser understood", async () => {
+            parseWithGemini.mockResolvedValue([geminiUnavailable]);
+            expect(await VoiceCommandParser.parseCommands('hmm', 'local-first')).toEqual([geminiUnavailable]);
+        });
+    });
+
+    describe('ai-first', () => {
+        it('prefers Gemini even when the offline parser is confident', async () => {
+            const fromGemini = gemini('todo', 'add', { text: 'Buy olive oil' });
+            parseWithGemini.mockResolvedValue([fromGemini]);
+
+            expect(await VoiceCommandParser.parseCommands("We're out of olive oil", 'ai-first')).toEqual([fromGemini]);
+        });
+
+        it('uses the offline result when Gemini fails', async () => {
+            parseWithGemini.mockResolvedValue([geminiUnavailable]);
+
+            expect(await VoiceCommandParser.parseCommands('remind me to call mom', 'ai-first')).toEqual([
+                expect.objectContaining({ targetSpark: 'todo', params: { text: 'Call mom' }, source: 'local' }),
+            ]);
+        });
+
+        it("splits Gemini's list-shaped adds into items", async () => {
+            parseWithGemini.mockResolvedValue([gemini('shop', 'add', { item: ['milk', 'Eggs'] }), gemini('todo', 'open')]);
+
+            expect(await VoiceCommandParser.parseCommands('get milk and eggs then open todo', 'ai-first')).toEqual([
+                gemini('shop', 'add', { item: 'Milk' }),
+                gemini('shop', 'add', { item: 'Eggs' }),
+                gemini('todo', 'open'),
+            ]);
+        });
+    });
+
+    it('never calls Gemini when offline only', async () => {
+        expect(await VoiceCommandParser.parseCommands('hmm', 'local-only')).toEqual([
+            expect.objectContaining({ targetSpark: 'unknown', source: 'local' }),
+        ]);
+        expect(await VoiceCommandParser.parseCommands('open shop', 'local-only')).toEqual([
+            expect.objectContaining({ targetSpark: 'shop', action: 'open' }),
+        ]);
+        expect(parseWithGemini).not.toHaveBeenCalled();
+    });
+
+    it('is offline first by default', async () => {
+        await VoiceCommandParser.parseCommands('open shop');
+        expect(parseWithGemini).not.toHaveBeenCalled();
+    });
+
+    it('returns one command per step and per listed item', async () => {
+        const commands = await VoiceCommandParser.parseCommands('add milk and eggs to my todo list and then open the packing list');
+        expect(commands.map(({ targetSpark, action, params, originalText }) => ({ targetSpark, action, params, originalText }))).toEqual([
+            { targetSpark: 'todo', action: 'add', params: { text: 'Milk' }, originalText: 'add milk and eggs to my todo list' },
+            { targetSpark: 'todo', action: 'add', params: { text: 'Eggs' }, originalText: 'add milk and eggs to my todo list' },
+            { targetSpark: 'packing-list', action: 'open', params: {}, originalText: 'open the packing list' },
+        ]);
+        expect(parseWithGemini).not.toHaveBeenCalled();
+    });
+
+    it.each<[string, string, Record<string, any>[]]>([
+        ['add milk, eggs and bread to my todo list', 'todo', [{ text: 'Milk' }, { text: 'Eggs' }, { text: 'Bread' }]],
+        ['we need salt & pepper', 'shop', [{ item: 'Salt' }, { item: 'Pepper' }]],
+        ['pack socks and sandals', 'packing-list', [{ item: 'Socks' }, { item: 'Sandals' }]],
+    ])('splits the items of "%s" offline', async (transcript, targetSpark, items) => {
+        expect(await VoiceCommandParser.parseCommands(transcript, 'local-only')).toEqual(
+            items.map(params => expect.objectContaining({ targetSpark, action: 'add', params }))
+        );
+    });
+
+    it("keeps Gemini's single item whole and splits only its arrays", async () => {
+        parseWithGemini.mockResolvedValue([
+            gemini('todo', 'add', { text: 'Call Mom, then Dad' }),
+            gemini('shop', 'add', { item: ['Salt', 'Pepper'] }),
+        ]);
+
+        expect((await VoiceCommandParser.parseCommands('call mom then dad, and buy salt and pepper', 'ai-first')).map(command => command.params)).toEqual([
+            { text: 'Call Mom, then Dad' },
+            { item: 'Salt' },
+            { item: 'Pepper' },
+        ]);
+    });
+});
@@ -46,7 +46,7 @@ const BusinessSpark: React.FC<BusinessSparkProps> = ({
 }) => {
     const sparkRecord = getSparkById('business-spark');
     const displayTitle = sparkRecord?.metadata.title || 'Empire';
-    const isBeta = sparkRecord?.metadata.properties?.includes('Beta');
+    const isBeta = sparkRecord?.metadata.manifest?.beta;
     const { getSparkData, setSparkData } = useSparkStore();
     const [dataLoaded, setDataLoaded] = useState(false);
     const { state, error, processTurn, resetGame, loadState, stopLoading } = useBusinessEngine();
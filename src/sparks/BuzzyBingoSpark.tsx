@@ -117,7 +117,7 @@ export const BuzzyBingoSpark: React.FC<BuzzyBingoSparkProps> = ({
   onCloseSettings,
 }) => {
   const { colors } = useTheme();
-  const { getSparkData, setSparkData } = useSparkStore();
+  const { getSparkData, setSparkData, checkpointSparkData } = useSparkStore();
   const [data, setData] = useState<BuzzyBingoData>({
     wordSets: [],
     game: null,
@@ -309,6 +309,12 @@ Chocolate Cake
     setBingoLines([]);
   };
 
+  // Clearing the card by hand (button or shake) can be undone
+  const resetCard = () => {
+    checkpointSparkData("buzzy-bingo", "Reset card");
+    initializeGame();
+  };
+
   // Initialize game on mount or when active word set changes
   useEffect(() => {
     if (
@@ -421,7 +427,7 @@ Chocolate Cake
             if (now - lastShakeTime.current > SHAKE_COOLDOWN) {
               lastShakeTime.current = now;
               HapticFeedback.medium();
-              initializeGame();
+              resetCard();
             }
           }
 
@@ -573,6 +579,7 @@ Chocolate Cake
           text: "Delete",
           style: "destructive",
           onPress: () => {
+            checkpointSparkData("buzzy-bingo", "Delete word set");
             const updatedWordSets = data.wordSets.filter(
               (ws) => ws.id !== wordSetId
             );
@@ -1077,7 +1084,7 @@ Chocolate Cake
           ]}
           onPress={() => {
             HapticFeedback.medium();
-            initializeGame();
+            resetCard();
           }}
         >
           <Text style={[styles.resetButtonFullWidthText, { color: "#fff" }]}>
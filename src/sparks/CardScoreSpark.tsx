@@ -15,9 +15,11 @@ import {
   SaveCancelButtons,
   SettingsText,
   SettingsFeedbackSection,
+  SettingsDataSection,
 } from '../components/SettingsComponents';
+import { defaultPlayerSet } from './CardScoreSpark/dataAdapter';
 
-interface PlayerSet {
+export interface PlayerSet {
   id: string;
   setName: string;
   players: string[];
@@ -27,7 +29,7 @@ interface PlayerSet {
   updatedAt: string;
 }
 
-interface ActiveGame {
+export interface ActiveGame {
   activeSetId: string;
   rounds: Array<Record<string, number>>;
   startedAt: string;
@@ -40,22 +42,13 @@ interface CardScoreSparkProps {
   onComplete?: (result: any) => void;
 }
 
-const defaultPlayerSet: PlayerSet = {
-  id: 'default',
-  setName: 'Default',
-  players: ['Hero', 'Villain'],
-  winHistory: { Hero: 0, Villain: 0 },
-  highScoreWins: true,
-  createdAt: new Date().toISOString(),
-  updatedAt: new Date().toISOString(),
-};
-
 // Settings Component
 const CardScoreSettings: React.FC<{
   playerSets: PlayerSet[];
   onUpdatePlayerSets: (sets: PlayerSet[]) => void;
+  onDataImported: (data: Record<string, any>) => void;
   onClose: () => void;
-}> = ({ playerSets, onUpdatePlayerSets, onClose }) => {
+}> = ({ playerSets, onUpdatePlayerSets, onDataImported, onClose }) => {
   const { colors } = useTheme();
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
@@ -318,6 +311,8 @@ const CardScoreSettings: React.FC<{
 
         <SettingsFeedbackSection sparkName="CardScore" sparkId="card-score" />
 
+        <SettingsDataSection sparkId="card-score" onImported={onDataImported} />
+
         <SettingsSection title="Player Sets">
           <SettingsButton
             title="Create New Player Set"
@@ -1037,6 +1032,11 @@ export const CardScoreSpark: React.FC<CardScoreSparkProps> = ({
       <CardScoreSettings
         playerSets={playerSets}
         onUpdatePlayerSets={setPlayerSets}
+        onDataImported={(data) => {
+          setPlayerSets(data.playerSets);
+          setActiveGame(data.activeGame);
+          setCurrentScreen('active-game');
+        }}
         onClose={() => {
           setShowInternalSettings(false);
           onCloseSettings?.();
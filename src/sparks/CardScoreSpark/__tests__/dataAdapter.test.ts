@@ -0,0 +1,34 @@
+import { cardScoreDataAdapter } from '../dataAdapter';
+
+const playerSet = {
+    id: 'set-1',
+    setName: 'Family',
+    players: ['Ana', 'Ben'],
+    winHistory: { Ana: 2, Ben: 1 },
+    highScoreWins: true,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+const data = {
+    playerSets: [playerSet],
+    activeGame: { activeSetId: 'set-1', rounds: [{ Ana: 5, Ben: 3 }, { Ana: -2, Ben: 10.5 }], startedAt: '2026-01-02T00:00:00.000Z' },
+};
+
+describe('cardScoreDataAdapter', () => {
+    it('imports its own export back into the same player set', () => {
+        const imported = cardScoreDataAdapter.importData(cardScoreDataAdapter.exportData(data), data);
+
+        expect(imported.playerSets).toEqual([playerSet]);
+        expect(imported.activeGame.activeSetId).toBe('set-1');
+        expect(imported.activeGame.rounds).toEqual(data.activeGame.rounds);
+    });
+
+    it('creates a player set for players it does not know', () => {
+        const imported = cardScoreDataAdapter.importData(cardScoreDataAdapter.exportData(data), { playerSets: [] });
+
+        const created = imported.playerSets.find((set: any) => set.id === imported.activeGame.activeSetId);
+        expect(created.players).toEqual(['Ana', 'Ben']);
+        expect(imported.activeGame.rounds).toEqual(data.activeGame.rounds);
+    });
+});
@@ -0,0 +1,82 @@
+// CSV import/export for CardScoreSpark data
+import { SparkDataAdapter } from '../../types/spark';
+import { toCsv, parseCsv } from '../../utils/csv';
+import type { ActiveGame, PlayerSet } from '../CardScoreSpark';
+
+export const defaultPlayerSet: PlayerSet = {
+  id: 'default',
+  setName: 'Default',
+  players: ['Hero', 'Villain'],
+  winHistory: { Hero: 0, Villain: 0 },
+  highScoreWins: true,
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+};
+
+// CSV of the current game: one column per player, one row per round
+export const cardScoreDataAdapter: SparkDataAdapter = {
+  format: 'csv',
+  description: 'Rounds of the current game as a CSV spreadsheet. Importing replaces the current game, using the player set with matching players or creating a new one.',
+  exportData: (data) => {
+    const activeGame: ActiveGame | null = data.activeGame || null;
+    const playerSets: PlayerSet[] = data.playerSets || [];
+    const playerSet = activeGame && playerSets.find(s => s.id === activeGame.activeSetId);
+    if (!activeGame || !playerSet) {
+      throw new Error('Start a game before exporting rounds.');
+    }
+
+    const rows = activeGame.rounds.map((round, index) => [
+      index + 1,
+      ...playerSet.players.map(player => round[player] ?? 0),
+    ]);
+    return toCsv(['Round', ...playerSet.players], rows);
+  },
+  importData: (content, data) => {
+    const rows = parseCsv(content);
+    const players = rows[0]?.slice(1).filter(Boolean) || [];
+    if (players.length === 0) {
+      throw new Error('The first row must be "Round" followed by player names.');
+    }
+
+    const rounds = rows.slice(1).map((row, index) => {
+      const round: Record<string, number> = {};
+      players.forEach((player, i) => {
+        const score = parseFloat(row[i + 1] || '0');
+        if (isNaN(score)) {
+          throw new Error(`Round ${index + 1} has a score for ${player} that is not a number.`);
+        }
+        round[player] = score;
+      });
+      return round;
+    });
+
+    const playerSets: PlayerSet[] = data.playerSets?.length ? data.playerSets : [defaultPlayerSet];
+    const key = (names: string[]) => [...names].sort().join('|');
+    let playerSet = playerSets.find(s => key(s.players) === key(players));
+    let nextSets = playerSets;
+
+    if (!playerSet) {
+      const now = new Date().toISOString();
+      playerSet = {
+        id: Date.now().toString(),
+        setName: 'Imported',
+        players,
+        winHistory: Object.fromEntries(players.map(p => [p, 0])),
+        highScoreWins: true,
+        createdAt: now,
+        updatedAt: now,
+      };
+      nextSets = [...playerSets, playerSet];
+    }
+
+    return {
+      ...data,
+      playerSets: nextSets,
+      activeGame: {
+        activeSetId: playerSet.id,
+        rounds,
+        startedAt: new Date().toISOString(),
+      },
+    };
+  },
+};
@@ -19,7 +19,7 @@ import { HapticFeedback } from '../utils/haptics';
 import { SettingsContainer, SettingsScrollView, SettingsHeader, SettingsFeedbackSection } from '../components/SettingsComponents';
 import { NotificationService } from '../utils/notifications';
 
-interface Event {
+export interface Event {
     id: string;
     title: string;
     date: string; // ISO date string (YYYY-MM-DD)
@@ -31,9 +31,10 @@ interface Event {
 interface ComingUpSparkProps {
     showSettings?: boolean;
     onCloseSettings?: () => void;
+    eventId?: string; // Open this event for editing (from search)
 }
 
-const ComingUpSpark: React.FC<ComingUpSparkProps> = ({ showSettings, onCloseSettings }) => {
+const ComingUpSpark: React.FC<ComingUpSparkProps> = ({ showSettings, onCloseSettings, eventId }) => {
     const { colors, isDarkMode } = useTheme();
     const getSparkData = useSparkStore(state => state.getSparkData);
     const setSparkData = useSparkStore(state => state.setSparkData);
@@ -154,6 +155,15 @@ const ComingUpSpark: React.FC<ComingUpSparkProps> = ({ showSettings, onCloseSett
         setDataLoaded(true);
     }, [getSparkData, setSparkData]);
 
+    // Open the event a search result points at
+    useEffect(() => {
+        if (!dataLoaded || !eventId) return;
+        const event = events.find(e => e.id === eventId);
+        if (event) {
+            openEditModal(event);
+        }
+    }, [dataLoaded, eventId]);
+
     // Save data only after initial load and when events change
     useEffect(() => {
         if (dataLoaded) {
@@ -0,0 +1,11 @@
+import { SparkSearchIndexer } from '../../types/spark';
+import type { Event } from '../ComingUpSpark';
+
+// Global search entries for upcoming events
+export const comingUpSearchIndexer: SparkSearchIndexer = (data) =>
+    (data.events || []).map((event: Event) => ({
+        id: event.id,
+        title: event.title,
+        subtitle: `${event.date} · ${event.category}${event.type === 'annual' ? ' · yearly' : ''}`,
+        params: { eventId: event.id },
+    }));
@@ -0,0 +1,193 @@
+import { SparkIntentParam, SparkVoiceIntent } from '../../types/spark';
+import { formatDate, toLocalDateString } from '../../utils/dateUtils';
+import { generateId } from '../../utils/idUtils';
+import { findBestMatches, findSpokenItem } from '../../utils/itemMatching';
+import type { Event } from '../ComingUpSpark';
+
+const CATEGORIES: Event['category'][] = ['birthday', 'anniversary', 'trip', 'work', 'party', 'sports', 'dinner', 'other'];
+const CATEGORY_SYNONYMS: Record<string, Event['category']> = {
+    bday: 'birthday',
+    vacation: 'trip',
+    holiday: 'trip',
+    flight: 'trip',
+    meeting: 'work',
+    deadline: 'work',
+    wedding: 'party',
+    game: 'sports',
+    match: 'sports',
+    lunch: 'dinner',
+    brunch: 'dinner',
+};
+
+// "Mom's birthday" is a birthday even when no category was said
+const guessCategory = (title: string): Event['category'] => {
+    for (const word of title.toLowerCase().split(/[^a-z]+/)) {
+        const category = CATEGORY_SYNONYMS[word] || CATEGORIES.find(c => c === word || `${c}s` === word);
+        if (category) {
+            return category;
+        }
+    }
+    return 'other';
+};
+
+const ITEM_PARAMS: Record<string, SparkIntentParam> = {
+    item: { type: 'string', description: 'words from the event name', required: true },
+    itemId: { type: 'string', description: 'id of the event', hidden: true },
+};
+
+const findEvent = (events: Event[], params: Record<string, any>) =>
+    findSpokenItem(events, params, {
+        noun: 'event',
+        getId: event => event.id,
+        getText: event => event.title,
+        describe: event => `${event.title} (${event.date})`,
+    });
+
+// Annual events count to their next date, like the countdowns in the spark
+const daysUntil = (event: Event, now: Date): { days: number; date: string } => {
+    const [year, month, day] = event.date.split('-').map(Number);
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const next = new Date(event.type === 'annual' ? today.getFullYear() : year, month - 1, day);
+    if (event.type === 'annual' && next < today) {
+        next.setFullYear(today.getFullYear() + 1);
+    }
+    // Rounded, as days across a daylight saving change aren't exactly 24 hours
+    return { days: Math.round((next.getTime() - today.getTime()) / (1000 * 60 * 60 * 24)), date: toLocalDateString(next) };
+};
+
+// A rolled-over annual event leaves last year's date behind as a one-time copy,
+// so past events are only looked at when no upcoming one matches
+const findQueriedEvent = (events: Event[], params: Record<string, any>, now: Date) => {
+    const upcoming = events.filter(event => daysUntil(event, now).days >= 0);
+    const hasUpcomingMatch = params.itemId === undefined && findBestMatches(params.item, upcoming, event => event.title).length > 0;
+    return findEvent(hasUpcomingMatch ? upcoming : events, params);
+};
+
+// Voice commands, deep links and automations for upcoming events
+export const comingUpVoiceIntents: SparkVoiceIntent[] = [
+    {
+        action: 'add',
+        aliases: ['create'],
+        description: 'Add an upcoming event',
+        keywords: ['coming up', 'event', 'birthday', 'anniversary', 'trip on'],
+        params: {
+            title: { type: 'string', description: 'event name', required: true },
+            date: { type: 'date', description: 'event date', required: true },
+            category: { type: 'string', description: 'event category', options: CATEGORIES, synonyms: CATEGORY_SYNONYMS },
+            repeats: { type: 'string', description: 'whether it happens every year', options: ['annual', 'one-time'] },
+        },
+        examples: [
+            { text: "Mom's birthday is tomorrow", params: { title: "Mom's birthday", date: 'tomorrow', category: 'birthday' } },
+            { text: 'Add a trip to Lisbon on June 12, 2027', params: { title: 'Lisbon trip', date: '2027-06-12', category: 'trip' } },
+        ],
+        phrases: [
+            '(add|create|new) [a|an] [{category}] event [called|named|for] {title} (on|for) {date}',
+            '{title} is [on|coming up on] {date}',
+            '(add|plan|schedule) [a|an|the] {title} (on|for) {date}',
+        ],
+        handler: ({ title, date, category = guessCategory(title), repeats }, data, now) => {
+            // Birthdays and anniversaries come around every year unless told otherwise
+            const type = repeats || (category === 'birthday' || category === 'anniversary' ? 'annual' : 'one-time');
+
+            const newEvent: Event = {
+                id: generateId(),
+                title,
+                date,
+                type,
+                category,
+            };
+
+            return {
+                data: { ...data, events: [...(data.events || []), newEvent] },
+                message: `Added ${title} on ${date}`,
+            };
+        },
+    },
+    {
+        action: 'move',
+        aliases: ['reschedule'],
+        description: 'Change the date of an event',
+        keywords: ['move', 'reschedule', 'postpone'],
+        params: {
+            ...ITEM_PARAMS,
+            date: { type: 'date', description: 'new event date', required: true },
+        },
+        examples: [
+            { text: 'Move the Lisbon trip event to July 3', params: { item: 'the Lisbon trip', date: '2027-07-03' } },
+        ],
+        phrases: [
+            '(move|reschedule|postpone) [the|my] {item} event to {date}',
+        ],
+        handler: (params, data) => {
+            const events: Event[] = data.events || [];
+            const found = findEvent(events, params);
+            if ('result' in found) {
+                return found.result;
+            }
+
+            return {
+                data: { ...data, events: events.map(event => (event.id === found.item.id ? { ...event, date: params.date } : event)) },
+                message: `Moved ${found.item.title} to ${params.date}`,
+            };
+        },
+    },
+    {
+        action: 'delete',
+        aliases: ['remove', 'cancel'],
+        description: 'Delete an event',
+        keywords: ['cancel', 'delete', 'remove'],
+        params: ITEM_PARAMS,
+        examples: [
+            { text: 'Cancel the dentist event', params: { item: 'the dentist' } },
+        ],
+        phrases: [
+            '(cancel|delete|remove) [the|my] {item} event',
+            '(remove|delete|take) {item} (from|off) coming up',
+        ],
+        handler: (params, data) => {
+            const events: Event[] = data.events || [];
+            const found = findEvent(events, params);
+            if ('result' in found) {
+                return found.result;
+            }
+
+            return {
+                data: { ...data, events: events.filter(event => event.id !== found.item.id) },
+                message: `Deleted ${found.item.title}`,
+            };
+        },
+    },
+    {
+        action: 'query',
+        description: 'Say how long until an event',
+        keywords: ['how many days until', 'how long until', 'when is'],
+        params: ITEM_PARAMS,
+        examples: [
+            { text: "How many days until Mom's birthday?", params: { item: "Mom's birthday" } },
+            { text: 'When is the Lisbon trip?', params: { item: 'the Lisbon trip' } },
+        ],
+        phrases: [
+            'how (many days|long) [is it] (until|till|to|before) [the|my] {item}',
+            "(when is|when's|how far away is|how soon is) [the|my] {item}",
+        ],
+        handler: (params, data, now) => {
+            const found = findQueriedEvent(data.events || [], params, now);
+            if ('result' in found) {
+                return found.result;
+            }
+
+            const { title } = found.item;
+            const { days, date } = daysUntil(found.item, now);
+            if (days === 0) {
+                return { message: `${title} is today.` };
+            }
+            if (days === 1) {
+                return { message: `${title} is tomorrow.` };
+            }
+            if (days < 0) {
+                return { message: `${title} was ${-days === 1 ? 'yesterday' : `${-days} days ago`}, on ${formatDate(date)}.` };
+            }
+            return { message: `${title} is in ${days} days, on ${formatDate(date)}.` };
+        },
+    },
+];
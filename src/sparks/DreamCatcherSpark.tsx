@@ -31,7 +31,11 @@ import { AISettingsNote } from '../components/AISettingsNote';
 
 type RecordingState = 'idle' | 'countdown' | 'recording' | 'recorded' | 'transcribing' | 'transcribed' | 'interpreting' | 'interpreted';
 
-export const DreamCatcherSpark: React.FC<SparkProps> = ({ showSettings, onCloseSettings }) => {
+interface DreamCatcherSparkProps extends SparkProps {
+  dreamId?: string; // Open this dream (from search)
+}
+
+export const DreamCatcherSpark: React.FC<DreamCatcherSparkProps> = ({ showSettings, onCloseSettings, dreamId }) => {
   const { colors } = useTheme();
 
   // Recording state
@@ -68,6 +72,16 @@ export const DreamCatcherSpark: React.FC<SparkProps> = ({ showSettings, onCloseS
     loadDreamHistory();
   }, []);
 
+  // Open the dream a search result points at
+  useEffect(() => {
+    if (!dreamId) return;
+    DreamStorageService.getDreamById(dreamId).then((dream) => {
+      if (dream) {
+        openDream(dream);
+      }
+    });
+  }, [dreamId]);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -108,6 +122,21 @@ export const DreamCatcherSpark: React.FC<SparkProps> = ({ showSettings, onCloseS
     }
   }, [recordingState]);
 
+  const openDream = (dream: DreamEntry) => {
+    setCurrentDream(dream);
+    setRecordedUri(dream.audioUri);
+    setTranscription(dream.transcription);
+    setGeminiInterpretation(dream.geminiInterpretation || null);
+    if (dream.geminiInterpretation) {
+      setRecordingState('interpreted');
+    } else {
+      setRecordingState('transcribed');
+    }
+    setViewingFromHistory(true);
+    setIsEditingInterpretation(false);
+    setShowHistory(false);
+  };
+
   const loadDreamHistory = async () => {
     try {
       const dreams = await DreamStorageService.getRecentDreams(30);
@@ -482,20 +511,7 @@ export const DreamCatcherSpark: React.FC<SparkProps> = ({ showSettings, onCloseS
               <TouchableOpacity
                 key={dream.id}
                 style={[styles.historyItem, { backgroundColor: colors.surface, borderColor: colors.border }]}
-                onPress={() => {
-                  setCurrentDream(dream);
-                  setRecordedUri(dream.audioUri);
-                  setTranscription(dream.transcription);
-                  setGeminiInterpretation(dream.geminiInterpretation || null);
-                  if (dream.geminiInterpretation) {
-                    setRecordingState('interpreted');
-                  } else {
-                    setRecordingState('transcribed');
-                  }
-                  setViewingFromHistory(true);
-                  setIsEditingInterpretation(false);
-                  setShowHistory(false);
-                }}
+                onPress={() => openDream(dream)}
               >
                 <Text style={[styles.historyDate, { color: colors.textSecondary }]}>
                   {formatDate(dream.timestamp)}
@@ -0,0 +1,15 @@
+import { SparkSearchIndexer } from '../../types/spark';
+import type { DreamEntry } from '../../services/DreamStorageService';
+
+// Global search entries; dreams are stored by DreamStorageService, which passes them in as { dreams }
+export const dreamCatcherSearchIndexer: SparkSearchIndexer = (data) =>
+  (data.dreams || []).map((dream: DreamEntry) => {
+    const firstLine = (dream.transcription || '').trim().split('\n')[0];
+    return {
+      id: dream.id,
+      title: firstLine.length > 80 ? `${firstLine.slice(0, 80)}…` : firstLine || `Dream on ${dream.date}`,
+      subtitle: dream.date,
+      body: [dream.transcription, dream.geminiInterpretation, ...(dream.tags || [])].filter(Boolean).join('\n'),
+      params: { dreamId: dream.id },
+    };
+  });
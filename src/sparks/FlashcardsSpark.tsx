@@ -5,6 +5,7 @@ import { setAudioModeAsync } from 'expo-audio';
 import { activateKeepAwake, deactivateKeepAwake } from 'expo-keep-awake';
 import { useSparkStore } from '../store';
 import { HapticFeedback } from '../utils/haptics';
+import { SparkEventBus } from '../services/SparkEventBus';
 import { useTheme } from '../contexts/ThemeContext';
 import {
   SettingsContainer,
@@ -27,7 +28,7 @@ import { StyleTokens } from '../styles/StyleTokens';
 
 const { width: screenWidth } = Dimensions.get('window');
 
-interface TranslationCard {
+export interface TranslationCard {
   id: number;
   english: string;
   spanish: string;
@@ -270,17 +271,19 @@ interface FlashcardsSparkProps {
   onCloseSettings?: () => void;
   onStateChange?: (state: any) => void;
   onComplete?: (result: any) => void;
+  cardId?: string; // Open this card for editing (from search)
 }
 
 export const FlashcardsSpark: React.FC<FlashcardsSparkProps> = ({
   showSettings = false,
   onCloseSettings,
   onStateChange,
-  onComplete
+  onComplete,
+  cardId
 }) => {
   const { getSparkData, setSparkData } = useSparkStore();
-  const { colors } = useTheme();
-  const commonStyles = createCommonStyles(colors);
+  const { colors, typography } = useTheme();
+  const commonStyles = createCommonStyles(colors, typography);
 
   const [cards, setCards] = useState<TranslationCard[]>(defaultTranslations);
   const [currentCard, setCurrentCard] = useState<TranslationCard | null>(null);
@@ -324,10 +327,10 @@ export const FlashcardsSpark: React.FC<FlashcardsSparkProps> = ({
       loadedCards = savedData.cards;
     }
 
-    // Migration: ensure addedAt exists and sort by it
+    // Default cards have no addedAt; saved cards are backfilled by flashcardsDataSchema
     const migratedCards = loadedCards.map((card: any) => ({
       ...card,
-      addedAt: card.addedAt || new Date(0).toISOString(), // Use epoch for old cards
+      addedAt: card.addedAt || new Date(0).toISOString(),
     }));
 
     // Sort by addedAt descending (newest first)
@@ -363,6 +366,16 @@ export const FlashcardsSpark: React.FC<FlashcardsSparkProps> = ({
     setDataLoaded(true);
   }, [getSparkData]);
 
+  // Open the card a search result points at
+  useEffect(() => {
+    if (!dataLoaded || !cardId) return;
+    const card = cards.find(c => String(c.id) === cardId);
+    if (card) {
+      setEditingCard(card);
+      setShowEditModal(true);
+    }
+  }, [dataLoaded, cardId]);
+
   // Save data whenever cards change
   useEffect(() => {
     if (!dataLoaded) return;
@@ -879,6 +892,7 @@ export const FlashcardsSpark: React.FC<FlashcardsSparkProps> = ({
     });
 
     setCards(updatedCards);
+    SparkEventBus.publish('flashcard.reviewed', 'flashcards', { cardId: currentCard.id, correct });
 
     // Start next card
     setTimeout(() => {
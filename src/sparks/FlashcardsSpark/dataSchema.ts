@@ -0,0 +1,16 @@
+// Persisted data versions for FlashcardsSpark
+import { SparkDataSchema } from '../../types/spark';
+
+export const flashcardsDataSchema: SparkDataSchema = {
+  version: 1,
+  migrations: [
+    // v0 -> v1: backfill addedAt, using the epoch so old cards sort last
+    (data) => ({
+      ...data,
+      cards: (data.cards || []).map((card: any) => ({
+        ...card,
+        addedAt: card.addedAt || new Date(0).toISOString(),
+      })),
+    }),
+  ],
+};
@@ -0,0 +1,11 @@
+import { SparkSearchIndexer } from '../../types/spark';
+import type { TranslationCard } from '../FlashcardsSpark';
+
+// Global search entries: English phrase as title, Spanish as subtitle
+export const flashcardsSearchIndexer: SparkSearchIndexer = (data) =>
+  (data.cards || []).map((card: TranslationCard) => ({
+    id: String(card.id),
+    title: card.english,
+    subtitle: card.spanish,
+    params: { cardId: String(card.id) },
+  }));
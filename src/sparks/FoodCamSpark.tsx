@@ -12,9 +12,10 @@ import {
   TextInput,
 } from 'react-native';
 import * as ImagePicker from 'expo-image-picker';
-import * as MediaLibrary from 'expo-media-library';
 import * as FileSystem from 'expo-file-system';
 import { useSparkStore } from '../store';
+import { SparkCapability } from '../types/spark';
+import { SparkPermissionService } from '../services/SparkPermissionService';
 import { HapticFeedback } from '../utils/haptics';
 import { useTheme } from '../contexts/ThemeContext';
 import {
@@ -27,7 +28,7 @@ import {
   SettingsButton,
 } from '../components/SettingsComponents';
 
-interface FoodPhoto {
+export interface FoodPhoto {
   id: string;
   // Store RELATIVE path under documentDirectory (e.g., "foodcam/123.jpg")
   uri: string; // relative path
@@ -53,6 +54,7 @@ interface FoodCamSparkProps {
 
 const { width } = Dimensions.get('window');
 const PHOTO_SIZE = (width - 40) / 3; // 3 columns with minimal padding and gaps
+const FOOD_CAM_CAPABILITIES: SparkCapability[] = ['camera', 'media-library'];
 
 // Settings Component
 const FoodCamSettings: React.FC<{
@@ -128,7 +130,8 @@ export const FoodCamSpark: React.FC<FoodCamSparkProps> = ({
         saveData(migrated);
       }
     }
-    requestPermissions();
+    // SparkScreen asks for these before the spark opens
+    SparkPermissionService.hasCapabilities(FOOD_CAM_CAPABILITIES).then(setHasPermissions);
     // Debug file system status
     checkFileSystemStatus();
   }, [getSparkData]);
@@ -140,20 +143,8 @@ export const FoodCamSpark: React.FC<FoodCamSparkProps> = ({
   };
 
   const requestPermissions = async () => {
-    try {
-      const { status: cameraStatus } = await ImagePicker.requestCameraPermissionsAsync();
-      const { status: mediaStatus } = await ImagePicker.requestMediaLibraryPermissionsAsync();
-      const { status: mediaLibraryStatus } = await MediaLibrary.requestPermissionsAsync();
-
-      setHasPermissions(
-        cameraStatus === 'granted' &&
-        mediaStatus === 'granted' &&
-        mediaLibraryStatus === 'granted'
-      );
-    } catch (error) {
-      console.warn('Permission request failed:', error);
-      setHasPermissions(false);
-    }
+    const { missing } = await SparkPermissionService.requestCapabilities(FOOD_CAM_CAPABILITIES);
+    setHasPermissions(missing.length === 0);
   };
 
   const generatePhotoId = (): string => {
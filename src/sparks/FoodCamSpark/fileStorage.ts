@@ -0,0 +1,9 @@
+// Photo accounting for FoodCamSpark data
+import { SparkFileStorage } from '../../types/spark';
+import type { FoodPhoto } from '../FoodCamSpark';
+
+// Photos are copied into foodcam/ and referenced by relative path
+export const foodCamFileStorage: SparkFileStorage = {
+  directories: ['foodcam/'],
+  getFileUris: (data) => (data.photos || []).map((photo: FoodPhoto) => photo.uri),
+};
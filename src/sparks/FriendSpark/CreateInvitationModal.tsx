@@ -19,8 +19,8 @@ export const CreateInvitationModal: React.FC<CreateInvitationModalProps> = ({
     onClose,
     onInvitationCreated,
 }) => {
-    const { colors } = useTheme();
-    const commonStyles = createCommonStyles(colors);
+    const { colors, typography } = useTheme();
+    const commonStyles = createCommonStyles(colors, typography);
     const { user } = useAuthStore();
     const [email, setEmail] = useState('');
     const [isSubmitting, setIsSubmitting] = useState(false);
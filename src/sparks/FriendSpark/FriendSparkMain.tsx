@@ -10,8 +10,8 @@ interface FriendSparkMainProps {
 }
 
 export const FriendSparkMain: React.FC<FriendSparkMainProps> = ({ onFriendPress }) => {
-    const { colors } = useTheme();
-    const commonStyles = createCommonStyles(colors);
+    const { colors, typography } = useTheme();
+    const commonStyles = createCommonStyles(colors, typography);
     const [friends, setFriends] = useState<Friend[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [isRefreshing, setIsRefreshing] = useState(false);
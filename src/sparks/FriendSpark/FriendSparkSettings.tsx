@@ -22,8 +22,8 @@ interface FriendSparkSettingsProps {
 }
 
 export const FriendSparkSettings: React.FC<FriendSparkSettingsProps> = ({ onClose }) => {
-    const { colors } = useTheme();
-    const commonStyles = createCommonStyles(colors);
+    const { colors, typography } = useTheme();
+    const commonStyles = createCommonStyles(colors, typography);
     const styles = createStyles(colors);
     const { user } = useAuthStore();
     const [invitations, setInvitations] = useState<FriendInvitation[]>([]);
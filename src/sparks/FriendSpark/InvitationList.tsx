@@ -11,8 +11,8 @@ interface InvitationListProps {
 }
 
 export const InvitationList: React.FC<InvitationListProps> = ({ invitations, onAccept, onReject }) => {
-    const { colors } = useTheme();
-    const commonStyles = createCommonStyles(colors);
+    const { colors, typography } = useTheme();
+    const commonStyles = createCommonStyles(colors, typography);
 
     if (invitations.length === 0) {
         return null;
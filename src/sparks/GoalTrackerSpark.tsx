@@ -33,13 +33,16 @@ import { HapticFeedback } from '../utils/haptics';
 import ConfettiCannon from 'react-native-confetti-cannon';
 import { SparkChart, ChartSeries } from '../components/SparkChart';
 import { getAllSparks, getSparkById } from '../components/SparkRegistry';
+import { COUNTED_ACTIVITY } from './GoalTrackerSpark/goalEvents';
 
-interface GoalEntry {
+export interface GoalEntry {
   id: string;
   date: string; // ISO date string (YYYY-MM-DD format for easy comparison)
+  eventId?: string; // Set when added automatically from the associated spark's activity
+  taskId?: string; // The completed todo, so checking it again doesn't count twice
 }
 
-interface Goal {
+export interface Goal {
   id: string;
   name: string;
   targetPerYear: number;
@@ -1406,6 +1409,11 @@ export const GoalTrackerSpark: React.FC<SparkProps> = ({
                       </TouchableOpacity>
                     ))}
                 </ScrollView>
+                {newGoalSparkId && COUNTED_ACTIVITY[newGoalSparkId] && (
+                  <Text style={[styles.inputLabel, { fontSize: 12, fontStyle: 'italic', color: colors.textSecondary, marginTop: -8 }]}>
+                    Each {COUNTED_ACTIVITY[newGoalSparkId]} in {getSparkById(newGoalSparkId)?.metadata.title} adds an entry automatically
+                  </Text>
+                )}
               </View>
               <SaveCancelButtons
                 onSave={handleSaveGoal}
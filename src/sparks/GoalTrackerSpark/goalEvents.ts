@@ -0,0 +1,51 @@
+// Automatic goal progress from other sparks' activity
+import { SparkEvent, SparkEventHandler } from '../../types/spark';
+import { toLocalDateString } from '../../utils/dateUtils';
+
+// The parts of GoalTrackerSpark's Goal this module touches
+interface GoalLike {
+  associatedSparkId?: string;
+  entries: { id: string; date: string; eventId?: string; taskId?: string }[];
+  updatedAt: string;
+}
+
+// Sparks that publish activity, and what one entry means for a goal linked to them
+export const COUNTED_ACTIVITY: Record<string, string> = {
+  todo: 'completed task',
+  'golf-brain': 'finished round',
+  scorecard: 'completed round',
+  skins: 'finished round',
+  'weight-tracker': 'weigh-in',
+  flashcards: 'card reviewed',
+  'trip-story': 'new trip',
+};
+
+// Adds an entry to every goal associated with the spark the activity came from
+export const goalTrackerEventHandler: SparkEventHandler = (event, data) => {
+  const goals: GoalLike[] = data.goals || [];
+  // A task unchecked and checked again is published again, but only counts once
+  const taskId = event.type === 'todo.completed' ? (event as SparkEvent<'todo.completed'>).payload.taskId : undefined;
+  let changed = false;
+
+  const updatedGoals = goals.map(goal => {
+    if (
+      goal.associatedSparkId !== event.sparkId ||
+      goal.entries.some(e => e.eventId === event.id || (taskId !== undefined && e.taskId === taskId))
+    ) {
+      return goal;
+    }
+    changed = true;
+    return {
+      ...goal,
+      entries: [...goal.entries, {
+        id: `entry_${Date.now()}_${event.id}`,
+        date: toLocalDateString(new Date(event.timestamp)),
+        eventId: event.id,
+        ...(taskId !== undefined && { taskId }),
+      }],
+      updatedAt: event.timestamp,
+    };
+  });
+
+  return changed ? { ...data, goals: updatedGoals } : null;
+};
@@ -0,0 +1,44 @@
+// Voice commands, deep links and automations for GoalTrackerSpark
+import { SparkVoiceIntent } from '../../types/spark';
+import { toLocalDateString } from '../../utils/dateUtils';
+import type { Goal } from '../GoalTrackerSpark';
+
+export const goalTrackerVoiceIntents: SparkVoiceIntent[] = [
+  {
+    action: 'log',
+    aliases: ['add', 'create'],
+    description: 'Log one entry of progress on an existing goal',
+    keywords: ['log', 'did', 'progress on'],
+    params: {
+      goal: { type: 'string', description: 'goal name', required: true },
+    },
+    examples: [
+      { text: 'Log progress on read 20 books', params: { goal: 'Read 20 books' } },
+      { text: 'I did my workout goal today', params: { goal: 'Workout' } },
+    ],
+    phrases: [
+      '(log|record|track) [some] progress (on|for) [my|the] {goal} [goal]',
+      'i (did|finished|completed|hit) [my|the] {goal} goal [today]',
+      '(log|record) [my|the|a|an] {goal} goal',
+    ],
+    handler: ({ goal: goalName }, data, now) => {
+      const goals: Goal[] = data.goals || [];
+      const goal = goals.find(g => g.name.trim().toLowerCase() === goalName.toLowerCase());
+
+      if (!goal) {
+        throw new Error(`No goal called "${goalName}".`);
+      }
+
+      const updatedGoal: Goal = {
+        ...goal,
+        entries: [...goal.entries, { id: `entry_${now.getTime()}`, date: toLocalDateString(now) }],
+        updatedAt: now.toISOString(),
+      };
+
+      return {
+        data: { ...data, goals: goals.map(g => (g.id === goal.id ? updatedGoal : g)) },
+        message: `Logged progress on "${goal.name}"`,
+      };
+    },
+  },
+];
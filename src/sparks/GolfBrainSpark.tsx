@@ -18,6 +18,7 @@ import { Video, ResizeMode, AVPlaybackStatus, VideoFullscreenUpdate } from "expo
 import { PanGestureHandler, State, GestureHandlerRootView } from "react-native-gesture-handler";
 import { useSparkStore } from "../store";
 import { HapticFeedback } from "../utils/haptics";
+import { SparkEventBus } from "../services/SparkEventBus";
 import { useTheme } from "../contexts/ThemeContext";
 import { SparkChart, ChartSeries } from "../components/SparkChart";
 import {
@@ -26,10 +27,13 @@ import {
   SettingsHeader,
   SettingsSection,
   SettingsFeedbackSection,
+  SettingsDataSection,
   SettingsText,
   SaveCancelButtons,
 } from "../components/SettingsComponents";
 import { RecordSwing, RecordedSwing } from "../components/RecordSwing";
+import { TrashService } from "../services/TrashService";
+import { HandsFreeState, VoiceCommandService } from "../services/VoiceCommandService";
 import {
   Course,
   Hole,
@@ -52,6 +56,7 @@ import {
 import { DEFAULT_COURSE, DEFAULT_COURSE_BACK9 } from "./GolfBrainSpark/constants";
 import { EditCourseModal } from "./GolfBrainSpark/EditCourseModal";
 import { CreateCourseModal } from "./GolfBrainSpark/CreateCourseModal";
+import { ShotDetails, parseShotDictation, describeDictatedShot } from "./GolfBrainSpark/shotDictation";
 
 // Dropdown Component
 const Dropdown = React.forwardRef<
@@ -1724,6 +1729,7 @@ const GolfBrainSettings: React.FC<{
   onNavigateToRound?: () => void;
   onNavigateToCourse?: (courseId: string) => void;
   onResetData?: () => void;
+  onDataImported?: (data: Record<string, any>) => void;
   colors: any;
   initialFocus?: "courses" | "createCourse" | string;
 }> = ({
@@ -1739,6 +1745,7 @@ const GolfBrainSettings: React.FC<{
   onNavigateToRound,
   onNavigateToCourse,
   onResetData,
+  onDataImported,
   colors,
   initialFocus,
 }) => {
@@ -1896,7 +1903,7 @@ const GolfBrainSettings: React.FC<{
       Alert.alert(
         "Delete Round",
         `Are you sure you want to delete this round from ${course?.name || "Unknown Course"
-        }? This action cannot be undone.`,
+        }? You can restore it from the Trash in Settings.`,
         [
           { text: "Cancel", style: "cancel" },
           {
@@ -2231,6 +2238,8 @@ const GolfBrainSettings: React.FC<{
 
           <SettingsFeedbackSection sparkName="Golf Brain" sparkId="golf-brain" />
 
+          <SettingsDataSection sparkId="golf-brain" onImported={onDataImported} />
+
           <SettingsSection title="Swing Recording">
             <View style={{ padding: 16 }}>
               <View style={styles.handicapContainer}>
@@ -3671,6 +3680,12 @@ const HoleDetailScreen = React.forwardRef<{ saveCurrentData: () => void }, HoleD
   const [isPlaying, setIsPlaying] = useState(false);
   const shotVideoRef = useRef<Video>(null);
 
+  // Hands-free dictation fills in the hole's shots and putts in order, replacing the
+  // defaults, then adds more. The session calls the latest handler through a ref.
+  const [handsFreeState, setHandsFreeState] = useState<HandsFreeState>("idle");
+  const dictatedRef = useRef<{ type: "shot" | "putt"; id: string; previous?: Shot }[]>([]);
+  const dictationHandlerRef = useRef<(text: string) => string>(() => "");
+
   const expectedShots = hole ? Math.max(0, hole.par - 2) : 0; // par 3 = 1, par 4 = 2, par 5 = 3
   console.log("Expected shots calculation:", {
     holePar: hole?.par,
@@ -3756,6 +3771,16 @@ const HoleDetailScreen = React.forwardRef<{ saveCurrentData: () => void }, HoleD
     setIsPlaying(false);
   }, [currentShotIndex]);
 
+  useEffect(() => {
+    dictatedRef.current = [];
+  }, [currentHole]);
+
+  useEffect(() => {
+    return () => {
+      VoiceCommandService.stopSession();
+    };
+  }, []);
+
   // Open dropdown modal when dropdown becomes visible (after "Other" is clicked)
   useEffect(() => {
     if (showClubDropdown && clubDropdownRef.current) {
@@ -3996,7 +4021,7 @@ const HoleDetailScreen = React.forwardRef<{ saveCurrentData: () => void }, HoleD
 
 
 
-  const addShot = () => {
+  const addShot = (details: ShotDetails = {}): Shot => {
     // Smart club selection based on user's default clubs
 
 
@@ -4032,6 +4057,7 @@ const HoleDetailScreen = React.forwardRef<{ saveCurrentData: () => void }, HoleD
       })(),
       timestamp: Date.now(),
       poorShot: false,
+      ...details,
     };
     setShots((prev) => {
       const newShots = [...prev, newShot];
@@ -4054,9 +4080,10 @@ const HoleDetailScreen = React.forwardRef<{ saveCurrentData: () => void }, HoleD
 
     forceScrollToTop();
     HapticFeedback.light();
+    return newShot;
   };
 
-  const addPutt = () => {
+  const addPutt = (details: ShotDetails = {}): Shot => {
     const newPutt: Shot = {
       id: `putt-${Date.now()}-${Math.random()}`,
       type: "putt",
@@ -4064,6 +4091,7 @@ const HoleDetailScreen = React.forwardRef<{ saveCurrentData: () => void }, HoleD
       direction: "good", // Default to good outcome
       timestamp: Date.now(),
       poorShot: false,
+      ...details,
     };
     setPutts((prev) => [...prev, newPutt]);
 
@@ -4072,6 +4100,65 @@ const HoleDetailScreen = React.forwardRef<{ saveCurrentData: () => void }, HoleD
 
     forceScrollToTop();
     HapticFeedback.light();
+    return newPutt;
+  };
+
+  // Records one spoken shot, putt, "undo" or "next hole" and says what was recorded
+  const handleDictation = (text: string): string => {
+    const dictation = parseShotDictation(text, clubs);
+    if (!dictation) {
+      return "Say a club and where it went, like 7 iron, left, rough. Or a putt, like 6 foot putt, short.";
+    }
+
+    if (dictation.kind === "nextHole") {
+      if (currentHole >= 18) return "This is the last hole.";
+      onNextHole();
+      return `Hole ${currentHole + 1}.`;
+    }
+
+    if (dictation.kind === "undo") {
+      const last = dictatedRef.current.pop();
+      if (!last) return "Nothing to undo.";
+      if (last.previous) {
+        const previous = last.previous;
+        const setList = last.type === "shot" ? setShots : setPutts;
+        setList((prev) => prev.map((shot) => (shot.id === last.id ? previous : shot)));
+      } else {
+        removeShot(last.id, last.type);
+      }
+      return `Undid the last ${last.type}.`;
+    }
+
+    const { kind, details } = dictation;
+    const list = (kind === "shot" ? shots : putts) || [];
+    const index = dictatedRef.current.filter((entry) => entry.type === kind).length;
+    const existing = list[index];
+    let recorded: Shot;
+    if (existing) {
+      recorded = { ...existing, ...details };
+      const setList = kind === "shot" ? setShots : setPutts;
+      setList((prev) => prev.map((shot) => (shot.id === existing.id ? recorded : shot)));
+      setCurrentShotIndex(kind === "shot" ? index : (shots || []).length + index);
+      HapticFeedback.light();
+    } else {
+      recorded = kind === "shot" ? addShot(details) : addPutt(details);
+    }
+    dictatedRef.current.push({ type: kind, id: recorded.id, previous: existing });
+    return describeDictatedShot(recorded, index + 1);
+  };
+  dictationHandlerRef.current = handleDictation;
+
+  const toggleHandsFree = async () => {
+    HapticFeedback.light();
+    if (VoiceCommandService.isSessionActive()) {
+      await VoiceCommandService.stopSession();
+      return;
+    }
+    await VoiceCommandService.startSession({
+      onUtterance: (text) => dictationHandlerRef.current(text),
+      onStateChange: setHandsFreeState,
+      onError: (error) => Alert.alert("Hands-Free Stopped", error),
+    });
   };
 
   // Shot navigation functions
@@ -5272,6 +5359,32 @@ const HoleDetailScreen = React.forwardRef<{ saveCurrentData: () => void }, HoleD
         </Text>
       </TouchableOpacity>
 
+      {/* Hands-free shot dictation */}
+      <TouchableOpacity
+        style={[
+          styles.navigationButtonBase,
+          handsFreeState === "idle" ? styles.navigationButtonOutline : styles.navigationButtonFilled,
+          { marginHorizontal: 20, marginBottom: 10, width: "auto", alignSelf: "stretch" },
+        ]}
+        onPress={toggleHandsFree}
+        accessibilityRole="button"
+        accessibilityLabel={handsFreeState === "idle" ? "Start hands-free shot entry" : "Stop hands-free shot entry"}
+      >
+        <Text
+          style={[
+            styles.buttonText,
+            handsFreeState === "idle" ? styles.navButtonText : { color: colors.background },
+            { textAlign: "center" },
+          ]}
+        >
+          {handsFreeState === "idle"
+            ? "🎧 Hands-Free Shots"
+            : handsFreeState === "listening"
+              ? "🎧 Listening… tap to stop"
+              : "🎧 Hands-Free On"}
+        </Text>
+      </TouchableOpacity>
+
       {/* Top Nav Buttons */}
       <View
         style={[
@@ -5512,7 +5625,7 @@ const HoleDetailScreen = React.forwardRef<{ saveCurrentData: () => void }, HoleD
               {/* Add Shot Button */}
               <TouchableOpacity
                 style={styles.addShotGridButton}
-                onPress={addShot}
+                onPress={() => addShot()}
               >
                 <Text style={styles.addShotGridButtonText}>+shot</Text>
               </TouchableOpacity>
@@ -5553,7 +5666,7 @@ const HoleDetailScreen = React.forwardRef<{ saveCurrentData: () => void }, HoleD
               {/* Add Putt Button */}
               <TouchableOpacity
                 style={styles.addShotGridButton}
-                onPress={addPutt}
+                onPress={() => addPutt()}
               >
                 <Text style={styles.addShotGridButtonText}>+putt</Text>
               </TouchableOpacity>
@@ -5613,7 +5726,7 @@ const HoleDetailScreen = React.forwardRef<{ saveCurrentData: () => void }, HoleD
                       <View style={styles.addShotButtonsContainer}>
                         <TouchableOpacity
                           style={[styles.addShotButton, styles.addShotButton]}
-                          onPress={addShot}
+                          onPress={() => addShot()}
                         >
                           <Text
                             style={[
@@ -5626,7 +5739,7 @@ const HoleDetailScreen = React.forwardRef<{ saveCurrentData: () => void }, HoleD
                         </TouchableOpacity>
                         <TouchableOpacity
                           style={[styles.addShotButton, styles.addPuttButton]}
-                          onPress={addPutt}
+                          onPress={() => addPutt()}
                         >
                           <Text
                             style={[
@@ -6385,6 +6498,7 @@ export const GolfBrainSpark: React.FC<
 }) => {
     const getSparkData = useSparkStore(state => state.getSparkData);
     const setSparkData = useSparkStore(state => state.setSparkData);
+    const checkpointSparkData = useSparkStore(state => state.checkpointSparkData);
     const { colors } = useTheme();
 
     const [dataLoaded, setDataLoaded] = useState(false);
@@ -7085,28 +7199,23 @@ export const GolfBrainSpark: React.FC<
         return;
       }
 
-      setData((prev) => {
-        const filteredRounds = (prev.rounds || []).filter((round) => {
-          const shouldKeep = round.id !== roundId;
-          console.log(
-            `Round ${round.id} ${shouldKeep ? "kept" : "deleted"
-            } (comparing with ${roundId})`
-          );
-          return shouldKeep;
-        });
-        console.log(
-          "Rounds after filtering:",
-          filteredRounds.map((r) => ({ id: r.id, courseName: r.courseName }))
-        );
+      const deletedRound = (data.rounds || []).find((round) => round.id === roundId);
+      checkpointSparkData("golf-brain", `Delete round at ${deletedRound?.courseName || "course"}`);
+      const rounds = TrashService.removeItem(
+        "golf-brain",
+        "rounds",
+        data.rounds || [],
+        roundId,
+        `${deletedRound?.courseName || "Round"}, ${formatDate(deletedRound?.startedAt || Date.now())}`
+      );
 
-        return {
-          ...prev,
-          rounds: filteredRounds,
-          // If we're deleting the current round, clear it
-          currentRound:
-            prev.currentRound?.id === roundId ? undefined : prev.currentRound,
-        };
-      });
+      setData((prev) => ({
+        ...prev,
+        rounds,
+        // If we're deleting the current round, clear it
+        currentRound:
+          prev.currentRound?.id === roundId ? undefined : prev.currentRound,
+      }));
       // Also clear local currentRound state if we're deleting the current round
       if (currentRound?.id === roundId) {
         setCurrentRound(null);
@@ -7180,6 +7289,12 @@ export const GolfBrainSpark: React.FC<
           };
         });
 
+        SparkEventBus.publish("round.finished", "golf-brain", {
+          roundId: completedRound.id,
+          courseName: completedRound.courseName,
+          totalStrokes: completedRound.totalScore,
+        });
+
         // Clear the current round
         setCurrentRound(null);
         setCurrentScreen("course-selection");
@@ -7544,6 +7659,7 @@ export const GolfBrainSpark: React.FC<
             );
             setCurrentScreen("hole-detail");
           }}
+          onDataImported={(imported) => setData(imported as GolfBrainData)}
           colors={colors}
         />
       );
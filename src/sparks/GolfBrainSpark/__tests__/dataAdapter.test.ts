@@ -0,0 +1,17 @@
+import { golfBrainDataAdapter } from '../dataAdapter';
+
+const data = {
+    courses: [{ id: 'c1', name: 'Pine Hills', holes: [{ number: 1, par: 4, strokeIndex: 7 }], createdAt: 1 }],
+    rounds: [{ id: 'r1', courseId: 'c1', courseName: 'Pine Hills', holeScores: [], totalScore: 5, totalPar: 4, startedAt: 2, isComplete: true }],
+};
+
+describe('golfBrainDataAdapter', () => {
+    it('imports its own export into empty data', () => {
+        const imported = golfBrainDataAdapter.importData(golfBrainDataAdapter.exportData(data), {});
+        expect(imported).toEqual(data);
+    });
+
+    it('skips courses and rounds it already has when the export is imported back', () => {
+        expect(golfBrainDataAdapter.importData(golfBrainDataAdapter.exportData(data), data)).toEqual(data);
+    });
+});
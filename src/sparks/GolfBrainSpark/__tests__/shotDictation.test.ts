@@ -0,0 +1,35 @@
+import { describeDictatedShot, parseShotDictation } from '../shotDictation';
+import { Shot } from '../types';
+
+const clubs = ['Driver', '3-Wood', '7-Iron', 'Sand Wedge', 'Putter'];
+
+describe('shotDictation', () => {
+    it.each<[string, any]>([
+        ['Seven iron, left, in the rough', { kind: 'shot', details: { club: '7-Iron', direction: 'left', lie: 'rough' } }],
+        ['driver right and long out of bounds', { kind: 'shot', details: { club: 'Driver', direction: 'right and long', lie: 'ob' } }],
+        ['3 wood short fairway', { kind: 'shot', details: { club: '3-Wood', direction: 'short', lie: 'fairway' } }],
+        ['sand wedge on the green', { kind: 'shot', details: { club: 'Sand Wedge', lie: 'green' } }],
+        ['PW flushed it', { kind: 'shot', details: { club: 'Pitching Wedge', direction: 'fire' } }],
+        ['shanked it into the water', { kind: 'shot', details: { poorShot: true, lie: 'water' } }],
+        ['twelve foot putt short', { kind: 'putt', details: { puttDistance: '10+ft', direction: 'short' } }],
+        ['putt 6 feet left', { kind: 'putt', details: { puttDistance: '5-10ft', direction: 'left' } }],
+        ['tap in', { kind: 'putt', details: { puttDistance: '<4ft' } }],
+        ['Undo', { kind: 'undo' }],
+        ['next hole', { kind: 'nextHole' }],
+        ['what a lovely day', null],
+    ])('reads "%s"', (spoken, expected) => {
+        expect(parseShotDictation(spoken, clubs)).toEqual(expected);
+    });
+
+    it("uses the golfer's own spelling of a club", () => {
+        expect(parseShotDictation('7 iron', ['7-iron'])).toEqual({ kind: 'shot', details: { club: '7-iron' } });
+    });
+
+    it('describes the recorded shot to read back', () => {
+        const shot: Shot = { id: 's', type: 'shot', club: '7-Iron', direction: 'left', lie: 'ob', timestamp: 0 };
+        const putt: Shot = { id: 'p', type: 'putt', puttDistance: '<4ft', direction: 'good', timestamp: 0 };
+
+        expect(describeDictatedShot(shot, 2)).toBe('Shot 2, 7-Iron, left, out of bounds.');
+        expect(describeDictatedShot(putt, 1)).toBe('Putt 1, under 4 feet, good.');
+    });
+});
@@ -0,0 +1,45 @@
+// JSON import/export for GolfBrainSpark data
+import { SparkDataAdapter } from '../../types/spark';
+import { Course, Round } from './types';
+
+const mergeById = <T extends { id: string }>(existing: T[], incoming: T[]): T[] => {
+  const ids = new Set(existing.map(item => item.id));
+  return [...existing, ...incoming.filter(item => item && item.id && !ids.has(item.id))];
+};
+
+export const golfBrainDataAdapter: SparkDataAdapter = {
+  format: 'json',
+  description: 'Courses and completed rounds as JSON. Imported courses and rounds are added; ones you already have are skipped.',
+  exportData: (data) => {
+    return JSON.stringify(
+      {
+        exportedAt: new Date().toISOString(),
+        courses: data.courses || [],
+        rounds: data.rounds || [],
+      },
+      null,
+      2
+    );
+  },
+  importData: (content, data) => {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      throw new Error('The file is not valid JSON.');
+    }
+
+    if (!Array.isArray(parsed?.courses) && !Array.isArray(parsed?.rounds)) {
+      throw new Error('The file has no Golf Brain courses or rounds.');
+    }
+
+    const courses: Course[] = Array.isArray(parsed.courses) ? parsed.courses : [];
+    const rounds: Round[] = Array.isArray(parsed.rounds) ? parsed.rounds : [];
+
+    return {
+      ...data,
+      courses: mergeById<Course>(data.courses || [], courses),
+      rounds: mergeById<Round>(data.rounds || [], rounds),
+    };
+  },
+};
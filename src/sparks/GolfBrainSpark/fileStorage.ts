@@ -0,0 +1,19 @@
+// Swing video accounting for GolfBrainSpark data
+import { SparkFileStorage } from '../../types/spark';
+import { Round } from './types';
+
+const roundVideoUris = (round: Round | undefined): string[] =>
+  (round?.holeScores || []).flatMap(hole =>
+    (hole.shots || []).map(shot => shot.videoUri).filter((uri): uri is string => !!uri)
+  );
+
+// Swing videos stay where the camera saved them, so GolfBrain owns no folder
+// and only the referenced videos are counted
+export const golfBrainFileStorage: SparkFileStorage = {
+  directories: [],
+  getFileUris: (data) => {
+    const rounds: Round[] = data.rounds || [];
+    const uris = [...rounds, data.currentRound].flatMap(roundVideoUris);
+    return [...new Set(uris)];
+  },
+};
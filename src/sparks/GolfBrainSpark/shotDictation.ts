@@ -0,0 +1,161 @@
+// Hands-free shot entry for GolfBrainSpark: turns "7 iron, left, in the rough" into a shot
+import { Shot } from './types';
+
+export type ShotDetails = Pick<Shot, 'club' | 'direction' | 'lie' | 'puttDistance' | 'poorShot'>;
+
+export type ShotDictation =
+  | { kind: 'shot' | 'putt'; details: ShotDetails }
+  | { kind: 'undo' }
+  | { kind: 'nextHole' };
+
+const NUMBER_WORDS: Record<string, string> = {
+  one: '1',
+  two: '2',
+  three: '3',
+  four: '4',
+  five: '5',
+  six: '6',
+  seven: '7',
+  eight: '8',
+  nine: '9',
+  ten: '10',
+  eleven: '11',
+  twelve: '12',
+  fifteen: '15',
+  twenty: '20',
+  thirty: '30',
+};
+
+// Checked in order, so "sand wedge" is a club before "sand" is a lie
+const CLUBS: [RegExp, (match: RegExpMatchArray) => string][] = [
+  [/\b(\d) (iron|wood|hybrid)s?\b/, match => `${match[1]}-${match[2][0].toUpperCase()}${match[2].slice(1)}`],
+  [/\bdriver\b/, () => 'Driver'],
+  [/\b(pitching wedge|pitching|pw)\b/, () => 'Pitching Wedge'],
+  [/\b(gap wedge|gw)\b/, () => 'Gap Wedge'],
+  [/\b(sand wedge|sw)\b/, () => 'Sand Wedge'],
+  [/\b(lob wedge|lw)\b/, () => 'Lob Wedge'],
+  [/\bputter\b/, () => 'Putter'],
+];
+
+const LIES: [RegExp, NonNullable<Shot['lie']>][] = [
+  [/\bfairway\b/, 'fairway'],
+  [/\brough\b/, 'rough'],
+  [/\b(sand|bunker|trap)\b/, 'sand'],
+  [/\bgreen\b/, 'green'],
+  [/\b(out of bounds|o ?b)\b/, 'ob'],
+  [/\b(water|lake|pond)\b/, 'water'],
+];
+
+const normalize = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .map(word => NUMBER_WORDS[word] || word)
+    .join(' ');
+
+const parseDirection = (text: string): Shot['direction'] | undefined => {
+  if (/\bpenalty\b/.test(text)) return 'penalty';
+  if (/\b(fire|flushed|pured)\b/.test(text)) return 'fire';
+
+  const side = text.match(/\b(left|right)\b/)?.[1];
+  const depth = text.match(/\b(long|short)\b/)?.[1];
+  if (side && depth) return `${side} and ${depth}` as Shot['direction'];
+  if (side || depth) return (side || depth) as Shot['direction'];
+  if (/\b(good|great|straight|perfect|nice)\b/.test(text)) return 'good';
+  return undefined;
+};
+
+const toPuttDistance = (feet: number): Shot['puttDistance'] => {
+  if (feet <= 4) return '<4ft';
+  if (feet <= 10) return '5-10ft';
+  return '10+ft';
+};
+
+/**
+ * Reads one spoken shot, putt, "undo" or "next hole". Details that weren't said are
+ * left out so the usual defaults apply. Returns null when nothing golf-like was heard.
+ */
+export const parseShotDictation = (spoken: string, clubs: string[] = []): ShotDictation | null => {
+  let text = normalize(spoken);
+  if (!text) return null;
+
+  if (/^(undo|scratch that|delete that|remove (that|the last) (shot|putt|one))$/.test(text)) {
+    return { kind: 'undo' };
+  }
+  if (/^(next hole|go to the next hole)$/.test(text)) {
+    return { kind: 'nextHole' };
+  }
+
+  const details: ShotDetails = {};
+
+  for (const [pattern, name] of CLUBS) {
+    const match = text.match(pattern);
+    if (match) {
+      const club = name(match);
+      // Use the golfer's own spelling of the club when they have it
+      details.club = clubs.find(own => own.toLowerCase() === club.toLowerCase()) || club;
+      // So "sand wedge" isn't also read as a lie
+      text = text.replace(match[0], ' ');
+      break;
+    }
+  }
+
+  const direction = parseDirection(text);
+  if (direction) details.direction = direction;
+
+  if (/\b(shank|shanked|chunk|chunked|duff|duffed)\b/.test(text)) {
+    details.poorShot = true;
+  }
+
+  const isPutt = /\b(putt|putts|putted|tap in)\b/.test(text) || details.club === 'Putter';
+  if (isPutt) {
+    const feet = text.match(/\b(\d+) (foot|feet|ft)\b/);
+    if (feet) {
+      details.puttDistance = toPuttDistance(parseInt(feet[1], 10));
+    } else if (/\btap in\b/.test(text)) {
+      details.puttDistance = '<4ft';
+    }
+    delete details.club;
+    return { kind: 'putt', details };
+  }
+
+  for (const [pattern, lie] of LIES) {
+    if (pattern.test(text)) {
+      details.lie = lie;
+      break;
+    }
+  }
+
+  if (Object.keys(details).length === 0 && !/\bshot\b/.test(text)) {
+    return null;
+  }
+  return { kind: 'shot', details };
+};
+
+const PUTT_DISTANCE_WORDS: Record<NonNullable<Shot['puttDistance']>, string> = {
+  '<4ft': 'under 4 feet',
+  '5-10ft': '5 to 10 feet',
+  '10+ft': 'over 10 feet',
+};
+
+const LIE_WORDS: Record<NonNullable<Shot['lie']>, string> = {
+  fairway: 'fairway',
+  rough: 'rough',
+  sand: 'sand',
+  green: 'green',
+  ob: 'out of bounds',
+  water: 'water',
+};
+
+/**
+ * What was recorded, to read back: "Shot 2, 7-Iron, left, rough."
+ */
+export const describeDictatedShot = (shot: Shot, number: number): string => {
+  const parts = shot.type === 'putt'
+    ? [`Putt ${number}`, shot.puttDistance && PUTT_DISTANCE_WORDS[shot.puttDistance], shot.direction]
+    : [`Shot ${number}`, shot.club, shot.direction, shot.lie && LIE_WORDS[shot.lie]];
+  return `${parts.filter(Boolean).join(', ')}.`;
+};
@@ -1,20 +1,21 @@
 // Utility functions for GolfBrainSpark
 import { Round, HoleScore, HoleHistory } from './types';
+import { getLocale } from '../../i18n';
 
-// Date formatting utilities
+// Date formatting utilities, in the app language
 export const formatDate = (timestamp: number, format?: 'short' | 'medium' | 'long') => {
   const date = new Date(timestamp);
   const formatType = format || 'short';
   switch (formatType) {
     case 'long':
-      return date.toLocaleDateString("en-US", {
+      return date.toLocaleDateString(getLocale(), {
         weekday: "long",
         month: "long",
         day: "numeric",
         year: "numeric",
       });
     case 'medium':
-      return date.toLocaleDateString("en-US", {
+      return date.toLocaleDateString(getLocale(), {
         weekday: "short",
         month: "short",
         day: "numeric",
@@ -22,7 +23,7 @@ export const formatDate = (timestamp: number, format?: 'short' | 'medium' | 'lon
       });
     case 'short':
     default:
-      return date.toLocaleDateString("en-US", {
+      return date.toLocaleDateString(getLocale(), {
         month: "short",
         day: "numeric",
         year: "numeric",
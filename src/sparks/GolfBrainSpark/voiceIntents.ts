@@ -0,0 +1,55 @@
+// Voice commands, deep links and automations for GolfBrainSpark
+import { SparkVoiceIntent } from '../../types/spark';
+import { findSpokenItem } from '../../utils/itemMatching';
+import { Round } from './types';
+
+// "+20.3", "-1" or "even", to par
+const toPar = (strokes: number): string => {
+  if (strokes === 0) return 'even';
+  return `${strokes > 0 ? '+' : ''}${strokes}`;
+};
+
+const average = (values: number[]): number => Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+
+export const golfBrainVoiceIntents: SparkVoiceIntent[] = [
+  {
+    action: 'query',
+    description: 'Say the average score of finished rounds, at one course or all of them',
+    keywords: ['average score', 'how am i scoring'],
+    params: {
+      item: { type: 'string', description: 'course name, every course if not said' },
+      itemId: { type: 'string', description: 'id of the course', hidden: true },
+    },
+    examples: [
+      { text: "What's my average score at Tam O'Shanter?", params: { item: "Tam O'Shanter" } },
+      { text: "What's my average golf score?", params: {} },
+    ],
+    phrases: [
+      "(what's|what is) my average [golf] score [(at|on) {item}]",
+      'how (am i|have i been) (doing|scoring|playing) (at|on) {item}',
+    ],
+    handler: (params, data) => {
+      let rounds: Round[] = (data.rounds || []).filter((round: Round) => round.isComplete && round.holeScores?.length > 0);
+      let where = '';
+
+      if (params.item || params.itemId) {
+        // Only courses with finished rounds can be asked about
+        const courses = [...new Map(rounds.map(round => [round.courseId, { id: round.courseId, name: round.courseName }])).values()];
+        const found = findSpokenItem(courses, params, { noun: 'course', getId: course => course.id, getText: course => course.name });
+        if ('result' in found) {
+          return found.result;
+        }
+        rounds = rounds.filter(round => round.courseId === found.item.id);
+        where = ` at ${found.item.name}`;
+      }
+
+      if (rounds.length === 0) {
+        return { message: 'No finished rounds yet.' };
+      }
+      const scores = rounds.map(round => round.totalScore);
+      const averageToPar = toPar(average(rounds.map(round => round.totalScore - round.totalPar)));
+      const count = rounds.length === 1 ? '1 round' : `${rounds.length} rounds`;
+      return { message: `Your average${where} is ${average(scores)} (${averageToPar}) over ${count}, best ${Math.min(...scores)}.` };
+    },
+  },
+];
@@ -13,8 +13,8 @@ interface AdminSuggestionsModalProps {
 }
 
 export const AdminSuggestionsModal: React.FC<AdminSuggestionsModalProps> = ({ visible, onClose }) => {
-    const { colors } = useTheme();
-    const commonStyles = createCommonStyles(colors);
+    const { colors, typography } = useTheme();
+    const commonStyles = createCommonStyles(colors, typography);
     const [suggestions, setSuggestions] = useState<WisdomSuggestion[]>([]);
     const [isLoading, setIsLoading] = useState(false);
     const [processingIds, setProcessingIds] = useState<Set<string>>(new Set());
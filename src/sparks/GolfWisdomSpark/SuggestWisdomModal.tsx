@@ -12,8 +12,8 @@ interface SuggestWisdomModalProps {
 }
 
 export const SuggestWisdomModal: React.FC<SuggestWisdomModalProps> = ({ visible, onClose }) => {
-    const { colors } = useTheme();
-    const commonStyles = createCommonStyles(colors);
+    const { colors, typography } = useTheme();
+    const commonStyles = createCommonStyles(colors, typography);
     const [content, setContent] = useState('');
     const [contributor, setContributor] = useState('');
     const [isSubmitting, setIsSubmitting] = useState(false);
@@ -12,8 +12,6 @@ import {
   Platform,
   KeyboardAvoidingView,
 } from "react-native";
-import * as Sharing from "expo-sharing";
-import * as FileSystem from "expo-file-system";
 import { useSparkStore } from "../store";
 import { HapticFeedback } from "../utils/haptics";
 import { useTheme } from "../contexts/ThemeContext";
@@ -24,27 +22,18 @@ import {
   SettingsFeedbackSection,
   SettingsButton,
   SettingsSection,
+  SettingsDataSection,
 } from "../components/SettingsComponents";
+import { preprocessText } from "./IdeasSpark/dataAdapter";
 import { ServiceFactory } from "../services/ServiceFactory";
 import Markdown from "react-native-markdown-display";
 
-interface Idea {
+export interface Idea {
   id: string;
   text: string;
   timestamp: number;
 }
 
-// --- Helpers: Convert Custom Tags to Markdown or HTML ---
-const preprocessText = (text: string) => {
-  if (!text) return "";
-  return text
-    .replace(/<b\s+([\s\S]*?)\s+b>/g, "**$1**") // Bold: <b text b> -> **text**
-    .replace(/<i\s+([\s\S]*?)\s+i>/g, "*$1*") // Italic: <i text i> -> *text*
-    .replace(/<j\s+([\s\S]*?)\s+j>/g, "==$1==") // (Optional extra)
-    .replace(/<h\s+([\s\S]*?)\s+h>/g, "`$1`") // Highlight: <h text h> -> `text`
-    .replace(/<#\s+([\s\S]*?)\s+#>/g, "\n# $1\n"); // Header: <# text #> -> # text
-};
-
 const preprocessHtml = (text: string) => {
   if (!text) return "";
   return text
@@ -61,6 +50,7 @@ const preprocessHtml = (text: string) => {
 interface IdeasSparkProps {
   showSettings?: boolean;
   onCloseSettings?: () => void;
+  ideaId?: string; // Expand this idea (from search)
 }
 
 // Help Modal Content
@@ -138,52 +128,10 @@ const IdeasSettings: React.FC<{
   onClose: () => void;
   currentTheme: "light" | "dark";
   onToggleTheme: () => void;
-  ideas: Idea[];
-}> = ({ onClose, currentTheme, onToggleTheme, ideas }) => {
+  onIdeasImported: (ideas: Idea[]) => void;
+}> = ({ onClose, currentTheme, onToggleTheme, onIdeasImported }) => {
   const [helpVisible, setHelpVisible] = useState(false);
 
-  const handleExport = async () => {
-    try {
-      if (ideas.length === 0) {
-        Alert.alert("No Ideas", "You don't have any ideas to export.");
-        return;
-      }
-
-      const content = ideas
-        .map((i) => {
-          const date = new Date(i.timestamp).toLocaleDateString();
-          return `--- ${date} ---\n${preprocessText(i.text)}\n`;
-        })
-        .join("\n");
-
-      const filename = `Sparks_Ideas_${Date.now()}.txt`;
-
-      if (Platform.OS === "web") {
-        const blob = new Blob([content], { type: "text/plain" });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement("a");
-        link.href = url;
-        link.download = filename;
-        link.click();
-        URL.revokeObjectURL(url);
-        return;
-      }
-
-      const fileUri = FileSystem.cacheDirectory + filename;
-      await FileSystem.writeAsStringAsync(fileUri, content);
-
-      if (await Sharing.isAvailableAsync()) {
-        await Sharing.shareAsync(fileUri);
-      } else {
-        Alert.alert("Error", "Sharing is not available on this platform.");
-      }
-    } catch (error) {
-      console.error("Export error:", error);
-      Alert.alert("Error", "Failed to export ideas.");
-    }
-  };
-
-
   return (
     <SettingsContainer>
       <SettingsScrollView>
@@ -195,6 +143,11 @@ const IdeasSettings: React.FC<{
         />
         <SettingsFeedbackSection sparkName="Ideas" sparkId="ideas" />
 
+        <SettingsDataSection
+          sparkId="ideas"
+          onImported={(data) => onIdeasImported(data.ideas || [])}
+        />
+
         <SettingsSection title="Appearance">
           <SettingsButton
             title={`Current Theme: ${currentTheme.toUpperCase()} (Tap to Toggle)`}
@@ -211,12 +164,6 @@ const IdeasSettings: React.FC<{
           />
         </SettingsSection>
 
-        <SettingsButton
-          title="Export as Text"
-          onPress={handleExport}
-          variant="outline"
-        />
-
         <SettingsButton title="Close" variant="secondary" onPress={onClose} />
         <HelpModal
           visible={helpVisible}
@@ -256,6 +203,7 @@ const getThemeColors = (mode: "light" | "dark") =>
 export const IdeasSpark: React.FC<IdeasSparkProps> = ({
   showSettings = false,
   onCloseSettings,
+  ideaId,
 }) => {
   const getSparkData = useSparkStore((state: any) => state.getSparkData);
   const setSparkData = useSparkStore((state: any) => state.setSparkData);
@@ -301,6 +249,13 @@ export const IdeasSpark: React.FC<IdeasSparkProps> = ({
     setDataLoaded(true);
   }, [getSparkData, isHydrated]);
 
+  // Expand the idea a search result points at
+  useEffect(() => {
+    if (ideaId) {
+      setExpandedIdeaId(ideaId);
+    }
+  }, [ideaId]);
+
   // Persistence
   useEffect(() => {
     if (!isHydrated || !dataLoaded) return;
@@ -542,7 +497,7 @@ export const IdeasSpark: React.FC<IdeasSparkProps> = ({
         onToggleTheme={() =>
           setLocalThemeMode((prev) => (prev === "light" ? "dark" : "light"))
         }
-        ideas={ideas}
+        onIdeasImported={setIdeas}
       />
     );
   }
@@ -0,0 +1,23 @@
+import { ideasDataAdapter } from '../dataAdapter';
+
+const data = {
+    ideas: [
+        { id: 'a', text: 'Plant <b tomatoes b> early', timestamp: Date.UTC(2026, 3, 1) },
+        { id: 'b', text: 'Call the <h plumber h>', timestamp: Date.UTC(2026, 3, 2) },
+    ],
+};
+
+describe('ideasDataAdapter', () => {
+    it('imports its own export into an empty list', () => {
+        const imported = ideasDataAdapter.importData(ideasDataAdapter.exportData(data), {});
+
+        expect(imported.ideas.map((idea: any) => [idea.text, idea.timestamp])).toEqual([
+            ['Plant **tomatoes** early', Date.UTC(2026, 3, 1)],
+            ['Call the `plumber`', Date.UTC(2026, 3, 2)],
+        ]);
+    });
+
+    it('skips ideas it already has when the export is imported back', () => {
+        expect(ideasDataAdapter.importData(ideasDataAdapter.exportData(data), data).ideas).toEqual(data.ideas);
+    });
+});
@@ -0,0 +1,73 @@
+// Markdown import/export for IdeasSpark data
+import { SparkDataAdapter } from "../../types/spark";
+import type { Idea } from "../IdeasSpark";
+
+// --- Helpers: Convert Custom Tags to Markdown or HTML ---
+export const preprocessText = (text: string) => {
+  if (!text) return "";
+  return text
+    .replace(/<b\s+([\s\S]*?)\s+b>/g, "**$1**") // Bold: <b text b> -> **text**
+    .replace(/<i\s+([\s\S]*?)\s+i>/g, "*$1*") // Italic: <i text i> -> *text*
+    .replace(/<j\s+([\s\S]*?)\s+j>/g, "==$1==") // (Optional extra)
+    .replace(/<h\s+([\s\S]*?)\s+h>/g, "`$1`") // Highlight: <h text h> -> `text`
+    .replace(/<#\s+([\s\S]*?)\s+#>/g, "\n# $1\n"); // Header: <# text #> -> # text
+};
+
+// Markdown export: one "## <ISO date>" heading per idea. Files without date
+// headings are split on "---" lines, one idea per block.
+export const ideasDataAdapter: SparkDataAdapter = {
+  format: "markdown",
+  description:
+    "Ideas as a Markdown document. Imported ideas are added to your list; ideas with identical text are skipped.",
+  exportData: (data) => {
+    const ideas: Idea[] = data.ideas || [];
+    const sections = [...ideas]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map((i) => `## ${new Date(i.timestamp).toISOString()}\n\n${preprocessText(i.text).trim()}\n`);
+    return ["# Ideas\n", ...sections].join("\n");
+  },
+  importData: (content, data) => {
+    const existing: Idea[] = data.ideas || [];
+    const lines = content.replace(/\r\n/g, "\n").split("\n");
+    const isDateHeading = (line: string) => {
+      const match = line.match(/^##\s+(.+)$/);
+      return !!match && !isNaN(new Date(match[1].trim()).getTime());
+    };
+
+    const blocks: { timestamp: number; text: string }[] = [];
+    if (lines.some(isDateHeading)) {
+      lines.forEach((line) => {
+        if (isDateHeading(line)) {
+          const timestamp = new Date(line.replace(/^##\s+/, "").trim()).getTime();
+          blocks.push({ timestamp, text: "" });
+        } else if (blocks.length > 0) {
+          blocks[blocks.length - 1].text += `${line}\n`;
+        }
+      });
+    } else {
+      content
+        .split(/^\s*---\s*$/m)
+        .forEach((block) => blocks.push({ timestamp: Date.now(), text: block }));
+    }
+
+    // Exported text has the custom tags turned into Markdown, so compare it that way
+    const seen = new Set(existing.map((i) => preprocessText(i.text).trim()));
+    const imported: Idea[] = [];
+    blocks.forEach((block, index) => {
+      const text = block.text.replace(/^#\s+Ideas\s*$/m, "").trim();
+      if (!text || seen.has(text)) return;
+      seen.add(text);
+      imported.push({
+        id: `${Date.now()}_${index}`,
+        text,
+        timestamp: block.timestamp,
+      });
+    });
+
+    if (blocks.length > 0 && imported.length === 0 && existing.length === 0) {
+      throw new Error("No ideas found in this file.");
+    }
+
+    return { ...data, ideas: [...existing, ...imported] };
+  },
+};
@@ -0,0 +1,19 @@
+import { SparkSearchIndexer } from "../../types/spark";
+import type { Idea } from "../IdeasSpark";
+
+// Plain text with the custom formatting tags removed
+const stripTags = (text: string) => text.replace(/<([bijh#])\s+([\s\S]*?)\s+\1>/g, "$2");
+
+// Global search entries: first line of each idea as the title
+export const ideasSearchIndexer: SparkSearchIndexer = (data) =>
+  (data.ideas || []).map((idea: Idea) => {
+    const text = stripTags(idea.text || "").trim();
+    const firstLine = text.split("\n")[0];
+    return {
+      id: idea.id,
+      title: firstLine.length > 80 ? `${firstLine.slice(0, 80)}…` : firstLine,
+      subtitle: new Date(idea.timestamp).toLocaleDateString(),
+      body: text,
+      params: { ideaId: idea.id },
+    };
+  });
@@ -0,0 +1,66 @@
+import { SparkVoiceIntent } from "../../types/spark";
+import { generateId } from "../../utils/idUtils";
+import { findSpokenItem } from "../../utils/itemMatching";
+import type { Idea } from "../IdeasSpark";
+
+// Voice commands, deep links and automations: new ideas go to the top like in the spark
+export const ideasVoiceIntents: SparkVoiceIntent[] = [
+  {
+    action: "add",
+    aliases: ["create"],
+    description: "Save an idea",
+    keywords: ["idea", "note", "what if"],
+    params: {
+      text: { type: "string", description: "idea text", required: true },
+    },
+    examples: [
+      { text: "New idea: a podcast about local history", params: { text: "A podcast about local history" } },
+      { text: "Add an idea to try a standing desk", params: { text: "Try a standing desk" } },
+    ],
+    phrases: [
+      "(new|add [a|an]|save [a|an]|note [a|an]|i have [a|an]) idea [to|that|about|for] {text}",
+      "(add|put) {text} (to|in) [my|the] ideas",
+    ],
+    handler: ({ text }, data, now) => {
+      const newIdea: Idea = {
+        id: generateId(),
+        text,
+        timestamp: now.getTime(),
+      };
+
+      return {
+        data: { ...data, ideas: [newIdea, ...(data.ideas || [])] },
+        message: `Saved idea: "${text}"`,
+      };
+    },
+  },
+  {
+    action: "delete",
+    aliases: ["remove"],
+    description: "Delete an idea",
+    keywords: ["delete idea", "remove idea"],
+    params: {
+      item: { type: "string", description: "words from the idea", required: true },
+      itemId: { type: "string", description: "id of the idea", hidden: true },
+    },
+    examples: [
+      { text: "Delete the standing desk idea", params: { item: "the standing desk" } },
+    ],
+    phrases: [
+      "(delete|remove) [the|my] {item} idea",
+      "(remove|delete|take) {item} (from|off) [my|the] ideas",
+    ],
+    handler: (params, data) => {
+      const ideas: Idea[] = data.ideas || [];
+      const found = findSpokenItem(ideas, params, { noun: "idea", getId: idea => idea.id, getText: idea => idea.text });
+      if ("result" in found) {
+        return found.result;
+      }
+
+      return {
+        data: { ...data, ideas: ideas.filter(idea => idea.id !== found.item.id) },
+        message: `Deleted idea: "${found.item.text}"`,
+      };
+    },
+  },
+];
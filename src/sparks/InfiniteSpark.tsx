@@ -34,7 +34,7 @@ export const InfiniteSpark: React.FC<InfiniteSparkProps> = ({
     // Spark registry data
     const sparkRecord = getSparkById('infinite');
     const displayTitle = sparkRecord?.metadata.title || 'Infinite';
-    const isBeta = sparkRecord?.metadata.properties?.includes('Beta');
+    const isBeta = sparkRecord?.metadata.manifest?.beta;
 
     // Core State
     const [sparklets, setSparklets] = useState<Sparklet[]>([]);
@@ -11,6 +11,7 @@ import Svg, { Circle } from 'react-native-svg';
 import * as ImagePicker from 'expo-image-picker';
 import * as FileSystem from 'expo-file-system';
 import { GeminiService } from '../services/GeminiService';
+import { SparkPermissionService } from '../services/SparkPermissionService';
 import { Dropdown, DropdownOption } from '../components/shared/Dropdown';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
@@ -110,8 +111,8 @@ export const MinuteMinderSpark: React.FC<MinuteMinderSparkProps> = ({
   onComplete
 }) => {
   const { getSparkData, setSparkData } = useSparkStore();
-  const { colors } = useTheme();
-  const commonStyles = createCommonStyles(colors);
+  const { colors, typography } = useTheme();
+  const commonStyles = createCommonStyles(colors, typography);
 
   const [activitiesText, setActivitiesText] = useState('');
   const [isEditing, setIsEditing] = useState(false);
@@ -170,8 +171,9 @@ export const MinuteMinderSpark: React.FC<MinuteMinderSparkProps> = ({
   // Handle Scan Schedule
   const handleScanSchedule = async () => {
     try {
-      const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
-      if (status !== 'granted') {
+      // SparkScreen asks before the spark opens; this only prompts if that was skipped
+      const { missing } = await SparkPermissionService.requestCapabilities(['media-library']);
+      if (missing.length > 0) {
         Alert.alert('Permission needed', 'Please grant permission to access your photos to scan a schedule.');
         return;
       }
@@ -2,9 +2,11 @@ import React, { useState, useEffect } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, ScrollView, TextInput, Alert } from 'react-native';
 import { useSparkStore } from '../store';
 import { HapticFeedback } from '../utils/haptics';
+import { generateId } from '../utils/idUtils';
 import { useTheme } from '../contexts/ThemeContext';
 import { createCommonStyles } from '../styles/CommonStyles';
 import { StyleTokens } from '../styles/StyleTokens';
+import { useTranslation } from '../i18n';
 import {
   SettingsContainer,
   SettingsScrollView,
@@ -19,22 +21,22 @@ import {
   SettingsFeedbackSection,
 } from '../components/SettingsComponents';
 
-interface PackingItem {
-  id: number;
+export interface PackingItem {
+  id: string;
   item: string;
   count: number;
   packed: boolean;
 }
 
 const defaultItems: PackingItem[] = [
-  { id: 1, item: "T-shirts", count: 3, packed: false },
-  { id: 2, item: "Pairs of underwear", count: 4, packed: false },
-  { id: 3, item: "Pairs of socks", count: 4, packed: false },
-  { id: 4, item: "Jeans", count: 2, packed: false },
-  { id: 5, item: "Toothbrush", count: 1, packed: false },
-  { id: 6, item: "Phone charger", count: 1, packed: false },
-  { id: 7, item: "Shoes", count: 2, packed: false },
-  { id: 8, item: "Jacket", count: 1, packed: false },
+  { id: "1", item: "T-shirts", count: 3, packed: false },
+  { id: "2", item: "Pairs of underwear", count: 4, packed: false },
+  { id: "3", item: "Pairs of socks", count: 4, packed: false },
+  { id: "4", item: "Jeans", count: 2, packed: false },
+  { id: "5", item: "Toothbrush", count: 1, packed: false },
+  { id: "6", item: "Phone charger", count: 1, packed: false },
+  { id: "7", item: "Shoes", count: 2, packed: false },
+  { id: "8", item: "Jacket", count: 1, packed: false },
 ];
 
 interface NewItem {
@@ -48,31 +50,32 @@ const PackingListSettings: React.FC<{
   onClose: () => void;
 }> = ({ items, onSave, onClose }) => {
   const { colors } = useTheme();
+  const { t } = useTranslation();
   const [packingItems, setPackingItems] = useState<PackingItem[]>(items);
-  const [countInputs, setCountInputs] = useState<Record<number, string>>(
-    items.reduce((acc, item) => ({ ...acc, [item.id]: item.count.toString() }), {} as Record<number, string>)
+  const [countInputs, setCountInputs] = useState<Record<string, string>>(
+    items.reduce((acc, item) => ({ ...acc, [item.id]: item.count.toString() }), {} as Record<string, string>)
   );
   const [newItem, setNewItem] = useState<NewItem>({ item: '', count: '1' });
 
   // Sync countInputs when items prop changes
   useEffect(() => {
     setPackingItems(items);
-    setCountInputs(items.reduce((acc, item) => ({ ...acc, [item.id]: item.count.toString() }), {} as Record<number, string>));
+    setCountInputs(items.reduce((acc, item) => ({ ...acc, [item.id]: item.count.toString() }), {} as Record<string, string>));
   }, [items]);
 
   const addNewItem = () => {
     if (!newItem.item.trim()) {
-      Alert.alert('Error', 'Please enter an item name');
+      Alert.alert(t('common.error'), t('packingList.enterName'));
       return;
     }
 
     const count = parseInt(newItem.count) || 1;
     if (count < 1) {
-      Alert.alert('Error', 'Count must be at least 1');
+      Alert.alert(t('common.error'), t('packingList.countTooLow'));
       return;
     }
 
-    const newId = Math.max(...packingItems.map(i => i.id), 0) + 1;
+    const newId = generateId();
     const newPackingItem: PackingItem = {
       id: newId,
       item: newItem.item.trim(),
@@ -87,9 +90,9 @@ const PackingListSettings: React.FC<{
     HapticFeedback.success();
   };
 
-  const removeItem = (id: number) => {
+  const removeItem = (id: string) => {
     if (packingItems.length <= 1) {
-      Alert.alert('Error', 'You must have at least one item');
+      Alert.alert(t('common.error'), t('packingList.keepOne'));
       return;
     }
     setPackingItems(packingItems.filter(item => item.id !== id));
@@ -99,7 +102,7 @@ const PackingListSettings: React.FC<{
     HapticFeedback.medium();
   };
 
-  const updateItem = (id: number, field: 'item' | 'count', value: string) => {
+  const updateItem = (id: string, field: 'item' | 'count', value: string) => {
     if (field === 'count') {
       // Update the string input value (allow empty)
       setCountInputs({ ...countInputs, [id]: value });
@@ -124,11 +127,11 @@ const PackingListSettings: React.FC<{
             if (itemsWithSameCount.length > 0) {
               const itemNames = itemsWithSameCount.map(item => item.item).join(', ');
               Alert.alert(
-                'Update Similar Items?',
-                `Do you want to change the quantity to ${newCount} for all items that currently have ${originalCount}?\n\nItems: ${itemNames}`,
+                t('packingList.updateSimilarTitle'),
+                t('packingList.updateSimilarMessage', { newCount, oldCount: originalCount, items: itemNames }),
                 [
                   {
-                    text: 'No',
+                    text: t('packingList.no'),
                     style: 'cancel',
                     onPress: () => {
                       // Just update the one item
@@ -142,7 +145,7 @@ const PackingListSettings: React.FC<{
                     }
                   },
                   {
-                    text: 'Yes',
+                    text: t('packingList.yes'),
                     onPress: () => {
                       // Update all items with the same original count
                       const updatedItems = packingItems.map(item => {
@@ -205,7 +208,7 @@ const PackingListSettings: React.FC<{
     });
 
     if (invalidItems.length > 0) {
-      Alert.alert('Invalid Quantities', 'Please enter valid quantities (1 or greater) for all items.');
+      Alert.alert(t('packingList.invalidTitle'), t('packingList.invalidMessage'));
       return;
     }
 
@@ -255,17 +258,17 @@ const PackingListSettings: React.FC<{
     <SettingsContainer>
       <SettingsScrollView>
         <SettingsHeader
-          title="Packing List Settings"
-          subtitle="Manage your packing items"
+          title={t('packingList.settingsTitle')}
+          subtitle={t('packingList.settingsSubtitle')}
           icon="⚙️"
         />
 
         <SettingsFeedbackSection sparkName="Packing List" sparkId="packing-list" />
 
-        <SettingsSection title="Add New Item">
+        <SettingsSection title={t('packingList.addTitle')}>
           <View style={styles.addRow}>
             <SettingsInput
-              placeholder="Item name"
+              placeholder={t('packingList.itemPlaceholder')}
               value={newItem.item}
               onChangeText={(text) => setNewItem({ ...newItem, item: text })}
             />
@@ -278,10 +281,10 @@ const PackingListSettings: React.FC<{
               keyboardType="numeric"
             />
           </View>
-          <SettingsButton title="Add Item" onPress={addNewItem} />
+          <SettingsButton title={t('packingList.addItem')} onPress={addNewItem} />
         </SettingsSection>
 
-        <SettingsSection title={`Your Items (${packingItems.length})`}>
+        <SettingsSection title={t('packingList.yourItems', { count: packingItems.length })}>
           {packingItems.map((item) => (
             <SettingsItem key={item.id}>
               <TextInput
@@ -324,7 +327,8 @@ export const PackingListSpark: React.FC<PackingListSparkProps> = ({
   const getSparkData = useSparkStore(state => state.getSparkData);
   const setSparkData = useSparkStore(state => state.setSparkData);
   const isHydrated = useSparkStore(state => state.isHydrated);
-  const { colors } = useTheme();
+  const { colors, typography } = useTheme();
+  const { t } = useTranslation();
 
   const [items, setItems] = useState<PackingItem[]>(defaultItems);
   const [dataLoaded, setDataLoaded] = useState(false);
@@ -355,7 +359,7 @@ export const PackingListSpark: React.FC<PackingListSparkProps> = ({
     });
   };
 
-  const toggleItemPacked = (id: number) => {
+  const toggleItemPacked = (id: string) => {
     console.log('[PackingListSpark] Toggling item:', id);
     const newItems = items.map(item => {
       if (item.id === id) {
@@ -388,7 +392,7 @@ export const PackingListSpark: React.FC<PackingListSparkProps> = ({
   const totalCount = items.length;
   const progressPercentage = totalCount > 0 ? (packedCount / totalCount) * 100 : 0;
 
-  const commonStyles = createCommonStyles(colors);
+  const commonStyles = createCommonStyles(colors, typography);
   const styles = StyleSheet.create({
     ...commonStyles,
     header: {
@@ -427,7 +431,7 @@ export const PackingListSpark: React.FC<PackingListSparkProps> = ({
       ...commonStyles.card,
     },
     listTitle: {
-      fontSize: StyleTokens.fontSize.xxl,
+      fontSize: typography.xxl,
       fontWeight: '600',
       color: colors.text,
       marginBottom: StyleTokens.spacing.lg,
@@ -519,12 +523,12 @@ export const PackingListSpark: React.FC<PackingListSparkProps> = ({
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.scrollContainer}>
       <View style={styles.header}>
-        <Text style={styles.title}>🎒 Packing List</Text>
-        <Text style={styles.subtitle}>Tap items to mark as packed</Text>
+        <Text style={styles.title}>{t('packingList.title')}</Text>
+        <Text style={styles.subtitle}>{t('packingList.subtitle')}</Text>
 
         <View style={styles.progressContainer}>
           <Text style={styles.progressText}>
-            {packedCount} of {totalCount} items packed
+            {t('packingList.progress', { packed: packedCount, count: totalCount })}
           </Text>
           <View style={styles.progressBar}>
             <View
@@ -532,13 +536,13 @@ export const PackingListSpark: React.FC<PackingListSparkProps> = ({
             />
           </View>
           <Text style={styles.progressLabel}>
-            {Math.round(progressPercentage)}% Complete
+            {t('packingList.complete', { percent: Math.round(progressPercentage) })}
           </Text>
         </View>
       </View>
 
       <View style={styles.listContainer}>
-        <Text style={styles.listTitle}>📝 Items to Pack</Text>
+        <Text style={styles.listTitle}>{t('packingList.itemsToPack')}</Text>
         {items.map((item, index) => (
           <TouchableOpacity
             key={item.id}
@@ -571,7 +575,7 @@ export const PackingListSpark: React.FC<PackingListSparkProps> = ({
           style={styles.uncheckAllButton}
           onPress={uncheckAll}
         >
-          <Text style={styles.uncheckAllButtonText}>Uncheck All Items</Text>
+          <Text style={styles.uncheckAllButtonText}>{t('packingList.uncheckAll')}</Text>
         </TouchableOpacity>
 
       </View>
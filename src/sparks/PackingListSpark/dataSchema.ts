@@ -0,0 +1,14 @@
+// Persisted data versions for PackingListSpark
+import { SparkDataSchema } from '../../types/spark';
+
+export const packingListDataSchema: SparkDataSchema = {
+  version: 1,
+  migrations: [
+    // v0 -> v1: string ids, so items added offline on two devices can't share one.
+    // Existing ids keep their value so already-synced items still match up.
+    (data) => ({
+      ...data,
+      items: (data.items || []).map((item: any) => ({ ...item, id: String(item.id) })),
+    }),
+  ],
+};
@@ -0,0 +1,110 @@
+import { SparkIntentParam, SparkVoiceIntent } from '../../types/spark';
+import { findSpokenItem } from '../../utils/itemMatching';
+import { generateId } from '../../utils/idUtils';
+import type { PackingItem } from '../PackingListSpark';
+
+const ITEM_PARAMS: Record<string, SparkIntentParam> = {
+  item: { type: 'string', description: 'item on the list', required: true },
+  itemId: { type: 'string', description: 'id of the item', hidden: true },
+};
+
+const findPackingItem = (items: PackingItem[], params: Record<string, any>) =>
+  findSpokenItem(items, params, {
+    noun: 'packing item',
+    getId: item => item.id,
+    getText: item => item.item,
+    describe: item => (item.count > 1 ? `${item.item} (${item.count})` : item.item),
+  });
+
+// Voice commands, deep links and automations for the packing list
+export const packingListVoiceIntents: SparkVoiceIntent[] = [
+  {
+    action: 'add',
+    aliases: ['create'],
+    description: 'Add an item to pack',
+    keywords: ['pack', 'packing list', 'bring'],
+    params: {
+      item: { type: 'string', description: 'item to pack', required: true, multiple: true },
+      count: { type: 'number', description: 'how many, 1 if not said' },
+    },
+    examples: [
+      { text: 'Add sunscreen to my packing list', params: { item: 'Sunscreen' } },
+      { text: 'Pack 5 pairs of socks', params: { item: 'Socks', count: 5 } },
+    ],
+    phrases: [
+      '(add|put) [a|an] [{count}] {item} (to|on|in) [my|the] packing list',
+      '[i need to|remember to|don\'t forget to] pack [a|an|my|the] [{count}] {item}',
+    ],
+    handler: ({ item, count }, data, now) => {
+      const items: PackingItem[] = data.items || [];
+
+      const newItem: PackingItem = {
+        id: generateId(),
+        item,
+        count: Math.max(1, Math.round(count || 1)),
+        packed: false,
+      };
+
+      return {
+        data: { ...data, items: [...items, newItem], lastUpdated: now.toISOString() },
+        message: `Added to packing list: "${item}"`,
+      };
+    },
+  },
+  {
+    action: 'complete',
+    aliases: ['pack'],
+    description: 'Mark an item as packed',
+    keywords: ['packed', 'check off'],
+    params: ITEM_PARAMS,
+    examples: [
+      { text: 'Mark sunscreen as packed', params: { item: 'sunscreen' } },
+      { text: "I've packed the socks", params: { item: 'the socks' } },
+    ],
+    phrases: [
+      '(mark|check off|tick off) [the|my] {item} [as] packed',
+      "(i|i've|i have|we|we've|we have) packed [the|my|our] {item}",
+    ],
+    handler: (params, data, now) => {
+      const items: PackingItem[] = data.items || [];
+      const found = findPackingItem(items.filter(item => !item.packed), params);
+      if ('result' in found) {
+        return found.result;
+      }
+
+      return {
+        data: {
+          ...data,
+          items: items.map(item => (item.id === found.item.id ? { ...item, packed: true } : item)),
+          lastUpdated: now.toISOString(),
+        },
+        message: `Packed: "${found.item.item}"`,
+      };
+    },
+  },
+  {
+    action: 'delete',
+    aliases: ['remove'],
+    description: 'Remove an item from the packing list',
+    keywords: ['remove', 'delete'],
+    params: ITEM_PARAMS,
+    examples: [
+      { text: 'Remove the umbrella from my packing list', params: { item: 'the umbrella' } },
+    ],
+    phrases: [
+      '(remove|delete|take) {item} (from|off) [my|the] packing list',
+    ],
+    handler: (params, data, now) => {
+      const items: PackingItem[] = data.items || [];
+      const found = findPackingItem(items, params);
+      if ('result' in found) {
+        return found.result;
+      }
+
+      return {
+        data: { ...data, items: items.filter(item => item.id !== found.item.id), lastUpdated: now.toISOString() },
+        message: `Removed from packing list: "${found.item.item}"`,
+      };
+    },
+  },
+];
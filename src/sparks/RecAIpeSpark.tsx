@@ -18,7 +18,11 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useTheme } from '../contexts/ThemeContext';
 import { useSparkStore } from '../store';
 import { SparkProps } from '../types/spark';
+import { RECIPE_DIR_NAME } from './RecAIpeSpark/fileStorage';
+import { timerRegex } from './RecAIpeSpark/searchIndexer';
 import { GeminiService } from '../services/GeminiService';
+import { TrashService } from '../services/TrashService';
+import { SparkPermissionService } from '../services/SparkPermissionService';
 import {
     SettingsContainer,
     SettingsScrollView,
@@ -31,7 +35,7 @@ import { HapticFeedback } from '../utils/haptics';
 import { StarRating } from '../components/StarRating';
 import { Audio } from 'expo-av';
 
-interface Recipe {
+export interface Recipe {
     id: string;
     title: string;
     originalPrompt: string;
@@ -51,7 +55,6 @@ interface RecAIpeData {
     };
 }
 
-const RECIPE_DIR_NAME = 'recaipe_images/';
 
 const toAbsoluteUri = (relativeOrAbsolute: string): string => {
     if (!relativeOrAbsolute) return '';
@@ -104,9 +107,11 @@ Cool: Let the cookies cool on the baking sheets for 5 minutes before transferrin
     rating: 5,
 };
 
-const timerRegex = /\{\{(.*?)\}\}/g;
+interface RecAIpeSparkProps extends SparkProps {
+    recipeId?: string; // Open this recipe (from search)
+}
 
-export const RecAIpeSpark: React.FC<SparkProps> = ({ showSettings, onCloseSettings }) => {
+export const RecAIpeSpark: React.FC<RecAIpeSparkProps> = ({ showSettings, onCloseSettings, recipeId }) => {
     const { colors } = useTheme();
     const { getSparkData, setSparkData } = useSparkStore();
 
@@ -160,6 +165,12 @@ export const RecAIpeSpark: React.FC<SparkProps> = ({ showSettings, onCloseSettin
                     setSelectedRecipe(recipe);
                 }
             }
+            // A search result opens its recipe instead of the previous screen
+            const linkedRecipe = recipeId ? saved.recipes.find((r: Recipe) => r.id === recipeId) : undefined;
+            if (linkedRecipe) {
+                setSelectedRecipe(linkedRecipe);
+                setMode('view');
+            }
             setDataLoaded(true);
         } else {
             console.log('📦 RecAIpeSpark: No recipes found, using starter');
@@ -326,8 +337,9 @@ Generate the recipe now:`;
 
     const handleImageSelection = async (recipe: Recipe) => {
         try {
-            const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
-            if (status !== 'granted') {
+            // SparkScreen asks before the spark opens; this only prompts if that was skipped
+            const { missing } = await SparkPermissionService.requestCapabilities(['media-library']);
+            if (missing.length > 0) {
                 Alert.alert('Permission needed', 'Please grant permission to access your photos.');
                 return;
             }
@@ -363,7 +375,7 @@ Generate the recipe now:`;
                 text: 'Delete',
                 style: 'destructive',
                 onPress: () => {
-                    const newData = { recipes: data.recipes.filter(r => r.id !== selectedRecipe.id) };
+                    const newData = { recipes: TrashService.removeItem('recaipe', 'recipes', data.recipes, selectedRecipe.id, selectedRecipe.title) };
                     saveData(newData);
                     setMode('list');
                     setSelectedRecipe(null);
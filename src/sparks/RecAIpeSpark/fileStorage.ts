@@ -0,0 +1,11 @@
+// Recipe photo accounting for RecAIpeSpark data
+import { SparkFileStorage } from '../../types/spark';
+import type { Recipe } from '../RecAIpeSpark';
+
+export const RECIPE_DIR_NAME = 'recaipe_images/';
+
+// Recipe photos are copied into recaipe_images/; remote image URLs are ignored
+export const recaipeFileStorage: SparkFileStorage = {
+    directories: [RECIPE_DIR_NAME],
+    getFileUris: (data) => (data.recipes || []).map((recipe: Recipe) => recipe.imageUrl || ''),
+};
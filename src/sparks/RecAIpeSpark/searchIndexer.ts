@@ -0,0 +1,15 @@
+import { SparkSearchIndexer } from '../../types/spark';
+import type { Recipe } from '../RecAIpeSpark';
+
+// Timers are written inline as {{10 minutes}}
+export const timerRegex = /\{\{(.*?)\}\}/g;
+
+// Global search entries: recipe titles, ingredients and instructions
+export const recaipeSearchIndexer: SparkSearchIndexer = (data) =>
+    (data.recipes || []).map((recipe: Recipe) => ({
+        id: recipe.id,
+        title: recipe.title,
+        subtitle: recipe.originalPrompt,
+        body: `${recipe.ingredients || ''}\n${(recipe.instructions || '').replace(timerRegex, '$1')}`,
+        params: { recipeId: recipe.id },
+    }));
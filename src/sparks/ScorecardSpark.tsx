@@ -38,7 +38,11 @@ import {
   SettingsSection,
 } from "../components/SettingsComponents";
 import { ServiceFactory } from "../services/ServiceFactory";
+import { SparkEventBus } from "../services/SparkEventBus";
+import { SparkPermissionService } from "../services/SparkPermissionService";
+import { SparkCapability } from "../types/spark";
 import { AudioTranscriptionService } from "../services/AudioTranscriptionService";
+import { HandsFreeState, VoiceCommandService } from "../services/VoiceCommandService";
 
 const SCORECARD_VERSION = "1.5.0";
 
@@ -54,13 +58,13 @@ interface VoiceLogEntry {
 
 // --- Types & Interfaces ---
 
-interface Hole {
+export interface Hole {
   hole_number: number;
   par: number;
   stroke_index: number;
 }
 
-interface Course {
+export interface Course {
   id: number;
   name: string;
   rating: number;
@@ -69,7 +73,7 @@ interface Course {
   holes: Hole[];
 }
 
-interface Round {
+export interface Round {
   id: number;
   course_id: number;
   course_name: string;
@@ -85,7 +89,7 @@ interface Round {
   diff_type?: "9" | "18";
 }
 
-interface Score {
+export interface Score {
   round_id: number;
   hole_number: number;
   strokes: number;
@@ -93,7 +97,7 @@ interface Score {
   timestamp?: number;
 }
 
-interface ScorecardData {
+export interface ScorecardData {
   courses: Course[];
   rounds: Round[];
   scores: Score[];
@@ -323,6 +327,7 @@ const HoleRow = React.forwardRef<
     },
     ref,
   ) => {
+    const { scaleFont } = useTheme();
     const [localStrokes, setLocalStrokes] = useState(score.strokes);
     const [localPutts, setLocalPutts] = useState(score.putts);
 
@@ -373,12 +378,13 @@ const HoleRow = React.forwardRef<
           {strokesReceived ? (
             <Text
               style={{
-                fontSize: 14,
-                lineHeight: 10,
+                fontSize: scaleFont(14),
+                lineHeight: scaleFont(10),
                 color: colors.textSecondary,
                 textAlign: "center",
                 marginTop: -2,
               }}
+              accessibilityLabel={`${strokesReceived} handicap ${strokesReceived === 1 ? "stroke" : "strokes"}`}
             >
               {"•".repeat(strokesReceived)}
             </Text>
@@ -394,6 +400,7 @@ const HoleRow = React.forwardRef<
             keyboardType="numeric"
             placeholderTextColor={colors.placeholder}
             maxLength={2}
+            accessibilityLabel={`Hole ${hole.hole_number} strokes, par ${hole.par}`}
           />
         </View>
         <View style={styles.inputCol}>
@@ -413,6 +420,7 @@ const HoleRow = React.forwardRef<
             keyboardType="numeric"
             placeholderTextColor={colors.placeholder}
             maxLength={2}
+            accessibilityLabel={`Hole ${hole.hole_number} putts`}
           />
         </View>
         <View style={styles.netCol}>
@@ -456,12 +464,14 @@ const HomeScreen: React.FC<HomeScreenProps> = ({
   return (
     <View style={{ flex: 1 }}>
       <View style={styles.header}>
-        <Text style={styles.title}>Scorecards</Text>
+        <Text style={styles.title} accessibilityRole="header">Scorecards</Text>
       </View>
 
       <TouchableOpacity
         style={styles.newRoundButton}
         onPress={() => setCurrentView("courses")}
+        accessibilityRole="button"
+        accessibilityLabel="New round"
       >
         <Text style={styles.newRoundButtonText}>NEW ROUND</Text>
       </TouchableOpacity>
@@ -497,6 +507,8 @@ const HomeScreen: React.FC<HomeScreenProps> = ({
                   setActiveRoundId(item.id);
                   setCurrentView("scoring");
                 }}
+                accessibilityRole="button"
+                accessibilityHint="Opens the scorecard"
               >
                 <View
                   style={{
@@ -541,6 +553,8 @@ const HomeScreen: React.FC<HomeScreenProps> = ({
               <TouchableOpacity
                 hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
                 onPress={() => deleteRound(item.id)}
+                accessibilityRole="button"
+                accessibilityLabel={`Delete round at ${item.course_name}`}
               >
                 <Ionicons
                   name="trash-outline"
@@ -575,6 +589,7 @@ const CoursesView: React.FC<CoursesViewProps> = ({
   colors,
   styles,
 }) => {
+  const { scaleFont } = useTheme();
   const [showModal, setShowModal] = useState(false);
   const [editingCourseId, setEditingCourseId] = useState<number | null>(null);
   const [name, setName] = useState("");
@@ -644,11 +659,11 @@ const CoursesView: React.FC<CoursesViewProps> = ({
     }));
   };
 
-  const processImage = async (launcher: any) => {
+  const processImage = async (launcher: any, capability: SparkCapability) => {
     try {
-      const { status } =
-        await ImagePicker.requestMediaLibraryPermissionsAsync();
-      if (status !== "granted") {
+      // SparkScreen asks before the spark opens; this only prompts if that was skipped
+      const { missing } = await SparkPermissionService.requestCapabilities([capability]);
+      if (missing.length > 0) {
         Alert.alert(
           "Permission needed",
           "Please grant permission to access your photos to scan a scorecard.",
@@ -727,17 +742,17 @@ const CoursesView: React.FC<CoursesViewProps> = ({
 
   const handleScanCard = () => {
     if (Platform.OS === "web") {
-      processImage(ImagePicker.launchImageLibraryAsync);
+      processImage(ImagePicker.launchImageLibraryAsync, "media-library");
       return;
     }
     Alert.alert("Scan Scorecard", "Choose an image source", [
       {
         text: "Camera",
-        onPress: () => processImage(ImagePicker.launchCameraAsync),
+        onPress: () => processImage(ImagePicker.launchCameraAsync, "camera"),
       },
       {
         text: "Photo Library",
-        onPress: () => processImage(ImagePicker.launchImageLibraryAsync),
+        onPress: () => processImage(ImagePicker.launchImageLibraryAsync, "media-library"),
       },
       { text: "Cancel", style: "cancel" },
     ]);
@@ -831,11 +846,19 @@ const CoursesView: React.FC<CoursesViewProps> = ({
   return (
     <View style={{ flex: 1 }}>
       <View style={styles.header}>
-        <TouchableOpacity onPress={() => setCurrentView("home")}>
+        <TouchableOpacity
+          onPress={() => setCurrentView("home")}
+          accessibilityRole="button"
+          accessibilityLabel="Back to rounds"
+        >
           <Ionicons name="chevron-back" size={24} color={colors.text} />
         </TouchableOpacity>
-        <Text style={styles.title}>Courses</Text>
-        <TouchableOpacity onPress={() => setShowModal(true)}>
+        <Text style={styles.title} accessibilityRole="header">Courses</Text>
+        <TouchableOpacity
+          onPress={() => setShowModal(true)}
+          accessibilityRole="button"
+          accessibilityLabel="Add course"
+        >
           <Ionicons name="add" size={30} color={colors.primary} />
         </TouchableOpacity>
       </View>
@@ -1153,7 +1176,7 @@ const CoursesView: React.FC<CoursesViewProps> = ({
                 ]}
                 onPress={() => setCourseToDelete(null)}
               >
-                <Text style={[styles.labelSmall, { fontSize: 14 }]}>
+                <Text style={[styles.labelSmall, { fontSize: scaleFont(14) }]}>
                   Cancel
                 </Text>
               </TouchableOpacity>
@@ -1169,7 +1192,7 @@ const CoursesView: React.FC<CoursesViewProps> = ({
                 onPress={handleDeleteCourse}
               >
                 <Text
-                  style={[styles.labelSmall, { fontSize: 14, color: "#fff" }]}
+                  style={[styles.labelSmall, { fontSize: scaleFont(14), color: "#fff" }]}
                 >
                   Delete
                 </Text>
@@ -1209,6 +1232,10 @@ const ScoringView: React.FC<ScoringViewProps> = ({
   const [isRecording, setIsRecording] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
 
+  // Hands-free: the session keeps listening between scores, so it calls the latest parseVoice through a ref
+  const [handsFreeState, setHandsFreeState] = useState<HandsFreeState>("idle");
+  const parseVoiceRef = useRef<(text: string, handsFree?: boolean) => string>(() => "");
+
   if (!round || !course) return null;
 
   const scoreMap: Record<
@@ -1302,9 +1329,6 @@ const ScoringView: React.FC<ScoringViewProps> = ({
 
   const setupAudioMode = async (enable: boolean) => {
     try {
-      const initialStatus = await Audio.getPermissionsAsync();
-      console.log("[Scorecard] Current Mic Permission:", initialStatus.status);
-
       if (enable) {
         await Audio.setAudioModeAsync({
           allowsRecordingIOS: true,
@@ -1314,23 +1338,20 @@ const ScoringView: React.FC<ScoringViewProps> = ({
           staysActiveInBackground: false,
         });
 
-        if (initialStatus.status !== "granted") {
-          console.log("[Scorecard] Requesting Mic Permission...");
-          const { status } = await Audio.requestPermissionsAsync();
+        // Only prompts when the microphone wasn't granted when the spark opened
+        const { missing } = await SparkPermissionService.requestCapabilities(["microphone"]);
+        if (missing.length > 0) {
           addVoiceLog({
             rawText: "[System]",
             processedNums: [],
-            status: status === "granted" ? "success" : "error",
-            message: `Mic Permission Request: ${status}`,
+            status: "error",
+            message: "Mic Permission Request: denied",
           });
-
-          if (status !== "granted") {
-            Alert.alert(
-              "Microphone Required",
-              "Microphone access is disabled. Please enable it in your device settings.",
-            );
-            return false;
-          }
+          Alert.alert(
+            "Microphone Required",
+            "Microphone access is disabled. Please enable it in your device settings.",
+          );
+          return false;
         }
       } else {
         await Audio.setAudioModeAsync({
@@ -1352,9 +1373,19 @@ const ScoringView: React.FC<ScoringViewProps> = ({
     }
   };
 
-  const parseVoice = (text: string) => {
+  // Saves the scores heard and returns what was saved, to read back in hands-free mode,
+  // where problems are read back too instead of shown in alerts
+  const parseVoice = (text: string, handsFree = false): string => {
     console.log("[Scorecard] Parsing voice text:", text);
 
+    const problems: string[] = [];
+    const warn = (title: string, message: string, spoken: string) => {
+      problems.push(spoken);
+      if (!handsFree) {
+        Alert.alert(title, message);
+      }
+    };
+
     const numberWords: Record<string, string> = {
       zero: "0",
       one: "1",
@@ -1400,11 +1431,12 @@ const ScoringView: React.FC<ScoringViewProps> = ({
         status: "error",
         message: "Need at least 2 digits (strokes putts).",
       });
-      Alert.alert(
+      warn(
         "Voice Not Recognized",
         `Heard: "${text}"\n\nPlease say scores clearly, like '4 1'.`,
+        `I heard "${text}". Say strokes then putts, like 4 1.`,
       );
-      return;
+      return problems.join(" ");
     }
 
     const nums = matches.map((m) => parseInt(m));
@@ -1417,6 +1449,7 @@ const ScoringView: React.FC<ScoringViewProps> = ({
     let currentIndex = 0;
     let successCount = 0;
     const summaries: string[] = [];
+    const spokenSummaries: string[] = [];
     const assignedHoles = new Set<number>();
 
     while (currentIndex < nums.length) {
@@ -1431,9 +1464,10 @@ const ScoringView: React.FC<ScoringViewProps> = ({
         ];
         if (s > 0) {
           if (p >= s) {
-            Alert.alert(
+            warn(
               "Invalid Input",
               `Hole #${h}: Putts (${p}) must be less than strokes (${s}).`,
+              `Hole ${h} not saved, ${p} putts is too many for ${s} strokes.`,
             );
             currentIndex += 3;
             continue;
@@ -1442,6 +1476,7 @@ const ScoringView: React.FC<ScoringViewProps> = ({
           assignedHoles.add(h);
           successCount++;
           summaries.push(`#${h}: ${s}-${p}`);
+          spokenSummaries.push(`Hole ${h}, ${s} with ${p} putts.`);
           currentIndex += 3;
           continue;
         }
@@ -1452,9 +1487,10 @@ const ScoringView: React.FC<ScoringViewProps> = ({
         const [s, p] = [nums[currentIndex], nums[currentIndex + 1]];
         if (s > 0) {
           if (p >= s) {
-            Alert.alert(
+            warn(
               "Invalid Input",
               `Putts (${p}) must be less than strokes (${s}).`,
+              `Not saved, ${p} putts is too many for ${s} strokes.`,
             );
             currentIndex += 2;
             continue;
@@ -1470,6 +1506,7 @@ const ScoringView: React.FC<ScoringViewProps> = ({
             assignedHoles.add(nextHole.hole_number);
             successCount++;
             summaries.push(`#${nextHole.hole_number}: ${s}-${p}`);
+            spokenSummaries.push(`Hole ${nextHole.hole_number}, ${s} with ${p} putts.`);
             currentIndex += 2;
             continue;
           }
@@ -1494,11 +1531,28 @@ const ScoringView: React.FC<ScoringViewProps> = ({
         status: "ambiguous",
         message: "No valid score patterns found.",
       });
-      Alert.alert(
+      warn(
         "Ambiguous Input",
         `Parsed numbers: ${nums.join(", ")} from "${text}".\n\nI couldn't match these to a score.`,
+        `I couldn't match ${nums.join(", ")} to a score.`,
       );
     }
+    return [...spokenSummaries, ...problems].join(" ");
+  };
+  parseVoiceRef.current = parseVoice;
+
+  const handleToggleHandsFree = async () => {
+    HapticFeedback.light();
+    if (VoiceCommandService.isSessionActive()) {
+      await VoiceCommandService.stopSession();
+      return;
+    }
+    await cleanupRecording();
+    await VoiceCommandService.startSession({
+      onUtterance: (text) => parseVoiceRef.current(text, true),
+      onStateChange: setHandsFreeState,
+      onError: (error) => Alert.alert("Hands-Free Stopped", error),
+    });
   };
 
   const cleanupRecording = async () => {
@@ -1647,6 +1701,7 @@ const ScoringView: React.FC<ScoringViewProps> = ({
   useEffect(() => {
     return () => {
       cleanupRecording();
+      VoiceCommandService.stopSession();
     };
   }, []);
 
@@ -1656,15 +1711,29 @@ const ScoringView: React.FC<ScoringViewProps> = ({
       style={{ flex: 1 }}
     >
       <View style={styles.header}>
-        <TouchableOpacity onPress={() => setCurrentView("home")}>
+        <TouchableOpacity
+          onPress={() => setCurrentView("home")}
+          accessibilityRole="button"
+          accessibilityLabel="Back to rounds"
+        >
           <Ionicons name="chevron-back" size={24} color={colors.text} />
         </TouchableOpacity>
         <View style={{ flex: 1, alignItems: "center" }}>
           <Text style={styles.headerTitle}>{course.name}</Text>
-          <Text style={styles.helpText}>Ex: 5 2</Text>
+          <Text style={styles.helpText}>
+            {handsFreeState === "idle"
+              ? "Ex: 5 2"
+              : handsFreeState === "listening"
+                ? "Hands-free: listening…"
+                : "Hands-free"}
+          </Text>
         </View>
         <View style={{ flexDirection: "row", gap: 15 }}>
-          <TouchableOpacity onPress={() => setShowHelp(true)}>
+          <TouchableOpacity
+            onPress={() => setShowHelp(true)}
+            accessibilityRole="button"
+            accessibilityLabel="Voice entry help"
+          >
             <Ionicons
               name="help-circle-outline"
               size={24}
@@ -1675,6 +1744,8 @@ const ScoringView: React.FC<ScoringViewProps> = ({
             onPress={() =>
               setColorMode(colorMode === "light" ? "dark" : "light")
             }
+            accessibilityRole="button"
+            accessibilityLabel={colorMode === "light" ? "Switch to dark mode" : "Switch to light mode"}
           >
             <Ionicons
               name={colorMode === "light" ? "moon-outline" : "sunny-outline"}
@@ -1682,6 +1753,23 @@ const ScoringView: React.FC<ScoringViewProps> = ({
               color={colors.primary}
             />
           </TouchableOpacity>
+          <TouchableOpacity
+            onPress={handleToggleHandsFree}
+            style={[
+              styles.micButtonSmall,
+              handsFreeState !== "idle" && { backgroundColor: colors.danger },
+            ]}
+            disabled={isRecording || isAnalyzing}
+            accessibilityRole="button"
+            accessibilityLabel={handsFreeState !== "idle" ? "Stop hands-free scoring" : "Start hands-free scoring"}
+            accessibilityState={{ disabled: isRecording || isAnalyzing }}
+          >
+            <Ionicons
+              name={handsFreeState !== "idle" ? "headset" : "headset-outline"}
+              size={18}
+              color="#fff"
+            />
+          </TouchableOpacity>
           <TouchableOpacity
             onPress={handleToggleMic}
             style={[
@@ -1689,7 +1777,10 @@ const ScoringView: React.FC<ScoringViewProps> = ({
               isRecording && { backgroundColor: colors.danger },
               isAnalyzing && { backgroundColor: colors.textSecondary },
             ]}
-            disabled={isAnalyzing}
+            disabled={isAnalyzing || handsFreeState !== "idle"}
+            accessibilityRole="button"
+            accessibilityLabel={isRecording ? "Stop recording scores" : "Say scores"}
+            accessibilityState={{ disabled: isAnalyzing || handsFreeState !== "idle", busy: isAnalyzing }}
           >
             {isAnalyzing ? (
               <ActivityIndicator size="small" color="#fff" />
@@ -1719,6 +1810,8 @@ const ScoringView: React.FC<ScoringViewProps> = ({
           ]}
           onPress={() => markRoundComplete(activeRoundId!)}
           disabled={!canComplete}
+          accessibilityRole="button"
+          accessibilityState={{ disabled: !canComplete }}
         >
           <Text style={styles.completeRoundHeaderButtonText}>
             COMPLETE ROUND
@@ -1741,6 +1834,8 @@ const ScoringView: React.FC<ScoringViewProps> = ({
             style={!round.begin_time ? styles.setButtonTiny : null}
             onPress={() => setBeginTime(activeRoundId!)}
             disabled={!!round.begin_time}
+            accessibilityRole="button"
+            accessibilityLabel={round.begin_time ? undefined : "Set start time"}
           >
             <Text
               style={[
@@ -1837,7 +1932,8 @@ const SettingsView: React.FC<SettingsViewProps> = ({
 }) => {
   const [showScorecardFeatures, setShowScorecardFeatures] = useState(false);
   const colors = Colors[colorMode];
-  const styles = useMemo(() => getStyles(colors), [colors]);
+  const { scaleFont } = useTheme();
+  const styles = useMemo(() => getStyles(colors, scaleFont), [colors, scaleFont]);
 
   return (
     <>
@@ -1850,7 +1946,7 @@ const SettingsView: React.FC<SettingsViewProps> = ({
             sparkId="scorecard"
           />
           <View style={{ alignItems: "center", marginTop: -10, marginBottom: 10 }}>
-            <Text style={{ color: colors.textSecondary, fontSize: 10 }}>
+            <Text style={{ color: colors.textSecondary, fontSize: scaleFont(10) }}>
               v{SCORECARD_VERSION}
             </Text>
           </View>
@@ -1871,7 +1967,7 @@ const SettingsView: React.FC<SettingsViewProps> = ({
               <Text
                 style={{
                   color: colors.textSecondary,
-                  fontSize: 12,
+                  fontSize: scaleFont(12),
                   padding: 10,
                   textAlign: "center",
                 }}
@@ -1897,7 +1993,7 @@ const SettingsView: React.FC<SettingsViewProps> = ({
                   >
                     <Text
                       style={{
-                        fontSize: 10,
+                        fontSize: scaleFont(10),
                         color: colors.textSecondary,
                         fontWeight: "bold",
                       }}
@@ -1906,7 +2002,7 @@ const SettingsView: React.FC<SettingsViewProps> = ({
                     </Text>
                     <Text
                       style={{
-                        fontSize: 10,
+                        fontSize: scaleFont(10),
                         fontWeight: "bold",
                         color:
                           log.status === "success"
@@ -1919,13 +2015,13 @@ const SettingsView: React.FC<SettingsViewProps> = ({
                       {log.status.toUpperCase()}
                     </Text>
                   </View>
-                  <Text style={{ fontSize: 13, color: colors.text }}>
+                  <Text style={{ fontSize: scaleFont(13), color: colors.text }}>
                     Heard: "{log.rawText}"
                   </Text>
                   {log.processedNums.length > 0 && (
                     <Text
                       style={{
-                        fontSize: 12,
+                        fontSize: scaleFont(12),
                         color: colors.textSecondary,
                         fontFamily: Platform.OS === "ios" ? "Courier" : "monospace",
                         marginTop: 2,
@@ -1937,7 +2033,7 @@ const SettingsView: React.FC<SettingsViewProps> = ({
                   {log.message && (
                     <Text
                       style={{
-                        fontSize: 11,
+                        fontSize: scaleFont(11),
                         color: colors.textSecondary,
                         fontStyle: "italic",
                         marginTop: 2,
@@ -1988,6 +2084,11 @@ const SettingsView: React.FC<SettingsViewProps> = ({
               <Text style={styles.helpDescription}>
                 • Examples: "5-1", "5:1", and "5 and 1" all parse as "5 1"
               </Text>
+              <Text style={styles.helpDescription}>
+                • Hands-free: Tap the headset and keep the phone in your pocket.
+                Say each score after the hole; it is read back to you. Say
+                "stop listening" to finish.
+              </Text>
 
               <Text
                 style={[
@@ -2134,7 +2235,8 @@ export const ScorecardSpark: React.FC<{
 
   // Derived State
   const colors = Colors[colorMode];
-  const styles = useMemo(() => getStyles(colors), [colors]);
+  const { scaleFont } = useTheme();
+  const styles = useMemo(() => getStyles(colors, scaleFont), [colors, scaleFont]);
 
   // Initial Load & Cleanup
   useEffect(() => {
@@ -2378,6 +2480,12 @@ export const ScorecardSpark: React.FC<{
       ),
     );
 
+    SparkEventBus.publish("round.finished", "scorecard", {
+      roundId: String(roundId),
+      courseName: round.course_name,
+      totalStrokes,
+    });
+
     setCurrentView("home");
     Alert.alert(
       "Round Complete",
@@ -2578,7 +2686,7 @@ export const ScorecardSpark: React.FC<{
 
 // --- Styles ---
 
-const getStyles = (colors: any) =>
+const getStyles = (colors: any, scaleFont: (size: number) => number = (size) => size) =>
   StyleSheet.create({
     container: { flex: 1, backgroundColor: colors.background },
     header: {
@@ -2589,9 +2697,9 @@ const getStyles = (colors: any) =>
       borderBottomColor: colors.border,
       backgroundColor: colors.surface,
     },
-    title: { fontSize: 24, fontWeight: "bold", color: colors.text, flex: 1 },
-    headerTitle: { fontSize: 18, fontWeight: "bold", color: colors.text },
-    helpText: { fontSize: 13, color: colors.primary, fontWeight: "600" },
+    title: { fontSize: scaleFont(24), fontWeight: "bold", color: colors.text, flex: 1 },
+    headerTitle: { fontSize: scaleFont(18), fontWeight: "bold", color: colors.text },
+    helpText: { fontSize: scaleFont(13), color: colors.primary, fontWeight: "600" },
     subHeader: {
       flexDirection: "row",
       justifyContent: "space-between",
@@ -2601,11 +2709,11 @@ const getStyles = (colors: any) =>
       backgroundColor: colors.surface,
     },
     labelSmall: {
-      fontSize: 10,
+      fontSize: scaleFont(10),
       color: colors.textSecondary,
       fontWeight: "700",
     },
-    indexValue: { fontSize: 20, fontWeight: "bold" },
+    indexValue: { fontSize: scaleFont(20), fontWeight: "bold" },
     completeRoundHeaderButton: {
       backgroundColor: "#2E7D32",
       paddingHorizontal: 20,
@@ -2615,7 +2723,7 @@ const getStyles = (colors: any) =>
     completeRoundHeaderButtonText: {
       color: "#FFFFFF",
       fontWeight: "bold",
-      fontSize: 16,
+      fontSize: scaleFont(16),
     },
     infoRow: {
       flexDirection: "row",
@@ -2627,7 +2735,7 @@ const getStyles = (colors: any) =>
     },
     infoBox: { alignItems: "center", minWidth: 80 },
     infoValue: {
-      fontSize: 16,
+      fontSize: scaleFont(16),
       fontWeight: "bold",
       color: colors.text,
       marginTop: 4,
@@ -2643,7 +2751,7 @@ const getStyles = (colors: any) =>
       borderBottomColor: colors.border,
     },
     timeInfoText: {
-      fontSize: 11,
+      fontSize: scaleFont(11),
       color: colors.textSecondary,
       fontWeight: "600",
     },
@@ -2661,7 +2769,7 @@ const getStyles = (colors: any) =>
       borderRadius: 4,
       marginTop: 2,
     },
-    setButtonText: { color: "#FFF", fontWeight: "bold", fontSize: 12 },
+    setButtonText: { color: "#FFF", fontWeight: "bold", fontSize: scaleFont(12) },
     tableHeaderRow: {
       flexDirection: "row",
       paddingHorizontal: 16,
@@ -2671,7 +2779,7 @@ const getStyles = (colors: any) =>
       borderBottomColor: colors.border,
     },
     tableHeaderText: {
-      fontSize: 11,
+      fontSize: scaleFont(11),
       color: colors.textSecondary,
       fontWeight: "bold",
       textAlign: "center",
@@ -2690,8 +2798,8 @@ const getStyles = (colors: any) =>
     inputCol: { flex: 1 },
     netCol: { width: 45 },
     paceCol: { width: 60 },
-    holeNumber: { fontSize: 16, fontWeight: "bold", color: colors.text },
-    parText: { fontSize: 16, color: colors.textSecondary, textAlign: "center" },
+    holeNumber: { fontSize: scaleFont(16), fontWeight: "bold", color: colors.text },
+    parText: { fontSize: scaleFont(16), color: colors.textSecondary, textAlign: "center" },
     tableInput: {
       backgroundColor: colors.background, // v1.4.1: Responsive background
       borderRadius: 6,
@@ -2701,16 +2809,16 @@ const getStyles = (colors: any) =>
       borderWidth: 1,
       borderColor: colors.border, // v1.4.1: Responsive border
       marginHorizontal: 4,
-      fontSize: 16,
+      fontSize: scaleFont(16),
     },
     netText: {
-      fontSize: 15,
+      fontSize: scaleFont(15),
       fontWeight: "600",
       color: colors.text,
       textAlign: "center",
     },
     paceText: {
-      fontSize: 14,
+      fontSize: scaleFont(14),
       color: colors.textSecondary,
       textAlign: "center",
     },
@@ -2723,7 +2831,7 @@ const getStyles = (colors: any) =>
       borderTopColor: colors.border,
     },
     footerText: {
-      fontSize: 16,
+      fontSize: scaleFont(16),
       fontWeight: "bold",
       color: colors.text,
       textAlign: "center",
@@ -2735,10 +2843,10 @@ const getStyles = (colors: any) =>
       borderRadius: 12,
       alignItems: "center",
     },
-    newRoundButtonText: { color: "#fff", fontWeight: "bold", fontSize: 16 },
+    newRoundButtonText: { color: "#fff", fontWeight: "bold", fontSize: scaleFont(16) },
     sectionHeader: { paddingHorizontal: 16, marginBottom: 8 },
     sectionTitle: {
-      fontSize: 14,
+      fontSize: scaleFont(14),
       color: colors.textSecondary,
       fontWeight: "600",
     },
@@ -2753,10 +2861,10 @@ const getStyles = (colors: any) =>
       borderWidth: 1,
       borderColor: colors.border,
     },
-    courseName: { fontSize: 18, fontWeight: "bold", color: colors.text },
-    roundDate: { fontSize: 14, color: colors.textSecondary },
+    courseName: { fontSize: scaleFont(18), fontWeight: "bold", color: colors.text },
+    roundDate: { fontSize: scaleFont(14), color: colors.textSecondary },
     roundStats: {
-      fontSize: 14,
+      fontSize: scaleFont(14),
       color: colors.primary,
       fontWeight: "500",
       marginTop: 4,
@@ -2785,9 +2893,9 @@ const getStyles = (colors: any) =>
       alignItems: "center",
       marginBottom: 20,
     },
-    modalTitleText: { fontSize: 24, fontWeight: "bold", color: colors.text },
+    modalTitleText: { fontSize: scaleFont(24), fontWeight: "bold", color: colors.text },
     inputLabel: {
-      fontSize: 14,
+      fontSize: scaleFont(14),
       fontWeight: "600",
       color: colors.text,
       marginBottom: 8,
@@ -2810,7 +2918,7 @@ const getStyles = (colors: any) =>
     },
     holeEditLabel: {
       width: 60,
-      fontSize: 16,
+      fontSize: scaleFont(16),
       fontWeight: "500",
       color: colors.text,
     },
@@ -2834,7 +2942,7 @@ const getStyles = (colors: any) =>
       backgroundColor: colors.primary,
       borderColor: colors.primary,
     },
-    parButtonText: { fontSize: 14, fontWeight: "bold", color: colors.text },
+    parButtonText: { fontSize: scaleFont(14), fontWeight: "bold", color: colors.text },
     parButtonTextActive: { color: "#fff" },
     siInput: {
       width: 50,
@@ -2863,7 +2971,7 @@ const getStyles = (colors: any) =>
       flex: 1,
       justifyContent: "center",
     },
-    scanButtonText: { color: "#fff", fontWeight: "bold", fontSize: 13 },
+    scanButtonText: { color: "#fff", fontWeight: "bold", fontSize: scaleFont(13) },
     genderToggleContainer: {
       flexDirection: "row",
       backgroundColor: colors.background,
@@ -2886,7 +2994,7 @@ const getStyles = (colors: any) =>
       elevation: 2,
     },
     genderOptionText: {
-      fontSize: 11,
+      fontSize: scaleFont(11),
       color: colors.textSecondary,
       fontWeight: "600",
     },
@@ -2898,7 +3006,7 @@ const getStyles = (colors: any) =>
       alignItems: "center",
       marginTop: 20,
     },
-    saveCourseButtonText: { color: "#fff", fontWeight: "bold", fontSize: 18 },
+    saveCourseButtonText: { color: "#fff", fontWeight: "bold", fontSize: scaleFont(18) },
     miniTabButton: {
       paddingHorizontal: 12,
       paddingVertical: 6,
@@ -2912,7 +3020,7 @@ const getStyles = (colors: any) =>
       borderColor: colors.primary,
     },
     miniTabButtonText: {
-      fontSize: 12,
+      fontSize: scaleFont(12),
       fontWeight: "bold",
       color: colors.textSecondary,
     },
@@ -2923,12 +3031,12 @@ const getStyles = (colors: any) =>
       maxHeight: "80%",
     },
     helpCardTitle: {
-      fontSize: 22,
+      fontSize: scaleFont(22),
       fontWeight: "bold",
       color: colors.text,
       marginBottom: 16,
     },
-    helpDescription: { fontSize: 16, color: colors.text, marginBottom: 12 },
+    helpDescription: { fontSize: scaleFont(16), color: colors.text, marginBottom: 12 },
     closeHelpButton: {
       backgroundColor: colors.primary,
       padding: 16,
@@ -2936,7 +3044,7 @@ const getStyles = (colors: any) =>
       alignItems: "center",
       marginTop: 20,
     },
-    closeHelpButtonText: { color: "#fff", fontWeight: "bold", fontSize: 16 },
+    closeHelpButtonText: { color: "#fff", fontWeight: "bold", fontSize: scaleFont(16) },
     micButtonSmall: {
       width: 60,
       height: 48,
@@ -2956,7 +3064,7 @@ const getStyles = (colors: any) =>
       gap: 8,
     },
     voiceStatusText: {
-      fontSize: 14,
+      fontSize: scaleFont(14),
       fontWeight: "600",
     },
     errorBanner: {
@@ -2970,7 +3078,7 @@ const getStyles = (colors: any) =>
     },
     errorBannerText: {
       color: "#fff",
-      fontSize: 14,
+      fontSize: scaleFont(14),
       fontWeight: "600",
       flex: 1,
     },
@@ -0,0 +1,71 @@
+import { SparkVoiceIntent } from "../../types/spark";
+import { findSpokenItem } from "../../utils/itemMatching";
+import type { ScorecardData } from "../ScorecardSpark";
+
+// "+20.3", "-1" or "even", to par
+const toPar = (strokes: number): string => {
+  if (strokes === 0) return "even";
+  return `${strokes > 0 ? "+" : ""}${strokes}`;
+};
+
+const average = (values: number[]): number => Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+
+// Voice commands, deep links and automations for the scorecard. Golf Brain answers the same
+// questions for its own rounds, so these phrases name the scorecard to tell the two apart.
+export const scorecardVoiceIntents: SparkVoiceIntent[] = [
+  {
+    action: "query",
+    description: "Say the average score of finished rounds, at one course or all of them",
+    keywords: ["average score on my scorecard"],
+    params: {
+      item: { type: "string", description: "course name, every course if not said" },
+      itemId: { type: "string", description: "id of the course", hidden: true },
+    },
+    examples: [
+      { text: "What's my scorecard average at Tam O'Shanter?", params: { item: "Tam O'Shanter" } },
+    ],
+    phrases: [
+      "(what's|what is) my scorecard average [(at|on) {item}]",
+      "(what's|what is) my average [golf] score [(at|on) {item}] (in|on) [my|the] scorecard",
+    ],
+    handler: (params, data) => {
+      const { courses = [], rounds = [], scores = [] } = data as Partial<ScorecardData>;
+
+      // Par only counts the holes played, so nine-hole rounds compare fairly
+      let totals = rounds
+        .filter(round => round.is_completed)
+        .map(round => {
+          const played = scores.filter(score => score.round_id === round.id);
+          const holes = courses.find(course => course.id === round.course_id)?.holes || [];
+          return {
+            round,
+            strokes: round.total_strokes ?? played.reduce((sum, score) => sum + score.strokes, 0),
+            par: played.reduce((sum, score) => sum + (holes.find(hole => hole.hole_number === score.hole_number)?.par || 0), 0),
+          };
+        })
+        .filter(total => total.strokes > 0);
+      let where = "";
+
+      if (params.item || params.itemId) {
+        // Only courses with finished rounds can be asked about
+        const played = [...new Map(totals.map(({ round }) => [round.course_id, { id: round.course_id, name: round.course_name }])).values()];
+        const found = findSpokenItem(played, params, { noun: "course", getId: course => course.id, getText: course => course.name });
+        if ("result" in found) {
+          return found.result;
+        }
+        totals = totals.filter(({ round }) => round.course_id === found.item.id);
+        where = ` at ${found.item.name}`;
+      }
+
+      if (totals.length === 0) {
+        return { message: "No finished rounds yet." };
+      }
+      const strokes = totals.map(total => total.strokes);
+      // Rounds on courses whose pars are unknown can't be compared to par
+      const withPar = totals.filter(total => total.par > 0);
+      const averageToPar = withPar.length === totals.length ? ` (${toPar(average(withPar.map(total => total.strokes - total.par)))})` : "";
+      const count = totals.length === 1 ? "1 round" : `${totals.length} rounds`;
+      return { message: `Your average${where} is ${average(strokes)}${averageToPar} over ${count}, best ${Math.min(...strokes)}.` };
+    },
+  },
+];
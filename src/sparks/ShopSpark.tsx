@@ -13,7 +13,7 @@ import {
 } from '../components/SettingsComponents';
 import { HapticFeedback } from '../utils/haptics';
 
-interface ShopData {
+export interface ShopData {
     items: string[];
     checked: number[];
 }
@@ -0,0 +1,105 @@
+// Voice commands, deep links and automations for ShopSpark
+import { SparkIntentParam, SparkVoiceIntent } from '../../types/spark';
+import { findSpokenItem } from '../../utils/itemMatching';
+import type { ShopData } from '../ShopSpark';
+
+const ITEM_PARAMS: Record<string, SparkIntentParam> = {
+    item: { type: 'string', description: 'item on the list', required: true },
+    itemId: { type: 'string', description: 'the item exactly', hidden: true },
+};
+
+// Items are plain strings and never repeat, so the text doubles as the id
+const findShopItem = (items: string[], params: Record<string, any>) =>
+    findSpokenItem(items, params, { noun: 'item', getId: item => item, getText: item => item });
+
+export const shopVoiceIntents: SparkVoiceIntent[] = [
+    {
+        action: 'add',
+        aliases: ['create'],
+        description: 'Add an item to the shopping list',
+        keywords: ['shopping list', 'shop', 'we need', 'out of'],
+        params: {
+            item: { type: 'string', description: 'item to buy', required: true, multiple: true },
+        },
+        examples: [
+            { text: 'Add coffee to the shopping list', params: { item: 'Coffee' } },
+            { text: "We're out of olive oil", params: { item: 'Olive oil' } },
+            { text: 'Add milk, eggs and bread to the shopping list', params: { item: ['Milk', 'Eggs', 'Bread'] } },
+        ],
+        phrases: [
+            '(add|put) {item} (to|on) [my|the] (shopping|grocery|groceries) list',
+            "(we need|we're out of|we are out of|i'm out of|i am out of|we ran out of) [some|more] {item}",
+        ],
+        handler: ({ item }, data) => {
+            const items: ShopData['items'] = data.items || [];
+
+            if (items.some(existing => existing.toLowerCase() === item.toLowerCase())) {
+                throw new Error(`"${item}" is already on the shopping list.`);
+            }
+
+            // Checked items are stored by index, so appending keeps them valid
+            return {
+                data: { ...data, items: [...items, item], checked: data.checked || [] },
+                message: `Added to shopping list: "${item}"`,
+            };
+        },
+    },
+    {
+        action: 'complete',
+        aliases: ['check'],
+        description: 'Check off an item on the shopping list',
+        keywords: ['got', 'bought', 'check off'],
+        params: ITEM_PARAMS,
+        examples: [
+            { text: 'Check off coffee', params: { item: 'coffee' } },
+            { text: 'I bought the olive oil', params: { item: 'the olive oil' } },
+        ],
+        phrases: [
+            '(check off|cross off|tick off) {item} [(from|on|off) [my|the] (shopping|grocery|groceries) list]',
+            '(i|we) (got|bought|picked up) [the|some] {item}',
+        ],
+        handler: (params, data) => {
+            const items: ShopData['items'] = data.items || [];
+            const checked: ShopData['checked'] = data.checked || [];
+            const found = findShopItem(items.filter((_, index) => !checked.includes(index)), params);
+            if ('result' in found) {
+                return found.result;
+            }
+
+            return {
+                data: { ...data, items, checked: [...checked, items.indexOf(found.item)] },
+                message: `Checked off: "${found.item}"`,
+            };
+        },
+    },
+    {
+        action: 'delete',
+        aliases: ['remove'],
+        description: 'Remove an item from the shopping list',
+        keywords: ['remove', 'delete'],
+        params: ITEM_PARAMS,
+        examples: [
+            { text: 'Remove coffee from the shopping list', params: { item: 'coffee' } },
+        ],
+        phrases: [
+            '(remove|delete|take) {item} (from|off) [my|the] (shopping|grocery|groceries) list',
+        ],
+        handler: (params, data) => {
+            const items: ShopData['items'] = data.items || [];
+            const found = findShopItem(items, params);
+            if ('result' in found) {
+                return found.result;
+            }
+
+            // Checked items are stored by index, so the ones after the removed item move up a place
+            const removed = items.indexOf(found.item);
+            const checked = (data.checked || [])
+                .filter((index: number) => index !== removed)
+                .map((index: number) => (index > removed ? index - 1 : index));
+            return {
+                data: { ...data, items: items.filter((_, index) => index !== removed), checked },
+                message: `Removed from shopping list: "${found.item}"`,
+            };
+        },
+    },
+];
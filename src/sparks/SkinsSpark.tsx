@@ -10,7 +10,10 @@ import {
 } from "react-native";
 import { useTheme } from "../contexts/ThemeContext";
 import { HapticFeedback } from "../utils/haptics";
-import { useSparkStore } from "../store";
+import { SparkEventBus } from "../services/SparkEventBus";
+import { TrashService } from "../services/TrashService";
+import { useSparkData, useSparkStore } from "../store";
+import { defineSparkData, validators as v } from "../utils/dataValidation";
 import {
   SettingsContainer,
   SettingsScrollView,
@@ -64,13 +67,89 @@ interface GameState {
   carryover: number; // Number of skins carried over from tied holes
 }
 
+const holeResultValidator = v.object({
+  holeNumber: v.number(),
+  winnerIndex: v.number(),
+  winnerName: v.nullable(v.string()),
+  timestamp: v.number(),
+});
+
+interface SkinsSparkData {
+  mode: GameMode;
+  gameState: GameState;
+  roundHistory: RoundHistory[];
+  playerCount: PlayerCount;
+  teamMode: TeamMode;
+  names: string[];
+  carryoverEnabled: boolean;
+}
+
+const initialGameState: GameState = {
+  players: [],
+  scores: [],
+  history: [],
+  currentHole: 1,
+  holeDetails: [],
+  carryover: 0,
+};
+
+// Shape checked on every read. A game saved mid-write falls back to a fresh
+// game; broken rounds are quarantined and the rest of the history is kept.
+export const skinsDataSpec = defineSparkData<SkinsSparkData>({
+  sparkId: "skins",
+  fields: {
+    mode: v.oneOf<GameMode>([
+      "setup",
+      "playing",
+      "finished",
+      "history",
+      "settings",
+      "results",
+      "round-details",
+    ]),
+    gameState: v.object({
+      players: v.array(v.string()),
+      scores: v.array(v.number()),
+      history: v.array(v.number()),
+      currentHole: v.number(),
+      holeDetails: v.withDefault(v.array(holeResultValidator), []),
+      carryover: v.withDefault(v.number(), 0),
+    }),
+    roundHistory: v.records(
+      v.object({
+        id: v.string(),
+        date: v.string(),
+        players: v.array(v.string()),
+        finalScores: v.array(v.number()),
+        holes: v.withDefault(v.array(holeResultValidator), []),
+        playerCount: v.oneOf<PlayerCount>([2, 3, 4]),
+        teamMode: v.oneOf<TeamMode>(["individual", "teams"]),
+      })
+    ),
+    playerCount: v.oneOf<PlayerCount>([2, 3, 4]),
+    teamMode: v.oneOf<TeamMode>(["individual", "teams"]),
+    names: v.array(v.string()),
+    carryoverEnabled: v.boolean(),
+  },
+  defaults: {
+    mode: "setup",
+    gameState: initialGameState,
+    roundHistory: [],
+    playerCount: 2,
+    teamMode: "individual",
+    names: ["", "", "", ""],
+    carryoverEnabled: true,
+  },
+});
+
 export const SkinsSpark: React.FC<SkinsSparkProps> = ({
   showSettings,
   onCloseSettings,
   onStateChange,
 }) => {
   const { colors } = useTheme();
-  const { getSparkData, setSparkData } = useSparkStore();
+  const [savedData, setSavedData] = useSparkData(skinsDataSpec);
+  const checkpointSparkData = useSparkStore((state) => state.checkpointSparkData);
 
   // Setup State
   const [mode, setMode] = useState<GameMode>("setup");
@@ -80,14 +159,7 @@ export const SkinsSpark: React.FC<SkinsSparkProps> = ({
   const [carryoverEnabled, setCarryoverEnabled] = useState<boolean>(true);
 
   // Game State
-  const [gameState, setGameState] = useState<GameState>({
-    players: [],
-    scores: [],
-    history: [],
-    currentHole: 1,
-    holeDetails: [],
-    carryover: 0,
-  });
+  const [gameState, setGameState] = useState<GameState>(initialGameState);
 
   const [roundHistory, setRoundHistory] = useState<RoundHistory[]>([]);
   const [dataLoaded, setDataLoaded] = useState(false);
@@ -97,32 +169,30 @@ export const SkinsSpark: React.FC<SkinsSparkProps> = ({
     string | null
   >(null);
 
-  // Load saved state
+  // Load saved state (validated by skinsDataSpec)
   useEffect(() => {
-    const savedData = getSparkData("skins");
-    if (savedData) {
-      // Don't restore settings or menu modes - only game/playing/history/results
-      if (
-        savedData.mode &&
-        !["settings", "round-details"].includes(savedData.mode)
-      ) {
-        setMode(savedData.mode);
-      }
-      if (savedData.gameState) setGameState(savedData.gameState);
-      if (savedData.roundHistory) setRoundHistory(savedData.roundHistory);
-      if (savedData.playerCount) setPlayerCount(savedData.playerCount);
-      if (savedData.teamMode) setTeamMode(savedData.teamMode);
-      if (savedData.names) setNames(savedData.names);
-      if (savedData.carryoverEnabled !== undefined)
-        setCarryoverEnabled(savedData.carryoverEnabled);
+    // Don't restore settings or menu modes - only game/playing/history/results.
+    // A game whose state was quarantined can't be resumed, so start at setup.
+    const hasGame = savedData.gameState.players.length > 0;
+    if (
+      !["settings", "round-details"].includes(savedData.mode) &&
+      (savedData.mode !== "playing" || hasGame)
+    ) {
+      setMode(savedData.mode);
     }
+    setGameState(savedData.gameState);
+    setRoundHistory(savedData.roundHistory);
+    setPlayerCount(savedData.playerCount);
+    setTeamMode(savedData.teamMode);
+    setNames(savedData.names);
+    setCarryoverEnabled(savedData.carryoverEnabled);
     setDataLoaded(true);
   }, []);
 
   // Save state (but NOT settings/round-details modes)
   useEffect(() => {
     if (!dataLoaded) return;
-    setSparkData("skins", {
+    setSavedData({
       mode: ["settings", "round-details"].includes(mode) ? "playing" : mode,
       gameState,
       roundHistory,
@@ -266,6 +336,7 @@ export const SkinsSpark: React.FC<SkinsSparkProps> = ({
     };
 
     setRoundHistory((prev) => [newRound, ...prev]);
+    SparkEventBus.publish("round.finished", "skins", { roundId: newRound.id });
     setMode("results");
     HapticFeedback.success();
   };
@@ -1228,7 +1299,7 @@ export const SkinsSpark: React.FC<SkinsSparkProps> = ({
                   marginBottom: 25,
                 }}
               >
-                This action cannot be undone.
+                You can restore it from the Trash in Settings.
               </Text>
               <View style={{ flexDirection: "row", gap: 10 }}>
                 <TouchableOpacity
@@ -1259,8 +1330,16 @@ export const SkinsSpark: React.FC<SkinsSparkProps> = ({
                     alignItems: "center",
                   }}
                   onPress={() => {
-                    setRoundHistory((prev) =>
-                      prev.filter((r) => r.id !== deleteConfirmRoundId),
+                    const deletedRound = roundHistory.find((r) => r.id === deleteConfirmRoundId);
+                    checkpointSparkData("skins", "Delete round");
+                    setRoundHistory(
+                      TrashService.removeItem(
+                        "skins",
+                        "roundHistory",
+                        roundHistory,
+                        deleteConfirmRoundId!,
+                        `Round on ${deletedRound ? new Date(deletedRound.date).toLocaleDateString() : "unknown date"}`,
+                      ),
                     );
                     setDeleteConfirmRoundId(null);
                     HapticFeedback.medium();
@@ -1416,6 +1495,7 @@ export const SkinsSpark: React.FC<SkinsSparkProps> = ({
                   alignItems: "center",
                 }}
                 onPress={() => {
+                  checkpointSparkData("skins", "Discard game");
                   setShowEndGameConfirm(false);
                   setGameState({
                     players: [],
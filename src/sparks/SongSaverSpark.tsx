@@ -46,8 +46,8 @@ const SongSaverSpark: React.FC<SongSaverSparkProps> = ({
     onStateChange,
     onComplete,
 }) => {
-    const { colors } = useTheme();
-    const commonStyles = createCommonStyles(colors);
+    const { colors, typography } = useTheme();
+    const commonStyles = createCommonStyles(colors, typography);
     const { getSparkData, setSparkData } = useSparkStore();
     const [tracks, setTracks] = useState<SpotifyTrack[]>([]);
     const [newUrl, setNewUrl] = useState('');
@@ -1,11 +1,14 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Alert, Dimensions, TextInput, Modal, Linking } from 'react-native';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Alert, Dimensions, TextInput, Modal } from 'react-native';
 import { Audio } from 'expo-av';
 import { IOSOutputFormat, IOSAudioQuality, AndroidOutputFormat, AndroidAudioEncoder } from 'expo-av/build/Audio/RecordingConstants';
 import * as FileSystem from 'expo-file-system';
 import * as DocumentPicker from 'expo-document-picker';
 import * as Sharing from 'expo-sharing';
 import { useSparkStore } from '../store';
+import { SOUNDBOARD_DIR_NAME } from './SoundboardSpark/fileStorage';
+import { TrashService } from '../services/TrashService';
+import { SparkPermissionService } from '../services/SparkPermissionService';
 import { HapticFeedback } from '../utils/haptics';
 import { useTheme } from '../contexts/ThemeContext';
 import {
@@ -25,7 +28,7 @@ import {
 const { width: screenWidth } = Dimensions.get('window');
 const CHIP_SIZE = (screenWidth - 80) / 3; // 3 columns with proper padding and gaps
 
-interface SoundChip {
+export interface SoundChip {
   id: string;
   name: string;
   displayName: string;
@@ -59,7 +62,6 @@ const parseTaskText = (text: string): { category: string; displayText: string }
 };
 
 // Persistent storage helpers
-const SOUNDBOARD_DIR_NAME = 'soundboard/';
 const toAbsoluteUri = (relativeOrAbsolute: string): string => {
   if (!relativeOrAbsolute) return '';
   if (relativeOrAbsolute.startsWith('file://')) return relativeOrAbsolute;
@@ -104,32 +106,21 @@ const SoundboardSettings: React.FC<{
   }, [soundChips]);
 
 
-  const deleteSoundChip = async (id: string) => {
+  const deleteSoundChip = (id: string) => {
     const chipToDelete = editingSoundChips.find(chip => chip.id === id);
     if (chipToDelete) {
       Alert.alert(
         'Delete Sound',
-        `Are you sure you want to delete "${chipToDelete.displayName}"?`,
+        `Are you sure you want to delete "${chipToDelete.displayName}"? You can restore it from the Trash in Settings.`,
         [
           { text: 'Cancel', style: 'cancel' },
           {
             text: 'Delete',
             style: 'destructive',
-            onPress: async () => {
-              try {
-                // Delete the file - IMPORTANT: Convert to absolute URI
-                const absolutePath = toAbsoluteUri(chipToDelete.filePath);
-                await FileSystem.deleteAsync(absolutePath, { idempotent: true });
-
-                // Remove from array using functional update to avoid stale closures
-                setEditingSoundChips(prev => prev.filter(c => c.id !== id));
-                HapticFeedback.medium();
-              } catch (error) {
-                console.error('Failed to delete sound file:', error);
-                // Still remove from array even if file deletion fails
-                setEditingSoundChips(prev => prev.filter(c => c.id !== id));
-                HapticFeedback.medium();
-              }
+            onPress: () => {
+              // The file stays until the trash is purged; removed from array using functional update to avoid stale closures
+              setEditingSoundChips(prev => prev.filter(c => c.id !== id));
+              HapticFeedback.medium();
             },
           },
         ]
@@ -139,6 +130,10 @@ const SoundboardSettings: React.FC<{
 
   const handleSave = () => {
     console.log('💾 SoundboardSettings: Saving changes...', editingSoundChips.length, 'chips');
+    // Deletions only take effect on save, so that's when they go to the trash
+    soundChips
+      .filter(chip => !editingSoundChips.some(editing => editing.id === chip.id))
+      .forEach(chip => TrashService.trashItem('soundboard', 'soundChips', chip, chip.displayName));
     onSave([...editingSoundChips]);
     onClose();
   };
@@ -445,27 +440,22 @@ export const SoundboardSpark: React.FC<SoundboardSparkProps> = ({
     try {
       console.log('🎤 setupAudioMode: forRecording =', forRecording);
 
-      const { status: existingStatus, canAskAgain } = await Audio.getPermissionsAsync();
-      console.log('🎤 setupAudioMode: status =', existingStatus, 'canAskAgain =', canAskAgain);
-
-      if (existingStatus !== 'granted') {
-        if (!canAskAgain) {
-          Alert.alert(
-            'Microphone Required',
-            'Microphone access is disabled. Please enable it in your device settings to record sounds.',
-            [
-              { text: 'Cancel', style: 'cancel' },
-              { text: 'Open Settings', onPress: () => Linking.openSettings() }
-            ]
-          );
-          return false;
-        }
-
-        const { status } = await Audio.requestPermissionsAsync();
-        if (status !== 'granted') {
-          Alert.alert('Permission Denied', 'Microphone access is required to record sounds.');
-          return false;
-        }
+      // SparkScreen asks for the microphone before the spark opens; this only prompts if that was skipped
+      const { missing, blocked } = await SparkPermissionService.requestCapabilities(['microphone']);
+      if (blocked.length > 0) {
+        Alert.alert(
+          'Microphone Required',
+          'Microphone access is disabled. Please enable it in your device settings to record sounds.',
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Open Settings', onPress: () => SparkPermissionService.openSettings() }
+          ]
+        );
+        return false;
+      }
+      if (missing.length > 0) {
+        Alert.alert('Permission Denied', 'Microphone access is required to record sounds.');
+        return false;
       }
 
       await Audio.setAudioModeAsync({
@@ -865,13 +855,6 @@ export const SoundboardSpark: React.FC<SoundboardSparkProps> = ({
 
     // Debug file system status
     checkFileSystemStatus();
-
-    // Pre-warm permissions
-    Audio.getPermissionsAsync().then(({ status, canAskAgain }) => {
-      if (status !== 'granted' && canAskAgain) {
-        Audio.requestPermissionsAsync();
-      }
-    });
   }, [getSparkData, isHydrated]);
 
   // Save data whenever soundChips change
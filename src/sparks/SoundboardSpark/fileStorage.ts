@@ -0,0 +1,11 @@
+// Recording accounting for SoundboardSpark data
+import { SparkFileStorage } from '../../types/spark';
+import type { SoundChip } from '../SoundboardSpark';
+
+export const SOUNDBOARD_DIR_NAME = 'soundboard/';
+
+// Recordings and imported sounds live in soundboard/
+export const soundboardFileStorage: SparkFileStorage = {
+  directories: [SOUNDBOARD_DIR_NAME],
+  getFileUris: (data) => (data.soundChips || []).map((chip: SoundChip) => chip.filePath),
+};
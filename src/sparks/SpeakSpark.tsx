@@ -19,23 +19,42 @@ import {
   ExpoSpeechRecognitionModule,
   useSpeechRecognitionEvent,
 } from "expo-speech-recognition";
+import * as Speech from "expo-speech";
 import { isExpoGo } from "../utils/expoGoDetection";
-import { GeminiCommandParser } from "../services/GeminiCommandParser";
-import { CommandExecutor } from "../services/CommandExecutor";
+import {
+  VoiceCommandParser,
+  CommandParserPolicy,
+  DEFAULT_PARSER_POLICY,
+} from "../services/VoiceCommandParser";
+import { CommandExecutor, CommandResult, StepFailurePolicy } from "../services/CommandExecutor";
+import { getAllSparks } from "../components/SparkRegistry";
+import { getVoiceCommandExamples } from "../utils/voiceIntents";
 import { HapticFeedback } from "../utils/haptics";
 import { GeminiService } from "../services/GeminiService";
+import { SparkPermissionService } from "../services/SparkPermissionService";
 import { useNavigation } from "@react-navigation/native";
 import { useSparkStore } from "../store";
 import { getSparkById } from "../components/sparkRegistryData";
+import { getSpeechLocale } from "../i18n";
 import {
   SettingsContainer,
   SettingsScrollView,
   SettingsHeader,
   SettingsFeedbackSection,
+  SettingsToggle,
   SaveCancelButtons,
 } from "../components/SettingsComponents";
 import { AISettingsNote } from '../components/AISettingsNote';
 
+// One step of a command that asked for several things
+interface CommandHistoryStep {
+  transcript: string;
+  response: string;
+  success: boolean;
+  skipped?: boolean;
+  targetSpark?: string;
+}
+
 interface CommandHistoryItem {
   id: string;
   transcript: string;
@@ -43,8 +62,41 @@ interface CommandHistoryItem {
   success: boolean;
   timestamp: number;
   targetSpark?: string;
+  steps?: CommandHistoryStep[]; // Only for commands with more than one step
+  choices?: CommandResult["choices"]; // Several items matched; cleared once one is picked
 }
 
+const PARSER_POLICIES: { id: CommandParserPolicy; label: string; description: string }[] = [
+  {
+    id: "local-first",
+    label: "Offline first",
+    description: "Common phrases are understood on the device; Gemini helps with the rest.",
+  },
+  {
+    id: "ai-first",
+    label: "Gemini first",
+    description: "Gemini understands every command; offline phrases are used when it can't be reached.",
+  },
+  {
+    id: "local-only",
+    label: "Offline only",
+    description: "Commands never leave the device. Only common phrases are understood.",
+  },
+];
+
+const STEP_FAILURE_POLICIES: { id: StepFailurePolicy; label: string; description: string }[] = [
+  {
+    id: "stop",
+    label: "Stop",
+    description: "Skip the remaining steps once one fails.",
+  },
+  {
+    id: "continue",
+    label: "Keep going",
+    description: "Run every step, even after one fails.",
+  },
+];
+
 export const SpeakSpark: React.FC<SparkProps & { autoRecord?: boolean }> = ({
   showSettings,
   onCloseSettings,
@@ -65,24 +117,16 @@ export const SpeakSpark: React.FC<SparkProps & { autoRecord?: boolean }> = ({
   const [keyboardVisible, setKeyboardVisible] = useState(false);
   const [dataLoaded, setDataLoaded] = useState(false);
   const [hasApiKey, setHasApiKey] = useState(false);
+  const [parserPolicy, setParserPolicy] = useState<CommandParserPolicy>(DEFAULT_PARSER_POLICY);
+  const [stepFailurePolicy, setStepFailurePolicy] = useState<StepFailurePolicy>("stop");
+  const [readAnswersAloud, setReadAnswersAloud] = useState(true);
 
   const isHydrated = useSparkStore(state => state.isHydrated);
 
   const pulseAnim = useRef(new Animated.Value(1)).current;
 
-  const SUGGESTED_COMMANDS = [
-    "Add a todo to buy milk",
-    "Remind me to call Mom tomorrow",
-    "Add a todo to Work category to finish report",
-
-    "Weight is 150 lbs",
-    "Add weight 70 kg",
-
-    "Add a toview for a movie called the Wolf of Wallstreet on Netflix",
-    "Watch a show called Slow Horses on Apple TV",
-    "Add a toview for a movie called Dune to watch with Tom",
-    "Read a book called The Hobbit",
-  ];
+  // Every spark's voice intent examples
+  const SUGGESTED_COMMANDS = getVoiceCommandExamples(getAllSparks());
 
   // -- Effects --
 
@@ -118,6 +162,15 @@ export const SpeakSpark: React.FC<SparkProps & { autoRecord?: boolean }> = ({
       console.log(`📦 SpeakSpark: Loading ${savedData.history.length} history items`);
       setHistory(savedData.history);
     }
+    if (savedData?.parserPolicy) {
+      setParserPolicy(savedData.parserPolicy);
+    }
+    if (savedData?.stepFailurePolicy) {
+      setStepFailurePolicy(savedData.stepFailurePolicy);
+    }
+    if (savedData?.readAnswersAloud !== undefined) {
+      setReadAnswersAloud(savedData.readAnswersAloud);
+    }
     setDataLoaded(true);
   }, [getSparkData, isHydrated, dataLoaded]);
 
@@ -126,7 +179,7 @@ export const SpeakSpark: React.FC<SparkProps & { autoRecord?: boolean }> = ({
     if (!dataLoaded) return;
 
     if (history.length > 0) {
-      setSparkData("speak-spark", { history });
+      setSparkData("speak-spark", { ...getSparkData("speak-spark"), history });
     }
   }, [history, dataLoaded]);
 
@@ -182,6 +235,35 @@ export const SpeakSpark: React.FC<SparkProps & { autoRecord?: boolean }> = ({
     setShowSuggestions(false);
   };
 
+  const updateParserPolicy = (policy: CommandParserPolicy) => {
+    setParserPolicy(policy);
+    setSparkData("speak-spark", { ...getSparkData("speak-spark"), parserPolicy: policy });
+    HapticFeedback.selection();
+  };
+
+  const updateStepFailurePolicy = (policy: StepFailurePolicy) => {
+    setStepFailurePolicy(policy);
+    setSparkData("speak-spark", { ...getSparkData("speak-spark"), stepFailurePolicy: policy });
+    HapticFeedback.selection();
+  };
+
+  const updateReadAnswersAloud = (value: boolean) => {
+    setReadAnswersAloud(value);
+    setSparkData("speak-spark", { ...getSparkData("speak-spark"), readAnswersAloud: value });
+    if (!value) {
+      Speech.stop();
+    }
+  };
+
+  // Answers to questions are spoken as well as shown in the history
+  const readAloud = (results: CommandResult[]) => {
+    const answers = results.filter((result) => result.answer).map((result) => result.message);
+    if (readAnswersAloud && answers.length > 0) {
+      Speech.stop();
+      Speech.speak(answers.join(" "), { language: getSpeechLocale() });
+    }
+  };
+
   const handleFinalResult = async (text: string) => {
     if (!text.trim()) return;
 
@@ -190,38 +272,59 @@ export const SpeakSpark: React.FC<SparkProps & { autoRecord?: boolean }> = ({
     setShowSuggestions(false);
 
     try {
-      const parsed = await GeminiCommandParser.parseCommand(text);
-      const result = await CommandExecutor.execute(parsed);
+      const commands = await VoiceCommandParser.parseCommands(text, parserPolicy);
+      const steps = await CommandExecutor.executeAll(commands, stepFailurePolicy);
+
+      const targetOf = (sparkId: string) => (sparkId !== "unknown" ? sparkId : undefined);
+      const succeeded = steps.filter((step) => step.result.success).length;
+      const targets = steps.map((step) => targetOf(step.command.targetSpark)).filter(Boolean);
 
       const newItem: CommandHistoryItem = {
         id: Date.now().toString(),
         transcript: text,
-        response: result.message,
-        success: result.success,
+        response:
+          steps.length === 1
+            ? steps[0].result.message
+            : `${succeeded} of ${steps.length} steps done`,
+        success: succeeded === steps.length,
         timestamp: Date.now(),
-        targetSpark:
-          parsed.targetSpark !== "unknown" ? parsed.targetSpark : undefined,
+        targetSpark: targets[targets.length - 1],
+        steps:
+          steps.length > 1
+            ? steps.map((step) => ({
+                transcript: step.command.originalText,
+                response: step.result.message,
+                success: step.result.success,
+                skipped: step.skipped,
+                targetSpark: targetOf(step.command.targetSpark),
+              }))
+            : undefined,
+        choices: steps.find((step) => step.result.choices)?.result.choices,
       };
 
+      // Only the last "open" is followed, once every step has run
+      const openSparkId = [...steps].reverse().find((step) => step.result.openSparkId)?.result.openSparkId;
+
       setHistory((prev) => {
         const newHistory = [newItem, ...prev];
         return newHistory.slice(0, 10);
       });
       setCurrentTranscript("");
       setManualInput("");
+      readAloud(steps.map((step) => step.result));
 
-      if (result.success) {
+      if (newItem.success) {
         HapticFeedback.success();
-
-        // Handle navigation if requested
-        if ((result as any).openSparkId) {
-          setTimeout(() => {
-            navigateToSpark((result as any).openSparkId);
-          }, 800); // Give user time to see the success message
-        }
       } else {
         HapticFeedback.error();
       }
+
+      // Handle navigation if requested
+      if (openSparkId) {
+        setTimeout(() => {
+          navigateToSpark(openSparkId);
+        }, 800); // Give user time to see the success message
+      }
     } catch (e) {
       if (!GeminiService.isApiKeyError(e)) {
         Alert.alert("Error", "Failed to process command.");
@@ -231,6 +334,34 @@ export const SpeakSpark: React.FC<SparkProps & { autoRecord?: boolean }> = ({
     }
   };
 
+  // Finish a command that matched several items with the one the user tapped
+  const handlePickChoice = async (
+    item: CommandHistoryItem,
+    choice: NonNullable<CommandResult["choices"]>[number]
+  ) => {
+    const result = await CommandExecutor.execute(choice.command);
+
+    const newItem: CommandHistoryItem = {
+      id: Date.now().toString(),
+      transcript: `${item.transcript} → ${choice.label}`,
+      response: result.message,
+      success: result.success,
+      timestamp: Date.now(),
+      targetSpark: item.targetSpark,
+    };
+
+    setHistory((prev) =>
+      [newItem, ...prev.map((h) => (h.id === item.id ? { ...h, choices: undefined } : h))].slice(0, 10)
+    );
+    readAloud([result]);
+
+    if (result.success) {
+      HapticFeedback.success();
+    } else {
+      HapticFeedback.error();
+    }
+  };
+
   // -- Speech Hooks --
 
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
@@ -299,16 +430,19 @@ export const SpeakSpark: React.FC<SparkProps & { autoRecord?: boolean }> = ({
       }
 
       try {
-        const result =
-          await ExpoSpeechRecognitionModule.requestPermissionsAsync();
-        if (!result.granted) {
+        // SparkScreen asks before the spark opens; this only prompts if that was skipped.
+        // Starting recognition asks for speech recognition itself where the system needs it.
+        const { missing } = await SparkPermissionService.requestCapabilities(["microphone"]);
+        if (missing.length > 0) {
           setErrorMessage("Microphone permission required.");
           setTimeout(() => setErrorMessage(null), 3500);
           return;
         }
 
+        // Don't let the microphone hear the last answer being read out
+        Speech.stop();
         await ExpoSpeechRecognitionModule.start({
-          lang: "en-US",
+          lang: getSpeechLocale(),
           interimResults: true,
           maxAlternatives: 1,
           continuous: false,
@@ -362,16 +496,78 @@ export const SpeakSpark: React.FC<SparkProps & { autoRecord?: boolean }> = ({
                 marginBottom: 16,
               }}
             >
-              Use your voice to create todos, log weight, and interact with
-              other Sparks. Powered by Gemini AI.
+              Use your voice to create todos, log weight, check things off,
+              reschedule or remove them, ask questions like "how many days
+              until Mom's birthday", and interact with other Sparks. Common
+              phrases work offline; Gemini AI handles the rest.
             </Text>
             <Text style={{ fontSize: 14, color: colors.textSecondary }}>
               {hasApiKey
                 ? "✅ Gemini API Key Configured"
-                : "❌ Missing API Key"}
+                : "❌ Missing API Key (only offline phrases will work)"}
             </Text>
           </View>
 
+          <View style={{ padding: 20 }}>
+            <Text
+              style={{
+                fontSize: 16,
+                color: colors.text,
+                marginBottom: 8,
+                fontWeight: "600",
+              }}
+            >
+              Understanding Commands
+            </Text>
+            <PolicyOptions
+              options={PARSER_POLICIES}
+              selected={parserPolicy}
+              onSelect={updateParserPolicy}
+            />
+          </View>
+
+          <View style={{ padding: 20 }}>
+            <Text
+              style={{
+                fontSize: 16,
+                color: colors.text,
+                marginBottom: 8,
+                fontWeight: "600",
+              }}
+            >
+              When a Step Fails
+            </Text>
+            <Text style={{ fontSize: 13, color: colors.textSecondary, marginBottom: 12 }}>
+              For commands that ask for several things, like "add milk to the shopping list and then open the packing list".
+            </Text>
+            <PolicyOptions
+              options={STEP_FAILURE_POLICIES}
+              selected={stepFailurePolicy}
+              onSelect={updateStepFailurePolicy}
+            />
+          </View>
+
+          <View style={{ padding: 20 }}>
+            <Text
+              style={{
+                fontSize: 16,
+                color: colors.text,
+                marginBottom: 8,
+                fontWeight: "600",
+              }}
+            >
+              Answers
+            </Text>
+            <Text style={{ fontSize: 13, color: colors.textSecondary, marginBottom: 12 }}>
+              Questions like "how many todos are due today" are answered from your sparks' data on this device.
+            </Text>
+            <SettingsToggle
+              label="Read answers aloud"
+              value={readAnswersAloud}
+              onValueChange={updateReadAnswersAloud}
+            />
+          </View>
+
           <SettingsFeedbackSection
             sparkName="Speak Spark"
             sparkId="speak-spark"
@@ -396,7 +592,7 @@ export const SpeakSpark: React.FC<SparkProps & { autoRecord?: boolean }> = ({
                     text: "Clear",
                     style: "destructive",
                     onPress: () => {
-                      setSparkData("speak-spark", { history: [] });
+                      setSparkData("speak-spark", { ...getSparkData("speak-spark"), history: [] });
                       // Ensure UI updates by forcing a read or relying on next effect
                       setHistory([]);
                       Alert.alert("Success", "History cleared.");
@@ -659,6 +855,37 @@ export const SpeakSpark: React.FC<SparkProps & { autoRecord?: boolean }> = ({
                       >
                         {item.response}
                       </Text>
+                      {item.steps?.map((step, index) => (
+                        <Text
+                          key={index}
+                          style={[
+                            styles.historyStep,
+                            { color: step.skipped ? colors.textSecondary : colors.text },
+                          ]}
+                        >
+                          {step.skipped ? "⏭️" : step.success ? "✅" : "❌"} {step.response}
+                        </Text>
+                      ))}
+                      {item.choices && (
+                        <View style={styles.choiceRow}>
+                          {item.choices.map((choice, index) => (
+                            <TouchableOpacity
+                              key={index}
+                              style={[
+                                styles.choiceButton,
+                                { borderColor: colors.primary },
+                              ]}
+                              onPress={() => handlePickChoice(item, choice)}
+                              accessibilityRole="button"
+                              accessibilityLabel={`Choose ${choice.label}`}
+                            >
+                              <Text style={[styles.choiceText, { color: colors.primary }]}>
+                                {choice.label}
+                              </Text>
+                            </TouchableOpacity>
+                          ))}
+                        </View>
+                      )}
                     </View>
                   );
                 })
@@ -671,6 +898,51 @@ export const SpeakSpark: React.FC<SparkProps & { autoRecord?: boolean }> = ({
   );
 };
 
+// Radio-style choices for the settings view
+function PolicyOptions<T extends string>({
+  options,
+  selected,
+  onSelect,
+}: {
+  options: { id: T; label: string; description: string }[];
+  selected: T;
+  onSelect: (id: T) => void;
+}) {
+  const { colors } = useTheme();
+
+  return (
+    <>
+      {options.map((option) => {
+        const isSelected = option.id === selected;
+        return (
+          <TouchableOpacity
+            key={option.id}
+            style={{
+              padding: 14,
+              marginBottom: 8,
+              backgroundColor: colors.surface,
+              borderRadius: 12,
+              borderWidth: isSelected ? 2 : 1,
+              borderColor: isSelected ? colors.primary : colors.border,
+            }}
+            onPress={() => onSelect(option.id)}
+            accessibilityRole="radio"
+            accessibilityState={{ selected: isSelected }}
+          >
+            <Text style={{ fontSize: 15, color: colors.text, fontWeight: isSelected ? "600" : "400" }}>
+              {isSelected ? "● " : "○ "}
+              {option.label}
+            </Text>
+            <Text style={{ fontSize: 13, color: colors.textSecondary, marginTop: 4 }}>
+              {option.description}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </>
+  );
+}
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -773,6 +1045,27 @@ const styles = StyleSheet.create({
     fontSize: 13,
     marginTop: 4,
   },
+  historyStep: {
+    fontSize: 13,
+    marginTop: 4,
+    marginLeft: 8,
+  },
+  choiceRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginTop: 6,
+  },
+  choiceButton: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginRight: 6,
+    marginTop: 4,
+  },
+  choiceText: {
+    fontSize: 13,
+  },
   linkButton: {
     flexDirection: "row",
     alignItems: "center",
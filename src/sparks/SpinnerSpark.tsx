@@ -26,13 +26,13 @@ const { width: screenWidth } = Dimensions.get('window');
 const wheelSize = Math.min(screenWidth - 80, 300);
 const wheelRadius = wheelSize / 2;
 
-interface SpinnerOption {
+export interface SpinnerOption {
   label: string;
   color: string;
   weight: number;
 }
 
-interface DecisionSet {
+export interface DecisionSet {
   id: string;
   name: string;
   active: boolean;
@@ -85,8 +85,8 @@ interface DecisionSetManagerProps {
 
 // New component for managing multiple decision sets
 const DecisionSetManager: React.FC<DecisionSetManagerProps> = ({ decisionSets, onUpdate, onClose }) => {
-  const { colors } = useTheme();
-  const commonStyles = createCommonStyles(colors);
+  const { colors, typography, scaleFont } = useTheme();
+  const commonStyles = createCommonStyles(colors, typography);
   const [editingSet, setEditingSet] = useState<string | null>(null);
   const [showEditModal, setShowEditModal] = useState(false);
 
@@ -154,13 +154,13 @@ const DecisionSetManager: React.FC<DecisionSetManagerProps> = ({ decisionSets, o
       borderWidth: 3,
     },
     setName: {
-      fontSize: 18,
+      fontSize: scaleFont(18),
       fontWeight: '600',
       color: colors.text,
       marginBottom: 8,
     },
     setInfo: {
-      fontSize: 14,
+      fontSize: scaleFont(14),
       color: colors.textSecondary,
       marginBottom: 12,
     },
@@ -174,7 +174,7 @@ const DecisionSetManager: React.FC<DecisionSetManagerProps> = ({ decisionSets, o
     },
     activeBadgeText: {
       color: '#fff',
-      fontSize: 12,
+      fontSize: scaleFont(12),
       fontWeight: '600',
     },
     buttonRow: {
@@ -191,7 +191,7 @@ const DecisionSetManager: React.FC<DecisionSetManagerProps> = ({ decisionSets, o
       borderColor: colors.border,
     },
     actionButtonText: {
-      fontSize: 14,
+      fontSize: scaleFont(14),
       fontWeight: '600',
       color: colors.text,
     },
@@ -229,11 +229,11 @@ const DecisionSetManager: React.FC<DecisionSetManagerProps> = ({ decisionSets, o
             {decisionSets.map((set) => (
               <View key={set.id} style={[styles.setCard, set.active && styles.activeCard]}>
                 {set.active && (
-                  <View style={styles.activeBadge}>
+                  <View style={styles.activeBadge} importantForAccessibility="no-hide-descendants">
                     <Text style={styles.activeBadgeText}>ACTIVE</Text>
                   </View>
                 )}
-                <Text style={styles.setName}>{set.name}</Text>
+                <Text style={styles.setName} accessibilityLabel={set.active ? `${set.name}, active` : set.name}>{set.name}</Text>
                 <Text style={styles.setInfo}>{set.options.length} options</Text>
 
                 <View style={styles.buttonRow}>
@@ -241,6 +241,8 @@ const DecisionSetManager: React.FC<DecisionSetManagerProps> = ({ decisionSets, o
                     <TouchableOpacity
                       style={[styles.actionButton, styles.primaryButton]}
                       onPress={() => handleActivate(set.id)}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Activate ${set.name}`}
                     >
                       <Text style={[styles.actionButtonText, styles.primaryButtonText]}>Activate</Text>
                     </TouchableOpacity>
@@ -249,6 +251,8 @@ const DecisionSetManager: React.FC<DecisionSetManagerProps> = ({ decisionSets, o
                   <TouchableOpacity
                     style={styles.actionButton}
                     onPress={() => handleEdit(set.id)}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Edit ${set.name}`}
                   >
                     <Text style={styles.actionButtonText}>Edit</Text>
                   </TouchableOpacity>
@@ -256,6 +260,8 @@ const DecisionSetManager: React.FC<DecisionSetManagerProps> = ({ decisionSets, o
                   <TouchableOpacity
                     style={[styles.actionButton, styles.dangerButton]}
                     onPress={() => handleDelete(set.id)}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Delete ${set.name}`}
                   >
                     <Text style={[styles.actionButtonText, styles.dangerButtonText]}>Delete</Text>
                   </TouchableOpacity>
@@ -321,7 +327,7 @@ interface SpinnerSettingsProps {
 const SpinnerSettings: React.FC<SpinnerSettingsProps> = ({ name, options, onSave, onClose }) => {
   const [editingName, setEditingName] = useState(name);
   const [editingOptions, setEditingOptions] = useState<SpinnerOption[]>([...options]);
-  const { colors } = useTheme();
+  const { colors, scaleFont } = useTheme();
 
   const updateOption = (index: number, field: keyof SpinnerOption, value: string | number) => {
     const updated = [...editingOptions];
@@ -385,7 +391,7 @@ const SpinnerSettings: React.FC<SpinnerSettingsProps> = ({ name, options, onSave
       backgroundColor: colors.surface, // Match CommonModal's content background
     },
     label: {
-      fontSize: 16,
+      fontSize: scaleFont(16),
       color: colors.text,
       fontWeight: '600',
       marginBottom: 8,
@@ -442,6 +448,7 @@ const SpinnerSettings: React.FC<SpinnerSettingsProps> = ({ name, options, onSave
                 />
                 <SettingsRemoveButton
                   onPress={() => deleteOption(index)}
+                  accessibilityLabel={`Remove ${option.label || 'option'}`}
                 />
               </View>
             </View>
@@ -481,8 +488,8 @@ export const SpinnerSpark: React.FC<SpinnerSparkProps> = ({
   onComplete
 }) => {
   const { getSparkData, setSparkData } = useSparkStore();
-  const { colors } = useTheme();
-  const commonStyles = createCommonStyles(colors);
+  const { colors, typography, scaleFont } = useTheme();
+  const commonStyles = createCommonStyles(colors, typography);
 
   const styles = StyleSheet.create({
     ...commonStyles,
@@ -492,7 +499,7 @@ export const SpinnerSpark: React.FC<SpinnerSparkProps> = ({
       marginBottom: StyleTokens.spacing.xxl,
     },
     question: {
-      fontSize: StyleTokens.fontSize.lg,
+      fontSize: typography.lg,
       fontWeight: '600',
       color: colors.text,
       textAlign: 'center',
@@ -553,7 +560,7 @@ export const SpinnerSpark: React.FC<SpinnerSparkProps> = ({
     },
     buttonText: {
       color: '#fff',
-      fontSize: 18,
+      fontSize: scaleFont(18),
       fontWeight: 'bold',
       textTransform: 'uppercase',
       letterSpacing: 1,
@@ -574,7 +581,7 @@ export const SpinnerSpark: React.FC<SpinnerSparkProps> = ({
       elevation: 3,
     },
     resultText: {
-      fontSize: 24,
+      fontSize: scaleFont(24),
       fontWeight: 'bold',
       color: colors.primary,
       textAlign: 'center',
@@ -710,7 +717,7 @@ export const SpinnerSpark: React.FC<SpinnerSparkProps> = ({
           <SvgText
             x={textX}
             y={textY}
-            fontSize={segmentAngle < 30 ? "10" : "14"}
+            fontSize={scaleFont(segmentAngle < 30 ? 10 : 14)}
             fill="#333"
             fontWeight="600"
             textAnchor="middle"
@@ -746,11 +753,16 @@ export const SpinnerSpark: React.FC<SpinnerSparkProps> = ({
   return (
     <ScrollView contentContainerStyle={styles.scrollContainer} style={styles.container}>
       <View style={styles.header}>
-        <Text style={styles.title}>🎡 Decision Spinner</Text>
+        <Text style={styles.title} accessibilityRole="header">🎡 Decision Spinner</Text>
         <Text style={styles.question}>{currentQuestion}</Text>
       </View>
 
-      <View style={styles.wheelContainer}>
+      <View
+        style={styles.wheelContainer}
+        accessible
+        accessibilityRole="image"
+        accessibilityLabel={`Wheel with ${options.map(option => option.label).join(', ')}`}
+      >
         {/* Pointer */}
         <View style={styles.pointer} />
 
@@ -770,7 +782,7 @@ export const SpinnerSpark: React.FC<SpinnerSparkProps> = ({
       </View>
 
       {result && (
-        <View style={styles.resultContainer}>
+        <View style={styles.resultContainer} accessibilityLiveRegion="polite">
           <Text style={styles.resultText}>Result: {result}</Text>
         </View>
       )}
@@ -808,6 +820,9 @@ export const SpinnerSpark: React.FC<SpinnerSparkProps> = ({
           style={[styles.button, styles.spinButton]}
           onPress={spin}
           disabled={isSpinning}
+          accessibilityRole="button"
+          accessibilityLabel="Spin the wheel"
+          accessibilityState={{ disabled: isSpinning, busy: isSpinning }}
         >
           <Text style={styles.buttonText}>
             {isSpinning ? 'Spinning...' : 'SPIN!'}
@@ -0,0 +1,49 @@
+import { SparkVoiceIntent } from '../../types/spark';
+import type { DecisionSet, SpinnerOption } from '../SpinnerSpark';
+
+// An option picked at random, in proportion to its weight
+export const pickWeightedOption = (options: SpinnerOption[], random: number = Math.random()): SpinnerOption => {
+  const total = options.reduce((sum, option) => sum + option.weight, 0);
+  let threshold = random * total;
+  for (const option of options) {
+    threshold -= option.weight;
+    if (threshold < 0) return option;
+  }
+  return options[options.length - 1];
+};
+
+// Voice commands for the decision spinner
+export const spinnerVoiceIntents: SparkVoiceIntent[] = [
+  {
+    action: 'spin',
+    description: 'Spin one of the saved decision sets and say where it landed',
+    keywords: ['spin', 'decide', 'pick'],
+    params: {
+      set: { type: 'string', description: 'decision set name', required: true },
+    },
+    examples: [
+      { text: 'Spin the dinner wheel', params: { set: 'Dinner' } },
+      { text: 'Spin where should we travel', params: { set: 'Where should we travel' } },
+    ],
+    phrases: [
+      'spin [the|my] {set} [wheel|spinner]',
+      '(spin|use) [the] (wheel|spinner) (for|on) {set}',
+      'help me (decide|pick) {set}',
+    ],
+    // Only answers; the wheel's data is left unchanged
+    handler: ({ set: setName }, data) => {
+      const sets: DecisionSet[] = data.decisionSets || [];
+      const name = setName.toLowerCase().replace(/\s+wheel$/, '');
+      const decisionSet = sets.find(s => s.name.trim().toLowerCase() === name);
+
+      if (!decisionSet) {
+        throw new Error(`No spinner set called "${setName}".`);
+      }
+      if (decisionSet.options.length === 0) {
+        throw new Error(`"${decisionSet.name}" has no options to spin.`);
+      }
+
+      return { message: `🎡 ${decisionSet.name}: ${pickWeightedOption(decisionSet.options).label}` };
+    },
+  },
+];
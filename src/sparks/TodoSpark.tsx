@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, ScrollView, TextInput, Alert } from 'react-native';
-import { useSparkStore } from '../store';
+import { useSparkData, useSparkStore } from '../store';
 import { HapticFeedback } from '../utils/haptics';
 import { useTheme } from '../contexts/ThemeContext';
 import { createCommonStyles } from '../styles/CommonStyles';
@@ -18,9 +18,15 @@ import {
 import { FeedbackModal } from '../components/FeedbackModal';
 import { FeedbackService } from '../services/FeedbackService';
 import { ServiceFactory } from '../services/ServiceFactory';
-
-interface TodoItem {
-  id: number;
+import { SparkEventBus } from '../services/SparkEventBus';
+import { TrashService } from '../services/TrashService';
+import { useTranslation, formatLocaleDate } from '../i18n';
+import { parseTaskText } from './TodoSpark/dataSchema';
+import { defineSparkData, validators as v } from '../utils/dataValidation';
+import { generateId } from '../utils/idUtils';
+
+export interface TodoItem {
+  id: string;
   text: string;
   completed: boolean;
   dueDate: string; // ISO date string (YYYY-MM-DD)
@@ -33,38 +39,66 @@ interface TodoItem {
   sortTimeMs?: number;
 }
 
+interface TodoSparkData {
+  todos: TodoItem[];
+  selectedCategory: string | null;
+}
+
+// Shape checked on every read; half-written todos are quarantined
+export const todoDataSpec = defineSparkData<TodoSparkData>({
+  sparkId: 'todo',
+  fields: {
+    todos: v.records(
+      v.object({
+        id: v.string(),
+        text: v.string(),
+        displayText: v.string(),
+        dueDate: v.string(),
+        completed: v.withDefault(v.boolean(), false),
+        createdDate: v.withDefault(v.string(), ''),
+        completedDate: v.optional(v.string()),
+        category: v.optional(v.string()),
+        sortTimeMs: v.optional(v.number()),
+      })
+    ),
+    selectedCategory: v.nullable(v.string()),
+  },
+  defaults: { todos: [], selectedCategory: null },
+});
+
 interface TodoSparkProps {
   showSettings?: boolean;
   onCloseSettings?: () => void;
   onStateChange?: (state: any) => void;
   onComplete?: (result: any) => void;
+  todoId?: string; // Open this task for editing (from search)
 }
 
 // Settings Component
 const TodoSettings: React.FC<{
   onClose: () => void;
 }> = ({ onClose }) => {
+  const { t } = useTranslation();
   return (
     <SettingsContainer>
       <SettingsScrollView>
         <SettingsHeader
-          title="Todo List Settings"
-          subtitle="Manage your task organization preferences"
+          title={t('todo.settingsTitle')}
+          subtitle={t('todo.settingsSubtitle')}
           icon="📝"
           sparkId="todo"
         />
 
         <SettingsFeedbackSection sparkName="Todo List" sparkId="todo" />
 
-        <SettingsSection title="About">
+        <SettingsSection title={t('todo.about')}>
           <View style={{ padding: 16, backgroundColor: 'transparent' }}>
             <SettingsText variant="body">
-              Todo List helps you organize tasks with due dates and categories.{'\n'}
-              Add tasks, set deadlines, and track your progress.
+              {t('todo.aboutText')}
             </SettingsText>
           </View>
         </SettingsSection>
-        <SettingsButton title="Close" variant="secondary" onPress={onClose} />
+        <SettingsButton title={t('common.close')} variant="secondary" onPress={onClose} />
       </SettingsScrollView>
     </SettingsContainer>
   );
@@ -74,11 +108,13 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
   showSettings = false,
   onCloseSettings,
   onStateChange,
-  onComplete
+  onComplete,
+  todoId
 }) => {
-  const getSparkData = useSparkStore(state => state.getSparkData);
-  const setSparkData = useSparkStore(state => state.setSparkData);
-  const { colors } = useTheme();
+  const [savedData, setSavedData] = useSparkData(todoDataSpec);
+  const { t, locale } = useTranslation();
+  const checkpointSparkData = useSparkStore(state => state.checkpointSparkData);
+  const { colors, typography, scaleFont } = useTheme();
 
   const [todos, setTodos] = useState<TodoItem[]>([]);
   const [newTaskText, setNewTaskText] = useState('');
@@ -99,37 +135,21 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
   const [sessionStartTime, setSessionStartTime] = useState<number>(0);
   const [completedActions, setCompletedActions] = useState<string[]>([]);
 
-  // Load saved data on mount
+  // Load saved data on mount (already migrated and validated)
   useEffect(() => {
-    const savedData = getSparkData('todo');
-    if (savedData.todos) {
-      // Migrate existing todos to include displayText and category
-      const migratedTodos = savedData.todos.map((todo: any) => {
-        let newTodo = { ...todo };
-
-        // Ensure category is lowercase if present
-        if (newTodo.category) {
-          newTodo.category = newTodo.category.toLowerCase();
-        }
+    setTodos(savedData.todos);
+    setSelectedCategory(savedData.selectedCategory);
+    setDataLoaded(true);
+  }, []);
 
-        if (!newTodo.displayText) {
-          const { category, displayText } = parseTaskText(newTodo.text);
-          newTodo = {
-            ...newTodo,
-            displayText,
-            category: category,
-          };
-        }
-        return newTodo;
-      });
-      setTodos(migratedTodos);
-    }
-    // Restore selected category if it was saved
-    if (savedData.selectedCategory !== undefined) {
-      setSelectedCategory(savedData.selectedCategory);
+  // Open the task a search result points at
+  useEffect(() => {
+    if (!dataLoaded || !todoId) return;
+    const task = todos.find(task => String(task.id) === todoId);
+    if (task) {
+      openEditModal(task);
     }
-    setDataLoaded(true);
-  }, [getSparkData]);
+  }, [dataLoaded, todoId]);
 
   // Initialize session tracking
   useEffect(() => {
@@ -151,24 +171,16 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
   // Save data whenever todos change
   useEffect(() => {
     if (dataLoaded) {
-      const savedData = getSparkData('todo');
-      setSparkData('todo', {
-        ...savedData,
-        todos,
-      });
+      setSavedData({ todos });
     }
-  }, [todos, dataLoaded, setSparkData, getSparkData]);
+  }, [todos, dataLoaded, setSavedData]);
 
   // Save selected category whenever it changes
   useEffect(() => {
     if (dataLoaded) {
-      const savedData = getSparkData('todo');
-      setSparkData('todo', {
-        ...savedData,
-        selectedCategory,
-      });
+      setSavedData({ selectedCategory });
     }
-  }, [selectedCategory, dataLoaded, setSparkData, getSparkData]);
+  }, [selectedCategory, dataLoaded, setSavedData]);
 
   // Pre-fill input with category prefix when category is selected (only if input is empty)
   useEffect(() => {
@@ -177,26 +189,6 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
     }
   }, [selectedCategory]);
 
-  // Helper functions for category parsing
-  const parseTaskText = (text: string) => {
-    const colonIndex = text.indexOf(':');
-    if (colonIndex === -1 || colonIndex === 0) {
-      // No category or colon at start
-      return {
-        category: undefined,
-        displayText: text.trim()
-      };
-    }
-
-    const category = text.substring(0, colonIndex).trim().toLowerCase();
-    const displayText = text.substring(colonIndex + 1).trim();
-
-    return {
-      category: category || undefined,
-      displayText: displayText || text.trim()
-    };
-  };
-
   // Helper functions for date handling
   const getTodayDateString = () => {
     return new Date().toISOString().split('T')[0];
@@ -228,14 +220,14 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
     const isTomorrow = dateString === getTomorrowDateString();
 
     // Always show the actual date, with optional context
-    const formattedDate = date.toLocaleDateString('en-US', {
+    const formattedDate = formatLocaleDate(date, {
       weekday: 'short',
       month: 'short',
       day: 'numeric'
-    });
+    }, locale);
 
-    if (isToday) return `${formattedDate} (today)`;
-    if (isTomorrow) return `${formattedDate} (tomorrow)`;
+    if (isToday) return t('todo.dueToday', { date: formattedDate });
+    if (isTomorrow) return t('todo.dueTomorrow', { date: formattedDate });
     return formattedDate;
   };
 
@@ -249,7 +241,7 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
     }
 
     if (!newTaskText.trim()) {
-      Alert.alert('Error', 'Please enter a task');
+      Alert.alert(t('common.error'), t('todo.enterTask'));
       return;
     }
 
@@ -261,13 +253,13 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
     // Prevent duplicate tasks with same display text
     const existingTask = todos.find(task => task.displayText === displayText && !task.completed);
     if (existingTask) {
-      Alert.alert('Notice', 'This task already exists');
+      Alert.alert(t('todo.notice'), t('todo.alreadyExists'));
       setIsAddingTask(false);
       return;
     }
 
     const newTask: TodoItem = {
-      id: Math.max(...todos.map(t => t.id), 0) + 1,
+      id: generateId(),
       text: taskText,
       displayText,
       category,
@@ -302,8 +294,9 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
   };
 
   // Toggle task completion
-  const toggleTask = (id: number) => {
+  const toggleTask = (id: string) => {
     const today = getTodayDateString();
+    const toggled = todos.find(task => task.id === id);
 
     setTodos(prev => prev.map(task => {
       if (task.id === id) {
@@ -319,23 +312,30 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
       return task;
     }));
 
+    if (toggled && !toggled.completed) {
+      SparkEventBus.publish('todo.completed', 'todo', { taskId: toggled.id, text: toggled.text });
+    }
     HapticFeedback.light();
   };
 
-  // Handle long press for editing
-  const handleLongPress = (task: TodoItem) => {
+  const openEditModal = (task: TodoItem) => {
     setEditingTask(task);
     setEditText(task.text);
     setSelectedDate(task.dueDate);
     setEditCompleted(task.completed);
     setEditModalVisible(true);
+  };
+
+  // Handle long press for editing
+  const handleLongPress = (task: TodoItem) => {
+    openEditModal(task);
     HapticFeedback.medium();
   };
 
   // Save edited task
   const saveEditedTask = () => {
     if (!editingTask || !editText.trim()) {
-      Alert.alert('Error', 'Task text cannot be empty');
+      Alert.alert(t('common.error'), t('todo.emptyText'));
       return;
     }
 
@@ -365,7 +365,7 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
   // Save edited task with specific date (for quick date selection)
   const saveEditedTaskWithDate = (dateString: string) => {
     if (!editingTask || !editText.trim()) {
-      Alert.alert('Error', 'Task text cannot be empty');
+      Alert.alert(t('common.error'), t('todo.emptyText'));
       return;
     }
 
@@ -396,15 +396,16 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
     if (!editingTask) return;
 
     Alert.alert(
-      'Delete Task',
-      'Are you sure you want to delete this task?',
+      t('todo.deleteTitle'),
+      t('todo.deleteMessage'),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         {
-          text: 'Delete',
+          text: t('common.delete'),
           style: 'destructive',
           onPress: () => {
-            setTodos(prev => prev.filter(task => task.id !== editingTask.id));
+            checkpointSparkData('todo', `Delete "${editingTask.displayText}"`);
+            setTodos(TrashService.removeItem('todo', 'todos', todos, editingTask.id, editingTask.displayText));
             setEditModalVisible(false);
             setEditingTask(null);
             HapticFeedback.light();
@@ -546,7 +547,7 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
     });
   };
 
-  const commonStyles = createCommonStyles(colors);
+  const commonStyles = createCommonStyles(colors, typography);
   const styles = StyleSheet.create({
     ...commonStyles,
     header: {
@@ -593,7 +594,7 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
       borderColor: colors.primary,
     },
     categoryChipText: {
-      fontSize: 14,
+      fontSize: scaleFont(14),
       fontWeight: '500',
       color: colors.text,
       textTransform: 'capitalize',
@@ -639,14 +640,14 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
     },
     checkmark: {
       color: '#fff',
-      fontSize: 16,
+      fontSize: scaleFont(16),
       fontWeight: 'bold',
     },
     todoContent: {
       flex: 1,
     },
     todoText: {
-      fontSize: 16,
+      fontSize: scaleFont(16),
       color: colors.text,
       marginBottom: 2,
     },
@@ -655,7 +656,7 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
       color: colors.textSecondary,
     },
     dueDateText: {
-      fontSize: 12,
+      fontSize: scaleFont(12),
       color: colors.textSecondary,
     },
     emptyState: {
@@ -663,7 +664,7 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
       paddingVertical: 40,
     },
     emptyText: {
-      fontSize: 16,
+      fontSize: scaleFont(16),
       color: colors.textSecondary,
       textAlign: 'center',
     },
@@ -682,7 +683,7 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
       maxWidth: 400,
     },
     modalTitle: {
-      fontSize: 20,
+      fontSize: scaleFont(20),
       fontWeight: 'bold',
       color: colors.text,
       marginBottom: 20,
@@ -694,7 +695,7 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
       borderWidth: 1,
       borderRadius: 8,
       padding: 12,
-      fontSize: 16,
+      fontSize: scaleFont(16),
       color: colors.text,
       marginBottom: 20,
     },
@@ -702,13 +703,13 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
       marginBottom: 20,
     },
     quickDateTitle: {
-      fontSize: 16,
+      fontSize: scaleFont(16),
       fontWeight: '600',
       color: colors.text,
       marginBottom: 12,
     },
     manualDateLabel: {
-      fontSize: 14,
+      fontSize: scaleFont(14),
       fontWeight: '500',
       color: colors.text,
       marginTop: 12,
@@ -730,7 +731,7 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
     },
     quickDateButtonText: {
       color: colors.text,
-      fontSize: 14,
+      fontSize: scaleFont(14),
       fontWeight: '500',
     },
     selectedDateButtonText: {
@@ -755,12 +756,12 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
     },
     cancelButtonText: {
       color: colors.text,
-      fontSize: 14,
+      fontSize: scaleFont(14),
       fontWeight: '600',
     },
     saveButtonText: {
       color: '#fff',
-      fontSize: 14,
+      fontSize: scaleFont(14),
       fontWeight: '600',
     },
     deleteButton: {
@@ -773,7 +774,7 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
     },
     deleteButtonText: {
       color: '#fff',
-      fontSize: 14,
+      fontSize: scaleFont(14),
       fontWeight: 'bold',
     },
     toggleButton: {
@@ -788,7 +789,7 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
     },
     toggleButtonText: {
       color: colors.primary,
-      fontSize: 14,
+      fontSize: scaleFont(14),
       fontWeight: '600',
     },
     // Done toggle styles
@@ -800,7 +801,7 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
       paddingHorizontal: 4,
     },
     doneToggleLabel: {
-      fontSize: 16,
+      fontSize: scaleFont(16),
       fontWeight: '600',
       color: colors.text,
     },
@@ -819,7 +820,7 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
     },
     doneToggleText: {
       color: 'transparent',
-      fontSize: 16,
+      fontSize: scaleFont(16),
       fontWeight: 'bold',
     },
     doneToggleTextActive: {
@@ -838,8 +839,8 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.scrollContainer}>
       <View style={styles.header}>
-        <Text style={styles.title}>📝 Todo List</Text>
-        <Text style={styles.subtitle}>Stay organized and get things done</Text>
+        <Text style={styles.title} accessibilityRole="header">{t('todo.title')}</Text>
+        <Text style={styles.subtitle}>{t('todo.subtitle')}</Text>
       </View>
 
       {/* Add Task Section */}
@@ -847,8 +848,9 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
         <TextInput
           ref={taskInputRef}
           style={styles.taskInput}
-          placeholder="Add a new task (eg, category: task)"
+          placeholder={t('todo.addPlaceholder')}
           placeholderTextColor={colors.textSecondary}
+          accessibilityLabel={t('todo.newTask')}
           value={newTaskText}
           onChangeText={setNewTaskText}
           onSubmitEditing={addTask}
@@ -864,8 +866,9 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
               <TouchableOpacity
                 style={[styles.categoryChip, styles.selectedCategoryChip]}
                 onPress={() => handleCategoryPress(selectedCategory)}
+                accessibilityRole="button"
               >
-                <Text style={styles.selectedCategoryChipText}>Show All</Text>
+                <Text style={styles.selectedCategoryChipText}>{t('todo.showAll')}</Text>
               </TouchableOpacity>
             )}
             {getCategoryInfos()
@@ -880,6 +883,8 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
                     selectedCategory === name && styles.selectedCategoryChip
                   ]}
                   onPress={() => handleCategoryPress(name)}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: selectedCategory === name }}
                 >
                   <Text style={[
                     styles.categoryChipText,
@@ -897,13 +902,13 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
       {/* Todos Section */}
       <View style={styles.todosSection}>
         <Text style={styles.sectionTitle}>
-          Tasks ({filteredTodos.filter(t => !t.completed).length} pending)
+          {t('todo.tasks', { count: filteredTodos.filter(todo => !todo.completed).length })}
         </Text>
 
         {filteredTodos.length === 0 ? (
           <View style={styles.emptyState}>
             <Text style={styles.emptyText}>
-              No tasks yet. Add one above to get started! 🚀
+              {t('todo.empty')}
             </Text>
           </View>
         ) : (
@@ -922,6 +927,14 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
               ]}
               onPress={() => toggleTask(todo.id)}
               onLongPress={() => handleLongPress(todo)}
+              accessibilityRole="checkbox"
+              accessibilityState={{ checked: todo.completed }}
+              accessibilityLabel={`${todo.displayText}, ${formatRelativeDate(todo.dueDate)}${todo.category ? `, ${todo.category}` : ''}`}
+              accessibilityHint={t('todo.itemHint')}
+              accessibilityActions={[{ name: 'longpress', label: t('todo.editTitle') }]}
+              onAccessibilityAction={(event) => {
+                if (event.nativeEvent.actionName === 'longpress') handleLongPress(todo);
+              }}
             >
               <View style={[styles.checkbox, todo.completed && styles.checkedBox]}>
                 {todo.completed && <Text style={styles.checkmark}>✓</Text>}
@@ -947,9 +960,10 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
               setShowFutureTodos(!showFutureTodos);
               HapticFeedback.light();
             }}
+            accessibilityRole="button"
           >
             <Text style={styles.toggleButtonText}>
-              {showFutureTodos ? "Today's Todos" : "Show Future Todos"}
+              {showFutureTodos ? t('todo.showToday') : t('todo.showFuture')}
             </Text>
           </TouchableOpacity>
         )}
@@ -962,9 +976,10 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
               setShowOlderDoneTodos(!showOlderDoneTodos);
               HapticFeedback.light();
             }}
+            accessibilityRole="button"
           >
             <Text style={styles.toggleButtonText}>
-              {showOlderDoneTodos ? "Hide Older Done" : "Show Older Done Todos"}
+              {showOlderDoneTodos ? t('todo.hideOlderDone') : t('todo.showOlderDone')}
             </Text>
           </TouchableOpacity>
         )}
@@ -973,35 +988,39 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
       {/* Edit Task Modal */}
       <CommonModal
         visible={editModalVisible}
-        title="Edit Todo"
+        title={t('todo.editTitle')}
         onClose={() => setEditModalVisible(false)}
         footer={
           <View style={styles.modalButtons}>
             <TouchableOpacity
               style={[styles.modalButton, styles.cancelButton]}
               onPress={() => setEditModalVisible(false)}
+              accessibilityRole="button"
             >
-              <Text style={styles.cancelButtonText}>Cancel</Text>
+              <Text style={styles.cancelButtonText}>{t('common.cancel')}</Text>
             </TouchableOpacity>
             <TouchableOpacity
               style={[styles.modalButton, { backgroundColor: colors.error }]}
               onPress={deleteEditedTask}
+              accessibilityRole="button"
             >
-              <Text style={styles.saveButtonText}>Delete</Text>
+              <Text style={styles.saveButtonText}>{t('common.delete')}</Text>
             </TouchableOpacity>
             <TouchableOpacity
               style={[styles.modalButton, styles.saveButton]}
               onPress={saveEditedTask}
+              accessibilityRole="button"
             >
-              <Text style={styles.saveButtonText}>Save</Text>
+              <Text style={styles.saveButtonText}>{t('common.save')}</Text>
             </TouchableOpacity>
           </View>
         }
       >
         <TextInput
           style={styles.modalInput}
-          placeholder="Task text"
+          placeholder={t('todo.taskPlaceholder')}
           placeholderTextColor={colors.textSecondary}
+          accessibilityLabel={t('todo.taskPlaceholder')}
           value={editText}
           onChangeText={setEditText}
           multiline={true}
@@ -1017,10 +1036,13 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
 
         {/* Done Toggle */}
         <View style={styles.doneToggleSection}>
-          <Text style={styles.doneToggleLabel}>Done</Text>
+          <Text style={styles.doneToggleLabel}>{t('todo.done')}</Text>
           <TouchableOpacity
             style={[styles.doneToggle, editCompleted && styles.doneToggleActive]}
             onPress={() => setEditCompleted(!editCompleted)}
+            accessibilityRole="checkbox"
+            accessibilityLabel={t('todo.done')}
+            accessibilityState={{ checked: editCompleted }}
           >
             <Text style={[styles.doneToggleText, editCompleted && styles.doneToggleTextActive]}>
               {editCompleted ? '✓' : ''}
@@ -1029,7 +1051,7 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
         </View>
 
         <View style={styles.quickDateSection}>
-          <Text style={styles.quickDateTitle}>Due Date</Text>
+          <Text style={styles.quickDateTitle}>{t('todo.dueDate')}</Text>
           <View style={styles.quickDateButtons}>
             {(() => {
               const today = new Date();
@@ -1037,17 +1059,17 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
 
               // Build base options
               const baseOptions = [
-                { label: 'Today', days: 0 },
-                { label: '+1 Day', days: 1 },
-                { label: '+2 Days', days: 2 },
-                { label: '+3 Days', days: 3 },
-                { label: '+1 Week', days: 7 },
+                { label: t('todo.today'), days: 0 },
+                { label: t('todo.inDays', { count: 1 }), days: 1 },
+                { label: t('todo.inDays', { count: 2 }), days: 2 },
+                { label: t('todo.inDays', { count: 3 }), days: 3 },
+                { label: t('todo.inAWeek'), days: 7 },
               ];
 
               // Add "Next Monday" if today is not Monday
               if (dayOfWeek !== 1) {
                 const daysUntilMonday = (8 - dayOfWeek) % 7;
-                baseOptions.push({ label: 'Next Monday', days: daysUntilMonday });
+                baseOptions.push({ label: t('todo.nextMonday'), days: daysUntilMonday });
               }
 
               return baseOptions.map((option) => {
@@ -1064,6 +1086,8 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
                       isSelected && styles.selectedDateButton,
                     ]}
                     onPress={() => selectQuickDate(option.days)}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected: isSelected }}
                   >
                     <Text
                       style={[
@@ -1080,11 +1104,12 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
           </View>
 
           {/* Manual Date Input */}
-          <Text style={styles.manualDateLabel}>Or enter date manually (YYYY-MM-DD):</Text>
+          <Text style={styles.manualDateLabel}>{t('todo.manualDate')}</Text>
           <TextInput
             style={styles.modalInput}
             placeholder="2024-12-25"
             placeholderTextColor={colors.textSecondary}
+            accessibilityLabel={t('todo.manualDate')}
             value={selectedDate}
             onChangeText={setSelectedDate}
           />
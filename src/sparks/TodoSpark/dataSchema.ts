@@ -0,0 +1,55 @@
+// Persisted data versions for TodoSpark
+import { SparkDataSchema } from '../../types/spark';
+
+// Helper functions for category parsing
+export const parseTaskText = (text: string) => {
+  const colonIndex = text.indexOf(':');
+  if (colonIndex === -1 || colonIndex === 0) {
+    // No category or colon at start
+    return {
+      category: undefined,
+      displayText: text.trim()
+    };
+  }
+
+  const category = text.substring(0, colonIndex).trim().toLowerCase();
+  const displayText = text.substring(colonIndex + 1).trim();
+
+  return {
+    category: category || undefined,
+    displayText: displayText || text.trim()
+  };
+};
+
+export const todoDataSchema: SparkDataSchema = {
+  version: 2,
+  migrations: [
+    // v0 -> v1: lowercase categories and split displayText/category out of text
+    (data) => ({
+      ...data,
+      todos: (data.todos || []).map((todo: any) => {
+        let newTodo = { ...todo };
+
+        if (newTodo.category) {
+          newTodo.category = newTodo.category.toLowerCase();
+        }
+
+        if (!newTodo.displayText) {
+          const { category, displayText } = parseTaskText(newTodo.text || '');
+          newTodo = {
+            ...newTodo,
+            displayText,
+            category: category,
+          };
+        }
+        return newTodo;
+      }),
+    }),
+    // v1 -> v2: string ids, so tasks added offline on two devices can't share one.
+    // Existing ids keep their value so already-synced tasks still match up.
+    (data) => ({
+      ...data,
+      todos: (data.todos || []).map((todo: any) => ({ ...todo, id: String(todo.id) })),
+    }),
+  ],
+};
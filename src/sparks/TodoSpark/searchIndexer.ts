@@ -0,0 +1,11 @@
+import { SparkSearchIndexer } from '../../types/spark';
+import type { TodoItem } from '../TodoSpark';
+
+// Global search entries for todos
+export const todoSearchIndexer: SparkSearchIndexer = (data) =>
+  (data.todos || []).map((todo: TodoItem) => ({
+    id: String(todo.id),
+    title: todo.displayText || todo.text,
+    subtitle: [todo.category, todo.completed ? 'Done' : `Due ${todo.dueDate}`].filter(Boolean).join(' · '),
+    params: { todoId: String(todo.id) },
+  }));
@@ -0,0 +1,248 @@
+import { SparkIntentParam, SparkVoiceIntent } from '../../types/spark';
+import { formatDate, toLocalDateString } from '../../utils/dateUtils';
+import { findSpokenItem } from '../../utils/itemMatching';
+import { generateId } from '../../utils/idUtils';
+import type { TodoItem } from '../TodoSpark';
+
+const ITEM_PARAMS: Record<string, SparkIntentParam> = {
+  item: { type: 'string', description: 'words from the task text', required: true },
+  itemId: { type: 'string', description: 'id of the task', hidden: true },
+};
+
+const findTodo = (todos: TodoItem[], params: Record<string, any>) =>
+  findSpokenItem(todos, params, {
+    noun: 'todo',
+    getId: todo => todo.id,
+    getText: todo => todo.displayText,
+    describe: todo => `${todo.displayText} (due ${todo.dueDate})`,
+  });
+
+// "Buy milk, Call Mom and 2 more", short enough to read aloud
+const listTodos = (todos: TodoItem[], max = 3): string => {
+  const names = todos.slice(0, max).map(todo => todo.displayText);
+  if (todos.length > max) {
+    return `${names.join(', ')} and ${todos.length - max} more`;
+  }
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names.join('');
+};
+
+const countTodos = (count: number): string => `${count} ${count === 1 ? 'todo' : 'todos'}`;
+
+// Voice commands, deep links and automations for the todo list
+export const todoVoiceIntents: SparkVoiceIntent[] = [
+  {
+    action: 'add',
+    aliases: ['create'],
+    description: 'Add a task',
+    keywords: ['add todo', 'remind me', 'buy', 'task'],
+    params: {
+      text: { type: 'string', description: 'task text', required: true, multiple: true },
+      category: { type: 'string', description: 'category such as Work' },
+      dueDate: { type: 'date', description: 'due date, today if not said' },
+    },
+    examples: [
+      { text: 'Add a todo to buy milk', params: { text: 'Buy milk' } },
+      { text: 'Remind me to call Mom tomorrow', params: { text: 'Call Mom', dueDate: 'tomorrow' } },
+      { text: 'Add a todo to Work category to finish report', params: { text: 'Finish report', category: 'Work' } },
+    ],
+    phrases: [
+      '(add|create|new) [a|an] (todo|to-do|to do|task) to [the] {category} category to {text}',
+      '(add|create|new) [a|an] (todo|to-do|to do|task) [to|for] {text} (in|to|under) [the] {category} category',
+      '(add|create|new) [a|an] (todo|to-do|to do|task) [to|for] {text}',
+      '(add|put) {text} (to|on) [my|the] (todo|to-do|to do|task) [list]',
+      'remind me to {text}',
+    ],
+    handler: ({ text, category, dueDate }, data, now) => {
+      const todos: TodoItem[] = data.todos || [];
+
+      const newTodo: TodoItem = {
+        id: generateId(),
+        text,
+        displayText: text,
+        category,
+        completed: false,
+        dueDate: dueDate || toLocalDateString(now),
+        createdDate: now.toISOString(),
+        sortTimeMs: now.getTime(),
+      };
+
+      return {
+        data: { ...data, todos: [...todos, newTodo], lastUpdated: now.toISOString() },
+        message: `Added todo: "${text}"`,
+      };
+    },
+  },
+  {
+    action: 'complete',
+    aliases: ['done', 'finish'],
+    description: 'Mark a task done',
+    keywords: ['done', 'finished', 'complete', 'check off'],
+    params: ITEM_PARAMS,
+    examples: [
+      { text: 'Mark buy milk done', params: { item: 'buy milk' } },
+      { text: 'I finished the report todo', params: { item: 'the report' } },
+    ],
+    phrases: [
+      '(mark|check) [off] [the|my] {item} [todo|task] [as] (done|complete|completed|finished)',
+      '(check off|cross off|tick off|complete|finish) [the|my] {item} (todo|task)',
+      'i (finished|did|completed) [the|my] {item} (todo|task)',
+    ],
+    handler: (params, data, now) => {
+      const todos: TodoItem[] = data.todos || [];
+      const found = findTodo(todos.filter(todo => !todo.completed), params);
+      if ('result' in found) {
+        return found.result;
+      }
+
+      const today = toLocalDateString(now);
+      return {
+        data: {
+          ...data,
+          todos: todos.map(todo =>
+            todo.id === found.item.id
+              ? { ...todo, completed: true, completedDate: today, dueDate: today, sortTimeMs: now.getTime() }
+              : todo
+          ),
+          lastUpdated: now.toISOString(),
+        },
+        message: `Completed todo: "${found.item.displayText}"`,
+        events: [{ type: 'todo.completed', payload: { taskId: found.item.id, text: found.item.text } }],
+      };
+    },
+  },
+  {
+    action: 'move',
+    aliases: ['reschedule'],
+    description: 'Change when a task is due',
+    keywords: ['move', 'reschedule', 'postpone', 'push'],
+    params: {
+      ...ITEM_PARAMS,
+      dueDate: { type: 'date', description: 'new due date', required: true },
+    },
+    examples: [
+      { text: 'Move dentist todo to Friday', params: { item: 'dentist', dueDate: 'friday' } },
+    ],
+    phrases: [
+      '(move|reschedule|push|postpone) [the|my] {item} [todo|task] to {dueDate}',
+    ],
+    handler: (params, data, now) => {
+      const todos: TodoItem[] = data.todos || [];
+      const found = findTodo(todos, params);
+      if ('result' in found) {
+        return found.result;
+      }
+
+      return {
+        data: {
+          ...data,
+          todos: todos.map(todo =>
+            todo.id === found.item.id ? { ...todo, dueDate: params.dueDate, sortTimeMs: now.getTime() } : todo
+          ),
+          lastUpdated: now.toISOString(),
+        },
+        message: `Moved "${found.item.displayText}" to ${params.dueDate}`,
+      };
+    },
+  },
+  {
+    action: 'update',
+    aliases: ['rename', 'edit'],
+    description: 'Change the text of a task',
+    keywords: ['rename', 'change', 'edit'],
+    params: {
+      ...ITEM_PARAMS,
+      text: { type: 'string', description: 'new task text', required: true },
+    },
+    examples: [
+      { text: 'Rename the milk todo to buy oat milk', params: { item: 'the milk', text: 'Buy oat milk' } },
+    ],
+    phrases: [
+      '(rename|change|edit) [the|my] {item} (todo|task) to {text}',
+    ],
+    handler: (params, data, now) => {
+      const todos: TodoItem[] = data.todos || [];
+      const found = findTodo(todos, params);
+      if ('result' in found) {
+        return found.result;
+      }
+
+      return {
+        data: {
+          ...data,
+          todos: todos.map(todo =>
+            todo.id === found.item.id
+              ? { ...todo, text: params.text, displayText: params.text, sortTimeMs: now.getTime() }
+              : todo
+          ),
+          lastUpdated: now.toISOString(),
+        },
+        message: `Renamed "${found.item.displayText}" to "${params.text}"`,
+      };
+    },
+  },
+  {
+    action: 'delete',
+    aliases: ['remove'],
+    description: 'Delete a task',
+    keywords: ['delete', 'remove'],
+    params: ITEM_PARAMS,
+    examples: [
+      { text: 'Delete the dentist todo', params: { item: 'the dentist' } },
+    ],
+    phrases: [
+      '(delete|remove) [the|my] {item} (todo|task)',
+      '(delete|remove|take) {item} (from|off) [my|the] (todo|to-do|to do|task) [list]',
+    ],
+    handler: (params, data, now) => {
+      const todos: TodoItem[] = data.todos || [];
+      const found = findTodo(todos, params);
+      if ('result' in found) {
+        return found.result;
+      }
+
+      return {
+        data: { ...data, todos: todos.filter(todo => todo.id !== found.item.id), lastUpdated: now.toISOString() },
+        message: `Deleted todo: "${found.item.displayText}"`,
+        trashed: [{ collection: 'todos', item: found.item, label: found.item.displayText }],
+      };
+    },
+  },
+  {
+    action: 'query',
+    description: 'Say which tasks are due on a day',
+    keywords: ['how many todos', "what's due", 'on my todo list'],
+    params: {
+      dueDate: { type: 'date', description: 'day the tasks are due, today if not said' },
+    },
+    examples: [
+      { text: 'How many todos are due today?', params: {} },
+      { text: "What's on my todo list for tomorrow?", params: { dueDate: 'tomorrow' } },
+    ],
+    phrases: [
+      'how many (todos|to-dos|to dos|tasks) (are|do i have) [left] [due] [{dueDate}]',
+      "(what's|what is) (due|on my (todo|to-do|to do|task) list) [for|on] [{dueDate}]",
+      'what (todos|to-dos|to dos|tasks) (are|do i have) [due] [{dueDate}]',
+    ],
+    handler: ({ dueDate }, data, now) => {
+      const today = toLocalDateString(now);
+      const date = dueDate || today;
+      const open = ((data.todos || []) as TodoItem[]).filter(todo => !todo.completed);
+      const due = open.filter(todo => todo.dueDate === date);
+      // Like the spark's today view, today's answer also owns up to anything overdue
+      const overdue = date === today ? open.filter(todo => todo.dueDate < today) : [];
+
+      let day = `on ${formatDate(date)}`;
+      if (date === today) {
+        day = 'today';
+      } else if (date === toLocalDateString(new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1))) {
+        day = 'tomorrow';
+      }
+
+      let message = due.length > 0 ? `${countTodos(due.length)} due ${day}: ${listTodos(due)}.` : `Nothing due ${day}.`;
+      if (overdue.length > 0) {
+        message += ` ${countTodos(overdue.length)} overdue: ${listTodos(overdue)}.`;
+      }
+      return { message };
+    },
+  },
+];
@@ -2,6 +2,7 @@ import React, { useState, useEffect, useRef } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, ScrollView, TextInput, Alert, Modal } from 'react-native';
 import { useSparkStore } from '../store';
 import { HapticFeedback } from '../utils/haptics';
+import { generateId } from '../utils/idUtils';
 import { useTheme } from '../contexts/ThemeContext';
 import {
   SettingsContainer,
@@ -19,8 +20,8 @@ import {
 import { CommonModal } from '../components/CommonModal';
 import { createCommonStyles } from '../styles/CommonStyles';
 
-interface ToviewItem {
-  id: number;
+export interface ToviewItem {
+  id: string;
   text: string;
   completed: boolean;
   viewDate: string; // ISO date string (YYYY-MM-DD)
@@ -44,6 +45,8 @@ interface ToviewSparkProps {
   onCloseSettings?: () => void;
   onStateChange?: (state: any) => void;
   onComplete?: (result: any) => void;
+  category?: string; // Initial list filter, e.g. "Movie" or "@Sam" (from a deep link)
+  toviewId?: string; // Open this item for editing (from search)
 }
 
 // Dropdown Component
@@ -326,16 +329,18 @@ const ToviewSpark: React.FC<ToviewSparkProps> = ({
   showSettings = false,
   onCloseSettings,
   onStateChange,
-  onComplete
+  onComplete,
+  category,
+  toviewId
 }) => {
   const { colors } = useTheme();
   const { getSparkData, setSparkData } = useSparkStore();
   const [toviews, setToviews] = useState<ToviewItem[]>([]);
   const [newToviewText, setNewToviewText] = useState('');
-  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
   const [editingText, setEditingText] = useState('');
   // Always show future toviews - no toggle needed
-  const [filterCategory, setFilterCategory] = useState<string | null>(null);
+  const [filterCategory, setFilterCategory] = useState<string | null>(category || null);
   const [showEditModal, setShowEditModal] = useState(false);
   const [editingItem, setEditingItem] = useState<ToviewItem | null>(null);
   const [editingViewDate, setEditingViewDate] = useState('');
@@ -357,11 +362,16 @@ const ToviewSpark: React.FC<ToviewSparkProps> = ({
       const data = await getSparkData('toview');
       if (data && data.toviews) {
         setToviews(data.toviews);
+
+        const linkedItem = toviewId ? data.toviews.find((t: ToviewItem) => String(t.id) === toviewId) : undefined;
+        if (linkedItem) {
+          openEditModal(linkedItem);
+        }
       } else {
         // Initialize with default items
         const defaultToviews: ToviewItem[] = [
           {
-            id: 1,
+            id: '1',
             text: 'Movie: Gladiator',
             completed: false,
             viewDate: new Date().toISOString().split('T')[0],
@@ -371,7 +381,7 @@ const ToviewSpark: React.FC<ToviewSparkProps> = ({
             sortTimeMs: Date.now()
           },
           {
-            id: 2,
+            id: '2',
             text: 'Book: Pillars of the Earth',
             completed: false,
             viewDate: new Date().toISOString().split('T')[0],
@@ -381,7 +391,7 @@ const ToviewSpark: React.FC<ToviewSparkProps> = ({
             sortTimeMs: Date.now() + 1
           },
           {
-            id: 3,
+            id: '3',
             text: 'Show: Brooklyn 99',
             completed: false,
             viewDate: new Date().toISOString().split('T')[0],
@@ -468,7 +478,7 @@ const ToviewSpark: React.FC<ToviewSparkProps> = ({
 
     const { category, displayText, watchWith } = parseToviewText(newToviewText);
     const newToview: ToviewItem = {
-      id: Date.now(),
+      id: generateId(),
       text: newToviewText.trim(),
       completed: false,
       viewDate: new Date().toISOString().split('T')[0],
@@ -489,7 +499,7 @@ const ToviewSpark: React.FC<ToviewSparkProps> = ({
     HapticFeedback.light();
   };
 
-  const toggleToview = async (id: number) => {
+  const toggleToview = async (id: string) => {
     const updatedToviews = toviews.map(toview => {
       if (toview.id === id) {
         const completed = !toview.completed;
@@ -507,7 +517,7 @@ const ToviewSpark: React.FC<ToviewSparkProps> = ({
     HapticFeedback.light();
   };
 
-  const deleteToview = async (id: number) => {
+  const deleteToview = async (id: string) => {
     Alert.alert(
       'Delete Toview',
       'Are you sure you want to delete this toview?',
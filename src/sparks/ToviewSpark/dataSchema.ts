@@ -0,0 +1,14 @@
+// Persisted data versions for ToviewSpark
+import { SparkDataSchema } from '../../types/spark';
+
+export const toviewDataSchema: SparkDataSchema = {
+  version: 1,
+  migrations: [
+    // v0 -> v1: string ids, so items added offline on two devices can't share one.
+    // Existing ids keep their value so already-synced items still match up.
+    (data) => ({
+      ...data,
+      toviews: (data.toviews || []).map((toview: any) => ({ ...toview, id: String(toview.id) })),
+    }),
+  ],
+};
@@ -0,0 +1,12 @@
+import { SparkSearchIndexer } from '../../types/spark';
+import type { ToviewItem } from '../ToviewSpark';
+
+// Global search entries for the watch/read list
+export const toviewSearchIndexer: SparkSearchIndexer = (data) =>
+  (data.toviews || []).map((toview: ToviewItem) => ({
+    id: String(toview.id),
+    title: toview.displayText || toview.text,
+    subtitle: [toview.category, toview.provider].filter(Boolean).join(' · '),
+    body: toview.watchWith?.join(' '),
+    params: { toviewId: String(toview.id) },
+  }));
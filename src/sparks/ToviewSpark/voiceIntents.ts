@@ -0,0 +1,142 @@
+import { SparkIntentParam, SparkVoiceIntent } from '../../types/spark';
+import { toLocalDateString } from '../../utils/dateUtils';
+import { generateId } from '../../utils/idUtils';
+import { findSpokenItem } from '../../utils/itemMatching';
+import type { ToviewItem } from '../ToviewSpark';
+
+const ITEM_PARAMS: Record<string, SparkIntentParam> = {
+  item: { type: 'string', description: 'words from the title', required: true },
+  itemId: { type: 'string', description: 'id of the title', hidden: true },
+};
+
+const LIST_NAMES = '(watchlist|watch list|reading list|toview|to view|to-view) [list]';
+
+const findToview = (toviews: ToviewItem[], params: Record<string, any>) =>
+  findSpokenItem(toviews, params, {
+    noun: 'title',
+    getId: toview => toview.id,
+    getText: toview => toview.displayText,
+    describe: toview => `${toview.displayText} (${toview.category})`,
+  });
+
+// Voice commands, deep links and automations for the watch/read list
+export const toviewVoiceIntents: SparkVoiceIntent[] = [
+  {
+    action: 'add',
+    aliases: ['create'],
+    description: 'Add a movie, show or book to watch or read',
+    keywords: ['to view', 'watch', 'movie', 'show', 'read'],
+    params: {
+      title: { type: 'string', description: 'title', required: true },
+      type: {
+        type: 'string',
+        description: 'kind of title',
+        options: ['Movie', 'Show', 'Book'],
+        synonyms: { film: 'Movie', 'tv show': 'Show', series: 'Show', 'tv series': 'Show', novel: 'Book' },
+      },
+      provider: { type: 'string', description: 'where to watch it, e.g. Netflix' },
+      watchWith: { type: 'list', description: 'people to watch it with' },
+    },
+    examples: [
+      {
+        text: 'Add a toview for a movie called the Wolf of Wallstreet on Netflix',
+        params: { title: 'The Wolf of Wall Street', type: 'Movie', provider: 'Netflix' },
+      },
+      { text: 'Watch a show called Slow Horses on Apple TV', params: { title: 'Slow Horses', type: 'Show', provider: 'Apple TV' } },
+      { text: 'Add a toview for a movie called Dune to watch with Tom', params: { title: 'Dune', type: 'Movie', watchWith: ['Tom'] } },
+      { text: 'Read a book called The Hobbit', params: { title: 'The Hobbit', type: 'Book' } },
+    ],
+    phrases: [
+      '(add|put) [a|an] (toview|to view|to-view) (for|of) [a|an|the] {type} [called|named|titled] {title} [on {provider}] [to watch with {watchWith}]',
+      '(add|put) [a|an|the] {type} [called|named|titled] {title} [on {provider}] [to watch with {watchWith}]',
+      '(watch|read) [a|an|the] {type} (called|named|titled) {title} [on {provider}] [with {watchWith}]',
+      '(add|put) {title} (to|on) [my|the] (watchlist|watch list|reading list|toview|to view|to-view) [list]',
+    ],
+    handler: ({ title, type, provider, watchWith }, data, now) => {
+      const category = type || 'Movie';
+      // Same "Movie: Title (Person)" text the spark builds, for display consistency
+      let text = `${category}: ${title}`;
+      if (watchWith) {
+        text += ` (${watchWith.join(', ')})`;
+      }
+
+      const today = toLocalDateString(now);
+      const newToview: ToviewItem = {
+        id: generateId(),
+        text,
+        completed: false,
+        viewDate: today,
+        createdDate: today,
+        category,
+        displayText: title,
+        provider,
+        watchWith,
+        sortTimeMs: now.getTime(),
+      };
+
+      return {
+        data: { ...data, toviews: [...(data.toviews || []), newToview] },
+        message: `Added to list: "${title}"`,
+      };
+    },
+  },
+  {
+    action: 'complete',
+    aliases: ['watched', 'read'],
+    description: 'Mark a title as watched or read',
+    keywords: ['watched', 'finished', 'saw'],
+    params: ITEM_PARAMS,
+    examples: [
+      { text: 'I watched Dune', params: { item: 'Dune' } },
+      { text: 'Mark The Hobbit as read', params: { item: 'The Hobbit' } },
+    ],
+    phrases: [
+      'i (watched|finished|read|saw) {item}',
+      'mark {item} [as] (watched|read|seen)',
+    ],
+    handler: (params, data, now) => {
+      const toviews: ToviewItem[] = data.toviews || [];
+      const found = findToview(toviews.filter(toview => !toview.completed), params);
+      if ('result' in found) {
+        return found.result;
+      }
+
+      return {
+        data: {
+          ...data,
+          toviews: toviews.map(toview =>
+            toview.id === found.item.id
+              ? { ...toview, completed: true, completedDate: toLocalDateString(now), sortTimeMs: now.getTime() }
+              : toview
+          ),
+        },
+        message: `Marked as ${found.item.category === 'Book' ? 'read' : 'watched'}: "${found.item.displayText}"`,
+      };
+    },
+  },
+  {
+    action: 'delete',
+    aliases: ['remove'],
+    description: 'Remove a title from the list',
+    keywords: ['remove', 'delete'],
+    params: ITEM_PARAMS,
+    examples: [
+      { text: 'Remove Dune from my watch list', params: { item: 'Dune' } },
+    ],
+    phrases: [
+      `(remove|delete|take) {item} (from|off) [my|the] ${LIST_NAMES}`,
+    ],
+    handler: (params, data) => {
+      const toviews: ToviewItem[] = data.toviews || [];
+      const found = findToview(toviews, params);
+      if ('result' in found) {
+        return found.result;
+      }
+
+      return {
+        data: { ...data, toviews: toviews.filter(toview => toview.id !== found.item.id) },
+        message: `Removed from list: "${found.item.displayText}"`,
+      };
+    },
+  },
+];
@@ -29,6 +29,10 @@ import * as ImageManipulator from 'expo-image-manipulator';
 import { useTheme } from '../contexts/ThemeContext';
 import { useSparkStore } from '../store';
 import { HapticFeedback } from '../utils/haptics';
+import { SparkEventBus } from '../services/SparkEventBus';
+import { TrashService } from '../services/TrashService';
+import { SparkPermissionService } from '../services/SparkPermissionService';
+import { profileStorageKey, currentProfileId } from '../store/profileStorage';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import {
   SettingsContainer,
@@ -46,9 +50,11 @@ interface TripStorySparkProps {
   onCloseSettings?: () => void;
   onStateChange?: (state: any) => void;
   onComplete?: (result: any) => void;
+  tripId?: string; // Open this trip (from search)
+  activityId?: string; // Open this activity for editing within tripId
 }
 
-interface Trip {
+export interface Trip {
   id: string;
   title: string;
   startDate: string;
@@ -72,7 +78,7 @@ const calculateTripStatus = (startDateStr: string, endDateStr: string): 'planned
   return 'active';
 };
 
-interface Activity {
+export interface Activity {
   id: string;
   tripId: string;
   name: string;
@@ -106,6 +112,8 @@ const TripStorySpark: React.FC<TripStorySparkProps> = ({
   showSettings = false,
   onCloseSettings,
   onStateChange,
+  tripId,
+  activityId,
 }) => {
   const { colors } = useTheme();
   const { getSparkData, setSparkData } = useSparkStore();
@@ -372,7 +380,7 @@ const TripStorySpark: React.FC<TripStorySparkProps> = ({
   const recoverDataFromAsyncStorage = async (): Promise<{ recovered: boolean; tripsFound: number; message: string }> => {
     try {
       // Check AsyncStorage directly for the Zustand persisted data
-      const storageKey = 'sparks-data-storage';
+      const storageKey = profileStorageKey('sparks-data-storage', currentProfileId());
       const rawData = await AsyncStorage.getItem(storageKey);
       
       if (!rawData) {
@@ -465,6 +473,19 @@ const TripStorySpark: React.FC<TripStorySparkProps> = ({
         if (data.activeActivityId) {
           setActiveActivityId(data.activeActivityId);
         }
+
+        // Open the trip (and activity) a search result points at
+        const linkedTrip = tripId ? updatedTrips.find((t: Trip) => t.id === tripId) : undefined;
+        if (linkedTrip) {
+          setCurrentTrip(linkedTrip);
+          setActiveTripId(linkedTrip.id);
+          setShowTripDetail(true);
+
+          const linkedActivity = activityId ? linkedTrip.activities.find((a: Activity) => a.id === activityId) : undefined;
+          if (linkedActivity) {
+            openEditActivity(linkedActivity);
+          }
+        }
       }
       setIsLoaded(true); // Mark as loaded
     } catch (error) {
@@ -558,6 +579,7 @@ const TripStorySpark: React.FC<TripStorySparkProps> = ({
 
     const updatedTrips = [...trips, newTrip];
     saveTrips(updatedTrips);
+    SparkEventBus.publish('trip.created', 'trip-story', { tripId: newTrip.id, title: newTrip.title });
 
     // Schedule notifications if it's a planned trip (day before and day of at 8 AM)
     if (newTrip.status === 'planned') {
@@ -642,9 +664,9 @@ const TripStorySpark: React.FC<TripStorySparkProps> = ({
   // Load photos from media library filtered by date
   const loadPhotosByDate = async (targetDate: string): Promise<MediaLibrary.Asset[]> => {
     try {
-      // Request media library permissions
-      const { status } = await MediaLibrary.requestPermissionsAsync();
-      if (status !== 'granted') {
+      // SparkScreen asks for the library before the spark opens; this only prompts if that was skipped
+      const { missing } = await SparkPermissionService.requestCapabilities(['media-library']);
+      if (missing.length > 0) {
         Alert.alert('Permission Required', 'Please grant photo library access to filter photos by date.');
         return [];
       }
@@ -785,8 +807,8 @@ const TripStorySpark: React.FC<TripStorySparkProps> = ({
       // Get location once (will be same for all photos in bulk add)
       let location = null;
       try {
-        const { status: locationStatus } = await Location.requestForegroundPermissionsAsync();
-        if (locationStatus === 'granted') {
+        // Only tagged when location was allowed up front, as it's optional
+        if (await SparkPermissionService.hasCapabilities(['location'])) {
           const locationData = await Location.getCurrentPositionAsync({});
           location = {
             latitude: locationData.coords.latitude,
@@ -865,8 +887,8 @@ const TripStorySpark: React.FC<TripStorySparkProps> = ({
     // Get location once (will be same for all photos in bulk add)
     let location = null;
     try {
-      const { status: locationStatus } = await Location.requestForegroundPermissionsAsync();
-      if (locationStatus === 'granted') {
+      // Only tagged when location was allowed up front, as it's optional
+      if (await SparkPermissionService.hasCapabilities(['location'])) {
         const locationData = await Location.getCurrentPositionAsync({});
         location = {
           latitude: locationData.coords.latitude,
@@ -1315,14 +1337,14 @@ const TripStorySpark: React.FC<TripStorySparkProps> = ({
 
     Alert.alert(
       'Delete Trip',
-      'Are you sure you want to delete this trip? This will also delete all activities and photos. This action cannot be undone.',
+      'Are you sure you want to delete this trip? Its activities and photos go with it, and you can restore it from the Trash in Settings.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Delete',
           style: 'destructive',
           onPress: async () => {
-            const updatedTrips = trips.filter(trip => trip.id !== currentTrip.id);
+            const updatedTrips = TrashService.removeItem('trip-story', 'trips', trips, currentTrip.id, currentTrip.title);
             saveTrips(updatedTrips);
 
             // Notifications will auto-expire if time has passed
@@ -0,0 +1,19 @@
+import { SparkSearchIndexer } from '../../types/spark';
+import type { Activity, Trip } from '../TripStorySpark';
+
+// Global search entries for trips and their activities
+export const tripStorySearchIndexer: SparkSearchIndexer = (data) =>
+  (data.trips || []).flatMap((trip: Trip) => [
+    {
+      id: trip.id,
+      title: trip.title,
+      subtitle: `${trip.startDate} – ${trip.endDate}`,
+      params: { tripId: trip.id },
+    },
+    ...(trip.activities || []).map((activity: Activity) => ({
+      id: `${trip.id}/${activity.id}`,
+      title: activity.name,
+      subtitle: [trip.title, activity.startDate, activity.location?.address].filter(Boolean).join(' · '),
+      params: { tripId: trip.id, activityId: activity.id },
+    })),
+  ]);
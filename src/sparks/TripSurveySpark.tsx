@@ -23,12 +23,16 @@ import {
   SettingsHeader,
   SettingsFeedbackSection,
 } from '../components/SettingsComponents';
+import { createSparkLink } from '../navigation/linking';
+import { encodeSharedTrip, parseSharedTrip } from './TripSurveySpark/sharedTrip';
 
 interface TripSurveySparkProps {
   showSettings?: boolean;
   onCloseSettings?: () => void;
   onStateChange?: (state: any) => void;
   onComplete?: (result: any) => void;
+  tripId?: string; // Open this trip's details (e.g. from a shared deep link)
+  trip?: string; // The shared trip as JSON, for a device that doesn't have it yet
 }
 
 interface DateRange {
@@ -44,7 +48,7 @@ interface Package {
   days: number;
 }
 
-interface Trip {
+export interface Trip {
   id: string;
   name: string;
   createdAt: string;
@@ -83,6 +87,8 @@ type ViewMode = 'list' | 'details' | 'matrix' | 'share';
 export const TripSurveySpark: React.FC<TripSurveySparkProps> = ({
   showSettings = false,
   onCloseSettings,
+  tripId,
+  trip: sharedTripJson,
 }) => {
   const { colors } = useTheme();
   const { getSparkData, setSparkData } = useSparkStore();
@@ -117,10 +123,14 @@ export const TripSurveySpark: React.FC<TripSurveySparkProps> = ({
   useEffect(() => {
     loadTrips();
     loadResponses();
-  }, []);
+  }, [tripId, sharedTripJson]);
 
   const loadTrips = () => {
     const data = getSparkData('trip-survey');
+    const storedTrips: any[] = data?.trips || [];
+    if (tripId && !storedTrips.some(t => t.id === tripId)) {
+      offerSharedTrip(storedTrips);
+    }
     if (data?.trips) {
       // Migrate blackout dates from DateRange[] to string[] if needed
       const migratedTrips = data.trips.map((trip: any) => {
@@ -138,9 +148,38 @@ export const TripSurveySpark: React.FC<TripSurveySparkProps> = ({
         return trip;
       });
       setTrips(migratedTrips);
+
+      const linkedTrip = tripId ? migratedTrips.find((t: Trip) => t.id === tripId) : undefined;
+      if (linkedTrip) {
+        setSelectedTrip(linkedTrip);
+        setCurrentView('details');
+      }
     }
   };
 
+  // A trip shared from someone else's device: ask before adding it to this one
+  const offerSharedTrip = (storedTrips: Trip[]) => {
+    const sharedTrip = parseSharedTrip(sharedTripJson, tripId!);
+    if (!sharedTrip) return;
+
+    Alert.alert(
+      'Shared Trip',
+      `Add "${sharedTrip.name}" to your trips?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Add Trip',
+          onPress: () => {
+            saveTrips([...storedTrips, sharedTrip]);
+            setSelectedTrip(sharedTrip);
+            setCurrentView('details');
+            HapticFeedback.success();
+          },
+        },
+      ]
+    );
+  };
+
   const loadResponses = () => {
     const data = getSparkData('trip-survey');
     if (data?.responses) {
@@ -858,6 +897,12 @@ export const TripSurveySpark: React.FC<TripSurveySparkProps> = ({
       text += `👥 People:\n${selectedTrip.finalPeople.map(p => `  • ${p}`).join('\n')}\n`;
     }
 
+    const link = createSparkLink('trip-survey', undefined, {
+      tripId: selectedTrip.id,
+      trip: encodeSharedTrip(selectedTrip),
+    });
+    text += `\n🔗 Open in Sparks: ${link}\n`;
+
     try {
       await Share.share({ message: text });
       HapticFeedback.success();
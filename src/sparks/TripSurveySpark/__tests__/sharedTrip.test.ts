@@ -0,0 +1,31 @@
+import { encodeSharedTrip, parseSharedTrip } from '../sharedTrip';
+import type { Trip } from '../../TripSurveySpark';
+
+const trip: Trip = {
+    id: 't1',
+    name: 'Lisbon',
+    createdAt: '2026-10-01T00:00:00.000Z',
+    updatedAt: '2026-10-02T00:00:00.000Z',
+    isFinalized: true,
+    possibleDates: [{ id: 'd1', startDate: '2027-06-12', endDate: '2027-06-19' }],
+    blackoutDates: [],
+    locations: ['Lisbon', 'Sintra'],
+    packages: [{ id: 'p1', name: 'Hotel', price: 900, days: 7 }],
+    people: ['Ana', 'Ben'],
+    finalStartDate: '2027-06-12',
+    finalEndDate: '2027-06-19',
+    finalLocations: ['Lisbon'],
+};
+
+describe('sharedTrip', () => {
+    it('round-trips the trip through a link', () => {
+        expect(parseSharedTrip(encodeSharedTrip(trip), 't1')).toEqual(trip);
+    });
+
+    it('rejects a trip for another id, a partial trip or broken JSON', () => {
+        expect(parseSharedTrip(encodeSharedTrip(trip), 't2')).toBeNull();
+        expect(parseSharedTrip(JSON.stringify({ id: 't1', name: 'Lisbon' }), 't1')).toBeNull();
+        expect(parseSharedTrip('{"id":', 't1')).toBeNull();
+        expect(parseSharedTrip(undefined, 't1')).toBeNull();
+    });
+});
@@ -0,0 +1,39 @@
+// Shared trip links for TripSurveySpark: the link carries the trip itself, since its id
+// only exists on the sender's device
+import type { Trip } from '../TripSurveySpark';
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * The trip as a link query parameter
+ */
+export const encodeSharedTrip = (trip: Trip): string => JSON.stringify(trip);
+
+/**
+ * Read a trip from a shared link. Returns null unless it is a whole trip with the linked id.
+ */
+export const parseSharedTrip = (json: string | undefined, tripId: string): Trip | null => {
+  if (!json) return null;
+
+  let trip: any;
+  try {
+    trip = JSON.parse(json);
+  } catch {
+    return null;
+  }
+
+  if (
+    !trip || typeof trip !== 'object'
+    || trip.id !== tripId
+    || typeof trip.name !== 'string'
+    || !Array.isArray(trip.possibleDates)
+    || !Array.isArray(trip.packages)
+    || !isStringArray(trip.locations)
+    || !isStringArray(trip.people)
+    || !isStringArray(trip.blackoutDates)
+  ) {
+    return null;
+  }
+  return trip as Trip;
+};
@@ -14,8 +14,10 @@ import { Svg, Path, Circle, Line, Text as SvgText } from 'react-native-svg';
 import { useTheme } from '../contexts/ThemeContext';
 import { useSparkStore } from '../store';
 import { SparkProps } from '../types/spark';
+import { DEFAULT_DATA } from './WeightTrackerSpark/dataAdapter';
 import {
     SettingsSection,
+    SettingsDataSection,
     SettingsInput,
     SettingsButton,
     SettingsToggle,
@@ -26,27 +28,21 @@ import {
     SettingsScrollView
 } from '../components/SettingsComponents';
 import { HapticFeedback } from '../utils/haptics';
+import { SparkEventBus } from '../services/SparkEventBus';
 
-interface WeightEntry {
+export interface WeightEntry {
     id: string;
     date: string; // ISO string
     weight: number;
 }
 
-interface WeightTrackerData {
+export interface WeightTrackerData {
     entries: WeightEntry[];
     goalWeight: number | null;
     unit: 'lbs' | 'kg';
     showLabels: boolean;
 }
 
-const DEFAULT_DATA: WeightTrackerData = {
-    entries: [],
-    goalWeight: null,
-    unit: 'lbs',
-    showLabels: true,
-};
-
 export const WeightTrackerSpark: React.FC<SparkProps> = ({
     showSettings,
     onCloseSettings,
@@ -139,6 +135,7 @@ export const WeightTrackerSpark: React.FC<SparkProps> = ({
             ...data,
             entries: [...data.entries, newEntry],
         });
+        SparkEventBus.publish('weight.logged', 'weight-tracker', { entryId: newEntry.id, weight: newEntry.weight, unit: data.unit });
 
         setDirection(null);
         setDiffPounds(0);
@@ -272,6 +269,11 @@ export const WeightTrackerSpark: React.FC<SparkProps> = ({
 
                     <SettingsFeedbackSection sparkName="Weight Tracker" sparkId="weight-tracker" />
 
+                    <SettingsDataSection
+                        sparkId="weight-tracker"
+                        onImported={(imported) => setData({ ...DEFAULT_DATA, ...imported } as WeightTrackerData)}
+                    />
+
                     <SettingsSection title="Display">
                         <SettingsToggle
                             label="Show Weight Labels"
@@ -561,6 +563,7 @@ export const WeightTrackerSpark: React.FC<SparkProps> = ({
                                             ...data,
                                             entries: [...data.entries, newEntry],
                                         });
+                                        SparkEventBus.publish('weight.logged', 'weight-tracker', { entryId: newEntry.id, weight: newEntry.weight, unit: data.unit });
 
                                         setFirstWeightInput('');
                                         HapticFeedback.success();
@@ -0,0 +1,36 @@
+import { weightTrackerDataAdapter } from '../dataAdapter';
+
+const data = {
+    entries: [
+        { id: '2', date: '2026-03-08T00:00:00.000Z', weight: 181.5 },
+        { id: '1', date: '2026-03-01T00:00:00.000Z', weight: 183 },
+    ],
+    unit: 'lbs',
+};
+
+describe('weightTrackerDataAdapter', () => {
+    it('imports its own export into an empty history', () => {
+        const imported = weightTrackerDataAdapter.importData(weightTrackerDataAdapter.exportData(data), {});
+
+        expect(imported.entries.map((entry: any) => [entry.date, entry.weight])).toEqual([
+            ['2026-03-01T00:00:00.000Z', 183],
+            ['2026-03-08T00:00:00.000Z', 181.5],
+        ]);
+    });
+
+    it('skips entries it already has when the export is imported back', () => {
+        const csv = weightTrackerDataAdapter.exportData(data);
+        expect(weightTrackerDataAdapter.importData(csv, data).entries).toEqual(data.entries);
+    });
+
+    it('converts weights to the current unit', () => {
+        const csv = weightTrackerDataAdapter.exportData({ ...data, unit: 'kg' });
+        const imported = weightTrackerDataAdapter.importData(csv, { unit: 'lbs' });
+        expect(imported.entries.map((entry: any) => entry.weight)).toEqual([403.4, 400.1]);
+    });
+
+    it('reports bad rows by their line in the file', () => {
+        expect(() => weightTrackerDataAdapter.importData('Date,Weight (lbs)\n2026-03-01,183\nsoon,180\n', data))
+            .toThrow('Row 3 needs a date and a weight.');
+    });
+});
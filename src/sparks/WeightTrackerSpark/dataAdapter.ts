@@ -0,0 +1,71 @@
+// CSV import/export for WeightTrackerSpark data
+import { SparkDataAdapter } from '../../types/spark';
+import { toCsv, parseCsv } from '../../utils/csv';
+import { generateId } from '../../utils/idUtils';
+import type { WeightEntry, WeightTrackerData } from '../WeightTrackerSpark';
+
+export const DEFAULT_DATA: WeightTrackerData = {
+    entries: [],
+    goalWeight: null,
+    unit: 'lbs',
+    showLabels: true,
+};
+
+const LBS_PER_KG = 2.20462;
+
+// CSV of entries: Date, Weight (unit). Imported weights are converted to the current unit.
+export const weightTrackerDataAdapter: SparkDataAdapter = {
+    format: 'csv',
+    description: 'Weight entries as a CSV spreadsheet. Imported entries are added to your history; dates that already have the same weight are skipped.',
+    exportData: (saved) => {
+        const data = { ...DEFAULT_DATA, ...saved } as WeightTrackerData;
+        const rows = [...data.entries]
+            .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+            .map(entry => [entry.date.split('T')[0], entry.weight]);
+        return toCsv(['Date', `Weight (${data.unit})`], rows);
+    },
+    importData: (content, saved) => {
+        const data = { ...DEFAULT_DATA, ...saved } as WeightTrackerData;
+        const rows = parseCsv(content);
+        if (rows.length === 0) {
+            throw new Error('The file is empty.');
+        }
+
+        let fileUnit = data.unit;
+        let dataRows = rows;
+        if (isNaN(new Date(rows[0][0]).getTime())) {
+            const header = rows[0][1]?.toLowerCase() || '';
+            if (header.includes('kg')) fileUnit = 'kg';
+            if (header.includes('lb')) fileUnit = 'lbs';
+            dataRows = rows.slice(1);
+        }
+
+        const convert = (weight: number) => {
+            if (fileUnit === data.unit) return weight;
+            const converted = data.unit === 'kg' ? weight / LBS_PER_KG : weight * LBS_PER_KG;
+            return Math.round(converted * 10) / 10;
+        };
+
+        const existingKeys = new Set(data.entries.map(e => `${e.date.split('T')[0]}|${e.weight}`));
+        const imported: WeightEntry[] = [];
+        // Row numbers as a spreadsheet shows them, counting the header
+        const firstRow = rows.length - dataRows.length + 1;
+
+        dataRows.forEach((row, index) => {
+            const date = new Date(row[0]);
+            const weight = parseFloat(row[1]);
+            if (isNaN(date.getTime()) || isNaN(weight)) {
+                throw new Error(`Row ${firstRow + index} needs a date and a weight.`);
+            }
+
+            const entry = { id: generateId(), date: date.toISOString(), weight: convert(weight) };
+            const key = `${entry.date.split('T')[0]}|${entry.weight}`;
+            if (!existingKeys.has(key)) {
+                existingKeys.add(key);
+                imported.push(entry);
+            }
+        });
+
+        return { ...data, entries: [...data.entries, ...imported] };
+    },
+};
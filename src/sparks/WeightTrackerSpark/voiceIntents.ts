@@ -0,0 +1,96 @@
+// Voice commands, deep links and automations for WeightTrackerSpark
+import { SparkVoiceIntent } from '../../types/spark';
+import { generateId } from '../../utils/idUtils';
+import type { WeightEntry } from '../WeightTrackerSpark';
+import { DEFAULT_DATA } from './dataAdapter';
+
+const PERIOD_DAYS: Record<string, number> = { week: 7, month: 30, year: 365 };
+
+export const weightTrackerVoiceIntents: SparkVoiceIntent[] = [
+    {
+        action: 'add',
+        aliases: ['create', 'log'],
+        description: 'Log a weigh-in',
+        keywords: ['weight is', 'weighed', 'add weight'],
+        params: {
+            weight: { type: 'number', description: 'weight value', required: true },
+            unit: {
+                type: 'string',
+                description: 'unit',
+                options: ['lbs', 'kg'],
+                synonyms: { pounds: 'lbs', pound: 'lbs', lb: 'lbs', kilos: 'kg', kilo: 'kg', kilograms: 'kg', kilogram: 'kg' },
+            },
+        },
+        examples: [
+            { text: 'Weight is 150 lbs', params: { weight: 150, unit: 'lbs' } },
+            { text: 'Add weight 70 kg', params: { weight: 70, unit: 'kg' } },
+        ],
+        phrases: [
+            '[my] weight [is|was] [now] {weight} [{unit}]',
+            'i (weigh|weighed) [in at] {weight} [{unit}]',
+            '(add|log|record|enter) [my|a] weight [of|at] {weight} [{unit}]',
+            '(log|record) {weight} {unit}',
+        ],
+        handler: ({ weight, unit }, data, now) => {
+            const entry: WeightEntry = {
+                id: generateId(),
+                date: now.toISOString(),
+                weight,
+            };
+
+            const updatedData: Record<string, any> = { ...data, entries: [...(data.entries || []), entry] };
+            if (unit) {
+                updatedData.unit = unit;
+            }
+
+            return { data: updatedData, message: `Recorded weight: ${weight} ${unit || ''}`.trim() };
+        },
+    },
+    {
+        action: 'query',
+        description: 'Say how weight has changed lately',
+        keywords: ['weight trend', 'how much have i lost', 'how much have i gained'],
+        params: {
+            period: {
+                type: 'string',
+                description: 'time span, a month if not said',
+                options: ['week', 'month', 'year'],
+                synonyms: { weeks: 'week', '7 days': 'week', months: 'month', '30 days': 'month', years: 'year', '12 months': 'year' },
+            },
+        },
+        examples: [
+            { text: "What's my weight trend this month?", params: { period: 'month' } },
+            { text: 'How much weight have I lost this week?', params: { period: 'week' } },
+        ],
+        phrases: [
+            "(what's|what is|how's|how is) my weight [trend|trending|doing|going] [this|(in|over|for) the [last|past]|the last|the past] [{period}]",
+            'how much [weight] (have i|did i) (lost|gained|lose|gain) [this|(in|over) the [last|past]|the last|the past|since last] [{period}]',
+        ],
+        handler: ({ period = 'month' }, data, now) => {
+            const unit = data.unit || DEFAULT_DATA.unit;
+            const since = new Date(now);
+            since.setDate(since.getDate() - PERIOD_DAYS[period]);
+            const recent = ((data.entries || []) as WeightEntry[])
+                .filter(entry => new Date(entry.date) >= since && new Date(entry.date) <= now)
+                .sort((a, b) => a.date.localeCompare(b.date));
+
+            if (recent.length === 0) {
+                return { message: `No weigh-ins in the last ${period}.` };
+            }
+            const first = recent[0];
+            const last = recent[recent.length - 1];
+            if (recent.length === 1) {
+                return { message: `Only one weigh-in in the last ${period}: ${last.weight} ${unit}.` };
+            }
+
+            const change = Math.round((last.weight - first.weight) * 10) / 10;
+            let trend = 'No change';
+            if (change !== 0) {
+                trend = `${change < 0 ? 'Down' : 'Up'} ${Math.abs(change)} ${unit}`;
+            }
+            return {
+                message: `${trend} over the last ${period}, from ${first.weight} to ${last.weight} ${unit} across ${recent.length} weigh-ins.`,
+            };
+        },
+    },
+];
@@ -0,0 +1,122 @@
+import { useSparkStore } from '../sparkStore';
+import { CommandExecutor } from '../../services/CommandExecutor';
+
+jest.mock('../../components/SparkRegistry', () => {
+    const { todoVoiceIntents } = jest.requireActual('../../sparks/TodoSpark/voiceIntents');
+    const { todoDataSchema } = jest.requireActual('../../sparks/TodoSpark/dataSchema');
+    const registry: Record<string, any> = {
+        todo: { metadata: { id: 'todo', title: 'Todo List' }, voiceIntents: todoVoiceIntents, dataSchema: todoDataSchema },
+    };
+    return {
+        sparkRegistry: registry,
+        getSparkById: (id: string) => registry[id],
+    };
+});
+
+jest.mock('../../services/StorageUsageService', () => ({
+    StorageUsageService: { removeOrphanedFiles: jest.fn(async () => ({ count: 0, bytes: 0 })) },
+}));
+
+jest.mock('expo-local-authentication', () => ({}));
+
+const todos = () => useSparkStore.getState().sparkData.todo?.todos;
+
+describe('spark data history', () => {
+    beforeEach(() => {
+        useSparkStore.setState({
+            sparkData: { todo: { todos: ['a', 'b'] } },
+            sparkHistory: {},
+            sparkDataRevisions: {},
+        });
+    });
+
+    it('undoes and redoes a checkpointed change', () => {
+        const { checkpointSparkData, setSparkData, undoSparkData, redoSparkData } = useSparkStore.getState();
+        checkpointSparkData('todo', 'Delete "b"');
+        setSparkData('todo', { todos: ['a'] });
+
+        expect(undoSparkData('todo')?.label).toBe('Delete "b"');
+        expect(todos()).toEqual(['a', 'b']);
+        expect(useSparkStore.getState().sparkDataRevisions.todo).toBe(1);
+
+        expect(redoSparkData('todo')?.label).toBe('Delete "b"');
+        expect(todos()).toEqual(['a']);
+        expect(useSparkStore.getState().sparkDataRevisions.todo).toBe(2);
+    });
+
+    it('returns undefined when there is nothing to undo or redo', () => {
+        const { undoSparkData, redoSparkData } = useSparkStore.getState();
+        expect(undoSparkData('todo')).toBeUndefined();
+        expect(redoSparkData('todo')).toBeUndefined();
+        expect(todos()).toEqual(['a', 'b']);
+    });
+
+    it('drops redo steps when a new change is checkpointed', () => {
+        const { checkpointSparkData, setSparkData, undoSparkData } = useSparkStore.getState();
+        checkpointSparkData('todo', 'first');
+        setSparkData('todo', { todos: [] });
+        undoSparkData('todo');
+        checkpointSparkData('todo', 'second');
+
+        expect(useSparkStore.getState().sparkHistory.todo.future).toEqual([]);
+        expect(useSparkStore.getState().sparkHistory.todo.past.map(entry => entry.label)).toEqual(['second']);
+    });
+
+    it('keeps a bounded number of undo steps per spark', () => {
+        const { checkpointSparkData } = useSparkStore.getState();
+        for (let i = 0; i < 30; i++) {
+            checkpointSparkData('todo', `change ${i}`);
+        }
+
+        const past = useSparkStore.getState().sparkHistory.todo.past;
+        expect(past).toHaveLength(20);
+        expect(past[past.length - 1].label).toBe('change 29');
+    });
+
+    it('persists only the latest undo step', () => {
+        const { checkpointSparkData, undoSparkData } = useSparkStore.getState();
+        checkpointSparkData('todo', 'first');
+        checkpointSparkData('todo', 'second');
+        checkpointSparkData('todo', 'third');
+        undoSparkData('todo');
+
+        const partialize = useSparkStore.persist.getOptions().partialize!;
+        const persisted = partialize(useSparkStore.getState()) as any;
+        expect(persisted.sparkHistory.todo.past.map((entry: any) => entry.label)).toEqual(['second']);
+        expect(persisted.sparkHistory.todo.future).toEqual([]);
+        expect(persisted.sparkDataRevisions).toEqual({});
+    });
+
+    it('forgets undo steps recorded in the shape before a data migration', () => {
+        useSparkStore.setState({
+            sparkData: { todo: { todos: [{ id: 1, text: 'a', displayText: 'a' }] } },
+            sparkDataVersions: { todo: 1 },
+        });
+        const { checkpointSparkData, runSparkMigrations } = useSparkStore.getState();
+        checkpointSparkData('todo', 'before');
+
+        runSparkMigrations();
+        expect(todos()).toEqual([{ id: '1', text: 'a', displayText: 'a' }]);
+        expect(useSparkStore.getState().sparkHistory.todo).toBeUndefined();
+
+        // Data already in the current shape keeps its history
+        checkpointSparkData('todo', 'after');
+        useSparkStore.getState().runSparkMigrations();
+        expect(useSparkStore.getState().sparkHistory.todo.past.map(entry => entry.label)).toEqual(['after']);
+    });
+
+    it('makes voice commands undoable', async () => {
+        const result = await CommandExecutor.execute({
+            targetSpark: 'todo',
+            action: 'create',
+            params: { text: 'Buy milk' },
+            confidence: 1,
+            originalText: 'add buy milk to my todos',
+        });
+        expect(result.success).toBe(true);
+        expect(todos()).toHaveLength(3);
+
+        expect(useSparkStore.getState().undoSparkData('todo')?.label).toBe('"add buy milk to my todos"');
+        expect(todos()).toEqual(['a', 'b']);
+    });
+});
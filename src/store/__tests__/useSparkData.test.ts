@@ -0,0 +1,49 @@
+import { readSparkData } from '../useSparkData';
+import { useSparkStore } from '../sparkStore';
+import { defineSparkData, validators as v } from '../../utils/dataValidation';
+
+jest.mock('../../components/SparkRegistry', () => ({
+    sparkRegistry: {},
+    getSparkById: () => undefined,
+}));
+
+const spec = defineSparkData<{ rounds: { id: string; score: number }[] }>({
+    sparkId: 'golf',
+    fields: {
+        rounds: v.records(v.object({ id: v.string(), score: v.number() })),
+    },
+    defaults: { rounds: [] },
+});
+
+describe('readSparkData', () => {
+    beforeEach(() => {
+        useSparkStore.setState({ sparkData: {}, quarantinedData: {} });
+    });
+
+    it('returns typed defaults when nothing is saved', () => {
+        expect(readSparkData(spec)).toEqual({ rounds: [] });
+        expect(useSparkStore.getState().quarantinedData).toEqual({});
+    });
+
+    it('quarantines half-written records and saves the cleaned data', () => {
+        useSparkStore.setState({
+            sparkData: { golf: { rounds: [{ id: 'r1', score: 72 }, { id: 'r2' }] } },
+        });
+
+        expect(readSparkData(spec).rounds).toEqual([{ id: 'r1', score: 72 }]);
+
+        const state = useSparkStore.getState();
+        expect(state.sparkData.golf.rounds).toEqual([{ id: 'r1', score: 72 }]);
+        expect(state.quarantinedData.golf).toHaveLength(1);
+        expect(state.quarantinedData.golf[0]).toMatchObject({
+            path: 'rounds[1]',
+            value: { id: 'r2' },
+        });
+    });
+
+    it('can clear quarantined values', () => {
+        useSparkStore.getState().quarantineSparkData('golf', [{ path: 'x', reason: 'bad', value: 1 }]);
+        useSparkStore.getState().clearQuarantinedData('golf');
+        expect(useSparkStore.getState().quarantinedData).toEqual({});
+    });
+});
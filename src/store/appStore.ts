@@ -1,6 +1,6 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { profileStorage } from './profileStorage';
 
 interface UserPreferences {
   theme: 'light' | 'dark' | 'system';
@@ -64,7 +64,7 @@ export const useAppStore = create<AppState>()(
     }),
     {
       name: 'sparks-app-storage',
-      storage: createJSONStorage(() => AsyncStorage),
+      storage: createJSONStorage(() => profileStorage),
       partialize: (state) => ({
         preferences: state.preferences,
         isFirstLaunch: state.isFirstLaunch,
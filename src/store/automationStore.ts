@@ -0,0 +1,56 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { profileStorage } from './profileStorage';
+import { AutomationRule, AutomationRunLogEntry } from '../types/automation';
+import { rememberFiring } from '../utils/automationRules';
+
+// Run log entries kept for debugging, newest first
+const MAX_RUN_LOG_ENTRIES = 100;
+
+interface AutomationState {
+  rules: AutomationRule[];
+  runLog: AutomationRunLogEntry[];
+  addRule: (rule: AutomationRule) => void;
+  updateRule: (ruleId: string, updates: Partial<Omit<AutomationRule, 'id' | 'createdAt'>>) => void;
+  removeRule: (ruleId: string) => void;
+  markFired: (ruleId: string, key: string) => void;
+  addRunLogEntry: (entry: AutomationRunLogEntry) => void;
+  clearRunLog: () => void;
+}
+
+// Rules act on spark data, so each profile has its own
+export const useAutomationStore = create<AutomationState>()(
+  persist(
+    (set) => ({
+      rules: [],
+      runLog: [],
+
+      addRule: (rule) =>
+        set((state) => ({ rules: [...state.rules, rule] })),
+
+      updateRule: (ruleId, updates) =>
+        set((state) => ({
+          rules: state.rules.map(rule => (rule.id === ruleId ? { ...rule, ...updates } : rule)),
+        })),
+
+      removeRule: (ruleId) =>
+        set((state) => ({ rules: state.rules.filter(rule => rule.id !== ruleId) })),
+
+      markFired: (ruleId, key) =>
+        set((state) => ({
+          rules: state.rules.map(rule =>
+            rule.id === ruleId ? { ...rule, firedKeys: rememberFiring(rule.firedKeys, key) } : rule
+          ),
+        })),
+
+      addRunLogEntry: (entry) =>
+        set((state) => ({ runLog: [entry, ...state.runLog].slice(0, MAX_RUN_LOG_ENTRIES) })),
+
+      clearRunLog: () => set({ runLog: [] }),
+    }),
+    {
+      name: 'sparks-automation-storage',
+      storage: createJSONStorage(() => profileStorage),
+    }
+  )
+);
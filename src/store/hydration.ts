@@ -0,0 +1,14 @@
+type PersistedStore = {
+  persist: { hasHydrated: () => boolean; onFinishHydration: (listener: () => void) => () => void };
+};
+
+// Background tasks can start before the persisted stores have loaded
+export const whenHydrated = (store: PersistedStore): Promise<void> =>
+  store.persist.hasHydrated()
+    ? Promise.resolve()
+    : new Promise(resolve => {
+      const unsubscribe = store.persist.onFinishHydration(() => {
+        unsubscribe();
+        resolve();
+      });
+    });
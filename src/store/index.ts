@@ -1,2 +1,7 @@
 export { useAppStore } from './appStore';
-export { useSparkStore } from './sparkStore';
\ No newline at end of file
+export { useSparkStore } from './sparkStore';
+export { useSparkData, readSparkData } from './useSparkData';
+export { useProfileStore } from './profileStore';
+export { useSecurityStore } from './securityStore';
+export { useAutomationStore } from './automationStore';
+export { useTrashStore } from './trashStore';
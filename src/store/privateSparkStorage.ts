@@ -0,0 +1,68 @@
+import { EncryptedPayload, encryptPayload, decryptPayload, isEncryptedPayload } from '../utils/sparkCrypto';
+import { isPrivateSpark } from './securityStore';
+
+// Key for private spark data. Only ever held in memory, from the first
+// passcode unlock until the app closes.
+let dataKey: Uint8Array | null = null;
+// Reuse the last payload while a spark's data is unchanged, so unrelated writes do not re-encrypt it
+let sealedCache = new WeakMap<object, EncryptedPayload>();
+
+export const setPrivateDataKey = (key: Uint8Array | null): void => {
+  dataKey = key;
+  sealedCache = new WeakMap();
+};
+
+export const getPrivateDataKey = (): Uint8Array | null => dataKey;
+
+export const hasPrivateDataKey = (): boolean => dataKey !== null;
+
+/**
+ * Encrypt a private spark's value for storage. Public sparks and values that
+ * are still encrypted (not unlocked yet) are returned unchanged.
+ */
+export const sealPrivateValue = <T>(sparkId: string, value: T): T | EncryptedPayload => {
+  if (!isPrivateSpark(sparkId) || !value || typeof value !== 'object' || isEncryptedPayload(value)) {
+    return value;
+  }
+  if (!dataKey) {
+    // Cannot happen through the UI: a spark is only made private while unlocked
+    console.warn(`No key to encrypt ${sparkId}; it will be saved unencrypted`);
+    return value;
+  }
+
+  const cached = sealedCache.get(value as object);
+  if (cached) return cached;
+
+  const sealed = encryptPayload(value, dataKey);
+  sealedCache.set(value as object, sealed);
+  return sealed;
+};
+
+/**
+ * Decrypt a value written by sealPrivateValue. Plain values are returned unchanged.
+ * @throws Error while locked, or when the payload does not match the key
+ */
+export const openPrivateValue = <T = any>(value: T | EncryptedPayload): T => {
+  if (!isEncryptedPayload(value)) {
+    return value;
+  }
+  if (!dataKey) {
+    throw new Error('Private sparks are locked');
+  }
+  const opened = decryptPayload(value, dataKey);
+  if (opened && typeof opened === 'object') {
+    // Saving the value again as-is can reuse the stored payload
+    sealedCache.set(opened, value);
+  }
+  return opened;
+};
+
+export const sealSparkData = (
+  sparkData: Record<string, Record<string, any>>
+): Record<string, Record<string, any>> => {
+  const sealed: Record<string, Record<string, any>> = {};
+  Object.entries(sparkData).forEach(([sparkId, data]) => {
+    sealed[sparkId] = sealPrivateValue(sparkId, data) as Record<string, any>;
+  });
+  return sealed;
+};
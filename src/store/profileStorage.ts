@@ -0,0 +1,62 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StateStorage } from 'zustand/middleware';
+
+export const PROFILE_STORE_KEY = 'sparks-profile-storage';
+export const DEFAULT_PROFILE_ID = 'default';
+
+let activeProfileId: string | null = null;
+// Set while stores are reset for a profile switch so the reset is not saved
+let writesPaused = false;
+
+/**
+ * Storage key of a persisted store for a profile. The default profile keeps
+ * the original keys so data from before profiles existed stays where it is.
+ */
+export const profileStorageKey = (name: string, profileId: string): string =>
+  profileId === DEFAULT_PROFILE_ID ? name : `${name}:${profileId}`;
+
+// Read the last active profile straight from storage, before profileStore has hydrated
+const loadActiveProfileId = async (): Promise<string> => {
+  if (activeProfileId === null) {
+    try {
+      const raw = await AsyncStorage.getItem(PROFILE_STORE_KEY);
+      activeProfileId = (raw && JSON.parse(raw).state?.activeProfileId) || DEFAULT_PROFILE_ID;
+    } catch (error) {
+      console.error('Failed to read active profile:', error);
+      activeProfileId = DEFAULT_PROFILE_ID;
+    }
+  }
+  return activeProfileId as string;
+};
+
+/**
+ * Profile whose data the stores hold. Known once any profile-scoped store has hydrated.
+ */
+export const currentProfileId = (): string => activeProfileId ?? DEFAULT_PROFILE_ID;
+
+/**
+ * Point profile-scoped stores at another profile. resetStores runs with writes
+ * paused; rehydrate the stores afterwards to load the profile's data.
+ */
+export const switchProfileStorage = (profileId: string, resetStores: () => void): void => {
+  writesPaused = true;
+  try {
+    activeProfileId = profileId;
+    resetStores();
+  } finally {
+    writesPaused = false;
+  }
+};
+
+// AsyncStorage namespaced by the active profile, for zustand persist
+export const profileStorage: StateStorage = {
+  getItem: async (name) => AsyncStorage.getItem(profileStorageKey(name, await loadActiveProfileId())),
+  setItem: async (name, value) => {
+    if (writesPaused) return;
+    const profileId = activeProfileId ?? await loadActiveProfileId();
+    await AsyncStorage.setItem(profileStorageKey(name, profileId), value);
+  },
+  removeItem: async (name) => {
+    await AsyncStorage.removeItem(profileStorageKey(name, await loadActiveProfileId()));
+  },
+};
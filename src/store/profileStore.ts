@@ -0,0 +1,55 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PROFILE_STORE_KEY, DEFAULT_PROFILE_ID } from './profileStorage';
+
+export interface LocalProfile {
+  id: string;
+  name: string;
+  emoji: string;
+  pinHash?: string; // SHA-256 of the profile's PIN; unset when the profile is open to everyone
+  createdAt: string;
+}
+
+interface ProfileState {
+  profiles: LocalProfile[];
+  activeProfileId: string;
+  addProfile: (profile: LocalProfile) => void;
+  updateProfile: (profileId: string, updates: Partial<Omit<LocalProfile, 'id' | 'createdAt'>>) => void;
+  removeProfile: (profileId: string) => void;
+  // Only records the choice; ProfileService.switchProfile loads the profile's data
+  setActiveProfileId: (profileId: string) => void;
+}
+
+export const useProfileStore = create<ProfileState>()(
+  persist(
+    (set) => ({
+      // The profile that owns the data from before profiles existed
+      profiles: [
+        { id: DEFAULT_PROFILE_ID, name: 'Me', emoji: '🙂', createdAt: new Date(0).toISOString() },
+      ],
+      activeProfileId: DEFAULT_PROFILE_ID,
+
+      addProfile: (profile) =>
+        set((state) => ({ profiles: [...state.profiles, profile] })),
+
+      updateProfile: (profileId, updates) =>
+        set((state) => ({
+          profiles: state.profiles.map(p => (p.id === profileId ? { ...p, ...updates } : p)),
+        })),
+
+      removeProfile: (profileId) =>
+        set((state) => ({
+          profiles: profileId === DEFAULT_PROFILE_ID
+            ? state.profiles
+            : state.profiles.filter(p => p.id !== profileId),
+        })),
+
+      setActiveProfileId: (profileId) => set({ activeProfileId: profileId }),
+    }),
+    {
+      name: PROFILE_STORE_KEY,
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
@@ -0,0 +1,53 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { EncryptedPayload, KdfParams } from '../utils/sparkCrypto';
+
+export const LOCK_TIMEOUT_OPTIONS = [1, 5, 15, 60]; // Minutes
+
+interface SecurityState {
+  passcodeSalt: string | null; // Base64; unset until a passcode is chosen
+  passcodeKdf: KdfParams | null;
+  // The random key for private data, encrypted with a key derived from the passcode
+  wrappedDataKey: EncryptedPayload | null;
+  privateSparkIds: string[];
+  lockTimeoutMinutes: number;
+  biometricsEnabled: boolean;
+  // Last interaction with an unlocked private spark; null while locked. Not persisted.
+  lastActivityAt: number | null;
+
+  setPasscode: (salt: string, kdf: KdfParams, wrappedDataKey: EncryptedPayload) => void;
+  setPrivateSparkIds: (sparkIds: string[]) => void;
+  setLockTimeoutMinutes: (minutes: number) => void;
+  setBiometricsEnabled: (enabled: boolean) => void;
+  setLastActivityAt: (timestamp: number | null) => void;
+}
+
+// Shared by all profiles, like the passcode itself
+export const useSecurityStore = create<SecurityState>()(
+  persist(
+    (set) => ({
+      passcodeSalt: null,
+      passcodeKdf: null,
+      wrappedDataKey: null,
+      privateSparkIds: [],
+      lockTimeoutMinutes: 5,
+      biometricsEnabled: false,
+      lastActivityAt: null,
+
+      setPasscode: (salt, kdf, wrappedDataKey) => set({ passcodeSalt: salt, passcodeKdf: kdf, wrappedDataKey }),
+      setPrivateSparkIds: (sparkIds) => set({ privateSparkIds: sparkIds }),
+      setLockTimeoutMinutes: (minutes) => set({ lockTimeoutMinutes: minutes }),
+      setBiometricsEnabled: (enabled) => set({ biometricsEnabled: enabled }),
+      setLastActivityAt: (timestamp) => set({ lastActivityAt: timestamp }),
+    }),
+    {
+      name: 'sparks-security-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: ({ lastActivityAt, ...state }) => state,
+    }
+  )
+);
+
+export const isPrivateSpark = (sparkId: string): boolean =>
+  useSecurityStore.getState().privateSparkIds.includes(sparkId);
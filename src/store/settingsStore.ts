@@ -1,6 +1,12 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppLanguage } from '../types/i18n';
+import { ThemeColors, ThemePalette } from '../types/theme';
+import { DEFAULT_THEME_ID, lightTheme, darkTheme, getThemePalette } from '../theme/palettes';
+import { isValidThemeColors, isHexColor } from '../utils/themeColors';
+
+export type FontSizePreference = 'small' | 'medium' | 'large';
 
 interface SettingsState {
   // UI Preferences
@@ -11,8 +17,14 @@ interface SettingsState {
   notifications: boolean;
 
   // Display Settings
-  fontSize: 'small' | 'medium' | 'large';
-  language: 'en' | 'es' | 'fr' | 'de';
+  fontSize: FontSizePreference;
+  language: AppLanguage;
+  voiceLocale: string | null; // Speech recognition locale, e.g. 'en-GB'; null follows the language
+
+  // Themes: the chosen palette, palettes made in the theme editor, and accent colors by spark id
+  themeId: string;
+  customThemes: ThemePalette[];
+  sparkAccents: Record<string, string>;
 
   // Privacy Settings
   analytics: boolean;
@@ -27,63 +39,22 @@ interface SettingsState {
   toggleAnalytics: () => void;
   toggleCrashReporting: () => void;
 
-  setFontSize: (size: 'small' | 'medium' | 'large') => void;
-  setLanguage: (lang: 'en' | 'es' | 'fr' | 'de') => void;
+  setFontSize: (size: FontSizePreference) => void;
+  setLanguage: (lang: AppLanguage) => void;
+  setVoiceLocale: (locale: string | null) => void;
+
+  setThemeId: (themeId: string) => void;
+  saveCustomTheme: (palette: ThemePalette) => void;
+  deleteCustomTheme: (themeId: string) => void;
+  setSparkAccent: (sparkId: string, color: string | null) => void;
 
   resetAllSettings: () => void;
 
   // Getters
   getThemeColors: () => ThemeColors;
+  getSparkAccent: (sparkId: string) => string | undefined;
 }
 
-interface ThemeColors {
-  primary: string;
-  secondary: string;
-  background: string;
-  surface: string;
-  text: string;
-  textSecondary: string;
-  border: string;
-  success: string;
-  warning: string;
-  error: string;
-  info: string;
-  card: string;
-}
-
-const lightTheme: ThemeColors = {
-  primary: '#007AFF',
-  secondary: '#007AFF',
-  // dyor background
-  background: '#ffffff',
-  // dyor top nav
-  surface: '#ffffff',
-  text: '#333333',
-  textSecondary: '#666666',
-  border: '#e0e0e0',
-  success: '#28A745',
-  warning: '#FFC107',
-  error: '#DC3545',
-  info: '#17A2B8',
-  card: '#ffffff',
-};
-
-const darkTheme: ThemeColors = {
-  primary: '#0A84FF',
-  secondary: '#5E5CE6',
-  background: '#000000',
-  // dyor: top nav color
-  surface: '#1C1C1E',
-  text: '#FFFFFF',
-  textSecondary: '#AEAEB2',
-  border: '#38383A',
-  success: '#30D158',
-  warning: '#FF9F0A',
-  error: '#FF453A',
-  info: '#64D2FF',
-  card: '#1C1C1E',
-};
-
 export const useSettingsStore = create<SettingsState>()(
   persist(
     (set, get) => ({
@@ -95,6 +66,10 @@ export const useSettingsStore = create<SettingsState>()(
       notifications: true,
       fontSize: 'medium',
       language: 'en',
+      voiceLocale: null,
+      themeId: DEFAULT_THEME_ID,
+      customThemes: [],
+      sparkAccents: {},
       analytics: true,
       crashReporting: true,
 
@@ -109,6 +84,28 @@ export const useSettingsStore = create<SettingsState>()(
 
       setFontSize: (size) => set({ fontSize: size }),
       setLanguage: (lang) => set({ language: lang }),
+      setVoiceLocale: (locale) => set({ voiceLocale: locale }),
+
+      setThemeId: (themeId) => set({ themeId }),
+      // Adds the palette, or replaces the custom palette with the same id
+      saveCustomTheme: (palette) => set((state) => ({
+        customThemes: state.customThemes.some(theme => theme.id === palette.id)
+          ? state.customThemes.map(theme => theme.id === palette.id ? palette : theme)
+          : [...state.customThemes, palette],
+      })),
+      deleteCustomTheme: (themeId) => set((state) => ({
+        customThemes: state.customThemes.filter(theme => theme.id !== themeId),
+        themeId: state.themeId === themeId ? DEFAULT_THEME_ID : state.themeId,
+      })),
+      setSparkAccent: (sparkId, color) => set((state) => {
+        const sparkAccents = { ...state.sparkAccents };
+        if (color) {
+          sparkAccents[sparkId] = color;
+        } else {
+          delete sparkAccents[sparkId];
+        }
+        return { sparkAccents };
+      }),
 
       resetAllSettings: () => set({
         hapticEnabled: true,
@@ -118,6 +115,10 @@ export const useSettingsStore = create<SettingsState>()(
         notifications: true,
         fontSize: 'medium',
         language: 'en',
+        voiceLocale: null,
+        themeId: DEFAULT_THEME_ID,
+        customThemes: [],
+        sparkAccents: {},
         analytics: true,
         crashReporting: true,
       }),
@@ -127,13 +128,24 @@ export const useSettingsStore = create<SettingsState>()(
         try {
           const state = get();
           const darkMode = state?.darkMode ?? false;
-          return darkMode ? darkTheme : lightTheme;
+          const palette = getThemePalette(state?.themeId ?? DEFAULT_THEME_ID, state?.customThemes);
+          const colors = darkMode ? palette.dark : palette.light;
+          // A hand-edited or corrupted palette falls back to the default colors
+          if (!isValidThemeColors(colors)) {
+            return darkMode ? darkTheme : lightTheme;
+          }
+          return colors;
         } catch (error) {
           // Fallback to light theme if store isn't ready
           console.warn('Theme store not ready, using light theme:', error);
           return lightTheme;
         }
       },
+
+      getSparkAccent: (sparkId) => {
+        const color = get().sparkAccents?.[sparkId];
+        return isHexColor(color) ? color : undefined;
+      },
     }),
     {
       name: 'sparks-settings-storage',
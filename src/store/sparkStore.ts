@@ -1,9 +1,14 @@
 
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { SparkMetadata } from '../types/spark';
+import { profileStorage } from './profileStorage';
+import { SparkMetadata, SparkDataSchema } from '../types/spark';
 import { sparkRegistry } from '../components/SparkRegistry';
+import { migrateAllSparkData } from '../utils/sparkMigrations';
+import { SearchService } from '../services/SearchService';
+import { isEncryptedPayload } from '../utils/sparkCrypto';
+import { isPrivateSpark } from './securityStore';
+import { sealSparkData, openPrivateValue, hasPrivateDataKey } from './privateSparkStorage';
 
 interface SparkProgress {
   sparkId: string;
@@ -14,6 +19,41 @@ interface SparkProgress {
   customData?: Record<string, any>;
 }
 
+export interface QuarantinedRecord {
+  path: string;
+  reason: string;
+  value: unknown;
+  quarantinedAt: string;
+}
+
+// Keep only the most recent rejected values per spark
+const MAX_QUARANTINED_PER_SPARK = 50;
+
+export interface SparkHistoryEntry {
+  label: string; // What the change did, e.g. "Delete task"
+  data: Record<string, any>; // The spark's data to restore
+  timestamp: string;
+}
+
+export interface SparkHistory {
+  past: SparkHistoryEntry[]; // Oldest first; the last entry is the next undo
+  future: SparkHistoryEntry[]; // Oldest first; the last entry is the next redo
+}
+
+// Undo steps kept per spark while the app runs
+const MAX_HISTORY_PER_SPARK = 20;
+
+// Only the latest undo step per spark is written to storage, and none for private sparks
+const persistableHistory = (history: Record<string, SparkHistory>): Record<string, SparkHistory> => {
+  const persisted: Record<string, SparkHistory> = {};
+  Object.entries(history).forEach(([sparkId, { past }]) => {
+    if (past.length > 0 && !isPrivateSpark(sparkId)) {
+      persisted[sparkId] = { past: past.slice(-1), future: [] };
+    }
+  });
+  return persisted;
+};
+
 interface SparkState {
   // Progress tracking
   sparkProgress: Record<string, SparkProgress>;
@@ -24,6 +64,29 @@ interface SparkState {
   sparkData: Record<string, Record<string, any>>;
   setSparkData: (sparkId: string, data: Record<string, any>) => void;
   getSparkData: (sparkId: string) => Record<string, any>;
+  // Replace data from outside the spark (e.g. cloud sync); an open spark remounts
+  replaceSparkData: (sparkId: string, data: Record<string, any>) => void;
+
+  // Schema versions of persisted spark data
+  sparkDataVersions: Record<string, number>;
+  getSparkDataVersion: (sparkId: string) => number;
+  runSparkMigrations: () => void;
+  // Decrypt private sparks' persisted data once the passcode key is available
+  openPrivateSparkData: () => void;
+
+  // Persisted values that failed validation, kept for recovery instead of being lost
+  quarantinedData: Record<string, QuarantinedRecord[]>;
+  quarantineSparkData: (sparkId: string, records: Omit<QuarantinedRecord, 'quarantinedAt'>[]) => void;
+  clearQuarantinedData: (sparkId: string) => void;
+
+  // Undo/redo of spark data, recorded by checkpointing before a change
+  sparkHistory: Record<string, SparkHistory>;
+  // Bumped when undo/redo replaces a spark's data so an open spark remounts
+  sparkDataRevisions: Record<string, number>;
+  checkpointSparkData: (sparkId: string, label: string) => void;
+  undoSparkData: (sparkId: string) => SparkHistoryEntry | undefined;
+  redoSparkData: (sparkId: string) => SparkHistoryEntry | undefined;
+  clearSparkHistory: (sparkId: string) => void;
 
   // User's spark collection
   userSparkIds: string[];
@@ -53,6 +116,10 @@ export const useSparkStore = create<SparkState>()(
       // Initial state
       sparkProgress: {},
       sparkData: {},
+      sparkDataVersions: {},
+      quarantinedData: {},
+      sparkHistory: {},
+      sparkDataRevisions: {},
       userSparkIds: [], // No default sparks - user starts with empty collection
       favoriteSparkIds: [],
       isHydrated: false,
@@ -82,15 +149,193 @@ export const useSparkStore = create<SparkState>()(
 
       getSparkProgress: (sparkId) => get().sparkProgress[sparkId],
 
-      setSparkData: (sparkId, data) =>
+      setSparkData: (sparkId, data) => {
+        if (isEncryptedPayload(get().sparkData[sparkId])) {
+          console.warn(`Ignoring changes to ${sparkId} while it is locked`);
+          return;
+        }
+
+        set((state) => {
+          // Data written by the current build is already in the latest shape
+          const schemaVersion = sparkRegistry[sparkId]?.dataSchema?.version;
+          const needsVersion = state.isHydrated && schemaVersion !== undefined && state.sparkDataVersions[sparkId] === undefined;
+
+          return {
+            sparkData: {
+              ...state.sparkData,
+              [sparkId]: { ...(state.sparkData[sparkId] || {}), ...data },
+            },
+            ...(needsVersion && {
+              sparkDataVersions: { ...state.sparkDataVersions, [sparkId]: schemaVersion },
+            }),
+          };
+        });
+
+        // Keep global search current without rescanning other sparks
+        SearchService.indexSpark(sparkId, get().sparkData[sparkId]);
+      },
+
+      getSparkData: (sparkId) => get().sparkData[sparkId] || {},
+
+      replaceSparkData: (sparkId, data) => {
         set((state) => ({
-          sparkData: {
-            ...state.sparkData,
-            [sparkId]: { ...(state.sparkData[sparkId] || {}), ...data },
+          sparkData: { ...state.sparkData, [sparkId]: data },
+          sparkDataRevisions: {
+            ...state.sparkDataRevisions,
+            [sparkId]: (state.sparkDataRevisions[sparkId] || 0) + 1,
           },
-        })),
+        }));
 
-      getSparkData: (sparkId) => get().sparkData[sparkId] || {},
+        SearchService.indexSpark(sparkId, data);
+      },
+
+      getSparkDataVersion: (sparkId) => get().sparkDataVersions[sparkId] ?? 0,
+
+      runSparkMigrations: () => {
+        const schemas: Record<string, SparkDataSchema> = {};
+        Object.entries(sparkRegistry).forEach(([sparkId, spark]) => {
+          if (spark.dataSchema) {
+            schemas[sparkId] = spark.dataSchema;
+          }
+        });
+
+        // Locked private data is migrated after it is unlocked
+        const { sparkData, sparkDataVersions } = get();
+        const readable: Record<string, Record<string, any>> = {};
+        const locked: Record<string, Record<string, any>> = {};
+        Object.entries(sparkData).forEach(([sparkId, data]) => {
+          (isEncryptedPayload(data) ? locked : readable)[sparkId] = data;
+        });
+
+        const result = migrateAllSparkData(readable, sparkDataVersions, schemas);
+
+        // Undo snapshots still have the old shape, which this build can't read
+        const sparkHistory = { ...get().sparkHistory };
+        Object.keys(result.versions)
+          .filter(sparkId => result.versions[sparkId] !== sparkDataVersions[sparkId])
+          .forEach(sparkId => delete sparkHistory[sparkId]);
+
+        set({ sparkData: { ...result.sparkData, ...locked }, sparkDataVersions: result.versions, sparkHistory });
+      },
+
+      openPrivateSparkData: () => {
+        if (!hasPrivateDataKey()) return;
+
+        const sparkData = { ...get().sparkData };
+        let opened = false;
+        Object.entries(sparkData).forEach(([sparkId, data]) => {
+          if (!isEncryptedPayload(data)) return;
+          try {
+            sparkData[sparkId] = openPrivateValue(data);
+            opened = true;
+          } catch (error) {
+            console.error(`Failed to decrypt data for spark '${sparkId}':`, error);
+          }
+        });
+
+        if (opened) {
+          set({ sparkData });
+          get().runSparkMigrations();
+        }
+      },
+
+      quarantineSparkData: (sparkId, records) =>
+        set((state) => {
+          const quarantinedAt = new Date().toISOString();
+          const existing = state.quarantinedData[sparkId] || [];
+          return {
+            quarantinedData: {
+              ...state.quarantinedData,
+              [sparkId]: [
+                ...existing,
+                ...records.map(record => ({ ...record, quarantinedAt })),
+              ].slice(-MAX_QUARANTINED_PER_SPARK),
+            },
+          };
+        }),
+
+      clearQuarantinedData: (sparkId) =>
+        set((state) => {
+          const { [sparkId]: _removed, ...rest } = state.quarantinedData;
+          return { quarantinedData: rest };
+        }),
+
+      checkpointSparkData: (sparkId, label) =>
+        set((state) => {
+          const past = state.sparkHistory[sparkId]?.past || [];
+          const entry: SparkHistoryEntry = {
+            label,
+            data: state.sparkData[sparkId] || {},
+            timestamp: new Date().toISOString(),
+          };
+          return {
+            sparkHistory: {
+              ...state.sparkHistory,
+              // A new change makes the redo steps meaningless
+              [sparkId]: { past: [...past, entry].slice(-MAX_HISTORY_PER_SPARK), future: [] },
+            },
+          };
+        }),
+
+      undoSparkData: (sparkId) => {
+        const history = get().sparkHistory[sparkId];
+        const entry = history?.past[history.past.length - 1];
+        if (!history || !entry) return undefined;
+
+        set((state) => ({
+          sparkData: { ...state.sparkData, [sparkId]: entry.data },
+          sparkHistory: {
+            ...state.sparkHistory,
+            [sparkId]: {
+              past: history.past.slice(0, -1),
+              future: [
+                ...history.future,
+                { label: entry.label, data: state.sparkData[sparkId] || {}, timestamp: new Date().toISOString() },
+              ],
+            },
+          },
+          sparkDataRevisions: {
+            ...state.sparkDataRevisions,
+            [sparkId]: (state.sparkDataRevisions[sparkId] || 0) + 1,
+          },
+        }));
+
+        SearchService.indexSpark(sparkId, entry.data);
+        return entry;
+      },
+
+      redoSparkData: (sparkId) => {
+        const history = get().sparkHistory[sparkId];
+        const entry = history?.future[history.future.length - 1];
+        if (!history || !entry) return undefined;
+
+        set((state) => ({
+          sparkData: { ...state.sparkData, [sparkId]: entry.data },
+          sparkHistory: {
+            ...state.sparkHistory,
+            [sparkId]: {
+              past: [
+                ...history.past,
+                { label: entry.label, data: state.sparkData[sparkId] || {}, timestamp: new Date().toISOString() },
+              ].slice(-MAX_HISTORY_PER_SPARK),
+              future: history.future.slice(0, -1),
+            },
+          },
+          sparkDataRevisions: {
+            ...state.sparkDataRevisions,
+            [sparkId]: (state.sparkDataRevisions[sparkId] || 0) + 1,
+          },
+        }));
+
+        SearchService.indexSpark(sparkId, entry.data);
+        return entry;
+      },
+
+      clearSparkHistory: (sparkId) =>
+        set((state) => {
+          const { [sparkId]: _removed, ...rest } = state.sparkHistory;
+          return { sparkHistory: rest };
+        }),
 
       // User spark collection methods
       addSparkToUser: (sparkId) => {
@@ -165,8 +410,20 @@ export const useSparkStore = create<SparkState>()(
     }),
     {
       name: 'sparks-data-storage',
-      storage: createJSONStorage(() => AsyncStorage),
+      storage: createJSONStorage(() => profileStorage),
+      partialize: (state) => ({
+        ...state,
+        sparkData: sealSparkData(state.sparkData),
+        sparkHistory: persistableHistory(state.sparkHistory),
+        quarantinedData: Object.fromEntries(
+          Object.entries(state.quarantinedData).filter(([sparkId]) => !isPrivateSpark(sparkId))
+        ),
+        sparkDataRevisions: {},
+      }),
       onRehydrateStorage: () => (state) => {
+        state?.runSparkMigrations();
+        state?.openPrivateSparkData();
+        SearchService.rebuild(useSparkStore.getState().sparkData);
         state?.setHydrated(true);
       },
     }
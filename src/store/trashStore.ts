@@ -0,0 +1,59 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { profileStorage } from './profileStorage';
+import { isPrivateSpark } from './securityStore';
+import { TrashedItem } from '../types/trash';
+
+// Sparks whose numbered item ids became strings (their data schema migrates the lists)
+const STRING_ID_SPARKS = ['todo', 'packing-list'];
+
+interface TrashState {
+  items: TrashedItem[];
+  addItem: (item: TrashedItem) => void;
+  removeItems: (ids: string[]) => void;
+}
+
+// Deleted items belong to the profile whose data they came from
+export const useTrashStore = create<TrashState>()(
+  persist(
+    (set) => ({
+      items: [],
+
+      // Deleting the same item again (e.g. after undoing its delete) replaces its entry
+      // instead of adding a second one. A different item that reused the id is kept.
+      addItem: (item) =>
+        set((state) => ({
+          items: [
+            item,
+            ...state.items.filter(existing =>
+              !(existing.sparkId === item.sparkId
+                && existing.collection === item.collection
+                && existing.itemId === item.itemId
+                && JSON.stringify(existing.item) === JSON.stringify(item.item))
+            ),
+          ],
+        })),
+
+      removeItems: (ids) =>
+        set((state) => ({ items: state.items.filter(item => !ids.includes(item.id)) })),
+    }),
+    {
+      name: 'sparks-trash-storage',
+      storage: createJSONStorage(() => profileStorage),
+      version: 1,
+      // v0 -> v1: match the string ids of restored Todo and Packing List items
+      migrate: (persisted: any) => ({
+        ...persisted,
+        items: (persisted?.items || []).map((item: TrashedItem) =>
+          STRING_ID_SPARKS.includes(item.sparkId)
+            ? { ...item, itemId: String(item.itemId), item: { ...item.item, id: String(item.itemId) } }
+            : item
+        ),
+      }),
+      // Like undo history, private sparks' deleted items are never written unencrypted
+      partialize: (state) => ({
+        items: state.items.filter(item => !isPrivateSpark(item.sparkId)),
+      }),
+    }
+  )
+);
@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { useSparkStore } from './sparkStore';
+import {
+  SparkDataSpec,
+  SparkDataValidation,
+  validateSparkData,
+} from '../utils/dataValidation';
+
+/**
+ * Log shape errors, move the rejected values to quarantine and write the
+ * cleaned data back so the same errors are not reported again.
+ */
+const reportInvalidSparkData = <T extends Record<string, any>>(
+  sparkId: string,
+  result: SparkDataValidation<T>
+) => {
+  if (result.issues.length === 0) return;
+
+  console.error(
+    `[SparkData] ${sparkId}: quarantined ${result.issues.length} invalid value(s)`,
+    result.issues.map(issue => `${issue.path || '(root)'}: ${issue.reason}`)
+  );
+
+  const { quarantineSparkData, setSparkData } = useSparkStore.getState();
+  quarantineSparkData(sparkId, result.issues);
+  setSparkData(sparkId, result.data);
+};
+
+/**
+ * Read a spark's data outside React (services, command handlers).
+ * Always returns data matching the spec; invalid values are quarantined.
+ */
+export const readSparkData = <T extends Record<string, any>>(spec: SparkDataSpec<T>): T => {
+  const result = validateSparkData(spec, useSparkStore.getState().sparkData[spec.sparkId]);
+  reportInvalidSparkData(spec.sparkId, result);
+  return result.data;
+};
+
+/**
+ * Typed access to a spark's persisted data. Returns validated data (with
+ * defaults for anything missing or invalid) and a setter that merges updates.
+ */
+export const useSparkData = <T extends Record<string, any>>(
+  spec: SparkDataSpec<T>
+): [T, (update: Partial<T>) => void] => {
+  const raw = useSparkStore(state => state.sparkData[spec.sparkId]);
+  const result = useMemo(() => validateSparkData(spec, raw), [spec, raw]);
+
+  useEffect(() => {
+    reportInvalidSparkData(spec.sparkId, result);
+  }, [spec.sparkId, result]);
+
+  const setData = useCallback(
+    (update: Partial<T>) => useSparkStore.getState().setSparkData(spec.sparkId, update),
+    [spec.sparkId]
+  );
+
+  return [result.data, setData];
+};
@@ -1,13 +1,14 @@
 import { StyleSheet } from 'react-native';
-import { ThemeColors } from '../contexts/ThemeContext';
+import { ThemeColors, Typography } from '../contexts/ThemeContext';
 import { StyleTokens } from './StyleTokens';
 
 /**
  * Create common styles that can be reused across Sparks
  * @param colors - Theme colors from ThemeContext
+ * @param typography - Scaled font sizes from ThemeContext (defaults to the unscaled tokens)
  * @returns StyleSheet object with common styles
  */
-export const createCommonStyles = (colors: ThemeColors) => {
+export const createCommonStyles = (colors: ThemeColors, typography: Typography = StyleTokens.fontSize) => {
     return StyleSheet.create({
         // Containers
         container: {
@@ -21,19 +22,19 @@ export const createCommonStyles = (colors: ThemeColors) => {
 
         // Typography
         title: {
-            fontSize: StyleTokens.fontSize.title,
+            fontSize: typography.title,
             fontWeight: 'bold',
             color: colors.text,
             marginBottom: StyleTokens.spacing.sm,
         },
         subtitle: {
-            fontSize: StyleTokens.fontSize.lg,
+            fontSize: typography.lg,
             color: colors.textSecondary,
             textAlign: 'center',
             marginBottom: StyleTokens.spacing.xl,
         },
         sectionTitle: {
-            fontSize: StyleTokens.fontSize.xxl,
+            fontSize: typography.xxl,
             fontWeight: '600',
             color: colors.text,
             marginBottom: StyleTokens.spacing.lg,
@@ -59,7 +60,7 @@ export const createCommonStyles = (colors: ThemeColors) => {
         },
         primaryButtonText: {
             color: '#fff',
-            fontSize: StyleTokens.fontSize.lg,
+            fontSize: typography.lg,
             fontWeight: '600',
         },
         secondaryButton: {
@@ -71,7 +72,7 @@ export const createCommonStyles = (colors: ThemeColors) => {
         },
         secondaryButtonText: {
             color: colors.text,
-            fontSize: StyleTokens.fontSize.lg,
+            fontSize: typography.lg,
             fontWeight: '600',
         },
 
@@ -82,7 +83,7 @@ export const createCommonStyles = (colors: ThemeColors) => {
             borderWidth: 1,
             borderRadius: StyleTokens.borderRadius.sm,
             padding: StyleTokens.spacing.md,
-            fontSize: StyleTokens.fontSize.lg,
+            fontSize: typography.lg,
             color: colors.text,
         },
 
@@ -101,7 +102,7 @@ export const createCommonStyles = (colors: ThemeColors) => {
             maxWidth: 400,
         },
         modalTitle: {
-            fontSize: StyleTokens.fontSize.xxl,
+            fontSize: typography.xxl,
             fontWeight: 'bold',
             color: colors.text,
             marginBottom: StyleTokens.spacing.xl,
@@ -134,7 +135,7 @@ export const createCommonStyles = (colors: ThemeColors) => {
             paddingVertical: 40,
         },
         emptyText: {
-            fontSize: StyleTokens.fontSize.lg,
+            fontSize: typography.lg,
             color: colors.textSecondary,
             textAlign: 'center',
         },
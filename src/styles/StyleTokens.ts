@@ -1,3 +1,5 @@
+import type { FontSizePreference } from '../store/settingsStore';
+
 /**
  * Design tokens for consistent styling across the app
  */
@@ -35,3 +37,30 @@ export const StyleTokens = {
         },
     },
 } as const;
+
+/**
+ * Multiplier applied to every font size for the text size setting
+ */
+export const FontScales: Record<FontSizePreference, number> = {
+    small: 0.85,
+    medium: 1,
+    large: 1.3,
+};
+
+export type Typography = { -readonly [K in keyof typeof StyleTokens.fontSize]: number };
+
+/**
+ * Scale a font size, rounded to whole points so text stays crisp
+ */
+export const scaleFontSize = (size: number, fontScale: number): number => Math.round(size * fontScale);
+
+/**
+ * StyleTokens.fontSize scaled for the text size setting
+ */
+export const getTypography = (fontScale: number): Typography => {
+    const typography = {} as Typography;
+    (Object.keys(StyleTokens.fontSize) as (keyof Typography)[]).forEach(key => {
+        typography[key] = scaleFontSize(StyleTokens.fontSize[key], fontScale);
+    });
+    return typography;
+};
@@ -1,4 +1,5 @@
 import { createCommonStyles } from '../CommonStyles';
+import { getTypography } from '../StyleTokens';
 import { ThemeColors } from '../../contexts/ThemeContext';
 
 // Mock theme colors for testing
@@ -149,4 +150,12 @@ describe('createCommonStyles', () => {
         expect(darkStyles.container.backgroundColor).toBe(darkColors.background);
         expect(darkStyles.title.color).toBe(darkColors.text);
     });
+
+    it('uses scaled typography when given', () => {
+        const largeStyles = createCommonStyles(mockColors, getTypography(1.3));
+
+        expect(largeStyles.title.fontSize).toBe(36);
+        expect(largeStyles.subtitle.fontSize).toBe(21);
+        expect(largeStyles.input.fontSize).toBe(21);
+    });
 });
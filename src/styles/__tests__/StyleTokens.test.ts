@@ -1,4 +1,4 @@
-import { StyleTokens } from '../StyleTokens';
+import { StyleTokens, FontScales, scaleFontSize, getTypography } from '../StyleTokens';
 
 describe('StyleTokens', () => {
     describe('spacing', () => {
@@ -74,4 +74,28 @@ describe('StyleTokens', () => {
             expect(StyleTokens.shadows.small.elevation).toBe(3);
         });
     });
+
+    describe('font scaling', () => {
+        it('leaves medium text unscaled', () => {
+            expect(FontScales.medium).toBe(1);
+            expect(getTypography(FontScales.medium)).toEqual(StyleTokens.fontSize);
+        });
+
+        it('orders the text size settings from smallest to largest', () => {
+            expect(FontScales.small).toBeLessThan(FontScales.medium);
+            expect(FontScales.large).toBeGreaterThan(FontScales.medium);
+        });
+
+        it('rounds scaled sizes to whole points', () => {
+            expect(scaleFontSize(16, 1.3)).toBe(21);
+            expect(scaleFontSize(14, 0.85)).toBe(12);
+        });
+
+        it('scales every font size token', () => {
+            const typography = getTypography(FontScales.large);
+            expect(typography.title).toBe(36);
+            expect(typography.lg).toBe(21);
+            expect(Object.keys(typography)).toEqual(Object.keys(StyleTokens.fontSize));
+        });
+    });
 });
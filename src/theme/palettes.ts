@@ -0,0 +1,172 @@
+import { ThemeColors, ThemePalette } from '../types/theme';
+
+export const DEFAULT_THEME_ID = 'default';
+
+export const lightTheme: ThemeColors = {
+  primary: '#007AFF',
+  secondary: '#007AFF',
+  // dyor background
+  background: '#ffffff',
+  // dyor top nav
+  surface: '#ffffff',
+  text: '#333333',
+  textSecondary: '#666666',
+  border: '#e0e0e0',
+  success: '#28A745',
+  warning: '#FFC107',
+  error: '#DC3545',
+  info: '#17A2B8',
+  card: '#ffffff',
+};
+
+export const darkTheme: ThemeColors = {
+  primary: '#0A84FF',
+  secondary: '#5E5CE6',
+  background: '#000000',
+  // dyor: top nav color
+  surface: '#1C1C1E',
+  text: '#FFFFFF',
+  textSecondary: '#AEAEB2',
+  border: '#38383A',
+  success: '#30D158',
+  warning: '#FF9F0A',
+  error: '#FF453A',
+  info: '#64D2FF',
+  card: '#1C1C1E',
+};
+
+// Built-in palettes; names are translated through theme.presets.<id>
+export const THEME_PRESETS: ThemePalette[] = [
+  {
+    id: DEFAULT_THEME_ID,
+    name: 'Sparks',
+    light: lightTheme,
+    dark: darkTheme,
+    builtIn: true,
+  },
+  {
+    // Black on white (and white on black) with saturated, dark accents
+    id: 'high-contrast',
+    name: 'High Contrast',
+    light: {
+      primary: '#0033CC',
+      secondary: '#5A00B4',
+      background: '#FFFFFF',
+      surface: '#FFFFFF',
+      text: '#000000',
+      textSecondary: '#1A1A1A',
+      border: '#000000',
+      success: '#006400',
+      warning: '#8A4B00',
+      error: '#B00000',
+      info: '#00507A',
+      card: '#FFFFFF',
+    },
+    dark: {
+      primary: '#4D94FF',
+      secondary: '#C69CFF',
+      background: '#000000',
+      surface: '#000000',
+      text: '#FFFFFF',
+      textSecondary: '#F2F2F2',
+      border: '#FFFFFF',
+      success: '#4CFF72',
+      warning: '#FFB020',
+      error: '#FF6B6B',
+      info: '#66E0FF',
+      card: '#000000',
+    },
+    builtIn: true,
+  },
+  {
+    // Okabe-Ito colors, which stay distinct with the common forms of color blindness
+    id: 'color-blind-safe',
+    name: 'Color-Blind Safe',
+    light: {
+      primary: '#0072B2',
+      secondary: '#CC79A7',
+      background: '#FFFFFF',
+      surface: '#FFFFFF',
+      text: '#222222',
+      textSecondary: '#555555',
+      border: '#D9D9D9',
+      success: '#009E73',
+      warning: '#E69F00',
+      error: '#D55E00',
+      info: '#56B4E9',
+      card: '#FFFFFF',
+    },
+    dark: {
+      primary: '#56B4E9',
+      secondary: '#CC79A7',
+      background: '#000000',
+      surface: '#1C1C1E',
+      text: '#FFFFFF',
+      textSecondary: '#BBBBBB',
+      border: '#3A3A3C',
+      success: '#009E73',
+      warning: '#E69F00',
+      error: '#D55E00',
+      info: '#F0E442',
+      card: '#1C1C1E',
+    },
+    builtIn: true,
+  },
+  {
+    id: 'paper',
+    name: 'Paper',
+    light: {
+      primary: '#8B5A2B',
+      secondary: '#A0522D',
+      background: '#F8F1E3',
+      surface: '#FBF6EC',
+      text: '#3B2F25',
+      textSecondary: '#6B5B4B',
+      border: '#E2D5BF',
+      success: '#4F7F3A',
+      warning: '#C08A1E',
+      error: '#B4442C',
+      info: '#3F7A8C',
+      card: '#FBF6EC',
+    },
+    dark: {
+      primary: '#D9A066',
+      secondary: '#C98B5E',
+      background: '#1E1A16',
+      surface: '#2A241E',
+      text: '#F1E7D8',
+      textSecondary: '#BFAF99',
+      border: '#3F362C',
+      success: '#7FB069',
+      warning: '#E0B04C',
+      error: '#E07A5F',
+      info: '#7FB7C9',
+      card: '#2A241E',
+    },
+    builtIn: true,
+  },
+];
+
+// Swatches offered for per-spark accents
+export const ACCENT_COLORS = [
+  '#007AFF',
+  '#5856D6',
+  '#AF52DE',
+  '#FF2D55',
+  '#FF3B30',
+  '#FF9500',
+  '#E69F00',
+  '#34C759',
+  '#009E73',
+  '#00C7BE',
+  '#0072B2',
+  '#8E8E93',
+];
+
+/**
+ * The palette with this id, or the default palette when it no longer exists
+ */
+export const getThemePalette = (themeId: string, customThemes: ThemePalette[] = []): ThemePalette =>
+  THEME_PRESETS.find(palette => palette.id === themeId) ||
+  customThemes.find(palette => palette.id === themeId) ||
+  THEME_PRESETS[0];
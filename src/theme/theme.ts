@@ -12,6 +12,8 @@ export const lightTheme: Theme = {
     success: '#34C759',
     warning: '#FF9500',
     error: '#FF3B30',
+    info: '#17A2B8',
+    card: '#ffffff',
   },
   spacing: {
     xs: 4,
@@ -55,6 +57,8 @@ export const darkTheme: Theme = {
     success: '#32D74B',
     warning: '#FF9F0A',
     error: '#FF453A',
+    info: '#64D2FF',
+    card: '#2c2c2e',
   },
   spacing: {
     xs: 4,
@@ -0,0 +1,34 @@
+import { SparkEventType } from './spark';
+
+export type AutomationTrigger =
+  | { type: 'weekly'; weekday: number } // 0 = Sunday
+  | { type: 'event-approaching'; daysBefore: number } // A Coming Up event is this many days away
+  | { type: 'spark-event'; eventType: SparkEventType; sparkId?: string }; // Any spark when sparkId is unset
+
+// A spark action as run by CommandExecutor. Params may contain {placeholders}
+// filled from the trigger, e.g. "Pack for {title}".
+export interface AutomationAction {
+  targetSpark: string;
+  action: string;
+  params: Record<string, string>;
+}
+
+export interface AutomationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  trigger: AutomationTrigger;
+  action: AutomationAction;
+  createdAt: string;
+  firedKeys: string[]; // Recent occurrences already handled, so each runs only once
+}
+
+export interface AutomationRunLogEntry {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  timestamp: string;
+  reason: string; // What made the rule run, e.g. "Monday" or "Beach trip in 7 days"
+  success: boolean;
+  message: string; // CommandExecutor's result or the error
+}
@@ -0,0 +1,17 @@
+export type AppLanguage = 'en' | 'es' | 'fr' | 'de';
+
+// A string that depends on a count, e.g. "1 file" / "3 files"
+export interface PluralForms {
+  one: string;
+  other: string;
+}
+
+// The same keys as the English catalog, with every string translated
+export type CatalogShape<T> = {
+  [K in keyof T]: T[K] extends string ? string : T[K] extends PluralForms ? PluralForms : CatalogShape<T[K]>;
+};
+
+// Dotted path to every string of a catalog, e.g. "settings.backup.title"
+export type CatalogKey<T> = {
+  [K in keyof T & string]: T[K] extends string | PluralForms ? K : `${K}.${CatalogKey<T[K]>}`;
+}[keyof T & string];
@@ -4,12 +4,21 @@ export type RootTabParamList = {
   Settings: undefined;
 };
 
+// Optional params on Spark routes:
+// - action: deep link action run through CommandExecutor before the spark opens
+// - any other key is forwarded to the spark component as a prop (e.g. tripId)
+export type SparkRouteParams = {
+  sparkId: string;
+  action?: string;
+  [param: string]: any;
+};
+
 export type MySparkStackParamList = {
   MySparksList: undefined;
-  Spark: { sparkId: string };
+  Spark: SparkRouteParams;
 };
 
 export type MarketplaceStackParamList = {
   MarketplaceList: undefined;
-  Spark: { sparkId: string };
-};
\ No newline at end of file
+  Spark: SparkRouteParams;
+};
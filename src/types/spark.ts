@@ -8,7 +8,20 @@ export interface SparkMetadata {
   createdAt: string; // ISO date string
   rating: number; // 1-5 stars
   archived?: boolean; // Optional flag for archived sparks
-  properties?: string[]; // Optional properties like 'AI', 'Shareable', etc.
+  manifest?: SparkManifest; // What the spark needs and does beyond its own data
+}
+
+// Device features that need the user's permission
+export type SparkCapability = 'camera' | 'microphone' | 'location' | 'notifications' | 'media-library';
+
+// Declared up front so users can see what a spark uses before adding it.
+// Each entry explains, in the user's terms, why the spark needs it.
+export interface SparkManifest {
+  capabilities?: Partial<Record<SparkCapability, string>>; // Permissions requested before the spark opens
+  network?: string; // What it fetches or sends over the internet
+  ai?: string; // What it sends to the AI service
+  sharing?: string; // What it can share with other people or apps
+  beta?: boolean;
 }
 
 export interface SparkConfig {
@@ -27,7 +40,120 @@ export interface SparkProps {
   onCloseSettings?: () => void;
 }
 
+// Upgrades a spark's persisted data by exactly one schema version
+export type SparkDataMigration = (data: Record<string, any>) => Record<string, any>;
+
+export interface SparkDataSchema {
+  version: number; // Current schema version of the spark's persisted data
+  migrations: SparkDataMigration[]; // migrations[n] upgrades data from version n to n + 1
+}
+
+export type SparkDataFormat = 'csv' | 'json' | 'markdown';
+
+// Converts a spark's data to and from a human-editable file
+export interface SparkDataAdapter {
+  format: SparkDataFormat;
+  description: string; // Shown in settings, e.g. "Weight entries as CSV"
+  exportData: (data: Record<string, any>) => string;
+  // Returns the spark's full updated data; throws an Error with a user-facing message on bad input
+  importData: (content: string, data: Record<string, any>) => Record<string, any>;
+}
+
+// One searchable item in a spark's data (a todo, a recipe, a dream...)
+export interface SparkSearchDocument {
+  id: string; // Unique within the spark
+  title: string;
+  subtitle?: string; // Shown under the title in results
+  body?: string; // Extra searchable text that is not shown
+  params?: Record<string, string>; // Route params that open the spark at this item
+}
+
+// Lists a spark's searchable items from its persisted data
+export type SparkSearchIndexer = (data: Record<string, any>) => SparkSearchDocument[];
+
+// Files a spark keeps on disk, for the storage report and orphan cleanup
+export interface SparkFileStorage {
+  directories: string[]; // Folders under documentDirectory the spark owns, e.g. "foodcam/"
+  getFileUris: (data: Record<string, any>) => string[]; // Files the data references, relative or absolute
+}
+
+// Activity sparks publish on SparkEventBus, keyed by event type
+export interface SparkEventMap {
+  'todo.completed': { taskId: string; text: string };
+  'round.finished': { roundId: string; courseName?: string; totalStrokes?: number };
+  'weight.logged': { entryId: string; weight: number; unit: 'lbs' | 'kg' };
+  'flashcard.reviewed': { cardId: number; correct: boolean };
+  'trip.created': { tripId: string; title: string };
+}
+
+export type SparkEventType = keyof SparkEventMap;
+
+export interface SparkEvent<T extends SparkEventType = SparkEventType> {
+  id: string;
+  type: T;
+  sparkId: string; // Spark that published the event
+  payload: SparkEventMap[T];
+  timestamp: string; // ISO date string
+}
+
+// Updates a spark's persisted data in response to another spark's event; returns null to leave it unchanged
+export type SparkEventHandler = (event: SparkEvent, data: Record<string, any>) => Record<string, any> | null;
+
+// One parameter of a voice intent. Values are checked and converted before the handler runs:
+// numbers are parsed, dates become YYYY-MM-DD, lists accept comma-separated text,
+// and options are matched case-insensitively to their canonical spelling.
+export interface SparkIntentParam {
+  type: 'string' | 'number' | 'date' | 'list';
+  description: string; // For the command parser, e.g. "the task to add"
+  required?: boolean;
+  options?: string[]; // Allowed values, e.g. ['lbs', 'kg']
+  synonyms?: Record<string, string>; // Spoken words for options, e.g. { pounds: 'lbs' }
+  multiple?: boolean; // Said as a list ("milk, eggs and bread"), the command runs once per item
+  hidden?: boolean; // Set by the app (e.g. from a picked choice), never described to the command parser
+}
+
+// One way to carry out a command that matched several items, for the user to pick
+export interface SparkIntentChoice {
+  label: string; // e.g. "Buy milk (due 2026-10-30)"
+  params: Record<string, any>; // The command's params narrowed to one item
+}
+
+// An event for CommandExecutor to publish on SparkEventBus once the data is saved
+export type SparkIntentEvent = { [T in SparkEventType]: { type: T; payload: SparkEventMap[T] } }[SparkEventType];
+
+// What a handler did: the spark's updated data (omitted when nothing changed) and a reply for the user
+export interface SparkIntentResult {
+  message: string;
+  data?: Record<string, any>;
+  choices?: SparkIntentChoice[]; // Several items matched and nothing was changed; the message asks which one
+  trashed?: { collection: string; item: { id: string | number }; label: string }[]; // Removed items to keep in the trash
+  events?: SparkIntentEvent[];
+}
+
+// Something a spark can do from a voice command, deep link or automation
+export interface SparkVoiceIntent {
+  action: string; // e.g. "add"
+  aliases?: string[]; // Other action names that mean the same, e.g. "create"
+  description: string; // For the command parser, e.g. "Add a task"
+  keywords?: string[]; // Phrases that usually mean this intent, e.g. "remind me"
+  params: Record<string, SparkIntentParam>;
+  examples: { text: string; params: Record<string, any> }[];
+  // Phrasings the offline parser recognizes, e.g. "remind me to {text}". Words match
+  // case-insensitively; [a|an] is optional, (todo|task) picks one, {param} fills a param.
+  // A date said at the end of a phrase fills the intent's date param when no slot does.
+  phrases?: string[];
+  // Throws an Error with a user-facing message when the command can't be carried out
+  handler: (params: Record<string, any>, data: Record<string, any>, now: Date) => SparkIntentResult;
+}
+
 export interface BaseSpark {
   metadata: SparkMetadata;
-  component: React.ComponentType<SparkProps>;
+  loadComponent: () => Promise<React.ComponentType<SparkProps>>; // Loaded when the spark is first opened
+  dataSchema?: SparkDataSchema; // Optional versioning for data stored in sparkStore
+  dataAdapter?: SparkDataAdapter; // Optional per-spark import/export
+  searchIndexer?: SparkSearchIndexer; // Optional global search support
+  fileStorage?: SparkFileStorage; // Optional accounting of files on disk
+  cloudSync?: boolean; // Sync sparkData to the signed-in account (data must not point at device files)
+  eventHandler?: SparkEventHandler; // Optional reaction to other sparks' activity, even while closed
+  voiceIntents?: SparkVoiceIntent[]; // Optional voice commands, also used by deep links and automations
 }
\ No newline at end of file
@@ -1,16 +1,30 @@
+// The schema every theme palette is validated against; all values are hex colors
+export interface ThemeColors {
+  primary: string;
+  secondary: string;
+  background: string;
+  surface: string;
+  text: string;
+  textSecondary: string;
+  border: string;
+  success: string;
+  warning: string;
+  error: string;
+  info: string;
+  card: string;
+}
+
+// A named set of colors for light and dark mode, built in or made in the theme editor
+export interface ThemePalette {
+  id: string;
+  name: string;
+  light: ThemeColors;
+  dark: ThemeColors;
+  builtIn?: boolean;
+}
+
 export interface Theme {
-  colors: {
-    primary: string;
-    secondary: string;
-    background: string;
-    surface: string;
-    text: string;
-    textSecondary: string;
-    border: string;
-    success: string;
-    warning: string;
-    error: string;
-  };
+  colors: ThemeColors;
   spacing: {
     xs: number;
     sm: number;
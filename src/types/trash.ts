@@ -0,0 +1,10 @@
+// An item a spark deleted, kept so it can be restored for a while
+export interface TrashedItem {
+  id: string;
+  sparkId: string;
+  collection: string; // Key of the list in the spark's data the item was removed from
+  itemId: string | number;
+  item: Record<string, any>; // The item as it was stored
+  label: string; // Shown in the Trash
+  deletedAt: string; // ISO date string
+}
@@ -0,0 +1,98 @@
+import { AutomationRule } from '../../types/automation';
+import { findDueFirings, fillParams, matchesSparkEvent, sparkEventFiring, rememberFiring, describeTrigger } from '../automationRules';
+
+const rule = (trigger: AutomationRule['trigger'], firedKeys: string[] = []): AutomationRule => ({
+    id: 'r1',
+    name: 'Rule',
+    enabled: true,
+    trigger,
+    action: { targetSpark: 'todo', action: 'create', params: { text: 'x' } },
+    createdAt: '2026-01-01T00:00:00.000Z',
+    firedKeys,
+});
+
+// Monday 5 October 2026, local time
+const monday = new Date(2026, 9, 5, 9, 30);
+
+describe('automationRules', () => {
+    it('fires a weekly rule once on its weekday', () => {
+        const weekly = rule({ type: 'weekly', weekday: 1 });
+        const firings = findDueFirings(weekly, monday, {});
+
+        expect(firings).toEqual([{ key: 'weekly:2026-10-05', reason: 'Monday', context: { date: '2026-10-05' } }]);
+        expect(findDueFirings({ ...weekly, firedKeys: ['weekly:2026-10-05'] }, monday, {})).toEqual([]);
+        expect(findDueFirings(weekly, new Date(2026, 9, 6), {})).toEqual([]);
+    });
+
+    it('fires for Coming Up events within range, including ones missed while closed', () => {
+        const sparkData = {
+            'coming-up': {
+                events: [
+                    { id: 'e1', title: 'Beach trip', date: '2026-10-12' }, // 7 days away
+                    { id: 'e2', title: 'Dinner', date: '2026-10-08' }, // 3 days away
+                    { id: 'e3', title: 'Wedding', date: '2026-11-20' },
+                    { id: 'e4', title: 'Party', date: '2026-10-01' }, // Past
+                ],
+            },
+        };
+        const firings = findDueFirings(rule({ type: 'event-approaching', daysBefore: 7 }), monday, sparkData);
+
+        expect(firings.map(f => f.key)).toEqual(['event:e1:2026-10-12', 'event:e2:2026-10-08']);
+        expect(firings[0].context).toEqual({ title: 'Beach trip', date: '2026-10-12' });
+        expect(firings[0].reason).toBe('Beach trip in 7 days');
+    });
+
+    it('fires for each year of an annual event', () => {
+        const sparkData = {
+            'coming-up': {
+                events: [{ id: 'b1', title: "Mom's birthday", date: '1960-10-09', type: 'annual' }], // 4 days away
+            },
+        };
+        const approaching = rule({ type: 'event-approaching', daysBefore: 7 });
+        const firings = findDueFirings(approaching, monday, sparkData);
+
+        expect(firings).toEqual([{
+            key: 'event:b1:2026-10-09',
+            reason: "Mom's birthday in 4 days",
+            context: { title: "Mom's birthday", date: '2026-10-09' },
+        }]);
+        expect(findDueFirings({ ...approaching, firedKeys: ['event:b1:2026-10-09'] }, monday, sparkData)).toEqual([]);
+        expect(findDueFirings({ ...approaching, firedKeys: ['event:b1:2026-10-09'] }, new Date(2027, 9, 4), sparkData)
+            .map(f => f.key)).toEqual(['event:b1:2027-10-09']);
+    });
+
+    it('matches spark events by type and optional source spark', () => {
+        const event = {
+            id: 'ev1',
+            type: 'round.finished' as const,
+            sparkId: 'skins',
+            payload: { roundId: '42' },
+            timestamp: '2026-10-05T10:00:00.000Z',
+        };
+
+        expect(matchesSparkEvent(rule({ type: 'spark-event', eventType: 'round.finished', sparkId: 'skins' }), event)).toBe(true);
+        expect(matchesSparkEvent(rule({ type: 'spark-event', eventType: 'round.finished' }), event)).toBe(true);
+        expect(matchesSparkEvent(rule({ type: 'spark-event', eventType: 'round.finished', sparkId: 'scorecard' }), event)).toBe(false);
+        expect(matchesSparkEvent(rule({ type: 'weekly', weekday: 1 }), event)).toBe(false);
+        expect(sparkEventFiring(event).context).toEqual({ sparkId: 'skins', date: '2026-10-05', roundId: '42' });
+    });
+
+    it('fills placeholders and leaves unknown ones', () => {
+        expect(fillParams({ item: 'Sunscreen for {title}', note: '{missing}' }, { title: 'Beach trip' }))
+            .toEqual({ item: 'Sunscreen for Beach trip', note: '{missing}' });
+    });
+
+    it('keeps a bounded list of fired keys', () => {
+        let keys: string[] = [];
+        for (let i = 0; i < 60; i++) {
+            keys = rememberFiring(keys, `k${i}`);
+        }
+        expect(keys).toHaveLength(50);
+        expect(keys[49]).toBe('k59');
+    });
+
+    it('describes triggers', () => {
+        expect(describeTrigger({ type: 'weekly', weekday: 1 })).toBe('Every Monday');
+        expect(describeTrigger({ type: 'event-approaching', daysBefore: 1 })).toBe('When a Coming Up event is 1 day away');
+    });
+});
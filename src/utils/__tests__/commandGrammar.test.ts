@@ -0,0 +1,418 @@
+import {
+    parseLocalCommand,
+    parseLocalCommands,
+    splitListCommands,
+    parseSpokenDate,
+    parseSpokenNumber,
+    splitTrailingDate,
+    findSparkByName,
+    checkIntentPhrases,
+} from '../commandGrammar';
+import { BaseSpark, SparkVoiceIntent } from '../../types/spark';
+import { spinnerVoiceIntents } from '../../sparks/SpinnerSpark/voiceIntents';
+import { packingListVoiceIntents } from '../../sparks/PackingListSpark/voiceIntents';
+import { todoVoiceIntents } from '../../sparks/TodoSpark/voiceIntents';
+import { toviewVoiceIntents } from '../../sparks/ToviewSpark/voiceIntents';
+import { weightTrackerVoiceIntents } from '../../sparks/WeightTrackerSpark/voiceIntents';
+import { comingUpVoiceIntents } from '../../sparks/ComingUpSpark/voiceIntents';
+import { shopVoiceIntents } from '../../sparks/ShopSpark/voiceIntents';
+import { goalTrackerVoiceIntents } from '../../sparks/GoalTrackerSpark/voiceIntents';
+import { ideasVoiceIntents } from '../../sparks/IdeasSpark/voiceIntents';
+import { golfBrainVoiceIntents } from '../../sparks/GolfBrainSpark/voiceIntents';
+import { scorecardVoiceIntents } from '../../sparks/ScorecardSpark/voiceIntents';
+
+const spark = (id: string, title: string, voiceIntents?: SparkVoiceIntent[], archived?: boolean): BaseSpark => ({
+    metadata: {
+        id,
+        title,
+        description: '',
+        icon: '✨',
+        category: 'utility',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        rating: 4,
+        archived,
+    },
+    loadComponent: jest.fn(),
+    voiceIntents,
+});
+
+// Same titles, ids and order as the registry
+const sparks: BaseSpark[] = [
+    spark('spinner', 'Decision Spinner', spinnerVoiceIntents),
+    spark('packing-list', 'Packing List', packingListVoiceIntents),
+    spark('todo', 'Todo List', todoVoiceIntents),
+    spark('toview', 'Toview', toviewVoiceIntents),
+    spark('golf-brain', 'Golf Brain', golfBrainVoiceIntents),
+    spark('quick-convert', 'Quick Convert'),
+    spark('trip-story', 'TripStory'),
+    spark('golfWisdom', 'Golf Wisdom'),
+    spark('weight-tracker', 'Weight Tracker', weightTrackerVoiceIntents),
+    spark('coming-up', 'Coming Up', comingUpVoiceIntents),
+    spark('shop', 'Shop', shopVoiceIntents),
+    spark('speak-spark', 'Speak Spark'),
+    spark('goal-tracker', 'Goal Tracker', goalTrackerVoiceIntents),
+    spark('scorecard', 'Scorecard', scorecardVoiceIntents),
+    spark('ideas', 'Ideas', ideasVoiceIntents),
+    spark('business-spark', 'Empire', [], true),
+];
+
+// Friday 30 October 2026, local time
+const now = new Date(2026, 9, 30, 18, 0);
+
+describe('commandGrammar', () => {
+    describe('parseLocalCommand', () => {
+        it.each<[string, string, string, Record<string, any>]>([
+            // Todo
+            ['add todo buy milk tomorrow', 'todo', 'add', { text: 'Buy milk', dueDate: '2026-10-31' }],
+            ['Add a todo to buy milk', 'todo', 'add', { text: 'Buy milk' }],
+            ['Remind me to call Mom tomorrow', 'todo', 'add', { text: 'Call Mom', dueDate: '2026-10-31' }],
+            ['Add a todo to Work category to finish report', 'todo', 'add', { text: 'Finish report', category: 'Work' }],
+            ['create a task to finish the report by friday', 'todo', 'add', { text: 'Finish the report', dueDate: '2026-11-06' }],
+            ['new to-do pay rent on the 1st', 'todo', 'add', { text: 'Pay rent', dueDate: '2026-11-01' }],
+            ['add call the plumber to my todo list', 'todo', 'add', { text: 'Call the plumber' }],
+            ['please add a task to renew passport in the Errands category', 'todo', 'add', { text: 'Renew passport', category: 'Errands' }],
+            ['Hey Sparks, remind me to water the plants.', 'todo', 'add', { text: 'Water the plants' }],
+            ['remind me to book flights on march 3rd', 'todo', 'add', { text: 'Book flights', dueDate: '2027-03-03' }],
+            ['add a todo to email Sam in 3 days', 'todo', 'add', { text: 'Email Sam', dueDate: '2026-11-02' }],
+            ['Add a to do for groceries', 'todo', 'add', { text: 'Groceries' }],
+            ['mark buy milk done', 'todo', 'complete', { item: 'Buy milk' }],
+            ['check off the dentist task as complete', 'todo', 'complete', { item: 'Dentist' }],
+            ['i finished the report todo', 'todo', 'complete', { item: 'Report' }],
+            ['move dentist todo to Friday', 'todo', 'move', { item: 'Dentist', dueDate: '2026-11-06' }],
+            ['postpone my taxes task to next week', 'todo', 'move', { item: 'Taxes', dueDate: '2026-11-06' }],
+            ['rename the milk todo to buy oat milk', 'todo', 'update', { item: 'Milk', text: 'Buy oat milk' }],
+            ['delete the dentist todo', 'todo', 'delete', { item: 'Dentist' }],
+            ['take call the plumber off my to do list', 'todo', 'delete', { item: 'Call the plumber' }],
+            ['How many todos are due today?', 'todo', 'query', { dueDate: '2026-10-30' }],
+            ["what's on my todo list for tomorrow", 'todo', 'query', { dueDate: '2026-10-31' }],
+            ['how many tasks do i have', 'todo', 'query', {}],
+
+            // Weight Tracker
+            ['my weight is 182 pounds', 'weight-tracker', 'add', { weight: 182, unit: 'lbs' }],
+            ['Weight is 150 lbs', 'weight-tracker', 'add', { weight: 150, unit: 'lbs' }],
+            ['Add weight 70 kg', 'weight-tracker', 'add', { weight: 70, unit: 'kg' }],
+            ['I weigh 81.5 kilos', 'weight-tracker', 'add', { weight: 81.5, unit: 'kg' }],
+            ['log my weight at 176', 'weight-tracker', 'add', { weight: 176 }],
+            ['i weighed in at one hundred eighty two pounds', 'weight-tracker', 'add', { weight: 182, unit: 'lbs' }],
+            ['log 80 kilograms', 'weight-tracker', 'add', { weight: 80, unit: 'kg' }],
+            ['my weight is now 79 kg', 'weight-tracker', 'add', { weight: 79, unit: 'kg' }],
+            ["What's my weight trend this month?", 'weight-tracker', 'query', { period: 'month' }],
+            ['how much weight have I lost over the last week', 'weight-tracker', 'query', { period: 'week' }],
+            ['how is my weight trending', 'weight-tracker', 'query', {}],
+
+            // Toview
+            ['add movie Dune on Netflix', 'toview', 'add', { title: 'Dune', type: 'Movie', provider: 'Netflix' }],
+            [
+                'Add a toview for a movie called the Wolf of Wallstreet on Netflix',
+                'toview',
+                'add',
+                { title: 'The Wolf of Wallstreet', type: 'Movie', provider: 'Netflix' },
+            ],
+            ['Watch a show called Slow Horses on Apple TV', 'toview', 'add', { title: 'Slow Horses', type: 'Show', provider: 'Apple TV' }],
+            ['Read a book called The Hobbit', 'toview', 'add', { title: 'The Hobbit', type: 'Book' }],
+            ['add a film called Arrival to watch with Tom and Jerry', 'toview', 'add', { title: 'Arrival', type: 'Movie', watchWith: ['Tom', 'Jerry'] }],
+            ['add the series Severance', 'toview', 'add', { title: 'Severance', type: 'Show' }],
+            ['add Oppenheimer to my watchlist', 'toview', 'add', { title: 'Oppenheimer' }],
+            ['put the book thief on my reading list', 'toview', 'add', { title: 'The book thief' }],
+            ['remove Dune from my watch list', 'toview', 'delete', { item: 'Dune' }],
+            ['I watched Slow Horses', 'toview', 'complete', { item: 'Slow Horses' }],
+            ['mark the hobbit as read', 'toview', 'complete', { item: 'The hobbit' }],
+
+            // Packing List
+            ['Add sunscreen to my packing list', 'packing-list', 'add', { item: 'Sunscreen' }],
+            ['Pack 5 pairs of socks', 'packing-list', 'add', { item: 'Pairs of socks', count: 5 }],
+            ["don't forget to pack my passport", 'packing-list', 'add', { item: 'Passport' }],
+            ['pack two phone chargers', 'packing-list', 'add', { item: 'Phone chargers', count: 2 }],
+            ['put a toothbrush in the packing list', 'packing-list', 'add', { item: 'Toothbrush' }],
+            ['mark sunscreen as packed', 'packing-list', 'complete', { item: 'Sunscreen' }],
+            ["I've packed my passport", 'packing-list', 'complete', { item: 'Passport' }],
+            ['take the umbrella off my packing list', 'packing-list', 'delete', { item: 'The umbrella' }],
+
+            // Goal Tracker
+            ['Log progress on read 20 books', 'goal-tracker', 'log', { goal: 'Read 20 books' }],
+            ['I did my workout goal today', 'goal-tracker', 'log', { goal: 'Workout' }],
+            ['record my meditation goal', 'goal-tracker', 'log', { goal: 'Meditation' }],
+
+            // Coming Up
+            ["Mom's birthday is tomorrow", 'coming-up', 'add', { title: "Mom's birthday", date: '2026-10-31' }],
+            ['Add a trip to Lisbon on June 12, 2027', 'coming-up', 'add', { title: 'Trip to Lisbon', date: '2027-06-12' }],
+            [
+                'add a party event called Halloween bash on october 31st',
+                'coming-up',
+                'add',
+                { title: 'Halloween bash', date: '2026-10-31', category: 'party' },
+            ],
+            ['the dentist is on monday', 'coming-up', 'add', { title: 'The dentist', date: '2026-11-02' }],
+            ['schedule the team offsite for the 12th of june', 'coming-up', 'add', { title: 'Team offsite', date: '2027-06-12' }],
+            ['our anniversary is coming up on december 5th', 'coming-up', 'add', { title: 'Our anniversary', date: '2026-12-05' }],
+            ['cancel the dentist event', 'coming-up', 'delete', { item: 'Dentist' }],
+            ['reschedule the Lisbon trip event to july 3rd', 'coming-up', 'move', { item: 'Lisbon trip', date: '2027-07-03' }],
+            ["How many days until Mom's birthday?", 'coming-up', 'query', { item: "Mom's birthday" }],
+            ['when is the Lisbon trip', 'coming-up', 'query', { item: 'Lisbon trip' }],
+
+            // Golf Brain and Scorecard
+            ["What's my average score at Tam O'Shanter?", 'golf-brain', 'query', { item: "Tam O'Shanter" }],
+            ["what's my average golf score", 'golf-brain', 'query', {}],
+            ['how have I been playing at Pebble Beach', 'golf-brain', 'query', { item: 'Pebble Beach' }],
+            ["what's my average score at Tam O'Shanter on my scorecard", 'scorecard', 'query', { item: "Tam O'Shanter" }],
+            ['what is my scorecard average', 'scorecard', 'query', {}],
+
+            // Ideas
+            ['New idea: a podcast about local history', 'ideas', 'add', { text: 'A podcast about local history' }],
+            ['Add an idea to try a standing desk', 'ideas', 'add', { text: 'Try a standing desk' }],
+            ['i have an idea for a recipe app', 'ideas', 'add', { text: 'A recipe app' }],
+            ['add standing desks to my ideas', 'ideas', 'add', { text: 'Standing desks' }],
+            ['delete the standing desk idea', 'ideas', 'delete', { item: 'Standing desk' }],
+
+            // Decision Spinner
+            ['Spin the dinner wheel', 'spinner', 'spin', { set: 'Dinner' }],
+            ['Spin where should we travel', 'spinner', 'spin', { set: 'Where should we travel' }],
+            ['use the spinner for movie night', 'spinner', 'spin', { set: 'Movie night' }],
+            ['help me decide lunch', 'spinner', 'spin', { set: 'Lunch' }],
+
+            // Shop
+            ['Add coffee to the shopping list', 'shop', 'add', { item: 'Coffee' }],
+            ["We're out of olive oil", 'shop', 'add', { item: 'Olive oil' }],
+            ['we need more paper towels', 'shop', 'add', { item: 'Paper towels' }],
+            ['put eggs on my grocery list', 'shop', 'add', { item: 'Eggs' }],
+            ['I’m out of coffee filters', 'shop', 'add', { item: 'Coffee filters' }],
+            ['check off coffee', 'shop', 'complete', { item: 'Coffee' }],
+            ['we bought the olive oil', 'shop', 'complete', { item: 'Olive oil' }],
+            ['cross off eggs from the grocery list', 'shop', 'complete', { item: 'Eggs' }],
+            ['remove paper towels from the shopping list', 'shop', 'delete', { item: 'Paper towels' }],
+        ])('"%s" -> %s %s', (text, targetSpark, action, params) => {
+            const command = parseLocalCommand(text, sparks, now);
+            expect(command).toEqual({ targetSpark, action, params, confidence: expect.any(Number), originalText: text, source: 'local' });
+            expect(command.confidence).toBeGreaterThanOrEqual(0.75);
+            expect(command.confidence).toBeLessThanOrEqual(0.95);
+        });
+
+        it.each<[string, string, number]>([
+            ['open golf brain', 'golf-brain', 1],
+            ['Open Trip Story', 'trip-story', 1],
+            ['launch the decision spinner', 'spinner', 1],
+            ['take me to the weight tracker app', 'weight-tracker', 1],
+            ['open speak spark', 'speak-spark', 1],
+            ['show me my ideas', 'ideas', 1],
+            ['open todo', 'todo', 1],
+            ['switch to Quick Convert.', 'quick-convert', 1],
+            ['open golf wisdom', 'golfWisdom', 1],
+            ['go to my goals', 'goal-tracker', 0.8],
+            ['open the packing', 'packing-list', 0.8],
+        ])('"%s" opens %s', (text, targetSpark, confidence) => {
+            expect(parseLocalCommand(text, sparks, now)).toEqual({
+                targetSpark,
+                action: 'open',
+                params: {},
+                confidence,
+                originalText: text,
+                source: 'local',
+            });
+        });
+
+        it.each<[string, string, Record<string, any>]>([
+            ['add hiking boots to packing', 'packing-list', { item: 'Hiking boots' }],
+            ['add sourdough to shop', 'shop', { item: 'Sourdough' }],
+            ['put a new lamp in the ideas list', 'ideas', { text: 'A new lamp' }],
+        ])('"%s" falls back to adding to %s', (text, targetSpark, params) => {
+            expect(parseLocalCommand(text, sparks, now)).toEqual({
+                targetSpark,
+                action: 'add',
+                params,
+                confidence: 0.65,
+                originalText: text,
+                source: 'local',
+            });
+        });
+
+        it.each([
+            "what's the weather like",
+            'open golf',
+            'open the fridge',
+            'add something to the fridge',
+            "mom's birthday is someday",
+            'log progress',
+            'spin',
+            'open empire',
+            '',
+            '   ',
+        ])('does not understand "%s"', text => {
+            expect(parseLocalCommand(text, sparks, now)).toEqual({
+                targetSpark: 'unknown',
+                action: 'unknown',
+                params: {},
+                confidence: 0,
+                originalText: text,
+                source: 'local',
+            });
+        });
+
+        it('is more confident when the phrase explains more of the command', () => {
+            const short = parseLocalCommand('add todo buy milk tomorrow', sparks, now);
+            const long = parseLocalCommand('remind me to ask the landlord about fixing the upstairs bathroom window', sparks, now);
+            expect(short.confidence).toBeGreaterThan(long.confidence);
+        });
+
+        it('prefers the phrase with more of its own words', () => {
+            // Also an event phrase ("add <title> on <date>"), but the todo phrase covers more
+            expect(parseLocalCommand('add a todo to call mom on friday', sparks, now)).toMatchObject({
+                targetSpark: 'todo',
+                params: { text: 'Call mom', dueDate: '2026-11-06' },
+            });
+        });
+    });
+
+    describe('parseLocalCommands', () => {
+        const steps = (text: string) =>
+            parseLocalCommands(text, sparks, now).map(({ targetSpark, action, params }) => [targetSpark, action, params]);
+
+        it.each<[string, [string, string, Record<string, any>][]]>([
+            [
+                'add milk and eggs to my todo list and then open the packing list',
+                [['todo', 'add', { text: 'Milk and eggs' }], ['packing-list', 'open', {}]],
+            ],
+            [
+                'spin the dinner wheel and open shop',
+                [['spinner', 'spin', { set: 'Dinner' }], ['shop', 'open', {}]],
+            ],
+            [
+                'my weight is 180 pounds, then remind me to go for a run tomorrow',
+                [['weight-tracker', 'add', { weight: 180, unit: 'lbs' }], ['todo', 'add', { text: 'Go for a run', dueDate: '2026-10-31' }]],
+            ],
+            [
+                'Add coffee to the shopping list. Pack sunscreen. Open Golf Brain.',
+                [['shop', 'add', { item: 'Coffee' }], ['packing-list', 'add', { item: 'Sunscreen' }], ['golf-brain', 'open', {}]],
+            ],
+            [
+                'pack socks and add a todo to charge the camera after that open todo',
+                [['packing-list', 'add', { item: 'Socks' }], ['todo', 'add', { text: 'Charge the camera' }], ['todo', 'open', {}]],
+            ],
+            // "and" inside a step stays put when the rest isn't a command of its own
+            ['remind me to buy bread and call mom', [['todo', 'add', { text: 'Buy bread and call mom' }]]],
+            ['we need salt and pepper', [['shop', 'add', { item: 'Salt and pepper' }]]],
+            ['add a party event called Drinks and Dinner on Dec. 25', [['coming-up', 'add', { title: 'Drinks and Dinner', date: '2026-12-25', category: 'party' }]]],
+            ['add a todo to check then reply to Sam', [['todo', 'add', { text: 'Check then reply to Sam' }]]],
+            // Unclear steps are kept so the user hears which one failed
+            ['Open shop. Fly me to the moon', [['shop', 'open', {}], ['unknown', 'unknown', {}]]],
+        ])('"%s"', (text, expected) => {
+            expect(steps(text)).toEqual(expected);
+        });
+
+        it('keeps the whole transcript for single commands and each step for compound ones', () => {
+            expect(parseLocalCommands('Open shop.', sparks, now).map(command => command.originalText)).toEqual(['Open shop.']);
+            expect(parseLocalCommands('open shop and open todo', sparks, now).map(command => command.originalText)).toEqual([
+                'open shop',
+                'open todo',
+            ]);
+        });
+    });
+
+    describe('splitListCommands', () => {
+        const command = (targetSpark: string, action: string, params: Record<string, any>) => ({
+            targetSpark,
+            action,
+            params,
+            confidence: 0.9,
+            originalText: 'x',
+        });
+
+        it.each<[string, string, Record<string, any>, Record<string, any>[]]>([
+            ['todo', 'add', { text: 'Milk and eggs' }, [{ text: 'Milk' }, { text: 'Eggs' }]],
+            ['todo', 'add', { text: 'milk, eggs, and bread', dueDate: '2026-10-31' }, [
+                { text: 'Milk', dueDate: '2026-10-31' },
+                { text: 'Eggs', dueDate: '2026-10-31' },
+                { text: 'Bread', dueDate: '2026-10-31' },
+            ]],
+            ['packing-list', 'add', { item: 'Socks, shirts and a hat', count: 2 }, [
+                { item: 'Socks', count: 2 },
+                { item: 'Shirts', count: 2 },
+                { item: 'A hat', count: 2 },
+            ]],
+            ['shop', 'add', { item: ['apples', 'pears'] }, [{ item: 'Apples' }, { item: 'Pears' }]],
+            ['shop', 'add', { item: 'Coffee' }, [{ item: 'Coffee' }]],
+            ['shop', 'add', { item: 'Salt & pepper' }, [{ item: 'Salt' }, { item: 'Pepper' }]],
+            ['shop', 'add', { item: 'Sandwich bread' }, [{ item: 'Sandwich bread' }]],
+            // Only params marked `multiple` are split
+            ['ideas', 'add', { text: 'Rock and roll museum' }, [{ text: 'Rock and roll museum' }]],
+            ['toview', 'add', { title: 'Fast and Furious' }, [{ title: 'Fast and Furious' }]],
+            ['golf-brain', 'open', {}, [{}]],
+        ])('%s %s %j', (targetSpark, action, params, expected) => {
+            expect(splitListCommands([command(targetSpark, action, params)], sparks)).toEqual(
+                expected.map(itemParams => command(targetSpark, action, itemParams))
+            );
+        });
+    });
+
+    describe('parseSpokenDate', () => {
+        it.each<[string, string | undefined]>([
+            ['today', '2026-10-30'],
+            ['tonight', '2026-10-30'],
+            ['tomorrow', '2026-10-31'],
+            ['tomorrow morning', '2026-10-31'],
+            ['the day after tomorrow', '2026-11-01'],
+            ['in 3 days', '2026-11-02'],
+            ['in a week', '2026-11-06'],
+            ['in two weeks', '2026-11-13'],
+            ['next week', '2026-11-06'],
+            ['monday', '2026-11-02'],
+            ['on Monday', '2026-11-02'],
+            ['friday', '2026-11-06'],
+            ['next friday', '2026-11-06'],
+            ['this friday', '2026-10-30'],
+            ['march 3rd', '2027-03-03'],
+            ['Dec. 25', '2026-12-25'],
+            ['June 12, 2027', '2027-06-12'],
+            ['the 12th of june', '2027-06-12'],
+            ['31 october', '2026-10-31'],
+            ['the 15th', '2026-11-15'],
+            ['the 31st', '2026-10-31'],
+            ['2027-01-05', '2027-01-05'],
+            ['february 30', undefined],
+            ['octember 3', undefined],
+            ['someday', undefined],
+            ['182 pounds', undefined],
+            ['may', undefined],
+        ])('"%s" -> %s', (text, expected) => {
+            expect(parseSpokenDate(text, now)).toBe(expected);
+        });
+    });
+
+    it.each<[string, number | undefined]>([
+        ['182', 182],
+        ['81.5', 81.5],
+        ['seven', 7],
+        ['twenty-five', 25],
+        ['one hundred eighty two', 182],
+        ['a hundred and ten', 110],
+        ['two thousand five hundred', 2500],
+        ['lots', undefined],
+        ['', undefined],
+    ])('parseSpokenNumber("%s") -> %s', (text, expected) => {
+        expect(parseSpokenNumber(text)).toBe(expected);
+    });
+
+    it('splits a date off the end of some text', () => {
+        expect(splitTrailingDate('call mom on march 3rd', now)).toEqual({ text: 'call mom', date: '2027-03-03' });
+        expect(splitTrailingDate('buy 2 eggs', now)).toBeUndefined();
+        // Something must be left before the date
+        expect(splitTrailingDate('tomorrow', now)).toBeUndefined();
+    });
+
+    it('finds sparks by title or id, and only unambiguous partial names', () => {
+        expect(findSparkByName('TripStory', sparks)).toEqual({ spark: sparks[6], exact: true });
+        expect(findSparkByName('the golf brain spark', sparks)).toBeUndefined();
+        expect(findSparkByName('golf brain spark', sparks)?.spark.metadata.id).toBe('golf-brain');
+        expect(findSparkByName('goals', sparks)).toEqual({ spark: sparks[12], exact: false });
+        expect(findSparkByName('golf', sparks)).toBeUndefined();
+        expect(findSparkByName('', sparks)).toBeUndefined();
+    });
+
+    it('compiles every registered phrase', () => {
+        for (const { voiceIntents } of sparks) {
+            (voiceIntents || []).forEach(intent => expect(() => checkIntentPhrases(intent)).not.toThrow());
+        }
+        const broken = { ...todoVoiceIntents[0], phrases: ['add {task}'] };
+        expect(() => checkIntentPhrases(broken)).toThrow('Invalid voice phrase "add {task}": Unknown param {task}');
+        expect(() => checkIntentPhrases({ ...broken, phrases: ['add [a {text}'] })).toThrow('Unclosed "["');
+    });
+});
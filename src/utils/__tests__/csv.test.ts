@@ -0,0 +1,41 @@
+import { toCsv, parseCsv } from '../csv';
+
+describe('csv', () => {
+    describe('toCsv', () => {
+        it('writes headers and rows', () => {
+            expect(toCsv(['Date', 'Weight'], [['2024-01-01', 180.5]])).toBe('Date,Weight\n2024-01-01,180.5\n');
+        });
+
+        it('quotes cells with commas, quotes and newlines', () => {
+            expect(toCsv(['Note'], [['a, b'], ['say "hi"'], ['line\nbreak']])).toBe(
+                'Note\n"a, b"\n"say ""hi"""\n"line\nbreak"\n'
+            );
+        });
+
+        it('writes empty cells for missing values', () => {
+            expect(toCsv(['A', 'B'], [[undefined, null]])).toBe('A,B\n,\n');
+        });
+    });
+
+    describe('parseCsv', () => {
+        it('parses simple rows', () => {
+            expect(parseCsv('Date,Weight\n2024-01-01,180.5\n')).toEqual([
+                ['Date', 'Weight'],
+                ['2024-01-01', '180.5'],
+            ]);
+        });
+
+        it('handles CRLF and blank lines', () => {
+            expect(parseCsv('a,b\r\n\r\n1,2\r\n')).toEqual([['a', 'b'], ['1', '2']]);
+        });
+
+        it('handles a final row without a newline', () => {
+            expect(parseCsv('a,b\n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+        });
+
+        it('round-trips quoted cells', () => {
+            const rows = [['Note'], ['a, b'], ['say "hi"'], ['line\nbreak']];
+            expect(parseCsv(toCsv(rows[0], rows.slice(1)))).toEqual(rows);
+        });
+    });
+});
@@ -0,0 +1,79 @@
+import { defineSparkData, validateSparkData, validators as v } from '../dataValidation';
+
+interface Item {
+    id: number;
+    text: string;
+    done: boolean;
+    note?: string;
+}
+
+const spec = defineSparkData<{ items: Item[]; scores: number[]; mode: 'a' | 'b' }>({
+    sparkId: 'test',
+    fields: {
+        items: v.records(
+            v.object({
+                id: v.number(),
+                text: v.string(),
+                done: v.withDefault(v.boolean(), false),
+                note: v.optional(v.string()),
+            })
+        ),
+        scores: v.array(v.number()),
+        mode: v.oneOf<'a' | 'b'>(['a', 'b']),
+    },
+    defaults: { items: [], scores: [0, 0], mode: 'a' },
+});
+
+describe('dataValidation', () => {
+    it('returns defaults for missing data', () => {
+        expect(validateSparkData(spec, undefined)).toEqual({
+            data: { items: [], scores: [0, 0], mode: 'a' },
+            issues: [],
+        });
+    });
+
+    it('keeps valid data and unknown keys', () => {
+        const raw = { items: [{ id: 1, text: 'x', done: true, extra: 5 }], scores: [3], mode: 'b', lastUpdated: 'now' };
+        const result = validateSparkData(spec, raw);
+        expect(result.issues).toEqual([]);
+        expect(result.data).toEqual(raw);
+    });
+
+    it('fills field defaults inside records', () => {
+        const result = validateSparkData(spec, { items: [{ id: 1, text: 'x' }] });
+        expect(result.data.items).toEqual([{ id: 1, text: 'x', done: false }]);
+    });
+
+    it('quarantines invalid records and keeps the rest', () => {
+        const result = validateSparkData(spec, {
+            items: [{ id: 1, text: 'ok' }, { id: 2 }, null],
+        });
+
+        expect(result.data.items).toEqual([{ id: 1, text: 'ok', done: false }]);
+        expect(result.issues.map(issue => issue.path)).toEqual(['items[1]', 'items[2]']);
+        expect(result.issues[0].value).toEqual({ id: 2 });
+        expect(result.issues[0].reason).toBe('text: expected string, got undefined');
+    });
+
+    it('replaces an invalid field with its default', () => {
+        const result = validateSparkData(spec, { scores: [1, 'two'], mode: 'c' });
+
+        expect(result.data.scores).toEqual([0, 0]);
+        expect(result.data.mode).toBe('a');
+        expect(result.issues.map(issue => issue.path)).toEqual(['scores', 'mode']);
+        expect(result.issues[0].value).toEqual([1, 'two']);
+    });
+
+    it('rejects data that is not an object', () => {
+        const result = validateSparkData(spec, 'garbage');
+        expect(result.data).toEqual(spec.defaults);
+        expect(result.issues).toHaveLength(1);
+    });
+
+    it('accepts null only when nullable', () => {
+        const issues: any[] = [];
+        expect(v.nullable(v.string())(null, 'x', issues)).toEqual({ ok: true, value: null });
+        expect(v.string()(null, 'x', issues).ok).toBe(false);
+        expect(v.number()(NaN, 'x', issues).ok).toBe(false);
+    });
+});
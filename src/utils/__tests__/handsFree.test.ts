@@ -0,0 +1,79 @@
+import { createUtteranceSegmenter, isStopPhrase } from '../handsFree';
+
+describe('handsFree', () => {
+    describe('createUtteranceSegmenter', () => {
+        beforeEach(() => {
+            jest.useFakeTimers();
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        it('hands over the utterance once the speaker pauses', () => {
+            const onUtterance = jest.fn();
+            const segmenter = createUtteranceSegmenter(1000, onUtterance);
+
+            segmenter.push('seven', false);
+            jest.advanceTimersByTime(600);
+            segmenter.push('seven iron', false);
+            jest.advanceTimersByTime(600);
+            expect(onUtterance).not.toHaveBeenCalled();
+
+            jest.advanceTimersByTime(400);
+            expect(onUtterance).toHaveBeenCalledWith('seven iron');
+        });
+
+        it('joins final results heard before the pause', () => {
+            const onUtterance = jest.fn();
+            const segmenter = createUtteranceSegmenter(1000, onUtterance);
+
+            segmenter.push('7 iron', true);
+            jest.advanceTimersByTime(500);
+            segmenter.push('left', false);
+            segmenter.push('left rough', true);
+            jest.advanceTimersByTime(1000);
+
+            expect(onUtterance).toHaveBeenCalledTimes(1);
+            expect(onUtterance).toHaveBeenCalledWith('7 iron left rough');
+        });
+
+        it('starts a new utterance after each pause', () => {
+            const onUtterance = jest.fn();
+            const segmenter = createUtteranceSegmenter(1000, onUtterance);
+
+            segmenter.push('5 2', true);
+            jest.advanceTimersByTime(1000);
+            segmenter.push('4 1', true);
+            jest.advanceTimersByTime(1000);
+
+            expect(onUtterance.mock.calls).toEqual([['5 2'], ['4 1']]);
+        });
+
+        it('flushes early and drops what was heard on reset', () => {
+            const onUtterance = jest.fn();
+            const segmenter = createUtteranceSegmenter(1000, onUtterance);
+
+            segmenter.push('putt', false);
+            segmenter.flush();
+            expect(onUtterance).toHaveBeenCalledWith('putt');
+
+            segmenter.push('driver', false);
+            segmenter.reset();
+            jest.advanceTimersByTime(1000);
+            segmenter.flush();
+            expect(onUtterance).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    it.each<[string, boolean]>([
+        ['Stop listening.', true],
+        ["That's all", true],
+        ['Para', true],
+        ['Stop hands-free', true],
+        ['stop at the turn', false],
+        ['5 2', false],
+    ])('isStopPhrase("%s") is %s', (text, expected) => {
+        expect(isStopPhrase(text)).toBe(expected);
+    });
+});
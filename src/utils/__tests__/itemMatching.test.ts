@@ -0,0 +1,67 @@
+import { findBestMatches, findSpokenItem, scoreItemMatch } from '../itemMatching';
+
+interface Item {
+    id: number;
+    text: string;
+}
+
+const items: Item[] = [
+    { id: 1, text: 'Buy milk' },
+    { id: 2, text: 'Buy oat milk' },
+    { id: 3, text: 'Dentist appointment' },
+    { id: 4, text: 'Call Mom' },
+    { id: 5, text: 'Call Dad' },
+];
+
+const options = { noun: 'todo', getId: (item: Item) => item.id, getText: (item: Item) => item.text };
+
+describe('itemMatching', () => {
+    it.each<[string, string, number]>([
+        ['buy milk', 'Buy milk', 1],
+        ['the Buy milk', 'Buy milk', 1],
+        ['milk buy', 'Buy milk', 0.95],
+        ['dentists appointment', 'Dentist appointment', 0.95],
+        ['dentist apointment', 'Dentist appointment', 0.95],
+        ['milk', 'Buy milk', 0.75],
+        ['buy milk todo', 'Buy milk', 0.7],
+        ['milk', 'Dentist appointment', 0],
+    ])('scores "%s" against "%s" as %s', (query, text, score) => {
+        expect(scoreItemMatch(query, text)).toBeCloseTo(score);
+    });
+
+    it.each<[string, number[]]>([
+        ['buy milk', [1]],
+        ['oat milk', [2]],
+        ['milk', [1, 2]],
+        ['dentist', [3]],
+        ['call', [4, 5]],
+        ['walk the dog', []],
+    ])('finds the best matches for "%s"', (query, ids) => {
+        expect(findBestMatches(query, items, item => item.text).map(item => item.id)).toEqual(ids);
+    });
+
+    it('returns the one matching item', () => {
+        expect(findSpokenItem(items, { item: 'the dentist' }, options)).toEqual({ item: items[2] });
+    });
+
+    it('asks which item was meant when several match equally well', () => {
+        expect(findSpokenItem(items, { item: 'call', dueDate: '2026-10-30' }, options)).toEqual({
+            result: {
+                message: 'Which todo did you mean? "Call Mom" or "Call Dad"',
+                choices: [
+                    { label: 'Call Mom', params: { item: 'call', dueDate: '2026-10-30', itemId: '4' } },
+                    { label: 'Call Dad', params: { item: 'call', dueDate: '2026-10-30', itemId: '5' } },
+                ],
+            },
+        });
+    });
+
+    it('uses the picked item once a choice was made', () => {
+        expect(findSpokenItem(items, { item: 'call', itemId: '5' }, options)).toEqual({ item: items[4] });
+        expect(() => findSpokenItem(items, { item: 'call', itemId: '9' }, options)).toThrow('That todo is no longer there.');
+    });
+
+    it('explains when nothing matches', () => {
+        expect(() => findSpokenItem(items, { item: 'walk the dog' }, options)).toThrow('No todo matching "walk the dog".');
+    });
+});
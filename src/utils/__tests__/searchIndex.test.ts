@@ -0,0 +1,49 @@
+import { createSearchEntries, searchEntries, normalizeText, tokenize, SearchIndex } from '../searchIndex';
+
+describe('searchIndex', () => {
+    const index: SearchIndex = {
+        recaipe: createSearchEntries('recaipe', [
+            { id: 'r1', title: 'Chickpea Curry', body: 'chickpeas, coconut milk, spinach' },
+            { id: 'r2', title: 'Hummus', body: 'Chickpeas, tahini, lemon' },
+            { id: 'r3', title: 'Pancakes', body: 'flour, eggs, milk' },
+        ]),
+        todo: createSearchEntries('todo', [
+            { id: '1', title: 'Buy chickpeas', subtitle: 'shopping' },
+            { id: '2', title: 'Call the dentist' },
+        ]),
+    };
+
+    it('normalizes case and accents', () => {
+        expect(normalizeText('Jalapeño PIÑA')).toBe('jalapeno pina');
+        expect(tokenize('  Chickpea   curry ')).toEqual(['chickpea', 'curry']);
+    });
+
+    it('drops documents without an id or title', () => {
+        expect(createSearchEntries('x', [{ id: '', title: 'a' }, { id: 'b', title: '' }])).toEqual([]);
+    });
+
+    it('finds matches across sparks', () => {
+        const ids = searchEntries(index, 'chickpea').map(m => `${m.entry.sparkId}:${m.entry.id}`);
+        expect(ids).toHaveLength(3);
+        expect(ids).toEqual(expect.arrayContaining(['recaipe:r1', 'recaipe:r2', 'todo:1']));
+    });
+
+    it('ranks title matches above body matches', () => {
+        const matches = searchEntries(index, 'chickpea');
+        expect(matches[matches.length - 1].entry.id).toBe('r2');
+    });
+
+    it('requires every word of the query', () => {
+        const matches = searchEntries(index, 'chickpeas milk');
+        expect(matches.map(m => m.entry.id)).toEqual(['r1']);
+    });
+
+    it('searches subtitles', () => {
+        expect(searchEntries(index, 'shopping').map(m => m.entry.id)).toEqual(['1']);
+    });
+
+    it('returns nothing for an empty query and respects the limit', () => {
+        expect(searchEntries(index, '   ')).toEqual([]);
+        expect(searchEntries(index, 'c', 2)).toHaveLength(2);
+    });
+});
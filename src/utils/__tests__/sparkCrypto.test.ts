@@ -0,0 +1,70 @@
+import {
+    utf8Encode,
+    utf8Decode,
+    toBase64,
+    fromBase64,
+    deriveKey,
+    encryptPayload,
+    decryptPayload,
+    isEncryptedPayload,
+} from '../sparkCrypto';
+
+const key = new Uint8Array(32).fill(7);
+const salt = new Uint8Array(16).fill(1);
+// Cheap cost so the tests stay fast; the app uses DEFAULT_KDF_PARAMS
+const testKdf = { N: 2 ** 10, r: 8, p: 1 };
+
+describe('sparkCrypto', () => {
+    it('round-trips UTF-8 and base64', () => {
+        const text = 'Weight 72.5kg – naïve 夢 🌙';
+        expect(utf8Decode(utf8Encode(text))).toBe(text);
+        expect(Buffer.from(utf8Encode(text)).toString('utf8')).toBe(text);
+
+        [0, 1, 2, 3, 31].forEach(length => {
+            const bytes = new Uint8Array(length).map((_, i) => (i * 37) % 256);
+            expect(toBase64(bytes)).toBe(Buffer.from(bytes).toString('base64'));
+            expect(Array.from(fromBase64(toBase64(bytes)))).toEqual(Array.from(bytes));
+        });
+    });
+
+    it('derives the same key from the same passcode and salt only', async () => {
+        const derived = await deriveKey('1234', salt, testKdf);
+
+        expect(derived).toHaveLength(32);
+        expect(await deriveKey('1234', salt, testKdf)).toEqual(derived);
+        expect(await deriveKey('1235', salt, testKdf)).not.toEqual(derived);
+        expect(await deriveKey('1234', new Uint8Array(16).fill(2), testKdf)).not.toEqual(derived);
+    });
+
+    it('encrypts so the stored payload does not contain the data', () => {
+        const value = { entries: [{ id: 1, weight: 72.5, note: 'after holidays' }] };
+        const payload = encryptPayload(value, key);
+
+        expect(isEncryptedPayload(payload)).toBe(true);
+        expect(JSON.stringify(payload)).not.toContain('holidays');
+        expect(decryptPayload(payload, key)).toEqual(value);
+    });
+
+    it('uses a fresh nonce so equal values encrypt differently', () => {
+        const first = encryptPayload({ a: 1 }, key);
+        const second = encryptPayload({ a: 1 }, key);
+
+        expect(first.iv).not.toBe(second.iv);
+        expect(first.data).not.toBe(second.data);
+    });
+
+    it('rejects a wrong key or altered data', () => {
+        const payload = encryptPayload({ dreams: ['flying'] }, key);
+
+        expect(() => decryptPayload(payload, new Uint8Array(32).fill(8))).toThrow('Wrong passcode or damaged data');
+
+        const data = fromBase64(payload.data);
+        data[0] ^= 1;
+        expect(() => decryptPayload({ ...payload, data: toBase64(data) }, key)).toThrow('Wrong passcode or damaged data');
+    });
+
+    it('does not mistake spark data for a payload', () => {
+        expect(isEncryptedPayload({ entries: [] })).toBe(false);
+        expect(isEncryptedPayload(null)).toBe(false);
+    });
+});
@@ -0,0 +1,29 @@
+import { describeManifest, getManifestCapabilities, getManifestLabels } from '../sparkManifest';
+
+describe('sparkManifest', () => {
+    it('lists permissions first, then network, AI, sharing and beta', () => {
+        const entries = describeManifest({
+            beta: true,
+            sharing: 'Cards you share',
+            ai: 'Your topic',
+            network: 'Downloads data',
+            capabilities: { microphone: 'To record', camera: 'To scan' },
+        });
+
+        expect(entries.map(entry => entry.key)).toEqual(
+            ['microphone', 'camera', 'network', 'ai', 'sharing', 'beta']
+        );
+        expect(entries[1]).toEqual({ key: 'camera', label: 'Camera', icon: '📷', reason: 'To scan' });
+    });
+
+    it('describes a spark without a manifest as using nothing', () => {
+        expect(describeManifest(undefined)).toEqual([]);
+        expect(getManifestCapabilities(undefined)).toEqual([]);
+        expect(getManifestLabels({})).toEqual([]);
+    });
+
+    it('labels manifests for the Marketplace filter', () => {
+        expect(getManifestLabels({ capabilities: { 'media-library': 'To read photos' }, ai: 'Photos' }))
+            .toEqual(['Photos', 'AI']);
+    });
+});
@@ -0,0 +1,79 @@
+import { migrateSparkData, migrateAllSparkData } from '../sparkMigrations';
+import { SparkDataSchema } from '../../types/spark';
+
+const renameSchema: SparkDataSchema = {
+    version: 2,
+    migrations: [
+        (data) => ({ ...data, rounds: data.games || [], games: undefined }),
+        (data) => ({ ...data, rounds: data.rounds.map((r: any) => ({ ...r, score: Number(r.score) })) }),
+    ],
+};
+
+describe('sparkMigrations', () => {
+    describe('migrateSparkData', () => {
+        it('runs every migration for unversioned data', () => {
+            const result = migrateSparkData({ games: [{ score: '72' }] }, 0, renameSchema);
+            expect(result.version).toBe(2);
+            expect(result.data.rounds).toEqual([{ score: 72 }]);
+            expect(result.data.games).toBeUndefined();
+        });
+
+        it('only runs migrations after the recorded version', () => {
+            const result = migrateSparkData({ rounds: [{ score: '80' }] }, 1, renameSchema);
+            expect(result.version).toBe(2);
+            expect(result.data.rounds).toEqual([{ score: 80 }]);
+        });
+
+        it('leaves current data untouched', () => {
+            const data = { rounds: [{ score: 70 }] };
+            const result = migrateSparkData(data, 2, renameSchema);
+            expect(result.data).toBe(data);
+            expect(result.version).toBe(2);
+        });
+
+        it('leaves data from a newer schema untouched', () => {
+            const data = { rounds: [] };
+            const result = migrateSparkData(data, 5, renameSchema);
+            expect(result.data).toBe(data);
+            expect(result.version).toBe(5);
+        });
+
+        it('throws when the migration count does not match the version', () => {
+            expect(() => migrateSparkData({}, 0, { version: 2, migrations: [(d) => d] })).toThrow();
+        });
+
+        it('is deterministic', () => {
+            const input = { games: [{ score: '90' }] };
+            expect(migrateSparkData(input, 0, renameSchema)).toEqual(migrateSparkData(input, 0, renameSchema));
+        });
+    });
+
+    describe('migrateAllSparkData', () => {
+        it('records the applied version per spark', () => {
+            const result = migrateAllSparkData(
+                { golf: { games: [] }, other: { value: 1 } },
+                {},
+                { golf: renameSchema }
+            );
+            expect(result.versions).toEqual({ golf: 2 });
+            expect(result.sparkData.golf.rounds).toEqual([]);
+            expect(result.sparkData.other).toEqual({ value: 1 });
+        });
+
+        it('skips sparks without persisted data', () => {
+            const result = migrateAllSparkData({ golf: {} }, {}, { golf: renameSchema });
+            expect(result.versions.golf).toBeUndefined();
+        });
+
+        it('keeps original data and version when a migration throws', () => {
+            const failing: SparkDataSchema = {
+                version: 1,
+                migrations: [() => { throw new Error('bad data'); }],
+            };
+            const data = { broken: true };
+            const result = migrateAllSparkData({ golf: data }, {}, { golf: failing });
+            expect(result.sparkData.golf).toBe(data);
+            expect(result.versions.golf).toBeUndefined();
+        });
+    });
+});
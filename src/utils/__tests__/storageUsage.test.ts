@@ -0,0 +1,50 @@
+import { byteLength, jsonByteLength, formatBytes, toDocumentPath } from '../storageUsage';
+
+const DOCS = 'file:///var/mobile/Containers/Data/Application/NEW/Documents/';
+
+describe('storageUsage', () => {
+    describe('byteLength', () => {
+        it('counts UTF-8 bytes', () => {
+            expect(byteLength('abc')).toBe(3);
+            expect(byteLength('ñ')).toBe(2);
+            expect(byteLength('€')).toBe(3);
+            expect(byteLength('⛳️')).toBe(6);
+            expect(byteLength('😀')).toBe(4);
+        });
+
+        it('measures values as JSON', () => {
+            expect(jsonByteLength({ a: 1 })).toBe(7);
+            expect(jsonByteLength(undefined)).toBe(0);
+        });
+    });
+
+    describe('formatBytes', () => {
+        it('picks a readable unit', () => {
+            expect(formatBytes(512)).toBe('512 B');
+            expect(formatBytes(1536)).toBe('1.5 KB');
+            expect(formatBytes(200 * 1024 * 1024)).toBe('200 MB');
+            expect(formatBytes(3 * 1024 * 1024 * 1024)).toBe('3.0 GB');
+        });
+    });
+
+    describe('toDocumentPath', () => {
+        it('keeps relative paths', () => {
+            expect(toDocumentPath('foodcam/1.jpg', DOCS)).toBe('foodcam/1.jpg');
+        });
+
+        it('strips the current documentDirectory', () => {
+            expect(toDocumentPath(`${DOCS}recaipe_images/r1.jpg`, DOCS)).toBe('recaipe_images/r1.jpg');
+        });
+
+        it('recovers paths saved under an older app container', () => {
+            const oldUri = 'file:///var/mobile/Containers/Data/Application/OLD/Documents/soundboard/s1.m4a';
+            expect(toDocumentPath(oldUri, DOCS, ['soundboard/'])).toBe('soundboard/s1.m4a');
+        });
+
+        it('returns null for files outside documentDirectory and remote URLs', () => {
+            expect(toDocumentPath('file:///cache/Camera/swing.mov', DOCS)).toBeNull();
+            expect(toDocumentPath('https://example.com/cookie.jpg', DOCS)).toBeNull();
+            expect(toDocumentPath('', DOCS)).toBeNull();
+        });
+    });
+});
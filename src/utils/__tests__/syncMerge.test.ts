@@ -0,0 +1,117 @@
+import { emptyClock, stampChanges, mergeSyncedData, SyncedSparkData } from '../syncMerge';
+import { todoVoiceIntents } from '../../sparks/TodoSpark/voiceIntents';
+import { packingListVoiceIntents } from '../../sparks/PackingListSpark/voiceIntents';
+
+// Stamp data as one device would: first from nothing, then each edit at a later time
+const device = (data: Record<string, any>, now: number, previous?: SyncedSparkData & { hashes: any }) => {
+    const result = stampChanges(data, previous?.clock || emptyClock(), previous?.hashes || {}, now);
+    return { data, clock: result.clock, hashes: result.hashes, updatedAt: now, changed: result.changed };
+};
+
+describe('syncMerge', () => {
+    describe('stampChanges', () => {
+        it('stamps list items and scalar fields', () => {
+            const stamped = device({ todos: [{ id: 1, text: 'a' }], filter: 'all' }, 100);
+
+            expect(stamped.changed).toBe(true);
+            expect(stamped.clock.items.todos).toEqual({ '1': 100 });
+            expect(stamped.clock.fields.filter).toBe(100);
+        });
+
+        it('only restamps what changed and tombstones removed items', () => {
+            const first = device({ todos: [{ id: 1, text: 'a' }, { id: 2, text: 'b' }], filter: 'all' }, 100);
+            const second = device({ todos: [{ id: 1, text: 'a!' }], filter: 'all' }, 200, first);
+
+            expect(second.clock.items.todos).toEqual({ '1': 200 });
+            expect(second.clock.deleted.todos).toEqual({ '2': 200 });
+            expect(second.clock.fields.filter).toBe(100);
+        });
+
+        it('reports no change when nothing changed', () => {
+            const first = device({ todos: [{ id: 1, text: 'a' }] }, 100);
+            expect(device({ todos: [{ id: 1, text: 'a' }] }, 200, first).changed).toBe(false);
+        });
+    });
+
+    describe('mergeSyncedData', () => {
+        it('keeps items added on both devices', () => {
+            const base = device({ todos: [{ id: 1, text: 'a' }] }, 100);
+            const local = device({ todos: [{ id: 1, text: 'a' }, { id: 2, text: 'local' }] }, 200, base);
+            const remote = device({ todos: [{ id: 1, text: 'a' }, { id: 3, text: 'remote' }] }, 300, base);
+
+            const merged = mergeSyncedData(local, remote);
+            expect(merged.data.todos.map((todo: any) => todo.id)).toEqual([1, 2, 3]);
+        });
+
+        it('takes the newest edit of the same item', () => {
+            const base = device({ todos: [{ id: 1, text: 'a' }, { id: 2, text: 'b' }] }, 100);
+            const local = device({ todos: [{ id: 1, text: 'a (local)' }, { id: 2, text: 'b' }] }, 300, base);
+            const remote = device({ todos: [{ id: 1, text: 'a' }, { id: 2, text: 'b (remote)' }] }, 200, base);
+
+            const merged = mergeSyncedData(local, remote);
+            expect(merged.data.todos).toEqual([{ id: 1, text: 'a (local)' }, { id: 2, text: 'b (remote)' }]);
+        });
+
+        it('applies deletions unless the item was edited afterwards', () => {
+            const base = device({ todos: [{ id: 1, text: 'a' }, { id: 2, text: 'b' }] }, 100);
+            const local = device({ todos: [{ id: 2, text: 'b' }] }, 200, base);
+            const remote = device({ todos: [{ id: 1, text: 'a' }, { id: 2, text: 'b' }] }, 100, base);
+
+            expect(mergeSyncedData(local, remote).data.todos).toEqual([{ id: 2, text: 'b' }]);
+
+            const edited = device({ todos: [{ id: 1, text: 'a (edited later)' }, { id: 2, text: 'b' }] }, 300, base);
+            expect(mergeSyncedData(local, edited).data.todos).toEqual([
+                { id: 2, text: 'b' },
+                { id: 1, text: 'a (edited later)' },
+            ]);
+        });
+
+        it('uses last writer wins for other fields, remote on ties', () => {
+            const base = device({ filter: 'all', settings: { sort: 'date' } }, 100);
+            const local = device({ filter: 'done', settings: { sort: 'date' } }, 300, base);
+            const remote = device({ filter: 'all', settings: { sort: 'name' } }, 200, base);
+
+            const merged = mergeSyncedData(local, remote);
+            expect(merged.data).toEqual({ filter: 'done', settings: { sort: 'name' } });
+
+            const tie = device({ filter: 'open', settings: { sort: 'date' } }, 300, base);
+            expect(mergeSyncedData(local, tie).data.filter).toBe('open');
+        });
+
+        it('does not treat an empty array as an item list', () => {
+            const local = device({ tags: [] }, 100);
+            const remote = device({ tags: ['golf', 'travel'] }, 200);
+
+            expect(local.clock.items.tags).toBeUndefined();
+            expect(mergeSyncedData(local, remote).data.tags).toEqual(['golf', 'travel']);
+        });
+
+        it('converges regardless of merge direction', () => {
+            const base = device({ todos: [{ id: 1, text: 'a' }], filter: 'all' }, 100);
+            const local = device({ todos: [{ id: 1, text: 'a' }, { id: 2, text: 'b' }], filter: 'done' }, 200, base);
+            const remote = device({ todos: [], filter: 'all' }, 300, base);
+
+            const a = mergeSyncedData(local, remote);
+            const b = mergeSyncedData(remote, local);
+            expect(a.data).toEqual({ todos: [{ id: 2, text: 'b' }], filter: 'done' });
+            expect(b.data).toEqual(a.data);
+            expect(b.clock).toEqual(a.clock);
+        });
+
+        it('keeps todos and packing items added offline on both devices', () => {
+            const addTodo = todoVoiceIntents.find(intent => intent.action === 'add')!.handler;
+            const addPackingItem = packingListVoiceIntents.find(intent => intent.action === 'add')!.handler;
+            const now = new Date(2026, 9, 19);
+
+            const todoBase = device({ todos: [{ id: '1', text: 'a' }] }, 100);
+            const todoLocal = device(addTodo({ text: 'Call Mom' }, todoBase.data, now).data!, 200, todoBase);
+            const todoRemote = device(addTodo({ text: 'Buy milk' }, todoBase.data, now).data!, 300, todoBase);
+            expect(mergeSyncedData(todoLocal, todoRemote).data.todos.map((todo: any) => todo.text)).toEqual(['a', 'Call Mom', 'Buy milk']);
+
+            const packingBase = device({ items: [] }, 100);
+            const packingLocal = device(addPackingItem({ item: 'Socks' }, packingBase.data, now).data!, 200, packingBase);
+            const packingRemote = device(addPackingItem({ item: 'Sunscreen' }, packingBase.data, now).data!, 300, packingBase);
+            expect(mergeSyncedData(packingLocal, packingRemote).data.items.map((item: any) => item.item)).toEqual(['Socks', 'Sunscreen']);
+        });
+    });
+});
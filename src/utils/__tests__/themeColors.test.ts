@@ -0,0 +1,117 @@
+import {
+    isHexColor,
+    isValidThemeColors,
+    validateThemePalette,
+    contrastRatio,
+    getReadableTextColor,
+    findContrastIssues,
+} from '../themeColors';
+import { THEME_PRESETS, DEFAULT_THEME_ID, lightTheme, darkTheme } from '../../theme/palettes';
+import { useSettingsStore } from '../../store/settingsStore';
+
+const palette = (overrides: Record<string, unknown> = {}) => ({
+    id: 'ocean',
+    name: 'Ocean',
+    light: { ...lightTheme, primary: '#006994' },
+    dark: { ...darkTheme, primary: '#4FB3D9' },
+    ...overrides,
+});
+
+describe('themeColors', () => {
+    it('accepts short and long hex colors only', () => {
+        expect(isHexColor('#fff')).toBe(true);
+        expect(isHexColor('#1A2B3C')).toBe(true);
+        expect(isHexColor('1A2B3C')).toBe(false);
+        expect(isHexColor('#1A2B3')).toBe(false);
+        expect(isHexColor('red')).toBe(false);
+        expect(isHexColor(undefined)).toBe(false);
+    });
+
+    it('validates palettes against the ThemeColors schema', () => {
+        expect(validateThemePalette(palette())).toEqual({ ok: true, palette: palette() });
+
+        const missing: any = palette();
+        delete missing.dark.card;
+        expect(validateThemePalette(missing).ok).toBe(false);
+
+        const bad = validateThemePalette(palette({ light: { ...lightTheme, text: 'black' } }));
+        expect(bad).toEqual({ ok: false, reason: expect.stringContaining('light: text') });
+
+        expect(validateThemePalette(palette({ name: '  ' })).ok).toBe(false);
+        expect(validateThemePalette(null).ok).toBe(false);
+        expect(isValidThemeColors({ ...lightTheme, extra: 1 })).toBe(true);
+        expect(isValidThemeColors({ primary: '#000' })).toBe(false);
+    });
+
+    it('computes WCAG contrast ratios', () => {
+        expect(contrastRatio('#000000', '#FFFFFF')).toBeCloseTo(21);
+        expect(contrastRatio('#FFF', '#000')).toBeCloseTo(21);
+        expect(contrastRatio('#777777', '#777777')).toBe(1);
+        expect(getReadableTextColor('#FFC107')).toBe('#000000');
+        expect(getReadableTextColor('#0033CC')).toBe('#FFFFFF');
+    });
+
+    it('flags hard-to-read color pairs', () => {
+        const issues = findContrastIssues({ ...lightTheme, text: '#CCCCCC' });
+        expect(issues.map(issue => issue.background)).toEqual(['background', 'surface', 'card']);
+        expect(issues[0]).toMatchObject({ foreground: 'text', minimum: 4.5 });
+        expect(issues[0].ratio).toBeLessThan(2);
+    });
+
+    it('ships presets that pass validation and contrast checks', () => {
+        THEME_PRESETS.forEach(preset => {
+            expect(validateThemePalette(preset).ok).toBe(true);
+            expect(findContrastIssues(preset.light)).toEqual([]);
+            expect(findContrastIssues(preset.dark)).toEqual([]);
+        });
+    });
+});
+
+describe('settingsStore themes', () => {
+    afterEach(() => {
+        useSettingsStore.getState().resetAllSettings();
+    });
+
+    it('resolves colors from the chosen palette and mode', () => {
+        const store = useSettingsStore.getState();
+        store.saveCustomTheme(palette());
+        store.setThemeId('ocean');
+        expect(useSettingsStore.getState().getThemeColors().primary).toBe('#006994');
+
+        useSettingsStore.getState().toggleDarkMode();
+        expect(useSettingsStore.getState().getThemeColors().primary).toBe('#4FB3D9');
+    });
+
+    it('falls back to the default colors for unknown or corrupted palettes', () => {
+        useSettingsStore.getState().setThemeId('missing');
+        expect(useSettingsStore.getState().getThemeColors()).toEqual(lightTheme);
+
+        useSettingsStore.setState({
+            themeId: 'ocean',
+            customThemes: [palette({ light: { ...lightTheme, background: 'oops' } }) as any],
+        });
+        expect(useSettingsStore.getState().getThemeColors()).toEqual(lightTheme);
+    });
+
+    it('replaces themes by id and resets the choice when the active theme is deleted', () => {
+        const store = useSettingsStore.getState();
+        store.saveCustomTheme(palette());
+        store.saveCustomTheme(palette({ name: 'Deep Ocean' }));
+        store.setThemeId('ocean');
+        expect(useSettingsStore.getState().customThemes.map(theme => theme.name)).toEqual(['Deep Ocean']);
+
+        useSettingsStore.getState().deleteCustomTheme('ocean');
+        expect(useSettingsStore.getState().customThemes).toEqual([]);
+        expect(useSettingsStore.getState().themeId).toBe(DEFAULT_THEME_ID);
+    });
+
+    it('stores and clears per-spark accents', () => {
+        const store = useSettingsStore.getState();
+        store.setSparkAccent('todo', '#FF9500');
+        expect(useSettingsStore.getState().getSparkAccent('todo')).toBe('#FF9500');
+
+        store.setSparkAccent('todo', null);
+        expect(useSettingsStore.getState().sparkAccents).toEqual({});
+        expect(useSettingsStore.getState().getSparkAccent('todo')).toBeUndefined();
+    });
+});
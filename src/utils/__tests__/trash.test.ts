@@ -0,0 +1,51 @@
+import { daysUntilPurge, isTrashExpired, restoreTrashedItem, withTrashedItems } from '../trash';
+import { TrashedItem } from '../../types/trash';
+
+const trashed = (overrides: Partial<TrashedItem> = {}): TrashedItem => ({
+    id: 't1',
+    sparkId: 'recaipe',
+    collection: 'recipes',
+    itemId: 'r1',
+    item: { id: 'r1', title: 'Cookies' },
+    label: 'Cookies',
+    deletedAt: '2026-10-01T12:00:00.000Z',
+    ...overrides,
+});
+
+describe('trash', () => {
+    it('counts down to the purge date', () => {
+        expect(daysUntilPurge(trashed(), new Date('2026-10-02T12:00:00.000Z'))).toBe(29);
+        expect(isTrashExpired(trashed(), new Date('2026-10-30T12:00:00.000Z'))).toBe(false);
+        expect(isTrashExpired(trashed(), new Date('2026-10-31T12:00:00.000Z'))).toBe(true);
+    });
+
+    it('puts an item back at the end of its list', () => {
+        const data = { recipes: [{ id: 'r2', title: 'Soup' }], settings: { units: 'metric' } };
+        expect(restoreTrashedItem(data, trashed())).toEqual({
+            recipes: [{ id: 'r2', title: 'Soup' }, { id: 'r1', title: 'Cookies' }],
+            settings: { units: 'metric' },
+        });
+        expect(restoreTrashedItem({}, trashed())).toEqual({ recipes: [{ id: 'r1', title: 'Cookies' }] });
+    });
+
+    it('does not restore an item twice', () => {
+        const data = { recipes: [{ id: 'r1', title: 'Cookies' }] };
+        expect(restoreTrashedItem(data, trashed())).toBe(data);
+    });
+
+    it('gives a restored item a new id when another item has taken it', () => {
+        const item = trashed({ sparkId: 'todo', collection: 'todos', itemId: 2, item: { id: 2, text: 'Old' } });
+        const data = { todos: [{ id: 1, text: 'A' }, { id: 2, text: 'New' }] };
+        expect(restoreTrashedItem(data, item).todos[2]).toEqual({ id: 3, text: 'Old' });
+
+        const restored = restoreTrashedItem({ recipes: [{ id: 'r1', title: 'Pie' }] }, trashed());
+        expect(restored.recipes[1].title).toBe('Cookies');
+        expect(restored.recipes[1].id).not.toBe('r1');
+    });
+
+    it('includes trashed items when listing what data references', () => {
+        const data = { recipes: [{ id: 'r2' }] };
+        expect(withTrashedItems(data, [trashed()]).recipes.map((r: any) => r.id)).toEqual(['r2', 'r1']);
+        expect(data.recipes).toHaveLength(1);
+    });
+});
@@ -0,0 +1,128 @@
+import {
+    findVoiceIntent,
+    resolveIntentParams,
+    buildCommandParserPrompt,
+    getVoiceCommandExamples,
+} from '../voiceIntents';
+import { BaseSpark, SparkVoiceIntent } from '../../types/spark';
+
+const intent: SparkVoiceIntent = {
+    action: 'add',
+    aliases: ['create'],
+    description: 'Add a thing',
+    keywords: ['add thing'],
+    params: {
+        name: { type: 'string', description: 'thing name', required: true },
+        size: { type: 'string', description: 'size', options: ['Small', 'Large'] },
+        count: { type: 'number', description: 'count' },
+        due: { type: 'date', description: 'due date' },
+        tags: { type: 'list', description: 'tags' },
+    },
+    examples: [{ text: 'Add a large box', params: { name: 'Box', size: 'Large' } }],
+    handler: (params, data) => ({ data, message: params.name }),
+};
+
+const spark = (id: string, overrides: Partial<BaseSpark> = {}): BaseSpark => ({
+    metadata: {
+        id,
+        title: id.toUpperCase(),
+        description: '',
+        icon: '✨',
+        category: 'utility',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        rating: 4,
+    },
+    loadComponent: jest.fn(),
+    ...overrides,
+});
+
+// Friday 30 October 2026, local time
+const now = new Date(2026, 9, 30, 18, 0);
+
+describe('voiceIntents', () => {
+    it('finds intents by action or alias', () => {
+        const things = spark('things', { voiceIntents: [intent] });
+        expect(findVoiceIntent(things, 'add')).toBe(intent);
+        expect(findVoiceIntent(things, 'create')).toBe(intent);
+        expect(findVoiceIntent(things, 'delete')).toBeUndefined();
+        expect(findVoiceIntent(spark('plain'), 'add')).toBeUndefined();
+        expect(findVoiceIntent(undefined, 'add')).toBeUndefined();
+    });
+
+    it('converts params to their declared types', () => {
+        expect(resolveIntentParams(intent, {
+            name: '  Box ',
+            size: 'large',
+            count: '3',
+            due: 'tomorrow',
+            tags: 'red, , blue',
+            extra: 'dropped',
+        }, now)).toEqual({
+            ok: true,
+            params: { name: 'Box', size: 'Large', count: 3, due: '2026-10-31', tags: ['red', 'blue'] },
+        });
+
+        expect(resolveIntentParams(intent, { name: 'Box', count: 2.5, due: '2027-01-15', tags: ['x'] }, now)).toEqual({
+            ok: true,
+            params: { name: 'Box', count: 2.5, due: '2027-01-15', tags: ['x'] },
+        });
+
+        // Spoken dates, as the parser prompt's examples give them
+        expect(resolveIntentParams(intent, { name: 'Box', due: 'friday' }, now)).toEqual({
+            ok: true,
+            params: { name: 'Box', due: '2026-11-06' },
+        });
+
+        // Blank optional params are left out
+        expect(resolveIntentParams(intent, { name: 'Box', size: '', tags: [] }, now)).toEqual({ ok: true, params: { name: 'Box' } });
+    });
+
+    it('maps spoken synonyms to options', () => {
+        const withSynonyms = { ...intent, params: { ...intent.params, size: { ...intent.params.size, synonyms: { big: 'Large' } } } };
+        expect(resolveIntentParams(withSynonyms, { name: 'Box', size: 'Big' }, now)).toEqual({ ok: true, params: { name: 'Box', size: 'Large' } });
+    });
+
+    it('explains missing and invalid params', () => {
+        expect(resolveIntentParams(intent, {}, now)).toEqual({ ok: false, reason: 'Missing thing name.' });
+        expect(resolveIntentParams(intent, { name: ' ' }, now)).toEqual({ ok: false, reason: 'Missing thing name.' });
+        expect(resolveIntentParams(intent, { name: 'Box', size: 'huge' }, now)).toEqual({
+            ok: false,
+            reason: '"huge" isn\'t a valid size. Try Small, Large.',
+        });
+        expect(resolveIntentParams(intent, { name: 'Box', count: 'lots' }, now)).toEqual({
+            ok: false,
+            reason: '"lots" isn\'t a valid count.',
+        });
+        expect(resolveIntentParams(intent, { name: 'Box', due: 'someday' }, now)).toEqual({
+            ok: false,
+            reason: 'I couldn\'t understand the date "someday".',
+        });
+    });
+
+    it('builds the parser prompt from declared intents', () => {
+        const prompt = buildCommandParserPrompt([
+            spark('things', { voiceIntents: [intent] }),
+            spark('viewer'),
+            spark('old', { metadata: { ...spark('old').metadata, archived: true }, voiceIntents: [intent] }),
+        ], now);
+
+        expect(prompt).toContain('Today is 2026-10-30.');
+        expect(prompt).toContain('1. "things" (THINGS):\n   - "add" / "create": Add a thing');
+        expect(prompt).toContain('Keywords: "add thing"');
+        expect(prompt).toContain("Params: { name: string (thing name), size?: 'Small'|'Large' (size), count?: number (count), due?: date (YYYY-MM-DD, or spoken like 'tomorrow' or 'friday') (due date), tags?: string[] (tags) }");
+        expect(prompt).toContain('"Add a large box" -> {"targetSpark":"things","action":"add","params":{"name":"Box","size":"Large"},"confidence":0.9}');
+        expect(prompt).toContain('- "viewer" (VIEWER)');
+        expect(prompt).not.toContain('"old"');
+    });
+
+    it('asks for an array when a listed param runs once per item', () => {
+        const listed = { ...intent, params: { name: { ...intent.params.name, multiple: true } } };
+        const prompt = buildCommandParserPrompt([spark('things', { voiceIntents: [listed] })], now);
+
+        expect(prompt).toContain('Params: { name: string | string[] (thing name; an array when several are listed) }');
+    });
+
+    it('lists example phrases for suggestions', () => {
+        expect(getVoiceCommandExamples([spark('things', { voiceIntents: [intent] }), spark('viewer')])).toEqual(['Add a large box']);
+    });
+});
@@ -0,0 +1,135 @@
+/**
+ * Utility functions for deciding when automation rules run
+ */
+
+import { AutomationAction, AutomationRule, AutomationTrigger } from '../types/automation';
+import { SparkEvent, SparkEventType } from '../types/spark';
+import { toLocalDateString } from './dateUtils';
+
+// Most recent occurrences remembered per rule; older ones can no longer come due
+const MAX_FIRED_KEYS = 50;
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Actions a rule can take, all run through CommandExecutor
+export const AUTOMATION_ACTIONS: {
+    label: string;
+    targetSpark: string;
+    action: string;
+    param: string; // The param the user's text goes into
+    placeholder: string;
+}[] = [
+    { label: 'Add a to-do', targetSpark: 'todo', action: 'create', param: 'text', placeholder: 'e.g. Weigh in' },
+    { label: 'Add to packing list', targetSpark: 'packing-list', action: 'add', param: 'item', placeholder: 'e.g. Charger for {title}' },
+    { label: 'Log a goal entry', targetSpark: 'goal-tracker', action: 'add', param: 'goal', placeholder: 'Goal name' },
+    { label: 'Add to watch list', targetSpark: 'toview', action: 'add', param: 'title', placeholder: 'Title' },
+];
+
+// Events rules can react to, and what they mean
+export const AUTOMATION_EVENTS: Record<SparkEventType, string> = {
+    'todo.completed': 'a task is completed',
+    'round.finished': 'a golf round finishes',
+    'weight.logged': 'a weight is logged',
+    'flashcard.reviewed': 'a flashcard is reviewed',
+    'trip.created': 'a trip is created',
+};
+
+// One occurrence of a rule's trigger
+export interface AutomationFiring {
+    key: string; // Unique per occurrence, so it runs only once
+    reason: string;
+    context: Record<string, string>; // Values for {placeholders} in the action
+}
+
+// Whole days from today until an event's next occurrence, in local time.
+// Annual events count to this year's date, or next year's once it has passed.
+const nextOccurrence = (event: { date: string; type?: string }, now: Date): { days: number; date: string } => {
+    const [year, month, day] = event.date.split('-').map(Number);
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const target = new Date(event.type === 'annual' ? today.getFullYear() : year, month - 1, day);
+    if (event.type === 'annual' && target < today) {
+        target.setFullYear(today.getFullYear() + 1);
+    }
+    return { days: Math.round((target.getTime() - today.getTime()) / (24 * 60 * 60 * 1000)), date: toLocalDateString(target) };
+};
+
+export const describeTrigger = (trigger: AutomationTrigger): string => {
+    switch (trigger.type) {
+        case 'weekly':
+            return `Every ${WEEKDAY_NAMES[trigger.weekday]}`;
+        case 'event-approaching':
+            return `When a Coming Up event is ${trigger.daysBefore} day${trigger.daysBefore === 1 ? '' : 's'} away`;
+        case 'spark-event':
+            return `When ${AUTOMATION_EVENTS[trigger.eventType]}${trigger.sparkId ? ` in ${trigger.sparkId}` : ''}`;
+    }
+};
+
+export const describeAction = (action: AutomationAction): string => {
+    const preset = AUTOMATION_ACTIONS.find(a => a.targetSpark === action.targetSpark && a.action === action.action);
+    if (!preset) {
+        return `${action.action} in ${action.targetSpark}`;
+    }
+    return `${preset.label}: "${action.params[preset.param] ?? ''}"`;
+};
+
+/**
+ * Occurrences of a time-based trigger that are due now and have not run yet.
+ * An event that came within range while the app was closed still counts.
+ */
+export const findDueFirings = (
+    rule: AutomationRule,
+    now: Date,
+    sparkData: Record<string, Record<string, any>>
+): AutomationFiring[] => {
+    const { trigger } = rule;
+    let firings: AutomationFiring[] = [];
+
+    if (trigger.type === 'weekly' && now.getDay() === trigger.weekday) {
+        const date = toLocalDateString(now);
+        firings = [{ key: `weekly:${date}`, reason: WEEKDAY_NAMES[trigger.weekday], context: { date } }];
+    }
+
+    if (trigger.type === 'event-approaching') {
+        const events: { id: string; title: string; date: string; type?: string }[] = sparkData['coming-up']?.events || [];
+        firings = events
+            .map(event => ({ event, next: nextOccurrence(event, now) }))
+            .filter(({ next }) => next.days >= 0 && next.days <= trigger.daysBefore)
+            // Keyed by occurrence, so an annual event fires again the next year
+            .map(({ event, next }) => ({
+                key: `event:${event.id}:${next.date}`,
+                reason: `${event.title} in ${next.days} days`,
+                context: { title: event.title, date: next.date },
+            }));
+    }
+
+    return firings.filter(firing => !rule.firedKeys.includes(firing.key));
+};
+
+export const matchesSparkEvent = (rule: AutomationRule, event: SparkEvent): boolean =>
+    rule.trigger.type === 'spark-event'
+    && rule.trigger.eventType === event.type
+    && (!rule.trigger.sparkId || rule.trigger.sparkId === event.sparkId);
+
+export const sparkEventFiring = (event: SparkEvent): AutomationFiring => {
+    const context: Record<string, string> = { sparkId: event.sparkId, date: event.timestamp.split('T')[0] };
+    Object.entries(event.payload).forEach(([key, value]) => {
+        if (value !== undefined) {
+            context[key] = String(value);
+        }
+    });
+    return { key: `event:${event.id}`, reason: `${event.type} in ${event.sparkId}`, context };
+};
+
+/**
+ * Fill {placeholders} in action params. Unknown placeholders are left as they are.
+ */
+export const fillParams = (params: Record<string, string>, context: Record<string, string>): Record<string, string> => {
+    const filled: Record<string, string> = {};
+    Object.entries(params).forEach(([key, value]) => {
+        filled[key] = value.replace(/\{(\w+)\}/g, (match, name) => context[name] ?? match);
+    });
+    return filled;
+};
+
+export const rememberFiring = (firedKeys: string[], key: string): string[] =>
+    [...firedKeys.filter(k => k !== key), key].slice(-MAX_FIRED_KEYS);
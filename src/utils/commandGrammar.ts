@@ -0,0 +1,527 @@
+/**
+ * Utility functions for the offline voice command parser: phrase templates,
+ * spoken numbers and dates, and spark names
+ */
+
+import { BaseSpark, SparkIntentParam, SparkVoiceIntent } from '../types/spark';
+import type { ParsedCommand } from '../services/GeminiCommandParser';
+import { toLocalDateString } from './dateUtils';
+import { findVoiceIntent, resolveIntentParams } from './voiceIntents';
+
+const NUMBER_WORDS = [
+    'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+    'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen',
+];
+const TENS_WORDS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = [
+    'january', 'february', 'march', 'april', 'may', 'june',
+    'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+// Longest dates we look for at the end of a phrase, e.g. "on march 3rd 2027"
+const MAX_DATE_WORDS = 4;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const byLengthDescending = (a: string, b: string) => b.length - a.length;
+
+const SPOKEN_NUMBER_WORD = [...NUMBER_WORDS, ...TENS_WORDS.filter(Boolean), 'hundred', 'thousand']
+    .sort(byLengthDescending)
+    .join('|');
+const SPOKEN_NUMBER_PATTERN =
+    `\\d+(?:\\.\\d+)?|(?:${SPOKEN_NUMBER_WORD})(?:[\\s-]+(?:and[\\s-]+)?(?:${SPOKEN_NUMBER_WORD}))*`;
+
+/**
+ * A number said as digits or words, e.g. "182", "1.5", "twenty-five" or "a hundred and ten"
+ */
+export const parseSpokenNumber = (text: string): number | undefined => {
+    const spoken = text.trim().toLowerCase();
+    if (/^\d+(\.\d+)?$/.test(spoken)) {
+        return parseFloat(spoken);
+    }
+
+    const words = spoken.split(/[\s-]+/).filter(word => word && word !== 'and');
+    if (words.length === 0) {
+        return undefined;
+    }
+
+    let total = 0;
+    let current = 0;
+    for (const [index, word] of words.entries()) {
+        if (NUMBER_WORDS.includes(word)) {
+            current += NUMBER_WORDS.indexOf(word);
+        } else if (TENS_WORDS.includes(word)) {
+            current += TENS_WORDS.indexOf(word) * 10;
+        } else if (word === 'hundred') {
+            current = (current || 1) * 100;
+        } else if (word === 'thousand') {
+            total += (current || 1) * 1000;
+            current = 0;
+        } else if ((word === 'a' || word === 'an') && index === 0) {
+            current = 1;
+        } else {
+            return undefined;
+        }
+    }
+    return total + current;
+};
+
+const addDays = (date: Date, days: number): Date =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const findMonth = (word: string): number => {
+    const name = word.replace(/\.$/, '');
+    return name.length < 3 ? -1 : MONTHS.findIndex(month => month.startsWith(name));
+};
+
+// A calendar date, in the next year when no year is said and it has already passed
+const buildDate = (month: number, day: number, year: number | undefined, today: Date): string | undefined => {
+    let date = new Date(year ?? today.getFullYear(), month, day);
+    if (date.getMonth() !== month) {
+        return undefined;
+    }
+    if (year === undefined && date < today) {
+        date = new Date(today.getFullYear() + 1, month, day);
+    }
+    return toLocalDateString(date);
+};
+
+/**
+ * A spoken date as YYYY-MM-DD, e.g. "tomorrow", "next friday", "in 3 days",
+ * "on march 3rd" or "the 12th of june 2027"; undefined when it isn't a date
+ */
+export const parseSpokenDate = (text: string, now: Date = new Date()): string | undefined => {
+    const spoken = text
+        .trim()
+        .toLowerCase()
+        .replace(/,/g, '')
+        .replace(/\s+/g, ' ')
+        .replace(/^(on|by|for|due) /, '');
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+    if (/^\d{4}-\d{2}-\d{2}$/.test(spoken)) {
+        return spoken;
+    }
+    if (/^(today|tonight|this (morning|afternoon|evening))$/.test(spoken)) {
+        return toLocalDateString(today);
+    }
+    if (/^tomorrow( (morning|afternoon|evening|night))?$/.test(spoken)) {
+        return toLocalDateString(addDays(today, 1));
+    }
+    if (/^(the )?day after tomorrow$/.test(spoken)) {
+        return toLocalDateString(addDays(today, 2));
+    }
+    if (spoken === 'next week') {
+        return toLocalDateString(addDays(today, 7));
+    }
+
+    const relative = spoken.match(/^in (.+) (days?|weeks?)$/);
+    if (relative) {
+        const count = parseSpokenNumber(relative[1]);
+        return count === undefined ? undefined : toLocalDateString(addDays(today, count * (relative[2].startsWith('week') ? 7 : 1)));
+    }
+
+    // "friday" and "next friday" are the coming one; "this friday" can be today
+    const weekday = spoken.match(/^(this |next )?([a-z]+)$/);
+    if (weekday && WEEKDAYS.includes(weekday[2])) {
+        const days = (WEEKDAYS.indexOf(weekday[2]) - today.getDay() + 7) % 7;
+        return toLocalDateString(addDays(today, days === 0 && weekday[1] !== 'this ' ? 7 : days));
+    }
+
+    const monthFirst = spoken.match(/^([a-z]+\.?) (?:the )?(\d{1,2})(?:st|nd|rd|th)?(?: (\d{4}))?$/);
+    if (monthFirst && findMonth(monthFirst[1]) >= 0) {
+        return buildDate(findMonth(monthFirst[1]), Number(monthFirst[2]), monthFirst[3] ? Number(monthFirst[3]) : undefined, today);
+    }
+
+    const dayFirst = spoken.match(/^(?:the )?(\d{1,2})(?:st|nd|rd|th)?(?: of)? ([a-z]+\.?)(?: (\d{4}))?$/);
+    if (dayFirst && findMonth(dayFirst[2]) >= 0) {
+        return buildDate(findMonth(dayFirst[2]), Number(dayFirst[1]), dayFirst[3] ? Number(dayFirst[3]) : undefined, today);
+    }
+
+    // "the 15th" is this month's, or next month's once it has passed
+    const dayOnly = spoken.match(/^the (\d{1,2})(?:st|nd|rd|th)$/);
+    if (dayOnly) {
+        const day = Number(dayOnly[1]);
+        const month = day < today.getDate() ? today.getMonth() + 1 : today.getMonth();
+        const date = new Date(today.getFullYear(), month, day);
+        return date.getDate() === day ? toLocalDateString(date) : undefined;
+    }
+
+    return undefined;
+};
+
+/**
+ * A date said at the end of some text, split off: "call mom tomorrow" gives "call mom" and tomorrow's date
+ */
+export const splitTrailingDate = (text: string, now: Date = new Date()): { text: string; date: string } | undefined => {
+    const words = text.trim().split(/\s+/);
+    for (let count = Math.min(MAX_DATE_WORDS, words.length - 1); count > 0; count--) {
+        const date = parseSpokenDate(words.slice(-count).join(' '), now);
+        if (date) {
+            return { text: words.slice(0, -count).join(' '), date };
+        }
+    }
+    return undefined;
+};
+
+const normalizeName = (name: string): string =>
+    name
+        .toLowerCase()
+        .replace(/['’]/g, '')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim()
+        .replace(/ (spark|app)$/, '');
+
+const isSameWord = (a: string, b: string): boolean => a === b || a.replace(/s$/, '') === b.replace(/s$/, '');
+
+/**
+ * The spark a spoken name refers to, by title or id ("golf brain" is golf-brain).
+ * Exact names win; otherwise every spoken word must appear in exactly one spark's
+ * name, so "my goals" finds Goal Tracker but "tracker" alone finds nothing.
+ */
+export const findSparkByName = (name: string, sparks: BaseSpark[]): { spark: BaseSpark; exact: boolean } | undefined => {
+    const spoken = normalizeName(name);
+    if (!spoken) {
+        return undefined;
+    }
+
+    const namesOf = (spark: BaseSpark) => [spark.metadata.title, spark.metadata.id].map(normalizeName);
+    const exact = sparks.find(spark => namesOf(spark).some(sparkName => sparkName === spoken));
+    if (exact) {
+        return { spark: exact, exact: true };
+    }
+
+    const words = spoken.split(' ');
+    const candidates = sparks.filter(spark =>
+        namesOf(spark).some(sparkName => {
+            const sparkWords = sparkName.split(' ');
+            return words.every(word => sparkWords.some(sparkWord => isSameWord(word, sparkWord)));
+        })
+    );
+    return candidates.length === 1 ? { spark: candidates[0], exact: false } : undefined;
+};
+
+type PhraseNode =
+    | { kind: 'word'; text: string }
+    | { kind: 'slot'; name: string }
+    | { kind: 'choice'; optional: boolean; alternatives: PhraseNode[][] };
+
+interface CompiledPhrase {
+    regex: RegExp;
+    slots: string[]; // Param names, in the order of the regex's capture groups
+}
+
+const parsePhraseNodes = (tokens: string[], position: { index: number }, closers: string[]): PhraseNode[] => {
+    const nodes: PhraseNode[] = [];
+    while (position.index < tokens.length && !closers.includes(tokens[position.index])) {
+        const token = tokens[position.index++];
+        if (token === '[' || token === '(') {
+            const close = token === '[' ? ']' : ')';
+            const alternatives = [parsePhraseNodes(tokens, position, ['|', close])];
+            while (tokens[position.index] === '|') {
+                position.index++;
+                alternatives.push(parsePhraseNodes(tokens, position, ['|', close]));
+            }
+            if (tokens[position.index++] !== close) {
+                throw new Error(`Unclosed "${token}"`);
+            }
+            nodes.push({ kind: 'choice', optional: token === '[', alternatives });
+        } else if (token.startsWith('{')) {
+            nodes.push({ kind: 'slot', name: token.slice(1, -1) });
+        } else {
+            nodes.push({ kind: 'word', text: token });
+        }
+    }
+    return nodes;
+};
+
+const slotPattern = (param: SparkIntentParam): string => {
+    if (param.options) {
+        const words = [...param.options, ...Object.keys(param.synonyms || {})]
+            .sort(byLengthDescending)
+            .map(word => escapeRegExp(word).replace(/\s+/g, '\\s+'));
+        return `(${words.join('|')})`;
+    }
+    if (param.type === 'number') {
+        return `(${SPOKEN_NUMBER_PATTERN})`;
+    }
+    return '(.+?)';
+};
+
+// Every node starts with its own whitespace, so optional nodes can be left out anywhere
+const compileNodes = (nodes: PhraseNode[], intent: SparkVoiceIntent, slots: string[]): string =>
+    nodes
+        .map(node => {
+            if (node.kind === 'word') {
+                return `\\s+${escapeRegExp(node.text)}`;
+            }
+            if (node.kind === 'slot') {
+                const param = intent.params[node.name];
+                if (!param) {
+                    throw new Error(`Unknown param {${node.name}}`);
+                }
+                slots.push(node.name);
+                return `\\s+${slotPattern(param)}`;
+            }
+            const alternatives = node.alternatives.map(alternative => compileNodes(alternative, intent, slots));
+            return `(?:${alternatives.join('|')})${node.optional ? '?' : ''}`;
+        })
+        .join('');
+
+const compiledPhrases = new Map<string, CompiledPhrase>();
+
+const compilePhrase = (intent: SparkVoiceIntent, phrase: string): CompiledPhrase => {
+    const key = `${intent.action}\n${Object.keys(intent.params).join(',')}\n${phrase}`;
+    let compiled = compiledPhrases.get(key);
+    if (!compiled) {
+        try {
+            const tokens = phrase.match(/[[\]()|]|\{[^}]+\}|[^\s[\]()|{}]+/g) || [];
+            const slots: string[] = [];
+            const pattern = compileNodes(parsePhraseNodes(tokens, { index: 0 }, []), intent, slots);
+            compiled = { regex: new RegExp(`^${pattern}$`, 'i'), slots };
+        } catch (error: any) {
+            throw new Error(`Invalid voice phrase "${phrase}": ${error.message}`);
+        }
+        compiledPhrases.set(key, compiled);
+    }
+    return compiled;
+};
+
+/**
+ * Throws when one of the intent's phrases is malformed or names a param it doesn't declare
+ */
+export const checkIntentPhrases = (intent: SparkVoiceIntent): void => {
+    (intent.phrases || []).forEach(phrase => compilePhrase(intent, phrase));
+};
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+const cleanText = (text: string): string => capitalize(text.trim().replace(/^"(.*)"$/, '$1'));
+
+interface PhraseMatch {
+    params: Record<string, any>;
+    coverage: number; // Share of the text matched by words and typed slots rather than free text
+}
+
+const matchPhrase = (intent: SparkVoiceIntent, phrase: string, text: string, now: Date): PhraseMatch | undefined => {
+    const { regex, slots } = compilePhrase(intent, phrase);
+    const match = regex.exec(` ${text}`);
+    if (!match) {
+        return undefined;
+    }
+
+    const params: Record<string, any> = {};
+    const freeSlots: string[] = [];
+    for (const [index, name] of slots.entries()) {
+        const value = match[index + 1];
+        if (value === undefined) {
+            continue;
+        }
+        const param = intent.params[name];
+        if (param.type === 'date') {
+            const date = parseSpokenDate(value, now);
+            if (!date) {
+                return undefined;
+            }
+            params[name] = date;
+        } else if (param.type === 'number') {
+            params[name] = parseSpokenNumber(value);
+        } else if (param.type === 'list') {
+            params[name] = value.split(/\s*,\s*|\s+and\s+/).map(cleanText);
+            freeSlots.push(name);
+        } else if (param.options) {
+            params[name] = value;
+        } else {
+            params[name] = value;
+            freeSlots.push(name);
+        }
+    }
+
+    // "remind me to call mom tomorrow": a date at the end of the free text fills the date param
+    const dateParam = Object.keys(intent.params).find(name => intent.params[name].type === 'date' && !(name in params));
+    const lastSlot = freeSlots[freeSlots.length - 1];
+    if (dateParam && lastSlot && intent.params[lastSlot].type === 'string' && text.toLowerCase().endsWith(params[lastSlot].toLowerCase())) {
+        const split = splitTrailingDate(params[lastSlot], now);
+        if (split) {
+            params[lastSlot] = split.text;
+            params[dateParam] = split.date;
+        }
+    }
+
+    let freeLength = 0;
+    for (const name of freeSlots) {
+        if (typeof params[name] === 'string') {
+            freeLength += params[name].length;
+            params[name] = cleanText(params[name]);
+        } else {
+            freeLength += params[name].join(' ').length;
+        }
+    }
+
+    const resolved = resolveIntentParams(intent, params, now);
+    if (!resolved.ok) {
+        return undefined;
+    }
+    return { params: resolved.params, coverage: Math.max(0, 1 - freeLength / text.length) };
+};
+
+const LEADING_FILLER = /^(?:(?:hey|ok|okay)\s+sparks?|sparks|please|can you|could you|would you|will you|i want to|i'd like to)[,\s]+/i;
+
+const normalizeTranscript = (transcript: string): string => {
+    let text = transcript
+        .replace(/[‘’]/g, "'")
+        .replace(/[“”]/g, '"')
+        .replace(/[:;]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/[\s.!?,]+$/, '')
+        .replace(/,?\s+please$/i, '');
+
+    let previous;
+    do {
+        previous = text;
+        text = text.replace(LEADING_FILLER, '');
+    } while (text !== previous);
+    return text;
+};
+
+const OPEN_COMMAND = /^(?:open|launch|start|show(?: me)?|go to|switch to|take me to|bring up)\s+(?:the\s+|my\s+)?(.+)$/i;
+const ADD_TO_SPARK_COMMAND = /^(?:add|put)\s+(.+)\s+(?:to|on|in)\s+(?:my\s+|the\s+)?(.+?)(?:\s+list)?$/i;
+
+// Offline results at least this confident can be trusted without asking Gemini
+export const LOCAL_CONFIDENCE_THRESHOLD = 0.7;
+
+// Confidence for a phrase match grows with how much of the command the phrase's own words explain
+const PHRASE_CONFIDENCE = { base: 0.75, coverage: 0.2 };
+const FUZZY_OPEN_CONFIDENCE = 0.8;
+const ADD_TO_SPARK_CONFIDENCE = 0.65;
+
+/**
+ * Parse a spoken command without AI, from the sparks' declared intent phrases.
+ * Handles "open <spark>", every intent phrase, and "add <thing> to <spark>" as a
+ * last resort; anything else comes back as unknown with zero confidence.
+ */
+export const parseLocalCommand = (transcript: string, sparks: BaseSpark[], now: Date = new Date()): ParsedCommand => {
+    const result = (targetSpark: string, action: string, params: Record<string, any>, confidence: number): ParsedCommand => ({
+        targetSpark,
+        action,
+        params,
+        confidence,
+        originalText: transcript,
+        source: 'local',
+    });
+
+    const text = normalizeTranscript(transcript);
+    const available = sparks.filter(spark => !spark.metadata.archived);
+    if (!text) {
+        return result('unknown', 'unknown', {}, 0);
+    }
+
+    const open = text.match(OPEN_COMMAND);
+    const opened = open && findSparkByName(open[1], available);
+    if (opened) {
+        return result(opened.spark.metadata.id, 'open', {}, opened.exact ? 1 : FUZZY_OPEN_CONFIDENCE);
+    }
+
+    // The phrase explaining most of the command wins; on a tie, the spark listed first
+    let best: (PhraseMatch & { sparkId: string; action: string }) | undefined;
+    for (const spark of available) {
+        for (const intent of spark.voiceIntents || []) {
+            for (const phrase of intent.phrases || []) {
+                const match = matchPhrase(intent, phrase, text, now);
+                if (match && (!best || match.coverage > best.coverage)) {
+                    best = { ...match, sparkId: spark.metadata.id, action: intent.action };
+                }
+            }
+        }
+    }
+    if (best) {
+        const confidence = PHRASE_CONFIDENCE.base + PHRASE_CONFIDENCE.coverage * best.coverage;
+        return result(best.sparkId, best.action, best.params, Math.round(confidence * 100) / 100);
+    }
+
+    // "add sunscreen to packing": the thing fills the spark's first required text param
+    const addTo = text.match(ADD_TO_SPARK_COMMAND);
+    const target = addTo && findSparkByName(addTo[2], available);
+    const intent = target ? findVoiceIntent(target.spark, 'add') : undefined;
+    const textParam = intent && Object.keys(intent.params).find(name => intent.params[name].required && intent.params[name].type === 'string');
+    if (target && intent && textParam) {
+        const resolved = resolveIntentParams(intent, { [textParam]: cleanText(addTo![1]) }, now);
+        if (resolved.ok) {
+            return result(target.spark.metadata.id, intent.action, resolved.params, ADD_TO_SPARK_CONFIDENCE);
+        }
+    }
+
+    return result('unknown', 'unknown', {}, 0);
+};
+
+// Separate sentences are always separate steps; "Dec. 25" is not a sentence break
+const SENTENCE_BREAK = /\s*;\s*|\.\s+(?=[A-Z])/;
+
+// Connectives start a new step only where both sides are commands on their own,
+// so "add milk and eggs to the shopping list" stays one step
+const splitOnConnectives = (text: string, isCommand: (step: string) => boolean): string[] => {
+    const pattern = /\s*,?\s+(?:and then|and also|after that|then|and)\s+/gi;
+    let match;
+    while ((match = pattern.exec(text))) {
+        const before = text.slice(0, match.index);
+        if (isCommand(before)) {
+            const after = splitOnConnectives(text.slice(match.index + match[0].length), isCommand);
+            if (after.every(isCommand)) {
+                return [before, ...after];
+            }
+        }
+    }
+    return [text];
+};
+
+/**
+ * Parse a command that may ask for several things, e.g. "add milk to my todo list
+ * and then open the packing list", into one command per step in the order said
+ */
+export const parseLocalCommands = (transcript: string, sparks: BaseSpark[], now: Date = new Date()): ParsedCommand[] => {
+    const isCommand = (step: string) => parseLocalCommand(step, sparks, now).confidence >= LOCAL_CONFIDENCE_THRESHOLD;
+    const steps = transcript
+        .split(SENTENCE_BREAK)
+        .filter(step => step.trim())
+        .flatMap(step => splitOnConnectives(step.trim(), isCommand));
+
+    if (steps.length <= 1) {
+        return [parseLocalCommand(transcript, sparks, now)];
+    }
+    return steps.map(step => parseLocalCommand(step, sparks, now));
+};
+
+// Commas, "and" and "&" all separate items, as transcripts rarely have commas:
+// "milk and eggs", "milk, eggs, and bread" and "salt & pepper" are all lists
+const LIST_SEPARATOR = /\s*(?:,|&|\band\b)\s*/i;
+
+// Items of a `multiple` param. Gemini is asked for an array when several
+// items are said, so its strings are never split.
+const listItems = (value: unknown, command: ParsedCommand): string[] => {
+    if (Array.isArray(value)) return value.map(String);
+    if (typeof value !== 'string') return [];
+    if (command.source === 'gemini') return [value];
+    return value.split(LIST_SEPARATOR);
+};
+
+/**
+ * One command per item for list-shaped adds: "add milk, eggs and bread to the shopping
+ * list" becomes three adds. Only params the intent marks as `multiple` are split.
+ */
+export const splitListCommands = (commands: ParsedCommand[], sparks: BaseSpark[]): ParsedCommand[] =>
+    commands.flatMap(command => {
+        const spark = sparks.find(s => s.metadata.id === command.targetSpark);
+        const intent = findVoiceIntent(spark, command.action);
+        const name = intent && Object.keys(intent.params).find(param => intent.params[param].multiple);
+        const value = name ? command.params?.[name] : undefined;
+
+        const items: string[] = listItems(value, command)
+            .map(item => item.trim())
+            .filter(Boolean);
+        if (!name || items.length < 2) {
+            return [command];
+        }
+        return items.map(item => ({ ...command, params: { ...command.params, [name]: capitalize(item) } }));
+    });
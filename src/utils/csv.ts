@@ -0,0 +1,73 @@
+/**
+ * Utility functions for reading and writing CSV files
+ */
+
+type CsvValue = string | number | boolean | null | undefined;
+
+const escapeCell = (value: CsvValue): string => {
+    if (value === null || value === undefined) return '';
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Build CSV text from a header row and data rows
+ * @param headers Column names
+ * @param rows Data rows, one value per column
+ * @returns CSV text with a trailing newline
+ */
+export const toCsv = (headers: string[], rows: CsvValue[][]): string => {
+    return [headers, ...rows].map(row => row.map(escapeCell).join(',')).join('\n') + '\n';
+};
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted cells, escaped quotes,
+ * embedded newlines and CRLF line endings. Blank lines are skipped.
+ * @param text CSV text
+ * @returns Rows of trimmed cell strings
+ */
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    const endRow = () => {
+        row.push(cell.trim());
+        if (row.some(value => value !== '')) {
+            rows.push(row);
+        }
+        row = [];
+        cell = '';
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(cell.trim());
+            cell = '';
+        } else if (char === '\n') {
+            endRow();
+        } else if (char !== '\r') {
+            cell += char;
+        }
+    }
+
+    if (cell !== '' || row.length > 0) {
+        endRow();
+    }
+
+    return rows;
+};
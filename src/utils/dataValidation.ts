@@ -0,0 +1,179 @@
+/**
+ * Utility functions for validating persisted spark data at runtime
+ */
+
+export interface ValidationIssue {
+    path: string; // e.g. "todos[3]" or "gameState"
+    reason: string;
+    value: unknown; // The rejected value, kept so it can be quarantined
+}
+
+type ValidationResult<T> = { ok: true; value: T } | { ok: false; reason: string };
+
+// Validators report quarantined values (invalid items in `records` lists)
+// through `issues` instead of failing their parent
+export type Validator<T> = (value: unknown, path: string, issues: ValidationIssue[]) => ValidationResult<T>;
+
+export type Infer<V> = V extends Validator<infer T> ? T : never;
+
+// Declares a spark's persisted data: one validator and one default per top-level key
+export interface SparkDataSpec<T extends Record<string, any>> {
+    sparkId: string;
+    fields: { [K in keyof T]-?: Validator<T[K]> };
+    defaults: T;
+}
+
+export interface SparkDataValidation<T> {
+    data: T;
+    issues: ValidationIssue[];
+}
+
+const ok = <T>(value: T): ValidationResult<T> => ({ ok: true, value });
+const fail = (reason: string): ValidationResult<never> => ({ ok: false, reason });
+
+const describe = (value: unknown): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const string = (): Validator<string> => (value) =>
+    typeof value === 'string' ? ok(value) : fail(`expected string, got ${describe(value)}`);
+
+const number = (): Validator<number> => (value) =>
+    typeof value === 'number' && Number.isFinite(value) ? ok(value) : fail(`expected number, got ${describe(value)}`);
+
+const boolean = (): Validator<boolean> => (value) =>
+    typeof value === 'boolean' ? ok(value) : fail(`expected boolean, got ${describe(value)}`);
+
+const oneOf = <T extends string | number>(options: readonly T[]): Validator<T> => (value) =>
+    options.includes(value as T) ? ok(value as T) : fail(`expected one of ${options.join(', ')}, got ${String(value)}`);
+
+const optional = <T>(validator: Validator<T>): Validator<T | undefined> => (value, path, issues) =>
+    value === undefined ? ok(undefined) : validator(value, path, issues);
+
+const nullable = <T>(validator: Validator<T>): Validator<T | null> => (value, path, issues) =>
+    value === null ? ok(null) : validator(value, path, issues);
+
+// Uses the fallback when the value is missing
+const withDefault = <T>(validator: Validator<T>, fallback: T): Validator<T> => (value, path, issues) =>
+    value === undefined ? ok(fallback) : validator(value, path, issues);
+
+// Accepts anything; for free-form values such as settings blobs
+const unknown = (): Validator<any> => (value) => ok(value);
+
+// Every element must be valid, e.g. scores that line up with players
+const array = <T>(item: Validator<T>): Validator<T[]> => (value, path, issues) => {
+    if (!Array.isArray(value)) {
+        return fail(`expected array, got ${describe(value)}`);
+    }
+
+    const valid: T[] = [];
+    for (let index = 0; index < value.length; index++) {
+        const result = item(value[index], `${path}[${index}]`, issues);
+        if (!result.ok) {
+            return fail(`[${index}] ${result.reason}`);
+        }
+        valid.push(result.value);
+    }
+    return ok(valid);
+};
+
+// A list of independent records (todos, rounds...). Invalid records are
+// dropped and reported for quarantine; the rest are kept.
+const records = <T>(item: Validator<T>): Validator<T[]> => (value, path, issues) => {
+    if (!Array.isArray(value)) {
+        return fail(`expected array, got ${describe(value)}`);
+    }
+
+    const valid: T[] = [];
+    value.forEach((element, index) => {
+        const itemPath = `${path}[${index}]`;
+        const result = item(element, itemPath, issues);
+        if (result.ok) {
+            valid.push(result.value);
+        } else {
+            issues.push({ path: itemPath, reason: result.reason, value: element });
+        }
+    });
+    return ok(valid);
+};
+
+// Unknown keys are kept so older or newer fields survive a round trip
+const object = <S extends Record<string, Validator<any>>>(
+    shape: S
+): Validator<{ [K in keyof S]: Infer<S[K]> }> => (value, path, issues) => {
+    if (!isPlainObject(value)) {
+        return fail(`expected object, got ${describe(value)}`);
+    }
+
+    const result: Record<string, any> = { ...value };
+    for (const key of Object.keys(shape)) {
+        const field = shape[key](value[key], `${path}.${key}`, issues);
+        if (!field.ok) {
+            return fail(`${key}: ${field.reason}`);
+        }
+        if (field.value !== undefined) {
+            result[key] = field.value;
+        }
+    }
+    return ok(result as { [K in keyof S]: Infer<S[K]> });
+};
+
+export const validators = {
+    string,
+    number,
+    boolean,
+    oneOf,
+    optional,
+    nullable,
+    withDefault,
+    unknown,
+    array,
+    records,
+    object,
+};
+
+export const defineSparkData = <T extends Record<string, any>>(spec: SparkDataSpec<T>): SparkDataSpec<T> => spec;
+
+/**
+ * Validate a spark's persisted data against its spec. Missing keys get their
+ * default; invalid keys are replaced by their default and invalid records are
+ * dropped, with each rejected value reported in `issues`.
+ * Keys not in the spec are passed through untouched.
+ */
+export const validateSparkData = <T extends Record<string, any>>(
+    spec: SparkDataSpec<T>,
+    raw: unknown
+): SparkDataValidation<T> => {
+    const issues: ValidationIssue[] = [];
+
+    if (raw === undefined || raw === null) {
+        return { data: { ...spec.defaults }, issues };
+    }
+    if (!isPlainObject(raw)) {
+        issues.push({ path: '', reason: `expected object, got ${describe(raw)}`, value: raw });
+        return { data: { ...spec.defaults }, issues };
+    }
+
+    const data: Record<string, any> = { ...raw };
+    (Object.keys(spec.fields) as (keyof T & string)[]).forEach(key => {
+        if (raw[key] === undefined) {
+            data[key] = spec.defaults[key];
+            return;
+        }
+
+        const result = spec.fields[key](raw[key], key, issues);
+        if (result.ok) {
+            data[key] = result.value;
+        } else {
+            issues.push({ path: key, reason: result.reason, value: raw[key] });
+            data[key] = spec.defaults[key];
+        }
+    });
+
+    return { data: data as T, issues };
+};
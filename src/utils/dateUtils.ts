@@ -2,20 +2,31 @@
  * Utility functions for date operations
  */
 
+import { getLocale } from '../i18n';
+
 /**
  * Format a date string to a readable format
  * @param dateString - Date in YYYY-MM-DD format
+ * @param locale - Defaults to the app language's locale
  * @returns Formatted date string (e.g., "Dec 25, 2024")
  */
-export const formatDate = (dateString: string): string => {
+export const formatDate = (dateString: string, locale: string = getLocale()): string => {
     const date = new Date(dateString + 'T00:00:00');
-    return date.toLocaleDateString('en-US', {
+    return date.toLocaleDateString(locale, {
         month: 'short',
         day: 'numeric',
         year: 'numeric',
     });
 };
 
+/**
+ * A date as YYYY-MM-DD in local time
+ * @param date - Date to convert
+ * @returns Date string (e.g., "2024-12-25")
+ */
+export const toLocalDateString = (date: Date): string =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
 /**
  * Calculate days remaining until a date
  * @param dateString - Target date in YYYY-MM-DD format
@@ -33,15 +44,23 @@ export const getDaysRemaining = (dateString: string): number => {
  * Format a date range
  * @param startDate - Start date in YYYY-MM-DD format
  * @param endDate - End date in YYYY-MM-DD format
- * @returns Formatted date range (e.g., "Dec 25 - Dec 31, 2024")
+ * @param locale - Defaults to the app language's locale
+ * @returns Formatted date range (e.g., "Dec 25 - Dec 31, 2024", or "20 déc. – 25 déc. 2024" in French)
  */
-export const formatDateRange = (startDate: string, endDate: string): string => {
+export const formatDateRange = (startDate: string, endDate: string, locale: string = getLocale()): string => {
     const start = new Date(startDate + 'T00:00:00');
     const end = new Date(endDate + 'T00:00:00');
 
-    const startMonth = start.toLocaleDateString('en-US', { month: 'short' });
+    // Other languages put the day first, so each end is formatted whole
+    if (!locale.startsWith('en')) {
+        const startText = start.toLocaleDateString(locale, { day: 'numeric', month: 'short' });
+        const endText = end.toLocaleDateString(locale, { day: 'numeric', month: 'short', year: 'numeric' });
+        return `${startText} – ${endText}`;
+    }
+
+    const startMonth = start.toLocaleDateString(locale, { month: 'short' });
     const startDay = start.getDate();
-    const endMonth = end.toLocaleDateString('en-US', { month: 'short' });
+    const endMonth = end.toLocaleDateString(locale, { month: 'short' });
     const endDay = end.getDate();
     const year = end.getFullYear();
 
@@ -0,0 +1,59 @@
+/**
+ * Utility functions for moving text files in and out of the app
+ */
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
+
+/**
+ * Save a text file via the share sheet (native) or a download (web)
+ * @param filename Name for the file, including extension
+ * @param content File contents
+ * @param mimeType MIME type of the contents
+ */
+export const shareTextFile = async (filename: string, content: string, mimeType: string): Promise<void> => {
+    if (Platform.OS === 'web') {
+        const blob = new Blob([content], { type: mimeType });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        link.click();
+        URL.revokeObjectURL(url);
+        return;
+    }
+
+    const fileUri = `${FileSystem.cacheDirectory}${filename}`;
+    await FileSystem.writeAsStringAsync(fileUri, content);
+
+    if (!(await Sharing.isAvailableAsync())) {
+        throw new Error('Sharing is not available on this device');
+    }
+    await Sharing.shareAsync(fileUri, { mimeType, dialogTitle: `Save ${filename}` });
+};
+
+/**
+ * Let the user pick a file and read it as text
+ * @param types MIME types to offer in the picker
+ * @returns File contents, or null if the picker was cancelled
+ */
+export const pickTextFile = async (types: string[] = ['*/*']): Promise<string | null> => {
+    const result = await DocumentPicker.getDocumentAsync({
+        type: types,
+        multiple: false,
+        copyToCacheDirectory: true,
+    });
+    if (result.canceled) {
+        return null;
+    }
+
+    const asset = result.assets?.[0];
+    if (!asset?.uri) {
+        throw new Error('No file selected');
+    }
+
+    return Platform.OS === 'web'
+        ? (await fetch(asset.uri)).text()
+        : FileSystem.readAsStringAsync(asset.uri);
+};
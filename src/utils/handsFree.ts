@@ -0,0 +1,93 @@
+/**
+ * Utility functions for hands-free voice sessions: splitting continuous speech
+ * into utterances at pauses, and spotting the phrases that end a session
+ */
+
+// Phrases that end a hands-free session, in the languages speech can be heard in
+const STOP_PHRASES = [
+    'stop',
+    'stop listening',
+    'stop hands free',
+    'hands free off',
+    'thats all',
+    'im done',
+    'para',
+    'parar',
+    'basta',
+    'ya esta',
+    'ya está',
+    'arrête',
+    'arrête découte',
+    'cest tout',
+    'stopp',
+    'fertig',
+];
+
+const normalize = (text: string): string =>
+    text
+        .toLowerCase()
+        .replace(/['’]/g, '')
+        .replace(/[-.,!?¡¿]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+/**
+ * Whether an utterance asks to end the hands-free session, e.g. "Stop listening."
+ */
+export const isStopPhrase = (text: string): boolean => STOP_PHRASES.includes(normalize(text));
+
+export interface UtteranceSegmenter {
+    // Takes the recognizer's latest transcript; final ones are kept, interim ones replace each other
+    push: (transcript: string, isFinal: boolean) => void;
+    // Hands over whatever was heard without waiting for the pause
+    flush: () => void;
+    // Drops whatever was heard
+    reset: () => void;
+}
+
+/**
+ * Collects continuous recognition results until the speaker pauses for `silenceMs`,
+ * then hands the whole utterance to `onUtterance`. Final results don't end an utterance
+ * by themselves, so "7 iron ... left, rough" stays one shot.
+ */
+export const createUtteranceSegmenter = (
+    silenceMs: number,
+    onUtterance: (text: string) => void
+): UtteranceSegmenter => {
+    let settled = '';
+    let interim = '';
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const reset = () => {
+        if (timer) {
+            clearTimeout(timer);
+            timer = null;
+        }
+        settled = '';
+        interim = '';
+    };
+
+    const flush = () => {
+        const text = `${settled} ${interim}`.trim();
+        reset();
+        if (text) {
+            onUtterance(text);
+        }
+    };
+
+    const push = (transcript: string, isFinal: boolean) => {
+        const text = transcript.trim();
+        if (isFinal) {
+            settled = `${settled} ${text}`.trim();
+            interim = '';
+        } else {
+            interim = text;
+        }
+        if (timer) {
+            clearTimeout(timer);
+        }
+        timer = setTimeout(flush, silenceMs);
+    };
+
+    return { push, flush, reset };
+};
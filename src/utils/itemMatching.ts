@@ -0,0 +1,133 @@
+/**
+ * Utility functions for finding the item a voice command talks about, e.g. the
+ * todo in "mark buy milk done", by how closely its text matches what was said
+ */
+
+import { SparkIntentResult } from '../types/spark';
+
+// Scores below this aren't considered a match at all
+const MATCH_THRESHOLD = 0.5;
+
+// Items scoring within this of the best match are too close to call
+const TIE_MARGIN = 0.1;
+
+// At most this many choices are offered when a command is ambiguous
+const MAX_CHOICES = 5;
+
+const normalize = (text: string): string =>
+    text
+        .toLowerCase()
+        .replace(/['’]/g, '')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim()
+        .replace(/^(the|a|an|my) /, '');
+
+const editDistance = (a: string, b: string): number => {
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+// Plurals and one-letter slips of the recognizer ("apointment") still count as the same word
+const isCloseWord = (a: string, b: string): boolean =>
+    a === b ||
+    a.replace(/s$/, '') === b.replace(/s$/, '') ||
+    (Math.min(a.length, b.length) >= 3 && editDistance(a, b) <= 1);
+
+/**
+ * How well a spoken description matches an item's text, from 0 (not at all) to 1 (exactly)
+ */
+export const scoreItemMatch = (query: string, text: string): number => {
+    const spoken = normalize(query);
+    const itemText = normalize(text);
+    if (!spoken || !itemText) {
+        return 0;
+    }
+    if (spoken === itemText) {
+        return 1;
+    }
+
+    const spokenWords = spoken.split(' ');
+    const itemWords = itemText.split(' ');
+    const found = spokenWords.filter(word => itemWords.some(itemWord => isCloseWord(word, itemWord))).length;
+
+    if (found === spokenWords.length && found === itemWords.length) {
+        return 0.95;
+    }
+    // Every word said is in the item: "milk" for "Buy milk"
+    if (found === spokenWords.length) {
+        return 0.6 + 0.3 * (found / itemWords.length);
+    }
+    // The whole item was said, with more around it: "the buy milk one"
+    if (found === itemWords.length) {
+        return 0.5 + 0.3 * (found / spokenWords.length);
+    }
+    return (0.5 * found) / Math.max(spokenWords.length, itemWords.length);
+};
+
+/**
+ * The items that best match a spoken description, best first. Several come back
+ * only when they match about equally well; none when nothing is close enough.
+ */
+export const findBestMatches = <T>(query: string, items: T[], getText: (item: T) => string): T[] => {
+    const scored = items
+        .map(item => ({ item, score: scoreItemMatch(query, getText(item)) }))
+        .filter(({ score }) => score >= MATCH_THRESHOLD)
+        .sort((a, b) => b.score - a.score);
+
+    if (scored.length === 0) {
+        return [];
+    }
+    return scored.filter(({ score }) => score >= scored[0].score - TIE_MARGIN).map(({ item }) => item);
+};
+
+export interface SpokenItemOptions<T> {
+    noun: string; // What the items are called in replies, e.g. "todo"
+    getId: (item: T) => string | number;
+    getText: (item: T) => string;
+    describe?: (item: T) => string; // Label for choices, the text when not given
+}
+
+/**
+ * The item a voice command's `item` param refers to, or a result asking which one
+ * was meant. A picked choice comes back with the exact `itemId`.
+ * Throws an Error with a user-facing message when no item matches.
+ */
+export const findSpokenItem = <T>(
+    items: T[],
+    params: Record<string, any>,
+    { noun, getId, getText, describe = getText }: SpokenItemOptions<T>
+): { item: T } | { result: SparkIntentResult } => {
+    if (params.itemId !== undefined) {
+        const picked = items.find(item => String(getId(item)) === String(params.itemId));
+        if (!picked) {
+            throw new Error(`That ${noun} is no longer there.`);
+        }
+        return { item: picked };
+    }
+
+    const matches = findBestMatches(params.item, items, getText);
+    if (matches.length === 0) {
+        throw new Error(`No ${noun} matching "${params.item}".`);
+    }
+    if (matches.length === 1) {
+        return { item: matches[0] };
+    }
+
+    const choices = matches.slice(0, MAX_CHOICES).map(item => ({
+        label: describe(item),
+        params: { ...params, itemId: String(getId(item)) },
+    }));
+    return {
+        result: {
+            message: `Which ${noun} did you mean? ${choices.map(choice => `"${choice.label}"`).join(' or ')}`,
+            choices,
+        },
+    };
+};
@@ -145,6 +145,14 @@ if (isTaskManagerAvailable && TaskManager) {
       console.log('Background notification data:', data);
       // Handle the notification data here if needed
     }
+
+    // Any notification that wakes the app is a chance to run due automations.
+    // Loaded lazily so defining the task does not load the stores.
+    return import('../services/AutomationService')
+      .then(({ AutomationService }) => AutomationService.evaluate())
+      .catch((automationError) => {
+        console.error('Background automation run failed:', automationError);
+      });
   });
 } else {
   console.log('⚠️ TaskManager not available, skipping background task definition');
@@ -0,0 +1,96 @@
+/**
+ * Utility functions for the global cross-spark search index
+ */
+import { SparkSearchDocument } from '../types/spark';
+
+export interface SearchEntry extends SparkSearchDocument {
+    sparkId: string;
+    normalizedTitle: string;
+    normalizedText: string; // Title, subtitle and body together
+}
+
+// Entries grouped by spark so one spark can be re-indexed without touching the rest
+export type SearchIndex = Record<string, SearchEntry[]>;
+
+export interface SearchMatch {
+    entry: SearchEntry;
+    score: number;
+}
+
+/**
+ * Lowercase and strip accents so "Jalapeño" matches "jalapeno"
+ */
+export const normalizeText = (text: string): string => {
+    return text
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '');
+};
+
+export const tokenize = (query: string): string[] => {
+    return normalizeText(query).split(/\s+/).filter(Boolean);
+};
+
+/**
+ * Build index entries for one spark's documents
+ */
+export const createSearchEntries = (sparkId: string, documents: SparkSearchDocument[]): SearchEntry[] => {
+    return documents
+        .filter(doc => doc && doc.id && doc.title)
+        .map(doc => ({
+            ...doc,
+            sparkId,
+            normalizedTitle: normalizeText(doc.title),
+            normalizedText: normalizeText([doc.title, doc.subtitle, doc.body].filter(Boolean).join('\n')),
+        }));
+};
+
+const isWordStart = (text: string, token: string): boolean => {
+    let index = text.indexOf(token);
+    while (index !== -1) {
+        if (index === 0 || !/[a-z0-9]/.test(text[index - 1])) {
+            return true;
+        }
+        index = text.indexOf(token, index + 1);
+    }
+    return false;
+};
+
+const scoreToken = (entry: SearchEntry, token: string): number => {
+    if (isWordStart(entry.normalizedTitle, token)) return 4;
+    if (entry.normalizedTitle.includes(token)) return 3;
+    if (isWordStart(entry.normalizedText, token)) return 2;
+    if (entry.normalizedText.includes(token)) return 1;
+    return 0;
+};
+
+/**
+ * Find entries containing every word of the query, best matches first.
+ * Title matches rank above body matches, and word starts above substrings.
+ * @param index Index to search
+ * @param query Free text typed by the user
+ * @param limit Maximum number of matches to return
+ */
+export const searchEntries = (index: SearchIndex, query: string, limit: number = 50): SearchMatch[] => {
+    const tokens = tokenize(query);
+    if (tokens.length === 0) {
+        return [];
+    }
+
+    const matches: SearchMatch[] = [];
+    Object.values(index).forEach(entries => {
+        entries.forEach(entry => {
+            let score = 0;
+            for (const token of tokens) {
+                const tokenScore = scoreToken(entry, token);
+                if (tokenScore === 0) return;
+                score += tokenScore;
+            }
+            matches.push({ entry, score });
+        });
+    });
+
+    return matches
+        .sort((a, b) => b.score - a.score || a.entry.title.localeCompare(b.entry.title))
+        .slice(0, limit);
+};
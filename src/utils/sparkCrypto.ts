@@ -0,0 +1,123 @@
+/**
+ * Utility functions for encrypting private spark data at rest
+ */
+import { gcm } from '@noble/ciphers/aes';
+import { randomBytes } from '@noble/ciphers/webcrypto';
+import { scryptAsync } from '@noble/hashes/scrypt';
+
+// Persisted in place of a private spark's data
+export interface EncryptedPayload {
+    encrypted: 'sparks-v2';
+    iv: string; // Base64 AES-GCM nonce, random per write
+    data: string; // Base64 ciphertext of the JSON, with the GCM tag
+}
+
+// scrypt cost for turning a passcode into a key; kept with the salt so it can be raised later
+export interface KdfParams {
+    N: number;
+    r: number;
+    p: number;
+}
+
+export const DEFAULT_KDF_PARAMS: KdfParams = { N: 2 ** 15, r: 8, p: 1 };
+
+const KEY_BYTES = 32;
+const NONCE_BYTES = 12;
+
+export const isEncryptedPayload = (value: unknown): value is EncryptedPayload =>
+    !!value && typeof value === 'object' && (value as EncryptedPayload).encrypted === 'sparks-v2';
+
+export const utf8Encode = (text: string): Uint8Array => {
+    const bytes: number[] = [];
+    for (const char of text) {
+        const code = char.codePointAt(0)!;
+        if (code < 0x80) {
+            bytes.push(code);
+        } else if (code < 0x800) {
+            bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+        } else if (code < 0x10000) {
+            bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+        } else {
+            bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+        }
+    }
+    return new Uint8Array(bytes);
+};
+
+export const utf8Decode = (bytes: Uint8Array): string => {
+    let text = '';
+    for (let i = 0; i < bytes.length;) {
+        const byte = bytes[i];
+        const length = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+        let code = length === 1 ? byte : byte & (0xff >> (length + 1));
+        for (let j = 1; j < length; j++) {
+            code = (code << 6) | (bytes[i + j] & 0x3f);
+        }
+        text += String.fromCodePoint(code);
+        i += length;
+    }
+    return text;
+};
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+export const toBase64 = (bytes: Uint8Array): string => {
+    let result = '';
+    for (let i = 0; i < bytes.length; i += 3) {
+        const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+        result += BASE64[(chunk >> 18) & 63] + BASE64[(chunk >> 12) & 63];
+        result += i + 1 < bytes.length ? BASE64[(chunk >> 6) & 63] : '=';
+        result += i + 2 < bytes.length ? BASE64[chunk & 63] : '=';
+    }
+    return result;
+};
+
+export const fromBase64 = (text: string): Uint8Array => {
+    const clean = text.replace(/=+$/, '');
+    const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+    let buffer = 0;
+    let bits = 0;
+    let index = 0;
+    for (const char of clean) {
+        buffer = (buffer << 6) | BASE64.indexOf(char);
+        bits += 6;
+        if (bits >= 8) {
+            bits -= 8;
+            bytes[index++] = (buffer >> bits) & 0xff;
+        }
+    }
+    return bytes;
+};
+
+/**
+ * Derive a 32-byte key from a passcode with scrypt
+ */
+export const deriveKey = (passcode: string, salt: Uint8Array, params: KdfParams = DEFAULT_KDF_PARAMS): Promise<Uint8Array> =>
+    scryptAsync(utf8Encode(passcode), salt, { ...params, dkLen: KEY_BYTES });
+
+/**
+ * Encrypt a JSON value with AES-256-GCM under a fresh random nonce
+ * @param key 32-byte key
+ */
+export const encryptPayload = (value: unknown, key: Uint8Array): EncryptedPayload => {
+    const nonce = randomBytes(NONCE_BYTES);
+    return {
+        encrypted: 'sparks-v2',
+        iv: toBase64(nonce),
+        data: toBase64(gcm(key, nonce).encrypt(utf8Encode(JSON.stringify(value)))),
+    };
+};
+
+/**
+ * Decrypt a payload written by encryptPayload
+ * @throws Error when the key is wrong or the payload was altered
+ */
+export const decryptPayload = (payload: EncryptedPayload, key: Uint8Array): any => {
+    let plaintext: Uint8Array;
+    try {
+        plaintext = gcm(key, fromBase64(payload.iv)).decrypt(fromBase64(payload.data));
+    } catch {
+        throw new Error('Wrong passcode or damaged data');
+    }
+    return JSON.parse(utf8Decode(plaintext));
+};
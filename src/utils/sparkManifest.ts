@@ -0,0 +1,54 @@
+/**
+ * Utility functions for describing what a spark's manifest declares
+ */
+
+import { SparkCapability, SparkManifest } from '../types/spark';
+
+export const CAPABILITY_INFO: Record<SparkCapability, { label: string; icon: string }> = {
+    camera: { label: 'Camera', icon: '📷' },
+    microphone: { label: 'Microphone', icon: '🎤' },
+    location: { label: 'Location', icon: '📍' },
+    notifications: { label: 'Notifications', icon: '🔔' },
+    'media-library': { label: 'Photos', icon: '🖼️' },
+};
+
+// One line of a manifest as shown to users
+export interface ManifestEntry {
+    key: string;
+    label: string;
+    icon: string;
+    reason: string;
+}
+
+export const getManifestCapabilities = (manifest?: SparkManifest): SparkCapability[] =>
+    Object.keys(manifest?.capabilities || {}) as SparkCapability[];
+
+/**
+ * Everything a spark declares, permissions first, in a stable order
+ */
+export const describeManifest = (manifest?: SparkManifest): ManifestEntry[] => {
+    if (!manifest) return [];
+
+    const entries: ManifestEntry[] = getManifestCapabilities(manifest).map(capability => ({
+        key: capability,
+        ...CAPABILITY_INFO[capability],
+        reason: manifest.capabilities![capability]!,
+    }));
+    if (manifest.network) {
+        entries.push({ key: 'network', label: 'Internet', icon: '🌐', reason: manifest.network });
+    }
+    if (manifest.ai) {
+        entries.push({ key: 'ai', label: 'AI', icon: '✨', reason: manifest.ai });
+    }
+    if (manifest.sharing) {
+        entries.push({ key: 'sharing', label: 'Sharing', icon: '📤', reason: manifest.sharing });
+    }
+    if (manifest.beta) {
+        entries.push({ key: 'beta', label: 'Beta', icon: '🧪', reason: 'Still in development and may change' });
+    }
+    return entries;
+};
+
+// Short labels used to filter sparks in the Marketplace
+export const getManifestLabels = (manifest?: SparkManifest): string[] =>
+    describeManifest(manifest).map(entry => entry.label);
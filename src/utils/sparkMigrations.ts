@@ -0,0 +1,74 @@
+/**
+ * Utility functions for upgrading persisted spark data between schema versions
+ */
+import { SparkDataSchema } from '../types/spark';
+
+export interface SparkMigrationResult {
+    data: Record<string, any>;
+    version: number;
+}
+
+/**
+ * Run the migrations needed to bring one spark's data up to its schema version.
+ * Data saved before versioning existed is treated as version 0.
+ * Data from a newer schema than this build knows is returned untouched.
+ * @param data Persisted data for the spark
+ * @param fromVersion Version the data was last saved with
+ * @param schema The spark's declared data schema
+ * @returns Migrated data and the version it now conforms to
+ */
+export const migrateSparkData = (
+    data: Record<string, any>,
+    fromVersion: number,
+    schema: SparkDataSchema
+): SparkMigrationResult => {
+    if (schema.migrations.length !== schema.version) {
+        throw new Error(
+            `Schema version ${schema.version} requires ${schema.version} migrations, got ${schema.migrations.length}`
+        );
+    }
+
+    if (fromVersion >= schema.version) {
+        return { data, version: fromVersion };
+    }
+
+    let migrated = data;
+    for (let version = fromVersion; version < schema.version; version++) {
+        migrated = schema.migrations[version](migrated);
+    }
+
+    return { data: migrated, version: schema.version };
+};
+
+/**
+ * Migrate every spark that declares a schema and has persisted data.
+ * A spark whose migration throws keeps its original data and version so it
+ * can be retried on the next launch instead of being half-upgraded.
+ * @param sparkData All persisted spark data keyed by spark id
+ * @param versions Recorded schema version per spark id
+ * @param schemas Declared schemas keyed by spark id
+ * @returns Updated spark data and versions
+ */
+export const migrateAllSparkData = (
+    sparkData: Record<string, Record<string, any>>,
+    versions: Record<string, number>,
+    schemas: Record<string, SparkDataSchema>
+): { sparkData: Record<string, Record<string, any>>; versions: Record<string, number> } => {
+    const nextData = { ...sparkData };
+    const nextVersions = { ...versions };
+
+    Object.entries(schemas).forEach(([sparkId, schema]) => {
+        const data = sparkData[sparkId];
+        if (!data || Object.keys(data).length === 0) return;
+
+        try {
+            const result = migrateSparkData(data, versions[sparkId] ?? 0, schema);
+            nextData[sparkId] = result.data;
+            nextVersions[sparkId] = result.version;
+        } catch (error) {
+            console.error(`Failed to migrate data for spark '${sparkId}':`, error);
+        }
+    });
+
+    return { sparkData: nextData, versions: nextVersions };
+};
@@ -0,0 +1,67 @@
+/**
+ * Utility functions for measuring storage use
+ */
+
+/**
+ * Size of a string once written to storage as UTF-8
+ */
+export const byteLength = (text: string): number => {
+    let bytes = 0;
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        if (code < 0x80) {
+            bytes += 1;
+        } else if (code < 0x800) {
+            bytes += 2;
+        } else if (code >= 0xd800 && code <= 0xdbff && i + 1 < text.length) {
+            // Surrogate pair: one 4-byte character
+            bytes += 4;
+            i++;
+        } else {
+            bytes += 3;
+        }
+    }
+    return bytes;
+};
+
+/**
+ * Size of a value serialized the way the stores persist it
+ */
+export const jsonByteLength = (value: unknown): number => {
+    if (value === undefined) return 0;
+    return byteLength(JSON.stringify(value));
+};
+
+export const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ['KB', 'MB', 'GB'];
+    let size = bytes / 1024;
+    let unit = 0;
+    while (size >= 1024 && unit < units.length - 1) {
+        size /= 1024;
+        unit++;
+    }
+    return `${size.toFixed(size < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+/**
+ * Turn a stored file reference into a path relative to documentDirectory.
+ * Sparks store either relative paths ("foodcam/1.jpg") or absolute URIs, and
+ * absolute URIs from an older install keep the old container path, so a known
+ * directory name is matched too. Returns null for files outside documentDirectory.
+ * @param uri Relative path or absolute file URI
+ * @param documentDirectory FileSystem.documentDirectory
+ * @param directories Directories the spark owns, e.g. ["foodcam/"]
+ */
+export const toDocumentPath = (uri: string, documentDirectory: string, directories: string[] = []): string | null => {
+    if (!uri || /^(https?|data|content|ph):/.test(uri)) return null;
+    if (uri.startsWith(documentDirectory)) return uri.substring(documentDirectory.length);
+
+    for (const dir of directories) {
+        const index = uri.lastIndexOf(`/${dir}`);
+        if (index !== -1) return uri.substring(index + 1);
+    }
+
+    if (uri.startsWith('file:') || uri.startsWith('/')) return null;
+    return uri;
+};
@@ -0,0 +1,215 @@
+/**
+ * Utility functions for merging spark data synced between devices
+ */
+
+// Change times (ms) that decide which side of a merge wins
+export interface SyncClock {
+    fields: Record<string, number>; // Top-level keys merged as a whole (last writer wins)
+    items: Record<string, Record<string, number>>; // Item lists: key -> item id -> last change
+    deleted: Record<string, Record<string, number>>; // Item lists: key -> item id -> deletion time
+}
+
+export interface SyncedSparkData {
+    data: Record<string, any>;
+    clock: SyncClock;
+    updatedAt: number;
+    schemaVersion?: number; // dataSchema version of the app that wrote it
+}
+
+// Hashes of the values last stamped, keyed "field" or "list/itemId"
+export type SyncHashes = Record<string, string>;
+
+export const emptyClock = (): SyncClock => ({ fields: {}, items: {}, deleted: {} });
+
+/**
+ * Lists of records with ids (todos, toviews, rounds...) are merged item by item
+ */
+export const isItemList = (value: unknown): value is { id: string | number }[] =>
+    Array.isArray(value) &&
+    value.every(item => item && typeof item === 'object' && (typeof item.id === 'string' || typeof item.id === 'number'));
+
+const itemId = (item: { id: string | number }): string => String(item.id);
+
+// An empty array is only an item list once it has held items; until then it
+// could as well be a list of strings
+const isTrackedList = (value: unknown, clock: SyncClock, key: string): boolean =>
+    isItemList(value) && (value.length > 0 || !!clock.items[key]);
+
+// djb2 over the JSON form; only used to notice changes
+export const hashValue = (value: unknown): string => {
+    const text = JSON.stringify(value) ?? 'undefined';
+    let hash = 5381;
+    for (let i = 0; i < text.length; i++) {
+        hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+    }
+    return `${text.length}:${(hash >>> 0).toString(36)}`;
+};
+
+/**
+ * Hash every field and list item of a spark's data
+ */
+export const hashSyncedData = (data: Record<string, any>, clock: SyncClock): SyncHashes => {
+    const hashes: SyncHashes = {};
+    Object.entries(data).forEach(([key, value]) => {
+        if (isTrackedList(value, clock, key)) {
+            (value as { id: string | number }[]).forEach(item => {
+                hashes[`${key}/${itemId(item)}`] = hashValue(item);
+            });
+        } else {
+            hashes[key] = hashValue(value);
+        }
+    });
+    return hashes;
+};
+
+/**
+ * Give the current time to every field and item that changed since the
+ * last stamp, and a tombstone to every item that disappeared.
+ * @param data The spark's current data
+ * @param clock Clock from the last stamp or merge
+ * @param hashes Hashes from the last stamp or merge
+ * @param now Time of the change
+ */
+export const stampChanges = (
+    data: Record<string, any>,
+    clock: SyncClock,
+    hashes: SyncHashes,
+    now: number
+): { clock: SyncClock; hashes: SyncHashes; changed: boolean } => {
+    const next: SyncClock = { fields: { ...clock.fields }, items: { ...clock.items }, deleted: { ...clock.deleted } };
+    const nextHashes = hashSyncedData(data, clock);
+    let changed = false;
+
+    const keys = new Set([...Object.keys(data), ...Object.keys(clock.fields), ...Object.keys(clock.items)]);
+    keys.forEach(key => {
+        const value = data[key];
+
+        if (isTrackedList(value, clock, key) || (value === undefined && clock.items[key])) {
+            const items = isItemList(value) ? value : [];
+            const times = { ...(clock.items[key] || {}) };
+            const deleted = { ...(clock.deleted[key] || {}) };
+            const present = new Set<string>();
+
+            items.forEach(item => {
+                const id = itemId(item);
+                present.add(id);
+                if (times[id] === undefined || hashes[`${key}/${id}`] !== nextHashes[`${key}/${id}`]) {
+                    times[id] = now;
+                    delete deleted[id];
+                    changed = true;
+                }
+            });
+            Object.keys(times).forEach(id => {
+                if (!present.has(id)) {
+                    delete times[id];
+                    deleted[id] = now;
+                    changed = true;
+                }
+            });
+
+            next.items[key] = times;
+            next.deleted[key] = deleted;
+            delete next.fields[key];
+            return;
+        }
+
+        const hash = nextHashes[key] ?? hashValue(undefined);
+        if (next.fields[key] === undefined || (hashes[key] ?? hashValue(undefined)) !== hash) {
+            next.fields[key] = now;
+            changed = true;
+        }
+        delete next.items[key];
+        delete next.deleted[key];
+    });
+
+    return { clock: next, hashes: nextHashes, changed };
+};
+
+const mergeTimes = (a: Record<string, number> = {}, b: Record<string, number> = {}): Record<string, number> => {
+    const merged = { ...a };
+    Object.entries(b).forEach(([id, time]) => {
+        merged[id] = Math.max(merged[id] ?? 0, time);
+    });
+    return merged;
+};
+
+const mergeItemList = (key: string, local: SyncedSparkData, remote: SyncedSparkData) => {
+    const localItems = isItemList(local.data[key]) ? local.data[key] : [];
+    const remoteItems = isItemList(remote.data[key]) ? remote.data[key] : [];
+    const localTimes = local.clock.items[key] || {};
+    const remoteTimes = remote.clock.items[key] || {};
+    const deleted = mergeTimes(local.clock.deleted[key], remote.clock.deleted[key]);
+
+    // Keep local order and append items only the other device has
+    const order: string[] = [];
+    const items = new Map<string, any>();
+    const times: Record<string, number> = {};
+
+    localItems.forEach((item: any) => {
+        const id = itemId(item);
+        order.push(id);
+        items.set(id, item);
+        times[id] = localTimes[id] ?? 0;
+    });
+    remoteItems.forEach((item: any) => {
+        const id = itemId(item);
+        const time = remoteTimes[id] ?? 0;
+        if (!items.has(id)) {
+            order.push(id);
+        } else if (time < times[id]) {
+            return;
+        }
+        items.set(id, item);
+        times[id] = time;
+    });
+
+    // An edit after a deletion brings the item back
+    const kept = order.filter(id => !(deleted[id] !== undefined && deleted[id] >= times[id]));
+    const keptTimes: Record<string, number> = {};
+    kept.forEach(id => {
+        keptTimes[id] = times[id];
+        delete deleted[id];
+    });
+
+    return { items: kept.map(id => items.get(id)), times: keptTimes, deleted };
+};
+
+/**
+ * Merge two copies of a spark's data. Item lists are merged per item (newest
+ * change wins, deletions are kept as tombstones); every other top-level key
+ * is last-writer-wins. Ties go to the remote copy so devices converge.
+ */
+export const mergeSyncedData = (local: SyncedSparkData, remote: SyncedSparkData): SyncedSparkData => {
+    const data: Record<string, any> = {};
+    const clock = emptyClock();
+
+    const keys = new Set([
+        ...Object.keys(local.data), ...Object.keys(remote.data),
+        ...Object.keys(local.clock.fields), ...Object.keys(remote.clock.fields),
+        ...Object.keys(local.clock.items), ...Object.keys(remote.clock.items),
+    ]);
+
+    keys.forEach(key => {
+        // Item-level merge unless either side now holds something other than an item list
+        const sides = [local.data[key], remote.data[key]];
+        const isList = (local.clock.items[key] || remote.clock.items[key])
+            && sides.every(value => value === undefined || isItemList(value));
+        if (isList) {
+            const merged = mergeItemList(key, local, remote);
+            data[key] = merged.items;
+            clock.items[key] = merged.times;
+            clock.deleted[key] = merged.deleted;
+            return;
+        }
+
+        const localTime = local.clock.fields[key] ?? 0;
+        const remoteTime = remote.clock.fields[key] ?? 0;
+        const value = localTime > remoteTime ? local.data[key] : remote.data[key];
+        if (value !== undefined) {
+            data[key] = value;
+        }
+        clock.fields[key] = Math.max(localTime, remoteTime);
+    });
+
+    return { data, clock, updatedAt: Math.max(local.updatedAt, remote.updatedAt) };
+};
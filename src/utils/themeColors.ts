@@ -0,0 +1,119 @@
+/**
+ * Utility functions for validating theme palettes and checking color contrast
+ */
+
+import { ThemeColors, ThemePalette } from '../types/theme';
+import { validators, Validator } from './dataValidation';
+
+// Every ThemeColors key, in the order the theme editor lists them
+export const THEME_COLOR_KEYS: (keyof ThemeColors)[] = [
+    'primary',
+    'secondary',
+    'background',
+    'surface',
+    'card',
+    'text',
+    'textSecondary',
+    'border',
+    'success',
+    'warning',
+    'error',
+    'info',
+];
+
+// WCAG AA minimums: body text, and large text or UI such as buttons
+export const MIN_TEXT_CONTRAST = 4.5;
+export const MIN_UI_CONTRAST = 3;
+
+export const isHexColor = (value: unknown): value is string =>
+    typeof value === 'string' && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value);
+
+const hexColor = (): Validator<string> => (value) =>
+    isHexColor(value) ? { ok: true, value } : { ok: false, reason: `expected hex color, got ${String(value)}` };
+
+const themeColorsShape = THEME_COLOR_KEYS.reduce((shape, key) => {
+    shape[key] = hexColor();
+    return shape;
+}, {} as Record<keyof ThemeColors, Validator<string>>);
+
+const themePalette = validators.object({
+    id: validators.string(),
+    name: validators.string(),
+    light: validators.object(themeColorsShape),
+    dark: validators.object(themeColorsShape),
+    builtIn: validators.optional(validators.boolean()),
+});
+
+export const isValidThemeColors = (colors: unknown): colors is ThemeColors =>
+    validators.object(themeColorsShape)(colors, 'colors', []).ok;
+
+/**
+ * Check a palette against the ThemeColors schema for both light and dark mode
+ */
+export const validateThemePalette = (
+    value: unknown
+): { ok: true; palette: ThemePalette } | { ok: false; reason: string } => {
+    const result = themePalette(value, 'theme', []);
+    if (!result.ok) {
+        return { ok: false, reason: result.reason };
+    }
+    if (!result.value.id.trim() || !result.value.name.trim()) {
+        return { ok: false, reason: 'id and name must not be empty' };
+    }
+    return { ok: true, palette: result.value as ThemePalette };
+};
+
+const toRgb = (hex: string): [number, number, number] => {
+    let digits = hex.slice(1);
+    if (digits.length === 3) {
+        digits = digits.split('').map(digit => digit + digit).join('');
+    }
+    return [0, 2, 4].map(offset => parseInt(digits.slice(offset, offset + 2), 16)) as [number, number, number];
+};
+
+const relativeLuminance = (hex: string): number => {
+    const [r, g, b] = toRgb(hex).map(channel => {
+        const value = channel / 255;
+        return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+    });
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+/**
+ * WCAG contrast ratio between two hex colors, from 1 (identical) to 21 (black on white)
+ */
+export const contrastRatio = (foreground: string, background: string): number => {
+    const [lighter, darker] = [relativeLuminance(foreground), relativeLuminance(background)].sort((a, b) => b - a);
+    return (lighter + 0.05) / (darker + 0.05);
+};
+
+/**
+ * White or black, whichever reads better on the given color (e.g. text on an accent button)
+ */
+export const getReadableTextColor = (background: string): '#FFFFFF' | '#000000' =>
+    contrastRatio('#FFFFFF', background) >= contrastRatio('#000000', background) ? '#FFFFFF' : '#000000';
+
+export interface ContrastIssue {
+    foreground: keyof ThemeColors;
+    background: keyof ThemeColors;
+    ratio: number;
+    minimum: number;
+}
+
+const CONTRAST_CHECKS: [keyof ThemeColors, keyof ThemeColors, number][] = [
+    ['text', 'background', MIN_TEXT_CONTRAST],
+    ['text', 'surface', MIN_TEXT_CONTRAST],
+    ['text', 'card', MIN_TEXT_CONTRAST],
+    ['textSecondary', 'background', MIN_UI_CONTRAST],
+    ['primary', 'background', MIN_UI_CONTRAST],
+];
+
+/**
+ * Color pairs in a palette that fall below the WCAG minimums, for warnings in the theme editor
+ */
+export const findContrastIssues = (colors: ThemeColors): ContrastIssue[] =>
+    CONTRAST_CHECKS.flatMap(([foreground, background, minimum]) => {
+        if (!isHexColor(colors[foreground]) || !isHexColor(colors[background])) return [];
+        const ratio = contrastRatio(colors[foreground], colors[background]);
+        return ratio < minimum ? [{ foreground, background, ratio, minimum }] : [];
+    });
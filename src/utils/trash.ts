@@ -0,0 +1,50 @@
+/**
+ * Utility functions for keeping deleted spark items in the trash
+ */
+
+import { TrashedItem } from '../types/trash';
+import { generateId } from './idUtils';
+
+// How long deleted items can be restored
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whole days left before a trashed item is purged, 0 once it is due
+ */
+export const daysUntilPurge = (trashed: TrashedItem, now: Date = new Date()): number => {
+    const expiresAt = new Date(trashed.deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS;
+    return Math.max(0, Math.ceil((expiresAt - now.getTime()) / DAY_MS));
+};
+
+export const isTrashExpired = (trashed: TrashedItem, now: Date = new Date()): boolean =>
+    daysUntilPurge(trashed, now) === 0;
+
+/**
+ * Put a trashed item back at the end of the list it came from.
+ * If the item is already there nothing changes; if another item has taken its id
+ * (sparks that number items reuse them), the restored item gets a new one.
+ */
+export const restoreTrashedItem = (data: Record<string, any>, trashed: TrashedItem): Record<string, any> => {
+    const list: any[] = Array.isArray(data[trashed.collection]) ? data[trashed.collection] : [];
+    const existing = list.find(item => item?.id === trashed.itemId);
+    if (existing && JSON.stringify(existing) === JSON.stringify(trashed.item)) {
+        return data;
+    }
+
+    let item = trashed.item;
+    if (existing) {
+        const id = typeof trashed.itemId === 'number'
+            ? Math.max(0, ...list.map(other => (typeof other?.id === 'number' ? other.id : 0))) + 1
+            : generateId();
+        item = { ...item, id };
+    }
+    return { ...data, [trashed.collection]: [...list, item] };
+};
+
+/**
+ * A spark's data as if its trashed items had not been deleted, so files they reference are kept
+ */
+export const withTrashedItems = (data: Record<string, any>, trashed: TrashedItem[]): Record<string, any> =>
+    trashed.reduce((merged, item) => restoreTrashedItem(merged, item), data);
@@ -0,0 +1,175 @@
+/**
+ * Utility functions for matching, checking and describing spark voice intents
+ */
+
+import { BaseSpark, SparkIntentParam, SparkVoiceIntent } from '../types/spark';
+import { parseSpokenDate } from './commandGrammar';
+import { toLocalDateString } from './dateUtils';
+
+/**
+ * The spark's intent for an action name or one of its aliases
+ */
+export const findVoiceIntent = (spark: BaseSpark | undefined, action: string): SparkVoiceIntent | undefined =>
+    spark?.voiceIntents?.find(intent => intent.action === action || intent.aliases?.includes(action));
+
+const isBlank = (value: unknown): boolean =>
+    value === undefined ||
+    value === null ||
+    (typeof value === 'string' && !value.trim()) ||
+    (Array.isArray(value) && value.length === 0);
+
+// The value converted to the param's type, or undefined when it doesn't fit
+const resolveValue = (param: SparkIntentParam, value: unknown, now: Date): unknown => {
+    switch (param.type) {
+        case 'number': {
+            const number = typeof value === 'number' ? value : parseFloat(String(value));
+            return Number.isFinite(number) ? number : undefined;
+        }
+        case 'date':
+            return parseSpokenDate(String(value), now);
+        case 'list': {
+            const items = (Array.isArray(value) ? value : String(value).split(','))
+                .map(item => String(item).trim())
+                .filter(Boolean);
+            return items.length > 0 ? items : undefined;
+        }
+        default: {
+            const text = String(value).trim();
+            if (!param.options) {
+                return text;
+            }
+            const spoken = param.synonyms?.[text.toLowerCase()] ?? text;
+            return param.options.find(option => option.toLowerCase() === spoken.toLowerCase());
+        }
+    }
+};
+
+const describeInvalid = (param: SparkIntentParam, value: unknown): string => {
+    if (param.options) {
+        return `"${value}" isn't a valid ${param.description}. Try ${param.options.join(', ')}.`;
+    }
+    if (param.type === 'date') {
+        return `I couldn't understand the date "${value}".`;
+    }
+    return `"${value}" isn't a valid ${param.description}.`;
+};
+
+/**
+ * Check a command's params against an intent before its handler runs.
+ * Required params must be present; values are converted to their declared
+ * types and params the intent doesn't declare are dropped.
+ */
+export const resolveIntentParams = (
+    intent: SparkVoiceIntent,
+    params: Record<string, any>,
+    now: Date = new Date()
+): { ok: true; params: Record<string, any> } | { ok: false; reason: string } => {
+    const resolved: Record<string, any> = {};
+
+    for (const [name, param] of Object.entries(intent.params)) {
+        const value = params[name];
+        if (isBlank(value)) {
+            if (param.required) {
+                return { ok: false, reason: `Missing ${param.description}.` };
+            }
+            continue;
+        }
+
+        const converted = resolveValue(param, value, now);
+        if (converted === undefined) {
+            return { ok: false, reason: describeInvalid(param, value) };
+        }
+        resolved[name] = converted;
+    }
+
+    return { ok: true, params: resolved };
+};
+
+const describeParam = (name: string, param: SparkIntentParam): string => {
+    let type: string = param.type;
+    if (param.options) {
+        type = param.options.map(option => `'${option}'`).join('|');
+    } else if (param.type === 'date') {
+        type = "date (YYYY-MM-DD, or spoken like 'tomorrow' or 'friday')";
+    } else if (param.type === 'list') {
+        type = 'string[]';
+    } else if (param.multiple) {
+        type = `${param.type} | ${param.type}[]`;
+    }
+    const description = param.multiple ? `${param.description}; an array when several are listed` : param.description;
+    return `${name}${param.required ? '' : '?'}: ${type} (${description})`;
+};
+
+const describeIntent = (intent: SparkVoiceIntent): string => {
+    const actions = [intent.action, ...(intent.aliases || [])].map(action => `"${action}"`).join(' / ');
+    const params = Object.entries(intent.params)
+        .filter(([, param]) => !param.hidden)
+        .map(([name, param]) => describeParam(name, param));
+    const lines = [`   - ${actions}: ${intent.description}`];
+    if (intent.keywords?.length) {
+        lines.push(`     Keywords: ${intent.keywords.map(keyword => `"${keyword}"`).join(', ')}`);
+    }
+    lines.push(`     Params: { ${params.join(', ')} }`);
+    return lines.join('\n');
+};
+
+/**
+ * Example phrases from every intent, e.g. for suggestions in SpeakSpark
+ */
+export const getVoiceCommandExamples = (sparks: BaseSpark[]): string[] =>
+    sparks
+        .filter(spark => !spark.metadata.archived)
+        .flatMap(spark => (spark.voiceIntents || []).flatMap(intent => intent.examples.map(example => example.text)));
+
+/**
+ * The command parser prompt, generated from the sparks' declared intents.
+ * Today's date is included so relative dates can be turned into YYYY-MM-DD.
+ */
+export const buildCommandParserPrompt = (sparks: BaseSpark[], now: Date = new Date()): string => {
+    const available = sparks.filter(spark => !spark.metadata.archived);
+    const withIntents = available.filter(spark => spark.voiceIntents?.length);
+
+    const intentSections = withIntents.map((spark, index) =>
+        `${index + 1}. "${spark.metadata.id}" (${spark.metadata.title}):\n${spark.voiceIntents!.map(describeIntent).join('\n')}`
+    );
+
+    const examples = withIntents.flatMap(spark =>
+        spark.voiceIntents!.flatMap(intent =>
+            intent.examples.map(example =>
+                `"${example.text}" -> ${JSON.stringify({
+                    targetSpark: spark.metadata.id,
+                    action: intent.action,
+                    params: example.params,
+                    confidence: 0.9,
+                })}`
+            )
+        )
+    );
+
+    return `
+You are a voice command parser for the Sparks app.
+Analyze the user's spoken command and extract intent.
+Return ONLY a JSON object, or a JSON array of objects in the order they were said
+when the user asks for several things at once (e.g. "add a todo to call Mom and then open Shop").
+Today is ${toLocalDateString(now)}.
+
+Supported Actions:
+1. The spark actions listed below, for adding, changing or removing data in a specific spark.
+   For changes, "item" is the words the user said to name the existing item (e.g. "milk" in "mark milk done").
+   "query" actions answer questions about a spark's data (e.g. "how many todos are due today").
+2. "open": For navigating to a specific spark.
+
+Supported Sparks for Data Entry:
+${intentSections.join('\n\n')}
+
+Supported Sparks for Navigation ("open" action):
+${available.map(spark => `- "${spark.metadata.id}" (${spark.metadata.title})`).join('\n')}
+
+Examples:
+${examples.join('\n')}
+"Open Trip Story" -> { "targetSpark": "trip-story", "action": "open", "params": {}, "confidence": 1.0 }
+"Go to My Goals" -> { "targetSpark": "goal-tracker", "action": "open", "params": {}, "confidence": 1.0 }
+
+Return { "targetSpark": "unknown", "action": "unknown", "params": {}, "confidence": 0.0 } if unclear.
+`;
+};